@@ -0,0 +1,11 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Polyfill for `navigator`, which is accessed when the kvstore modules are loaded but is
+ * not defined by older versions of Node.js.
+ */
+
+(globalThis as any).navigator ??= { userAgent: "" };
@@ -32,6 +32,7 @@ from .server import (
 from .url_state import parse_url, to_json_dump, to_url  # noqa: F401
 from .viewer import UnsynchronizedViewer, Viewer  # noqa: F401
 from .viewer_config_state import (
+    AnnotationEvent,  # noqa: F401
     LayerSelectedValues,  # noqa: F401
     LayerSelectionState,  # noqa: F401
     PrefetchState,  # noqa: F401
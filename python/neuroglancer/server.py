@@ -64,6 +64,8 @@ SET_STATE_PATH_REGEX = r"^/state/(?P<viewer_token>[^/]+)$"
 
 CREDENTIALS_PATH_REGEX = r"^/credentials/(?P<viewer_token>[^/]+)$"
 
+ANNOTATION_EVENTS_PATH_REGEX = r"^/annotation_events/(?P<viewer_token>[^/]+)$"
+
 global_static_content_source = None
 
 global_server_args = dict(bind_address="127.0.0.1", bind_port=0)
@@ -140,6 +142,11 @@ class Server(async_util.BackgroundTornadoServer):
                 (EVENTS_PATH_REGEX, EventStreamHandler, dict(server=self)),
                 (SET_STATE_PATH_REGEX, SetStateHandler, dict(server=self)),
                 (CREDENTIALS_PATH_REGEX, CredentialsHandler, dict(server=self)),
+                (
+                    ANNOTATION_EVENTS_PATH_REGEX,
+                    AnnotationEventsHandler,
+                    dict(server=self),
+                ),
             ],
             log_function=log_function,
         )
@@ -220,6 +227,19 @@ class ActionHandler(BaseRequestHandler):
         self.finish("")
 
 
+class AnnotationEventsHandler(BaseRequestHandler):
+    def post(self, viewer_token):
+        viewer = self.server.viewers.get(viewer_token)
+        if viewer is None:
+            self.send_error(404)
+            return
+        request = json.loads(self.request.body)
+        self.server.loop.call_soon(
+            viewer.annotation_events.invoke, request["e"], request["c"], request["s"]
+        )
+        self.finish("")
+
+
 class VolumeInfoResponseHandler(BaseRequestHandler):
     def post(self, viewer_token, request_id):
         viewer = self.server.viewers.get(viewer_token)
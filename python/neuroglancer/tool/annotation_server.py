@@ -0,0 +1,540 @@
+#!/usr/bin/env python
+# Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+# Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+# SPDX-License-Identifier: BSD-2-Clause
+# The software/firmware is provided to you on an As-Is basis
+
+"""Serves a writable precomputed annotation collection from a local directory.
+
+Both the annotation collection format, which must use the unsharded annotation
+id index format, and the blocked annotation collection format are supported.
+Edits made in Neuroglancer are written back to the directory using the protocols
+described in `src/datasource/precomputed/annotations.md` and
+`src/datasource/precomputed/annotation_blocks.md`.
+
+For the annotation collection format, all annotations are loaded into memory.
+The info file is served with `"writable": true`, a single-cell spatial index and
+related object id indices that are all generated on demand, so that edits are
+immediately reflected in every index.  The spatial and related object id index
+files in the directory are not modified; regenerate them (e.g. with
+`neuroglancer.write_annotations`) if the collection is to be served statically
+afterwards.
+
+For the blocked format, blocks are read from and written to the directory
+directly.
+
+WARNING: Because this web server permits cross-origin requests, any web page
+running on a machine that can connect to the web server can read and modify the
+annotations.
+"""
+
+import argparse
+import copy
+import hashlib
+import json
+import os
+import re
+import struct
+import sys
+import threading
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from typing import Optional, Union
+
+_FIXED_GEOMETRY_VECTORS = {
+    "POINT": 1,
+    "LINE": 2,
+    "AXIS_ALIGNED_BOUNDING_BOX": 2,
+    "ELLIPSOID": 2,
+}
+
+_VARIABLE_LENGTH_TYPES = ("LINE_STRING", "POLYGON")
+
+_PROPERTY_BYTES = {
+    "uint8": 1,
+    "int8": 1,
+    "uint16": 2,
+    "int16": 2,
+    "uint32": 4,
+    "int32": 4,
+    "float32": 4,
+    "rgb": 3,
+    "rgba": 4,
+    "tags": 4,
+}
+
+_SPATIAL_KEY = "spatial0"
+
+
+def _relationship_key(index: int):
+    return f"rel{index}"
+
+
+def _get_etag(data: bytes) -> str:
+    return '"%s"' % hashlib.sha1(data).hexdigest()
+
+
+def _check_precondition(
+    existing: Optional[bytes], create_only: bool, if_match: Optional[str]
+) -> bool:
+    """Returns whether the `If-None-Match: *` and `If-Match` conditions of a
+    request are satisfied by the existing content of a file."""
+    if create_only and existing is not None:
+        return False
+    if if_match is not None and (existing is None or _get_etag(existing) != if_match):
+        return False
+    return True
+
+
+class _AnnotationEncoding:
+    """Annotation encoding specified by an info file."""
+
+    def __init__(self, info):
+        self.info = info
+        self.rank = len(self.info["dimensions"])
+        self.annotation_type = self.info["annotation_type"].upper()
+        if (
+            self.annotation_type not in _FIXED_GEOMETRY_VECTORS
+            and self.annotation_type not in _VARIABLE_LENGTH_TYPES
+        ):
+            raise ValueError(
+                f"Unsupported annotation type: {self.annotation_type}"
+            )
+        property_bytes = 0
+        for p in self.info.get("properties", []):
+            if p["type"] not in _PROPERTY_BYTES:
+                raise ValueError(f"Unsupported property type: {p['type']}")
+            property_bytes += _PROPERTY_BYTES[p["type"]]
+        # Properties are ordered by decreasing alignment, so the only padding is at
+        # the end.
+        self.property_bytes = (property_bytes + 3) // 4 * 4
+
+    def get_encoded_bytes(self, data: bytes, offset: int):
+        """Returns the size of the geometry and property values of the annotation
+        encoded at `offset`.
+
+        Raises `ValueError` if `data` is too short.
+        """
+        if self.annotation_type in _VARIABLE_LENGTH_TYPES:
+            if len(data) < offset + 4:
+                raise ValueError("Expected vertex count")
+            (num_vertices,) = struct.unpack_from("<I", data, offset)
+            min_vertices = 3 if self.annotation_type == "POLYGON" else 1
+            if num_vertices < min_vertices:
+                raise ValueError(f"Invalid vertex count: {num_vertices}")
+            geometry_bytes = 4 + num_vertices * self.rank * 4
+        else:
+            num_vectors = _FIXED_GEOMETRY_VECTORS[self.annotation_type]
+            geometry_bytes = num_vectors * self.rank * 4
+        num_bytes = geometry_bytes + self.property_bytes
+        if len(data) < offset + num_bytes:
+            raise ValueError(
+                f"Expected at least {offset + num_bytes} bytes, "
+                f"but received: {len(data)}"
+            )
+        return num_bytes
+
+
+class AnnotationCollection(_AnnotationEncoding):
+    """In-memory copy of a precomputed annotation collection."""
+
+    def __init__(self, directory: str, info):
+        _AnnotationEncoding.__init__(self, info)
+        by_id = self.info["by_id"]
+        if "sharding" in by_id:
+            raise ValueError("Annotation id index must not be sharded")
+        self.by_id_key = by_id["key"].strip("/")
+        self.by_id_directory = os.path.join(directory, self.by_id_key)
+        os.makedirs(self.by_id_directory, exist_ok=True)
+        self.num_relationships = len(self.info.get("relationships", []))
+        self.lock = threading.Lock()
+        # Maps annotation id to `(encoded, relationships)`, where `encoded` excludes
+        # the related object ids.
+        self.annotations: dict[int, tuple[bytes, list[list[int]]]] = {}
+        for name in os.listdir(self.by_id_directory):
+            if not name.isdigit():
+                continue
+            with open(os.path.join(self.by_id_directory, name), "rb") as f:
+                self.annotations[int(name)] = self.decode(f.read())
+
+    def decode(self, data: bytes):
+        """Splits a single annotation encoding into the geometry and property
+        values, and the related object ids.
+
+        Raises `ValueError` if `data` is not a valid encoding.
+        """
+        offset = self.get_encoded_bytes(data, 0)
+        encoded = data[:offset]
+        relationships = []
+        for _ in range(self.num_relationships):
+            if len(data) < offset + 4:
+                raise ValueError("Expected related object id count")
+            (count,) = struct.unpack_from("<I", data, offset)
+            offset += 4
+            if len(data) < offset + 8 * count:
+                raise ValueError("Expected related object ids")
+            relationships.append(list(struct.unpack_from(f"<{count}Q", data, offset)))
+            offset += 8 * count
+        if offset != len(data):
+            raise ValueError(f"Expected {offset} bytes, but received: {len(data)}")
+        return encoded, relationships
+
+    def get_info(self):
+        info = copy.deepcopy(self.info)
+        info["writable"] = True
+        lower_bound = info["lower_bound"]
+        upper_bound = info["upper_bound"]
+        info["spatial"] = [
+            {
+                "key": _SPATIAL_KEY,
+                "grid_shape": [1] * self.rank,
+                "chunk_size": [
+                    max(1, upper - lower)
+                    for lower, upper in zip(lower_bound, upper_bound)
+                ],
+                "limit": max(1, len(self.annotations)),
+            }
+        ]
+        for i, relationship in enumerate(info.get("relationships", [])):
+            relationship["key"] = _relationship_key(i)
+            relationship.pop("sharding", None)
+        return info
+
+    def _encode_single(self, annotation_id: int):
+        entry = self.annotations.get(annotation_id)
+        if entry is None:
+            return None
+        encoded, relationships = entry
+        parts = [encoded]
+        for ids in relationships:
+            parts.append(struct.pack(f"<I{len(ids)}Q", len(ids), *ids))
+        return b"".join(parts)
+
+    def _get_single(self, annotation_id: int):
+        with self.lock:
+            return self._encode_single(annotation_id)
+
+    def _get_multiple(self, relationship_index=None, object_id=None):
+        """Returns the multiple annotation encoding of all annotations, or of the
+        annotations related to `object_id` by the specified relationship."""
+        with self.lock:
+            items = [
+                (annotation_id, encoded)
+                for annotation_id, (encoded, relationships) in self.annotations.items()
+                if relationship_index is None
+                or object_id in relationships[relationship_index]
+            ]
+        parts = [struct.pack("<Q", len(items))]
+        parts.extend(encoded for _, encoded in items)
+        parts.extend(struct.pack("<Q", annotation_id) for annotation_id, _ in items)
+        return b"".join(parts)
+
+    def get(self, key: str, name: str):
+        """Returns the content of the specified file, or `None` if not found."""
+        if key == self.by_id_key:
+            annotation_id = _parse_uint64(name)
+            if annotation_id is not None:
+                return self._get_single(annotation_id)
+        elif key == _SPATIAL_KEY:
+            if name == "_".join(["0"] * self.rank):
+                return self._get_multiple()
+        else:
+            object_id = _parse_uint64(name)
+            for i in range(self.num_relationships):
+                if key == _relationship_key(i) and object_id is not None:
+                    return self._get_multiple(i, object_id)
+        return None
+
+    def put(
+        self,
+        key: str,
+        name: str,
+        data: bytes,
+        create_only: bool,
+        if_match: Optional[str] = None,
+    ):
+        """Stores an annotation.
+
+        Returns the HTTP status code.  Raises `ValueError` if `data` is not a valid
+        encoding.
+        """
+        annotation_id = _parse_uint64(name)
+        if key != self.by_id_key or annotation_id is None:
+            return 404
+        entry = self.decode(data)
+        with self.lock:
+            if not _check_precondition(
+                self._encode_single(annotation_id), create_only, if_match
+            ):
+                return 412
+            _write_file(os.path.join(self.by_id_directory, name), data)
+            self.annotations[annotation_id] = entry
+        return 204
+
+    def delete(self, key: str, name: str, if_match: Optional[str] = None):
+        """Deletes an annotation.
+
+        Returns the HTTP status code.
+        """
+        annotation_id = _parse_uint64(name)
+        if key != self.by_id_key or annotation_id is None:
+            return 404
+        with self.lock:
+            if not _check_precondition(
+                self._encode_single(annotation_id), False, if_match
+            ):
+                return 412
+            if self.annotations.pop(annotation_id, None) is None:
+                return 404
+            os.remove(os.path.join(self.by_id_directory, name))
+        return 204
+
+
+class AnnotationBlockCollection(_AnnotationEncoding):
+    """Blocked annotation collection, read from and written to disk directly."""
+
+    def __init__(self, directory: str, info):
+        _AnnotationEncoding.__init__(self, info)
+        self.key = self.info["key"].strip("/")
+        self.block_directory = os.path.join(directory, self.key)
+        os.makedirs(self.block_directory, exist_ok=True)
+        self.block_pattern = "_".join(["[0-9]+"] * self.rank)
+        self.lock = threading.Lock()
+
+    def validate(self, data: bytes):
+        """Raises `ValueError` if `data` is not a valid multiple annotation encoding."""
+        if len(data) < 8:
+            raise ValueError("Expected annotation count")
+        (count,) = struct.unpack_from("<Q", data, 0)
+        offset = 8
+        for _ in range(count):
+            offset += self.get_encoded_bytes(data, offset)
+        offset += 8 * count
+        if offset != len(data):
+            raise ValueError(f"Expected {offset} bytes, but received: {len(data)}")
+
+    def get_info(self):
+        info = copy.deepcopy(self.info)
+        info["writable"] = True
+        return info
+
+    def _get_path(self, key: str, name: str):
+        if key != self.key or re.fullmatch(self.block_pattern, name) is None:
+            return None
+        return os.path.join(self.block_directory, name)
+
+    @staticmethod
+    def _read_file(path: str):
+        try:
+            with open(path, "rb") as f:
+                return f.read()
+        except FileNotFoundError:
+            return None
+
+    def get(self, key: str, name: str):
+        """Returns the content of the specified block, or `None` if not found."""
+        path = self._get_path(key, name)
+        if path is None:
+            return None
+        with self.lock:
+            return self._read_file(path)
+
+    def put(
+        self,
+        key: str,
+        name: str,
+        data: bytes,
+        create_only: bool,
+        if_match: Optional[str] = None,
+    ):
+        """Stores a block.
+
+        Returns the HTTP status code.  Raises `ValueError` if `data` is not a valid
+        encoding.
+        """
+        path = self._get_path(key, name)
+        if path is None:
+            return 404
+        self.validate(data)
+        with self.lock:
+            if not _check_precondition(self._read_file(path), create_only, if_match):
+                return 412
+            _write_file(path, data)
+        return 204
+
+    def delete(self, key: str, name: str, if_match: Optional[str] = None):
+        """Deletes a block.
+
+        Returns the HTTP status code.
+        """
+        path = self._get_path(key, name)
+        if path is None:
+            return 404
+        with self.lock:
+            if not _check_precondition(self._read_file(path), False, if_match):
+                return 412
+            try:
+                os.remove(path)
+            except FileNotFoundError:
+                return 404
+        return 204
+
+
+def _write_file(path: str, data: bytes):
+    temp_path = path + ".tmp"
+    with open(temp_path, "wb") as f:
+        f.write(data)
+    os.replace(temp_path, path)
+
+
+def _parse_uint64(s: str):
+    if re.fullmatch("[0-9]+", s) is None:
+        return None
+    value = int(s)
+    if value >= 2**64:
+        return None
+    return value
+
+
+def load_collection(directory: str):
+    with open(os.path.join(directory, "info")) as f:
+        info = json.load(f)
+    annotation_type = info.get("@type")
+    if annotation_type == "neuroglancer_annotations_v1":
+        return AnnotationCollection(directory, info)
+    if annotation_type == "neuroglancer_annotation_blocks_v1":
+        return AnnotationBlockCollection(directory, info)
+    raise ValueError(f"Unsupported @type: {annotation_type!r}")
+
+
+class RequestHandler(BaseHTTPRequestHandler):
+    server: "Server"
+
+    def end_headers(self):
+        self.send_header("Access-Control-Allow-Origin", "*")
+        self.send_header("Access-Control-Expose-Headers", "ETag")
+        self.send_header("Cache-Control", "no-cache")
+        BaseHTTPRequestHandler.end_headers(self)
+
+    def _send(
+        self,
+        status: int,
+        body: bytes = b"",
+        content_type=None,
+        headers: Optional[dict] = None,
+    ):
+        self.send_response(status)
+        if content_type is not None:
+            self.send_header("Content-Type", content_type)
+        for name, value in (headers or {}).items():
+            self.send_header(name, value)
+        self.send_header("Content-Length", str(len(body)))
+        self.end_headers()
+        if self.command != "HEAD":
+            self.wfile.write(body)
+
+    def _parse_path(self):
+        return self.path.split("?", 1)[0].strip("/").split("/")
+
+    def _parse_file_path(self):
+        """Returns the `(key, name)` pair for a file within a sub-directory."""
+        parts = self._parse_path()
+        if len(parts) != 2:
+            return None
+        return parts[0], parts[1]
+
+    def do_OPTIONS(self):
+        self.send_response(204)
+        self.send_header("Access-Control-Allow-Methods", "GET, HEAD, PUT, DELETE")
+        self.send_header(
+            "Access-Control-Allow-Headers", "Content-Type, If-Match, If-None-Match"
+        )
+        self.send_header("Content-Length", "0")
+        self.end_headers()
+
+    def do_GET(self):
+        collection = self.server.collection
+        if self._parse_path() == ["info"]:
+            self._send(
+                200,
+                json.dumps(collection.get_info()).encode("utf-8"),
+                "application/json",
+            )
+            return
+        path = self._parse_file_path()
+        body = None if path is None else collection.get(*path)
+        if body is None:
+            self._send(404)
+        else:
+            self._send(
+                200, body, "application/octet-stream", {"ETag": _get_etag(body)}
+            )
+
+    do_HEAD = do_GET
+
+    def do_PUT(self):
+        path = self._parse_file_path()
+        if path is None:
+            self._send(404)
+            return
+        data = self.rfile.read(int(self.headers.get("Content-Length", 0)))
+        try:
+            status = self.server.collection.put(
+                *path,
+                data,
+                create_only=self.headers.get("If-None-Match") == "*",
+                if_match=self.headers.get("If-Match"),
+            )
+        except ValueError as e:
+            self._send(400, str(e).encode("utf-8"), "text/plain")
+            return
+        headers = {"ETag": _get_etag(data)} if status == 204 else None
+        self._send(status, headers=headers)
+
+    def do_DELETE(self):
+        path = self._parse_file_path()
+        if path is None:
+            self._send(404)
+            return
+        self._send(
+            self.server.collection.delete(*path, if_match=self.headers.get("If-Match"))
+        )
+
+
+class Server(ThreadingHTTPServer):
+    protocol_version = "HTTP/1.1"
+
+    def __init__(
+        self,
+        server_address,
+        collection: Union[AnnotationCollection, AnnotationBlockCollection],
+    ):
+        ThreadingHTTPServer.__init__(self, server_address, RequestHandler)
+        self.collection = collection
+
+
+if __name__ == "__main__":
+    ap = argparse.ArgumentParser()
+    ap.add_argument(
+        "-p", "--port", type=int, default=9000, help="TCP port to listen on"
+    )
+    ap.add_argument("-a", "--bind", default="127.0.0.1", help="Bind address")
+    ap.add_argument(
+        "-d",
+        "--directory",
+        default=".",
+        help="Directory containing the annotation collection info file",
+    )
+
+    args = ap.parse_args()
+    collection = load_collection(args.directory)
+    server = Server((args.bind, args.port), collection)
+    sa = server.socket.getsockname()
+    print(
+        "Serving annotations from %s at http://%s:%d"
+        % (os.path.abspath(args.directory), sa[0], sa[1])
+    )
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        server.server_close()
+        sys.exit(0)
@@ -0,0 +1,243 @@
+#!/usr/bin/env python
+# Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+# Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+# SPDX-License-Identifier: BSD-2-Clause
+# The software/firmware is provided to you on an As-Is basis
+
+"""Serves a local directory over HTTP, permitting files to be written.
+
+Files may be read with `GET` and `HEAD` requests, including byte range requests,
+and written and deleted with `PUT` and `DELETE` requests.  Responses include an
+`ETag` that may be specified in the `If-Match` header of a subsequent write, and
+`If-None-Match: *` requires that the file does not exist, such that Neuroglancer
+can write files conditionally.  This allows, for example, label edits of a zarr
+array in the directory to be saved from Neuroglancer.
+
+Cross-origin requests are permitted only from the origins specified with
+`--allow-origin`, by default the origin of the Neuroglancer demo deployment, and
+requests from any other origin are rejected.
+
+WARNING: Any web page served from an allowed origin, and any client other than a
+web browser, that can connect to the web server can read and modify the files in
+the directory.  Specifying `--allow-origin '*'` permits requests from every web
+page.
+"""
+
+import argparse
+import os
+import re
+import sys
+import tempfile
+import threading
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from typing import Optional
+
+RANGE_PATTERN = re.compile(r"^bytes=(\d*)-(\d*)$")
+
+# Origin of the Neuroglancer demo deployment, the same as
+# `neuroglancer.url_state.default_neuroglancer_url`.
+DEFAULT_ALLOWED_ORIGIN = "https://neuroglancer-demo.appspot.com"
+
+
+def _get_etag(st: os.stat_result) -> str:
+    # Files are replaced rather than modified in place, so the inode changes on
+    # every write.
+    return f'"{st.st_ino:x}-{st.st_mtime_ns:x}-{st.st_size:x}"'
+
+
+class RequestHandler(BaseHTTPRequestHandler):
+    server: "Server"
+    protocol_version = "HTTP/1.1"
+
+    def _is_origin_allowed(self) -> bool:
+        origin = self.headers.get("Origin")
+        allowed_origins = self.server.allowed_origins
+        return origin is None or "*" in allowed_origins or origin in allowed_origins
+
+    def end_headers(self):
+        origin = self.headers.get("Origin")
+        if origin is not None and self._is_origin_allowed():
+            self.send_header("Access-Control-Allow-Origin", origin)
+        self.send_header("Vary", "Origin")
+        self.send_header(
+            "Access-Control-Expose-Headers", "Content-Range, Content-Length, ETag"
+        )
+        self.send_header("Cache-Control", "no-cache")
+        BaseHTTPRequestHandler.end_headers(self)
+
+    def _send(
+        self,
+        status: int,
+        body: bytes = b"",
+        content_type=None,
+        headers: Optional[dict] = None,
+    ):
+        self.send_response(status)
+        if content_type is not None:
+            self.send_header("Content-Type", content_type)
+        for name, value in (headers or {}).items():
+            self.send_header(name, value)
+        self.send_header("Content-Length", str(len(body)))
+        self.end_headers()
+        if self.command != "HEAD":
+            self.wfile.write(body)
+
+    def _get_file_path(self) -> Optional[str]:
+        """Returns the path of the requested file, or `None` if it is outside the
+        directory."""
+        root = self.server.directory
+        relative_path = self.path.split("?", 1)[0].lstrip("/")
+        path = os.path.normpath(os.path.join(root, relative_path))
+        if os.path.commonpath([root, path]) != root or path == root:
+            return None
+        return path
+
+    def _check_precondition(self, path: str) -> bool:
+        """Returns whether the `If-Match` and `If-None-Match` conditions of the
+        request are satisfied."""
+        try:
+            etag = _get_etag(os.stat(path))
+        except FileNotFoundError:
+            etag = None
+        if_match = self.headers.get("If-Match")
+        if if_match is not None and if_match != etag:
+            return False
+        if self.headers.get("If-None-Match") == "*" and etag is not None:
+            return False
+        return True
+
+    def parse_request(self) -> bool:
+        # Reject requests from other origins before they are dispatched, such that
+        # they cannot read or modify files even if the browser does not send a
+        # preflight request.
+        if not BaseHTTPRequestHandler.parse_request(self):
+            return False
+        if not self._is_origin_allowed():
+            # The request body is not read, so the connection cannot be reused.
+            self.close_connection = True
+            self.send_error(403, "Origin not allowed")
+            return False
+        return True
+
+    def do_OPTIONS(self):
+        self.send_response(204)
+        self.send_header("Access-Control-Allow-Methods", "GET, HEAD, PUT, DELETE")
+        self.send_header(
+            "Access-Control-Allow-Headers",
+            "Content-Type, Range, If-Match, If-None-Match",
+        )
+        self.send_header("Content-Length", "0")
+        self.end_headers()
+
+    def do_GET(self):
+        path = self._get_file_path()
+        if path is None or not os.path.isfile(path):
+            self._send(404)
+            return
+        with open(path, "rb") as f:
+            st = os.fstat(f.fileno())
+            size = st.st_size
+            headers = {"ETag": _get_etag(st), "Accept-Ranges": "bytes"}
+            range_header = self.headers.get("Range")
+            if range_header is None:
+                self._send(200, f.read(), "application/octet-stream", headers)
+                return
+            m = RANGE_PATTERN.match(range_header.strip())
+            if m is None or m.group(1) == m.group(2) == "":
+                self._send(400)
+                return
+            if m.group(1) == "":
+                # Suffix range.
+                start = max(0, size - int(m.group(2)))
+                end = size
+            else:
+                start = int(m.group(1))
+                end = size if m.group(2) == "" else min(size, int(m.group(2)) + 1)
+            if start >= size or start >= end:
+                self._send(416, headers={"Content-Range": f"bytes */{size}"})
+                return
+            f.seek(start)
+            headers["Content-Range"] = f"bytes {start}-{end - 1}/{size}"
+            self._send(206, f.read(end - start), "application/octet-stream", headers)
+
+    do_HEAD = do_GET
+
+    def do_PUT(self):
+        path = self._get_file_path()
+        if path is None:
+            self._send(404)
+            return
+        data = self.rfile.read(int(self.headers.get("Content-Length", 0)))
+        with self.server.lock:
+            if not self._check_precondition(path):
+                self._send(412)
+                return
+            directory = os.path.dirname(path)
+            os.makedirs(directory, exist_ok=True)
+            # Write to a temporary file that replaces the existing file, so that
+            # concurrent reads never see a partially written file.
+            fd, temp_path = tempfile.mkstemp(dir=directory, prefix=".tmp-")
+            try:
+                with os.fdopen(fd, "wb") as f:
+                    f.write(data)
+                os.replace(temp_path, path)
+            except BaseException:
+                os.unlink(temp_path)
+                raise
+            etag = _get_etag(os.stat(path))
+        self._send(200, headers={"ETag": etag})
+
+    def do_DELETE(self):
+        path = self._get_file_path()
+        if path is None:
+            self._send(404)
+            return
+        with self.server.lock:
+            if not self._check_precondition(path):
+                self._send(412)
+                return
+            try:
+                os.unlink(path)
+            except FileNotFoundError:
+                self._send(404)
+                return
+        self._send(204)
+
+
+class Server(ThreadingHTTPServer):
+    def __init__(self, server_address, directory: str, allowed_origins: list[str]):
+        ThreadingHTTPServer.__init__(self, server_address, RequestHandler)
+        self.directory = os.path.abspath(directory)
+        self.allowed_origins = allowed_origins
+        # Serializes conditional writes.
+        self.lock = threading.Lock()
+
+
+if __name__ == "__main__":
+    ap = argparse.ArgumentParser()
+    ap.add_argument(
+        "-p", "--port", type=int, default=9000, help="TCP port to listen on"
+    )
+    ap.add_argument("-a", "--bind", default="127.0.0.1", help="Bind address")
+    ap.add_argument("-d", "--directory", default=".", help="Directory to serve")
+    ap.add_argument(
+        "--allow-origin",
+        action="append",
+        help="Origin from which cross-origin requests are permitted, e.g. "
+        "http://localhost:8080, or * to permit requests from any origin.  May be "
+        f"specified more than once.  Defaults to {DEFAULT_ALLOWED_ORIGIN}.",
+    )
+
+    args = ap.parse_args()
+    server = Server(
+        (args.bind, args.port),
+        args.directory,
+        args.allow_origin or [DEFAULT_ALLOWED_ORIGIN],
+    )
+    sa = server.socket.getsockname()
+    print("Serving %s at http://%s:%d" % (server.directory, sa[0], sa[1]))
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        server.server_close()
+        sys.exit(0)
@@ -97,6 +97,16 @@ class ViewerCommonBase:
 
         self.actions = viewer_config_state.Actions(set_actions)
 
+        def set_annotation_event_layers(layers):
+            def func(s):
+                s.annotation_event_layers = layers
+
+            self.config_state.retry_txn(func, lock=True)
+
+        self.annotation_events = viewer_config_state.AnnotationEvents(
+            set_annotation_event_layers
+        )
+
         self.volume_manager = LocalVolumeManager(self.token + ".")
 
         self.__watched_volumes = dict()
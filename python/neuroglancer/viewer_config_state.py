@@ -183,6 +183,84 @@ class Actions:
                     traceback.print_exc()
 
 
+def _annotation_event_annotation(obj, _readonly=False):
+    # Annotation types without a Python wrapper are left as JSON.
+    if obj.get("type") not in viewer_state.annotation_types:
+        return obj
+    return viewer_state.annotation(obj, _readonly=_readonly)
+
+
+_annotation_event_annotation.supports_readonly = True  # type: ignore[attr-defined]
+
+
+class AnnotationEvent(JsonObjectWrapper):
+    """Edit of an annotation made in the viewer.
+
+    The `type` is one of "add", "update", "delete" or "commit".  Only "add" and
+    "update" events specify the `annotation`.
+    """
+
+    __slots__ = ()
+    type = wrapped_property("type", text_type)
+    layer = wrapped_property("layer", text_type)
+    source_index = sourceIndex = wrapped_property("sourceIndex", int)
+    subsource_id = subsourceId = wrapped_property("subsourceId", text_type)
+    id = wrapped_property("id", text_type)  # pylint: disable=invalid-name
+    annotation = wrapped_property("annotation", optional(_annotation_event_annotation))
+
+
+class AnnotationEvents:
+    """Dispatches annotation edits made in the viewer to subscribed callbacks.
+
+    Callbacks are subscribed per layer name, and are called with an
+    `AnnotationEvent` for each edit, in the order in which the edits were made.
+
+    Each client numbers the batches of events it sends, and retries batches
+    that fail; batches that were already received are ignored.
+    """
+
+    def __init__(self, set_config):
+        self._handlers = dict()
+        self._set_config = set_config
+        self._last_sequence = dict()
+
+    def subscribe(self, layer, handler):
+        self._handlers.setdefault(layer, set()).add(handler)
+        self._update_config()
+
+    def unsubscribe(self, layer, handler):
+        handlers = self._handlers.get(layer)
+        if handlers is None:
+            return
+        handlers.discard(handler)
+        if not handlers:
+            del self._handlers[layer]
+        self._update_config()
+
+    def clear(self):
+        self._handlers.clear()
+        self._update_config()
+
+    def _update_config(self):
+        self._set_config(self._handlers.keys())
+
+    def invoke(self, events, client_id=None, sequence=None):
+        if client_id is not None:
+            if sequence <= self._last_sequence.get(client_id, -1):
+                return
+            self._last_sequence[client_id] = sequence
+        for event in events:
+            event = AnnotationEvent(event)
+            handlers = self._handlers.get(event.layer)
+            if handlers is None:
+                continue
+            for handler in list(handlers):
+                try:
+                    handler(event)
+                except Exception:
+                    traceback.print_exc()
+
+
 EventActionMap = typed_string_map(text_type)
 
 
@@ -318,6 +396,9 @@ class ConfigState(JsonObjectWrapper):
     volume_requests = volumeRequests = wrapped_property(
         "volumeRequests", typed_list(VolumeRequest)
     )
+    annotation_event_layers = annotationEventLayers = wrapped_property(
+        "annotationEventLayers", typed_set(text_type)
+    )
 
 
 class PrivateState(JsonObjectWrapper):
@@ -540,6 +540,16 @@ _shader_control_parameters.supports_readonly = True  # type: ignore[attr-defined
 ShaderControls = typed_string_map(_shader_control_parameters)
 
 
+def _volume_rendering_mode_value(x):
+    if isinstance(x, bool):
+        return x
+    if isinstance(x, str) and x.lower() in ("off", "on", "max", "min"):
+        return x.lower()
+    raise ValueError(
+        f"Expected bool or one of 'off', 'on', 'max', 'min', but received: {x!r}"
+    )
+
+
 @export
 class ImageLayer(Layer, _AnnotationLayerOptions):
     __slots__ = ()
@@ -555,7 +565,7 @@ class ImageLayer(Layer, _AnnotationLayerOptions):
     opacity = wrapped_property("opacity", optional(float, 0.5))
     blend = wrapped_property("blend", optional(str))
     volume_rendering = volumeRendering = wrapped_property(
-        "volumeRendering", optional(bool, False)
+        "volumeRendering", optional(_volume_rendering_mode_value, False)
     )
     volume_rendering_gain = volumeRenderingGain = wrapped_property(
         "volumeRenderingGain", optional(float, 1)
@@ -1006,6 +1016,10 @@ class AnnotationPropertySpec(JsonObjectWrapper):
         "enum_values", optional(typed_list(number_or_string))
     )
     enum_labels = wrapped_property("enum_labels", optional(typed_list(text_type)))
+    tags = wrapped_property("tags", optional(typed_list(text_type)))
+    tag_descriptions = wrapped_property(
+        "tag_descriptions", optional(typed_list(optional(text_type)))
+    )
 
 
 @export
@@ -1668,6 +1682,9 @@ class ViewerState(JsonObjectWrapper):
     concurrent_downloads = concurrentDownloads = wrapped_property(
         "concurrentDownloads", optional(int)
     )
+    persistent_cache_limit = persistentCacheLimit = wrapped_property(
+        "persistentCacheLimit", optional(int)
+    )
     prefetch = wrapped_property("prefetch", optional(bool, True))
     layers = wrapped_property("layers", Layers)
     layout = wrapped_property("layout", layout_specification)
@@ -45,8 +45,20 @@ _PROPERTY_DTYPES: dict[
     "float32": (("<f4",), 4),
     "rgb": (("|u1", (3,)), 1),
     "rgba": (("|u1", (4,)), 1),
+    "tags": (("<u4",), 4),
 }
 
+
+def _encode_tags(
+    spec: viewer_state.AnnotationPropertySpec, tags: Sequence[str]
+) -> int:
+    """Encodes a sequence of tag names as a bit mask."""
+    mask = 0
+    for tag in tags:
+        mask |= 1 << spec.tags.index(tag)
+    return mask
+
+
 AnnotationType = Literal["point", "line", "axis_aligned_bounding_box", "ellipsoid"]
 
 
@@ -176,7 +188,10 @@ class AnnotationWriter:
 
         for i, p in enumerate(self.properties):
             if p.id in kwargs:
-                encoded[()][f"property{i}"] = kwargs.pop(p.id)
+                value = kwargs.pop(p.id)
+                if p.type == "tags" and not isinstance(value, numbers.Integral):
+                    value = _encode_tags(p, value)
+                encoded[()][f"property{i}"] = value
 
         related_ids = []
         for relationship in self.relationships:
@@ -0,0 +1,56 @@
+# Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+# Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+# SPDX-License-Identifier: BSD-2-Clause
+# The software/firmware is provided to you on an As-Is basis
+"""Tests that annotation edits are streamed to subscribed callbacks."""
+
+import threading
+
+import neuroglancer
+import numpy as np
+
+
+def test_annotation_events(webdriver):
+    from selenium.webdriver.common.keys import Keys
+
+    with webdriver.viewer.txn() as s:
+        s.dimensions = neuroglancer.CoordinateSpace(
+            names=["x", "y", "z"], units="nm", scales=[1, 1, 1]
+        )
+        s.layers.append(
+            name="a",
+            layer=neuroglancer.LocalAnnotationLayer(dimensions=s.dimensions),
+        )
+        s.layout = "xy"
+        s.cross_section_scale = 1e-6
+        s.show_axis_lines = False
+        s.selected_layer.layer = "a"
+        s.layers["a"].tool = "annotatePoint"
+
+    events = []
+    committed = threading.Event()
+
+    def handle_event(event):
+        events.append(event)
+        if event.type == "commit":
+            committed.set()
+
+    webdriver.viewer.annotation_events.subscribe("a", handle_event)
+    webdriver.sync()
+    chain = webdriver.action_chain().key_down(Keys.CONTROL)
+    chain = chain.move_to_element_with_offset(webdriver.root_element, 100, 100).click()
+    chain.key_up(Keys.CONTROL)
+    chain.perform()
+    assert committed.wait(timeout=10)
+
+    annotations = webdriver.viewer.state.layers["a"].annotations
+    assert len(annotations) == 1
+    assert [event.type for event in events] == ["add", "commit"]
+    assert all(event.layer == "a" for event in events)
+    assert all(event.id == annotations[0].id for event in events)
+    assert isinstance(events[0].annotation, neuroglancer.PointAnnotation)
+    np.testing.assert_array_equal(events[0].annotation.point, annotations[0].point)
+    assert events[1].annotation is None
+
+    webdriver.viewer.annotation_events.unsubscribe("a", handle_event)
+    assert webdriver.viewer.config_state.state.annotation_event_layers == set()
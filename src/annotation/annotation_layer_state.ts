@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { MultiscaleAnnotationSource } from "#src/annotation/frontend_source.js";
@@ -20,6 +23,7 @@ import type {
   AnnotationSource,
 } from "#src/annotation/index.js";
 import { propertyTypeDataType } from "#src/annotation/index.js";
+import { parseAnnotationQuery } from "#src/annotation/query.js";
 import type { LayerDataSource } from "#src/layer/layer_data_source.js";
 import type {
   ChunkTransformParameters,
@@ -33,6 +37,7 @@ import type { WatchableValueInterface } from "#src/trackable_value.js";
 import {
   makeCachedLazyDerivedWatchableValue,
   registerNested,
+  TrackableValue,
   WatchableValue,
 } from "#src/trackable_value.js";
 import { TrackableRGB } from "#src/util/color.js";
@@ -42,6 +47,7 @@ import { RefCounted } from "#src/util/disposable.js";
 import type { ValueOrError } from "#src/util/error.js";
 import { makeValueOrError, valueOrThrow } from "#src/util/error.js";
 import { vec3 } from "#src/util/geom.js";
+import { verifyString } from "#src/util/json.js";
 import { WatchableMap } from "#src/util/watchable_map.js";
 import {
   makeTrackableFragmentMain,
@@ -182,6 +188,17 @@ export class AnnotationDisplayState extends RefCounted {
     this.ignoreNullSegmentFilter,
   );
   hoverState = new AnnotationHoverState(undefined);
+  /**
+   * Property query (see `#src/annotation/query.ts`) restricting the annotations that are listed and
+   * rendered.
+   */
+  filterQuery = new TrackableValue<string>("", verifyString);
+  filterQueryResult = makeCachedLazyDerivedWatchableValue(
+    (query, annotationProperties) =>
+      parseAnnotationQuery(annotationProperties ?? [], query),
+    this.filterQuery,
+    this.annotationProperties,
+  );
 }
 
 export class AnnotationLayerState extends RefCounted {
@@ -108,12 +108,15 @@ export class AnnotationGeometryData implements SerializedAnnotations {
   typeToIds: string[][];
   typeToIdMaps: Map<string, number>[];
   typeToPrimitiveCount: number[];
+  typeToPrimitiveOffsets: number[][];
 
   serialize(msg: any, transfers: any[]) {
     msg.data = this.data;
     msg.typeToOffset = this.typeToOffset;
     msg.typeToIds = this.typeToIds;
     msg.typeToIdMaps = this.typeToIdMaps;
+    msg.typeToPrimitiveCount = this.typeToPrimitiveCount;
+    msg.typeToPrimitiveOffsets = this.typeToPrimitiveOffsets;
     transfers.push(this.data.buffer);
   }
 
@@ -190,7 +193,11 @@ export class AnnotationGeometryChunkSourceBackend extends SliceViewChunkSourceBa
   parent: Borrowed<AnnotationSource>;
   constructor(rpc: RPC, options: any) {
     super(rpc, options);
-    this.parent = rpc.get(options.parent);
+    const parent = (this.parent = rpc.get(options.parent));
+    parent.spatiallyIndexedSources.add(this);
+    this.registerDisposer(() => {
+      parent.spatiallyIndexedSources.delete(this);
+    });
   }
 }
 AnnotationGeometryChunkSourceBackend.prototype.chunkConstructor =
@@ -246,6 +253,7 @@ export class AnnotationSource extends SharedObjectCounterpart {
   chunkManager: Borrowed<ChunkManager>;
   metadataChunkSource: AnnotationMetadataChunkSource;
   segmentFilteredSources: AnnotationSubsetGeometryChunkSource[];
+  spatiallyIndexedSources = new Set<AnnotationGeometryChunkSourceBackend>();
   constructor(rpc: RPC, options: any) {
     super(rpc, options);
     const chunkManager = (this.chunkManager = <ChunkManager>(
@@ -284,6 +292,34 @@ export class AnnotationSource extends SharedObjectCounterpart {
     }
   }
 
+  /**
+   * Updates the cached metadata chunk for annotation `id`, if any, to reflect a successfully
+   * written update.  The chunk is updated in place rather than invalidated since the frontend has
+   * already applied the update to its reference.
+   */
+  updateMetadataChunk(id: AnnotationId, newAnnotation: Annotation | null) {
+    const chunk = this.metadataChunkSource.chunks.get(id) as
+      | AnnotationMetadataChunk
+      | undefined;
+    if (chunk !== undefined && chunk.annotation !== undefined) {
+      chunk.annotation = newAnnotation;
+    }
+  }
+
+  /**
+   * Invalidates all spatially indexed and segment-filtered geometry chunks, since a successfully
+   * written update may move an annotation between chunks.
+   */
+  invalidateGeometryChunks() {
+    const { queueManager } = this.chunkManager;
+    for (const source of this.spatiallyIndexedSources) {
+      queueManager.invalidateSourceCache(source);
+    }
+    for (const source of this.segmentFilteredSources) {
+      queueManager.invalidateSourceCache(source);
+    }
+  }
+
   add(annotation: Annotation): Promise<AnnotationId> {
     annotation;
     throw new Error("Not implemented");
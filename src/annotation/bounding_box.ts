@@ -624,7 +624,6 @@ function snapPositionToCorner(position: Float32Array, corners: Float32Array) {
 registerAnnotationTypeRenderHandler<AxisAlignedBoundingBox>(
   AnnotationType.AXIS_ALIGNED_BOUNDING_BOX,
   {
-    bytes: () => 6 * 4,
     sliceViewRenderHelper: SliceViewRenderHelper,
     perspectiveViewRenderHelper: PerspectiveViewRenderHelper,
     defineShaderNoOpSetters(builder) {
@@ -632,7 +631,7 @@ registerAnnotationTypeRenderHandler<AxisAlignedBoundingBox>(
       addBorderNoOpSetters(builder);
     },
     staticPickIdsPerInstance: PICK_IDS_PER_INSTANCE,
-    pickIdsPerInstance: (annotations) => Array(annotations.length).fill(PICK_IDS_PER_INSTANCE),
+    pickIdsPerInstance: (primitiveCounts) => Array(primitiveCounts.length).fill(PICK_IDS_PER_INSTANCE),
     assignPickingInformation(mouseState:MouseSelectionState, pickIds:number[], pickedOffset:number) {
       mouseState.pickedAnnotationIndex = Math.floor(pickedOffset / pickIds[0]);
       mouseState.pickedOffset = pickedOffset % pickIds[0];
@@ -0,0 +1,289 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for annotation CSV import and export.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  exportAnnotationsToCsv,
+  formatCsv,
+  getDefaultCsvColumnMapping,
+  importAnnotationsFromCsv,
+  parseCsv,
+} from "#src/annotation/csv.js";
+import type {
+  Annotation,
+  AnnotationPropertySpec,
+  LineString,
+  Point,
+} from "#src/annotation/index.js";
+import {
+  AnnotationType,
+  getLineStringVertices,
+  makeLineStringPoints,
+} from "#src/annotation/index.js";
+
+const properties: AnnotationPropertySpec[] = [
+  {
+    identifier: "score",
+    description: undefined,
+    type: "float32",
+    default: 0,
+  },
+  {
+    identifier: "label",
+    description: undefined,
+    type: "uint8",
+    default: 0,
+    enumValues: [1, 2],
+    enumLabels: ["soma", "axon"],
+  },
+];
+
+// Layer coordinates are offset by 10 from annotation coordinates.
+const toLayerPosition = (x: Float32Array) => x.map((v) => v + 10);
+const toChunkPosition = (x: Float32Array) => x.map((v) => v - 10);
+
+describe("parseCsv", () => {
+  it("handles quoting, line endings and blank lines", () => {
+    expect(parseCsv('a,"b,""c"""\r\n\n"d\ne",\n')).toEqual([
+      ["a", 'b,"c"'],
+      ["d\ne", ""],
+    ]);
+  });
+
+  it("round trips with formatCsv", () => {
+    const rows = [
+      ["x", 'a "quoted", value'],
+      ["", "line\nbreak"],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('a,"b')).toThrow(/Unterminated/);
+  });
+});
+
+describe("getDefaultCsvColumnMapping", () => {
+  it("matches header names case-insensitively", () => {
+    expect(
+      getDefaultCsvColumnMapping(
+        ["Z", "y", "X", "Score", "other"],
+        ["x", "y", "z"],
+        properties,
+      ),
+    ).toEqual({
+      id: undefined,
+      type: undefined,
+      description: undefined,
+      coordinates: [2, 1, 0],
+      properties: [3, undefined],
+    });
+  });
+});
+
+describe("importAnnotationsFromCsv", () => {
+  it("imports centroids as points", () => {
+    const rows = parseCsv("z,y,x,score\n1,2,3,0.5\n4,5,6,\n");
+    const mapping = getDefaultCsvColumnMapping(
+      rows[0],
+      ["x", "y", "z"],
+      properties,
+    );
+    const annotations = importAnnotationsFromCsv(
+      rows.slice(1),
+      mapping,
+      properties,
+      toChunkPosition,
+    ) as Point[];
+    expect(annotations.map((a) => a.type)).toEqual([
+      AnnotationType.POINT,
+      AnnotationType.POINT,
+    ]);
+    expect(Array.from(annotations[0].point)).toEqual([-7, -8, -9]);
+    expect(annotations[0].properties).toEqual([0.5, 0]);
+    expect(annotations[1].properties).toEqual([0, 0]);
+  });
+
+  it("groups rows by id", () => {
+    const rows = parseCsv(
+      "id,type,x,description,label\n" +
+        "a,line_string,1,first,axon\n" +
+        "b,point,5,,2\n" +
+        "a,line_string,2,,\n" +
+        "a,line_string,3,,\n",
+    );
+    const mapping = getDefaultCsvColumnMapping(rows[0], ["x"], properties);
+    const annotations = importAnnotationsFromCsv(
+      rows.slice(1),
+      mapping,
+      properties,
+      toChunkPosition,
+    );
+    expect(annotations.length).toEqual(2);
+    const lineString = annotations[0] as LineString;
+    expect(lineString.type).toEqual(AnnotationType.LINE_STRING);
+    expect(getLineStringVertices(lineString.points).map((x) => x[0])).toEqual([
+      -9, -8, -7,
+    ]);
+    expect(lineString.description).toEqual("first");
+    expect(lineString.properties).toEqual([0, 2]);
+    expect(annotations[1].type).toEqual(AnnotationType.POINT);
+    expect(annotations[1].description).toBeUndefined();
+    expect(annotations[1].properties).toEqual([0, 2]);
+  });
+
+  it("reports invalid rows", () => {
+    const mapping = getDefaultCsvColumnMapping(["id", "type", "x"], ["x"], []);
+    expect(() =>
+      importAnnotationsFromCsv(
+        [["a", "line", "1"]],
+        mapping,
+        [],
+        toChunkPosition,
+      ),
+    ).toThrow(/row 2: .*exactly 2 rows/);
+    expect(() =>
+      importAnnotationsFromCsv(
+        [["a", "point", "abc"]],
+        mapping,
+        [],
+        toChunkPosition,
+      ),
+    ).toThrow(/Invalid coordinate in row 2/);
+    expect(() =>
+      importAnnotationsFromCsv(
+        [["a", "ellipsoid", "1"]],
+        mapping,
+        [],
+        toChunkPosition,
+      ),
+    ).toThrow(/Unsupported annotation type/);
+    expect(() =>
+      importAnnotationsFromCsv(
+        [
+          ["a", "polygon", "1"],
+          ["a", "polygon", "2"],
+        ],
+        mapping,
+        [],
+        toChunkPosition,
+      ),
+    ).toThrow(/row 2: .*at least 3 rows/);
+  });
+
+  it("imports line strings with a single vertex", () => {
+    const mapping = getDefaultCsvColumnMapping(["id", "type", "x"], ["x"], []);
+    const [annotation] = importAnnotationsFromCsv(
+      [["a", "line_string", "1"]],
+      mapping,
+      [],
+      toChunkPosition,
+    );
+    expect(annotation.type).toEqual(AnnotationType.LINE_STRING);
+  });
+});
+
+describe("exportAnnotationsToCsv", () => {
+  it("round trips through importAnnotationsFromCsv", () => {
+    const annotations: Annotation[] = [
+      {
+        id: "p",
+        type: AnnotationType.POINT,
+        point: Float32Array.of(0.5, 2),
+        description: "a, b",
+        properties: [1.5, 1],
+      },
+      {
+        id: "l",
+        type: AnnotationType.LINE_STRING,
+        points: makeLineStringPoints([
+          Float32Array.of(0, 0),
+          Float32Array.of(1, 0),
+          Float32Array.of(1, 1),
+        ]),
+        properties: [0, 2],
+      },
+    ];
+    const rows = parseCsv(
+      formatCsv(
+        exportAnnotationsToCsv(
+          annotations,
+          ["x", "y"],
+          properties,
+          toLayerPosition,
+        ),
+      ),
+    );
+    expect(rows.slice(0, 2)).toEqual([
+      ["id", "type", "x", "y", "description", "score", "label"],
+      ["p", "point", "10.5", "12", "a, b", "1.5", "1"],
+    ]);
+    expect(rows.length).toEqual(5);
+    const imported = importAnnotationsFromCsv(
+      rows.slice(1),
+      getDefaultCsvColumnMapping(rows[0], ["x", "y"], properties),
+      properties,
+      toChunkPosition,
+    );
+    expect(imported.map((a) => ({ ...a, id: "" }))).toEqual(
+      annotations.map((a) => ({
+        ...a,
+        id: "",
+        description: a.description ?? undefined,
+      })),
+    );
+  });
+});
+
+describe("string and tags properties", () => {
+  const properties: AnnotationPropertySpec[] = [
+    {
+      identifier: "reviewer",
+      description: undefined,
+      type: "string",
+      default: "",
+    },
+    {
+      identifier: "cell_type",
+      description: undefined,
+      type: "tags",
+      default: 0,
+      tags: ["excitatory", "inhibitory", "soma"],
+      tagDescriptions: [undefined, undefined, undefined],
+    },
+  ];
+
+  it("round trips through CSV", () => {
+    const annotations: Annotation[] = [
+      {
+        id: "p",
+        type: AnnotationType.POINT,
+        point: Float32Array.of(1, 2),
+        properties: ["Jane Doe", 5],
+      },
+    ];
+    const rows = exportAnnotationsToCsv(
+      annotations,
+      ["x", "y"],
+      properties,
+      toLayerPosition,
+    );
+    expect(rows[1].slice(-2)).toEqual(["Jane Doe", "excitatory soma"]);
+    const imported = importAnnotationsFromCsv(
+      [...rows.slice(1), ["q", "point", "0", "0", "", "", "#inhibitory"]],
+      getDefaultCsvColumnMapping(rows[0], ["x", "y"], properties),
+      properties,
+      toChunkPosition,
+    );
+    expect(imported.map((a) => a.properties)).toEqual([
+      ["Jane Doe", 5],
+      ["", 2],
+    ]);
+  });
+});
@@ -0,0 +1,382 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Conversion between annotations and comma-separated value (CSV) tables.
+ *
+ * Annotations are represented with one row per position.  An annotation with several positions
+ * (the endpoints of a line, the corners of a bounding box, or the vertices of a line string or
+ * polygon) spans several rows with the same id, in order.  The description and property values
+ * are taken from the first row of each annotation.
+ */
+
+import type {
+  Annotation,
+  AnnotationNumericPropertySpec,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
+import {
+  annotationPropertyTypeHandlers,
+  AnnotationType,
+  getLineStringVertices,
+  makeLineStringPoints,
+  parseAnnotationPropertyTags,
+} from "#src/annotation/index.js";
+import { float32ToString } from "#src/util/float32_to_string.js";
+
+/**
+ * Annotation types that can be represented in a CSV table.
+ */
+export const csvAnnotationTypes = [
+  AnnotationType.POINT,
+  AnnotationType.LINE,
+  AnnotationType.AXIS_ALIGNED_BOUNDING_BOX,
+  AnnotationType.LINE_STRING,
+  AnnotationType.POLYGON,
+];
+
+/**
+ * Specifies the column index corresponding to each field, or `undefined` if the field is not
+ * present in the table.
+ */
+export interface AnnotationCsvColumnMapping {
+  id: number | undefined;
+  type: number | undefined;
+  description: number | undefined;
+  /**
+   * Column for each layer dimension.  Positions in unmapped dimensions are 0.
+   */
+  coordinates: (number | undefined)[];
+  /**
+   * Column for each property.  Unmapped properties take their default value.
+   */
+  properties: (number | undefined)[];
+}
+
+/**
+ * Parses CSV text as specified by RFC 4180.  Both `\n` and `\r\n` line endings are accepted, and
+ * blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let fieldStarted = false;
+  const endRow = () => {
+    if (fieldStarted || row.length !== 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+    fieldStarted = false;
+  };
+  for (let i = 0, length = text.length; i < length; ++i) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') {
+        field += c;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        ++i;
+      } else {
+        quoted = false;
+      }
+      continue;
+    }
+    switch (c) {
+      case '"':
+        quoted = true;
+        fieldStarted = true;
+        break;
+      case ",":
+        row.push(field);
+        field = "";
+        fieldStarted = true;
+        break;
+      case "\r":
+        if (text[i + 1] !== "\n") field += c;
+        break;
+      case "\n":
+        endRow();
+        break;
+      default:
+        field += c;
+        fieldStarted = true;
+        break;
+    }
+  }
+  if (quoted) {
+    throw new Error("Unterminated quoted field.");
+  }
+  endRow();
+  return rows;
+}
+
+function formatCsvField(value: string) {
+  if (!/[",\r\n]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Inverse of `parseCsv`.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(",") + "\r\n").join("");
+}
+
+function getCsvTypeName(type: AnnotationType) {
+  return AnnotationType[type].toLowerCase();
+}
+
+function parseCsvAnnotationType(value: string): AnnotationType {
+  const type = csvAnnotationTypes.find(
+    (t) => getCsvTypeName(t) === value.trim().toLowerCase(),
+  );
+  if (type === undefined) {
+    throw new Error(`Unsupported annotation type: ${JSON.stringify(value)}.`);
+  }
+  return type;
+}
+
+/**
+ * Returns the default mapping, which matches header names to field names, dimension names, and
+ * property identifiers case-insensitively.
+ */
+export function getDefaultCsvColumnMapping(
+  header: readonly string[],
+  dimensionNames: readonly string[],
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+): AnnotationCsvColumnMapping {
+  const normalizedHeader = header.map((name) => name.trim().toLowerCase());
+  const getColumn = (name: string) => {
+    const index = normalizedHeader.indexOf(name.toLowerCase());
+    return index === -1 ? undefined : index;
+  };
+  return {
+    id: getColumn("id"),
+    type: getColumn("type"),
+    description: getColumn("description"),
+    coordinates: dimensionNames.map(getColumn),
+    properties: properties.map((property) => getColumn(property.identifier)),
+  };
+}
+
+function parsePropertyValue(
+  property: Readonly<AnnotationPropertySpec>,
+  value: string,
+): number | string {
+  if (property.type === "string") {
+    return value === "" ? property.default : value;
+  }
+  value = value.trim();
+  if (value === "") return property.default;
+  if (property.type === "tags") {
+    // Tags are separated by whitespace, and may optionally be prefixed by "#".
+    return parseAnnotationPropertyTags(
+      value.split(/\s+/).map((tag) => tag.replace(/^#/, "")),
+      property,
+    );
+  }
+  const { enumLabels, enumValues } = property as AnnotationNumericPropertySpec;
+  const labelIndex = enumLabels?.indexOf(value) ?? -1;
+  if (labelIndex !== -1) return enumValues![labelIndex];
+  return annotationPropertyTypeHandlers[property.type].deserializeJson(
+    value,
+    property,
+  );
+}
+
+function getVertexCountError(type: AnnotationType, count: number) {
+  switch (type) {
+    case AnnotationType.POINT:
+      if (count === 1) return undefined;
+      return "exactly 1 row";
+    case AnnotationType.LINE:
+    case AnnotationType.AXIS_ALIGNED_BOUNDING_BOX:
+      if (count === 2) return undefined;
+      return "exactly 2 rows";
+    case AnnotationType.LINE_STRING:
+      if (count >= 1) return undefined;
+      return "at least 1 row";
+    case AnnotationType.POLYGON:
+      if (count >= 3) return undefined;
+      return "at least 3 rows";
+  }
+  return "a supported type";
+}
+
+/**
+ * Converts CSV data rows (excluding the header row) into annotations with empty ids.
+ *
+ * Rows are grouped into annotations by the id column; if there is no id column, each row is a
+ * separate annotation.  If there is no type column, annotations with a single row are points and
+ * annotations with multiple rows are line strings.
+ *
+ * @param toChunkPosition Converts a position in layer coordinates to annotation coordinates.
+ */
+export function importAnnotationsFromCsv(
+  rows: readonly string[][],
+  mapping: AnnotationCsvColumnMapping,
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+  toChunkPosition: (layerPosition: Float32Array) => Float32Array,
+): Annotation[] {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, rowIndex) => {
+    const key =
+      mapping.id === undefined ? `${rowIndex}` : row[mapping.id] ?? "";
+    let group = groups.get(key);
+    if (group === undefined) {
+      group = [];
+      groups.set(key, group);
+    }
+    group.push(rowIndex);
+  });
+  const annotations: Annotation[] = [];
+  // Row numbers in error messages account for the header row.
+  const describeRow = (rowIndex: number) => `row ${rowIndex + 2}`;
+  for (const group of groups.values()) {
+    const firstRowIndex = group[0];
+    const firstRow = rows[firstRowIndex];
+    try {
+      const type =
+        mapping.type === undefined
+          ? group.length === 1
+            ? AnnotationType.POINT
+            : AnnotationType.LINE_STRING
+          : parseCsvAnnotationType(firstRow[mapping.type] ?? "");
+      const countError = getVertexCountError(type, group.length);
+      if (countError !== undefined) {
+        throw new Error(
+          `Annotation of type ${getCsvTypeName(type)} must have ${countError}, ` +
+            `but has ${group.length}.`,
+        );
+      }
+      const positions = group.map((rowIndex) => {
+        const row = rows[rowIndex];
+        const layerPosition = new Float32Array(mapping.coordinates.length);
+        mapping.coordinates.forEach((column, dim) => {
+          if (column === undefined) return;
+          const value = (row[column] ?? "").trim();
+          const x = Number(value);
+          if (value === "" || !Number.isFinite(x)) {
+            throw new Error(
+              `Invalid coordinate in ${describeRow(rowIndex)}: ${JSON.stringify(
+                row[column] ?? "",
+              )}.`,
+            );
+          }
+          layerPosition[dim] = x;
+        });
+        return toChunkPosition(layerPosition);
+      });
+      const description =
+        mapping.description === undefined
+          ? undefined
+          : firstRow[mapping.description] || undefined;
+      const propertyValues = properties.map((property, i) => {
+        const column = mapping.properties[i];
+        if (column === undefined) return property.default;
+        return parsePropertyValue(property, firstRow[column] ?? "");
+      });
+      const base = { id: "", description, properties: propertyValues };
+      switch (type) {
+        case AnnotationType.POINT:
+          annotations.push({ ...base, type, point: positions[0] });
+          break;
+        case AnnotationType.LINE:
+        case AnnotationType.AXIS_ALIGNED_BOUNDING_BOX:
+          annotations.push({
+            ...base,
+            type,
+            pointA: positions[0],
+            pointB: positions[1],
+          });
+          break;
+        case AnnotationType.LINE_STRING:
+          annotations.push({
+            ...base,
+            type,
+            points: makeLineStringPoints(positions),
+          });
+          break;
+        case AnnotationType.POLYGON:
+          annotations.push({ ...base, type, points: positions });
+          break;
+      }
+    } catch (e) {
+      throw new Error(
+        `Error in annotation starting at ${describeRow(firstRowIndex)}: ${
+          (e as Error).message
+        }`,
+      );
+    }
+  }
+  return annotations;
+}
+
+function getCsvPositions(annotation: Annotation): Float32Array[] {
+  switch (annotation.type) {
+    case AnnotationType.POINT:
+      return [annotation.point];
+    case AnnotationType.LINE:
+    case AnnotationType.AXIS_ALIGNED_BOUNDING_BOX:
+      return [annotation.pointA, annotation.pointB];
+    case AnnotationType.LINE_STRING:
+      return getLineStringVertices(annotation.points);
+    case AnnotationType.POLYGON:
+      return annotation.points;
+    default:
+      throw new Error(
+        `Annotation type ${getCsvTypeName(annotation.type)} cannot be exported to CSV.`,
+      );
+  }
+}
+
+/**
+ * Converts annotations into CSV rows, including a header row with the columns `id`, `type`, one
+ * column per dimension, `description`, and one column per property.
+ *
+ * @param toLayerPosition Converts a position in annotation coordinates to layer coordinates.
+ */
+export function exportAnnotationsToCsv(
+  annotations: Iterable<Annotation>,
+  dimensionNames: readonly string[],
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+  toLayerPosition: (chunkPosition: Float32Array) => Float32Array,
+): string[][] {
+  const rows: string[][] = [
+    [
+      "id",
+      "type",
+      ...dimensionNames,
+      "description",
+      ...properties.map((property) => property.identifier),
+    ],
+  ];
+  for (const annotation of annotations) {
+    const positions = getCsvPositions(annotation);
+    const propertyValues = properties.map((property, i) => {
+      const value = annotationPropertyTypeHandlers[property.type].serializeJson(
+        annotation.properties[i],
+        property,
+      );
+      return Array.isArray(value) ? value.join(" ") : String(value);
+    });
+    positions.forEach((position, i) => {
+      const layerPosition = toLayerPosition(position);
+      const isFirst = i === 0;
+      rows.push([
+        annotation.id,
+        getCsvTypeName(annotation.type),
+        ...Array.from(layerPosition, float32ToString),
+        isFirst ? annotation.description ?? "" : "",
+        ...(isFirst ? propertyValues : propertyValues.map(() => "")),
+      ]);
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,137 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the annotation undo/redo history.
+ */
+
+import { describe, it, expect } from "vitest";
+import { AnnotationEditHistory } from "#src/annotation/edit_history.js";
+import type { Point } from "#src/annotation/index.js";
+import { AnnotationSource, AnnotationType } from "#src/annotation/index.js";
+
+function makePoint(x: number, id = ""): Point {
+  return {
+    id,
+    type: AnnotationType.POINT,
+    point: Float32Array.of(x),
+    properties: [],
+  };
+}
+
+function getX(source: AnnotationSource, id: string) {
+  return (source.get(id) as Point | undefined)?.point[0];
+}
+
+describe("AnnotationEditHistory", () => {
+  it("undoes and redoes add, update and delete", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory();
+    history.track(source);
+    const reference = source.add(makePoint(1));
+    const { id } = reference;
+    source.update(reference, makePoint(2, id));
+    source.update(reference, makePoint(3, id));
+    source.commit(reference);
+    source.delete(reference);
+    reference.dispose();
+    expect(source.get(id)).toBeUndefined();
+
+    expect(history.undo()).toBe(true);
+    expect(getX(source, id)).toEqual(3);
+    // The intermediate uncommitted update is not recorded separately.
+    expect(history.undo()).toBe(true);
+    expect(getX(source, id)).toEqual(1);
+    expect(history.undo()).toBe(true);
+    expect(source.get(id)).toBeUndefined();
+    expect(history.canUndo).toBe(false);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(getX(source, id)).toEqual(1);
+    expect(history.redo()).toBe(true);
+    expect(getX(source, id)).toEqual(3);
+    expect(history.redo()).toBe(true);
+    expect(source.get(id)).toBeUndefined();
+    expect(history.canRedo).toBe(false);
+    history.dispose();
+  });
+
+  it("records a pending annotation once it is committed", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory();
+    history.track(source);
+    const reference = source.add(makePoint(1), /*commit=*/ false);
+    source.update(reference, makePoint(2, reference.id));
+    expect(history.canUndo).toBe(false);
+    source.commit(reference);
+    expect(history.undo()).toBe(true);
+    expect(source.get(reference.id)).toBeUndefined();
+    reference.dispose();
+    history.dispose();
+  });
+
+  it("discards redo entries after a new edit", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory();
+    history.track(source);
+    source.add(makePoint(1)).dispose();
+    history.undo();
+    expect(history.canRedo).toBe(true);
+    source.add(makePoint(2)).dispose();
+    expect(history.canRedo).toBe(false);
+    history.dispose();
+  });
+
+  it("limits the number of entries", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory(/*maxLength=*/ 2);
+    history.track(source);
+    for (let i = 0; i < 3; ++i) {
+      source.add(makePoint(i)).dispose();
+    }
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(Array.from(source).length).toEqual(1);
+    history.dispose();
+  });
+
+  it("undoes and redoes the edits of a transaction together", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory();
+    history.track(source);
+    source.add(makePoint(1)).dispose();
+    const ids = history.transaction(() =>
+      [2, 3].map((x) => {
+        const reference = source.add(makePoint(x));
+        reference.dispose();
+        return reference.id;
+      }),
+    );
+    expect(Array.from(source).length).toEqual(3);
+    expect(history.undo()).toBe(true);
+    expect(Array.from(source).length).toEqual(1);
+    expect(history.redo()).toBe(true);
+    expect(ids.map((id) => getX(source, id))).toEqual([2, 3]);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(Array.from(source).length).toEqual(0);
+    expect(history.canUndo).toBe(false);
+    history.dispose();
+  });
+
+  it("stops recording and drops entries when untracked", () => {
+    const source = new AnnotationSource(1);
+    const history = new AnnotationEditHistory();
+    const untrack = history.track(source);
+    source.add(makePoint(1)).dispose();
+    untrack();
+    expect(history.canUndo).toBe(false);
+    source.add(makePoint(2)).dispose();
+    expect(history.canUndo).toBe(false);
+    history.dispose();
+  });
+});
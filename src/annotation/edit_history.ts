@@ -0,0 +1,307 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Undo/redo history of committed annotation edits.
+ */
+
+import type { MultiscaleAnnotationSource } from "#src/annotation/frontend_source.js";
+import type {
+  Annotation,
+  AnnotationId,
+  AnnotationReference,
+  AnnotationSource,
+} from "#src/annotation/index.js";
+import { StatusMessage } from "#src/status.js";
+import type { Owned } from "#src/util/disposable.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { NullarySignal } from "#src/util/signal.js";
+
+export type EditableAnnotationSource =
+  | AnnotationSource
+  | MultiscaleAnnotationSource;
+
+interface AnnotationEdit {
+  source: EditableAnnotationSource;
+  reference: Owned<AnnotationReference>;
+  /**
+   * Committed state prior to the edit, or `null` if the edit added the annotation.
+   */
+  before: Annotation | null;
+  /**
+   * Committed state following the edit, or `null` if the edit deleted the annotation.
+   */
+  after: Annotation | null;
+}
+
+/**
+ * Edits that are undone and redone together, in the order in which they were made.
+ */
+type AnnotationEditTransaction = AnnotationEdit[];
+
+interface TrackedSource {
+  count: number;
+  unregister: () => void;
+}
+
+export const DEFAULT_ANNOTATION_EDIT_HISTORY_LENGTH = 100;
+
+/**
+ * Records edits committed to any number of annotation sources, and allows them to be undone and
+ * redone in order.
+ *
+ * Edits are observed through `childEdited`, so they are recorded regardless of whether they
+ * originate from a tool, a drag in a rendered panel, or the annotation list.  Each edit is a
+ * separate entry, unless it is made within `transaction`.
+ */
+export class AnnotationEditHistory extends RefCounted {
+  changed = new NullarySignal();
+  private undoStack: AnnotationEditTransaction[] = [];
+  private redoStack: AnnotationEditTransaction[] = [];
+  private sources = new Map<EditableAnnotationSource, TrackedSource>();
+
+  /**
+   * Set while `transaction` is called, to the edits recorded so far.
+   */
+  private pendingTransaction: AnnotationEditTransaction | undefined;
+
+  /**
+   * Set while an undo or redo is applied, so that the resultant edits are not recorded.
+   */
+  private applying = false;
+
+  constructor(public maxLength = DEFAULT_ANNOTATION_EDIT_HISTORY_LENGTH) {
+    super();
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Records edits committed to `source` until the returned function is called.  A source may be
+   * tracked more than once, in which case it remains tracked until every returned function has
+   * been called.
+   */
+  track(source: EditableAnnotationSource) {
+    const { sources } = this;
+    let tracked = sources.get(source);
+    if (tracked === undefined) {
+      tracked = {
+        count: 0,
+        unregister: source.childEdited.add((id, before, after) => {
+          this.record(source, id, before, after);
+        }),
+      };
+      sources.set(source, tracked);
+    }
+    ++tracked.count;
+    let tracking = true;
+    return () => {
+      if (!tracking) return;
+      tracking = false;
+      if (--tracked!.count !== 0) return;
+      tracked!.unregister();
+      sources.delete(source);
+      this.undoStack = this.removeSource(this.undoStack, source);
+      this.redoStack = this.removeSource(this.redoStack, source);
+      this.changed.dispatch();
+    };
+  }
+
+  /**
+   * Calls `callback`, and records the edits committed during the call as a single entry.  Nested
+   * calls are part of the outermost transaction.
+   */
+  transaction<T>(callback: () => T): T {
+    if (this.pendingTransaction !== undefined) return callback();
+    const transaction: AnnotationEditTransaction = [];
+    this.pendingTransaction = transaction;
+    try {
+      return callback();
+    } finally {
+      this.pendingTransaction = undefined;
+      if (transaction.length !== 0) this.push(transaction);
+    }
+  }
+
+  undo() {
+    const transaction = this.undoStack.pop();
+    if (transaction === undefined) return false;
+    const applied = this.apply(
+      transaction.slice().reverse(),
+      (edit) => edit.before,
+    );
+    if (applied) {
+      this.redoStack.push(transaction);
+    } else {
+      this.disposeTransaction(transaction);
+    }
+    this.changed.dispatch();
+    return applied;
+  }
+
+  redo() {
+    const transaction = this.redoStack.pop();
+    if (transaction === undefined) return false;
+    const applied = this.apply(transaction, (edit) => edit.after);
+    if (applied) {
+      this.undoStack.push(transaction);
+    } else {
+      this.disposeTransaction(transaction);
+    }
+    this.changed.dispatch();
+    return applied;
+  }
+
+  clear() {
+    this.clearStack(this.undoStack);
+    this.clearStack(this.redoStack);
+    this.changed.dispatch();
+  }
+
+  disposed() {
+    for (const tracked of this.sources.values()) {
+      tracked.unregister();
+    }
+    this.sources.clear();
+    this.clearStack(this.undoStack);
+    this.clearStack(this.redoStack);
+    super.disposed();
+  }
+
+  private record(
+    source: EditableAnnotationSource,
+    id: AnnotationId,
+    before: Annotation | null,
+    after: Annotation | null,
+  ) {
+    if (this.applying) return;
+    const edit = {
+      source,
+      reference: source.getReference(id),
+      before,
+      after,
+    };
+    const { pendingTransaction } = this;
+    if (pendingTransaction !== undefined) {
+      pendingTransaction.push(edit);
+    } else {
+      this.push([edit]);
+    }
+  }
+
+  private push(transaction: AnnotationEditTransaction) {
+    const { undoStack } = this;
+    undoStack.push(transaction);
+    while (undoStack.length > this.maxLength) {
+      this.disposeTransaction(undoStack.shift()!);
+    }
+    this.clearStack(this.redoStack);
+    this.changed.dispatch();
+  }
+
+  /**
+   * Restores the annotation affected by each edit, in order, to `getValue(edit)`.  No annotation is
+   * restored unless all of them can be.
+   *
+   * @returns `false` if the annotations could not be restored.
+   */
+  private apply(
+    edits: AnnotationEdit[],
+    getValue: (edit: AnnotationEdit) => Annotation | null,
+  ) {
+    if (
+      edits.some(
+        ({ source, reference }) =>
+          source.readonly || reference.value === undefined,
+      )
+    ) {
+      StatusMessage.showTemporaryMessage(
+        "Annotation edit cannot be undone or redone.",
+      );
+      return false;
+    }
+    this.applying = true;
+    try {
+      for (const edit of edits) {
+        const { source, reference } = edit;
+        const current = reference.value;
+        const value = getValue(edit);
+        if (value === null) {
+          if (current !== null) {
+            source.delete(reference);
+          }
+        } else if (current === null) {
+          // The annotation was deleted.  Depending on the source, it may be assigned a new id when
+          // it is added back.
+          this.replaceReference(
+            edit,
+            source.add({ ...value }, /*commit=*/ true),
+          );
+        } else {
+          source.update(reference, { ...value, id: reference.id });
+          source.commit(reference);
+        }
+      }
+    } finally {
+      this.applying = false;
+    }
+    return true;
+  }
+
+  /**
+   * Replaces the reference of `edit`, and of any other recorded edit to the same annotation.
+   */
+  private replaceReference(
+    edit: AnnotationEdit,
+    newReference: Owned<AnnotationReference>,
+  ) {
+    const oldReference = edit.reference;
+    for (const other of [
+      edit,
+      ...this.undoStack.flat(),
+      ...this.redoStack.flat(),
+    ]) {
+      if (other.reference === oldReference) {
+        other.reference = newReference.addRef();
+        oldReference.dispose();
+      }
+    }
+    newReference.dispose();
+  }
+
+  private removeSource(
+    stack: AnnotationEditTransaction[],
+    source: EditableAnnotationSource,
+  ) {
+    return stack
+      .map((transaction) =>
+        transaction.filter((edit) => {
+          if (edit.source !== source) return true;
+          edit.reference.dispose();
+          return false;
+        }),
+      )
+      .filter((transaction) => transaction.length !== 0);
+  }
+
+  private disposeTransaction(transaction: AnnotationEditTransaction) {
+    for (const edit of transaction) {
+      edit.reference.dispose();
+    }
+  }
+
+  private clearStack(stack: AnnotationEditTransaction[]) {
+    for (const transaction of stack) {
+      this.disposeTransaction(transaction);
+    }
+    stack.length = 0;
+  }
+}
@@ -342,7 +342,6 @@ emitAnnotation(vec4(vColor.rgb, vColor.a * vClipCoefficient));
 }
 
 registerAnnotationTypeRenderHandler<Ellipsoid>(AnnotationType.ELLIPSOID, {
-  bytes: () => 6 * 4,
   sliceViewRenderHelper: SliceViewRenderHelper,
   perspectiveViewRenderHelper: PerspectiveRenderHelper,
   defineShaderNoOpSetters(builder) {
@@ -351,7 +350,7 @@ void setEllipsoidFillColor(vec4 color) {}
 `);
   },
   staticPickIdsPerInstance: 1,
-  pickIdsPerInstance: (annotations) => Array(annotations.length).fill(1),
+  pickIdsPerInstance: (primitiveCounts) => Array(primitiveCounts.length).fill(1),
   assignPickingInformation(mouseState:MouseSelectionState, pickIds: number[], pickedOffset:number) {
     mouseState.pickedAnnotationIndex = Math.floor(pickedOffset / pickIds[0]);
     mouseState.pickedOffset = pickedOffset % pickIds[0];
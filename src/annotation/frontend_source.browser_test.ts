@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { describe, it, expect } from "vitest";
@@ -30,6 +33,7 @@ import {
   AnnotationSerializer,
   AnnotationType,
   makeAnnotationPropertySerializers,
+  makeLineStringPoints,
 } from "#src/annotation/index.js";
 
 class UpdateTester {
@@ -54,6 +58,12 @@ class UpdateTester {
     expect(direct.typeToIds).toEqual(incremental.typeToIds);
     expect(direct.typeToOffset).toEqual(incremental.typeToOffset);
     expect(direct.typeToIdMaps).toEqual(incremental.typeToIdMaps);
+    expect(direct.typeToPrimitiveCount).toEqual(
+      incremental.typeToPrimitiveCount,
+    );
+    expect(direct.typeToPrimitiveOffsets).toEqual(
+      incremental.typeToPrimitiveOffsets,
+    );
   }
   update(annotation: Annotation) {
     const index = this.annotations.findIndex((x) => x.id === annotation.id);
@@ -145,4 +155,75 @@ describe("updateAnnotations", () => {
     });
     tester.delete("f", AnnotationType.AXIS_ALIGNED_BOUNDING_BOX);
   });
+
+  it("line strings", () => {
+    const tester = new UpdateTester(2, [
+      {
+        identifier: "p",
+        description: undefined,
+        type: "uint8",
+        default: 0,
+      },
+    ]);
+    tester.update({
+      id: "a",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([
+        Float32Array.of(1, 2),
+        Float32Array.of(3, 4),
+        Float32Array.of(5, 6),
+      ]),
+      properties: [1],
+    });
+    tester.update({
+      id: "b",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([Float32Array.of(7, 8)]),
+      properties: [2],
+    });
+    tester.update({
+      id: "c",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([
+        Float32Array.of(9, 10),
+        Float32Array.of(11, 12),
+      ]),
+      properties: [3],
+    });
+    // Grow and shrink an annotation that is followed by other annotations.
+    tester.update({
+      id: "a",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([
+        Float32Array.of(1, 2),
+        Float32Array.of(3, 4),
+        Float32Array.of(5, 6),
+        Float32Array.of(7, 8),
+      ]),
+      properties: [4],
+    });
+    tester.update({
+      id: "b",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([
+        Float32Array.of(7, 8),
+        Float32Array.of(9, 10),
+      ]),
+      properties: [5],
+    });
+    tester.update({
+      id: "a",
+      type: AnnotationType.LINE_STRING,
+      points: makeLineStringPoints([Float32Array.of(1, 2)]),
+      properties: [6],
+    });
+    tester.delete("b", AnnotationType.LINE_STRING);
+    tester.update({
+      id: "d",
+      type: AnnotationType.POINT,
+      point: Float32Array.of(1, 2),
+      properties: [7],
+    });
+    tester.delete("a", AnnotationType.LINE_STRING);
+  });
 });
@@ -17,6 +17,7 @@
  * MIT modified this file. For more information see the NOTICES.txt file
  */
 
+import { debounce } from "lodash-es";
 import type { AnnotationGeometryChunkSpecification } from "#src/annotation/base.js";
 import {
   ANNOTATION_COMMIT_UPDATE_RESULT_RPC_ID,
@@ -32,7 +33,6 @@ import type {
   AnnotationId,
   AnnotationPropertySerializer,
   AnnotationPropertySpec,
-  AnnotationSource,
   AnnotationSourceSignals,
   SerializedAnnotations,
 } from "#src/annotation/index.js";
@@ -41,7 +41,9 @@ import {
   AnnotationType,
   annotationTypeHandlers,
   annotationTypes,
+  deserializeAnnotations,
   fixAnnotationAfterStructuredCloning,
+  getPrimitiveCounts,
   makeAnnotationId,
   makeAnnotationPropertySerializers,
 } from "#src/annotation/index.js";
@@ -63,8 +65,7 @@ import { StatusMessage } from "#src/status.js";
 import type { Borrowed, Owned } from "#src/util/disposable.js";
 import { ENDIANNESS, Endianness } from "#src/util/endian.js";
 import * as matrix from "#src/util/matrix.js";
-import type { Signal } from "#src/util/signal.js";
-import { NullarySignal } from "#src/util/signal.js";
+import { NullarySignal, Signal } from "#src/util/signal.js";
 import type { Buffer } from "#src/webgl/buffer.js";
 import type { GL } from "#src/webgl/context.js";
 import type { RPC } from "#src/worker_rpc.js";
@@ -74,6 +75,9 @@ import {
   SharedObject,
 } from "#src/worker_rpc.js";
 
+// Delay after which `MultiscaleAnnotationSource.loadedChunksChanged` is dispatched.
+const LOADED_CHUNKS_CHANGED_DELAY_MS = 250;
+
 export interface AnnotationGeometryChunkSourceOptions
   extends SliceViewChunkSourceOptions {
   spec: AnnotationGeometryChunkSpecification;
@@ -82,26 +86,51 @@ export interface AnnotationGeometryChunkSourceOptions
 
 export function computeNumPickIds(
   serializedAnnotations: SerializedAnnotations,
-  source: AnnotationSource | MultiscaleAnnotationSource,
 ) {
-  serializedAnnotations;
   let numPickIds = 0;
   for (const annotationType of annotationTypes) {
-    const idMap = serializedAnnotations.typeToIdMaps[annotationType];
-    const annotations: Annotation[] = [];
-    idMap.forEach((_, id) => annotations.push(source.getReference(id).value!));
-
-    numPickIds += getAnnotationTypeRenderHandler(annotationType).pickIdsPerInstance(annotations).reduce((a,b) => a + b, 0);
+    numPickIds += getAnnotationTypeRenderHandler(annotationType)
+      .pickIdsPerInstance(
+        getPrimitiveCounts(serializedAnnotations, annotationType),
+      )
+      .reduce((a, b) => a + b, 0);
   }
   return numPickIds;
 }
 
+/**
+ * Subset of the annotations of a chunk that pass the filter query of a layer.
+ */
+export interface FilteredAnnotationGeometryData {
+  /**
+   * Deserialized annotations of the chunk, and filter query result, from which the subset was
+   * computed.
+   */
+  annotations: readonly Annotation[];
+  filterKey: unknown;
+  serializedAnnotations: SerializedAnnotations;
+  buffer: Buffer;
+  numPickIds: number;
+}
+
 export class AnnotationGeometryData {
   buffer: Buffer | undefined;
   bufferValid = false;
   serializedAnnotations: SerializedAnnotations;
   numPickIds = 0;
 
+  /**
+   * Deserialized annotations, computed when first needed and discarded when the serialized
+   * annotations are modified.
+   */
+  annotations: Annotation[] | undefined;
+
+  /**
+   * Computed when the chunk is drawn by a layer with a filter query.  Only one subset is retained,
+   * since the chunks of a source are rarely drawn by several layers with different queries.
+   */
+  filtered: FilteredAnnotationGeometryData | undefined;
+
   constructor(x: SerializedAnnotations) {
     this.serializedAnnotations = {
       data: x.data,
@@ -109,6 +138,7 @@ export class AnnotationGeometryData {
       typeToOffset: x.typeToOffset,
       typeToIdMaps: x.typeToIdMaps,
       typeToPrimitiveCount: x.typeToPrimitiveCount,
+      typeToPrimitiveOffsets: x.typeToPrimitiveOffsets,
     };
   }
   freeGPUMemory(gl: GL) {
@@ -119,6 +149,11 @@ export class AnnotationGeometryData {
       this.bufferValid = false;
       this.buffer = undefined;
     }
+    const { filtered } = this;
+    if (filtered !== undefined) {
+      filtered.buffer.dispose();
+      this.filtered = undefined;
+    }
   }
 }
 
@@ -224,6 +259,12 @@ export class AnnotationGeometryChunkSource extends SliceViewChunkSource<
   addChunk(key: string, chunk: AnnotationGeometryChunk) {
     super.addChunk(key, chunk);
     // TODO: process local deletions
+    this.parent.handleLoadedChunksChanged();
+  }
+
+  deleteChunk(key: string) {
+    super.deleteChunk(key);
+    this.parent.handleLoadedChunksChanged();
   }
 
   getChunk(x: any) {
@@ -247,6 +288,12 @@ export class AnnotationSubsetGeometryChunkSource extends ChunkSource {
   addChunk(key: string, chunk: AnnotationSubsetGeometryChunk) {
     super.addChunk(key, chunk);
     // TODO: process local deletions
+    this.parent.handleLoadedChunksChanged();
+  }
+
+  deleteChunk(key: string) {
+    super.deleteChunk(key);
+    this.parent.handleLoadedChunksChanged();
   }
 
   getChunk(x: any): AnnotationSubsetGeometryChunk {
@@ -315,7 +362,7 @@ function copyOtherAnnotations(
       serializedAnnotations.data.subarray(
         otherTypeOffset,
         otherTypeOffset +
-          serializedAnnotations.typeToIds[otherType].length *
+          serializedAnnotations.typeToPrimitiveCount[otherType] *
             propertySerializers[otherType].serializedBytes,
       ),
       newTypeOffset,
@@ -324,6 +371,10 @@ function copyOtherAnnotations(
   return newData;
 }
 
+/**
+ * Copies a range of primitives of the specified type.  The source primitive count is taken from
+ * `serializedAnnotations.typeToPrimitiveCount`, which must not yet reflect the new count.
+ */
 function copyAnnotationSlice(
   serializedAnnotations: SerializedAnnotations,
   propertySerializers: AnnotationPropertySerializer[],
@@ -339,7 +390,7 @@ function copyAnnotationSlice(
   let destGroupOffset = typeOffset;
   const { propertyGroupBytes } = propertySerializers[type];
   const numGroups = propertyGroupBytes.length;
-  const count = serializedAnnotations.typeToIds[type].length;
+  const count = serializedAnnotations.typeToPrimitiveCount[type];
   for (let groupIndex = 0; groupIndex < numGroups; ++groupIndex) {
     const groupBytes = propertyGroupBytes[groupIndex];
     dest.set(
@@ -354,6 +405,52 @@ function copyAnnotationSlice(
   }
 }
 
+/**
+ * Replaces the primitives `[beginIndex, endIndex)` of the specified type with
+ * `newPrimitiveCount` uninitialized primitives.
+ */
+function resizeAnnotationPrimitives(
+  serializedAnnotations: SerializedAnnotations,
+  propertySerializers: AnnotationPropertySerializer[],
+  type: AnnotationType,
+  beginIndex: number,
+  endIndex: number,
+  newPrimitiveCount: number,
+) {
+  const adjustment = newPrimitiveCount - (endIndex - beginIndex);
+  if (adjustment === 0) return;
+  const count = serializedAnnotations.typeToPrimitiveCount[type];
+  const newCount = count + adjustment;
+  const newData = copyOtherAnnotations(
+    serializedAnnotations,
+    propertySerializers,
+    type,
+    adjustment * propertySerializers[type].serializedBytes,
+  );
+  copyAnnotationSlice(
+    serializedAnnotations,
+    propertySerializers,
+    type,
+    newData,
+    /*sourceBeginIndex=*/ 0,
+    /*sourceEndIndex=*/ beginIndex,
+    /*destBeginIndex=*/ 0,
+    /*destCount=*/ newCount,
+  );
+  copyAnnotationSlice(
+    serializedAnnotations,
+    propertySerializers,
+    type,
+    newData,
+    /*sourceBeginIndex=*/ endIndex,
+    /*sourceEndIndex=*/ count,
+    /*destBeginIndex=*/ beginIndex + newPrimitiveCount,
+    /*destCount=*/ newCount,
+  );
+  serializedAnnotations.typeToPrimitiveCount[type] = newCount;
+  serializedAnnotations.data = newData;
+}
+
 export function updateAnnotation(
   chunk: AnnotationGeometryData,
   annotation: Annotation,
@@ -365,31 +462,32 @@ export function updateAnnotation(
   const { serializedAnnotations } = chunk;
   const ids = serializedAnnotations.typeToIds[type];
   const idMap = serializedAnnotations.typeToIdMaps[type];
+  const offsets = serializedAnnotations.typeToPrimitiveOffsets[type];
   const handler = annotationTypeHandlers[type];
-  const numBytes = propertySerializers[type].serializedBytes;
+  const numPrimitives = handler.getByteInstanceCount([annotation]);
   let index = idMap.get(annotation.id);
   if (index === undefined) {
     // Doesn't already exist.
     index = idMap.size;
     idMap.set(annotation.id, index);
-    const newData = copyOtherAnnotations(
-      serializedAnnotations,
-      propertySerializers,
-      type,
-      numBytes,
-    );
-    copyAnnotationSlice(
+    ids.push(annotation.id);
+    offsets.push(offsets[index]);
+  }
+  const beginPrimitive = offsets[index];
+  const oldNumPrimitives = offsets[index + 1] - beginPrimitive;
+  if (oldNumPrimitives !== numPrimitives) {
+    resizeAnnotationPrimitives(
       serializedAnnotations,
       propertySerializers,
       type,
-      newData,
-      /*sourceBeginIndex=*/ 0,
-      /*sourceEndIndex=*/ index,
-      /*destBeginIndex=*/ 0,
-      /*destCount=*/ index + 1,
+      beginPrimitive,
+      beginPrimitive + oldNumPrimitives,
+      numPrimitives,
     );
-    ids.push(annotation.id);
-    serializedAnnotations.data = newData;
+    const adjustment = numPrimitives - oldNumPrimitives;
+    for (let i = index + 1, count = offsets.length; i < count; ++i) {
+      offsets[i] += adjustment;
+    }
   }
   const bufferOffset = serializedAnnotations.typeToOffset![type];
   const dv = new DataView(
@@ -399,22 +497,28 @@ export function updateAnnotation(
   );
   const isLittleEndian = ENDIANNESS === Endianness.LITTLE;
   const propertySerializer = propertySerializers[type];
+  const geometryDataStride = propertySerializer.propertyGroupBytes[0];
   handler.serialize(
     dv,
-    bufferOffset + propertySerializer.propertyGroupBytes[0] * index,
+    bufferOffset + geometryDataStride * beginPrimitive,
     isLittleEndian,
     rank,
     annotation,
+    geometryDataStride,
   );
-  propertySerializer.serialize(
-    dv,
-    bufferOffset,
-    index,
-    ids.length,
-    isLittleEndian,
-    annotation.properties,
-  );
+  const primitiveCount = serializedAnnotations.typeToPrimitiveCount[type];
+  for (let i = 0; i < numPrimitives; ++i) {
+    propertySerializer.serialize(
+      dv,
+      bufferOffset,
+      beginPrimitive + i,
+      primitiveCount,
+      isLittleEndian,
+      annotation.properties,
+    );
+  }
   chunk.bufferValid = false;
+  chunk.annotations = undefined;
 }
 
 export function deleteAnnotation(
@@ -430,40 +534,27 @@ export function deleteAnnotation(
     return false;
   }
   const ids = serializedAnnotations.typeToIds[type];
-  const numBytes = propertySerializers[type].serializedBytes;
-  const newData = copyOtherAnnotations(
-    serializedAnnotations,
-    propertySerializers,
-    type,
-    -numBytes,
-  );
-  copyAnnotationSlice(
-    serializedAnnotations,
-    propertySerializers,
-    type,
-    newData,
-    /*sourceBeginIndex=*/ 0,
-    /*sourceEndIndex=*/ index,
-    /*destBeginIndex=*/ 0,
-    /*destCount=*/ ids.length - 1,
-  );
-  copyAnnotationSlice(
+  const offsets = serializedAnnotations.typeToPrimitiveOffsets[type];
+  const beginPrimitive = offsets[index];
+  const numPrimitives = offsets[index + 1] - beginPrimitive;
+  resizeAnnotationPrimitives(
     serializedAnnotations,
     propertySerializers,
     type,
-    newData,
-    /*sourceBeginIndex=*/ index + 1,
-    /*sourceEndIndex=*/ ids.length,
-    /*destBeginIndex=*/ index,
-    /*destCount=*/ ids.length - 1,
+    beginPrimitive,
+    beginPrimitive + numPrimitives,
+    /*newPrimitiveCount=*/ 0,
   );
   ids.splice(index, 1);
+  offsets.splice(index, 1);
   idMap.delete(id);
   for (let i = index, count = ids.length; i < count; ++i) {
     idMap.set(ids[i], i);
+    offsets[i] -= numPrimitives;
   }
-  serializedAnnotations.data = newData;
+  offsets[ids.length] -= numPrimitives;
   chunk.bufferValid = false;
+  chunk.annotations = undefined;
   return true;
 }
 
@@ -493,10 +584,14 @@ export function makeTemporaryChunk() {
   const typeToIds: string[][] = [];
   const typeToOffset: number[] = [];
   const typeToIdMaps: Map<string, number>[] = [];
+  const typeToPrimitiveCount: number[] = [];
+  const typeToPrimitiveOffsets: number[][] = [];
   for (const annotationType of annotationTypes) {
     typeToIds[annotationType] = [];
     typeToOffset[annotationType] = 0;
     typeToIdMaps[annotationType] = new Map();
+    typeToPrimitiveCount[annotationType] = 0;
+    typeToPrimitiveOffsets[annotationType] = [0];
   }
   return new AnnotationGeometryChunk(
     <AnnotationGeometryChunkSource>(<any>undefined),
@@ -506,6 +601,8 @@ export function makeTemporaryChunk() {
       typeToOffset,
       typeToIds,
       typeToIdMaps,
+      typeToPrimitiveCount,
+      typeToPrimitiveOffsets,
     },
   );
 }
@@ -571,6 +668,11 @@ export class MultiscaleAnnotationSource
 
   localUpdates = new Map<AnnotationId, LocalUpdateUndoState>();
 
+  /**
+   * Committed state (`null` if not yet committed) of annotations with uncommitted modifications.
+   */
+  private uncommittedOriginals = new Map<AnnotationId, Annotation | null>();
+
   initializeCounterpart(rpc: RPC, options: any) {
     this.metadataChunkSource.initializeCounterpart(rpc, {});
     for (const source of this.segmentFilteredSources) {
@@ -598,6 +700,11 @@ export class MultiscaleAnnotationSource
       /*commit=*/ commit,
       /*newAnnotation=*/ annotation,
     );
+    if (commit) {
+      this.childEdited.dispatch(reference.id, null, annotation);
+    } else {
+      this.uncommittedOriginals.set(reference.id, null);
+    }
     return reference;
   }
 
@@ -695,15 +802,28 @@ export class MultiscaleAnnotationSource
   }
 
   delete(reference: Borrowed<AnnotationReference>) {
+    const { id } = reference;
+    const { uncommittedOriginals } = this;
+    const original = uncommittedOriginals.has(id)
+      ? uncommittedOriginals.get(id)!
+      : reference.value ?? null;
+    uncommittedOriginals.delete(id);
     this.applyLocalUpdate(
       reference,
       /*existing=*/ true,
       /*commit=*/ true,
       /*newAnnotation=*/ null,
     );
+    if (original !== null) {
+      this.childEdited.dispatch(id, original, null);
+    }
   }
 
   update(reference: AnnotationReference, newAnnotation: Annotation) {
+    const { uncommittedOriginals } = this;
+    if (!uncommittedOriginals.has(reference.id)) {
+      uncommittedOriginals.set(reference.id, reference.value ?? null);
+    }
     this.applyLocalUpdate(
       reference,
       /*existing=*/ true,
@@ -722,6 +842,7 @@ export class MultiscaleAnnotationSource
       reference.value = annotation || null;
       reference.changed.dispatch();
     }
+    this.changed.dispatch();
     this.chunkManager.chunkQueueManager.visibleChunksChanged.dispatch();
   }
 
@@ -735,6 +856,13 @@ export class MultiscaleAnnotationSource
       /*commit=*/ true,
       reference.value!,
     );
+    const { id } = reference;
+    const { uncommittedOriginals } = this;
+    const original = uncommittedOriginals.get(id);
+    if (original !== undefined) {
+      uncommittedOriginals.delete(id);
+      this.childEdited.dispatch(id, original, reference.value!);
+    }
   }
 
   getReference(id: AnnotationId): Owned<AnnotationReference> {
@@ -841,6 +969,24 @@ export class MultiscaleAnnotationSource
             tempUpper[i] = c + r;
           }
           break;
+        case AnnotationType.LINE_STRING:
+        case AnnotationType.POLYGON:
+          tempLower.fill(Number.POSITIVE_INFINITY);
+          tempUpper.fill(Number.NEGATIVE_INFINITY);
+          for (const point of annotation.points) {
+            matrix.transformPoint(
+              tempChunk,
+              source.multiscaleToChunkTransform,
+              rank + 1,
+              point,
+              rank,
+            );
+            for (let i = 0; i < rank; ++i) {
+              tempLower[i] = Math.min(tempLower[i], tempChunk[i]);
+              tempUpper[i] = Math.max(tempUpper[i], tempChunk[i]);
+            }
+          }
+          break;
       }
       let totalChunks = 1;
       for (let i = 0; i < rank; ++i) {
@@ -996,16 +1142,92 @@ export class MultiscaleAnnotationSource
     reference.dispose();
 
     this.localUpdates.delete(id);
+    this.changed.dispatch();
   }
 
-  // FIXME
+  private *getLoadedChunkData(): Iterable<AnnotationGeometryData> {
+    const chunks: Iterable<
+      AnnotationGeometryChunk | AnnotationSubsetGeometryChunk
+    >[] = [[this.temporary]];
+    for (const source of this.spatiallyIndexedSources) {
+      chunks.push(source.chunks.values());
+    }
+    for (const source of this.segmentFilteredSources) {
+      chunks.push(source.chunks.values());
+    }
+    for (const sourceChunks of chunks) {
+      for (const { data } of sourceChunks) {
+        if (data !== undefined) yield data;
+      }
+    }
+  }
+
+  /**
+   * Dispatched when an annotation is modified locally.
+   */
   changed = new NullarySignal();
-  *[Symbol.iterator](): Iterator<Annotation> {}
+
+  /**
+   * Dispatched when chunks have been loaded or unloaded, at most once per
+   * `LOADED_CHUNKS_CHANGED_DELAY_MS`, since many chunks are typically loaded at once.
+   */
+  loadedChunksChanged = new NullarySignal();
+
+  handleLoadedChunksChanged = this.registerCancellable(
+    debounce(
+      () => this.loadedChunksChanged.dispatch(),
+      LOADED_CHUNKS_CHANGED_DELAY_MS,
+      { maxWait: LOADED_CHUNKS_CHANGED_DELAY_MS },
+    ),
+  );
+
+  /**
+   * Returns the annotations of a loaded chunk, without local modifications.  They are deserialized
+   * when first needed, and must not be modified.
+   */
+  getChunkAnnotations(data: AnnotationGeometryData): readonly Annotation[] {
+    return (data.annotations ??= Array.from(
+      deserializeAnnotations(
+        data.serializedAnnotations,
+        this.annotationPropertySerializers,
+      ),
+    ));
+  }
+
+  /**
+   * Iterates over the annotations that are currently loaded, including local modifications.
+   * Annotations in chunks that have not been loaded are not visited, and the related segments of
+   * annotations that are only available from a chunk are not set.  The annotations of a chunk are
+   * deserialized once and shared by subsequent iterations, so they must not be modified.
+   */
+  *[Symbol.iterator](): Iterator<Annotation> {
+    const visited = new Set<AnnotationId>();
+    for (const [id, reference] of this.references) {
+      const { value } = reference;
+      if (value === undefined) continue;
+      visited.add(id);
+      if (value !== null) yield value;
+    }
+    for (const data of this.getLoadedChunkData()) {
+      for (const annotation of this.getChunkAnnotations(data)) {
+        if (visited.has(annotation.id)) continue;
+        visited.add(annotation.id);
+        yield annotation;
+      }
+    }
+  }
   readonly = false;
   childAdded: Signal<(annotation: Annotation) => void>;
   childUpdated: Signal<(annotation: Annotation) => void>;
   childCommitted: Signal<(annotationId: string) => void>;
   childDeleted: Signal<(annotationId: string) => void>;
+  childEdited = new Signal<
+    (
+      annotationId: AnnotationId,
+      before: Annotation | null,
+      after: Annotation | null,
+    ) => void
+  >();
 }
 
 registerRPC(ANNOTATION_COMMIT_UPDATE_RESULT_RPC_ID, function (x) {
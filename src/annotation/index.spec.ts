@@ -0,0 +1,526 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the serialization of annotation geometry and properties.
+ */
+
+import { describe, it, expect } from "vitest";
+import type {
+  Annotation,
+  LineString,
+  Point,
+  Polygon,
+} from "#src/annotation/index.js";
+import {
+  annotationPropertySpecsToJson,
+  AnnotationReference,
+  AnnotationSerializer,
+  AnnotationStringTable,
+  AnnotationType,
+  annotationTypeHandlers,
+  decodeAnnotationGeometry,
+  deleteLineStringVertex,
+  deserializeAnnotations,
+  encodeAnnotationGeometry,
+  formatAnnotationPropertyValue,
+  getEncodedAnnotationGeometryBytes,
+  getLineStringVertices,
+  getLoadedAnnotationReference,
+  insertLineStringVertex,
+  joinLineStrings,
+  makeAnnotationPropertySerializers,
+  makeLineStringPoints,
+  parseAnnotationPropertySpecs,
+  splitLineString,
+} from "#src/annotation/index.js";
+
+function makeLineString(id: string, vertices: number[][]): LineString {
+  return {
+    id,
+    type: AnnotationType.LINE_STRING,
+    points: makeLineStringPoints(vertices.map((v) => Float32Array.from(v))),
+    properties: [],
+  };
+}
+
+function getVertices(annotation: Annotation) {
+  return getLineStringVertices((annotation as LineString).points).map((v) =>
+    Array.from(v),
+  );
+}
+
+describe("line string encoding", () => {
+  it("round trips through the encoded representation", () => {
+    const rank = 3;
+    const annotations = [
+      makeLineString("a", [
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+      ]),
+      makeLineString("b", [[10, 11, 12]]),
+    ];
+    const numBytes = annotations.reduce(
+      (total, annotation) =>
+        total + getEncodedAnnotationGeometryBytes(annotation, rank),
+      0,
+    );
+    expect(numBytes).toEqual(4 + 3 * 4 * rank + 4 + 1 * 4 * rank);
+    const dv = new DataView(new ArrayBuffer(numBytes));
+    let offset = 0;
+    for (const annotation of annotations) {
+      offset = encodeAnnotationGeometry(dv, offset, true, rank, annotation);
+    }
+    expect(offset).toEqual(numBytes);
+    offset = 0;
+    for (const expected of annotations) {
+      let annotation: Annotation;
+      ({ annotation, offset } = decodeAnnotationGeometry(
+        dv,
+        offset,
+        true,
+        rank,
+        AnnotationType.LINE_STRING,
+        expected.id,
+      ));
+      expect(annotation.type).toEqual(AnnotationType.LINE_STRING);
+      expect(getVertices(annotation)).toEqual(getVertices(expected));
+    }
+    expect(offset).toEqual(numBytes);
+  });
+
+  it("rejects truncated data", () => {
+    const dv = new DataView(new ArrayBuffer(4 + 4 * 2));
+    dv.setUint32(0, 2, true);
+    expect(() =>
+      decodeAnnotationGeometry(dv, 0, true, 2, AnnotationType.LINE_STRING, ""),
+    ).toThrow();
+    dv.setUint32(0, 0, true);
+    expect(() =>
+      decodeAnnotationGeometry(dv, 0, true, 2, AnnotationType.LINE_STRING, ""),
+    ).toThrow();
+  });
+
+  it("round trips through AnnotationSerializer", () => {
+    const rank = 2;
+    const propertySerializers = makeAnnotationPropertySerializers(rank, [
+      {
+        identifier: "p",
+        description: undefined,
+        type: "uint16",
+        default: 0,
+      },
+    ]);
+    const a = makeLineString("a", [
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+    a.properties = [7];
+    const b = makeLineString("b", [
+      [8, 9],
+      [10, 11],
+    ]);
+    b.properties = [12];
+    const serializer = new AnnotationSerializer(propertySerializers);
+    serializer.add(a);
+    serializer.add(b);
+    const serialized = serializer.serialize();
+    const type = AnnotationType.LINE_STRING;
+    expect(serialized.typeToPrimitiveCount[type]).toEqual(5);
+    expect(serialized.typeToPrimitiveOffsets[type]).toEqual([0, 3, 5]);
+    const propertySerializer = propertySerializers[type];
+    const stride = propertySerializer.propertyGroupBytes[0];
+    const dv = new DataView(
+      serialized.data.buffer,
+      serialized.data.byteOffset,
+      serialized.data.byteLength,
+    );
+    const offsets = serialized.typeToPrimitiveOffsets[type];
+    for (const [i, expected] of [a, b].entries()) {
+      const annotation = annotationTypeHandlers[type].deserialize(
+        dv,
+        serialized.typeToOffset[type] + offsets[i] * stride,
+        true,
+        rank,
+        expected.id,
+        offsets[i + 1] - offsets[i],
+        stride,
+      );
+      expect(getVertices(annotation)).toEqual(getVertices(expected));
+      // Properties are replicated for each primitive of the annotation.
+      for (let j = offsets[i]; j < offsets[i + 1]; ++j) {
+        const properties = new Array(1);
+        propertySerializer.deserialize(
+          dv,
+          serialized.typeToOffset[type],
+          j,
+          serialized.typeToPrimitiveCount[type],
+          true,
+          properties,
+        );
+        expect(properties).toEqual(expected.properties);
+      }
+    }
+  });
+
+  it("deserializes all annotations", () => {
+    const rank = 2;
+    const propertySerializers = makeAnnotationPropertySerializers(rank, [
+      {
+        identifier: "p",
+        description: undefined,
+        type: "uint16",
+        default: 0,
+      },
+    ]);
+    const a = makeLineString("a", [
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+    a.properties = [7];
+    const b: Point = {
+      id: "b",
+      type: AnnotationType.POINT,
+      point: Float32Array.of(8, 9),
+      properties: [10],
+    };
+    const serializer = new AnnotationSerializer(propertySerializers);
+    serializer.add(a);
+    serializer.add(b);
+    const [point, lineString, ...rest] = deserializeAnnotations(
+      serializer.serialize(),
+      propertySerializers,
+    );
+    expect(rest).toEqual([]);
+    expect(point).toEqual(b);
+    expect(lineString.id).toEqual("a");
+    expect(getVertices(lineString)).toEqual(getVertices(a));
+    expect(lineString.properties).toEqual([7]);
+  });
+});
+
+describe("line string editing", () => {
+  const line = makeLineString("a", [
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ]);
+
+  it("inserts a vertex", () => {
+    const result = insertLineStringVertex(line, 1, Float32Array.of(0.5, 1));
+    expect(result.id).toEqual("a");
+    expect(getVertices(result)).toEqual([
+      [0, 0],
+      [0.5, 1],
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(getVertices(line)).toHaveLength(3);
+  });
+
+  it("deletes a vertex", () => {
+    expect(getVertices(deleteLineStringVertex(line, 2)!)).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+    expect(
+      deleteLineStringVertex(makeLineString("b", [[0, 0]]), 0),
+    ).toBeUndefined();
+  });
+
+  it("splits at an interior vertex", () => {
+    const [first, second] = splitLineString(line, 1)!;
+    expect(first.id).toEqual("a");
+    expect(second.id).toEqual("");
+    expect(getVertices(first)).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+    expect(getVertices(second)).toEqual([
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(splitLineString(line, 0)).toBeUndefined();
+    expect(splitLineString(line, 2)).toBeUndefined();
+  });
+
+  it("joins line strings sharing an endpoint", () => {
+    const other = makeLineString("b", [
+      [3, 3],
+      [2, 0],
+    ]);
+    const joined = joinLineStrings(line, other)!;
+    expect(joined.id).toEqual("a");
+    expect(getVertices(joined)).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [3, 3],
+    ]);
+    expect(
+      getVertices(
+        joinLineStrings(
+          line,
+          makeLineString("c", [
+            [0, 0],
+            [-1, 0],
+          ]),
+        )!,
+      ),
+    ).toEqual([
+      [-1, 0],
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ]);
+    expect(
+      joinLineStrings(line, makeLineString("d", [[5, 5]])),
+    ).toBeUndefined();
+  });
+});
+
+describe("polygon encoding", () => {
+  it("round trips through the encoded representation", () => {
+    const rank = 2;
+    const polygon: Polygon = {
+      id: "p",
+      type: AnnotationType.POLYGON,
+      points: [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+        [0, 4],
+      ].map((v) => Float32Array.from(v)),
+      properties: [],
+    };
+    const numBytes = getEncodedAnnotationGeometryBytes(polygon, rank);
+    expect(numBytes).toEqual(4 + 4 * 4 * rank);
+    const dv = new DataView(new ArrayBuffer(numBytes));
+    expect(encodeAnnotationGeometry(dv, 0, true, rank, polygon)).toEqual(
+      numBytes,
+    );
+    const { annotation, offset } = decodeAnnotationGeometry(
+      dv,
+      0,
+      true,
+      rank,
+      AnnotationType.POLYGON,
+      polygon.id,
+    );
+    expect(offset).toEqual(numBytes);
+    expect(annotation.type).toEqual(AnnotationType.POLYGON);
+    expect((annotation as Polygon).points.map((v) => Array.from(v))).toEqual(
+      polygon.points.map((v) => Array.from(v)),
+    );
+  });
+
+  it("serializes one primitive per vertex", () => {
+    const rank = 2;
+    const propertySerializers = makeAnnotationPropertySerializers(rank, []);
+    const polygon: Polygon = {
+      id: "p",
+      type: AnnotationType.POLYGON,
+      points: [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+      ].map((v) => Float32Array.from(v)),
+      properties: [],
+    };
+    const serializer = new AnnotationSerializer(propertySerializers);
+    serializer.add(polygon);
+    const serialized = serializer.serialize();
+    const type = AnnotationType.POLYGON;
+    expect(serialized.typeToPrimitiveCount[type]).toEqual(3);
+    expect(serialized.typeToPrimitiveOffsets[type]).toEqual([0, 3]);
+    const stride = propertySerializers[type].propertyGroupBytes[0];
+    const dv = new DataView(
+      serialized.data.buffer,
+      serialized.data.byteOffset,
+      serialized.data.byteLength,
+    );
+    const annotation = annotationTypeHandlers[type].deserialize(
+      dv,
+      serialized.typeToOffset[type],
+      true,
+      rank,
+      polygon.id,
+      3,
+      stride,
+    ) as Polygon;
+    expect(annotation.points.map((v) => Array.from(v))).toEqual(
+      polygon.points.map((v) => Array.from(v)),
+    );
+  });
+
+  it("rejects polygons with fewer than 3 vertices", () => {
+    const dv = new DataView(new ArrayBuffer(4 + 2 * 4 * 2));
+    dv.setUint32(0, 2, true);
+    expect(() =>
+      decodeAnnotationGeometry(dv, 0, true, 2, AnnotationType.POLYGON, ""),
+    ).toThrow();
+  });
+});
+
+describe("string and tags properties", () => {
+  const propertiesJson = [
+    { id: "reviewer", type: "string", default: "nobody" },
+    {
+      id: "cell_type",
+      type: "tags",
+      tags: ["excitatory", "inhibitory", "soma"],
+      tag_descriptions: ["Excitatory", undefined, "Cell body"],
+      default: ["soma"],
+    },
+  ];
+
+  it("parses property specs", () => {
+    const [reviewer, cellType] = parseAnnotationPropertySpecs(propertiesJson);
+    expect(reviewer).toEqual({
+      type: "string",
+      identifier: "reviewer",
+      description: undefined,
+      default: "nobody",
+    });
+    expect(cellType).toMatchObject({
+      type: "tags",
+      tags: ["excitatory", "inhibitory", "soma"],
+      tagDescriptions: ["Excitatory", undefined, "Cell body"],
+      default: 4,
+    });
+    expect(
+      JSON.parse(
+        JSON.stringify(
+          annotationPropertySpecsToJson(
+            parseAnnotationPropertySpecs(propertiesJson),
+          ),
+        ),
+      ),
+    ).toEqual(JSON.parse(JSON.stringify(propertiesJson)));
+  });
+
+  it("rejects invalid tags", () => {
+    expect(() =>
+      parseAnnotationPropertySpecs([{ id: "t", type: "tags", tags: ["a b"] }]),
+    ).toThrow(/Invalid tag/);
+    expect(() =>
+      parseAnnotationPropertySpecs([
+        { id: "t", type: "tags", tags: ["a", "a"] },
+      ]),
+    ).toThrow(/Duplicate tag/);
+    expect(() =>
+      parseAnnotationPropertySpecs([
+        { id: "t", type: "tags", tags: ["a"], default: ["b"] },
+      ]),
+    ).toThrow(/Invalid tag "b"/);
+    expect(() =>
+      parseAnnotationPropertySpecs([
+        {
+          id: "t",
+          type: "tags",
+          tags: Array.from({ length: 33 }, (_, i) => `t${i}`),
+        },
+      ]),
+    ).toThrow(/exceeds maximum/);
+  });
+
+  it("round trips through AnnotationSerializer", () => {
+    const rank = 1;
+    const properties = parseAnnotationPropertySpecs(propertiesJson);
+    expect(formatAnnotationPropertyValue(properties[1], 5)).toEqual(
+      "#excitatory #soma",
+    );
+    const propertySerializers = makeAnnotationPropertySerializers(
+      rank,
+      properties,
+    );
+    const annotations: Point[] = [
+      ["alice", 1],
+      ["bob", 6],
+      ["alice", 0],
+    ].map(([reviewer, tags], i) => ({
+      id: `${i}`,
+      type: AnnotationType.POINT,
+      point: Float32Array.of(i),
+      properties: [reviewer, tags],
+    }));
+    const serializer = new AnnotationSerializer(propertySerializers);
+    for (const annotation of annotations) serializer.add(annotation);
+    const serialized = serializer.serialize();
+    const type = AnnotationType.POINT;
+    const propertySerializer = propertySerializers[type];
+    expect(propertySerializer.strings.strings).toEqual(["", "alice", "bob"]);
+    const dv = new DataView(
+      serialized.data.buffer,
+      serialized.data.byteOffset,
+      serialized.data.byteLength,
+    );
+    annotations.forEach((expected, i) => {
+      const values = new Array(2);
+      propertySerializer.deserialize(
+        dv,
+        serialized.typeToOffset[type],
+        i,
+        serialized.typeToPrimitiveCount[type],
+        true,
+        values,
+      );
+      expect(values).toEqual(expected.properties);
+    });
+  });
+
+  it("drops unused strings when the table is cleared", () => {
+    const strings = new AnnotationStringTable();
+    for (const value of ["a", "al", "ali", "bob"]) strings.intern(value);
+    strings.clear();
+    expect(strings.intern("bob")).toEqual(1);
+    expect(strings.intern("")).toEqual(0);
+    expect(strings.strings).toEqual(["", "bob"]);
+  });
+});
+
+describe("getLoadedAnnotationReference", () => {
+  function makeSource() {
+    const references = new Map<string, AnnotationReference>();
+    return {
+      references,
+      getReference(id: string) {
+        const reference = new AnnotationReference(id);
+        references.set(id, reference);
+        return reference;
+      },
+    };
+  }
+
+  it("waits for the value to be retrieved", async () => {
+    const source = makeSource();
+    let loaded: AnnotationReference | undefined;
+    const promise = getLoadedAnnotationReference(source, "a").then(
+      (reference) => {
+        loaded = reference;
+      },
+    );
+    const reference = source.references.get("a")!;
+    await Promise.resolve();
+    expect(loaded).toBeUndefined();
+    reference.value = makeLineString("a", [[0], [1]]);
+    reference.changed.dispatch();
+    await promise;
+    expect(loaded).toBe(reference);
+  });
+
+  it("releases the references of missing annotations", async () => {
+    const source = makeSource();
+    const promise = getLoadedAnnotationReference(source, "a");
+    const reference = source.references.get("a")!;
+    reference.value = null;
+    reference.changed.dispatch();
+    expect(await promise).toBeUndefined();
+    expect(reference.wasDisposed).toBe(true);
+  });
+});
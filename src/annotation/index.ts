@@ -21,6 +21,20 @@
  * @file Basic annotation data structures.
  */
 
+import type {
+  AnnotationMeasurement,
+  AnnotationPhysicalTransform,
+} from "#src/annotation/measurement.js";
+import {
+  getPathLength,
+  getPhysicalEdges,
+  getPolygonArea,
+  measureExtent,
+} from "#src/annotation/measurement.js";
+import {
+  normalizeReviewStatusPropertySpec,
+  REVIEW_STATUS_PROPERTY_ID,
+} from "#src/annotation/review.js";
 import type {
   BoundingBox,
   CoordinateSpaceTransform,
@@ -36,9 +50,10 @@ import {
   unpackRGBA,
 } from "#src/util/color.js";
 import { DataType } from "#src/util/data_type.js";
-import type { Borrowed } from "#src/util/disposable.js";
+import type { Borrowed, Owned } from "#src/util/disposable.js";
 import { RefCounted } from "#src/util/disposable.js";
 import { Endianness, ENDIANNESS } from "#src/util/endian.js";
+import { triangulatePolygon } from "#src/util/geom.js";
 import {
   expectArray,
   parseArray,
@@ -75,12 +90,45 @@ export class AnnotationReference extends RefCounted {
   }
 }
 
+/**
+ * Returns a reference to the annotation with the specified id once its value has been retrieved,
+ * or `undefined` if the annotation does not exist.  For sources that retrieve annotations
+ * asynchronously, such as multiscale sources, the value is retrieved along with its related
+ * segments, such that the annotation can then be updated or deleted through the reference.
+ */
+export function getLoadedAnnotationReference(
+  source: { getReference(id: AnnotationId): Owned<AnnotationReference> },
+  id: AnnotationId,
+): Promise<Owned<AnnotationReference> | undefined> {
+  const reference = source.getReference(id);
+  return new Promise((resolve) => {
+    const check = () => {
+      const { value } = reference;
+      if (value === undefined) return false;
+      if (value === null) {
+        reference.dispose();
+        resolve(undefined);
+      } else {
+        resolve(reference);
+      }
+      return true;
+    };
+    if (check()) return;
+    const unregister = reference.changed.add(() => {
+      if (reference.value === undefined) return;
+      unregister();
+      check();
+    });
+  });
+}
+
 export enum AnnotationType {
   POINT = 0,
   LINE = 1,
   AXIS_ALIGNED_BOUNDING_BOX = 2,
   ELLIPSOID = 3,
   LINE_STRING = 4,
+  POLYGON = 5,
 }
 
 export const annotationTypes = [
@@ -89,6 +137,7 @@ export const annotationTypes = [
   AnnotationType.AXIS_ALIGNED_BOUNDING_BOX,
   AnnotationType.ELLIPSOID,
   AnnotationType.LINE_STRING,
+  AnnotationType.POLYGON,
 ];
 
 export interface AnnotationPropertySpecBase {
@@ -113,6 +162,26 @@ export interface AnnotationNumericPropertySpec
   step?: number;
 }
 
+export interface AnnotationStringPropertySpec
+  extends AnnotationPropertySpecBase {
+  type: "string";
+  default: string;
+}
+
+/**
+ * Property whose value is a subset of a fixed vocabulary of tags.  The value is represented as a
+ * bit mask, where bit `i` indicates that `tags[i]` is present.
+ */
+export interface AnnotationTagsPropertySpec extends AnnotationPropertySpecBase {
+  type: "tags";
+  default: number;
+  tags: string[];
+  // Must be the same length as `tags`.
+  tagDescriptions: (string | undefined)[];
+}
+
+export const MAX_ANNOTATION_PROPERTY_TAGS = 32;
+
 export const propertyTypeDataType: Record<
   AnnotationPropertySpec["type"],
   DataType | undefined
@@ -126,19 +195,91 @@ export const propertyTypeDataType: Record<
   int8: DataType.INT8,
   rgb: undefined,
   rgba: undefined,
+  string: undefined,
+  tags: undefined,
 };
 
 export type AnnotationPropertySpec =
   | AnnotationColorPropertySpec
-  | AnnotationNumericPropertySpec;
+  | AnnotationNumericPropertySpec
+  | AnnotationStringPropertySpec
+  | AnnotationTagsPropertySpec;
+
+/**
+ * Table of the distinct values of string properties.  In serialized form, string property values
+ * are represented by their index into the table of the `AnnotationPropertySerializer`.
+ *
+ * Values are only added by serialization, so the table is cleared each time all annotations that
+ * use it are serialized again, in order to drop values that are no longer used, such as the
+ * intermediate values of a property while it is edited.
+ */
+export class AnnotationStringTable {
+  strings: string[] = [""];
+  private indices = new Map<string, number>([["", 0]]);
+
+  intern(value: string): number {
+    const { indices } = this;
+    let index = indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      indices.set(value, index);
+    }
+    return index;
+  }
+
+  get(index: number): string {
+    return this.strings[index] ?? "";
+  }
+
+  /**
+   * Removes all values.  Annotations serialized previously can no longer be deserialized.
+   */
+  clear() {
+    this.strings.length = 1;
+    const { indices } = this;
+    indices.clear();
+    indices.set("", 0);
+  }
+}
 
 export interface AnnotationPropertyTypeHandler {
   serializedBytes(rank: number): number;
   alignment(rank: number): number;
+  /**
+   * Returns code that serializes the property.  The code may refer to the
+   * `AnnotationStringTable` of the serializer as `strings`.
+   */
   serializeCode(property: string, offset: string, rank: number): string;
   deserializeCode(property: string, offset: string, rank: number): string;
-  deserializeJson(obj: unknown): number;
-  serializeJson(value: number): any;
+  deserializeJson(obj: unknown, spec: Readonly<AnnotationPropertySpec>): any;
+  serializeJson(value: any, spec: Readonly<AnnotationPropertySpec>): any;
+}
+
+export function parseAnnotationPropertyTags(
+  obj: unknown,
+  spec: Readonly<AnnotationTagsPropertySpec>,
+): number {
+  let mask = 0;
+  for (const tag of parseArray(obj, verifyString)) {
+    const index = spec.tags.indexOf(tag);
+    if (index === -1) {
+      throw new Error(
+        `Invalid tag ${JSON.stringify(tag)} for property ${JSON.stringify(
+          spec.identifier,
+        )}`,
+      );
+    }
+    mask |= 1 << index;
+  }
+  return mask >>> 0;
+}
+
+export function getAnnotationPropertyTags(
+  spec: Readonly<AnnotationTagsPropertySpec>,
+  value: number,
+): string[] {
+  return spec.tags.filter((_, i) => (value & (1 << i)) !== 0);
 }
 
 export const annotationPropertyTypeHandlers: {
@@ -327,6 +468,52 @@ export const annotationPropertyTypeHandlers: {
       return value;
     },
   },
+  string: {
+    serializedBytes() {
+      return 4;
+    },
+    alignment() {
+      return 4;
+    },
+    serializeCode(property: string, offset: string) {
+      return `dv.setUint32(${offset}, strings.intern(${property}), isLittleEndian);`;
+    },
+    deserializeCode(property: string, offset: string) {
+      return `${property} = strings.get(dv.getUint32(${offset}, isLittleEndian));`;
+    },
+    deserializeJson(obj: unknown) {
+      return verifyString(obj);
+    },
+    serializeJson(value: string) {
+      return value;
+    },
+  },
+  tags: {
+    serializedBytes() {
+      return 4;
+    },
+    alignment() {
+      return 4;
+    },
+    serializeCode(property: string, offset: string) {
+      return `dv.setUint32(${offset}, ${property}, isLittleEndian);`;
+    },
+    deserializeCode(property: string, offset: string) {
+      return `${property} = dv.getUint32(${offset}, isLittleEndian);`;
+    },
+    deserializeJson(obj: unknown, spec: Readonly<AnnotationPropertySpec>) {
+      return parseAnnotationPropertyTags(
+        obj,
+        spec as AnnotationTagsPropertySpec,
+      );
+    },
+    serializeJson(value: number, spec: Readonly<AnnotationPropertySpec>) {
+      return getAnnotationPropertyTags(
+        spec as AnnotationTagsPropertySpec,
+        value,
+      );
+    },
+  },
 };
 
 // Maximum stride value supported by WebGL.
@@ -409,6 +596,7 @@ export class AnnotationPropertySerializer {
     properties: any[],
   ) => void;
   propertyGroupBytes: number[];
+  strings = new AnnotationStringTable();
   constructor(
     public rank: number,
     public firstGroupInitialOffset: number,
@@ -460,24 +648,14 @@ export class AnnotationPropertySerializer {
       deserializeCode += handler.deserializeCode(propId, offsetExpr, rank);
     }
     this.serializedBytes = serializedBytes;
-    this.serialize = new Function(
-      "dv",
-      "offset",
-      "annotationIndex",
-      "annotationCount",
-      "isLittleEndian",
-      "properties",
-      serializeCode,
-    ) as any;
-    this.deserialize = new Function(
-      "dv",
-      "offset",
-      "annotationIndex",
-      "annotationCount",
-      "isLittleEndian",
-      "properties",
-      deserializeCode,
-    ) as any;
+    const makeFunction = (code: string) =>
+      new Function(
+        "strings",
+        "return function(dv, offset, annotationIndex, annotationCount, " +
+          `isLittleEndian, properties) {${code}};`,
+      )(this.strings);
+    this.serialize = makeFunction(serializeCode);
+    this.deserialize = makeFunction(deserializeCode);
   }
 }
 
@@ -522,6 +700,12 @@ export function formatAnnotationPropertyValue(
       return serializeColor(unpackRGB(value));
     case "rgba":
       return serializeColor(unpackRGBA(value));
+    case "string":
+      return value;
+    case "tags":
+      return getAnnotationPropertyTags(property, value)
+        .map((tag) => `#${tag}`)
+        .join(" ");
     default:
       return formatNumericProperty(property, value);
   }
@@ -540,7 +724,7 @@ export function parseAnnotationPropertyType(obj: unknown) {
   if (
     !Object.prototype.hasOwnProperty.call(annotationPropertyTypeHandlers, obj)
   ) {
-    throw new Error("Unsupported property type: $JSON.stringify(obj)}");
+    throw new Error(`Unsupported property type: ${JSON.stringify(obj)}`);
   }
   return obj as AnnotationPropertySpec["type"];
 }
@@ -557,6 +741,56 @@ export function ensureUniqueAnnotationPropertyIds(
   }
 }
 
+function parseAnnotationTagsPropertySpec(
+  obj: any,
+  identifier: string,
+  description: string | undefined,
+): AnnotationTagsPropertySpec {
+  const tags = verifyObjectProperty(obj, "tags", (tagsObj) =>
+    parseArray(tagsObj, (x) => {
+      const tag = verifyString(x);
+      if (tag === "" || /\s/.test(tag)) {
+        throw new Error(`Invalid tag: ${JSON.stringify(tag)}`);
+      }
+      return tag;
+    }),
+  );
+  if (tags.length > MAX_ANNOTATION_PROPERTY_TAGS) {
+    throw new Error(
+      `Number of tags (${tags.length}) exceeds maximum of ${MAX_ANNOTATION_PROPERTY_TAGS}`,
+    );
+  }
+  if (new Set(tags).size !== tags.length) {
+    throw new Error(`Duplicate tag in ${JSON.stringify(tags)}`);
+  }
+  const tagDescriptions = verifyOptionalObjectProperty(
+    obj,
+    "tag_descriptions",
+    (descriptionsObj) =>
+      parseFixedLengthArray(
+        new Array<string | undefined>(tags.length),
+        descriptionsObj,
+        verifyOptionalString,
+      ),
+    tags.map(() => undefined),
+  );
+  const spec: AnnotationTagsPropertySpec = {
+    type: "tags",
+    identifier,
+    description,
+    default: 0,
+    tags,
+    tagDescriptions,
+  };
+  spec.default = verifyOptionalObjectProperty(
+    obj,
+    "default",
+    (x) => parseAnnotationPropertyTags(x, spec),
+    0,
+  );
+  return spec;
+}
+
 function parseAnnotationPropertySpec(obj: unknown): AnnotationPropertySpec {
   verifyObject(obj);
   const identifier = verifyObjectProperty(obj, "id", parseAnnotationPropertyId);
@@ -566,10 +800,26 @@ function parseAnnotationPropertySpec(obj: unknown): AnnotationPropertySpec {
     "description",
     verifyString,
   );
+  switch (type) {
+    case "string":
+      return {
+        type,
+        identifier,
+        description,
+        default: verifyOptionalObjectProperty(obj, "default", verifyString, ""),
+      };
+    case "tags":
+      return parseAnnotationTagsPropertySpec(obj, identifier, description);
+  }
   const defaultValue = verifyOptionalObjectProperty(
     obj,
     "default",
-    (x) => annotationPropertyTypeHandlers[type].deserializeJson(x),
+    (x) =>
+      annotationPropertyTypeHandlers[type].deserializeJson(x, {
+        type,
+        identifier,
+        description,
+      } as AnnotationPropertySpec),
     0,
   );
   let enumValues: number[] | undefined;
@@ -600,7 +850,7 @@ function parseAnnotationPropertySpec(obj: unknown): AnnotationPropertySpec {
       }
     }
   }
-  return {
+  const spec = {
     type,
     identifier,
     description,
@@ -608,19 +858,33 @@ function parseAnnotationPropertySpec(obj: unknown): AnnotationPropertySpec {
     enumValues,
     enumLabels,
   } as AnnotationPropertySpec;
+  if (identifier === REVIEW_STATUS_PROPERTY_ID) {
+    return normalizeReviewStatusPropertySpec(spec);
+  }
+  return spec;
 }
 
 function annotationPropertySpecToJson(spec: AnnotationPropertySpec) {
   const defaultValue = spec.default;
-  return {
+  const json: any = {
     id: spec.identifier,
     description: spec.description,
     type: spec.type,
     default:
-      defaultValue === 0
+      defaultValue === 0 || defaultValue === ""
         ? undefined
-        : annotationPropertyTypeHandlers[spec.type].serializeJson(defaultValue),
+        : annotationPropertyTypeHandlers[spec.type].serializeJson(
+            defaultValue,
+            spec,
+          ),
   };
+  if (spec.type === "tags") {
+    json.tags = spec.tags;
+    if (spec.tagDescriptions.some((x) => x !== undefined)) {
+      json.tag_descriptions = spec.tagDescriptions;
+    }
+  }
+  return json;
 }
 
 export function annotationPropertySpecsToJson(
@@ -679,20 +943,42 @@ export interface LineString extends AnnotationBase {
   type: AnnotationType.LINE_STRING;
 }
 
-export type Annotation = Line | Point | AxisAlignedBoundingBox | Ellipsoid | LineString;
+/**
+ * Closed polygon.  The last vertex is implicitly connected to the first.
+ */
+export interface Polygon extends AnnotationBase {
+  points: Float32Array[];
+  type: AnnotationType.POLYGON;
+}
+
+export type Annotation =
+  | Line
+  | Point
+  | AxisAlignedBoundingBox
+  | Ellipsoid
+  | LineString
+  | Polygon;
 
 export interface AnnotationTypeHandler<T extends Annotation = Annotation> {
   icon: string;
   description: string;
   toJSON: (annotation: T, rank: number) => any;
   restoreState: (annotation: T, obj: any, rank: number) => void;
+  /**
+   * Number of geometry bytes of a single primitive.  All annotation types except `LINE_STRING`
+   * are represented by exactly one primitive; line strings use one primitive per segment.
+   */
   serializedBytes: (rank: number) => number;
+  /**
+   * Writes the primitives of `annotation`.  Consecutive primitives are `stride` bytes apart.
+   */
   serialize: (
     buffer: DataView,
     offset: number,
     isLittleEndian: boolean,
     rank: number,
     annotation: T,
+    stride?: number,
   ) => void;
   deserialize: (
     buffer: DataView,
@@ -700,12 +986,22 @@ export interface AnnotationTypeHandler<T extends Annotation = Annotation> {
     isLittleEndian: boolean,
     rank: number,
     id: string,
+    primitiveCount?: number,
+    stride?: number,
   ) => T;
   visitGeometry: (
     annotation: T,
     callback: (vec: Float32Array, isVector: boolean) => void,
   ) => void;
   getByteInstanceCount: (annotations: Annotation[]) => number;
+  /**
+   * Returns the measurements of `annotation`, with points mapped to physical coordinates by
+   * `transform`.  Omitted for annotation types without any measurements.
+   */
+  measure?: (
+    annotation: T,
+    transform: AnnotationPhysicalTransform,
+  ) => AnnotationMeasurement[];
 }
 
 function serializeFloatVector(
@@ -842,6 +1138,17 @@ export const annotationTypeHandlers: Record<
     getByteInstanceCount(annotations: Line[]) {
       return annotations.length;
     },
+    measure(annotation: Line, transform) {
+      return [
+        {
+          name: "length",
+          value: getPathLength([
+            transform(annotation.pointA),
+            transform(annotation.pointB),
+          ]),
+        },
+      ];
+    },
   },
   [AnnotationType.POINT]: {
     icon: "⚬",
@@ -960,6 +1267,11 @@ export const annotationTypeHandlers: Record<
     getByteInstanceCount(annotations: AxisAlignedBoundingBox[]) {
       return annotations.length;
     },
+    measure(annotation: AxisAlignedBoundingBox, transform) {
+      const { pointA, pointB } = annotation;
+      const extents = pointB.map((x, i) => x - pointA[i]);
+      return measureExtent(getPhysicalEdges(pointA, extents, transform), false);
+    },
   },
   [AnnotationType.ELLIPSOID]: {
     icon: "◎",
@@ -1031,6 +1343,12 @@ export const annotationTypeHandlers: Record<
     getByteInstanceCount(annotations: Ellipsoid[]) {
       return annotations.length;
     },
+    measure(annotation: Ellipsoid, transform) {
+      return measureExtent(
+        getPhysicalEdges(annotation.center, annotation.radii, transform),
+        true,
+      );
+    },
   },
   [AnnotationType.LINE_STRING]: {
     icon: '┉',
@@ -1048,33 +1366,415 @@ export const annotationTypeHandlers: Record<
       return 2 * 4 * rank;
     },
     serialize(
-        buffer: DataView, offset: number, isLittleEndian: boolean, rank: number, annotation: LineString) {
-        serializeFloatVectorArray(buffer, offset, isLittleEndian, rank, annotation.points);
-    },
-    deserialize:
-    (buffer: DataView, offset: number, isLittleEndian: boolean, rank: number, id: string):
-        Line => {
-          const pointA = new Float32Array(rank);
-          const pointB = new Float32Array(rank);
-          deserializeTwoFloatVectors(buffer, offset, isLittleEndian, rank, pointA, pointB);
-          return {type: AnnotationType.LINE, pointA, pointB, id, properties: []};
-        },
-        // TODO How do we deserialize when we don't know the array length ahead of time? Always store the length in index zero?
-        // (buffer: DataView, offset: number, isLittleEndian: boolean, rank: number, id: string):
-        //   LineString => {
-        //       const points = [new Float32Array(rank)];
-        //       deserializeFloatVectorArray(buffer, offset, isLittleEndian, rank, points);
-        //       return {type: AnnotationType.LINE_STRING, points, id, properties: []};
-        //     },
+      buffer: DataView,
+      offset: number,
+      isLittleEndian: boolean,
+      rank: number,
+      annotation: LineString,
+      stride = 2 * 4 * rank,
+    ) {
+      const { points } = annotation;
+      for (let i = 0, count = points.length / 2; i < count; ++i) {
+        serializeTwoFloatVectors(
+          buffer,
+          offset + i * stride,
+          isLittleEndian,
+          rank,
+          points[2 * i],
+          points[2 * i + 1],
+        );
+      }
+    },
+    deserialize: (
+      buffer: DataView,
+      offset: number,
+      isLittleEndian: boolean,
+      rank: number,
+      id: string,
+      primitiveCount = 1,
+      stride = 2 * 4 * rank,
+    ): LineString => {
+      const points: Float32Array[] = [];
+      for (let i = 0; i < primitiveCount; ++i) {
+        const pointA = new Float32Array(rank);
+        const pointB = new Float32Array(rank);
+        deserializeTwoFloatVectors(
+          buffer,
+          offset + i * stride,
+          isLittleEndian,
+          rank,
+          pointA,
+          pointB,
+        );
+        points.push(pointA, pointB);
+      }
+      return { type: AnnotationType.LINE_STRING, points, id, properties: [] };
+    },
     visitGeometry(annotation: LineString, callback) {
-      callback(annotation.points[0], false);
+      for (const point of getLineStringVertices(annotation.points)) {
+        callback(point, false);
+      }
     },
     getByteInstanceCount(annotations: LineString[]) {
       return annotations.reduce((a,c) => a + c.points.length / 2, 0);
     },
+    measure(annotation: LineString, transform) {
+      return [
+        {
+          name: 'length',
+          value: getPathLength(
+            getLineStringVertices(annotation.points).map(transform),
+          ),
+        },
+      ];
+    },
+  },
+  [AnnotationType.POLYGON]: {
+    icon: "⬠",
+    description: "Polygon",
+    toJSON(annotation: Polygon) {
+      return {
+        points: annotation.points.map((point) => Array.from(point)),
+      };
+    },
+    restoreState(annotation: Polygon, obj: any, rank: number) {
+      annotation.points = verifyObjectProperty(obj, "points", (x) =>
+        parseArray(x, (xi) =>
+          parseFixedLengthArray(new Float32Array(rank), xi, verifyFiniteFloat),
+        ),
+      );
+    },
+    // Each vertex is a primitive consisting of the edge to the next vertex, one triangle of the
+    // fill (degenerate for the last 2 vertices), and the uint32 index of the vertex.
+    serializedBytes(rank: number) {
+      return 5 * 4 * rank + 4;
+    },
+    serialize(
+      buffer: DataView,
+      offset: number,
+      isLittleEndian: boolean,
+      rank: number,
+      annotation: Polygon,
+      stride = 5 * 4 * rank + 4,
+    ) {
+      const { points } = annotation;
+      const triangles = triangulatePolygon(points);
+      for (let i = 0, count = points.length; i < count; ++i) {
+        let primitiveOffset = offset + i * stride;
+        primitiveOffset = serializeTwoFloatVectors(
+          buffer,
+          primitiveOffset,
+          isLittleEndian,
+          rank,
+          points[i],
+          points[(i + 1) % count],
+        );
+        for (let j = 0; j < 3; ++j) {
+          const vertex =
+            3 * i < triangles.length ? points[triangles[3 * i + j]] : points[i];
+          primitiveOffset = serializeFloatVector(
+            buffer,
+            primitiveOffset,
+            isLittleEndian,
+            rank,
+            vertex,
+          );
+        }
+        buffer.setUint32(primitiveOffset, i, isLittleEndian);
+      }
+    },
+    deserialize: (
+      buffer: DataView,
+      offset: number,
+      isLittleEndian: boolean,
+      rank: number,
+      id: string,
+      primitiveCount = 1,
+      stride = 5 * 4 * rank + 4,
+    ): Polygon => {
+      const points: Float32Array[] = [];
+      for (let i = 0; i < primitiveCount; ++i) {
+        const point = new Float32Array(rank);
+        deserializeFloatVector(
+          buffer,
+          offset + i * stride,
+          isLittleEndian,
+          rank,
+          point,
+        );
+        points.push(point);
+      }
+      return { type: AnnotationType.POLYGON, points, id, properties: [] };
+    },
+    visitGeometry(annotation: Polygon, callback) {
+      for (const point of annotation.points) {
+        callback(point, false);
+      }
+    },
+    getByteInstanceCount(annotations: Polygon[]) {
+      return annotations.reduce((a, c) => a + c.points.length, 0);
+    },
+    measure(annotation: Polygon, transform) {
+      const points = annotation.points.map(transform);
+      return [
+        { name: "area", value: getPolygonArea(points) },
+        { name: "perimeter", value: getPathLength(points, /*closed=*/ true) },
+      ];
+    },
   },
 };
 
+/**
+ * Returns the measurements of `annotation`, or an empty array if its type has none.
+ */
+export function measureAnnotation(
+  annotation: Annotation,
+  transform: AnnotationPhysicalTransform,
+): AnnotationMeasurement[] {
+  const handler = annotationTypeHandlers[
+    annotation.type
+  ] as AnnotationTypeHandler;
+  return handler.measure?.(annotation, transform) ?? [];
+}
+
+/**
+ * Returns the distinct vertices of a line string.
+ *
+ * `LineString.points` stores the consecutive segment endpoint pairs, terminated by a degenerate
+ * segment, i.e. the vertices `v0, v1, ..., vn` are stored as `v0, v1, v1, v2, ..., vn, vn, vn`.
+ */
+export function getLineStringVertices(points: Float32Array[]): Float32Array[] {
+  const vertices: Float32Array[] = [];
+  for (let i = 0, count = points.length; i < count; i += 2) {
+    vertices.push(points[i]);
+  }
+  return vertices;
+}
+
+/**
+ * Inverse of `getLineStringVertices`.
+ */
+export function makeLineStringPoints(vertices: Float32Array[]): Float32Array[] {
+  const points: Float32Array[] = [];
+  for (let i = 0, count = vertices.length; i < count; ++i) {
+    points.push(vertices[i], vertices[Math.min(i + 1, count - 1)]);
+  }
+  return points;
+}
+
+function withLineStringVertices(
+  annotation: LineString,
+  vertices: Float32Array[],
+): LineString {
+  return { ...annotation, points: makeLineStringPoints(vertices) };
+}
+
+/**
+ * Returns a copy of `annotation` with `position` inserted as vertex `vertexIndex`.
+ */
+export function insertLineStringVertex(
+  annotation: LineString,
+  vertexIndex: number,
+  position: Float32Array,
+): LineString {
+  const vertices = getLineStringVertices(annotation.points);
+  vertices.splice(vertexIndex, 0, position);
+  return withLineStringVertices(annotation, vertices);
+}
+
+/**
+ * Returns a copy of `annotation` with vertex `vertexIndex` removed, or `undefined` if it is the
+ * only vertex.
+ */
+export function deleteLineStringVertex(
+  annotation: LineString,
+  vertexIndex: number,
+): LineString | undefined {
+  const vertices = getLineStringVertices(annotation.points);
+  if (vertices.length <= 1) return undefined;
+  vertices.splice(vertexIndex, 1);
+  return withLineStringVertices(annotation, vertices);
+}
+
+/**
+ * Splits `annotation` into two line strings that share vertex `vertexIndex`.  The first retains the
+ * id of `annotation`; the second has an empty id so that a new one is assigned when it is added.
+ *
+ * @returns `undefined` if `vertexIndex` is an endpoint.
+ */
+export function splitLineString(
+  annotation: LineString,
+  vertexIndex: number,
+): [LineString, LineString] | undefined {
+  const vertices = getLineStringVertices(annotation.points);
+  if (vertexIndex <= 0 || vertexIndex >= vertices.length - 1) return undefined;
+  return [
+    withLineStringVertices(annotation, vertices.slice(0, vertexIndex + 1)),
+    {
+      ...withLineStringVertices(annotation, vertices.slice(vertexIndex)),
+      id: "",
+      properties: Array.from(annotation.properties),
+      relatedSegments: annotation.relatedSegments?.map((x) => Array.from(x)),
+    },
+  ];
+}
+
+/**
+ * Joins two line strings that share an endpoint.  The result retains the id, properties and related
+ * segments of `a`, and the shared endpoint is included only once.
+ *
+ * @returns `undefined` if no endpoint of `a` coincides with an endpoint of `b`.
+ */
+export function joinLineStrings(
+  a: LineString,
+  b: LineString,
+): LineString | undefined {
+  const aVertices = getLineStringVertices(a.points);
+  const bVertices = getLineStringVertices(b.points);
+  const aFirst = aVertices[0];
+  const aLast = aVertices[aVertices.length - 1];
+  const bFirst = bVertices[0];
+  const bLast = bVertices[bVertices.length - 1];
+  let vertices: Float32Array[];
+  if (arraysEqual(aLast, bFirst)) {
+    vertices = [...aVertices, ...bVertices.slice(1)];
+  } else if (arraysEqual(aLast, bLast)) {
+    vertices = [...aVertices, ...bVertices.reverse().slice(1)];
+  } else if (arraysEqual(aFirst, bLast)) {
+    vertices = [...bVertices, ...aVertices.slice(1)];
+  } else if (arraysEqual(aFirst, bFirst)) {
+    vertices = [...bVertices.reverse(), ...aVertices.slice(1)];
+  } else {
+    return undefined;
+  }
+  return withLineStringVertices(a, vertices);
+}
+
+/**
+ * Returns `true` if the geometry of annotations of the specified type is encoded with a variable
+ * number of vertices.
+ */
+export function isVariableLengthAnnotationType(type: AnnotationType) {
+  return type === AnnotationType.LINE_STRING || type === AnnotationType.POLYGON;
+}
+
+function getEncodedVertices(annotation: LineString | Polygon) {
+  return annotation.type === AnnotationType.LINE_STRING
+    ? getLineStringVertices(annotation.points)
+    : annotation.points;
+}
+
+/**
+ * Returns the number of bytes used by the geometry of `annotation` in the encoding used by the
+ * precomputed annotation format.  For fixed-size annotation types this is the same as
+ * `serializedBytes`; line strings and polygons are encoded as a uint32 vertex count followed by
+ * the vertices.
+ */
+export function getEncodedAnnotationGeometryBytes(
+  annotation: Annotation,
+  rank: number,
+) {
+  switch (annotation.type) {
+    case AnnotationType.LINE_STRING:
+    case AnnotationType.POLYGON:
+      return 4 + getEncodedVertices(annotation).length * 4 * rank;
+    default:
+      return annotationTypeHandlers[annotation.type].serializedBytes(rank);
+  }
+}
+
+/**
+ * Encodes the geometry of `annotation` as described by `getEncodedAnnotationGeometryBytes`.
+ *
+ * @returns The offset immediately following the encoded geometry.
+ */
+export function encodeAnnotationGeometry(
+  buffer: DataView,
+  offset: number,
+  isLittleEndian: boolean,
+  rank: number,
+  annotation: Annotation,
+): number {
+  switch (annotation.type) {
+    case AnnotationType.LINE_STRING:
+    case AnnotationType.POLYGON: {
+      const vertices = getEncodedVertices(annotation);
+      buffer.setUint32(offset, vertices.length, isLittleEndian);
+      return serializeFloatVectorArray(
+        buffer,
+        offset + 4,
+        isLittleEndian,
+        rank,
+        vertices,
+      );
+    }
+    default: {
+      const handler = annotationTypeHandlers[annotation.type];
+      handler.serialize(buffer, offset, isLittleEndian, rank, annotation);
+      return offset + handler.serializedBytes(rank);
+    }
+  }
+}
+
+/**
+ * Decodes geometry encoded by `encodeAnnotationGeometry`.
+ *
+ * @returns The decoded annotation (with empty `properties`) and the offset immediately following
+ * the encoded geometry.
+ */
+export function decodeAnnotationGeometry(
+  buffer: DataView,
+  offset: number,
+  isLittleEndian: boolean,
+  rank: number,
+  type: AnnotationType,
+  id: string,
+): { annotation: Annotation; offset: number } {
+  switch (type) {
+    case AnnotationType.LINE_STRING:
+    case AnnotationType.POLYGON: {
+      if (buffer.byteLength < offset + 4) {
+        throw new Error("Expected vertex count");
+      }
+      const numVertices = buffer.getUint32(offset, isLittleEndian);
+      offset += 4;
+      const endOffset = offset + numVertices * 4 * rank;
+      const minVertices = type === AnnotationType.POLYGON ? 3 : 1;
+      if (numVertices < minVertices || buffer.byteLength < endOffset) {
+        throw new Error(`Invalid vertex count: ${numVertices}`);
+      }
+      const vertices: Float32Array[] = [];
+      for (let i = 0; i < numVertices; ++i) {
+        const vertex = new Float32Array(rank);
+        offset = deserializeFloatVector(
+          buffer,
+          offset,
+          isLittleEndian,
+          rank,
+          vertex,
+        );
+        vertices.push(vertex);
+      }
+      const annotation: LineString | Polygon =
+        type === AnnotationType.LINE_STRING
+          ? { type, points: makeLineStringPoints(vertices), id, properties: [] }
+          : { type, points: vertices, id, properties: [] };
+      return { annotation, offset };
+    }
+    default: {
+      const handler = annotationTypeHandlers[type];
+      const annotation = handler.deserialize(
+        buffer,
+        offset,
+        isLittleEndian,
+        rank,
+        id,
+      );
+      return { annotation, offset: offset + handler.serializedBytes(rank) };
+    }
+  }
+}
+
 export interface AnnotationSchema {
   rank: number;
   relationships: readonly string[];
@@ -1101,7 +1801,10 @@ export function annotationToJson(
   if (schema.properties.length !== 0) {
     const propertySpecs = schema.properties;
     result.props = annotation.properties.map((prop, i) =>
-      annotationPropertyTypeHandlers[propertySpecs[i].type].serializeJson(prop),
+      annotationPropertyTypeHandlers[propertySpecs[i].type].serializeJson(
+        prop,
+        propertySpecs[i],
+      ),
     );
   }
   return result;
@@ -1142,7 +1845,10 @@ function restoreAnnotation(
     const propSpecs = schema.properties;
     if (propsObj === undefined) return propSpecs.map((x) => x.default);
     return parseArray(expectArray(propsObj, schema.properties.length), (x, i) =>
-      annotationPropertyTypeHandlers[propSpecs[i].type].deserializeJson(x),
+      annotationPropertyTypeHandlers[propSpecs[i].type].deserializeJson(
+        x,
+        propSpecs[i],
+      ),
     );
   });
   const result: Annotation = {
@@ -1162,6 +1868,18 @@ export interface AnnotationSourceSignals {
   childUpdated: Signal<(annotation: Annotation) => void>;
   childCommitted: Signal<(annotationId: string) => void>;
   childDeleted: Signal<(annotationId: string) => void>;
+  /**
+   * Dispatched when an edit to an annotation is committed.  `before` is the committed state prior
+   * to the edit (`null` if the annotation was added), and `after` is the new committed state
+   * (`null` if the annotation was deleted).
+   */
+  childEdited: Signal<
+    (
+      annotationId: AnnotationId,
+      before: Annotation | null,
+      after: Annotation | null,
+    ) => void
+  >;
 }
 
 export class AnnotationSource
@@ -1175,9 +1893,21 @@ export class AnnotationSource
   childUpdated = new Signal<(annotation: Annotation) => void>();
   childCommitted = new Signal<(annotationId: string) => void>();
   childDeleted = new Signal<(annotationId: string) => void>();
+  childEdited = new Signal<
+    (
+      annotationId: AnnotationId,
+      before: Annotation | null,
+      after: Annotation | null,
+    ) => void
+  >();
 
   public pending = new Set<AnnotationId>();
 
+  /**
+   * Committed state (`null` if not yet committed) of annotations with uncommitted modifications.
+   */
+  private uncommittedOriginals = new Map<AnnotationId, Annotation | null>();
+
   protected rank_: number;
 
   get rank() {
@@ -1213,13 +1943,21 @@ export class AnnotationSource
       );
     }
     this.annotationMap.set(annotation.id, annotation);
+    const existingReference = this.references.get(annotation.id);
+    if (existingReference !== undefined) {
+      // References to a previously-deleted annotation with the same id may remain.
+      existingReference.value = annotation;
+      existingReference.changed.dispatch();
+    }
     if (!commit) {
       this.pending.add(annotation.id);
+      this.uncommittedOriginals.set(annotation.id, null);
     }
     this.changed.dispatch();
     this.childAdded.dispatch(annotation);
     if (commit) {
       this.childCommitted.dispatch(annotation.id);
+      this.childEdited.dispatch(annotation.id, null, annotation);
     }
     return this.getReference(annotation.id);
   }
@@ -1230,6 +1968,12 @@ export class AnnotationSource
     this.pending.delete(id);
     this.changed.dispatch();
     this.childCommitted.dispatch(id);
+    const { uncommittedOriginals } = this;
+    const original = uncommittedOriginals.get(id);
+    if (original !== undefined) {
+      uncommittedOriginals.delete(id);
+      this.childEdited.dispatch(id, original, this.annotationMap.get(id)!);
+    }
   }
 
   update(reference: AnnotationReference, annotation: Annotation) {
@@ -1237,6 +1981,13 @@ export class AnnotationSource
     if (reference.value === null) {
       throw new Error("Annotation already deleted.");
     }
+    const { uncommittedOriginals } = this;
+    if (!uncommittedOriginals.has(annotation.id)) {
+      uncommittedOriginals.set(
+        annotation.id,
+        this.annotationMap.get(annotation.id) ?? null,
+      );
+    }
     reference.value = annotation;
     this.annotationMap.set(annotation.id, annotation);
     reference.changed.dispatch();
@@ -1258,12 +2009,21 @@ export class AnnotationSource
     if (reference.value === null) {
       return;
     }
+    const { id } = reference;
+    const { uncommittedOriginals } = this;
+    const original = uncommittedOriginals.has(id)
+      ? uncommittedOriginals.get(id)!
+      : this.annotationMap.get(id) ?? null;
+    uncommittedOriginals.delete(id);
     reference.value = null;
-    this.annotationMap.delete(reference.id);
-    this.pending.delete(reference.id);
+    this.annotationMap.delete(id);
+    this.pending.delete(id);
     reference.changed.dispatch();
     this.changed.dispatch();
-    this.childDeleted.dispatch(reference.id);
+    this.childDeleted.dispatch(id);
+    if (original !== null) {
+      this.childEdited.dispatch(id, original, null);
+    }
   }
 
   getReference(id: AnnotationId): AnnotationReference {
@@ -1301,6 +2061,7 @@ export class AnnotationSource
   clear() {
     this.annotationMap.clear();
     this.pending.clear();
+    this.uncommittedOriginals.clear();
     this.changed.dispatch();
   }
 
@@ -1309,6 +2070,7 @@ export class AnnotationSource
     const { annotationMap } = this;
     annotationMap.clear();
     this.pending.clear();
+    this.uncommittedOriginals.clear();
     if (obj !== undefined) {
       parseArray(obj, (x) => {
         const annotation = restoreAnnotation(x, this);
@@ -1399,6 +2161,10 @@ export class LocalAnnotationSource extends AnnotationSource {
           annotation.center = mapVector(annotation.center);
           annotation.radii = mapVector(annotation.radii);
           break;
+        case AnnotationType.LINE_STRING:
+        case AnnotationType.POLYGON:
+          annotation.points = annotation.points.map(mapVector);
+          break;
       }
     }
     if (this.rank_ !== sourceRank) {
@@ -1446,6 +2212,27 @@ export interface SerializedAnnotations {
   typeToOffset: number[];
   typeToIdMaps: Map<string, number>[];
   typeToPrimitiveCount: number[];
+  /**
+   * For each annotation type, the index of the first primitive of each annotation, followed by
+   * the total number of primitives.  The primitives of annotation `i` are
+   * `[typeToPrimitiveOffsets[type][i], typeToPrimitiveOffsets[type][i + 1])`.
+   */
+  typeToPrimitiveOffsets: number[][];
+}
+
+/**
+ * Returns the number of primitives used by each annotation of the specified type.
+ */
+export function getPrimitiveCounts(
+  serializedAnnotations: SerializedAnnotations,
+  type: AnnotationType,
+): number[] {
+  const offsets = serializedAnnotations.typeToPrimitiveOffsets[type];
+  const counts = new Array<number>(offsets.length - 1);
+  for (let i = 0, count = counts.length; i < count; ++i) {
+    counts[i] = offsets[i + 1] - offsets[i];
+  }
+  return counts;
 }
 
 function serializeAnnotations(
@@ -1454,6 +2241,7 @@ function serializeAnnotations(
 ): SerializedAnnotations {
   let totalBytes = 0;
   const typeToPrimitiveCount: number[] = [];
+  const typeToPrimitiveOffsets: number[][] = [];
   const typeToOffset: number[] = [];
   for (const annotationType of annotationTypes) {
     const propertySerializer = propertySerializers[annotationType];
@@ -1461,10 +2249,16 @@ function serializeAnnotations(
     typeToOffset[annotationType] = totalBytes;
     const annotations: Annotation[] = allAnnotations[annotationType];
     const handler = annotationTypeHandlers[annotationType];
-    const byteInstanceCount = handler.getByteInstanceCount(annotations);
-
-    typeToPrimitiveCount[annotationType] = byteInstanceCount;
-    totalBytes += serializedPropertiesBytes * byteInstanceCount;
+    const offsets = new Array<number>(annotations.length + 1);
+    let primitiveCount = 0;
+    for (let i = 0, count = annotations.length; i < count; ++i) {
+      offsets[i] = primitiveCount;
+      primitiveCount += handler.getByteInstanceCount([annotations[i]]);
+    }
+    offsets[annotations.length] = primitiveCount;
+    typeToPrimitiveOffsets[annotationType] = offsets;
+    typeToPrimitiveCount[annotationType] = primitiveCount;
+    totalBytes += serializedPropertiesBytes * primitiveCount;
   }
   const typeToIds: string[][] = [];
   const typeToIdMaps: Map<string, number>[] = [];
@@ -1483,39 +2277,55 @@ function serializeAnnotations(
     const handler = annotationTypeHandlers[annotationType];
     const serialize = handler.serialize;
     const offset = typeToOffset[annotationType];
-    let geometryOffset = 0;
+    const geometryDataStride = propertySerializer.propertyGroupBytes[0];
+    const offsets = typeToPrimitiveOffsets[annotationType];
+    const primitiveCount = typeToPrimitiveCount[annotationType];
     for (let i = 0, count = annotations.length; i < count; ++i) {
       const annotation = annotations[i];
+      const beginPrimitive = offsets[i];
       serialize(
         dataView,
-        offset + geometryOffset,
+        offset + beginPrimitive * geometryDataStride,
         isLittleEndian,
         rank,
-        annotation
-      );
-      serializeProperties(
-        dataView,
-        offset,
-        i,
-        count,
-        isLittleEndian,
-        annotation.properties,
+        annotation,
+        geometryDataStride,
       );
-
-      geometryOffset += handler.getByteInstanceCount([annotation]) * handler.serializedBytes(rank);
+      for (
+        let primitiveIndex = beginPrimitive, endPrimitive = offsets[i + 1];
+        primitiveIndex < endPrimitive;
+        ++primitiveIndex
+      ) {
+        serializeProperties(
+          dataView,
+          offset,
+          primitiveIndex,
+          primitiveCount,
+          isLittleEndian,
+          annotation.properties,
+        );
+      }
     }
   }
-  return {data: new Uint8Array(data), typeToIds, typeToOffset, typeToIdMaps, typeToPrimitiveCount};
+  return {
+    data: new Uint8Array(data),
+    typeToIds,
+    typeToOffset,
+    typeToIdMaps,
+    typeToPrimitiveCount,
+    typeToPrimitiveOffsets,
+  };
 }
 
 export class AnnotationSerializer {
-  annotations: [Point[], Line[], AxisAlignedBoundingBox[], Ellipsoid[], LineString[]] = [
-    [],
-    [],
-    [],
-    [],
-    [],
-  ];
+  annotations: [
+    Point[],
+    Line[],
+    AxisAlignedBoundingBox[],
+    Ellipsoid[],
+    LineString[],
+    Polygon[],
+  ] = [[], [], [], [], [], []];
   constructor(public propertySerializers: AnnotationPropertySerializer[]) {}
   add(annotation: Annotation) {
     (<Annotation[]>this.annotations[annotation.type]).push(annotation);
@@ -1525,6 +2335,54 @@ export class AnnotationSerializer {
   }
 }
 
+/**
+ * Inverse of `AnnotationSerializer.serialize`.  Related segments are not serialized, and are
+ * therefore not set on the returned annotations.
+ */
+export function* deserializeAnnotations(
+  serializedAnnotations: SerializedAnnotations,
+  propertySerializers: AnnotationPropertySerializer[],
+): Generator<Annotation> {
+  const { data, typeToIds, typeToOffset, typeToPrimitiveCount } =
+    serializedAnnotations;
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const isLittleEndian = ENDIANNESS === Endianness.LITTLE;
+  for (const annotationType of annotationTypes) {
+    const propertySerializer = propertySerializers[annotationType];
+    const { rank } = propertySerializer;
+    const handler = annotationTypeHandlers[annotationType];
+    const ids = typeToIds[annotationType];
+    const offset = typeToOffset[annotationType];
+    const offsets =
+      serializedAnnotations.typeToPrimitiveOffsets[annotationType];
+    const primitiveCount = typeToPrimitiveCount[annotationType];
+    const geometryDataStride = propertySerializer.propertyGroupBytes[0];
+    for (let i = 0, count = ids.length; i < count; ++i) {
+      const beginPrimitive = offsets[i];
+      const annotation = handler.deserialize(
+        dataView,
+        offset + beginPrimitive * geometryDataStride,
+        isLittleEndian,
+        rank,
+        ids[i],
+        offsets[i + 1] - beginPrimitive,
+        geometryDataStride,
+      );
+      propertySerializer.deserialize(
+        dataView,
+        offset,
+        beginPrimitive,
+        primitiveCount,
+        isLittleEndian,
+        (annotation.properties = new Array(
+          propertySerializer.propertySpecs.length,
+        )),
+      );
+      yield annotation;
+    }
+  }
+}
+
 export function fixAnnotationAfterStructuredCloning(obj: Annotation | null) {
   if (obj == null) {
     return obj;
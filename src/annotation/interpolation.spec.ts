@@ -0,0 +1,152 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for interpolation of line strings between slices.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findSliceDimension,
+  interpolateLineStringVertices,
+  interpolatePolygonVertices,
+  resamplePolygon,
+  resamplePolyline,
+} from "#src/annotation/interpolation.js";
+
+function vertices(...points: number[][]) {
+  return points.map((p) => Float32Array.from(p));
+}
+
+function toArrays(points: Float32Array[]) {
+  return points.map((p) => Array.from(p));
+}
+
+describe("resamplePolyline", () => {
+  it("spaces vertices uniformly by arc length", () => {
+    expect(
+      toArrays(resamplePolyline(vertices([0, 0], [1, 0], [1, 3]), 5)),
+    ).toEqual([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [1, 2],
+      [1, 3],
+    ]);
+  });
+
+  it("handles a single vertex", () => {
+    expect(toArrays(resamplePolyline(vertices([2, 3]), 3))).toEqual([
+      [2, 3],
+      [2, 3],
+      [2, 3],
+    ]);
+  });
+});
+
+describe("resamplePolygon", () => {
+  it("spaces vertices uniformly along the closed boundary", () => {
+    expect(
+      toArrays(resamplePolygon(vertices([0, 0], [2, 0], [2, 2], [0, 2]), 8)),
+    ).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [2, 1],
+      [2, 2],
+      [1, 2],
+      [0, 2],
+      [0, 1],
+    ]);
+  });
+});
+
+describe("findSliceDimension", () => {
+  it("finds the dimension in which both line strings are planar", () => {
+    expect(
+      findSliceDimension(
+        vertices([0, 0, 5], [4, 0, 5]),
+        vertices([0, 2, 9], [4, 3, 9]),
+      ),
+    ).toBe(2);
+    expect(
+      findSliceDimension(vertices([0, 0], [1, 1]), vertices([2, 2], [3, 3])),
+    ).toBe(-1);
+  });
+});
+
+describe("interpolateLineStringVertices", () => {
+  it("generates a line string on each intermediate slice", () => {
+    const result = interpolateLineStringVertices(
+      vertices([0, 0, 0], [4, 0, 0]),
+      vertices([0, 4, 4], [2, 4, 4], [4, 4, 4]),
+    )!;
+    expect(result.map(toArrays)).toEqual([
+      [
+        [0, 1, 1],
+        [2, 1, 1],
+        [4, 1, 1],
+      ],
+      [
+        [0, 2, 2],
+        [2, 2, 2],
+        [4, 2, 2],
+      ],
+      [
+        [0, 3, 3],
+        [2, 3, 3],
+        [4, 3, 3],
+      ],
+    ]);
+  });
+
+  it("aligns line strings traced in opposite directions", () => {
+    const result = interpolateLineStringVertices(
+      vertices([0, 0, 0], [4, 0, 0]),
+      vertices([4, 0, 2], [0, 0, 2]),
+    )!;
+    expect(result.map(toArrays)).toEqual([
+      [
+        [0, 0, 1],
+        [4, 0, 1],
+      ],
+    ]);
+  });
+
+  it("returns undefined for line strings not in parallel slices", () => {
+    expect(
+      interpolateLineStringVertices(
+        vertices([0, 0, 0], [4, 0, 1]),
+        vertices([0, 0, 3], [4, 0, 4]),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("interpolatePolygonVertices", () => {
+  it("aligns polygons traced from different vertices and in opposite directions", () => {
+    const result = interpolatePolygonVertices(
+      vertices([0, 0, 0], [4, 0, 0], [4, 4, 0], [0, 4, 0]),
+      vertices([4, 4, 2], [4, 0, 2], [0, 0, 2], [0, 4, 2]),
+    )!;
+    expect(result.map(toArrays)).toEqual([
+      [
+        [0, 0, 1],
+        [4, 0, 1],
+        [4, 4, 1],
+        [0, 4, 1],
+      ],
+    ]);
+  });
+
+  it("returns undefined for polygons not in parallel slices", () => {
+    expect(
+      interpolatePolygonVertices(
+        vertices([0, 0, 0], [4, 0, 1], [4, 4, 0]),
+        vertices([0, 0, 3], [4, 0, 4], [4, 4, 3]),
+      ),
+    ).toBeUndefined();
+  });
+});
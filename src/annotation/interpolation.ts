@@ -0,0 +1,212 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Interpolation of line strings and polygons traced on non-adjacent slices.
+ */
+
+function distance(a: Float32Array, b: Float32Array) {
+  let sum = 0;
+  for (let i = 0, rank = a.length; i < rank; ++i) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+function lerp(a: Float32Array, b: Float32Array, t: number) {
+  const rank = a.length;
+  const result = new Float32Array(rank);
+  for (let i = 0; i < rank; ++i) {
+    result[i] = a[i] + (b[i] - a[i]) * t;
+  }
+  return result;
+}
+
+/**
+ * Returns `count` vertices spaced uniformly by arc length along the polyline through `vertices`,
+ * including both endpoints.
+ */
+export function resamplePolyline(
+  vertices: readonly Float32Array[],
+  count: number,
+): Float32Array[] {
+  const cumulativeLengths = [0];
+  for (let i = 1, length = vertices.length; i < length; ++i) {
+    cumulativeLengths.push(
+      cumulativeLengths[i - 1] + distance(vertices[i - 1], vertices[i]),
+    );
+  }
+  const totalLength = cumulativeLengths[cumulativeLengths.length - 1];
+  const result: Float32Array[] = [];
+  let segment = 0;
+  for (let i = 0; i < count; ++i) {
+    const target = count === 1 ? 0 : (totalLength * i) / (count - 1);
+    while (
+      segment + 2 < vertices.length &&
+      cumulativeLengths[segment + 1] < target
+    ) {
+      ++segment;
+    }
+    if (vertices.length === 1 || totalLength === 0) {
+      result.push(new Float32Array(vertices[0]));
+      continue;
+    }
+    const segmentLength =
+      cumulativeLengths[segment + 1] - cumulativeLengths[segment];
+    const t =
+      segmentLength === 0
+        ? 0
+        : Math.min(1, (target - cumulativeLengths[segment]) / segmentLength);
+    result.push(lerp(vertices[segment], vertices[segment + 1], t));
+  }
+  return result;
+}
+
+/**
+ * Returns `count` vertices spaced uniformly by arc length along the boundary of the polygon with
+ * the specified `vertices`, starting at the first vertex.
+ */
+export function resamplePolygon(
+  vertices: readonly Float32Array[],
+  count: number,
+): Float32Array[] {
+  return resamplePolyline([...vertices, vertices[0]], count + 1).slice(
+    0,
+    count,
+  );
+}
+
+/**
+ * Returns the rotation, possibly reversed, of the vertices of polygon `b` whose vertices are
+ * closest to the corresponding vertices of polygon `a`, which must have the same vertex count.
+ */
+function alignPolygon(
+  a: readonly Float32Array[],
+  b: readonly Float32Array[],
+): Float32Array[] {
+  const count = b.length;
+  let best: Float32Array[] = [];
+  let bestCost = Infinity;
+  for (const candidate of [b, b.slice().reverse()]) {
+    for (let shift = 0; shift < count; ++shift) {
+      let cost = 0;
+      for (let i = 0; i < count; ++i) {
+        cost += distance(a[i], candidate[(i + shift) % count]);
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [...candidate.slice(shift), ...candidate.slice(0, shift)];
+      }
+    }
+  }
+  return best;
+}
+
+function getConstantCoordinate(vertices: readonly Float32Array[], dim: number) {
+  const value = vertices[0][dim];
+  for (const vertex of vertices) {
+    if (vertex[dim] !== value) return undefined;
+  }
+  return value;
+}
+
+/**
+ * Returns the dimension along which two line strings lie in distinct slices, i.e. the dimension in
+ * which the coordinates of each line string are constant and differ the most between the two, or
+ * `-1` if there is no such dimension.
+ */
+export function findSliceDimension(
+  a: readonly Float32Array[],
+  b: readonly Float32Array[],
+) {
+  let sliceDimension = -1;
+  let maxSeparation = 0;
+  for (let dim = 0, rank = a[0].length; dim < rank; ++dim) {
+    const aValue = getConstantCoordinate(a, dim);
+    const bValue = getConstantCoordinate(b, dim);
+    if (aValue === undefined || bValue === undefined) continue;
+    const separation = Math.abs(bValue - aValue);
+    if (separation > maxSeparation) {
+      maxSeparation = separation;
+      sliceDimension = dim;
+    }
+  }
+  return sliceDimension;
+}
+
+/**
+ * Returns the vertices of the line strings on each unit-spaced slice strictly between the slices
+ * containing `a` and `b`, or `undefined` if `a` and `b` do not lie in distinct parallel slices.
+ *
+ * Both line strings are resampled by arc length to the larger of their vertex counts, and `b` is
+ * reversed if that better aligns its endpoints with those of `a`.  Each intermediate line string is
+ * obtained by linear interpolation of corresponding vertices.
+ */
+export function interpolateLineStringVertices(
+  a: readonly Float32Array[],
+  b: readonly Float32Array[],
+): Float32Array[][] | undefined {
+  const sliceDimension = findSliceDimension(a, b);
+  if (sliceDimension === -1) return undefined;
+  const aFirst = a[0];
+  const aLast = a[a.length - 1];
+  const bFirst = b[0];
+  const bLast = b[b.length - 1];
+  if (
+    distance(aFirst, bLast) + distance(aLast, bFirst) <
+    distance(aFirst, bFirst) + distance(aLast, bLast)
+  ) {
+    b = b.slice().reverse();
+  }
+  const vertexCount = Math.max(a.length, b.length);
+  return interpolateSlices(
+    sliceDimension,
+    resamplePolyline(a, vertexCount),
+    resamplePolyline(b, vertexCount),
+  );
+}
+
+/**
+ * Returns the vertices of the polygons on each unit-spaced slice strictly between the slices
+ * containing `a` and `b`, or `undefined` if `a` and `b` do not lie in distinct parallel slices.
+ *
+ * Both polygons are resampled by arc length to the larger of their vertex counts, and the vertices
+ * of `b` are rotated, and reversed if necessary, to best align with those of `a`.  Each
+ * intermediate polygon is obtained by linear interpolation of corresponding vertices.
+ */
+export function interpolatePolygonVertices(
+  a: readonly Float32Array[],
+  b: readonly Float32Array[],
+): Float32Array[][] | undefined {
+  const sliceDimension = findSliceDimension(a, b);
+  if (sliceDimension === -1) return undefined;
+  const vertexCount = Math.max(a.length, b.length);
+  const aResampled = resamplePolygon(a, vertexCount);
+  return interpolateSlices(
+    sliceDimension,
+    aResampled,
+    alignPolygon(aResampled, resamplePolygon(b, vertexCount)),
+  );
+}
+
+/**
+ * Interpolates between corresponding vertices of `a` and `b` on each unit-spaced slice along
+ * `sliceDimension` strictly between them.
+ */
+function interpolateSlices(
+  sliceDimension: number,
+  a: readonly Float32Array[],
+  b: readonly Float32Array[],
+) {
+  const sliceCount =
+    Math.round(Math.abs(b[0][sliceDimension] - a[0][sliceDimension])) - 1;
+  const result: Float32Array[][] = [];
+  for (let slice = 1; slice <= sliceCount; ++slice) {
+    const t = slice / (sliceCount + 1);
+    result.push(a.map((vertex, i) => lerp(vertex, b[i], t)));
+  }
+  return result;
+}
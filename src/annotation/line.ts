@@ -251,7 +251,6 @@ function snapPositionToEndpoint(
 }
 
 registerAnnotationTypeRenderHandler<Line>(AnnotationType.LINE, {
-  bytes: () => 6 * 4,
   sliceViewRenderHelper: RenderHelper,
   perspectiveViewRenderHelper: RenderHelper,
   defineShaderNoOpSetters(builder) {
@@ -259,7 +258,7 @@ registerAnnotationTypeRenderHandler<Line>(AnnotationType.LINE, {
     defineNoOpLineSetters(builder);
   },
   staticPickIdsPerInstance: PICK_IDS_PER_INSTANCE,
-  pickIdsPerInstance: (annotations) => Array(annotations.length).fill(PICK_IDS_PER_INSTANCE),
+  pickIdsPerInstance: (primitiveCounts) => Array(primitiveCounts.length).fill(PICK_IDS_PER_INSTANCE),
   assignPickingInformation(mouseState:MouseSelectionState, pickIds: number[], pickedOffset:number) {
     mouseState.pickedAnnotationIndex = Math.floor(pickedOffset / pickIds[0]);
     mouseState.pickedOffset = pickedOffset % pickIds[0];
@@ -9,6 +9,7 @@
 
 import type { LineString } from "#src/annotation/index.js";
 import { AnnotationType } from "#src/annotation/index.js";
+import { snapLineStringPosition } from "#src/annotation/linestring_picking.js";
 import type {
   AnnotationRenderContext,
   AnnotationShaderGetter,
@@ -18,7 +19,7 @@ import {
   registerAnnotationTypeRenderHandler,
 } from "#src/annotation/type_handler.js";
 import type { MouseSelectionState } from "#src/layer/index.js";
-import { projectPointToLineSegment, vec3 } from "#src/util/geom.js";
+import { vec3 } from "#src/util/geom.js";
 import {
   defineCircleShader,
   drawCircles,
@@ -34,9 +35,6 @@ import type { ShaderBuilder, ShaderProgram } from "#src/webgl/shader.js";
 import { defineVectorArrayVertexShaderInput } from "#src/webgl/shader_lib.js";
 import { defineVertexId, VertexIdHelper } from "#src/webgl/vertex_id.js";
 
-const FULL_OBJECT_PICK_OFFSET = 0;
-const ENDPOINTS_PICK_OFFSET = FULL_OBJECT_PICK_OFFSET + 1;
-
 function defineNoOpControlPointMarkerSetters(builder: ShaderBuilder) {
   builder.addVertexCode(`
 void setControlPointMarkerSize(float startSize, float endSize) {}
@@ -197,23 +195,7 @@ emitAnnotation(color);
   }
 }
 
-function snapPositionToLine(position: Float32Array, endpoints: Float32Array) {
-  const rank = position.length;
-  projectPointToLineSegment(
-      position, endpoints.subarray(0, rank), endpoints.subarray(rank), position);
-}
-
-function snapPositionToEndpoint(
-    position: Float32Array, endpoints: Float32Array, endpointIndex: number) {
-  const rank = position.length;
-  const startOffset = rank * endpointIndex;
-  for (let i = 0; i < rank; ++i) {
-    position[i] = endpoints[startOffset + i];
-  }
-}
-
 registerAnnotationTypeRenderHandler<LineString>(AnnotationType.LINE_STRING, {
-  bytes: (annotation: LineString) => annotation.points.length * 3 * 4,
   sliceViewRenderHelper: RenderHelper,
   perspectiveViewRenderHelper: RenderHelper,
   defineShaderNoOpSetters(builder) {
@@ -221,7 +203,7 @@ registerAnnotationTypeRenderHandler<LineString>(AnnotationType.LINE_STRING, {
     defineNoOpLineSegmentSetters(builder);
   },
   staticPickIdsPerInstance: null,
-  pickIdsPerInstance: (annotations:LineString[]) => annotations.map(a => a.points.length * 2),
+  pickIdsPerInstance: (primitiveCounts) => primitiveCounts.map(count => count * 4),
   assignPickingInformation(mouseState:MouseSelectionState, pickIds:number[], pickedOffset:number) {
     const pickIdCountLines = pickIds.reduce((a, b) => a + (b / 2) / 2, 0);
     const typeIndex = pickedOffset >= pickIdCountLines ? pickedOffset - pickIdCountLines - 1 : pickedOffset;
@@ -261,14 +243,15 @@ registerAnnotationTypeRenderHandler<LineString>(AnnotationType.LINE_STRING, {
     mouseState.pickedOffset = partIndex;
     mouseState.pickedAnnotationIndex = instanceIndex;
   },
-  snapPosition(position, data, offset, partIndex) {
-    const rank = position.length;
-    const endpoints = new Float32Array(data, offset, rank * 2);
-    if (partIndex === FULL_OBJECT_PICK_OFFSET) {
-      snapPositionToLine(position, endpoints);
-    } else {
-      snapPositionToEndpoint(position, endpoints, partIndex - ENDPOINTS_PICK_OFFSET);
-    }
+  snapPosition(position, data, offset, partIndex, stride, primitiveCount) {
+    snapLineStringPosition(
+      position,
+      data,
+      offset,
+      stride,
+      primitiveCount,
+      partIndex,
+    );
   },
   getRepresentativePoint(out, ann, partIndex) {
     if (partIndex >= (ann.points.length) / 2) { // An endpoint was selected; modulo away the line segments.
@@ -278,7 +261,7 @@ registerAnnotationTypeRenderHandler<LineString>(AnnotationType.LINE_STRING, {
     out.set((ann.points[partIndex * 2]));
   },
   updateViaRepresentativePoint(oldAnnotation, position, partIndex) {
-    const baseLine = {...oldAnnotation};
+    const baseLine = {...oldAnnotation, points: oldAnnotation.points.slice()};
     const pointIndicesToMove = [];
     let pointOffset = null;
 
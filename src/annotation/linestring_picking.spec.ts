@@ -0,0 +1,103 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for picking of line string annotations.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { LineString } from "#src/annotation/index.js";
+import {
+  AnnotationType,
+  annotationTypeHandlers,
+} from "#src/annotation/index.js";
+import {
+  getLineStringPickedPart,
+  snapLineStringPosition,
+} from "#src/annotation/linestring_picking.js";
+
+const rank = 2;
+
+// Four vertices, i.e. three segments followed by the degenerate terminal segment.
+const vertices = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [20, 10],
+];
+
+function makeLineString(): LineString {
+  const points: Float32Array[] = [];
+  for (let i = 0; i < vertices.length; ++i) {
+    points.push(
+      Float32Array.from(vertices[i]),
+      Float32Array.from(vertices[Math.min(i + 1, vertices.length - 1)]),
+    );
+  }
+  return { type: AnnotationType.LINE_STRING, id: "a", points, properties: [] };
+}
+
+// Serializes the line string after a leading unrelated primitive, with padding between primitives.
+function serialize(annotation: LineString) {
+  const handler = annotationTypeHandlers[AnnotationType.LINE_STRING];
+  const stride = handler.serializedBytes(rank) + 4;
+  const offset = stride;
+  const buffer = new ArrayBuffer(offset + stride * vertices.length);
+  handler.serialize(
+    new DataView(buffer),
+    offset,
+    /*isLittleEndian=*/ true,
+    rank,
+    annotation,
+    stride,
+  );
+  return { buffer, offset, stride };
+}
+
+function snap(partIndex: number, position: number[]) {
+  const { buffer, offset, stride } = serialize(makeLineString());
+  const result = Float32Array.from(position);
+  snapLineStringPosition(
+    result,
+    buffer,
+    offset,
+    stride,
+    vertices.length,
+    partIndex,
+  );
+  return Array.from(result);
+}
+
+describe("getLineStringPickedPart", () => {
+  it("distinguishes segments from vertices", () => {
+    const annotation = makeLineString();
+    expect(getLineStringPickedPart(annotation, 1)).toEqual({
+      isVertex: false,
+      vertexIndex: 1,
+    });
+    expect(getLineStringPickedPart(annotation, 6)).toEqual({
+      isVertex: true,
+      vertexIndex: 2,
+    });
+  });
+});
+
+describe("snapLineStringPosition", () => {
+  it("snaps to each vertex", () => {
+    for (let i = 0; i < vertices.length; ++i) {
+      expect(snap(vertices.length + i, [3, 4])).toEqual(vertices[i]);
+    }
+  });
+
+  it("projects onto the picked segment", () => {
+    expect(snap(0, [4, 3])).toEqual([4, 0]);
+    expect(snap(1, [13, 4])).toEqual([10, 4]);
+    expect(snap(2, [15, 20])).toEqual([15, 10]);
+  });
+
+  it("clamps to the ends of the picked segment", () => {
+    expect(snap(2, [30, 12])).toEqual([20, 10]);
+  });
+});
@@ -0,0 +1,73 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Interpretation of picked parts of line string annotations.
+ *
+ * A line string with `n` vertices is stored as `n` primitives, each of which holds the two
+ * endpoints of a segment; the last primitive is a degenerate segment at the final vertex.  Segments
+ * are drawn before control points, so part indices less than `n` refer to the segment starting at
+ * that vertex, and the remainder refer to the vertices themselves.
+ */
+
+import type { LineString } from "#src/annotation/index.js";
+import { projectPointToLineSegment } from "#src/util/geom.js";
+
+export interface LineStringPickedPart {
+  isVertex: boolean;
+  vertexIndex: number;
+}
+
+function getPickedPart(
+  numVertices: number,
+  partIndex: number,
+): LineStringPickedPart {
+  if (partIndex < numVertices) {
+    return { isVertex: false, vertexIndex: partIndex };
+  }
+  return {
+    isVertex: true,
+    vertexIndex: Math.min(partIndex - numVertices, numVertices - 1),
+  };
+}
+
+/**
+ * Identifies the part of a line string that corresponds to a picked part index.
+ */
+export function getLineStringPickedPart(
+  annotation: LineString,
+  partIndex: number,
+): LineStringPickedPart {
+  return getPickedPart(annotation.points.length / 2, partIndex);
+}
+
+/**
+ * Snaps `position` to the picked segment or vertex of a serialized line string.  `offset` is the
+ * byte offset in `data` of the first primitive, `stride` is the number of bytes between
+ * consecutive primitives, and `primitiveCount` is the number of primitives of the line string.
+ */
+export function snapLineStringPosition(
+  position: Float32Array,
+  data: ArrayBuffer,
+  offset: number,
+  stride: number,
+  primitiveCount: number,
+  partIndex: number,
+) {
+  const rank = position.length;
+  const { isVertex, vertexIndex } = getPickedPart(primitiveCount, partIndex);
+  const primitiveOffset = offset + vertexIndex * stride;
+  if (isVertex) {
+    position.set(new Float32Array(data, primitiveOffset, rank));
+    return;
+  }
+  const endpoints = new Float32Array(data, primitiveOffset, rank * 2);
+  projectPointToLineSegment(
+    position,
+    endpoints.subarray(0, rank),
+    endpoints.subarray(rank),
+    position,
+  );
+}
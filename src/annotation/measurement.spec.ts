@@ -0,0 +1,187 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for physical measurements of annotations.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Annotation } from "#src/annotation/index.js";
+import { AnnotationType, measureAnnotation } from "#src/annotation/index.js";
+import type { AnnotationPhysicalTransform } from "#src/annotation/measurement.js";
+import {
+  formatAnnotationMeasurement,
+  getAnnotationMeasurementSpace,
+  getParallelotopeVolume,
+  getPolygonArea,
+} from "#src/annotation/measurement.js";
+import { makeCoordinateSpace } from "#src/coordinate_transform.js";
+import type { ChunkTransformParameters } from "#src/render_coordinate_transform.js";
+import * as matrix from "#src/util/matrix.js";
+
+// Scales (x, y, z) by (4 nm, 4 nm, 40 nm).
+const transform: AnnotationPhysicalTransform = (p) =>
+  Float64Array.of(p[0] * 4e-9, p[1] * 4e-9, p[2] * 40e-9);
+
+function measure(annotation: Annotation) {
+  return measureAnnotation(annotation, transform).map(({ name, value }) => ({
+    name,
+    value: Number(value.toPrecision(6)),
+  }));
+}
+
+const common = { id: "", properties: [] };
+
+describe("measureAnnotation", () => {
+  it("measures lines and line strings", () => {
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.LINE,
+        pointA: Float32Array.of(0, 0, 0),
+        pointB: Float32Array.of(3, 4, 0),
+      }),
+    ).toEqual([{ name: "length", value: 20e-9 }]);
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.LINE_STRING,
+        points: [0, 0, 0, 3, 0, 0, 3, 0, 0, 3, 0, 1, 3, 0, 1, 3, 0, 1].reduce(
+          (points: Float32Array[], _, i, values) => {
+            if (i % 3 === 0)
+              points.push(Float32Array.from(values.slice(i, i + 3)));
+            return points;
+          },
+          [],
+        ),
+      }),
+    ).toEqual([{ name: "length", value: 52e-9 }]);
+  });
+
+  it("measures bounding boxes and ellipsoids", () => {
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.AXIS_ALIGNED_BOUNDING_BOX,
+        pointA: Float32Array.of(0, 0, 0),
+        pointB: Float32Array.of(10, 5, -1),
+      }),
+    ).toEqual([{ name: "volume", value: 3.2e-23 }]);
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.ELLIPSOID,
+        center: Float32Array.of(5, 5, 5),
+        radii: Float32Array.of(1, 2, 0),
+      }),
+    ).toEqual([
+      { name: "area", value: Number((Math.PI * 32e-18).toPrecision(6)) },
+    ]);
+  });
+
+  it("measures polygons", () => {
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.POLYGON,
+        points: [
+          Float32Array.of(0, 0, 2),
+          Float32Array.of(10, 0, 2),
+          Float32Array.of(10, 0, 3),
+          Float32Array.of(0, 0, 3),
+        ],
+      }),
+    ).toEqual([
+      { name: "area", value: 1.6e-15 },
+      { name: "perimeter", value: 160e-9 },
+    ]);
+  });
+
+  it("has no measurements for points", () => {
+    expect(
+      measure({
+        ...common,
+        type: AnnotationType.POINT,
+        point: Float32Array.of(1, 2, 3),
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("geometry", () => {
+  it("computes the area of a tilted polygon", () => {
+    const s = Math.SQRT1_2;
+    expect(
+      getPolygonArea([
+        Float64Array.of(0, 0, 0),
+        Float64Array.of(2, 0, 0),
+        Float64Array.of(2, s, s),
+        Float64Array.of(0, s, s),
+      ]),
+    ).toBeCloseTo(2);
+  });
+
+  it("computes the volume of a sheared parallelotope", () => {
+    expect(
+      getParallelotopeVolume([
+        Float64Array.of(2, 0, 0),
+        Float64Array.of(1, 3, 0),
+        Float64Array.of(5, 5, 4),
+      ]),
+    ).toBeCloseTo(24);
+  });
+});
+
+describe("getAnnotationMeasurementSpace", () => {
+  it("maps layer dimensions with length units to physical coordinates", () => {
+    const globalCoordinateSpace = makeCoordinateSpace({
+      names: ["x", "y", "t"],
+      units: ["m", "m", "s"],
+      scales: Float64Array.of(4e-9, 8e-9, 1),
+    });
+    const localCoordinateSpace = makeCoordinateSpace({
+      names: [],
+      units: [],
+      scales: new Float64Array(0),
+    });
+    // Homogeneous transform that translates x by 1.
+    const chunkToLayerTransform = matrix.createIdentity(Float32Array, 4);
+    chunkToLayerTransform[12] = 1;
+    const chunkTransform = {
+      layerRank: 3,
+      chunkToLayerTransform,
+      modelTransform: {
+        globalToRenderLayerDimensions: [0, 1, 2],
+        localToRenderLayerDimensions: [],
+      },
+    } as unknown as ChunkTransformParameters;
+    const { unit, transform } = getAnnotationMeasurementSpace(
+      chunkTransform,
+      globalCoordinateSpace,
+      localCoordinateSpace,
+    );
+    expect(unit).toBe("m");
+    expect(Array.from(transform(Float32Array.of(1, 2, 3)))).toEqual([
+      8e-9, 16e-9,
+    ]);
+  });
+});
+
+describe("formatAnnotationMeasurement", () => {
+  it("chooses SI prefixes according to the power of the unit", () => {
+    expect(
+      formatAnnotationMeasurement({ name: "length", value: 2e-8 }, "m"),
+    ).toBe("20 nm");
+    expect(
+      formatAnnotationMeasurement({ name: "area", value: 2.5e-12 }, "m"),
+    ).toBe("2.5 µm²");
+    expect(
+      formatAnnotationMeasurement({ name: "volume", value: 8e-24 }, "m"),
+    ).toBe("8000 nm³");
+    expect(formatAnnotationMeasurement({ name: "volume", value: 12 }, "")).toBe(
+      "12",
+    );
+  });
+});
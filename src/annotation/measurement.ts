@@ -0,0 +1,289 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Physical measurements (length, area and volume) of annotations.
+ *
+ * Measurements are computed from annotation coordinates mapped through the chunk-to-layer transform
+ * and the scales of the corresponding global and local dimensions.  Only dimensions with a length
+ * unit contribute; if no dimension has a length unit, the unitless dimensions are used instead.
+ */
+
+import type { CoordinateSpace } from "#src/coordinate_transform.js";
+import type { ChunkTransformParameters } from "#src/render_coordinate_transform.js";
+import * as matrix from "#src/util/matrix.js";
+import {
+  formatScaleWithUnit,
+  pickSiPrefix,
+  scaleByExp10,
+} from "#src/util/si_units.js";
+
+export const annotationMeasurementNames = [
+  "length",
+  "perimeter",
+  "area",
+  "volume",
+] as const;
+
+export type AnnotationMeasurementName =
+  (typeof annotationMeasurementNames)[number];
+
+export const annotationMeasurementPowers: Record<
+  AnnotationMeasurementName,
+  number
+> = {
+  length: 1,
+  perimeter: 1,
+  area: 2,
+  volume: 3,
+};
+
+export interface AnnotationMeasurement {
+  name: AnnotationMeasurementName;
+  /**
+   * Value in the base unit raised to the power of `annotationMeasurementPowers[name]`.
+   */
+  value: number;
+}
+
+/**
+ * Maps a point in the annotation ("chunk") coordinate space to physical coordinates.
+ */
+export type AnnotationPhysicalTransform = (
+  chunkPosition: Float32Array,
+) => Float64Array;
+
+export interface AnnotationMeasurementSpace {
+  /**
+   * Base unit of the physical coordinates, e.g. `"m"`, or `""` if unitless.
+   */
+  unit: string;
+  transform: AnnotationPhysicalTransform;
+}
+
+export function isAnnotationMeasurementName(
+  name: string,
+): name is AnnotationMeasurementName {
+  return (annotationMeasurementNames as readonly string[]).includes(name);
+}
+
+/**
+ * Returns the physical coordinate space in which annotations with the specified chunk transform are
+ * measured.
+ */
+export function getAnnotationMeasurementSpace(
+  chunkTransform: ChunkTransformParameters,
+  globalCoordinateSpace: CoordinateSpace,
+  localCoordinateSpace: CoordinateSpace,
+): AnnotationMeasurementSpace {
+  const { layerRank, chunkToLayerTransform, modelTransform } = chunkTransform;
+  const layerUnits = new Array<string | undefined>(layerRank);
+  const layerScales = new Float64Array(layerRank);
+  const addDimensions = (
+    coordinateSpace: CoordinateSpace,
+    toLayerDimensions: readonly number[],
+  ) => {
+    toLayerDimensions.forEach((layerDim, dim) => {
+      if (layerDim === -1 || layerDim >= layerRank) return;
+      layerUnits[layerDim] = coordinateSpace.units[dim];
+      layerScales[layerDim] = coordinateSpace.scales[dim];
+    });
+  };
+  addDimensions(
+    globalCoordinateSpace,
+    modelTransform.globalToRenderLayerDimensions,
+  );
+  addDimensions(
+    localCoordinateSpace,
+    modelTransform.localToRenderLayerDimensions,
+  );
+  const unit = layerUnits.includes("m") ? "m" : "";
+  const measuredDimensions: number[] = [];
+  for (let layerDim = 0; layerDim < layerRank; ++layerDim) {
+    if (layerUnits[layerDim] === unit) measuredDimensions.push(layerDim);
+  }
+  const paddedChunkPosition = new Float32Array(layerRank);
+  const layerPosition = new Float32Array(layerRank);
+  return {
+    unit,
+    transform: (chunkPosition) => {
+      paddedChunkPosition.fill(0);
+      paddedChunkPosition.set(chunkPosition.subarray(0, layerRank));
+      matrix.transformPoint(
+        layerPosition,
+        chunkToLayerTransform,
+        layerRank + 1,
+        paddedChunkPosition,
+        layerRank,
+      );
+      return Float64Array.from(
+        measuredDimensions,
+        (layerDim) => layerPosition[layerDim] * layerScales[layerDim],
+      );
+    },
+  };
+}
+
+function distance(a: Float64Array, b: Float64Array) {
+  let sum = 0;
+  for (let i = 0, rank = a.length; i < rank; ++i) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Returns the length of the path through `points`, closed if `closed` is `true`.
+ */
+export function getPathLength(points: readonly Float64Array[], closed = false) {
+  let length = 0;
+  const count = points.length;
+  for (let i = 1; i < count; ++i) {
+    length += distance(points[i - 1], points[i]);
+  }
+  if (closed && count > 2) {
+    length += distance(points[count - 1], points[0]);
+  }
+  return length;
+}
+
+/**
+ * Returns the area of the planar polygon with the specified vertices, in a space of any rank.
+ *
+ * This generalizes Newell's method: the area is the norm of the bivector
+ * `1/2 * sum_k p_k ∧ p_{k+1}`.
+ */
+export function getPolygonArea(points: readonly Float64Array[]) {
+  const count = points.length;
+  if (count < 3) return 0;
+  const rank = points[0].length;
+  let sumOfSquares = 0;
+  for (let i = 0; i < rank; ++i) {
+    for (let j = i + 1; j < rank; ++j) {
+      let component = 0;
+      for (let k = 0; k < count; ++k) {
+        const p = points[k];
+        const q = points[(k + 1) % count];
+        component += p[i] * q[j] - p[j] * q[i];
+      }
+      sumOfSquares += component * component;
+    }
+  }
+  return Math.sqrt(sumOfSquares) / 2;
+}
+
+/**
+ * Returns the `edges.length`-dimensional volume of the parallelotope spanned by `edges`, computed as
+ * the square root of the determinant of their Gram matrix.
+ */
+export function getParallelotopeVolume(edges: readonly Float64Array[]) {
+  const n = edges.length;
+  const gram: number[][] = [];
+  for (let i = 0; i < n; ++i) {
+    gram.push([]);
+    for (let j = 0; j < n; ++j) {
+      let dot = 0;
+      const a = edges[i];
+      const b = edges[j];
+      for (let k = 0, rank = a.length; k < rank; ++k) dot += a[k] * b[k];
+      gram[i].push(dot);
+    }
+  }
+  // Gaussian elimination with partial pivoting.
+  let det = 1;
+  for (let col = 0; col < n; ++col) {
+    let pivot = col;
+    for (let row = col + 1; row < n; ++row) {
+      if (Math.abs(gram[row][col]) > Math.abs(gram[pivot][col])) pivot = row;
+    }
+    if (gram[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [gram[pivot], gram[col]] = [gram[col], gram[pivot]];
+      det = -det;
+    }
+    det *= gram[col][col];
+    for (let row = col + 1; row < n; ++row) {
+      const factor = gram[row][col] / gram[col][col];
+      for (let k = col; k < n; ++k) gram[row][k] -= factor * gram[col][k];
+    }
+  }
+  return Math.sqrt(Math.max(0, det));
+}
+
+/**
+ * Returns the physical edge vectors of the axis-aligned box with corner `corner` and extents
+ * `extents`, omitting edges of zero physical length.
+ */
+export function getPhysicalEdges(
+  corner: Float32Array,
+  extents: Float32Array,
+  transform: AnnotationPhysicalTransform,
+) {
+  const origin = transform(corner);
+  const edges: Float64Array[] = [];
+  for (let dim = 0, rank = corner.length; dim < rank; ++dim) {
+    if (extents[dim] === 0) continue;
+    const point = new Float32Array(corner);
+    point[dim] += extents[dim];
+    const edge = transform(point);
+    for (let i = 0; i < edge.length; ++i) edge[i] -= origin[i];
+    if (edge.some((x) => x !== 0)) edges.push(edge);
+  }
+  return edges;
+}
+
+/**
+ * Returns the measurement of an axis-aligned box or ellipsoid with the specified physical edges
+ * (semi-axes for an ellipsoid): a volume, area or length depending on the number of edges.
+ */
+export function measureExtent(
+  edges: readonly Float64Array[],
+  ellipsoid: boolean,
+): AnnotationMeasurement[] {
+  const volume = getParallelotopeVolume(edges);
+  switch (edges.length) {
+    case 1:
+      return [{ name: "length", value: ellipsoid ? 2 * volume : volume }];
+    case 2:
+      return [{ name: "area", value: ellipsoid ? Math.PI * volume : volume }];
+    case 3:
+      return [
+        {
+          name: "volume",
+          value: ellipsoid ? (4 / 3) * Math.PI * volume : volume,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+const superscripts = ["", "", "²", "³"];
+
+/**
+ * Formats a measurement with the SI prefix for which the corresponding length is in `[1, 1000)`,
+ * e.g. `"2.5 µm²"`.  Areas and volumes may therefore be as large as `1000²` or `1000³` and are then
+ * rounded to an integer.
+ */
+export function formatAnnotationMeasurement(
+  measurement: AnnotationMeasurement,
+  unit: string,
+) {
+  const power = annotationMeasurementPowers[measurement.name];
+  let { value } = measurement;
+  let prefix = "";
+  if (unit !== "" && value !== 0 && Number.isFinite(value)) {
+    const siPrefix = pickSiPrefix(value ** (1 / power));
+    prefix = siPrefix.prefix;
+    value = scaleByExp10(value, -siPrefix.exponent * power);
+  }
+  const scale =
+    value >= 1000
+      ? Math.round(value).toString()
+      : formatScaleWithUnit(value, "", { precision: 3, elide1: false }).scale;
+  if (unit === "") return scale;
+  return `${scale} ${prefix}${unit}${superscripts[power]}`;
+}
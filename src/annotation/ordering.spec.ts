@@ -0,0 +1,127 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for ordering and filtering of annotation lists.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { AnnotationPropertySpec } from "#src/annotation/index.js";
+import type { AnnotationListOrder } from "#src/annotation/ordering.js";
+import {
+  defaultAnnotationListOrder,
+  getNumericPropertyIdentifiers,
+  orderAnnotationEntries,
+  parseAnnotationListOrder,
+  TrackableAnnotationListOrder,
+} from "#src/annotation/ordering.js";
+
+interface Entry {
+  id: string;
+  value: number | undefined;
+}
+
+function order(
+  entries: Entry[],
+  options: Partial<AnnotationListOrder> = {},
+): string[] {
+  return orderAnnotationEntries(entries, (entry) => entry.value, {
+    ...defaultAnnotationListOrder,
+    property: "confidence",
+    ...options,
+  }).map((entry) => entry.id);
+}
+
+const entries: Entry[] = [
+  { id: "a", value: 0.5 },
+  { id: "b", value: 0.1 },
+  { id: "c", value: Number.NaN },
+  { id: "d", value: undefined },
+  { id: "e", value: 0.9 },
+  { id: "f", value: 0.5 },
+];
+
+describe("orderAnnotationEntries", () => {
+  it("preserves insertion order without a property", () => {
+    expect(
+      orderAnnotationEntries(
+        entries,
+        (e) => e.value,
+        defaultAnnotationListOrder,
+      ),
+    ).toBe(entries);
+  });
+
+  it("sorts stably with NaN last", () => {
+    expect(order(entries)).toEqual(["b", "a", "f", "e", "c"]);
+    expect(order(entries, { descending: true })).toEqual([
+      "e",
+      "a",
+      "f",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("filters by inclusive bounds", () => {
+    expect(order(entries, { min: 0.5 })).toEqual(["a", "f", "e"]);
+    expect(order(entries, { min: 0.2, max: 0.5 })).toEqual(["a", "f"]);
+  });
+});
+
+describe("getNumericPropertyIdentifiers", () => {
+  it("omits color properties and duplicates", () => {
+    const a: AnnotationPropertySpec[] = [
+      {
+        type: "float32",
+        identifier: "confidence",
+        description: undefined,
+        default: 0,
+      },
+      { type: "rgb", identifier: "color", description: undefined, default: 0 },
+    ];
+    const b: AnnotationPropertySpec[] = [
+      { type: "uint8", identifier: "size", description: undefined, default: 0 },
+      {
+        type: "float32",
+        identifier: "confidence",
+        description: undefined,
+        default: 0,
+      },
+    ];
+    expect(getNumericPropertyIdentifiers([a, b])).toEqual([
+      "confidence",
+      "size",
+    ]);
+  });
+});
+
+describe("TrackableAnnotationListOrder", () => {
+  it("round trips through JSON", () => {
+    const json = { property: "confidence", descending: true, min: 0.25 };
+    expect(parseAnnotationListOrder(json)).toEqual({
+      property: "confidence",
+      descending: true,
+      min: 0.25,
+      max: undefined,
+    });
+    const trackable = new TrackableAnnotationListOrder();
+    expect(trackable.toJSON()).toBeUndefined();
+    trackable.restoreState(json);
+    expect(JSON.parse(JSON.stringify(trackable.toJSON()))).toEqual(json);
+    trackable.restoreState({ property: "not a valid id!" });
+    expect(trackable.value).toEqual(defaultAnnotationListOrder);
+  });
+
+  it("round trips a measurement through JSON", () => {
+    const json = { measurement: "area", max: 2e-12 };
+    const trackable = new TrackableAnnotationListOrder();
+    trackable.restoreState(json);
+    expect(trackable.value.measurement).toBe("area");
+    expect(JSON.parse(JSON.stringify(trackable.toJSON()))).toEqual(json);
+    trackable.restoreState({ measurement: "mass" });
+    expect(trackable.value).toEqual(defaultAnnotationListOrder);
+  });
+});
@@ -0,0 +1,156 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Ordering and filtering of annotation lists by a numeric property or measurement.
+ */
+
+import type { AnnotationPropertySpec } from "#src/annotation/index.js";
+import {
+  parseAnnotationPropertyId,
+  propertyTypeDataType,
+} from "#src/annotation/index.js";
+import type { AnnotationMeasurementName } from "#src/annotation/measurement.js";
+import { isAnnotationMeasurementName } from "#src/annotation/measurement.js";
+import { TrackableValue } from "#src/trackable_value.js";
+import {
+  verifyBoolean,
+  verifyFiniteFloat,
+  verifyObject,
+  verifyOptionalObjectProperty,
+} from "#src/util/json.js";
+
+export interface AnnotationListOrder {
+  /**
+   * Identifier of the numeric property by which annotations are ordered.
+   */
+  property: string | undefined;
+  /**
+   * Measurement by which annotations are ordered, if `property` is `undefined`.  If both are
+   * `undefined`, annotations are listed in insertion order.
+   */
+  measurement: AnnotationMeasurementName | undefined;
+  descending: boolean;
+  /**
+   * Inclusive bounds on the property or measurement value.  Annotations outside the bounds are
+   * omitted.
+   */
+  min: number | undefined;
+  max: number | undefined;
+}
+
+export const defaultAnnotationListOrder: AnnotationListOrder = {
+  property: undefined,
+  measurement: undefined,
+  descending: false,
+  min: undefined,
+  max: undefined,
+};
+
+export function isNumericAnnotationProperty(
+  property: Readonly<AnnotationPropertySpec>,
+) {
+  return propertyTypeDataType[property.type] !== undefined;
+}
+
+/**
+ * Returns the identifiers of the numeric properties in any of the specified property lists, in
+ * order of first occurrence.
+ */
+export function getNumericPropertyIdentifiers(
+  propertyLists: Iterable<readonly Readonly<AnnotationPropertySpec>[]>,
+): string[] {
+  const identifiers = new Set<string>();
+  for (const properties of propertyLists) {
+    for (const property of properties) {
+      if (isNumericAnnotationProperty(property)) {
+        identifiers.add(property.identifier);
+      }
+    }
+  }
+  return Array.from(identifiers);
+}
+
+export function isAnnotationListOrdered(order: AnnotationListOrder) {
+  return order.property !== undefined || order.measurement !== undefined;
+}
+
+/**
+ * Returns `entries` ordered and filtered according to `order`.
+ *
+ * If `order` specifies neither a property nor a measurement, `entries` is returned unchanged.
+ * Otherwise, entries for which `getValue` returns `undefined` (because their source lacks the
+ * property, or their type lacks the measurement) are omitted, as are entries outside the bounds.  Entries with equal values retain their relative order, and `NaN`
+ * values are placed last.
+ */
+export function orderAnnotationEntries<T>(
+  entries: readonly T[],
+  getValue: (entry: T) => number | undefined,
+  order: AnnotationListOrder,
+): readonly T[] {
+  if (!isAnnotationListOrdered(order)) return entries;
+  const { min, max, descending } = order;
+  const ranked: { entry: T; value: number }[] = [];
+  for (const entry of entries) {
+    const value = getValue(entry);
+    if (value === undefined) continue;
+    if (min !== undefined && !(value >= min)) continue;
+    if (max !== undefined && !(value <= max)) continue;
+    ranked.push({ entry, value });
+  }
+  ranked.sort((a, b) => {
+    const aNaN = Number.isNaN(a.value);
+    const bNaN = Number.isNaN(b.value);
+    if (aNaN || bNaN) return Number(aNaN) - Number(bNaN);
+    return descending ? b.value - a.value : a.value - b.value;
+  });
+  return ranked.map((x) => x.entry);
+}
+
+export function parseAnnotationListOrder(obj: unknown): AnnotationListOrder {
+  verifyObject(obj);
+  const property = verifyOptionalObjectProperty(
+    obj,
+    "property",
+    parseAnnotationPropertyId,
+  );
+  const measurement =
+    property === undefined
+      ? verifyOptionalObjectProperty(obj, "measurement", (x) => {
+          if (typeof x !== "string" || !isAnnotationMeasurementName(x)) {
+            throw new Error(`Invalid measurement: ${JSON.stringify(x)}`);
+          }
+          return x;
+        })
+      : undefined;
+  const descending = verifyOptionalObjectProperty(
+    obj,
+    "descending",
+    verifyBoolean,
+    false,
+  );
+  const min = verifyOptionalObjectProperty(obj, "min", verifyFiniteFloat);
+  const max = verifyOptionalObjectProperty(obj, "max", verifyFiniteFloat);
+  return { property, measurement, descending, min, max };
+}
+
+export class TrackableAnnotationListOrder extends TrackableValue<AnnotationListOrder> {
+  constructor() {
+    super(defaultAnnotationListOrder, parseAnnotationListOrder);
+  }
+
+  toJSON() {
+    const { value } = this;
+    if (!isAnnotationListOrdered(value)) return undefined;
+    const { property, measurement, descending, min, max } = value;
+    return {
+      property,
+      measurement,
+      descending: descending || undefined,
+      min,
+      max,
+    };
+  }
+}
@@ -218,7 +218,6 @@ emitAnnotation(vec4(color.rgb, color.a * ${this.getCrossSectionFadeFactor()}));
 }
 
 registerAnnotationTypeRenderHandler<Point>(AnnotationType.POINT, {
-  bytes: () => 3 * 4,
   sliceViewRenderHelper: RenderHelper,
   perspectiveViewRenderHelper: RenderHelper,
   defineShaderNoOpSetters(builder) {
@@ -230,7 +229,7 @@ void setPointMarkerBorderColor(vec4 color) {}
 `);
   },
   staticPickIdsPerInstance: 1,
-  pickIdsPerInstance: (annotations) => Array(annotations.length).fill(1),
+  pickIdsPerInstance: (primitiveCounts) => Array(primitiveCounts.length).fill(1),
   assignPickingInformation(mouseState:MouseSelectionState, pickIds: number[], pickedOffset:number) {
     mouseState.pickedAnnotationIndex = Math.floor(pickedOffset / pickIds[0]);
     mouseState.pickedOffset = pickedOffset % pickIds[0];
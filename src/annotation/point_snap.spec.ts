@@ -0,0 +1,84 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for snapping of point annotations to image intensities.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findSnapPosition,
+  parsePointSnapSettings,
+  TrackablePointSnapSettings,
+} from "#src/annotation/point_snap.js";
+
+// Intensities of a 2-d image, indexed by `[y][x]`; voxels outside the image have no data.
+const image = [
+  [0, 0, 0, 0, 0],
+  [0, 1, 2, 0, 0],
+  [0, 2, 9, 0, 0],
+  [0, 0, 0, 0, 3],
+  [0, 0, 0, 0, 0],
+];
+
+function sample(position: Float32Array) {
+  return image[Math.floor(position[1])]?.[Math.floor(position[0])];
+}
+
+describe("findSnapPosition", () => {
+  it("finds the brightest voxel within the radius", () => {
+    const position = Float32Array.of(3.2, 3.7, 5);
+    expect(
+      Array.from(findSnapPosition(position, [0, 1], 1, "maximum", sample)!),
+    ).toEqual([4.5, 3.5, 5]);
+    expect(
+      Array.from(findSnapPosition(position, [0, 1], 2, "maximum", sample)!),
+    ).toEqual([2.5, 2.5, 5]);
+  });
+
+  it("computes the intensity-weighted centroid", () => {
+    const result = findSnapPosition(
+      Float32Array.of(2, 2),
+      [0, 1],
+      1,
+      "centroid",
+      sample,
+    )!;
+    expect(result[0]).toBeCloseTo(2.5 - 2 / 13);
+    expect(result[1]).toBeCloseTo(2.5 - 2 / 13);
+  });
+
+  it("keeps the voxel center if there is no contrast or data", () => {
+    expect(
+      Array.from(
+        findSnapPosition(
+          Float32Array.of(0.2, 4.1),
+          [0, 1],
+          1,
+          "centroid",
+          () => 7,
+        )!,
+      ),
+    ).toEqual([0.5, 4.5]);
+    expect(
+      findSnapPosition(Float32Array.of(-5, -5), [0, 1], 1, "maximum", sample),
+    ).toBeUndefined();
+  });
+});
+
+describe("TrackablePointSnapSettings", () => {
+  it("round-trips through JSON", () => {
+    const settings = new TrackablePointSnapSettings();
+    expect(settings.toJSON()).toBeUndefined();
+    settings.restoreState({ mode: "centroid", layer: "image", radius: 5 });
+    expect(settings.toJSON()).toEqual({
+      mode: "centroid",
+      layer: "image",
+      radius: 5,
+    });
+    expect(() => parsePointSnapSettings({ radius: 100 })).toThrow();
+    expect(() => parsePointSnapSettings({ mode: "brightest" })).toThrow();
+  });
+});
@@ -0,0 +1,174 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Snapping of placed point annotations to the local intensity maximum or centroid of an
+ * image layer.
+ */
+
+import { TrackableValue } from "#src/trackable_value.js";
+import {
+  verifyObject,
+  verifyOptionalObjectProperty,
+  verifyPositiveInt,
+  verifyString,
+} from "#src/util/json.js";
+
+export const pointSnapModes = ["none", "maximum", "centroid"] as const;
+
+export type PointSnapMode = (typeof pointSnapModes)[number];
+
+export interface PointSnapSettings {
+  mode: PointSnapMode;
+  /**
+   * Name of the image layer whose intensities are searched.
+   */
+  layer: string | undefined;
+  /**
+   * Radius of the searched neighbourhood, in voxels of the global coordinate space.
+   */
+  radius: number;
+}
+
+export const MAX_POINT_SNAP_RADIUS = 32;
+
+export const defaultPointSnapSettings: PointSnapSettings = {
+  mode: "none",
+  layer: undefined,
+  radius: 3,
+};
+
+function parsePointSnapMode(x: unknown): PointSnapMode {
+  if (!(pointSnapModes as readonly unknown[]).includes(x)) {
+    throw new Error(`Invalid point snap mode: ${JSON.stringify(x)}`);
+  }
+  return x as PointSnapMode;
+}
+
+function parsePointSnapRadius(x: unknown) {
+  const radius = verifyPositiveInt(x);
+  if (radius > MAX_POINT_SNAP_RADIUS) {
+    throw new Error(
+      `Point snap radius must be at most ${MAX_POINT_SNAP_RADIUS}: ${radius}`,
+    );
+  }
+  return radius;
+}
+
+export function parsePointSnapSettings(obj: unknown): PointSnapSettings {
+  verifyObject(obj);
+  return {
+    mode: verifyOptionalObjectProperty(
+      obj,
+      "mode",
+      parsePointSnapMode,
+      defaultPointSnapSettings.mode,
+    ),
+    layer: verifyOptionalObjectProperty(obj, "layer", verifyString),
+    radius: verifyOptionalObjectProperty(
+      obj,
+      "radius",
+      parsePointSnapRadius,
+      defaultPointSnapSettings.radius,
+    ),
+  };
+}
+
+export class TrackablePointSnapSettings extends TrackableValue<PointSnapSettings> {
+  constructor() {
+    super(defaultPointSnapSettings, parsePointSnapSettings);
+  }
+
+  toJSON() {
+    const { mode, layer, radius } = this.value;
+    if (mode === "none" && layer === undefined) return undefined;
+    return {
+      mode: mode === defaultPointSnapSettings.mode ? undefined : mode,
+      layer,
+      radius: radius === defaultPointSnapSettings.radius ? undefined : radius,
+    };
+  }
+}
+
+/**
+ * Returns the snapped position of a point placed at `position`, or `undefined` if no intensities
+ * are available in the neighbourhood.
+ *
+ * The voxels whose centers lie within `radius` of the voxel containing `position`, in the subspace
+ * spanned by `dimensions`, are sampled with `sample`, which returns `undefined` for voxels without
+ * data.  In `"maximum"` mode, the center of the brightest voxel is returned, preferring the voxel
+ * closest to `position` in case of ties.  In `"centroid"` mode, the intensity-weighted centroid of
+ * the voxel centers is returned, with weights measured relative to the minimum intensity in the
+ * neighbourhood.
+ */
+export function findSnapPosition(
+  position: Float32Array,
+  dimensions: readonly number[],
+  radius: number,
+  mode: Exclude<PointSnapMode, "none">,
+  sample: (position: Float32Array) => number | undefined,
+): Float32Array | undefined {
+  const rank = dimensions.length;
+  const origin = new Float32Array(position);
+  for (const dim of dimensions) {
+    origin[dim] = Math.floor(position[dim]) + 0.5;
+  }
+  const samplePosition = new Float32Array(origin);
+  const offsets: number[][] = [];
+  const values: number[] = [];
+  const offset = new Array<number>(rank).fill(-radius);
+  const radiusSquared = radius * radius;
+  while (true) {
+    const distanceSquared = offset.reduce((sum, x) => sum + x * x, 0);
+    if (distanceSquared <= radiusSquared) {
+      for (let i = 0; i < rank; ++i) {
+        samplePosition[dimensions[i]] = origin[dimensions[i]] + offset[i];
+      }
+      const value = sample(samplePosition);
+      if (value !== undefined && !Number.isNaN(value)) {
+        offsets.push(offset.slice());
+        values.push(value);
+      }
+    }
+    let i = 0;
+    for (; i < rank; ++i) {
+      if (++offset[i] <= radius) break;
+      offset[i] = -radius;
+    }
+    if (i === rank) break;
+  }
+  if (values.length === 0) return undefined;
+  const result = new Float32Array(origin);
+  const setResult = (snapOffset: readonly number[]) => {
+    for (let i = 0; i < rank; ++i) {
+      result[dimensions[i]] = origin[dimensions[i]] + snapOffset[i];
+    }
+    return result;
+  };
+  if (mode === "maximum") {
+    let best = 0;
+    const distance = (o: number[]) => o.reduce((sum, x) => sum + x * x, 0);
+    for (let j = 1; j < values.length; ++j) {
+      if (
+        values[j] > values[best] ||
+        (values[j] === values[best] &&
+          distance(offsets[j]) < distance(offsets[best]))
+      ) {
+        best = j;
+      }
+    }
+    return setResult(offsets[best]);
+  }
+  const minValue = values.reduce((a, b) => Math.min(a, b));
+  const centroid = new Array<number>(rank).fill(0);
+  let totalWeight = 0;
+  for (let j = 0; j < values.length; ++j) {
+    const weight = values[j] - minValue;
+    totalWeight += weight;
+    for (let i = 0; i < rank; ++i) centroid[i] += weight * offsets[j][i];
+  }
+  if (totalWeight === 0) return setResult(centroid);
+  return setResult(centroid.map((x) => x / totalWeight));
+}
@@ -0,0 +1,370 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Support for rendering polygon annotations.
+ */
+
+import type { Polygon } from "#src/annotation/index.js";
+import { AnnotationType } from "#src/annotation/index.js";
+import type {
+  AnnotationRenderContext,
+  AnnotationShaderGetter,
+} from "#src/annotation/type_handler.js";
+import {
+  AnnotationRenderHelper,
+  registerAnnotationTypeRenderHandler,
+} from "#src/annotation/type_handler.js";
+import type { MouseSelectionState } from "#src/layer/index.js";
+import {
+  defineCircleShader,
+  drawCircles,
+  initializeCircleShader,
+} from "#src/webgl/circles.js";
+import {
+  defineLineShader,
+  drawLines,
+  initializeLineShader,
+} from "#src/webgl/lines.js";
+import type { ShaderBuilder, ShaderProgram } from "#src/webgl/shader.js";
+import { drawArraysInstanced } from "#src/webgl/shader.js";
+import { defineVectorArrayVertexShaderInput } from "#src/webgl/shader_lib.js";
+import { defineVertexId, VertexIdHelper } from "#src/webgl/vertex_id.js";
+
+const FULL_OBJECT_PICK_OFFSET = 0;
+const VERTICES_PICK_OFFSET = FULL_OBJECT_PICK_OFFSET + 1;
+
+// Each vertex (primitive) of a polygon reserves this many pick ids.  Pick ids are relative to the
+// first vertex of the polygon: the edges and fill use `FULL_OBJECT_PICK_OFFSET`, and vertex `i`
+// uses `VERTICES_PICK_OFFSET + i`.
+const PICK_IDS_PER_VERTEX = 2;
+
+function defineNoOpEdgeSetters(builder: ShaderBuilder) {
+  builder.addVertexCode(`
+void setPolygonEdgeColor(vec4 color) {}
+void setPolygonEdgeWidth(float width) {}
+`);
+}
+
+function defineNoOpFillSetters(builder: ShaderBuilder) {
+  builder.addVertexCode(`
+void setPolygonFillColor(vec4 color) {}
+`);
+}
+
+function defineNoOpVertexMarkerSetters(builder: ShaderBuilder) {
+  builder.addVertexCode(`
+void setPolygonVertexMarkerColor(vec4 color) {}
+void setPolygonVertexMarkerBorderColor(vec4 color) {}
+void setPolygonVertexMarkerSize(float size) {}
+void setPolygonVertexMarkerBorderWidth(float size) {}
+`);
+}
+
+class RenderHelper extends AnnotationRenderHelper {
+  defineShader(builder: ShaderBuilder) {
+    defineVertexId(builder);
+    const { rank } = this;
+    // Position of the edge endpoints followed by the vertices of a fill triangle, in model
+    // coordinates.
+    defineVectorArrayVertexShaderInput(
+      builder,
+      "float",
+      WebGL2RenderingContext.FLOAT,
+      /*normalized=*/ false,
+      "VertexPosition",
+      rank,
+      5,
+    );
+    // Index of the vertex within the polygon.
+    defineVectorArrayVertexShaderInput(
+      builder,
+      "uint",
+      WebGL2RenderingContext.UNSIGNED_INT,
+      /*normalized=*/ false,
+      "PolygonVertexIndex",
+      1,
+    );
+    // Unlike `setPartIndex`, pick ids and hover highlighting are relative to the first vertex of
+    // the polygon, so that the whole polygon is highlighted when it is hovered.
+    builder.addVertexCode(`
+void setPolygonPartIndex(highp uint partIndex) {
+  highp uint firstPickOffset = (uint(gl_InstanceID) - getPolygonVertexIndex0()[0]) * ${PICK_IDS_PER_VERTEX}u;
+  highp uint pickOffset = firstPickOffset + partIndex;
+  vPickID = uPickID + pickOffset;
+  highp uint selectedIndex = uSelectedIndex;
+  if (selectedIndex == firstPickOffset || selectedIndex == pickOffset) {
+    vColor = vec4(mix(vColor.rgb, vec3(1.0, 1.0, 1.0), 0.75), vColor.a);
+  }
+}
+`);
+  }
+
+  private vertexIdHelper = this.registerDisposer(VertexIdHelper.get(this.gl));
+
+  private edgeShaderGetter = this.getDependentShader(
+    "annotation/polygon/edge",
+    (builder: ShaderBuilder) => {
+      const { rank } = this;
+      this.defineShader(builder);
+      defineLineShader(builder);
+      builder.addVarying(`highp float[${rank}]`, "vModelPosition");
+      builder.addVertexCode(`
+float ng_LineWidth;
+`);
+      defineNoOpFillSetters(builder);
+      defineNoOpVertexMarkerSetters(builder);
+      builder.addVertexCode(`
+void setPolygonEdgeWidth(float width) {
+  ng_LineWidth = width;
+}
+void setPolygonEdgeColor(vec4 color) {
+  vColor = color;
+}
+`);
+      builder.setVertexMain(`
+float modelPositionA[${rank}] = getVertexPosition0();
+float modelPositionB[${rank}] = getVertexPosition1();
+for (int i = 0; i < ${rank}; ++i) {
+  vModelPosition[i] = mix(modelPositionA[i], modelPositionB[i], getLineEndpointCoefficient());
+}
+ng_LineWidth = 1.0;
+vColor = vec4(0.0, 0.0, 0.0, 0.0);
+${this.invokeUserMain}
+emitLine(uModelViewProjection * vec4(projectModelVectorToSubspace(modelPositionA), 1.0),
+         uModelViewProjection * vec4(projectModelVectorToSubspace(modelPositionB), 1.0),
+         ng_LineWidth);
+setPolygonPartIndex(${FULL_OBJECT_PICK_OFFSET}u);
+`);
+      builder.setFragmentMain(`
+float clipCoefficient = getSubspaceClipCoefficient(vModelPosition);
+emitAnnotation(vec4(vColor.rgb, vColor.a * getLineAlpha() *
+                                ${this.getCrossSectionFadeFactor()} *
+                                clipCoefficient));
+`);
+    },
+  );
+
+  private vertexMarkerShaderGetter = this.getDependentShader(
+    "annotation/polygon/vertex",
+    (builder: ShaderBuilder) => {
+      const { rank } = this;
+      this.defineShader(builder);
+      defineCircleShader(builder, this.targetIsSliceView);
+      builder.addVarying("highp float", "vClipCoefficient");
+      builder.addVarying("highp vec4", "vBorderColor");
+      defineNoOpEdgeSetters(builder);
+      defineNoOpFillSetters(builder);
+      builder.addVertexCode(`
+float ng_markerDiameter;
+float ng_markerBorderWidth;
+void setPolygonVertexMarkerSize(float size) {
+  ng_markerDiameter = size;
+}
+void setPolygonVertexMarkerBorderWidth(float size) {
+  ng_markerBorderWidth = size;
+}
+void setPolygonVertexMarkerColor(vec4 color) {
+  vColor = color;
+}
+void setPolygonVertexMarkerBorderColor(vec4 color) {
+  vBorderColor = color;
+}
+`);
+      builder.setVertexMain(`
+float modelPosition[${rank}] = getVertexPosition0();
+vClipCoefficient = getSubspaceClipCoefficient(modelPosition);
+vColor = vec4(0.0, 0.0, 0.0, 0.0);
+vBorderColor = vec4(0.0, 0.0, 0.0, 1.0);
+ng_markerDiameter = 5.0;
+ng_markerBorderWidth = 1.0;
+${this.invokeUserMain}
+emitCircle(uModelViewProjection * vec4(projectModelVectorToSubspace(modelPosition), 1.0), ng_markerDiameter, ng_markerBorderWidth);
+setPolygonPartIndex(${VERTICES_PICK_OFFSET}u + getPolygonVertexIndex0()[0]);
+`);
+      builder.setFragmentMain(`
+vec4 color = getCircleColor(vColor, vBorderColor);
+color.a *= vClipCoefficient;
+emitAnnotation(color);
+`);
+    },
+  );
+
+  private fillShaderGetter = this.getDependentShader(
+    "annotation/polygon/fill",
+    (builder: ShaderBuilder) => {
+      const { rank } = this;
+      this.defineShader(builder);
+      builder.addVarying(`highp float[${rank}]`, "vModelPosition");
+      defineNoOpEdgeSetters(builder);
+      defineNoOpVertexMarkerSetters(builder);
+      builder.addVertexCode(`
+void setPolygonFillColor(vec4 color) {
+  vColor = color;
+}
+`);
+      builder.setVertexMain(`
+float modelPosition[${rank}];
+if (gl_VertexID == 0) {
+  modelPosition = getVertexPosition2();
+} else if (gl_VertexID == 1) {
+  modelPosition = getVertexPosition3();
+} else {
+  modelPosition = getVertexPosition4();
+}
+vModelPosition = modelPosition;
+vColor = vec4(0.0, 0.0, 0.0, 0.0);
+${this.invokeUserMain}
+gl_Position = uModelViewProjection * vec4(projectModelVectorToSubspace(modelPosition), 1.0);
+setPolygonPartIndex(${FULL_OBJECT_PICK_OFFSET}u);
+`);
+      builder.setFragmentMain(`
+float clipCoefficient = getSubspaceClipCoefficient(vModelPosition);
+emitAnnotation(vec4(vColor.rgb, vColor.a * ${this.getCrossSectionFadeFactor()} *
+                                clipCoefficient));
+`);
+    },
+  );
+
+  enable(
+    shaderGetter: AnnotationShaderGetter,
+    context: AnnotationRenderContext,
+    callback: (shader: ShaderProgram) => void,
+  ) {
+    super.enable(shaderGetter, context, (shader) => {
+      const { gl, rank } = this;
+      const positionBinder = shader.vertexShaderInputBinders.VertexPosition;
+      const vertexIndexBinder =
+        shader.vertexShaderInputBinders.PolygonVertexIndex;
+      positionBinder.enable(1);
+      vertexIndexBinder.enable(1);
+      gl.bindBuffer(WebGL2RenderingContext.ARRAY_BUFFER, context.buffer.buffer);
+      positionBinder.bind(this.geometryDataStride, context.bufferOffset);
+      vertexIndexBinder.bind(
+        this.geometryDataStride,
+        context.bufferOffset + 5 * 4 * rank,
+      );
+      const { vertexIdHelper } = this;
+      vertexIdHelper.enable();
+      callback(shader);
+      vertexIdHelper.disable();
+      vertexIndexBinder.disable();
+      positionBinder.disable();
+    });
+  }
+
+  drawFill(context: AnnotationRenderContext) {
+    this.enable(this.fillShaderGetter, context, () => {
+      drawArraysInstanced(
+        this.gl,
+        WebGL2RenderingContext.TRIANGLES,
+        0,
+        3,
+        context.count,
+      );
+    });
+  }
+
+  drawEdges(context: AnnotationRenderContext) {
+    this.enable(this.edgeShaderGetter, context, (shader) => {
+      initializeLineShader(
+        shader,
+        context.renderContext.projectionParameters,
+        /*featherWidthInPixels=*/ 1.0,
+      );
+      drawLines(shader.gl, 1, context.count);
+    });
+  }
+
+  drawVertexMarkers(context: AnnotationRenderContext) {
+    this.enable(this.vertexMarkerShaderGetter, context, (shader) => {
+      initializeCircleShader(
+        shader,
+        context.renderContext.projectionParameters,
+        { featherWidthInPixels: 0.5 },
+      );
+      drawCircles(shader.gl, 1, context.count);
+    });
+  }
+
+  draw(context: AnnotationRenderContext) {
+    // The fill is only meaningful when the polygon lies within the cross section.
+    if (this.targetIsSliceView) {
+      this.drawFill(context);
+    }
+    this.drawEdges(context);
+    this.drawVertexMarkers(context);
+  }
+}
+
+registerAnnotationTypeRenderHandler<Polygon>(AnnotationType.POLYGON, {
+  sliceViewRenderHelper: RenderHelper,
+  perspectiveViewRenderHelper: RenderHelper,
+  defineShaderNoOpSetters(builder) {
+    defineNoOpEdgeSetters(builder);
+    defineNoOpFillSetters(builder);
+    defineNoOpVertexMarkerSetters(builder);
+  },
+  staticPickIdsPerInstance: PICK_IDS_PER_VERTEX,
+  pickIdsPerInstance: (primitiveCounts) =>
+    primitiveCounts.map((count) => count * PICK_IDS_PER_VERTEX),
+  assignPickingInformation(
+    mouseState: MouseSelectionState,
+    pickIds: number[],
+    pickedOffset: number,
+  ) {
+    let annotationIndex = 0;
+    let annotationPickOffset = 0;
+    for (const count of pickIds) {
+      if (pickedOffset < annotationPickOffset + count) break;
+      annotationPickOffset += count;
+      ++annotationIndex;
+    }
+    mouseState.pickedAnnotationIndex = annotationIndex;
+    mouseState.pickedOffset = pickedOffset - annotationPickOffset;
+  },
+  snapPosition(position, data, offset, partIndex, stride) {
+    // Picking the edges or fill leaves the position unchanged.
+    if (partIndex === FULL_OBJECT_PICK_OFFSET) return;
+    const rank = position.length;
+    position.set(
+      new Float32Array(
+        data,
+        offset + (partIndex - VERTICES_PICK_OFFSET) * stride,
+        rank,
+      ),
+    );
+  },
+  getRepresentativePoint(out, ann, partIndex) {
+    // If the full object is selected, the first vertex is representative.
+    const vertexIndex =
+      partIndex === FULL_OBJECT_PICK_OFFSET
+        ? 0
+        : partIndex - VERTICES_PICK_OFFSET;
+    out.set(ann.points[vertexIndex]);
+  },
+  updateViaRepresentativePoint(oldAnnotation, position, partIndex) {
+    const { points } = oldAnnotation;
+    const rank = position.length;
+    if (partIndex === FULL_OBJECT_PICK_OFFSET) {
+      const origin = points[0];
+      return {
+        ...oldAnnotation,
+        points: points.map((point) => {
+          const newPoint = new Float32Array(rank);
+          for (let i = 0; i < rank; ++i) {
+            newPoint[i] = point[i] + (position[i] - origin[i]);
+          }
+          return newPoint;
+        }),
+      };
+    }
+    const vertexIndex = partIndex - VERTICES_PICK_OFFSET;
+    if (vertexIndex >= points.length) return oldAnnotation;
+    const newPoints = points.slice();
+    newPoints[vertexIndex] = new Float32Array(position);
+    return { ...oldAnnotation, points: newPoints };
+  },
+});
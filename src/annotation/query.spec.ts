@@ -0,0 +1,146 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the annotation property query language.
+ */
+
+import { describe, it, expect } from "vitest";
+import type {
+  AnnotationBase,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
+import { AnnotationType } from "#src/annotation/index.js";
+import type { AnnotationQuery } from "#src/annotation/query.js";
+import {
+  getAnnotationQueryFilter,
+  makeAnnotationQueryPredicate,
+  parseAnnotationQuery,
+} from "#src/annotation/query.js";
+
+const properties: AnnotationPropertySpec[] = [
+  {
+    type: "float32",
+    identifier: "confidence",
+    description: undefined,
+    default: 0,
+  },
+  {
+    type: "uint8",
+    identifier: "cell_type",
+    description: undefined,
+    default: 0,
+    enumValues: [0, 1, 2],
+    enumLabels: ["neuron", "glia", "unknown"],
+  },
+  {
+    type: "tags",
+    identifier: "tags",
+    description: undefined,
+    default: 0,
+    tags: ["soma", "dendrite"],
+    tagDescriptions: [undefined, undefined],
+  },
+  {
+    type: "string",
+    identifier: "name",
+    description: undefined,
+    default: "",
+  },
+];
+
+function makeAnnotation(
+  values: [number, number, number, string],
+  description?: string,
+): AnnotationBase {
+  return {
+    id: "",
+    type: AnnotationType.POINT,
+    properties: values,
+    description,
+  };
+}
+
+function parse(query: string) {
+  const result = parseAnnotationQuery(properties, query);
+  expect(result.errors).toBeUndefined();
+  return result as AnnotationQuery;
+}
+
+describe("parseAnnotationQuery", () => {
+  it("parses comparisons, tags and regular expressions", () => {
+    const result = parse("Cell_Type=GLIA confidence<0.6 #soma -#Dendrite /x");
+    expect(result.comparisons).toEqual([
+      { property: "cell_type", op: "=", value: 1 },
+      { property: "confidence", op: "<", value: Math.fround(0.6) },
+    ]);
+    expect(result.includeTags).toEqual(["soma"]);
+    expect(result.excludeTags).toEqual(["dendrite"]);
+    expect(result.descriptionRegexp).toEqual(/x/);
+  });
+
+  it("reports errors with their locations", () => {
+    const result = parseAnnotationQuery(
+      properties,
+      "size<3 confidence<abc #axon name<a /(",
+    );
+    expect(result.errors).toEqual([
+      { begin: 0, end: 4, message: "Invalid property: size" },
+      { begin: 18, end: 21, message: "Invalid value: abc" },
+      { begin: 23, end: 27, message: "Invalid tag: axon" },
+      {
+        begin: 32,
+        end: 33,
+        message: "Only = and != are supported for string property: name",
+      },
+      { begin: 35, end: 37, message: "Invalid regular expression syntax" },
+    ]);
+  });
+});
+
+describe("makeAnnotationQueryPredicate", () => {
+  const annotations = [
+    makeAnnotation([0.5, 1, 1, "a1"], "first"),
+    makeAnnotation([0.9, 1, 3, "b2"]),
+    makeAnnotation([0.2, 0, 2, "a3"], "third"),
+  ];
+  function matching(query: string) {
+    const predicate = makeAnnotationQueryPredicate(parse(query), properties);
+    return annotations
+      .map((annotation, i) => (predicate(annotation) ? i : -1))
+      .filter((i) => i !== -1);
+  }
+
+  it("matches all constraints", () => {
+    expect(matching("cell_type=glia confidence<0.6")).toEqual([0]);
+    expect(matching("confidence>=0.5")).toEqual([0, 1]);
+    expect(matching("#dendrite")).toEqual([1, 2]);
+    expect(matching("-#soma")).toEqual([2]);
+    expect(matching("name/^a")).toEqual([0, 2]);
+    expect(matching("name!=b2")).toEqual([0, 2]);
+    expect(matching("/^t")).toEqual([2]);
+  });
+
+  it("matches nothing if a property is missing", () => {
+    const predicate = makeAnnotationQueryPredicate(
+      parse("confidence<1"),
+      properties.slice(1),
+    );
+    expect(predicate(annotations[0])).toBe(false);
+  });
+});
+
+describe("getAnnotationQueryFilter", () => {
+  it("returns undefined for empty or invalid queries", () => {
+    for (const query of ["", "  ", "confidence<"]) {
+      expect(
+        getAnnotationQueryFilter(
+          parseAnnotationQuery(properties, query),
+          properties,
+        ),
+      ).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,357 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Query language for filtering annotations by their properties and description.
+ *
+ * A query consists of space-separated terms, all of which must match:
+ *
+ * - `prop<value`, `prop<=value`, `prop=value`, `prop!=value`, `prop>=value`, `prop>value`: compares
+ *   a numeric property with a number or enum label, or a string property (`=` and `!=` only) with
+ *   a string.
+ * - `prop/regexp`: matches a string property against a regular expression.
+ * - `#tag`, `-#tag`: requires the presence or absence of a tag of any `tags` property.
+ * - `/regexp`: matches the description against a regular expression.
+ *
+ * Property identifiers and tags are matched case-insensitively.
+ */
+
+import type {
+  AnnotationBase,
+  AnnotationNumericPropertySpec,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
+import { propertyTypeDataType } from "#src/annotation/index.js";
+
+export type AnnotationPropertyComparisonOperator =
+  | "<"
+  | "<="
+  | "="
+  | "!="
+  | ">="
+  | ">";
+
+export interface AnnotationPropertyComparison {
+  property: string;
+  op: AnnotationPropertyComparisonOperator;
+  value: number | string;
+}
+
+export interface AnnotationPropertyRegexp {
+  property: string;
+  regexp: RegExp;
+}
+
+export interface AnnotationQuery {
+  comparisons: AnnotationPropertyComparison[];
+  propertyRegexps: AnnotationPropertyRegexp[];
+  includeTags: string[];
+  excludeTags: string[];
+  descriptionRegexp: RegExp | undefined;
+  errors?: undefined;
+}
+
+export interface AnnotationQueryParseError {
+  begin: number;
+  end: number;
+  message: string;
+}
+
+export interface AnnotationQueryParseErrors {
+  errors: AnnotationQueryParseError[];
+}
+
+export type AnnotationQueryParseResult =
+  | AnnotationQuery
+  | AnnotationQueryParseErrors;
+
+export function isEmptyAnnotationQuery(query: AnnotationQuery) {
+  return (
+    query.comparisons.length === 0 &&
+    query.propertyRegexps.length === 0 &&
+    query.includeTags.length === 0 &&
+    query.excludeTags.length === 0 &&
+    query.descriptionRegexp === undefined
+  );
+}
+
+function compare(
+  value: number | string,
+  op: AnnotationPropertyComparisonOperator,
+  operand: number | string,
+) {
+  switch (op) {
+    case "<":
+      return value < operand;
+    case "<=":
+      return value <= operand;
+    case "=":
+      return value === operand;
+    case "!=":
+      return value !== operand;
+    case ">=":
+      return value >= operand;
+    case ">":
+      return value > operand;
+  }
+}
+
+function parseRegexp(
+  pattern: string,
+  begin: number,
+  end: number,
+  errors: AnnotationQueryParseError[],
+) {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    errors.push({ begin, end, message: "Invalid regular expression syntax" });
+    return undefined;
+  }
+}
+
+/**
+ * Parses a query relative to the specified properties.
+ */
+export function parseAnnotationQuery(
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+  queryString: string,
+): AnnotationQueryParseResult {
+  const parsed: AnnotationQuery = {
+    comparisons: [],
+    propertyRegexps: [],
+    includeTags: [],
+    excludeTags: [],
+    descriptionRegexp: undefined,
+  };
+  const errors: AnnotationQueryParseError[] = [];
+  const findProperty = (identifier: string) => {
+    const lowerCaseIdentifier = identifier.toLowerCase();
+    return properties.find(
+      (p) => p.identifier.toLowerCase() === lowerCaseIdentifier,
+    );
+  };
+  const tagNames = new Map<string, string>();
+  for (const property of properties) {
+    if (property.type !== "tags") continue;
+    for (const tag of property.tags) {
+      tagNames.set(tag.toLowerCase(), tag);
+    }
+  }
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(queryString)) !== null) {
+    const word = match[0];
+    const begin = match.index;
+    const end = begin + word.length;
+    const tagMatch = word.match(/^(-?)#(.*)$/);
+    if (tagMatch !== null) {
+      const tagBegin = begin + tagMatch[1].length + 1;
+      const tag = tagNames.get(tagMatch[2].toLowerCase());
+      if (tag === undefined) {
+        errors.push({
+          begin: tagBegin,
+          end,
+          message: `Invalid tag: ${tagMatch[2]}`,
+        });
+        continue;
+      }
+      if (
+        parsed.includeTags.includes(tag) ||
+        parsed.excludeTags.includes(tag)
+      ) {
+        errors.push({ begin: tagBegin, end, message: `Duplicate tag: ${tag}` });
+        continue;
+      }
+      (tagMatch[1] === "" ? parsed.includeTags : parsed.excludeTags).push(tag);
+      continue;
+    }
+    if (word.startsWith("/")) {
+      if (parsed.descriptionRegexp !== undefined) {
+        errors.push({
+          begin,
+          end,
+          message: "Only one description regular expression allowed",
+        });
+        continue;
+      }
+      parsed.descriptionRegexp = parseRegexp(
+        word.substring(1),
+        begin,
+        end,
+        errors,
+      );
+      continue;
+    }
+    const constraintMatch = word.match(
+      /^([a-zA-Z][a-zA-Z0-9_]*)(<=|>=|!=|<|=|>|\/)(.*)$/,
+    );
+    if (constraintMatch === null) {
+      errors.push({
+        begin,
+        end,
+        message: `Expected constraint of the form property<value, #tag or /regexp`,
+      });
+      continue;
+    }
+    const [, identifier, op, valueString] = constraintMatch;
+    const valueBegin = begin + identifier.length + op.length;
+    const property = findProperty(identifier);
+    if (property === undefined) {
+      errors.push({
+        begin,
+        end: begin + identifier.length,
+        message: `Invalid property: ${identifier}`,
+      });
+      continue;
+    }
+    if (op === "/") {
+      if (property.type !== "string") {
+        errors.push({
+          begin,
+          end: begin + identifier.length,
+          message: `Regular expression requires a string property: ${property.identifier}`,
+        });
+        continue;
+      }
+      const regexp = parseRegexp(valueString, valueBegin, end, errors);
+      if (regexp !== undefined) {
+        parsed.propertyRegexps.push({ property: property.identifier, regexp });
+      }
+      continue;
+    }
+    if (property.type === "string") {
+      if (op !== "=" && op !== "!=") {
+        errors.push({
+          begin: begin + identifier.length,
+          end: valueBegin,
+          message: `Only = and != are supported for string property: ${property.identifier}`,
+        });
+        continue;
+      }
+      parsed.comparisons.push({
+        property: property.identifier,
+        op,
+        value: valueString,
+      });
+      continue;
+    }
+    if (propertyTypeDataType[property.type] === undefined) {
+      errors.push({
+        begin,
+        end: begin + identifier.length,
+        message: `Property cannot be compared: ${property.identifier}`,
+      });
+      continue;
+    }
+    let value: number;
+    const { enumLabels, enumValues } =
+      property as Readonly<AnnotationNumericPropertySpec>;
+    const lowerCaseValue = valueString.toLowerCase();
+    const labelIndex =
+      enumLabels?.findIndex((x) => x.toLowerCase() === lowerCaseValue) ?? -1;
+    if (labelIndex !== -1) {
+      value = enumValues![labelIndex];
+    } else {
+      value = valueString === "" ? NaN : Number(valueString);
+      if (!Number.isFinite(value)) {
+        errors.push({
+          begin: valueBegin,
+          end,
+          message: `Invalid value: ${valueString}`,
+        });
+        continue;
+      }
+      if (property.type === "float32") value = Math.fround(value);
+    }
+    parsed.comparisons.push({
+      property: property.identifier,
+      op: op as AnnotationPropertyComparisonOperator,
+      value,
+    });
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return parsed;
+}
+
+/**
+ * Returns a predicate that determines whether an annotation with the specified properties matches
+ * `query`.  Annotations of a source that lacks a property referenced by a comparison never match.
+ */
+export function makeAnnotationQueryPredicate(
+  query: AnnotationQuery,
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+): (annotation: AnnotationBase) => boolean {
+  const getIndex = (identifier: string) =>
+    properties.findIndex((p) => p.identifier === identifier);
+  const comparisons = query.comparisons.map(({ property, op, value }) => ({
+    index: getIndex(property),
+    op,
+    value,
+  }));
+  const propertyRegexps = query.propertyRegexps.map(({ property, regexp }) => ({
+    index: getIndex(property),
+    regexp,
+  }));
+  if (
+    comparisons.some((c) => c.index === -1) ||
+    propertyRegexps.some((c) => c.index === -1)
+  ) {
+    return () => false;
+  }
+  // Locations of each tag, as a property index and bit mask.
+  const getTagLocations = (tag: string) => {
+    const locations: { index: number; mask: number }[] = [];
+    properties.forEach((property, index) => {
+      if (property.type !== "tags") return;
+      const tagIndex = property.tags.indexOf(tag);
+      if (tagIndex !== -1) locations.push({ index, mask: 1 << tagIndex });
+    });
+    return locations;
+  };
+  const includeTags = query.includeTags.map(getTagLocations);
+  const excludeTags = query.excludeTags.map(getTagLocations);
+  const { descriptionRegexp } = query;
+  return (annotation) => {
+    const values = annotation.properties;
+    for (const { index, op, value } of comparisons) {
+      if (!compare(values[index], op, value)) return false;
+    }
+    for (const { index, regexp } of propertyRegexps) {
+      if (!regexp.test(values[index])) return false;
+    }
+    const hasTag = (locations: { index: number; mask: number }[]) =>
+      locations.some(({ index, mask }) => (values[index] & mask) !== 0);
+    for (const locations of includeTags) {
+      if (!hasTag(locations)) return false;
+    }
+    for (const locations of excludeTags) {
+      if (hasTag(locations)) return false;
+    }
+    if (
+      descriptionRegexp !== undefined &&
+      !descriptionRegexp.test(annotation.description ?? "")
+    ) {
+      return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Returns a predicate implementing the query described by `result`, or `undefined` if the query is
+ * empty or invalid and therefore does not restrict the annotations.
+ */
+export function getAnnotationQueryFilter(
+  result: AnnotationQueryParseResult,
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+): ((annotation: AnnotationBase) => boolean) | undefined {
+  if (result.errors !== undefined || isEmptyAnnotationQuery(result)) {
+    return undefined;
+  }
+  return makeAnnotationQueryPredicate(result, properties);
+}
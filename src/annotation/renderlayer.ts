@@ -22,6 +22,7 @@ import "#src/annotation/line.js";
 import "#src/annotation/point.js";
 import "#src/annotation/ellipsoid.js";
 import '#src/annotation/linestring.js';
+import "#src/annotation/polygon.js";
 
 import type {
   AnnotationLayerState,
@@ -43,7 +44,6 @@ import {
   MultiscaleAnnotationSource,
 } from "#src/annotation/frontend_source.js";
 import type {
-  Annotation,
   AnnotationBase,
   SerializedAnnotations,
 } from "#src/annotation/index.js";
@@ -52,7 +52,9 @@ import {
   AnnotationSource,
   annotationTypes,
   formatAnnotationPropertyValue,
+  getPrimitiveCounts,
 } from "#src/annotation/index.js";
+import { getAnnotationQueryFilter } from "#src/annotation/query.js";
 import type {
   AnnotationRenderContext,
   AnnotationRenderHelper,
@@ -134,6 +136,7 @@ import { NullarySignal } from "#src/util/signal.js";
 import type { Uint64 } from "#src/util/uint64.js";
 import { withSharedVisibility } from "#src/visibility_priority/frontend.js";
 import { Buffer } from "#src/webgl/buffer.js";
+import type { GL } from "#src/webgl/context.js";
 import type { ParameterizedContextDependentShaderGetter } from "#src/webgl/dynamic_shader.js";
 import { parameterizedEmitterDependentShaderGetter } from "#src/webgl/dynamic_shader.js";
 import type {
@@ -170,13 +173,26 @@ function segmentationFilter(
   };
 }
 
+function combineFilters(
+  a: ((annotation: AnnotationBase) => boolean) | undefined,
+  b: ((annotation: AnnotationBase) => boolean) | undefined,
+) {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return (annotation: AnnotationBase) => a(annotation) && b(annotation);
+}
+
 function serializeAnnotationSet(
   annotationSet: AnnotationSource,
   filter?: (annotation: AnnotationBase) => boolean,
 ) {
-  const serializer = new AnnotationSerializer(
-    annotationSet.annotationPropertySerializers,
-  );
+  const { annotationPropertySerializers } = annotationSet;
+  // The result replaces the annotations previously serialized by the layer, which are the only
+  // other annotations serialized with the string tables of the source.
+  for (const propertySerializer of annotationPropertySerializers) {
+    propertySerializer.strings.clear();
+  }
+  const serializer = new AnnotationSerializer(annotationPropertySerializers);
   for (const annotation of annotationSet) {
     if (filter === undefined || filter(annotation)) {
       serializer.add(annotation);
@@ -185,6 +201,45 @@ function serializeAnnotationSet(
   return serializer.serialize();
 }
 
+/**
+ * Returns the annotations of `chunk` that pass `filter`, which is derived from the filter query
+ * result `filterKey`.  Unlike the segment filter, which is applied to spatially indexed sources by
+ * the backend, the filter query is applied to each chunk as it is drawn.
+ */
+function getFilteredChunkData(
+  gl: GL,
+  source: MultiscaleAnnotationSource,
+  chunk: AnnotationGeometryData,
+  filterKey: unknown,
+  filter: (annotation: AnnotationBase) => boolean,
+): AnnotationGeometryDataInterface {
+  const annotations = source.getChunkAnnotations(chunk);
+  let { filtered } = chunk;
+  if (
+    filtered === undefined ||
+    filtered.annotations !== annotations ||
+    filtered.filterKey !== filterKey
+  ) {
+    const serializer = new AnnotationSerializer(
+      source.annotationPropertySerializers,
+    );
+    for (const annotation of annotations) {
+      if (filter(annotation)) serializer.add(annotation);
+    }
+    const serializedAnnotations = serializer.serialize();
+    const buffer = filtered?.buffer ?? new Buffer(gl);
+    buffer.setData(serializedAnnotations.data);
+    filtered = chunk.filtered = {
+      annotations,
+      filterKey,
+      serializedAnnotations,
+      buffer,
+      numPickIds: computeNumPickIds(serializedAnnotations),
+    };
+  }
+  return filtered;
+}
+
 @registerSharedObjectOwner(ANNOTATION_RENDER_LAYER_RPC_ID)
 class AnnotationLayerSharedObject extends withSharedVisibility(
   ChunkRenderLayerFrontend,
@@ -340,6 +395,11 @@ export class AnnotationLayer extends RefCounted {
       );
     }
     const { displayState } = this.state;
+    this.registerDisposer(
+      displayState.filterQueryResult.changed.add(
+        this.handleChangeAffectingBuffer,
+      ),
+    );
     this.registerDisposer(
       displayState.color.changed.add(this.redrawNeeded.dispatch),
     );
@@ -376,10 +436,16 @@ export class AnnotationLayer extends RefCounted {
         const serializedAnnotations = (this.serializedAnnotations =
           serializeAnnotationSet(
             source,
-            segmentationFilter(this.segmentationStates.value),
+            combineFilters(
+              segmentationFilter(this.segmentationStates.value),
+              getAnnotationQueryFilter(
+                this.state.displayState.filterQueryResult.value,
+                source.properties,
+              ),
+            ),
           ));
         buffer.setData(this.serializedAnnotations.data);
-        this.numPickIds = computeNumPickIds(serializedAnnotations, source);
+        this.numPickIds = computeNumPickIds(serializedAnnotations);
       }
     }
   }
@@ -609,6 +675,31 @@ function AnnotationRenderLayer<
       state: AnnotationChunkRenderParameters,
       drawFraction = 1,
     ) {
+      const { source } = this.base;
+      const filterQueryResult =
+        this.base.state.displayState.filterQueryResult.value;
+      const filter = getAnnotationQueryFilter(
+        filterQueryResult,
+        source.properties,
+      );
+      if (
+        filter !== undefined &&
+        source instanceof MultiscaleAnnotationSource
+      ) {
+        this.drawGeometry(
+          getFilteredChunkData(
+            this.gl,
+            source,
+            chunk,
+            filterQueryResult,
+            filter,
+          ),
+          renderContext,
+          state,
+          drawFraction,
+        );
+        return;
+      }
       if (!chunk.bufferValid) {
         let { buffer } = chunk;
         if (buffer === undefined) {
@@ -616,7 +707,7 @@ function AnnotationRenderLayer<
         }
         const { serializedAnnotations } = chunk;
         buffer.setData(serializedAnnotations.data);
-        chunk.numPickIds = computeNumPickIds(serializedAnnotations, this.base.source);
+        chunk.numPickIds = computeNumPickIds(serializedAnnotations);
         chunk.bufferValid = true;
       }
       this.drawGeometry(
@@ -675,13 +766,13 @@ function AnnotationRenderLayer<
           .visibleHistograms > 0;
       for (const annotationType of annotationTypes) {
         const idMap = typeToIdMaps[annotationType];
-        const annotations: Annotation[] = [];
-        idMap.forEach((_, id) => annotations.push(this.base.state.source.getReference(id).value!));
         let count = typeToPrimitiveCount[annotationType];
         if (count > 0) {
           const handler = getAnnotationTypeRenderHandler(annotationType);
           let selectedIndex = 0xffffffff;
-          const pickIdsPerInstance = handler.pickIdsPerInstance(annotations);
+          const pickIdsPerInstance = handler.pickIdsPerInstance(
+            getPrimitiveCounts(serializedAnnotations, annotationType),
+          );
           if (hoverValue !== undefined) {
             const index = idMap.get(hoverValue.id);
             if (index !== undefined) {
@@ -716,31 +807,42 @@ function AnnotationRenderLayer<
     ) {
       const chunk = data as AnnotationGeometryDataInterface;
       const { serializedAnnotations } = chunk;
-      const { typeToIds } = serializedAnnotations;
+      const {
+        typeToIds,
+        typeToOffset,
+        typeToPrimitiveCount,
+        typeToPrimitiveOffsets,
+      } = serializedAnnotations;
+      const { annotationPropertySerializers } = this.base.source;
       const rank = this.curRank;
       const chunkTransform = this.chunkTransform;
       if (chunkTransform.error !== undefined) return;
       for (const annotationType of annotationTypes) {
         const ids = typeToIds[annotationType];
-        const annotations: Annotation[] = [];
-        ids.forEach((id) => annotations.push(this.base.state.source.getReference(id).value!));
         const renderHandler = getAnnotationTypeRenderHandler(annotationType);
-        const pickIds = renderHandler.pickIdsPerInstance(annotations);
+        const pickIds = renderHandler.pickIdsPerInstance(
+          getPrimitiveCounts(serializedAnnotations, annotationType),
+        );
         const pickIdCount = pickIds.reduce((a, b) => a + b, 0);
         if (pickIdCount != 0 && pickedOffset < pickIdCount) {
           renderHandler.assignPickingInformation(mouseState, pickIds, pickedOffset);
 
-          let bufferOffset = 0;
-          for (let i = 0; i < mouseState.pickedAnnotationIndex!; ++i) {
-            bufferOffset += renderHandler.bytes(this.base.state.source.getReference(ids[i]).value!);
-          }
-          const id = ids[mouseState.pickedAnnotationIndex!];
+          // `assignPickingInformation` sets the index of the picked annotation; the pick state
+          // refers to its primitives within the serialized data.
+          const annotationIndex = mouseState.pickedAnnotationIndex!;
+          const primitiveOffsets = typeToPrimitiveOffsets[annotationType];
+          const id = ids[annotationIndex];
           mouseState.pickedAnnotationId = id;
           mouseState.pickedAnnotationLayer = this.base.state;
           mouseState.pickedAnnotationBuffer = serializedAnnotations.data.buffer;
           mouseState.pickedAnnotationType = annotationType;
-          mouseState.pickedAnnotationBufferBaseOffset = bufferOffset;
-          mouseState.pickedAnnotationCount = ids.length;
+          mouseState.pickedAnnotationBufferBaseOffset =
+            serializedAnnotations.data.byteOffset + typeToOffset[annotationType];
+          mouseState.pickedAnnotationIndex = primitiveOffsets[annotationIndex];
+          mouseState.pickedAnnotationCount = typeToPrimitiveCount[annotationType];
+          mouseState.pickedAnnotationPrimitiveCount =
+            primitiveOffsets[annotationIndex + 1] -
+            primitiveOffsets[annotationIndex];
           const chunkPosition = this.tempChunkPosition;
           const {
             chunkToLayerTransform,
@@ -762,11 +864,16 @@ function AnnotationRenderLayer<
             return;
           }
 
+          const geometryStride =
+            annotationPropertySerializers[annotationType].propertyGroupBytes[0];
           renderHandler.snapPosition(
             chunkPosition,
             mouseState.pickedAnnotationBuffer,
-            mouseState.pickedAnnotationBufferBaseOffset,
-            mouseState.pickedOffset
+            mouseState.pickedAnnotationBufferBaseOffset +
+              mouseState.pickedAnnotationIndex * geometryStride,
+            mouseState.pickedOffset,
+            geometryStride,
+            mouseState.pickedAnnotationPrimitiveCount,
           );
           const globalRank = globalToRenderLayerDimensions.length;
           for (let globalDim = 0; globalDim < globalRank; ++globalDim) {
@@ -0,0 +1,111 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for annotation review status.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Point } from "#src/annotation/index.js";
+import {
+  AnnotationType,
+  parseAnnotationPropertySpecs,
+} from "#src/annotation/index.js";
+import {
+  AnnotationReviewStatus,
+  countReviewStatuses,
+  findNextUnreviewed,
+  getReviewStatusPropertyIndex,
+  makeReviewStatusPropertySpec,
+  setReviewStatus,
+} from "#src/annotation/review.js";
+
+describe("review status property", () => {
+  it("fills in the enum values of the reserved property", () => {
+    const properties = parseAnnotationPropertySpecs([
+      { id: "score", type: "float32" },
+      { id: "review_status", type: "uint8" },
+    ]);
+    expect(getReviewStatusPropertyIndex(properties)).toEqual(1);
+    expect(properties[1]).toEqual(makeReviewStatusPropertySpec());
+  });
+
+  it("keeps custom labels", () => {
+    const labels = ["todo", "yes", "no", "fix"];
+    const [property] = parseAnnotationPropertySpecs([
+      {
+        id: "review_status",
+        type: "uint8",
+        enum_values: [0, 1, 2, 3],
+        enum_labels: labels,
+      },
+    ]);
+    expect((property as any).enumLabels).toEqual(labels);
+  });
+
+  it("rejects incompatible specifications", () => {
+    expect(() =>
+      parseAnnotationPropertySpecs([{ id: "review_status", type: "float32" }]),
+    ).toThrow(/must have type "uint8"/);
+    expect(() =>
+      parseAnnotationPropertySpecs([
+        {
+          id: "review_status",
+          type: "uint8",
+          enum_values: [0, 1],
+          enum_labels: ["a", "b"],
+        },
+      ]),
+    ).toThrow(/must have enum values/);
+  });
+});
+
+describe("setReviewStatus", () => {
+  it("returns an updated copy", () => {
+    const annotation: Point = {
+      id: "a",
+      type: AnnotationType.POINT,
+      point: Float32Array.of(1, 2, 3),
+      properties: [0.5, AnnotationReviewStatus.UNREVIEWED],
+    };
+    const updated = setReviewStatus(
+      annotation,
+      1,
+      AnnotationReviewStatus.REJECTED,
+    );
+    expect(updated.properties).toEqual([0.5, AnnotationReviewStatus.REJECTED]);
+    expect(annotation.properties).toEqual([
+      0.5,
+      AnnotationReviewStatus.UNREVIEWED,
+    ]);
+  });
+});
+
+describe("review queue", () => {
+  const { UNREVIEWED, ACCEPTED, REJECTED, NEEDS_FIX } = AnnotationReviewStatus;
+  const statuses = [ACCEPTED, UNREVIEWED, REJECTED, UNREVIEWED, NEEDS_FIX];
+
+  it("counts statuses", () => {
+    expect(countReviewStatuses(statuses)).toEqual([2, 1, 1, 1]);
+  });
+
+  it("finds the next unreviewed entry", () => {
+    expect(findNextUnreviewed(statuses, -1)).toEqual(1);
+    expect(findNextUnreviewed(statuses, 1)).toEqual(3);
+    expect(findNextUnreviewed(statuses, 3)).toEqual(1);
+    expect(findNextUnreviewed(statuses, 4)).toEqual(1);
+  });
+
+  it("finds the previous unreviewed entry", () => {
+    expect(findNextUnreviewed(statuses, -1, true)).toEqual(3);
+    expect(findNextUnreviewed(statuses, 3, true)).toEqual(1);
+    expect(findNextUnreviewed(statuses, 1, true)).toEqual(3);
+  });
+
+  it("returns -1 when all entries are reviewed", () => {
+    expect(findNextUnreviewed([ACCEPTED, REJECTED], 0)).toEqual(-1);
+    expect(findNextUnreviewed([], -1)).toEqual(-1);
+  });
+});
@@ -0,0 +1,139 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Review status of annotations.
+ *
+ * The review status is stored as an ordinary `uint8` enum property with the reserved identifier
+ * `review_status`, so that it is saved, rendered, and exported along with other properties.
+ */
+
+import type {
+  Annotation,
+  AnnotationNumericPropertySpec,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
+
+export enum AnnotationReviewStatus {
+  UNREVIEWED = 0,
+  ACCEPTED = 1,
+  REJECTED = 2,
+  NEEDS_FIX = 3,
+}
+
+export const REVIEW_STATUS_PROPERTY_ID = "review_status";
+
+export const reviewStatusValues = [
+  AnnotationReviewStatus.UNREVIEWED,
+  AnnotationReviewStatus.ACCEPTED,
+  AnnotationReviewStatus.REJECTED,
+  AnnotationReviewStatus.NEEDS_FIX,
+];
+
+export const reviewStatusLabels = [
+  "unreviewed",
+  "accepted",
+  "rejected",
+  "needs_fix",
+];
+
+export function makeReviewStatusPropertySpec(
+  description?: string,
+): AnnotationNumericPropertySpec {
+  return {
+    type: "uint8",
+    identifier: REVIEW_STATUS_PROPERTY_ID,
+    description,
+    default: AnnotationReviewStatus.UNREVIEWED,
+    enumValues: reviewStatusValues.slice(),
+    enumLabels: reviewStatusLabels.slice(),
+  };
+}
+
+/**
+ * Validates a property spec with the reserved `review_status` identifier, and fills in the enum
+ * values and labels if they are not specified.
+ */
+export function normalizeReviewStatusPropertySpec(
+  spec: AnnotationPropertySpec,
+): AnnotationPropertySpec {
+  if (spec.type !== "uint8") {
+    throw new Error(
+      `Property ${JSON.stringify(REVIEW_STATUS_PROPERTY_ID)} must have type "uint8"`,
+    );
+  }
+  if (
+    spec.enumValues !== undefined &&
+    (spec.enumValues.length !== reviewStatusValues.length ||
+      spec.enumValues.some((value, i) => value !== reviewStatusValues[i]))
+  ) {
+    throw new Error(
+      `Property ${JSON.stringify(REVIEW_STATUS_PROPERTY_ID)} must have enum values ` +
+        JSON.stringify(reviewStatusValues),
+    );
+  }
+  return {
+    ...makeReviewStatusPropertySpec(spec.description),
+    enumLabels: spec.enumLabels ?? reviewStatusLabels.slice(),
+  };
+}
+
+/**
+ * Returns the index of the review status property, or `-1` if there is none.
+ */
+export function getReviewStatusPropertyIndex(
+  properties: readonly Readonly<AnnotationPropertySpec>[],
+) {
+  return properties.findIndex(
+    (property) => property.identifier === REVIEW_STATUS_PROPERTY_ID,
+  );
+}
+
+/**
+ * Returns a copy of `annotation` with the specified review status.
+ */
+export function setReviewStatus(
+  annotation: Annotation,
+  propertyIndex: number,
+  status: AnnotationReviewStatus,
+): Annotation {
+  const properties = annotation.properties.slice();
+  properties[propertyIndex] = status;
+  return { ...annotation, properties };
+}
+
+/**
+ * Returns the number of occurrences of each review status in `statuses`, indexed by status.
+ */
+export function countReviewStatuses(statuses: Iterable<number>): number[] {
+  const counts = reviewStatusValues.map(() => 0);
+  for (const status of statuses) {
+    if (counts[status] !== undefined) ++counts[status];
+  }
+  return counts;
+}
+
+/**
+ * Returns the index of the first unreviewed entry of `statuses` after `startIndex`, wrapping around
+ * to the beginning, or `-1` if there is none.  A `startIndex` of `-1` starts from the beginning.  If
+ * `reverse` is `true`, searches backward instead.
+ */
+export function findNextUnreviewed(
+  statuses: readonly number[],
+  startIndex: number,
+  reverse = false,
+): number {
+  const { length } = statuses;
+  if (length === 0) return -1;
+  const step = reverse ? length - 1 : 1;
+  if (startIndex === -1) startIndex = reverse ? 0 : length - 1;
+  for (let i = 1; i <= length; ++i) {
+    const index = (startIndex + i * step) % length;
+    if (statuses[index] === AnnotationReviewStatus.UNREVIEWED) {
+      return index;
+    }
+  }
+  return -1;
+}
@@ -20,6 +20,7 @@
 import type {
   Annotation,
   AnnotationPropertySpec,
+  AnnotationTagsPropertySpec,
   AnnotationType,
 } from "#src/annotation/index.js";
 import {
@@ -85,7 +86,12 @@ export interface AnnotationRenderContext {
 }
 
 interface AnnotationPropertyTypeRenderHandler {
-  defineShader(builder: ShaderBuilder, identifier: string, rank: number): void;
+  defineShader(
+    builder: ShaderBuilder,
+    identifier: string,
+    rank: number,
+    property?: Readonly<AnnotationPropertySpec>,
+  ): void;
 }
 
 function makeSimplePropertyRenderHandler(
@@ -171,6 +177,35 @@ function makeIntegerPropertyRenderHandler(
   );
 }
 
+function makeTagsPropertyRenderHandler(): AnnotationPropertyTypeRenderHandler {
+  const base = makeIntegerPropertyRenderHandler(
+    "highp uint",
+    1,
+    WebGL2RenderingContext.UNSIGNED_INT,
+  );
+  return {
+    defineShader(builder, identifier, _rank, property) {
+      base.defineShader(builder, identifier);
+      const propName = `prop_${identifier}`;
+      let code = `
+bool ${propName}_has(highp uint tag) {
+  return tag < 32u && (${propName}() & (1u << tag)) != 0u;
+}
+bool ${propName}_has(highp int tag) {
+  return tag >= 0 && ${propName}_has(uint(tag));
+}
+`;
+      const { tags } = property as AnnotationTagsPropertySpec;
+      tags.forEach((tag, i) => {
+        // Tags that are not valid identifiers are accessible only by index.
+        if (!tag.match(/^[a-zA-Z0-9_]+$/)) return;
+        code += `#define ${propName}_${tag} ${i}u\n`;
+      });
+      builder.addVertexCode(code);
+    },
+  };
+}
+
 const annotationPropertyTypeRenderHandlers: {
   [K in AnnotationPropertySpec["type"]]: AnnotationPropertyTypeRenderHandler;
 } = {
@@ -222,6 +257,14 @@ const annotationPropertyTypeRenderHandlers: {
     1,
     WebGL2RenderingContext.BYTE,
   ),
+  string: {
+    defineShader(_builder, identifier) {
+      throw new Error(
+        `String property ${JSON.stringify(identifier)} cannot be accessed from the shader`,
+      );
+    },
+  },
+  tags: makeTagsPropertyRenderHandler(),
 };
 
 class AnnotationRenderHelperBase extends RefCounted {
@@ -272,7 +315,7 @@ class AnnotationRenderHelperBase extends RefCounted {
     for (const i of referencedProperties) {
       const property = properties[i];
       const handler = annotationPropertyTypeRenderHandlers[property.type];
-      handler.defineShader(builder, property.identifier, rank);
+      handler.defineShader(builder, property.identifier, rank, property);
     }
     const { propertyOffsets } = this;
     const { propertyGroupBytes, propertyGroupCumulativeBytes } = this;
@@ -311,8 +354,8 @@ class AnnotationRenderHelperBase extends RefCounted {
 }
 
 export abstract class AnnotationRenderHelper extends AnnotationRenderHelperBase {
-  staticPickIdsPerInstance: number|null;
-  pickIdsPerInstance: (annotations: Annotation[]) => number[];
+  staticPickIdsPerInstance: number | null;
+  pickIdsPerInstance: (primitiveCounts: number[]) => number[];
   targetIsSliceView: boolean;
 
   constructor(
@@ -358,9 +401,13 @@ export abstract class AnnotationRenderHelper extends AnnotationRenderHelperBase
         ) {
           const property = properties[i];
           const functionName = `prop_${property.identifier}`;
+          const pattern =
+            property.type === "tags"
+              ? `\\b${functionName}(?:_\\w+)?\\b`
+              : `\\b${functionName}\\b`;
           if (
             !controlsReferencedProperties.includes(property.identifier) &&
-            !processedCode.match(new RegExp(`\\b${functionName}\\b`))
+            !processedCode.match(new RegExp(pattern))
           ) {
             continue;
           }
@@ -476,6 +523,14 @@ void setBoundingBoxBorderColor(vec4 color);
 void setBoundingBoxBorderWidth(float size);
 void setBoundingBoxFillColor(vec4 color);
 
+void setPolygonEdgeColor(vec4 color);
+void setPolygonEdgeWidth(float width);
+void setPolygonFillColor(vec4 color);
+void setPolygonVertexMarkerColor(vec4 color);
+void setPolygonVertexMarkerBorderColor(vec4 color);
+void setPolygonVertexMarkerSize(float size);
+void setPolygonVertexMarkerBorderWidth(float size);
+
 void setEndpointMarkerColor(vec3 startColor, vec3 endColor) {
   setEndpointMarkerColor(vec4(startColor, 1.0), vec4(endColor, 1.0));
 }
@@ -519,12 +574,20 @@ void setColor(vec4 color) {
   setControlPointMarkerColor(color);
   setBoundingBoxBorderColor(color);
   setEllipsoidFillColor(vec4(color.rgb, color.a * (PROJECTION_VIEW ? 1.0 : 0.5)));
+  setPolygonEdgeColor(color);
+  setPolygonVertexMarkerColor(color);
+  setPolygonFillColor(vec4(color.rgb, color.a * 0.3));
 }
 void setEllipsoidFillColor(vec3 color) { setEllipsoidFillColor(vec4(color, 1.0)); }
 
 void setBoundingBoxFillColor(vec3 color) { setBoundingBoxFillColor(vec4(color, 1.0)); }
 void setBoundingBoxBorderColor(vec3 color) { setBoundingBoxBorderColor(vec4(color, 1.0)); }
 
+void setPolygonEdgeColor(vec3 color) { setPolygonEdgeColor(vec4(color, 1.0)); }
+void setPolygonFillColor(vec3 color) { setPolygonFillColor(vec4(color, 1.0)); }
+void setPolygonVertexMarkerColor(vec3 color) { setPolygonVertexMarkerColor(vec4(color, 1.0)); }
+void setPolygonVertexMarkerBorderColor(vec3 color) { setPolygonVertexMarkerBorderColor(vec4(color, 1.0)); }
+
 void setColor(vec3 color) { setColor(vec4(color, 1.0)); }
 void userMain();
 `);
@@ -788,15 +851,16 @@ interface AnnotationTypeRenderHandler<T extends Annotation> {
   defineShaderNoOpSetters: (builder: ShaderBuilder) => void;
   perspectiveViewRenderHelper: AnnotationRenderHelperConstructor;
   sliceViewRenderHelper: AnnotationRenderHelperConstructor;
-  bytes: (annotation: T) => number;
-  pickIdsPerInstance(
-    annotations: Annotation[]
-  ): number[];
-  staticPickIdsPerInstance: null|number;
+  /**
+   * Returns the number of pick ids used by each annotation, given the number of primitives (GPU
+   * instances) of each annotation.
+   */
+  pickIdsPerInstance(primitiveCounts: number[]): number[];
+  staticPickIdsPerInstance: null | number;
   assignPickingInformation(
     mouseState: MouseSelectionState,
     pickIds: number[],
-    pickedOffset: number
+    pickedOffset: number,
   ): void;
   getRepresentativePoint(
     out: Float32Array,
@@ -808,11 +872,18 @@ interface AnnotationTypeRenderHandler<T extends Annotation> {
     position: Float32Array,
     partIndex: number,
   ): T;
+  /**
+   * Snaps `position` to the picked part of an annotation.  `offset` is the byte offset in `data`
+   * of the first primitive of the annotation, `stride` is the number of bytes between consecutive
+   * primitives, and `primitiveCount` is the number of primitives of the annotation.
+   */
   snapPosition(
     position: Float32Array,
     data: ArrayBuffer,
     offset: number,
     partIndex: number,
+    stride: number,
+    primitiveCount: number,
   ): void;
 }
 
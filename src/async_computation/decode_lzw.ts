@@ -0,0 +1,21 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Decodes TIFF LZW-compressed data in the async computation worker.
+ */
+
+import { decodeLzw } from "#src/async_computation/decode_lzw_request.js";
+import { registerAsyncComputation } from "#src/async_computation/handler.js";
+import { decodeLzw as decodeLzwData } from "#src/util/lzw.js";
+
+registerAsyncComputation(
+  decodeLzw,
+  async (data: Uint8Array, outputSize: number) => {
+    // Copy the result, which may be a view of a larger buffer, so that only it is transferred.
+    const result = decodeLzwData(data, outputSize).slice();
+    return { value: result, transfer: [result.buffer] };
+  },
+);
@@ -0,0 +1,15 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Request for decoding TIFF LZW-compressed data.
+ */
+
+import { asyncComputation } from "#src/async_computation/index.js";
+
+export const decodeLzw =
+  asyncComputation<(data: Uint8Array, outputSize: number) => Uint8Array>(
+    "decodeLzw",
+  );
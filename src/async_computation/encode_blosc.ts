@@ -0,0 +1,33 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Handler for blosc compression requests.
+ */
+
+import { encodeBlosc } from "#src/async_computation/encode_blosc_request.js";
+import { registerAsyncComputation } from "#src/async_computation/handler.js";
+
+registerAsyncComputation(
+  encodeBlosc,
+  async (
+    data: Uint8Array,
+    cname: string,
+    clevel: number,
+    shuffle: number,
+    blocksize: number,
+  ) => {
+    const { default: Blosc } = await import("numcodecs/blosc");
+    const codec = Blosc.fromConfig({
+      id: "blosc",
+      cname,
+      clevel,
+      shuffle,
+      blocksize,
+    });
+    const result = await codec.encode(data);
+    return { value: result, transfer: [result.buffer] };
+  },
+);
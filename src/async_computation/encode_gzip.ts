@@ -0,0 +1,23 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Handler for gzip or zlib compression requests.
+ */
+
+import pako from "pako";
+import { encodeGzip } from "#src/async_computation/encode_gzip_request.js";
+import { registerAsyncComputation } from "#src/async_computation/handler.js";
+
+registerAsyncComputation(
+  encodeGzip,
+  async (data: Uint8Array, level: number, zlib: boolean) => {
+    const options = { level: level as pako.DeflateOptions["level"] };
+    const result = zlib
+      ? pako.deflate(data, options)
+      : pako.gzip(data, options);
+    return { value: result, transfer: [result.buffer] };
+  },
+);
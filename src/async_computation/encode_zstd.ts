@@ -0,0 +1,21 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Handler for zstd compression requests.
+ */
+
+import { encodeZstd } from "#src/async_computation/encode_zstd_request.js";
+import { registerAsyncComputation } from "#src/async_computation/handler.js";
+
+registerAsyncComputation(
+  encodeZstd,
+  async (data: Uint8Array, level: number) => {
+    const { default: Zstd } = await import("numcodecs/zstd");
+    const codec = Zstd.fromConfig({ id: "zstd", level });
+    const result = await codec.encode(data);
+    return { value: result, transfer: [result.buffer] };
+  },
+);
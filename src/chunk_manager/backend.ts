@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { throttle } from "lodash-es";
@@ -50,6 +53,7 @@ import type {
   ComparisonFunction,
   PairingHeapOperations,
 } from "#src/util/pairing_heap.js";
+import { persistentCache } from "#src/util/persistent_cache.js";
 import { NullarySignal } from "#src/util/signal.js";
 import type { RPC } from "#src/worker_rpc.js";
 import {
@@ -655,6 +659,8 @@ export class ChunkQueueManager extends SharedObjectCounterpart {
 
   enablePrefetch: SharedWatchableValue<boolean>;
 
+  persistentCacheSizeLimit: SharedWatchableValue<number>;
+
   /**
    * Set of chunk sources associated with this queue manager.
    */
@@ -732,6 +738,14 @@ export class ChunkQueueManager extends SharedObjectCounterpart {
     this.gpuMemoryCapacity = getCapacity(options.gpuMemoryCapacity);
     this.systemMemoryCapacity = getCapacity(options.systemMemoryCapacity);
     this.enablePrefetch = rpc.get(options.enablePrefetch);
+    this.persistentCacheSizeLimit = rpc.get(options.persistentCacheSizeLimit);
+    const updatePersistentCacheSizeLimit = () => {
+      persistentCache.sizeLimit = this.persistentCacheSizeLimit.value;
+    };
+    updatePersistentCacheSizeLimit();
+    this.registerDisposer(
+      this.persistentCacheSizeLimit.changed.add(updatePersistentCacheSizeLimit),
+    );
     this.downloadCapacity = [
       getCapacity(options.downloadCapacity),
       getCapacity(options.downloadCapacity),
@@ -1107,6 +1121,29 @@ export class ChunkQueueManager extends SharedObjectCounterpart {
     this.rpc!.invoke("Chunk.update", { source: source.rpcId });
     this.scheduleUpdate();
   }
+
+  /**
+   * Like `invalidateSourceCache`, but only invalidates a single chunk.
+   */
+  invalidateChunk(chunk: Chunk) {
+    switch (chunk.state) {
+      case ChunkState.DOWNLOADING:
+        cancelChunkDownload(chunk);
+        break;
+      case ChunkState.SYSTEM_MEMORY_WORKER:
+        chunk.freeSystemMemory();
+        break;
+      case ChunkState.SYSTEM_MEMORY:
+      case ChunkState.GPU_MEMORY:
+        this.rpc!.invoke("Chunk.update", {
+          id: chunk.key,
+          state: ChunkState.EXPIRED,
+          source: chunk.source!.rpcId,
+        });
+        break;
+    }
+    this.updateChunkState(chunk, ChunkState.QUEUED);
+  }
 }
 
 export class ChunkRenderLayerBackend
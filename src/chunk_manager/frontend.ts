@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type {
@@ -114,6 +117,12 @@ export class ChunkQueueManager extends SharedObject {
 
   enablePrefetch = new TrackableBoolean(true, true);
 
+  /**
+   * Size limit in bytes of the persistent cache of downloaded chunk data.  A value of 0 disables
+   * the persistent cache.
+   */
+  persistentCacheSizeLimit = new TrackableValue<number>(0, validateLimitValue);
+
   constructor(
     rpc: RPC,
     public gl: GL,
@@ -146,6 +155,12 @@ export class ChunkQueueManager extends SharedObject {
       enablePrefetch: this.registerDisposer(
         SharedWatchableValue.makeFromExisting(rpc, this.enablePrefetch),
       ).rpcId,
+      persistentCacheSizeLimit: this.registerDisposer(
+        SharedWatchableValue.makeFromExisting(
+          rpc,
+          this.persistentCacheSizeLimit,
+        ),
+      ).rpcId,
     });
   }
 
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 /**
@@ -32,6 +35,11 @@ import type { Borrowed, Owned } from "#src/util/disposable.js";
 import { responseArrayBuffer } from "#src/util/http_request.js";
 import { stableStringify } from "#src/util/json.js";
 import { getObjectId } from "#src/util/object_id.js";
+import {
+  isPinned,
+  persistentCache,
+  recordResponseKeys,
+} from "#src/util/persistent_cache.js";
 import type { SpecialProtocolCredentialsProvider } from "#src/util/special_protocol_request.js";
 import { cancellableFetchSpecialOk } from "#src/util/special_protocol_request.js";
 
@@ -40,6 +48,19 @@ export type PriorityGetter = () => {
   priority: number;
 };
 
+/**
+ * Returns the value of `promise`, once the responses from which the value of `chunk` was derived
+ * are pinned in the persistent cache.
+ */
+async function pinResponsesOfValue<Data>(
+  promise: Promise<Data>,
+  chunk: { responseKeys: Set<string> },
+) {
+  const value = await promise;
+  await persistentCache.pin(chunk.responseKeys);
+  return value;
+}
+
 interface FileDataRequester<Data> {
   resolve: (data: Data) => void;
   reject: (error: any) => void;
@@ -50,6 +71,8 @@ class GenericSharedDataChunk<Key, Data> extends Chunk {
   decodedKey?: Key;
   data?: Data;
   requesters?: Set<FileDataRequester<Data>>;
+  // Persistent cache keys of the responses from which `data` was derived.
+  responseKeys = new Set<string>();
 
   initialize(key: string) {
     super.initialize(key);
@@ -141,6 +164,8 @@ export class GenericSharedDataSource<Key, Data> extends ChunkSourceBase {
     chunk: GenericSharedDataChunk<Key, Data>,
     cancellationToken: CancellationToken,
   ) {
+    chunk.responseKeys = new Set();
+    recordResponseKeys(cancellationToken, chunk.responseKeys);
     const { size, data } = await this.downloadFunction(
       chunk.decodedKey!,
       cancellationToken,
@@ -167,7 +192,7 @@ export class GenericSharedDataSource<Key, Data> extends ChunkSourceBase {
       chunk.initialize(encodedKey);
       this.addChunk(chunk);
     }
-    return makeCancelablePromise<Data>(
+    const promise = makeCancelablePromise<Data>(
       cancellationToken,
       (resolve, reject, token) => {
         // If the data is already available or the request has already failed, resolve/reject the
@@ -198,6 +223,10 @@ export class GenericSharedDataSource<Key, Data> extends ChunkSourceBase {
         this.chunkManager.scheduleUpdateChunkPriorities();
       },
     );
+    if (isPinned(cancellationToken)) {
+      return pinResponsesOfValue(promise, chunk);
+    }
+    return promise;
   }
 
   static get<Key, Data>(
@@ -263,6 +292,8 @@ export class GenericSharedDataSource<Key, Data> extends ChunkSourceBase {
 class AsyncCacheChunk<Data> extends Chunk {
   promise: Promise<Data> | undefined;
   cancellationSource: MultipleConsumerCancellationTokenSource | undefined;
+  // Persistent cache keys of the responses from which the value was derived.
+  responseKeys = new Set<string>();
 
   initialize(key: string) {
     super.initialize(key);
@@ -312,6 +343,8 @@ export class SimpleAsyncCache<Key, Value> extends ChunkSourceBase {
       let completed = false;
       const cancellationSource = (chunk!.cancellationSource =
         new MultipleConsumerCancellationTokenSource());
+      chunk.responseKeys = new Set();
+      recordResponseKeys(cancellationSource, chunk.responseKeys);
       cancellationSource.add(() => {
         if (!completed) {
           chunk!.promise = undefined;
@@ -338,8 +371,21 @@ export class SimpleAsyncCache<Key, Value> extends ChunkSourceBase {
       })();
     }
     chunk.cancellationSource!.addConsumer(cancellationToken);
+    if (isPinned(cancellationToken)) {
+      return pinResponsesOfValue(chunk.promise, chunk);
+    }
     return chunk.promise;
   }
+
+  /**
+   * Discards the cached value for `key`, if any, such that it is retrieved again by the next call
+   * to `get`.
+   */
+  invalidate(key: Key) {
+    const chunk = this.chunks.get(this.encodeKeyFunction(key));
+    if (chunk === undefined) return;
+    chunk.freeSystemMemory();
+  }
 }
 
 export function makeSimpleAsyncCache<Key, Data>(
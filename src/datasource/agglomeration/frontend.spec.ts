@@ -0,0 +1,143 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the agglomeration segmentation graph.
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { EquivalenceTable } from "#src/datasource/agglomeration/frontend.js";
+import {
+  AgglomerationGraphSource,
+  parseEquivalenceTable,
+} from "#src/datasource/agglomeration/frontend.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+const url = "https://example.com/table";
+
+const u64 = (x: number) => new Uint64(x);
+
+// Minimal in-memory implementation of the equivalence table protocol.
+function serveTable(table: EquivalenceTable) {
+  const requests: any[] = [];
+  vi.stubGlobal("fetch", async (_input: string, init: RequestInit = {}) => {
+    if (init.method !== "POST") {
+      return new Response(JSON.stringify(table));
+    }
+    const request = JSON.parse(init.body as string);
+    requests.push(request);
+    if (request.generation !== table.generation) {
+      return new Response(JSON.stringify(table), { status: 409 });
+    }
+    const removed = new Set(
+      request.remove.map((edge: string[]) => edge.join()),
+    );
+    table.edges = [
+      ...table.edges.filter((edge) => !removed.has(edge.join())),
+      ...request.add,
+    ];
+    ++table.generation;
+    return new Response(JSON.stringify({ generation: table.generation }));
+  });
+  return requests;
+}
+
+describe("parseEquivalenceTable", () => {
+  it("rejects edges that are not pairs", () => {
+    expect(() =>
+      parseEquivalenceTable({ generation: 0, edges: [["1", "2", "3"]] }),
+    ).toThrow(/pair of segment ids/);
+  });
+});
+
+describe("AgglomerationGraphSource", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends merges and splits to the server", async () => {
+    const table = { generation: 5, edges: [] };
+    const requests = serveTable(table);
+    const graph = new AgglomerationGraphSource(url, table);
+    await graph.merge(u64(1), u64(2));
+    await graph.merge(u64(2), u64(3));
+    // Already merged.
+    await graph.merge(u64(1), u64(3));
+    await graph.split(u64(1), u64(3));
+    await graph.writeUpdates();
+    expect(requests).toEqual([
+      { generation: 5, add: [["1", "2"]], remove: [] },
+      { generation: 6, add: [["2", "3"]], remove: [] },
+      { generation: 7, add: [], remove: [["2", "3"]] },
+    ]);
+    expect(graph.generation).toBe(8);
+    expect(graph.numPendingUpdates).toBe(0);
+    expect(table.edges).toEqual([["1", "2"]]);
+  });
+
+  it("discards local changes that conflict with the server", async () => {
+    const graph = new AgglomerationGraphSource(url, {
+      generation: 0,
+      edges: [],
+    });
+    const table = { generation: 1, edges: [["4", "5"]] as [string, string][] };
+    const requests = serveTable(table);
+    const reportError = vi
+      .spyOn(graph, "reportError")
+      .mockImplementation(() => {});
+    await graph.merge(u64(1), u64(2));
+    // Applied optimistically.
+    expect(graph.toJSON()).toEqual([["1", "2"]]);
+    await graph.writeUpdates();
+    expect(requests).toEqual([
+      { generation: 0, add: [["1", "2"]], remove: [] },
+    ]);
+    expect(reportError).toHaveBeenCalledWith(
+      `Equivalences at ${url} were modified by another user; discarded 1 local change(s)`,
+    );
+    expect(graph.generation).toBe(1);
+    expect(graph.toJSON()).toEqual([["4", "5"]]);
+    expect(table.edges).toEqual([["4", "5"]]);
+
+    // Subsequent changes are based on the reloaded table.
+    await graph.merge(u64(5), u64(6));
+    await graph.writeUpdates();
+    expect(table.edges).toEqual([
+      ["4", "5"],
+      ["5", "6"],
+    ]);
+  });
+
+  it("reverts to the server table if it cannot be reloaded", async () => {
+    const table = { generation: 0, edges: [["1", "2"]] as [string, string][] };
+    const requests = serveTable(table);
+    const graph = new AgglomerationGraphSource(url, table);
+    const reportError = vi
+      .spyOn(graph, "reportError")
+      .mockImplementation(() => {});
+    await graph.merge(u64(2), u64(3));
+    await graph.writeUpdates();
+    vi.stubGlobal("fetch", async () => new Response("", { status: 500 }));
+    await graph.merge(u64(3), u64(4));
+    expect(graph.toJSON()).toEqual([
+      ["1", "2"],
+      ["2", "3"],
+      ["3", "4"],
+    ]);
+    await graph.writeUpdates();
+    expect(requests.length).toBe(1);
+    expect(reportError).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^Failed to load equivalences.*discarded 1 local change\(s\)$/,
+      ),
+    );
+    expect(graph.numPendingUpdates).toBe(0);
+    expect(graph.generation).toBe(1);
+    expect(graph.toJSON()).toEqual([
+      ["1", "2"],
+      ["2", "3"],
+    ]);
+  });
+});
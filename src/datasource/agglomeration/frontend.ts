@@ -0,0 +1,268 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Segmentation graph stored in an equivalence table on an HTTP server.
+ */
+
+import {
+  emptyValidCoordinateSpace,
+  makeIdentityTransform,
+} from "#src/coordinate_transform.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import { LocalSegmentationGraphSource } from "#src/segmentation_graph/local.js";
+import { StatusMessage } from "#src/status.js";
+import {
+  cancellableFetchOk,
+  HttpError,
+  responseJson,
+} from "#src/util/http_request.js";
+import {
+  parseArray,
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
+import type { Uint64 } from "#src/util/uint64.js";
+
+const urlPattern = /^https?:\/\/[^/]+/;
+
+/// Spanning tree edge, as a pair of base-10 segment ids.
+type EquivalenceEdge = [string, string];
+
+export interface EquivalenceTable {
+  /**
+   * Incremented by the server each time the table is modified.
+   */
+  generation: number;
+  edges: EquivalenceEdge[];
+}
+
+export interface EquivalenceTableUpdate {
+  add: EquivalenceEdge[];
+  remove: EquivalenceEdge[];
+}
+
+export function parseEquivalenceTable(obj: unknown): EquivalenceTable {
+  verifyObject(obj);
+  return {
+    generation: verifyObjectProperty(obj, "generation", verifyInt),
+    edges: verifyObjectProperty(obj, "edges", (x) =>
+      parseArray(x, (edge) => {
+        const ids = parseArray(edge, verifyString);
+        if (ids.length !== 2) {
+          throw new Error(
+            `Expected pair of segment ids, but received: ${JSON.stringify(edge)}`,
+          );
+        }
+        return ids as EquivalenceEdge;
+      }),
+    ),
+  };
+}
+
+function fetchEquivalenceTable(url: string) {
+  return cancellableFetchOk(url, {}, async (response) =>
+    parseEquivalenceTable(await responseJson(response)),
+  );
+}
+
+function getEdgeKeys(graph: LocalSegmentationGraphSource) {
+  return new Set((graph.toJSON() ?? []).map((edge) => edge.join()));
+}
+
+function getEdgesNotIn(a: Set<string>, b: Set<string>) {
+  const edges: EquivalenceEdge[] = [];
+  for (const key of a) {
+    if (!b.has(key)) edges.push(key.split(",") as EquivalenceEdge);
+  }
+  return edges;
+}
+
+/**
+ * Segmentation graph whose spanning tree edges are stored on an HTTP server.
+ *
+ * Merges and splits are applied locally as soon as they are requested, and then sent to the server
+ * in order.  Each update specifies the generation of the table on which it is based; if the table
+ * has since been modified by another client, the server rejects the update, and all local changes
+ * not yet accepted by the server are discarded in favor of the current server state.
+ */
+export class AgglomerationGraphSource extends LocalSegmentationGraphSource {
+  generation: number;
+  // Keys of the edges of the table as last known to be stored on the server, i.e. without
+  // `pendingUpdates`.
+  private serverEdges: Set<string>;
+  private pendingUpdates: EquivalenceTableUpdate[] = [];
+  private writePromise: Promise<void> | undefined;
+
+  constructor(
+    public url: string,
+    table: EquivalenceTable,
+  ) {
+    super();
+    this.restoreState(table.edges);
+    this.generation = table.generation;
+    this.serverEdges = getEdgeKeys(this);
+  }
+
+  get numPendingUpdates() {
+    return this.pendingUpdates.length;
+  }
+
+  async merge(a: Uint64, b: Uint64): Promise<Uint64> {
+    const before = getEdgeKeys(this);
+    const result = await super.merge(a, b);
+    this.queueUpdate(before);
+    return result;
+  }
+
+  async split(
+    include: Uint64,
+    exclude: Uint64,
+  ): Promise<{ include: Uint64; exclude: Uint64 }> {
+    const before = getEdgeKeys(this);
+    const result = await super.split(include, exclude);
+    this.queueUpdate(before);
+    return result;
+  }
+
+  /**
+   * Displays an error encountered while saving changes.
+   */
+  reportError(message: string) {
+    StatusMessage.showTemporaryMessage(message, 10000);
+  }
+
+  private queueUpdate(before: Set<string>) {
+    const after = getEdgeKeys(this);
+    const update = {
+      add: getEdgesNotIn(after, before),
+      remove: getEdgesNotIn(before, after),
+    };
+    if (update.add.length === 0 && update.remove.length === 0) return;
+    this.pendingUpdates.push(update);
+    this.writeUpdates();
+  }
+
+  /**
+   * Sends pending updates to the server one at a time.  The returned promise is resolved once there
+   * are no more pending updates.
+   */
+  writeUpdates(): Promise<void> {
+    if (this.writePromise === undefined) {
+      this.writePromise = (async () => {
+        try {
+          const { pendingUpdates } = this;
+          while (pendingUpdates.length > 0) {
+            const update = pendingUpdates[0];
+            try {
+              this.generation = await cancellableFetchOk(
+                this.url,
+                {
+                  method: "POST",
+                  headers: { "Content-Type": "application/json" },
+                  body: JSON.stringify({
+                    generation: this.generation,
+                    ...update,
+                  }),
+                },
+                async (response) =>
+                  verifyObjectProperty(
+                    await responseJson(response),
+                    "generation",
+                    verifyInt,
+                  ),
+              );
+              pendingUpdates.shift();
+              const { serverEdges } = this;
+              for (const edge of update.remove) serverEdges.delete(edge.join());
+              for (const edge of update.add) serverEdges.add(edge.join());
+            } catch (e) {
+              await this.handleWriteError(e);
+            }
+          }
+        } finally {
+          this.writePromise = undefined;
+        }
+      })();
+    }
+    return this.writePromise;
+  }
+
+  private async handleWriteError(error: unknown) {
+    const { pendingUpdates } = this;
+    let table: EquivalenceTable | undefined;
+    let message: string;
+    try {
+      if (
+        error instanceof HttpError &&
+        error.status === 409 &&
+        error.response !== undefined
+      ) {
+        message = `Equivalences at ${this.url} were modified by another user`;
+        table = parseEquivalenceTable(await error.response.json());
+      } else {
+        message = `Failed to save equivalences to ${this.url}: ${error}`;
+        table = await fetchEquivalenceTable(this.url);
+      }
+    } catch (e) {
+      message = `Failed to load equivalences from ${this.url}: ${e}`;
+    }
+    // Local changes made while the table was being reloaded are discarded as well.
+    message += `; discarded ${pendingUpdates.length} local change(s)`;
+    pendingUpdates.length = 0;
+    if (table !== undefined) {
+      this.generation = table.generation;
+      this.assignState(table.edges);
+      this.serverEdges = getEdgeKeys(this);
+    } else {
+      // Revert to the last table known to be stored on the server, so that the displayed
+      // equivalences do not include the discarded changes.
+      this.assignState(Array.from(this.serverEdges, (key) => key.split(",")));
+    }
+    this.reportError(message);
+  }
+}
+
+export class AgglomerationDataSource extends DataSourceProvider {
+  get description() {
+    return "Segment equivalences stored on an HTTP server";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const { providerUrl } = options;
+    if (providerUrl.match(urlPattern) === null) {
+      throw new Error(
+        `Invalid agglomeration url: ${JSON.stringify(providerUrl)}`,
+      );
+    }
+    return options.chunkManager.memoize.getUncounted(
+      { type: "agglomeration:get", url: providerUrl },
+      async (): Promise<DataSource> => {
+        const table = await fetchEquivalenceTable(providerUrl);
+        const segmentationGraph = new AgglomerationGraphSource(
+          providerUrl,
+          table,
+        );
+        return {
+          modelTransform: makeIdentityTransform(emptyValidCoordinateSpace),
+          canChangeModelSpaceRank: false,
+          subsources: [
+            {
+              id: "graph",
+              default: true,
+              subsource: { segmentationGraph },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
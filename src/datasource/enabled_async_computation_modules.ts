@@ -4,10 +4,12 @@ import "#datasource/brainmaps/async_computation";
 import "#datasource/deepzoom/async_computation";
 import "#datasource/dvid/async_computation";
 import "#datasource/graphene/async_computation";
+import "#datasource/hdf5/async_computation";
 import "#datasource/n5/async_computation";
 import "#datasource/nifti/async_computation";
 import "#datasource/obj/async_computation";
 import "#datasource/precomputed/async_computation";
 import "#datasource/render/async_computation";
+import "#datasource/tiff/async_computation";
 import "#datasource/vtk/async_computation";
 import "#datasource/zarr/async_computation";
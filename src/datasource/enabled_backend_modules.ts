@@ -4,6 +4,7 @@ import "#datasource/brainmaps/backend";
 import "#datasource/deepzoom/backend";
 import "#datasource/dvid/backend";
 import "#datasource/graphene/backend";
+import "#datasource/hdf5/backend";
 import "#datasource/n5/backend";
 import "#datasource/nggraph/backend";
 import "#datasource/nifti/backend";
@@ -11,5 +12,6 @@ import "#datasource/obj/backend";
 import "#datasource/precomputed/backend";
 import "#datasource/python/backend";
 import "#datasource/render/backend";
+import "#datasource/tiff/backend";
 import "#datasource/vtk/backend";
 import "#datasource/zarr/backend";
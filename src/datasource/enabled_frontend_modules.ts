@@ -1,4 +1,5 @@
 // DO NOT EDIT: Generated by config/update_conditions.ts
+import "#datasource/agglomeration/register_default";
 import "#datasource/boss/register_default";
 import "#datasource/boss/register_credentials_provider";
 import "#datasource/brainmaps/register_default";
@@ -7,6 +8,7 @@ import "#datasource/deepzoom/register_default";
 import "#datasource/dvid/register_default";
 import "#datasource/dvid/register_credentials_provider";
 import "#datasource/graphene/register_default";
+import "#datasource/hdf5/register_default";
 import "#datasource/middleauth/register_credentials_provider";
 import "#datasource/n5/register_default";
 import "#datasource/ngauth/register_credentials_provider";
@@ -15,5 +17,6 @@ import "#datasource/nifti/register_default";
 import "#datasource/obj/register_default";
 import "#datasource/precomputed/register_default";
 import "#datasource/render/register_default";
+import "#datasource/tiff/register_default";
 import "#datasource/vtk/register_default";
 import "#datasource/zarr/register_default";
@@ -0,0 +1 @@
+import "#src/async_computation/decode_gzip.js";
@@ -0,0 +1,100 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Backend chunk source for HDF5 datasets.
+ */
+
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { WithSharedCredentialsProviderCounterpart } from "#src/credentials_provider/shared_counterpart.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/hdf5/base.js";
+import { decodeChunk } from "#src/datasource/hdf5/decode.js";
+import { Hdf5File } from "#src/datasource/hdf5/file.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import { decodeRawChunk } from "#src/sliceview/backend_chunk_decoders/raw.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { Endianness } from "#src/util/endian.js";
+import type { SpecialProtocolCredentials } from "#src/util/special_protocol_request.js";
+import { registerSharedObject } from "#src/worker_rpc.js";
+
+@registerSharedObject()
+export class Hdf5VolumeChunkSource extends WithParameters(
+  WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
+    VolumeChunkSource,
+  ),
+  VolumeChunkSourceParameters,
+) {
+  private file = Hdf5File.forDataset(
+    getSpecialProtocolKvStore(this.credentialsProvider, this.parameters.url),
+    "",
+    this.parameters.dataset,
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { dataset } = this.parameters;
+    const { file } = this;
+    const { chunkGridPosition } = chunk;
+    const { chunkDataSize } = this.spec;
+    const rank = this.spec.rank;
+    const elementSize = dataset.datatype.size;
+    let data: Uint8Array;
+    if (dataset.layout.type === "chunked") {
+      chunk.chunkDataSize = chunkDataSize;
+      // Chunk grid positions are in Fortran order, while HDF5 chunk indices are in C order.
+      const chunkIndices = new Array<number>(rank);
+      for (let i = 0; i < rank; ++i) {
+        chunkIndices[i] = chunkGridPosition[rank - 1 - i];
+      }
+      const hdf5Chunk = await file.getChunk(
+        dataset,
+        chunkIndices,
+        cancellationToken,
+      );
+      if (hdf5Chunk === undefined) return;
+      data = await decodeChunk(
+        dataset.filters,
+        elementSize,
+        await file.readChunk(hdf5Chunk, cancellationToken),
+        hdf5Chunk.filterMask,
+        cancellationToken,
+      );
+    } else {
+      // Each chunk of a contiguous dataset is a slab along the first (slowest varying) HDF5
+      // dimension, which is the last chunk dimension.
+      const slabSize = chunkDataSize[rank - 1];
+      const start = chunkGridPosition[rank - 1] * slabSize;
+      const size = Math.min(slabSize, dataset.shape[0] - start);
+      const sliceBytes = dataset.shape
+        .slice(1)
+        .reduce((a, b) => a * b, elementSize);
+      if (size !== slabSize) {
+        const partialDataSize = chunkDataSize.slice();
+        partialDataSize[rank - 1] = size;
+        chunk.chunkDataSize = partialDataSize;
+      } else {
+        chunk.chunkDataSize = chunkDataSize;
+      }
+      data = await file.readContiguous(
+        dataset,
+        start * sliceBytes,
+        size * sliceBytes,
+        cancellationToken,
+      );
+    }
+    if (data.byteOffset !== 0 || data.byteLength !== data.buffer.byteLength) {
+      // Copy data that may be misaligned or shared with cached file data, since it is converted in
+      // place.
+      data = data.slice();
+    }
+    await decodeRawChunk(
+      chunk,
+      cancellationToken,
+      data.buffer,
+      dataset.datatype.littleEndian ? Endianness.LITTLE : Endianness.BIG,
+    );
+  }
+}
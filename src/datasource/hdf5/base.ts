@@ -0,0 +1,16 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Parameters shared between the frontend and backend HDF5 data sources.
+ */
+
+import type { Hdf5DatasetInfo } from "#src/datasource/hdf5/file.js";
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  dataset: Hdf5DatasetInfo;
+  static RPC_ID = "hdf5/VolumeChunkSource";
+}
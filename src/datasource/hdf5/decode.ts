@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Decoding of HDF5 chunks and conversion of HDF5 datatypes.
+ */
+
+import { decodeGzip } from "#src/async_computation/decode_gzip_request.js";
+import { requestAsyncComputation } from "#src/async_computation/request.js";
+import type {
+  Hdf5Datatype,
+  Hdf5FilterInfo,
+} from "#src/datasource/hdf5/file.js";
+import { Hdf5DatatypeClass, Hdf5Filter } from "#src/datasource/hdf5/file.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+
+/**
+ * Reverses the HDF5 shuffle filter, which stores the `i`th byte of every element contiguously.
+ */
+export function unshuffle(data: Uint8Array, elementSize: number): Uint8Array {
+  if (elementSize <= 1) return data;
+  const numElements = Math.floor(data.length / elementSize);
+  const output = new Uint8Array(data.length);
+  for (let byte = 0; byte < elementSize; ++byte) {
+    const inputOffset = byte * numElements;
+    for (let i = 0; i < numElements; ++i) {
+      output[i * elementSize + byte] = data[inputOffset + i];
+    }
+  }
+  // Any trailing bytes that do not form a complete element are not shuffled.
+  output.set(
+    data.subarray(numElements * elementSize),
+    numElements * elementSize,
+  );
+  return output;
+}
+
+/**
+ * Reverses the filter pipeline of a chunk.  Filters whose bit is set in `filterMask` were not
+ * applied to the chunk.
+ */
+export async function decodeChunk(
+  filters: readonly Hdf5FilterInfo[],
+  elementSize: number,
+  data: Uint8Array,
+  filterMask: number,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  for (let i = filters.length - 1; i >= 0; --i) {
+    if ((filterMask & (1 << i)) !== 0) continue;
+    const { id } = filters[i];
+    switch (id) {
+      case Hdf5Filter.DEFLATE:
+        if (
+          data.byteOffset !== 0 ||
+          data.byteLength !== data.buffer.byteLength
+        ) {
+          // Avoid transferring a buffer that is shared with other data.
+          data = data.slice();
+        }
+        data = await requestAsyncComputation(
+          decodeGzip,
+          cancellationToken,
+          [data.buffer],
+          data,
+        );
+        break;
+      case Hdf5Filter.SHUFFLE:
+        data = unshuffle(data, elementSize);
+        break;
+      case Hdf5Filter.FLETCHER32:
+        // The checksum is appended to the chunk.
+        data = data.subarray(0, data.length - 4);
+        break;
+      default:
+        throw new Error(`Unsupported HDF5 filter: ${id}.`);
+    }
+  }
+  return data;
+}
+
+/**
+ * Returns the volume data type corresponding to an HDF5 datatype.  Signed 64-bit integers, such as
+ * label volumes written from NumPy `int64` arrays, are treated as `UINT64`.
+ */
+export function getVolumeDataType(datatype: Hdf5Datatype): DataType {
+  const { size, signed } = datatype;
+  if (
+    datatype.class === Hdf5DatatypeClass.ENUM &&
+    datatype.base !== undefined
+  ) {
+    return getVolumeDataType(datatype.base);
+  }
+  if (datatype.class === Hdf5DatatypeClass.FIXED_POINT) {
+    switch (size) {
+      case 1:
+        return signed ? DataType.INT8 : DataType.UINT8;
+      case 2:
+        return signed ? DataType.INT16 : DataType.UINT16;
+      case 4:
+        return signed ? DataType.INT32 : DataType.UINT32;
+      case 8:
+        return DataType.UINT64;
+    }
+  } else if (
+    datatype.class === Hdf5DatatypeClass.FLOATING_POINT &&
+    size === 4
+  ) {
+    return DataType.FLOAT32;
+  }
+  throw new Error(
+    `Unsupported HDF5 datatype for volume: ${Hdf5DatatypeClass[datatype.class]} of ${size} bytes.`,
+  );
+}
@@ -0,0 +1,215 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the HDF5 file reader.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import pako from "pako";
+import { describe, it, expect } from "vitest";
+import type { Hdf5Dataset } from "#src/datasource/hdf5/file.js";
+import {
+  getNumericAttributeValues,
+  Hdf5ChunkIndexType,
+  Hdf5DatatypeClass,
+  Hdf5Filter,
+  Hdf5File,
+  readNumber,
+} from "#src/datasource/hdf5/file.js";
+import type {
+  ReadableKvStore,
+  ReadOptions,
+  ReadResponse,
+} from "#src/kvstore/index.js";
+
+/**
+ * Serves byte range requests from an in-memory file.  As with an HTTP server, a byte range that
+ * extends past the end of the file is truncated.
+ */
+class InMemoryKvStore implements ReadableKvStore {
+  constructor(public data: Uint8Array) {}
+  async read(
+    key: string,
+    options: ReadOptions,
+  ): Promise<ReadResponse | undefined> {
+    key;
+    const { data } = this;
+    const { byteRange } = options;
+    let offset = 0;
+    let length = data.length;
+    if (byteRange !== undefined && "offset" in byteRange) {
+      offset = byteRange.offset;
+      length = Math.min(byteRange.length, data.length - offset);
+    }
+    return {
+      data: data.slice(offset, offset + length),
+      dataRange: { offset, length },
+      totalSize: data.length,
+    };
+  }
+}
+
+async function openTestFile(name: string) {
+  const data = await fs.readFile(
+    path.resolve(import.meta.dirname, "..", "..", "..", "testdata", name),
+  );
+  return Hdf5File.open(new InMemoryKvStore(new Uint8Array(data)), "");
+}
+
+async function readChunkedDataset(file: Hdf5File, dataset: Hdf5Dataset) {
+  const { shape, layout, datatype } = dataset;
+  if (layout.type !== "chunked") throw new Error("Expected chunked layout");
+  const { chunkShape } = layout;
+  const output = new Uint8Array(
+    shape.reduce((a, b) => a * b, 1) * datatype.size,
+  );
+  const gridShape = shape.map((size, i) => Math.ceil(size / chunkShape[i]));
+  for (let i0 = 0; i0 < gridShape[0]; ++i0) {
+    for (let i1 = 0; i1 < gridShape[1]; ++i1) {
+      for (let i2 = 0; i2 < gridShape[2]; ++i2) {
+        const chunk = await file.getChunk(dataset, [i0, i1, i2]);
+        expect(chunk).toBeDefined();
+        let data = await file.readChunk(chunk!);
+        if (dataset.filters.length !== 0) data = pako.inflate(data);
+        // Copy the portion of the chunk within the dataset bounds.
+        for (let c0 = 0; c0 < chunkShape[0]; ++c0) {
+          for (let c1 = 0; c1 < chunkShape[1]; ++c1) {
+            for (let c2 = 0; c2 < chunkShape[2]; ++c2) {
+              const p0 = i0 * chunkShape[0] + c0;
+              const p1 = i1 * chunkShape[1] + c1;
+              const p2 = i2 * chunkShape[2] + c2;
+              if (p0 >= shape[0] || p1 >= shape[1] || p2 >= shape[2]) {
+                continue;
+              }
+              const source =
+                ((c0 * chunkShape[1] + c1) * chunkShape[2] + c2) *
+                datatype.size;
+              const target =
+                ((p0 * shape[1] + p1) * shape[2] + p2) * datatype.size;
+              output.set(data.subarray(source, source + datatype.size), target);
+            }
+          }
+        }
+      }
+    }
+  }
+  return output;
+}
+
+function toNumbers(dataset: Hdf5Dataset, data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < data.length; i += dataset.datatype.size) {
+    values.push(readNumber(view, i, dataset.datatype));
+  }
+  return values;
+}
+
+for (const { fileName, indexType } of [
+  { fileName: "hdf5_test.v0.h5", indexType: Hdf5ChunkIndexType.BTREE_V1 },
+  { fileName: "hdf5_test.v3.h5", indexType: Hdf5ChunkIndexType.FIXED_ARRAY },
+]) {
+  describe(fileName, () => {
+    it("lists groups", async () => {
+      const file = await openTestFile(fileName);
+      const root = await file.getObjectByPath("/");
+      expect(root.kind).toBe("group");
+      expect(Array.from((root as any).links.keys()).sort()).toEqual([
+        "detections",
+        "volumes",
+      ]);
+      const volumes = await file.getObjectByPath("volumes");
+      expect(Array.from((volumes as any).links.keys()).sort()).toEqual([
+        "contiguous",
+        "raw",
+        "uncompressed",
+      ]);
+      await expect(file.getObjectByPath("/volumes/missing")).rejects.toThrow(
+        /not found/,
+      );
+    });
+
+    it("reads compressed chunked datasets", async () => {
+      const file = await openTestFile(fileName);
+      const dataset = (await file.getObjectByPath(
+        "/volumes/raw",
+      )) as Hdf5Dataset;
+      expect(dataset.kind).toBe("dataset");
+      expect(dataset.shape).toEqual([5, 6, 7]);
+      expect(dataset.datatype).toMatchObject({
+        class: Hdf5DatatypeClass.FIXED_POINT,
+        size: 2,
+        littleEndian: true,
+        signed: false,
+      });
+      expect(dataset.layout).toMatchObject({
+        type: "chunked",
+        indexType,
+        chunkShape: [2, 3, 4],
+      });
+      expect(dataset.filters.map((f) => f.id)).toEqual([Hdf5Filter.DEFLATE]);
+      expect(
+        getNumericAttributeValues(dataset.attributes.get("resolution")!),
+      ).toEqual([40, 4, 4]);
+      const data = await readChunkedDataset(file, dataset);
+      expect(toNumbers(dataset, data)).toEqual(
+        Array.from({ length: 5 * 6 * 7 }, (_, i) => i),
+      );
+    });
+
+    it("reads uncompressed chunked datasets", async () => {
+      const file = await openTestFile(fileName);
+      const dataset = (await file.getObjectByPath(
+        "/volumes/uncompressed",
+      )) as Hdf5Dataset;
+      expect(dataset.filters).toEqual([]);
+      const data = await readChunkedDataset(file, dataset);
+      expect(Array.from(data)).toEqual(
+        Array.from({ length: 5 * 6 * 7 }, (_, i) => i % 251),
+      );
+    });
+
+    it("reads contiguous datasets", async () => {
+      const file = await openTestFile(fileName);
+      const dataset = (await file.getObjectByPath(
+        "/volumes/contiguous",
+      )) as Hdf5Dataset;
+      expect(dataset.layout.type).toBe("contiguous");
+      expect(dataset.datatype.signed).toBe(true);
+      // Read the second 4x5 slice.
+      const data = await file.readContiguous(dataset, 40, 40);
+      expect(toNumbers(dataset, data)).toEqual(
+        Array.from({ length: 20 }, (_, i) => i - 10),
+      );
+    });
+
+    it("reads compound datasets", async () => {
+      const file = await openTestFile(fileName);
+      const dataset = (await file.getObjectByPath(
+        "/detections",
+      )) as Hdf5Dataset;
+      const { datatype } = dataset;
+      expect(datatype.class).toBe(Hdf5DatatypeClass.COMPOUND);
+      expect(datatype.size).toBe(17);
+      expect(
+        datatype.members!.map((m) => [m.name, m.offset, m.datatype.size]),
+      ).toEqual([
+        ["z", 0, 4],
+        ["y", 4, 4],
+        ["x", 8, 4],
+        ["score", 12, 4],
+        ["label", 16, 1],
+      ]);
+      const data = await file.readContiguous(dataset, 0, 3 * 17);
+      const view = new DataView(data.buffer, data.byteOffset);
+      const x = datatype.members![2];
+      expect(
+        [0, 1, 2].map((i) => readNumber(view, i * 17 + x.offset, x.datatype)),
+      ).toEqual([3, 6, 9]);
+    });
+  });
+}
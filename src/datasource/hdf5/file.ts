@@ -0,0 +1,1381 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Reader for the HDF5 file format that retrieves only the byte ranges it needs.
+ *
+ * Supports the subset of the format written by h5py and the HDF5 library with default settings:
+ * superblock versions 0-3, object header versions 1 and 2, groups stored as symbol tables or
+ * compact links, and contiguous or chunked datasets.  Chunks may be indexed by a version 1 B-tree,
+ * or, with the version 4 layout message, by a single chunk, implicit, or fixed array index.
+ *
+ * See https://docs.hdfgroup.org/hdf5/develop/_f_m_t3.html for the format specification.
+ */
+
+import type { ReadableKvStore } from "#src/kvstore/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+
+export enum Hdf5DatatypeClass {
+  FIXED_POINT = 0,
+  FLOATING_POINT = 1,
+  TIME = 2,
+  STRING = 3,
+  BIT_FIELD = 4,
+  OPAQUE = 5,
+  COMPOUND = 6,
+  REFERENCE = 7,
+  ENUM = 8,
+  VARIABLE_LENGTH = 9,
+  ARRAY = 10,
+}
+
+export interface Hdf5CompoundMember {
+  name: string;
+  offset: number;
+  datatype: Hdf5Datatype;
+}
+
+export interface Hdf5Datatype {
+  class: Hdf5DatatypeClass;
+  /**
+   * Size of each element in bytes.
+   */
+  size: number;
+  littleEndian: boolean;
+  signed: boolean;
+  /**
+   * Members of a compound datatype.
+   */
+  members?: Hdf5CompoundMember[];
+  /**
+   * Base type of an enumeration or array datatype.
+   */
+  base?: Hdf5Datatype;
+  /**
+   * Dimensions of an array datatype.
+   */
+  arrayShape?: number[];
+}
+
+export enum Hdf5Filter {
+  DEFLATE = 1,
+  SHUFFLE = 2,
+  FLETCHER32 = 3,
+}
+
+export interface Hdf5FilterInfo {
+  id: number;
+  /**
+   * If `true`, the filter may be skipped for chunks on which it fails.
+   */
+  optional: boolean;
+}
+
+export enum Hdf5ChunkIndexType {
+  BTREE_V1 = 0,
+  SINGLE_CHUNK = 1,
+  IMPLICIT = 2,
+  FIXED_ARRAY = 3,
+}
+
+export type Hdf5Layout =
+  | { type: "contiguous"; address: number; size: number }
+  | {
+      type: "chunked";
+      indexType: Hdf5ChunkIndexType;
+      /**
+       * Address of the root of the chunk index, or of the single chunk or first implicitly-indexed
+       * chunk.
+       */
+      address: number;
+      chunkShape: number[];
+      /**
+       * Size in bytes of the filtered chunk, for a filtered single chunk index.
+       */
+      singleChunkSize?: number;
+      singleChunkFilterMask?: number;
+    };
+
+/**
+ * Serializable description of a dataset, sufficient to retrieve its chunks.
+ */
+export interface Hdf5DatasetInfo {
+  shape: number[];
+  datatype: Hdf5Datatype;
+  layout: Hdf5Layout;
+  filters: Hdf5FilterInfo[];
+  sizeOfOffsets: number;
+  sizeOfLengths: number;
+  baseAddress: number;
+}
+
+export interface Hdf5Attribute {
+  datatype: Hdf5Datatype;
+  shape: number[];
+  data: Uint8Array;
+}
+
+export interface Hdf5Dataset extends Hdf5DatasetInfo {
+  kind: "dataset";
+  attributes: Map<string, Hdf5Attribute>;
+}
+
+export interface Hdf5Group {
+  kind: "group";
+  attributes: Map<string, Hdf5Attribute>;
+  /**
+   * Maps the name of each hard link in the group to the address of its object header.
+   */
+  links: Map<string, number>;
+}
+
+export interface Hdf5Chunk {
+  address: number;
+  size: number;
+  filterMask: number;
+}
+
+const UNDEFINED_ADDRESS = -1;
+
+const PAGE_SIZE = 16384;
+const MAX_CACHED_PAGES = 256;
+
+const SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+
+enum MessageType {
+  DATASPACE = 0x1,
+  LINK_INFO = 0x2,
+  DATATYPE = 0x3,
+  LINK = 0x6,
+  DATA_LAYOUT = 0x8,
+  FILTER_PIPELINE = 0xb,
+  ATTRIBUTE = 0xc,
+  CONTINUATION = 0x10,
+  SYMBOL_TABLE = 0x11,
+}
+
+interface Message {
+  type: number;
+  flags: number;
+  data: DataView;
+}
+
+class Cursor {
+  constructor(
+    public view: DataView,
+    public sizeOfOffsets: number,
+    public sizeOfLengths: number,
+    public offset = 0,
+  ) {}
+
+  get remaining() {
+    return this.view.byteLength - this.offset;
+  }
+
+  u8() {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Reads a little-endian unsigned integer of `size` bytes.  Values that are not exactly
+   * representable as a `number` lose precision, and a value with all bits set is returned as
+   * `UNDEFINED_ADDRESS`.
+   */
+  uint(size: number) {
+    let value = 0;
+    let allOnes = true;
+    for (let i = size - 1; i >= 0; --i) {
+      const byte = this.view.getUint8(this.offset + i);
+      if (byte !== 0xff) allOnes = false;
+      value = value * 256 + byte;
+    }
+    this.offset += size;
+    return allOnes ? UNDEFINED_ADDRESS : value;
+  }
+
+  address() {
+    return this.uint(this.sizeOfOffsets);
+  }
+
+  length() {
+    return this.uint(this.sizeOfLengths);
+  }
+
+  skip(count: number) {
+    this.offset += count;
+  }
+
+  bytes(count: number) {
+    const { view } = this;
+    const result = new Uint8Array(
+      view.buffer,
+      view.byteOffset + this.offset,
+      count,
+    );
+    this.offset += count;
+    return result;
+  }
+
+  dataView(count: number) {
+    const { view } = this;
+    const result = new DataView(
+      view.buffer,
+      view.byteOffset + this.offset,
+      count,
+    );
+    this.offset += count;
+    return result;
+  }
+
+  signature(expected: string) {
+    const actual = String.fromCharCode(...this.bytes(4));
+    if (actual !== expected) {
+      throw new Error(
+        `Expected ${JSON.stringify(expected)} signature but received ${JSON.stringify(actual)}.`,
+      );
+    }
+  }
+
+  /**
+   * Reads a null-terminated string, optionally followed by padding to a multiple of `padding`
+   * bytes (counting the terminator).
+   */
+  string(padding = 1) {
+    const { view } = this;
+    const start = this.offset;
+    let end = start;
+    while (end < view.byteLength && view.getUint8(end) !== 0) ++end;
+    const value = decodeString(
+      new Uint8Array(view.buffer, view.byteOffset + start, end - start),
+    );
+    this.offset = start + Math.ceil((end + 1 - start) / padding) * padding;
+    return value;
+  }
+
+  align(alignment: number) {
+    this.offset = Math.ceil(this.offset / alignment) * alignment;
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+function decodeString(bytes: Uint8Array) {
+  return textDecoder.decode(bytes);
+}
+
+/**
+ * Decodes a fixed-length string value, which may be null terminated or null or space padded.
+ */
+export function decodeFixedLengthString(bytes: Uint8Array) {
+  let end = bytes.indexOf(0);
+  if (end === -1) end = bytes.length;
+  return decodeString(bytes.subarray(0, end)).trimEnd();
+}
+
+/**
+ * Parses a datatype message, leaving the cursor positioned after it.
+ */
+function parseDatatype(cursor: Cursor): Hdf5Datatype {
+  const classAndVersion = cursor.u8();
+  const typeClass = classAndVersion & 0xf;
+  const version = classAndVersion >> 4;
+  const bitField = cursor.u8() | (cursor.u8() << 8) | (cursor.u8() << 16);
+  const size = cursor.u32();
+  const datatype: Hdf5Datatype = {
+    class: typeClass,
+    size,
+    littleEndian: (bitField & 1) === 0,
+    signed: false,
+  };
+  switch (typeClass) {
+    case Hdf5DatatypeClass.FIXED_POINT:
+      datatype.signed = (bitField & 8) !== 0;
+      // Bit offset and precision.
+      cursor.skip(4);
+      break;
+    case Hdf5DatatypeClass.FLOATING_POINT:
+      datatype.signed = true;
+      if ((bitField & 0x40) !== 0) {
+        throw new Error("VAX floating point byte order is not supported.");
+      }
+      // Bit offset, precision, exponent and mantissa location and size, and exponent bias.
+      cursor.skip(12);
+      break;
+    case Hdf5DatatypeClass.TIME:
+      cursor.skip(2);
+      break;
+    case Hdf5DatatypeClass.STRING:
+    case Hdf5DatatypeClass.REFERENCE:
+      break;
+    case Hdf5DatatypeClass.BIT_FIELD:
+      cursor.skip(4);
+      break;
+    case Hdf5DatatypeClass.OPAQUE:
+      // The tag is padded to a multiple of 8 bytes, and its padded length is stored in the bit
+      // field.
+      cursor.skip(bitField & 0xff);
+      break;
+    case Hdf5DatatypeClass.COMPOUND: {
+      const numMembers = bitField & 0xffff;
+      const members: Hdf5CompoundMember[] = [];
+      for (let i = 0; i < numMembers; ++i) {
+        const name = cursor.string(version < 3 ? 8 : 1);
+        let offset: number;
+        if (version < 3) {
+          offset = cursor.u32();
+        } else {
+          // The offset is stored in the minimum number of bytes required for the datatype size.
+          let offsetBytes = 1;
+          while (size >= 2 ** (8 * offsetBytes)) ++offsetBytes;
+          offset = cursor.uint(offsetBytes);
+        }
+        let arrayShape: number[] | undefined;
+        if (version === 1) {
+          const rank = cursor.u8();
+          // Reserved bytes and dimension permutation.
+          cursor.skip(11);
+          const dims: number[] = [];
+          for (let j = 0; j < 4; ++j) dims.push(cursor.u32());
+          if (rank !== 0) arrayShape = dims.slice(0, rank);
+        }
+        let memberType = parseDatatype(cursor);
+        if (arrayShape !== undefined) {
+          memberType = {
+            class: Hdf5DatatypeClass.ARRAY,
+            size: arrayShape.reduce((a, b) => a * b, memberType.size),
+            littleEndian: memberType.littleEndian,
+            signed: memberType.signed,
+            base: memberType,
+            arrayShape,
+          };
+        }
+        members.push({ name, offset, datatype: memberType });
+      }
+      datatype.members = members;
+      break;
+    }
+    case Hdf5DatatypeClass.ENUM: {
+      const numMembers = bitField & 0xffff;
+      const base = parseDatatype(cursor);
+      for (let i = 0; i < numMembers; ++i) {
+        cursor.string(version < 3 ? 8 : 1);
+      }
+      cursor.skip(numMembers * base.size);
+      datatype.base = base;
+      datatype.littleEndian = base.littleEndian;
+      datatype.signed = base.signed;
+      break;
+    }
+    case Hdf5DatatypeClass.ARRAY: {
+      const rank = cursor.u8();
+      if (version < 3) cursor.skip(3);
+      const arrayShape: number[] = [];
+      for (let i = 0; i < rank; ++i) arrayShape.push(cursor.u32());
+      // Permutation indices.
+      if (version < 3) cursor.skip(4 * rank);
+      const base = parseDatatype(cursor);
+      datatype.base = base;
+      datatype.arrayShape = arrayShape;
+      datatype.littleEndian = base.littleEndian;
+      datatype.signed = base.signed;
+      break;
+    }
+    default:
+      throw new Error(
+        `Unsupported HDF5 datatype class: ${Hdf5DatatypeClass[typeClass] ?? typeClass}.`,
+      );
+  }
+  return datatype;
+}
+
+function parseDataspace(cursor: Cursor): number[] {
+  const version = cursor.u8();
+  const rank = cursor.u8();
+  cursor.u8(); // flags
+  if (version === 1) {
+    cursor.skip(5);
+  } else {
+    const type = cursor.u8();
+    // Null dataspace.
+    if (type === 2) return [0];
+  }
+  const shape: number[] = [];
+  for (let i = 0; i < rank; ++i) shape.push(cursor.length());
+  return shape;
+}
+
+function parseFilterPipeline(cursor: Cursor): Hdf5FilterInfo[] {
+  const version = cursor.u8();
+  const numFilters = cursor.u8();
+  if (version === 1) cursor.skip(6);
+  const filters: Hdf5FilterInfo[] = [];
+  for (let i = 0; i < numFilters; ++i) {
+    const id = cursor.u16();
+    const nameLength = version === 1 || id >= 256 ? cursor.u16() : 0;
+    const flags = cursor.u16();
+    const numValues = cursor.u16();
+    if (version === 1) {
+      cursor.skip(Math.ceil(nameLength / 8) * 8);
+    } else {
+      cursor.skip(nameLength);
+    }
+    cursor.skip(4 * numValues);
+    if (version === 1 && numValues % 2 === 1) cursor.skip(4);
+    filters.push({ id, optional: (flags & 1) !== 0 });
+  }
+  return filters;
+}
+
+function parseLayout(cursor: Cursor): Hdf5Layout {
+  const version = cursor.u8();
+  if (version < 3) {
+    throw new Error(
+      `Unsupported HDF5 data layout message version: ${version}.`,
+    );
+  }
+  const layoutClass = cursor.u8();
+  switch (layoutClass) {
+    case 1:
+      return {
+        type: "contiguous",
+        address: cursor.address(),
+        size: cursor.length(),
+      };
+    case 2:
+      break;
+    case 0:
+      throw new Error("Compact HDF5 datasets are not supported.");
+    default:
+      throw new Error(`Unsupported HDF5 data layout class: ${layoutClass}.`);
+  }
+  if (version === 3) {
+    // The chunk dimensions include an additional dimension for the element size.
+    const rank = cursor.u8() - 1;
+    const address = cursor.address();
+    const chunkShape: number[] = [];
+    for (let i = 0; i < rank; ++i) chunkShape.push(cursor.u32());
+    return {
+      type: "chunked",
+      indexType: Hdf5ChunkIndexType.BTREE_V1,
+      address,
+      chunkShape,
+    };
+  }
+  const flags = cursor.u8();
+  const rank = cursor.u8() - 1;
+  const dimensionBytes = cursor.u8();
+  const chunkShape: number[] = [];
+  for (let i = 0; i < rank; ++i) chunkShape.push(cursor.uint(dimensionBytes));
+  cursor.skip(dimensionBytes);
+  const indexType = cursor.u8();
+  switch (indexType) {
+    case Hdf5ChunkIndexType.SINGLE_CHUNK: {
+      let singleChunkSize: number | undefined;
+      let singleChunkFilterMask: number | undefined;
+      if ((flags & 2) !== 0) {
+        singleChunkSize = cursor.length();
+        singleChunkFilterMask = cursor.u32();
+      }
+      return {
+        type: "chunked",
+        indexType,
+        address: cursor.address(),
+        chunkShape,
+        singleChunkSize,
+        singleChunkFilterMask,
+      };
+    }
+    case Hdf5ChunkIndexType.IMPLICIT:
+      return {
+        type: "chunked",
+        indexType,
+        address: cursor.address(),
+        chunkShape,
+      };
+    case Hdf5ChunkIndexType.FIXED_ARRAY:
+      // Page bits, which are also stored in the fixed array header.
+      cursor.skip(1);
+      return {
+        type: "chunked",
+        indexType,
+        address: cursor.address(),
+        chunkShape,
+      };
+    default:
+      throw new Error(
+        `Unsupported HDF5 chunk index type: ${indexType}.  Datasets with unlimited dimensions ` +
+          "are not supported.",
+      );
+  }
+}
+
+function getNumElements(shape: readonly number[]) {
+  let count = 1;
+  for (const size of shape) count *= size;
+  return count;
+}
+
+function parseAttribute(cursor: Cursor): [string, Hdf5Attribute] {
+  const version = cursor.u8();
+  cursor.u8(); // reserved or flags
+  const nameSize = cursor.u16();
+  const datatypeSize = cursor.u16();
+  const dataspaceSize = cursor.u16();
+  if (version === 3) cursor.u8(); // name character set encoding
+  const pad = (size: number) =>
+    version === 1 ? Math.ceil(size / 8) * 8 : size;
+  const name = decodeFixedLengthString(cursor.bytes(nameSize));
+  cursor.skip(pad(nameSize) - nameSize);
+  const datatypeStart = cursor.offset;
+  const datatype = parseDatatype(cursor);
+  cursor.offset = datatypeStart + pad(datatypeSize);
+  const dataspaceStart = cursor.offset;
+  const shape = parseDataspace(cursor);
+  cursor.offset = dataspaceStart + pad(dataspaceSize);
+  const data = cursor.bytes(
+    Math.min(cursor.remaining, getNumElements(shape) * datatype.size),
+  );
+  return [name, { datatype, shape, data }];
+}
+
+/**
+ * Converts the elements of a numeric attribute to numbers.
+ */
+export function getNumericAttributeValues(
+  attribute: Hdf5Attribute,
+): number[] | undefined {
+  const { datatype, data } = attribute;
+  if (
+    datatype.class !== Hdf5DatatypeClass.FIXED_POINT &&
+    datatype.class !== Hdf5DatatypeClass.FLOATING_POINT
+  ) {
+    return undefined;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i + datatype.size <= data.byteLength; i += datatype.size) {
+    values.push(readNumber(view, i, datatype));
+  }
+  return values;
+}
+
+/**
+ * Reads a single numeric element of the specified datatype.
+ */
+export function readNumber(
+  view: DataView,
+  offset: number,
+  datatype: Hdf5Datatype,
+): number {
+  if (datatype.base !== undefined && datatype.arrayShape === undefined) {
+    datatype = datatype.base;
+  }
+  const { littleEndian, signed, size } = datatype;
+  if (datatype.class === Hdf5DatatypeClass.FLOATING_POINT) {
+    switch (size) {
+      case 4:
+        return view.getFloat32(offset, littleEndian);
+      case 8:
+        return view.getFloat64(offset, littleEndian);
+    }
+  } else if (datatype.class === Hdf5DatatypeClass.FIXED_POINT) {
+    switch (size) {
+      case 1:
+        return signed ? view.getInt8(offset) : view.getUint8(offset);
+      case 2:
+        return signed
+          ? view.getInt16(offset, littleEndian)
+          : view.getUint16(offset, littleEndian);
+      case 4:
+        return signed
+          ? view.getInt32(offset, littleEndian)
+          : view.getUint32(offset, littleEndian);
+      case 8:
+        return Number(
+          signed
+            ? view.getBigInt64(offset, littleEndian)
+            : view.getBigUint64(offset, littleEndian),
+        );
+    }
+  }
+  throw new Error("Unsupported numeric datatype.");
+}
+
+/**
+ * Reads an HDF5 file through a `ReadableKvStore`.  Metadata is read in fixed-size pages, which are
+ * cached.
+ */
+export class Hdf5File {
+  sizeOfOffsets = 8;
+  sizeOfLengths = 8;
+  baseAddress = 0;
+  rootAddress = UNDEFINED_ADDRESS;
+
+  private pages = new Map<number, Promise<Uint8Array>>();
+
+  /**
+   * Set if the server ignored a byte range request and returned the entire file.
+   */
+  private fileData: Uint8Array | undefined;
+
+  private constructor(
+    public kvStore: ReadableKvStore,
+    public key: string,
+  ) {}
+
+  static async open(
+    kvStore: ReadableKvStore,
+    key: string,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ) {
+    const file = new Hdf5File(kvStore, key);
+    await file.readSuperblock(cancellationToken);
+    return file;
+  }
+
+  /**
+   * Returns a reader for the chunks of a dataset obtained from a previously-opened file, without
+   * reading the superblock again.
+   */
+  static forDataset(
+    kvStore: ReadableKvStore,
+    key: string,
+    dataset: Hdf5DatasetInfo,
+  ) {
+    const file = new Hdf5File(kvStore, key);
+    file.sizeOfOffsets = dataset.sizeOfOffsets;
+    file.sizeOfLengths = dataset.sizeOfLengths;
+    file.baseAddress = dataset.baseAddress;
+    return file;
+  }
+
+  /**
+   * Reads the specified byte range without caching it.  Returns `undefined` if the file does not
+   * exist.
+   */
+  async readUncached(
+    offset: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array | undefined> {
+    const { fileData } = this;
+    if (fileData !== undefined) {
+      return fileData.subarray(
+        offset,
+        Math.min(fileData.length, offset + length),
+      );
+    }
+    const response = await this.kvStore.read(this.key, {
+      byteRange: { offset, length },
+      cancellationToken,
+    });
+    if (response === undefined) return undefined;
+    const { data, dataRange } = response;
+    if (
+      dataRange.offset === 0 &&
+      response.totalSize === data.length &&
+      data.length > length
+    ) {
+      this.fileData = data;
+    }
+    const begin = offset - dataRange.offset;
+    return data.subarray(begin, Math.min(data.length, begin + length));
+  }
+
+  private getPage(pageIndex: number, cancellationToken: CancellationToken) {
+    const { pages } = this;
+    let page = pages.get(pageIndex);
+    if (page !== undefined) {
+      // Move to the end of the iteration order to mark it as recently used.
+      pages.delete(pageIndex);
+      pages.set(pageIndex, page);
+      return page;
+    }
+    page = this.readUncached(
+      pageIndex * PAGE_SIZE,
+      PAGE_SIZE,
+      cancellationToken,
+    ).then((data) => {
+      if (data === undefined) {
+        throw new Error("HDF5 file not found.");
+      }
+      return data;
+    });
+    page.catch(() => pages.delete(pageIndex));
+    pages.set(pageIndex, page);
+    if (pages.size > MAX_CACHED_PAGES) {
+      pages.delete(pages.keys().next().value!);
+    }
+    return page;
+  }
+
+  /**
+   * Reads metadata at the specified file address.
+   */
+  async read(
+    address: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ): Promise<DataView> {
+    if (address === UNDEFINED_ADDRESS) {
+      throw new Error("Attempt to read from undefined HDF5 address.");
+    }
+    const offset = this.baseAddress + address;
+    const firstPage = Math.floor(offset / PAGE_SIZE);
+    const lastPage = Math.floor((offset + length - 1) / PAGE_SIZE);
+    const pageData = await Promise.all(
+      Array.from({ length: lastPage - firstPage + 1 }, (_, i) =>
+        this.getPage(firstPage + i, cancellationToken),
+      ),
+    );
+    let result: Uint8Array;
+    const begin = offset - firstPage * PAGE_SIZE;
+    if (pageData.length === 1) {
+      result = pageData[0].subarray(begin, begin + length);
+    } else {
+      result = new Uint8Array(length);
+      let outputOffset = 0;
+      pageData.forEach((page, i) => {
+        const part = page.subarray(
+          i === 0 ? begin : 0,
+          begin + length - i * PAGE_SIZE,
+        );
+        result.set(part, outputOffset);
+        outputOffset += part.length;
+      });
+      result = result.subarray(0, outputOffset);
+    }
+    if (result.length !== length) {
+      throw new Error("Unexpected end of HDF5 file.");
+    }
+    return new DataView(result.buffer, result.byteOffset, result.byteLength);
+  }
+
+  private async cursor(
+    address: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ) {
+    return new Cursor(
+      await this.read(address, length, cancellationToken),
+      this.sizeOfOffsets,
+      this.sizeOfLengths,
+    );
+  }
+
+  private async readSuperblock(cancellationToken: CancellationToken) {
+    const header = await this.read(0, 16, cancellationToken);
+    for (let i = 0; i < SIGNATURE.length; ++i) {
+      if (header.getUint8(i) !== SIGNATURE[i]) {
+        throw new Error("Not an HDF5 file.");
+      }
+    }
+    const version = header.getUint8(8);
+    if (version <= 1) {
+      this.sizeOfOffsets = header.getUint8(13);
+      this.sizeOfLengths = header.getUint8(14);
+      const cursor = await this.cursor(
+        0,
+        28 + 6 * this.sizeOfOffsets,
+        cancellationToken,
+      );
+      cursor.offset = 16;
+      // Group leaf and internal node K, file consistency flags, and, in version 1, the indexed
+      // storage internal node K.
+      cursor.skip(version === 1 ? 12 : 8);
+      this.baseAddress = cursor.address();
+      cursor.address(); // free-space info
+      cursor.address(); // end of file
+      cursor.address(); // driver information block
+      // Root group symbol table entry.
+      cursor.address(); // link name offset
+      this.rootAddress = cursor.address();
+    } else if (version <= 3) {
+      this.sizeOfOffsets = header.getUint8(9);
+      this.sizeOfLengths = header.getUint8(10);
+      const cursor = await this.cursor(
+        0,
+        12 + 4 * this.sizeOfOffsets,
+        cancellationToken,
+      );
+      cursor.offset = 12;
+      this.baseAddress = cursor.address();
+      cursor.address(); // superblock extension
+      cursor.address(); // end of file
+      this.rootAddress = cursor.address();
+    } else {
+      throw new Error(`Unsupported HDF5 superblock version: ${version}.`);
+    }
+  }
+
+  private async readObjectHeaderMessages(
+    address: number,
+    cancellationToken: CancellationToken,
+  ): Promise<Message[]> {
+    const messages: Message[] = [];
+    const prefix = await this.read(address, 16, cancellationToken);
+    const blocks: { address: number; length: number }[] = [];
+    let version: number;
+    let creationOrderTracked = false;
+    if (prefix.getUint8(0) === 1) {
+      version = 1;
+      blocks.push({ address: address + 16, length: prefix.getUint32(8, true) });
+    } else {
+      version = 2;
+      const cursor = new Cursor(prefix, this.sizeOfOffsets, this.sizeOfLengths);
+      cursor.signature("OHDR");
+      const headerVersion = cursor.u8();
+      if (headerVersion !== 2) {
+        throw new Error(
+          `Unsupported HDF5 object header version: ${headerVersion}.`,
+        );
+      }
+      const flags = cursor.u8();
+      let prefixLength = 6 + (1 << (flags & 3));
+      if ((flags & 0x20) !== 0) prefixLength += 16;
+      if ((flags & 0x10) !== 0) prefixLength += 4;
+      const sizeCursor = await this.cursor(
+        address,
+        prefixLength,
+        cancellationToken,
+      );
+      sizeCursor.offset = prefixLength - (1 << (flags & 3));
+      const chunkSize = sizeCursor.uint(1 << (flags & 3));
+      // Exclude the checksum.
+      blocks.push({ address: address + prefixLength, length: chunkSize });
+      creationOrderTracked = (flags & 0x04) !== 0;
+    }
+    for (let blockIndex = 0; blockIndex < blocks.length; ++blockIndex) {
+      const block = blocks[blockIndex];
+      const cursor = await this.cursor(
+        block.address,
+        block.length,
+        cancellationToken,
+      );
+      if (version === 2 && blockIndex !== 0) {
+        cursor.signature("OCHK");
+        // Exclude the checksum.
+        cursor.view = new DataView(
+          cursor.view.buffer,
+          cursor.view.byteOffset,
+          cursor.view.byteLength - 4,
+        );
+      }
+      const headerSize = version === 1 ? 8 : creationOrderTracked ? 6 : 4;
+      while (cursor.remaining >= headerSize) {
+        let type: number;
+        let size: number;
+        let flags: number;
+        if (version === 1) {
+          type = cursor.u16();
+          size = cursor.u16();
+          flags = cursor.u8();
+          cursor.skip(3);
+        } else {
+          type = cursor.u8();
+          size = cursor.u16();
+          flags = cursor.u8();
+          if (creationOrderTracked) cursor.skip(2);
+        }
+        if (size > cursor.remaining) break;
+        const data = cursor.dataView(size);
+        if (type === MessageType.CONTINUATION) {
+          const continuation = new Cursor(
+            data,
+            this.sizeOfOffsets,
+            this.sizeOfLengths,
+          );
+          const continuationAddress = continuation.address();
+          const length = continuation.length();
+          blocks.push({ address: continuationAddress, length });
+        } else {
+          messages.push({ type, flags, data });
+        }
+        if (version === 1) cursor.align(8);
+      }
+    }
+    return messages;
+  }
+
+  private messageCursor(message: Message) {
+    if ((message.flags & 2) !== 0) {
+      throw new Error("Shared HDF5 object header messages are not supported.");
+    }
+    return new Cursor(message.data, this.sizeOfOffsets, this.sizeOfLengths);
+  }
+
+  /**
+   * Reads the object at the specified object header address.
+   */
+  async getObject(
+    address: number,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Hdf5Group | Hdf5Dataset> {
+    const messages = await this.readObjectHeaderMessages(
+      address,
+      cancellationToken,
+    );
+    const attributes = new Map<string, Hdf5Attribute>();
+    let shape: number[] | undefined;
+    let datatype: Hdf5Datatype | undefined;
+    let layout: Hdf5Layout | undefined;
+    let filters: Hdf5FilterInfo[] = [];
+    let links: Map<string, number> | undefined;
+    for (const message of messages) {
+      switch (message.type) {
+        case MessageType.DATASPACE:
+          shape = parseDataspace(this.messageCursor(message));
+          break;
+        case MessageType.DATATYPE:
+          datatype = parseDatatype(this.messageCursor(message));
+          break;
+        case MessageType.DATA_LAYOUT:
+          layout = parseLayout(this.messageCursor(message));
+          break;
+        case MessageType.FILTER_PIPELINE:
+          filters = parseFilterPipeline(this.messageCursor(message));
+          break;
+        case MessageType.ATTRIBUTE: {
+          try {
+            const [name, attribute] = parseAttribute(
+              this.messageCursor(message),
+            );
+            attributes.set(name, attribute);
+          } catch {
+            // Ignore attributes with unsupported datatypes.
+          }
+          break;
+        }
+        case MessageType.SYMBOL_TABLE: {
+          const cursor = this.messageCursor(message);
+          const bTreeAddress = cursor.address();
+          const heapAddress = cursor.address();
+          links = await this.readSymbolTable(
+            bTreeAddress,
+            heapAddress,
+            cancellationToken,
+          );
+          break;
+        }
+        case MessageType.LINK: {
+          links ??= new Map();
+          const link = this.parseLink(this.messageCursor(message));
+          if (link !== undefined) links.set(link[0], link[1]);
+          break;
+        }
+        case MessageType.LINK_INFO: {
+          links ??= new Map();
+          const cursor = this.messageCursor(message);
+          cursor.u8(); // version
+          const flags = cursor.u8();
+          if ((flags & 1) !== 0) cursor.skip(8);
+          if (cursor.address() !== UNDEFINED_ADDRESS) {
+            throw new Error(
+              "HDF5 groups with dense link storage are not supported.",
+            );
+          }
+          break;
+        }
+      }
+    }
+    if (layout !== undefined) {
+      if (shape === undefined || datatype === undefined) {
+        throw new Error("HDF5 dataset is missing dataspace or datatype.");
+      }
+      return {
+        kind: "dataset",
+        attributes,
+        shape,
+        datatype,
+        layout,
+        filters,
+        sizeOfOffsets: this.sizeOfOffsets,
+        sizeOfLengths: this.sizeOfLengths,
+        baseAddress: this.baseAddress,
+      };
+    }
+    return { kind: "group", attributes, links: links ?? new Map() };
+  }
+
+  private parseLink(cursor: Cursor): [string, number] | undefined {
+    cursor.u8(); // version
+    const flags = cursor.u8();
+    let linkType = 0;
+    if ((flags & 0x8) !== 0) linkType = cursor.u8();
+    if ((flags & 0x4) !== 0) cursor.skip(8);
+    if ((flags & 0x10) !== 0) cursor.u8();
+    const nameLength = cursor.uint(1 << (flags & 3));
+    const name = decodeString(cursor.bytes(nameLength));
+    // Soft and external links are not supported.
+    if (linkType !== 0) return undefined;
+    return [name, cursor.address()];
+  }
+
+  private async readSymbolTable(
+    bTreeAddress: number,
+    heapAddress: number,
+    cancellationToken: CancellationToken,
+  ) {
+    const heap = await this.cursor(
+      heapAddress,
+      8 + 2 * this.sizeOfLengths + this.sizeOfOffsets,
+      cancellationToken,
+    );
+    heap.signature("HEAP");
+    heap.skip(4);
+    const heapDataSize = heap.length();
+    heap.length(); // free list offset
+    const heapData = await this.read(
+      heap.address(),
+      heapDataSize,
+      cancellationToken,
+    );
+    const heapCursor = new Cursor(
+      heapData,
+      this.sizeOfOffsets,
+      this.sizeOfLengths,
+    );
+    const links = new Map<string, number>();
+    const symbolTableNodes: number[] = [];
+    await this.visitBTreeV1Leaves(
+      bTreeAddress,
+      0,
+      this.sizeOfLengths,
+      (cursor) => {
+        cursor.skip(this.sizeOfLengths);
+        symbolTableNodes.push(cursor.address());
+      },
+      cancellationToken,
+    );
+    const entrySize = 2 * this.sizeOfOffsets + 24;
+    await Promise.all(
+      symbolTableNodes.map(async (nodeAddress) => {
+        const node = await this.cursor(nodeAddress, 8, cancellationToken);
+        node.signature("SNOD");
+        node.skip(2);
+        const numSymbols = node.u16();
+        const entries = await this.cursor(
+          nodeAddress + 8,
+          numSymbols * entrySize,
+          cancellationToken,
+        );
+        for (let i = 0; i < numSymbols; ++i) {
+          entries.offset = i * entrySize;
+          heapCursor.offset = entries.address();
+          links.set(heapCursor.string(), entries.address());
+        }
+      }),
+    );
+    return links;
+  }
+
+  /**
+   * Reads a version 1 B-tree node.  Calls `callback` with a cursor positioned at each key, which
+   * is followed by the child address.
+   */
+  private async readBTreeV1Node(
+    address: number,
+    nodeType: number,
+    keySize: number,
+    cancellationToken: CancellationToken,
+  ) {
+    const headerSize = 8 + 2 * this.sizeOfOffsets;
+    const header = await this.cursor(address, headerSize, cancellationToken);
+    header.signature("TREE");
+    if (header.u8() !== nodeType) {
+      throw new Error("Unexpected HDF5 B-tree node type.");
+    }
+    const level = header.u8();
+    const numEntries = header.u16();
+    const entries = await this.cursor(
+      address + headerSize,
+      numEntries * (keySize + this.sizeOfOffsets) + keySize,
+      cancellationToken,
+    );
+    return { level, numEntries, entries };
+  }
+
+  private async visitBTreeV1Leaves(
+    address: number,
+    nodeType: number,
+    keySize: number,
+    callback: (cursor: Cursor) => void,
+    cancellationToken: CancellationToken,
+  ): Promise<void> {
+    const { level, numEntries, entries } = await this.readBTreeV1Node(
+      address,
+      nodeType,
+      keySize,
+      cancellationToken,
+    );
+    const entrySize = keySize + this.sizeOfOffsets;
+    if (level === 0) {
+      for (let i = 0; i < numEntries; ++i) {
+        entries.offset = i * entrySize;
+        callback(entries);
+      }
+      return;
+    }
+    const children: number[] = [];
+    for (let i = 0; i < numEntries; ++i) {
+      entries.offset = i * entrySize + keySize;
+      children.push(entries.address());
+    }
+    await Promise.all(
+      children.map((child) =>
+        this.visitBTreeV1Leaves(
+          child,
+          nodeType,
+          keySize,
+          callback,
+          cancellationToken,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Returns the object at the specified `/`-separated path.
+   */
+  async getObjectByPath(
+    path: string,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Hdf5Group | Hdf5Dataset> {
+    let object = await this.getObject(this.rootAddress, cancellationToken);
+    const components = path.split("/").filter((x) => x !== "");
+    for (let i = 0; i < components.length; ++i) {
+      const name = components[i];
+      const address =
+        object.kind === "group" ? object.links.get(name) : undefined;
+      if (address === undefined) {
+        throw new Error(
+          `HDF5 object not found: ${JSON.stringify("/" + components.slice(0, i + 1).join("/"))}.`,
+        );
+      }
+      object = await this.getObject(address, cancellationToken);
+    }
+    return object;
+  }
+
+  /**
+   * Locates a chunk of a chunked dataset.  Returns `undefined` if the chunk has not been written,
+   * in which case it contains only the fill value.
+   *
+   * @param chunkIndices Grid position of the chunk, in units of chunks.
+   */
+  async getChunk(
+    dataset: Hdf5DatasetInfo,
+    chunkIndices: readonly number[],
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Hdf5Chunk | undefined> {
+    const { layout } = dataset;
+    if (layout.type !== "chunked") {
+      throw new Error("HDF5 dataset is not chunked.");
+    }
+    if (layout.address === UNDEFINED_ADDRESS) return undefined;
+    const { chunkShape } = layout;
+    const chunkBytes = getNumElements(chunkShape) * dataset.datatype.size;
+    const gridShape = dataset.shape.map((size, i) =>
+      Math.ceil(size / chunkShape[i]),
+    );
+    let linearIndex = 0;
+    for (let i = 0; i < gridShape.length; ++i) {
+      linearIndex = linearIndex * gridShape[i] + chunkIndices[i];
+    }
+    switch (layout.indexType) {
+      case Hdf5ChunkIndexType.BTREE_V1:
+        return this.getBTreeV1Chunk(
+          layout.address,
+          chunkIndices.map((x, i) => x * chunkShape[i]),
+          cancellationToken,
+        );
+      case Hdf5ChunkIndexType.SINGLE_CHUNK:
+        return {
+          address: layout.address,
+          size: layout.singleChunkSize ?? chunkBytes,
+          filterMask: layout.singleChunkFilterMask ?? 0,
+        };
+      case Hdf5ChunkIndexType.IMPLICIT:
+        return {
+          address: layout.address + linearIndex * chunkBytes,
+          size: chunkBytes,
+          filterMask: 0,
+        };
+      case Hdf5ChunkIndexType.FIXED_ARRAY:
+        return this.getFixedArrayChunk(
+          layout.address,
+          linearIndex,
+          dataset.filters.length !== 0 ? undefined : chunkBytes,
+          cancellationToken,
+        );
+    }
+  }
+
+  private async getBTreeV1Chunk(
+    address: number,
+    chunkOffset: readonly number[],
+    cancellationToken: CancellationToken,
+  ): Promise<Hdf5Chunk | undefined> {
+    const rank = chunkOffset.length;
+    const keySize = 8 + 8 * (rank + 1);
+    const entrySize = keySize + this.sizeOfOffsets;
+    const compareKey = (cursor: Cursor) => {
+      for (let i = 0; i < rank; ++i) {
+        const value = cursor.uint(8);
+        if (value !== chunkOffset[i]) {
+          return value < chunkOffset[i] ? -1 : 1;
+        }
+      }
+      return 0;
+    };
+    while (true) {
+      const { level, numEntries, entries } = await this.readBTreeV1Node(
+        address,
+        1,
+        keySize,
+        cancellationToken,
+      );
+      // Find the last entry whose key is less than or equal to `chunkOffset`.
+      let found = -1;
+      let exact = false;
+      for (let i = 0; i < numEntries; ++i) {
+        entries.offset = i * entrySize + 8;
+        const comparison = compareKey(entries);
+        if (comparison > 0) break;
+        found = i;
+        exact = comparison === 0;
+      }
+      if (found === -1) return undefined;
+      entries.offset = found * entrySize;
+      const size = entries.u32();
+      const filterMask = entries.u32();
+      entries.offset = found * entrySize + keySize;
+      const child = entries.address();
+      if (level === 0) {
+        return exact ? { address: child, size, filterMask } : undefined;
+      }
+      address = child;
+    }
+  }
+
+  private async getFixedArrayChunk(
+    address: number,
+    index: number,
+    unfilteredChunkSize: number | undefined,
+    cancellationToken: CancellationToken,
+  ): Promise<Hdf5Chunk | undefined> {
+    const header = await this.cursor(
+      address,
+      8 + this.sizeOfLengths + this.sizeOfOffsets,
+      cancellationToken,
+    );
+    header.signature("FAHD");
+    header.skip(2); // version and client id
+    const entrySize = header.u8();
+    const pageBits = header.u8();
+    const numEntries = header.length();
+    const dataBlockAddress = header.address();
+    if (index >= numEntries) return undefined;
+    // The data block prefix consists of the signature, version, client id and header address.
+    let prefixSize = 6 + this.sizeOfOffsets;
+    const entriesPerPage = 2 ** pageBits;
+    let entryAddress: number;
+    if (numEntries > entriesPerPage) {
+      const numPages = Math.ceil(numEntries / entriesPerPage);
+      const bitmapSize = Math.ceil(numPages / 8);
+      const bitmap = await this.read(
+        dataBlockAddress + prefixSize,
+        bitmapSize,
+        cancellationToken,
+      );
+      const pageIndex = Math.floor(index / entriesPerPage);
+      if ((bitmap.getUint8(pageIndex >> 3) & (0x80 >> (pageIndex & 7))) === 0) {
+        return undefined;
+      }
+      // The prefix is followed by its checksum; each page is followed by its own checksum.
+      prefixSize += bitmapSize + 4;
+      entryAddress =
+        dataBlockAddress +
+        prefixSize +
+        pageIndex * (entriesPerPage * entrySize + 4) +
+        (index % entriesPerPage) * entrySize;
+    } else {
+      entryAddress = dataBlockAddress + prefixSize + index * entrySize;
+    }
+    const entry = await this.cursor(entryAddress, entrySize, cancellationToken);
+    const chunkAddress = entry.address();
+    if (chunkAddress === UNDEFINED_ADDRESS) return undefined;
+    // Entries for unfiltered chunks consist of only the address.
+    if (unfilteredChunkSize !== undefined) {
+      return {
+        address: chunkAddress,
+        size: unfilteredChunkSize,
+        filterMask: 0,
+      };
+    }
+    const size = entry.uint(entrySize - this.sizeOfOffsets - 4);
+    const filterMask = entry.u32();
+    return { address: chunkAddress, size, filterMask };
+  }
+
+  /**
+   * Reads the raw (possibly filtered) bytes of a chunk.
+   */
+  readChunk(
+    chunk: Hdf5Chunk,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Uint8Array> {
+    return this.readData(chunk.address, chunk.size, cancellationToken);
+  }
+
+  /**
+   * Reads a byte range of a contiguous dataset.
+   */
+  readContiguous(
+    dataset: Hdf5DatasetInfo,
+    offset: number,
+    length: number,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Uint8Array> {
+    const { layout } = dataset;
+    if (layout.type !== "contiguous") {
+      throw new Error("HDF5 dataset is not contiguous.");
+    }
+    if (layout.address === UNDEFINED_ADDRESS) {
+      // Storage has not been allocated, so the dataset contains only the fill value.
+      return Promise.resolve(new Uint8Array(length));
+    }
+    return this.readData(layout.address + offset, length, cancellationToken);
+  }
+
+  private async readData(
+    address: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ) {
+    const data = await this.readUncached(
+      this.baseAddress + address,
+      length,
+      cancellationToken,
+    );
+    if (data === undefined || data.length !== length) {
+      throw new Error("Unexpected end of HDF5 file.");
+    }
+    return data;
+  }
+}
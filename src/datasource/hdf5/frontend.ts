@@ -0,0 +1,399 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Data source for volumes and detection tables stored in HDF5 files.
+ */
+
+import {
+  AnnotationSource,
+  makeDataBoundsBoundingBoxAnnotationSet,
+} from "#src/annotation/index.js";
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type { CoordinateSpace } from "#src/coordinate_transform.js";
+import {
+  makeCoordinateSpace,
+  makeIdentityTransform,
+  makeIdentityTransformedBoundingBox,
+} from "#src/coordinate_transform.js";
+import { WithCredentialsProvider } from "#src/credentials_provider/chunk_source_frontend.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/hdf5/base.js";
+import { decodeChunk, getVolumeDataType } from "#src/datasource/hdf5/decode.js";
+import type {
+  Hdf5Dataset,
+  Hdf5DatasetInfo,
+} from "#src/datasource/hdf5/file.js";
+import { Hdf5File } from "#src/datasource/hdf5/file.js";
+import {
+  decodeDetectionTable,
+  getDetectionTableSchema,
+  getDimensionNames,
+  getDimensionScales,
+  isLabelDataset,
+} from "#src/datasource/hdf5/metadata.js";
+import type {
+  CompleteUrlOptions,
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  DataType,
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { getPrefixMatches } from "#src/util/completion.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import { completeHttpPath } from "#src/util/http_path_completion.js";
+import { getObjectId } from "#src/util/object_id.js";
+import type {
+  SpecialProtocolCredentials,
+  SpecialProtocolCredentialsProvider,
+} from "#src/util/special_protocol_request.js";
+import { parseSpecialUrl } from "#src/util/special_protocol_request.js";
+
+class Hdf5VolumeChunkSource extends WithParameters(
+  WithCredentialsProvider<SpecialProtocolCredentials>()(VolumeChunkSource),
+  VolumeChunkSourceParameters,
+) {}
+
+/**
+ * Target size in bytes of the chunks into which contiguous datasets are divided.
+ */
+const CONTIGUOUS_CHUNK_BYTES = 2 * 1024 * 1024;
+
+function getDatasetInfo(dataset: Hdf5Dataset): Hdf5DatasetInfo {
+  const {
+    shape,
+    datatype,
+    layout,
+    filters,
+    sizeOfOffsets,
+    sizeOfLengths,
+    baseAddress,
+  } = dataset;
+  return {
+    shape,
+    datatype,
+    layout,
+    filters,
+    sizeOfOffsets,
+    sizeOfLengths,
+    baseAddress,
+  };
+}
+
+export class MultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  get rank() {
+    return this.modelSpace.rank;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public credentialsProvider: SpecialProtocolCredentialsProvider,
+    public url: string,
+    public dataset: Hdf5DatasetInfo,
+    public dataType: DataType,
+    public modelSpace: CoordinateSpace,
+    public volumeType: VolumeType,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { dataset, rank } = this;
+    const { shape, layout } = dataset;
+    // HDF5 dimensions are in C order, while chunk dimensions are in Fortran order.
+    const chunkShape = new Uint32Array(rank);
+    const dataShape = new Float32Array(rank);
+    const transform = new Float32Array((rank + 1) ** 2);
+    transform[(rank + 1) ** 2 - 1] = 1;
+    for (let i = 0; i < rank; ++i) {
+      const hdf5Dim = rank - 1 - i;
+      dataShape[i] = shape[hdf5Dim];
+      transform[i + hdf5Dim * (rank + 1)] = 1;
+    }
+    if (layout.type === "chunked") {
+      for (let i = 0; i < rank; ++i) {
+        chunkShape[i] = layout.chunkShape[rank - 1 - i];
+      }
+    } else {
+      // Divide the dataset into slabs along the slowest varying dimension, so that each chunk is a
+      // single byte range.
+      let sliceBytes = dataset.datatype.size;
+      for (let i = 0; i < rank - 1; ++i) {
+        chunkShape[i] = dataShape[i];
+        sliceBytes *= dataShape[i];
+      }
+      chunkShape[rank - 1] = Math.max(
+        1,
+        Math.min(
+          dataShape[rank - 1],
+          Math.floor(CONTIGUOUS_CHUNK_BYTES / sliceBytes),
+        ),
+      );
+    }
+    return [
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform: transform,
+        dataType: this.dataType,
+        upperVoxelBound: dataShape,
+        volumeType: this.volumeType,
+        chunkDataSizes: [chunkShape],
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(Hdf5VolumeChunkSource, {
+            credentialsProvider: this.credentialsProvider,
+            spec,
+            parameters: { url: this.url, dataset },
+          }),
+          chunkToMultiscaleTransform: transform,
+        }),
+      ),
+    ];
+  }
+}
+
+function getFile(
+  chunkManager: ChunkManager,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  url: string,
+): Promise<Hdf5File> {
+  return chunkManager.memoize.getUncounted(
+    {
+      type: "hdf5:file",
+      url,
+      credentialsProvider: getObjectId(credentialsProvider),
+    },
+    () =>
+      Hdf5File.open(getSpecialProtocolKvStore(credentialsProvider, url), ""),
+  );
+}
+
+/**
+ * Reads the entire contents of a one-dimensional dataset.
+ */
+async function readDataset(file: Hdf5File, dataset: Hdf5Dataset) {
+  const { layout, datatype } = dataset;
+  const numElements = dataset.shape[0];
+  const byteLength = numElements * datatype.size;
+  if (layout.type === "contiguous") {
+    return file.readContiguous(dataset, 0, byteLength);
+  }
+  const output = new Uint8Array(byteLength);
+  const chunkBytes = layout.chunkShape[0] * datatype.size;
+  const numChunks = Math.ceil(numElements / layout.chunkShape[0]);
+  await Promise.all(
+    Array.from({ length: numChunks }, async (_, chunkIndex) => {
+      const chunk = await file.getChunk(dataset, [chunkIndex]);
+      if (chunk === undefined) return;
+      const data = await decodeChunk(
+        dataset.filters,
+        datatype.size,
+        await file.readChunk(chunk),
+        chunk.filterMask,
+        uncancelableToken,
+      );
+      const offset = chunkIndex * chunkBytes;
+      output.set(data.subarray(0, byteLength - offset), offset);
+    }),
+  );
+  return output;
+}
+
+const segmentationDataTypes = new Set([
+  DataType.UINT8,
+  DataType.UINT16,
+  DataType.UINT32,
+  DataType.UINT64,
+]);
+
+function getVolumeDataSource(
+  options: GetDataSourceOptions,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  url: string,
+  path: string,
+  dataset: Hdf5Dataset,
+): DataSource {
+  const rank = dataset.shape.length;
+  const dataType = getVolumeDataType(dataset.datatype);
+  const { units, scales } = getDimensionScales(dataset.attributes, rank);
+  const modelSpace = makeCoordinateSpace({
+    names: getDimensionNames(rank),
+    units,
+    scales,
+    boundingBoxes: [
+      makeIdentityTransformedBoundingBox({
+        lowerBounds: new Float64Array(rank),
+        upperBounds: Float64Array.from(dataset.shape),
+      }),
+    ],
+  });
+  const volume = new MultiscaleVolumeChunkSource(
+    options.chunkManager,
+    credentialsProvider,
+    url,
+    getDatasetInfo(dataset),
+    dataType,
+    modelSpace,
+    // Only unsigned integer datasets marked as labels are displayed as segmentations, since
+    // intensity images are commonly stored with the same data types.
+    segmentationDataTypes.has(dataType) &&
+    isLabelDataset(path, dataset.attributes)
+      ? VolumeType.SEGMENTATION
+      : VolumeType.IMAGE,
+  );
+  return {
+    modelTransform: makeIdentityTransform(modelSpace),
+    subsources: [
+      {
+        id: "default",
+        default: true,
+        subsource: { volume },
+      },
+      {
+        id: "bounds",
+        default: true,
+        subsource: {
+          staticAnnotations: makeDataBoundsBoundingBoxAnnotationSet(
+            modelSpace.bounds,
+          ),
+        },
+      },
+    ],
+  };
+}
+
+async function getAnnotationDataSource(
+  file: Hdf5File,
+  dataset: Hdf5Dataset,
+): Promise<DataSource | undefined> {
+  const schema = getDetectionTableSchema(dataset);
+  if (schema === undefined) return undefined;
+  const rank = schema.dimensionNames.length;
+  const { units, scales } = getDimensionScales(dataset.attributes, rank);
+  const modelSpace = makeCoordinateSpace({
+    names: schema.dimensionNames,
+    units,
+    scales,
+  });
+  const annotations = new AnnotationSource(rank, [], schema.properties);
+  for (const annotation of decodeDetectionTable(
+    schema,
+    dataset.datatype.size,
+    await readDataset(file, dataset),
+  )) {
+    annotations.add(annotation);
+  }
+  annotations.readonly = true;
+  return {
+    modelTransform: makeIdentityTransform(modelSpace),
+    subsources: [
+      {
+        id: "default",
+        default: true,
+        subsource: { staticAnnotations: annotations },
+      },
+    ],
+  };
+}
+
+/**
+ * Matches the URL of an HDF5 file, identified by its extension, optionally followed by the path of
+ * an object within the file.
+ */
+const hdf5UrlPattern = /^(.*?\.(?:h5|hdf5|hdf|he5))(?:\/(.*))?$/i;
+
+function splitHdf5Url(providerUrl: string) {
+  const match = providerUrl.match(hdf5UrlPattern);
+  if (match === null) {
+    throw new Error(
+      "HDF5 file URL must have an extension of .h5, .hdf5, .hdf, or .he5",
+    );
+  }
+  return { fileUrl: match[1], path: match[2] ?? "" };
+}
+
+export class Hdf5DataSource extends DataSourceProvider {
+  get description() {
+    return "HDF5 data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const { fileUrl, path } = splitHdf5Url(options.providerUrl);
+    return options.chunkManager.memoize.getUncounted(
+      { type: "hdf5:DataSource", fileUrl, path },
+      async () => {
+        const { url, credentialsProvider } = parseSpecialUrl(
+          fileUrl,
+          options.credentialsManager,
+        );
+        const file = await getFile(
+          options.chunkManager,
+          credentialsProvider,
+          url,
+        );
+        const object = await file.getObjectByPath(path);
+        if (object.kind === "group") {
+          throw new Error(
+            `HDF5 path ${JSON.stringify(`/${path}`)} is a group containing: ` +
+              `${Array.from(object.links.keys()).join(", ")}`,
+          );
+        }
+        const annotationSource = await getAnnotationDataSource(file, object);
+        if (annotationSource !== undefined) return annotationSource;
+        return getVolumeDataSource(
+          options,
+          credentialsProvider,
+          url,
+          path,
+          object,
+        );
+      },
+    );
+  }
+
+  async completeUrl(options: CompleteUrlOptions) {
+    const { providerUrl } = options;
+    const match = providerUrl.match(hdf5UrlPattern);
+    if (match === null || match[2] === undefined) {
+      return await completeHttpPath(
+        options.credentialsManager,
+        providerUrl,
+        options.cancellationToken,
+      );
+    }
+    // Complete the path of an object within the file.
+    const path = match[2];
+    const groupPathLength = path.lastIndexOf("/") + 1;
+    const { url, credentialsProvider } = parseSpecialUrl(
+      match[1],
+      options.credentialsManager,
+    );
+    const file = await getFile(options.chunkManager, credentialsProvider, url);
+    const group = await file.getObjectByPath(
+      path.substring(0, groupPathLength),
+    );
+    if (group.kind !== "group") throw null;
+    return {
+      offset: providerUrl.length - path.length + groupPathLength,
+      completions: getPrefixMatches(
+        path.substring(groupPathLength),
+        group.links.keys(),
+      ),
+    };
+  }
+}
@@ -0,0 +1,152 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the interpretation of HDF5 datasets.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import type { Point } from "#src/annotation/index.js";
+import { AnnotationType } from "#src/annotation/index.js";
+import type { Hdf5Attribute, Hdf5Dataset } from "#src/datasource/hdf5/file.js";
+import { Hdf5DatatypeClass, Hdf5File } from "#src/datasource/hdf5/file.js";
+import {
+  decodeDetectionTable,
+  getDetectionTableSchema,
+  getDimensionScales,
+  isLabelDataset,
+} from "#src/datasource/hdf5/metadata.js";
+import type { ReadableKvStore, ReadOptions } from "#src/kvstore/index.js";
+
+class InMemoryKvStore implements ReadableKvStore {
+  constructor(public data: Uint8Array) {}
+  async read(key: string, options: ReadOptions) {
+    key;
+    const { data } = this;
+    const { offset, length } = options.byteRange as {
+      offset: number;
+      length: number;
+    };
+    const end = Math.min(data.length, offset + length);
+    return {
+      data: data.slice(offset, end),
+      dataRange: { offset, length: end - offset },
+      totalSize: data.length,
+    };
+  }
+}
+
+async function getTestDataset(name: string) {
+  const data = await fs.readFile(
+    path.resolve(
+      import.meta.dirname,
+      "..",
+      "..",
+      "..",
+      "testdata",
+      "hdf5_test.v3.h5",
+    ),
+  );
+  const file = await Hdf5File.open(
+    new InMemoryKvStore(new Uint8Array(data)),
+    "",
+  );
+  return { file, dataset: (await file.getObjectByPath(name)) as Hdf5Dataset };
+}
+
+describe("getDimensionScales", () => {
+  it("converts the resolution attribute to meters", async () => {
+    const { dataset } = await getTestDataset("/volumes/raw");
+    const { units, scales } = getDimensionScales(dataset.attributes, 3);
+    expect(units).toEqual(["m", "m", "m"]);
+    expect(Array.from(scales)).toEqual([40e-9, 4e-9, 4e-9]);
+  });
+
+  it("defaults to unitless dimensions", async () => {
+    const { dataset } = await getTestDataset("/volumes/contiguous");
+    const { units, scales } = getDimensionScales(dataset.attributes, 3);
+    expect(units).toEqual(["", "", ""]);
+    expect(Array.from(scales)).toEqual([1, 1, 1]);
+  });
+});
+
+describe("isLabelDataset", () => {
+  function makeStringAttribute(value: string): Hdf5Attribute {
+    const data = new TextEncoder().encode(value);
+    return {
+      datatype: {
+        class: Hdf5DatatypeClass.STRING,
+        size: data.length,
+        littleEndian: true,
+        signed: false,
+      },
+      shape: [],
+      data,
+    };
+  }
+
+  it("recognizes label paths", () => {
+    expect(isLabelDataset("volumes/labels/neuron_ids", new Map())).toBe(true);
+    expect(isLabelDataset("segmentation", new Map())).toBe(true);
+    expect(isLabelDataset("cell_seg", new Map())).toBe(true);
+  });
+
+  it("recognizes the type attribute", () => {
+    expect(
+      isLabelDataset(
+        "exported_data",
+        new Map([["type", makeStringAttribute("segmentation")]]),
+      ),
+    ).toBe(true);
+    expect(
+      isLabelDataset(
+        "exported_data",
+        new Map([["type", makeStringAttribute("image")]]),
+      ),
+    ).toBe(false);
+  });
+
+  it("treats other datasets as images", async () => {
+    const { dataset } = await getTestDataset("/volumes/raw");
+    expect(isLabelDataset("volumes/raw", dataset.attributes)).toBe(false);
+    expect(isLabelDataset("volumes/segments_raw", new Map())).toBe(false);
+  });
+});
+
+describe("detection tables", () => {
+  it("converts rows to point annotations", async () => {
+    const { file, dataset } = await getTestDataset("/detections");
+    const schema = getDetectionTableSchema(dataset)!;
+    expect(schema.dimensionNames).toEqual(["z", "y", "x"]);
+    expect(schema.properties.map((p) => [p.identifier, p.type])).toEqual([
+      ["score", "float32"],
+      ["label", "uint8"],
+    ]);
+    const annotations = decodeDetectionTable(
+      schema,
+      dataset.datatype.size,
+      await file.readContiguous(dataset, 0, 3 * dataset.datatype.size),
+    ) as Point[];
+    expect(annotations.map((a) => a.type)).toEqual([
+      AnnotationType.POINT,
+      AnnotationType.POINT,
+      AnnotationType.POINT,
+    ]);
+    expect(annotations.map((a) => a.id)).toEqual(["0", "1", "2"]);
+    expect(Array.from(annotations[2].point)).toEqual([7.5, 8, 9]);
+    expect(annotations.map((a) => a.properties)).toEqual([
+      [0.5, 1],
+      [0.25, 2],
+      [1, 0],
+    ]);
+  });
+
+  it("ignores volumes", async () => {
+    const { dataset } = await getTestDataset("/volumes/raw");
+    expect(getDetectionTableSchema(dataset)).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Interpretation of HDF5 datasets as volumes and annotation tables.
+ *
+ * HDF5 does not define how dimensions are named or scaled, so the conventions of common writers
+ * are followed: a `resolution` attribute gives the voxel size in nanometers, as written by
+ * CREMI-style files, and an `element_size_um` attribute gives the voxel size in micrometers, as
+ * written by ilastik and Fiji.  Both are in C (slowest varying first) order.
+ */
+
+import type {
+  Annotation,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
+import { AnnotationType } from "#src/annotation/index.js";
+import type {
+  Hdf5Attribute,
+  Hdf5CompoundMember,
+  Hdf5Dataset,
+} from "#src/datasource/hdf5/file.js";
+import {
+  decodeFixedLengthString,
+  getNumericAttributeValues,
+  Hdf5DatatypeClass,
+  readNumber,
+} from "#src/datasource/hdf5/file.js";
+
+export interface Hdf5DimensionScales {
+  units: string[];
+  scales: Float64Array;
+}
+
+/**
+ * Returns the default names of the dimensions of a dataset, in C order.
+ */
+export function getDimensionNames(rank: number): string[] {
+  if (rank === 3) return ["z", "y", "x"];
+  return Array.from({ length: rank }, (_, i) => `d${i}`);
+}
+
+/**
+ * Returns the scale of each of the `rank` dimensions, in C order, from the `resolution` or
+ * `element_size_um` attribute.  Dimensions are unitless with a scale of 1 if neither attribute is
+ * present with a matching length.
+ */
+export function getDimensionScales(
+  attributes: Map<string, Hdf5Attribute>,
+  rank: number,
+): Hdf5DimensionScales {
+  for (const [name, factor] of [
+    ["resolution", 1e-9],
+    ["element_size_um", 1e-6],
+  ] as const) {
+    const attribute = attributes.get(name);
+    if (attribute === undefined) continue;
+    const values = getNumericAttributeValues(attribute);
+    if (
+      values === undefined ||
+      values.length !== rank ||
+      !values.every((x) => Number.isFinite(x) && x > 0)
+    ) {
+      continue;
+    }
+    return {
+      units: values.map(() => "m"),
+      scales: Float64Array.from(values, (x) => x * factor),
+    };
+  }
+  return {
+    units: new Array<string>(rank).fill(""),
+    scales: new Float64Array(rank).fill(1),
+  };
+}
+
+const labelPathComponentPattern =
+  /^(labels?|segmentations?|seg|neuron_ids)$|_(labels?|segmentation|seg)$/i;
+
+/**
+ * Returns `true` if the dataset at `path` is marked as a label volume, either by a `"type"`
+ * attribute of `"segmentation"`, as in the precomputed `info` file, or by a component of its path,
+ * such as `volumes/labels/neuron_ids` in CREMI files.
+ */
+export function isLabelDataset(
+  path: string,
+  attributes: Map<string, Hdf5Attribute>,
+): boolean {
+  const type = attributes.get("type");
+  if (
+    type !== undefined &&
+    type.datatype.class === Hdf5DatatypeClass.STRING &&
+    decodeFixedLengthString(type.data) === "segmentation"
+  ) {
+    return true;
+  }
+  return path.split("/").some((x) => labelPathComponentPattern.test(x));
+}
+
+const coordinateFieldNames = ["z", "y", "x"];
+
+/**
+ * Describes how the rows of a compound dataset are converted to point annotations.
+ */
+export interface DetectionTableSchema {
+  /**
+   * Names of the annotation dimensions, which are the names of the coordinate fields.
+   */
+  dimensionNames: string[];
+  coordinateMembers: Hdf5CompoundMember[];
+  propertyMembers: Hdf5CompoundMember[];
+  properties: AnnotationPropertySpec[];
+  descriptionMember: Hdf5CompoundMember | undefined;
+}
+
+function getPropertyIdentifier(name: string) {
+  let identifier = name.replace(/[^a-zA-Z0-9_]/g, "_");
+  identifier = identifier[0].toLowerCase() + identifier.substring(1);
+  if (!/^[a-z]/.test(identifier)) identifier = `p${identifier}`;
+  return identifier;
+}
+
+function getPropertyType(member: Hdf5CompoundMember) {
+  let { datatype } = member;
+  if (datatype.class === Hdf5DatatypeClass.ENUM) datatype = datatype.base!;
+  const { size, signed } = datatype;
+  switch (datatype.class) {
+    case Hdf5DatatypeClass.FLOATING_POINT:
+      return "float32";
+    case Hdf5DatatypeClass.FIXED_POINT:
+      // 64-bit integers are represented approximately.
+      if (size > 4) return "float32";
+      return `${signed ? "int" : "uint"}${size * 8}` as
+        | "int8"
+        | "uint8"
+        | "int16"
+        | "uint16"
+        | "int32"
+        | "uint32";
+  }
+  return undefined;
+}
+
+/**
+ * Returns the schema of a table of detections, or `undefined` if the dataset is not a
+ * one-dimensional compound dataset with at least one of the coordinate fields `z`, `y`, and `x`.
+ *
+ * Other numeric fields become annotation properties, and a fixed-length string field named
+ * `description` becomes the annotation description.
+ */
+export function getDetectionTableSchema(
+  dataset: Hdf5Dataset,
+): DetectionTableSchema | undefined {
+  const { datatype } = dataset;
+  if (
+    datatype.class !== Hdf5DatatypeClass.COMPOUND ||
+    dataset.shape.length !== 1
+  ) {
+    return undefined;
+  }
+  const members = datatype.members!;
+  const coordinateMembers: Hdf5CompoundMember[] = [];
+  for (const name of coordinateFieldNames) {
+    const member = members.find((m) => m.name.toLowerCase() === name);
+    if (member !== undefined && getPropertyType(member) !== undefined) {
+      coordinateMembers.push(member);
+    }
+  }
+  if (coordinateMembers.length === 0) return undefined;
+  const propertyMembers: Hdf5CompoundMember[] = [];
+  const properties: AnnotationPropertySpec[] = [];
+  const identifiers = new Set<string>();
+  let descriptionMember: Hdf5CompoundMember | undefined;
+  for (const member of members) {
+    if (coordinateMembers.includes(member)) continue;
+    if (
+      member.name === "description" &&
+      member.datatype.class === Hdf5DatatypeClass.STRING
+    ) {
+      descriptionMember = member;
+      continue;
+    }
+    const type = getPropertyType(member);
+    if (type === undefined) continue;
+    let identifier = getPropertyIdentifier(member.name);
+    for (let i = 1; identifiers.has(identifier); ++i) {
+      identifier = `${getPropertyIdentifier(member.name)}${i}`;
+    }
+    identifiers.add(identifier);
+    propertyMembers.push(member);
+    properties.push({
+      type,
+      identifier,
+      description: identifier === member.name ? undefined : member.name,
+      default: 0,
+    });
+  }
+  return {
+    dimensionNames: coordinateMembers.map((m) => m.name),
+    coordinateMembers,
+    propertyMembers,
+    properties,
+    descriptionMember,
+  };
+}
+
+/**
+ * Converts the raw rows of a detection table to point annotations.  The id of each annotation is
+ * its row index.
+ */
+export function decodeDetectionTable(
+  schema: DetectionTableSchema,
+  rowSize: number,
+  data: Uint8Array,
+): Annotation[] {
+  const { coordinateMembers, propertyMembers, descriptionMember } = schema;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const numRows = Math.floor(data.byteLength / rowSize);
+  const annotations: Annotation[] = [];
+  for (let row = 0; row < numRows; ++row) {
+    const offset = row * rowSize;
+    const point = new Float32Array(coordinateMembers.length);
+    coordinateMembers.forEach((member, i) => {
+      point[i] = readNumber(view, offset + member.offset, member.datatype);
+    });
+    const description =
+      descriptionMember === undefined
+        ? undefined
+        : decodeFixedLengthString(
+            data.subarray(
+              offset + descriptionMember.offset,
+              offset +
+                descriptionMember.offset +
+                descriptionMember.datatype.size,
+            ),
+          ) || undefined;
+    annotations.push({
+      type: AnnotationType.POINT,
+      id: `${row}`,
+      point,
+      description,
+      properties: propertyMembers.map((member) =>
+        readNumber(view, offset + member.offset, member.datatype),
+      ),
+    });
+  }
+  return annotations;
+}
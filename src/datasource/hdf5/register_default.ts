@@ -0,0 +1,13 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Registers the HDF5 data source.
+ */
+
+import { registerProvider } from "#src/datasource/default_provider.js";
+import { Hdf5DataSource } from "#src/datasource/hdf5/frontend.js";
+
+registerProvider("hdf5", () => new Hdf5DataSource());
@@ -0,0 +1,334 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for writes to writable precomputed annotation collections.
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { Annotation, Point } from "#src/annotation/index.js";
+import { AnnotationType } from "#src/annotation/index.js";
+import {
+  AnnotationBlockWriter,
+  AnnotationByIdWriter,
+  getAnnotationBlockKey,
+} from "#src/datasource/precomputed/annotation_writes.js";
+import { MemoryKvStore } from "#src/kvstore/memory.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import { serveStatus } from "#src/kvstore/testing.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { HttpError } from "#src/util/http_request.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+function makePoint(x: number, y: number): Point {
+  return {
+    type: AnnotationType.POINT,
+    id: "",
+    point: Float32Array.of(x, y),
+    properties: [],
+  };
+}
+
+// Encodes annotations as JSON, which suffices to check what is written.
+function encode(annotation: Annotation) {
+  const { id, point } = annotation as Point;
+  return new TextEncoder().encode(
+    JSON.stringify({ id, point: Array.from(point) }),
+  );
+}
+
+async function readJson(kvStore: MemoryKvStore, key: string) {
+  const response = await kvStore.read(key);
+  if (response === undefined) return undefined;
+  return JSON.parse(new TextDecoder().decode(response.data));
+}
+
+describe("AnnotationByIdWriter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("adds, updates and deletes annotations", async () => {
+    const kvStore = new MemoryKvStore();
+    const writer = new AnnotationByIdWriter(kvStore, encode);
+    const id = await writer.add(makePoint(1, 2));
+    expect(id).toMatch(/^[0-9]+$/);
+    expect(await readJson(kvStore, id)).toEqual({ id, point: [1, 2] });
+
+    await writer.update(id, makePoint(3, 4));
+    expect(await readJson(kvStore, id)).toEqual({ id, point: [3, 4] });
+
+    await writer.delete(id);
+    expect(await kvStore.read(id)).toBeUndefined();
+  });
+
+  it("assigns distinct ids", async () => {
+    const kvStore = new MemoryKvStore();
+    const writer = new AnnotationByIdWriter(kvStore, encode);
+    const a = await writer.add(makePoint(1, 2));
+    const b = await writer.add(makePoint(1, 2));
+    expect(a).not.toEqual(b);
+    expect((await kvStore.list({ prefix: "" })).entries.length).toBe(2);
+  });
+
+  it("does not overwrite an existing annotation when adding", async () => {
+    const kvStore = new MemoryKvStore();
+    const writer = new AnnotationByIdWriter(kvStore, encode);
+    const id = await writer.add(makePoint(1, 2));
+    // Force a collision with the existing id.
+    vi.spyOn(Uint64, "random").mockReturnValueOnce(Uint64.parseString(id));
+    await expect(writer.add(makePoint(5, 6))).rejects.toThrow(/already exists/);
+    expect(await readJson(kvStore, id)).toEqual({ id, point: [1, 2] });
+  });
+
+  describe("over HTTP", () => {
+    function makeWriter() {
+      return new AnnotationByIdWriter(
+        getSpecialProtocolKvStore(undefined, "https://example.com/by_id/"),
+        encode,
+      );
+    }
+
+    it("sends conditional PUT requests to add annotations", async () => {
+      const requests = serveStatus(201);
+      const id = await makeWriter().add(makePoint(1, 2));
+      expect(requests.length).toBe(1);
+      const { url, method, headers } = requests[0];
+      expect(url).toBe(`https://example.com/by_id/${id}`);
+      expect(method).toBe("PUT");
+      expect(headers.get("if-none-match")).toBe("*");
+    });
+
+    it("sends unconditional PUT and DELETE requests", async () => {
+      const requests = serveStatus(204);
+      const writer = makeWriter();
+      await writer.update("5", makePoint(1, 2));
+      await writer.delete("5");
+      expect(requests.map(({ url, method }) => [method, url])).toEqual([
+        ["PUT", "https://example.com/by_id/5"],
+        ["DELETE", "https://example.com/by_id/5"],
+      ]);
+      for (const { headers } of requests) {
+        expect(headers.has("if-match")).toBe(false);
+        expect(headers.has("if-none-match")).toBe(false);
+      }
+    });
+
+    it("reports a failed precondition when adding", async () => {
+      serveStatus(412);
+      await expect(makeWriter().add(makePoint(1, 2))).rejects.toThrow(
+        /already exists/,
+      );
+    });
+
+    it("treats deleting a missing annotation as success", async () => {
+      serveStatus(404);
+      await expect(makeWriter().delete("5")).resolves.toBeUndefined();
+    });
+
+    it("reports error statuses", async () => {
+      for (const status of [403, 500]) {
+        serveStatus(status);
+        const writer = makeWriter();
+        for (const promise of [
+          writer.add(makePoint(1, 2)),
+          writer.update("5", makePoint(1, 2)),
+        ]) {
+          const error = await promise.then(
+            () => undefined,
+            (e) => e,
+          );
+          expect(error).toBeInstanceOf(HttpError);
+          expect((error as HttpError).status).toBe(status);
+        }
+      }
+      serveStatus(500);
+      await expect(makeWriter().delete("5")).rejects.toBeInstanceOf(HttpError);
+    });
+  });
+});
+
+const grid = {
+  lowerBounds: [0, 0],
+  blockSize: [10, 10],
+  gridShape: [2, 2],
+};
+
+const blockEncoding = {
+  encode(annotations: Annotation[]) {
+    return new TextEncoder().encode(
+      JSON.stringify(annotations.map((a) => JSON.parse(decode(encode(a))))),
+    );
+  },
+  decode(data: Uint8Array): Annotation[] {
+    return JSON.parse(decode(data)).map(
+      ({ id, point }: { id: string; point: number[] }) => ({
+        ...makePoint(point[0], point[1]),
+        id,
+      }),
+    );
+  },
+};
+
+function decode(data: Uint8Array) {
+  return new TextDecoder().decode(data);
+}
+
+function makeBlockWriter(kvStore = new MemoryKvStore()) {
+  const invalidated: string[] = [];
+  const writer = new AnnotationBlockWriter(
+    kvStore,
+    grid,
+    blockEncoding,
+    (key) => {
+      invalidated.push(key);
+    },
+  );
+  return { kvStore, writer, invalidated };
+}
+
+async function readBlock(kvStore: MemoryKvStore, key: string) {
+  return (await readJson(kvStore, key))?.map(
+    ({ point }: { point: number[] }) => point,
+  );
+}
+
+describe("getAnnotationBlockKey", () => {
+  it("returns the block containing the first point", () => {
+    expect(getAnnotationBlockKey(grid, makePoint(15, 5))).toBe("1,0");
+  });
+
+  it("clamps to the grid", () => {
+    expect(getAnnotationBlockKey(grid, makePoint(-5, 50))).toBe("0,1");
+  });
+});
+
+describe("AnnotationBlockWriter", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("writes the blocks modified by each edit", async () => {
+    const { kvStore, writer, invalidated } = makeBlockWriter();
+    const a = await writer.add(makePoint(1, 2));
+    const b = await writer.add(makePoint(3, 4));
+    expect(await readBlock(kvStore, "0_0")).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(invalidated).toEqual(["0,0", "0,0"]);
+
+    // Moving an annotation to another block writes both blocks.
+    await writer.update(a, makePoint(15, 2));
+    expect(await readBlock(kvStore, "1_0")).toEqual([[15, 2]]);
+    expect(await readBlock(kvStore, "0_0")).toEqual([[3, 4]]);
+    expect(invalidated.slice(2)).toEqual(["1,0", "0,0"]);
+    expect(await writer.getAnnotation(a, uncancelableToken)).toEqual({
+      ...makePoint(15, 2),
+      id: a,
+    });
+
+    // Emptied blocks are deleted.
+    await writer.delete(b);
+    expect(await kvStore.read("0_0")).toBeUndefined();
+    expect(await writer.getAnnotation(b, uncancelableToken)).toBeNull();
+    await expect(writer.delete(b)).rejects.toThrow(/not found/);
+  });
+
+  it("serves written blocks from memory", async () => {
+    const { kvStore, writer } = makeBlockWriter();
+    const id = await writer.add(makePoint(1, 2));
+    const read = vi.spyOn(kvStore, "read");
+    expect(Array.from(writer.getCachedBlock("0,0")!)).toEqual([
+      { ...makePoint(1, 2), id },
+    ]);
+    await writer.update(id, makePoint(5, 6));
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it("edits annotations of blocks retrieved for display", async () => {
+    const kvStore = new MemoryKvStore();
+    await kvStore.write(
+      "1_1",
+      blockEncoding.encode([{ ...makePoint(15, 15), id: "7" }]),
+    );
+    const { writer } = makeBlockWriter(kvStore);
+    expect(writer.getCachedBlock("1,1")).toBeUndefined();
+    await expect(writer.update("7", makePoint(16, 16))).rejects.toThrow(
+      /not found/,
+    );
+    writer.recordBlockIds("1,1", ["7"]);
+    await writer.update("7", makePoint(16, 16));
+    expect(await readBlock(kvStore, "1_1")).toEqual([[16, 16]]);
+  });
+
+  it("applies edits one at a time", async () => {
+    const { kvStore, writer } = makeBlockWriter();
+    await Promise.all([
+      writer.add(makePoint(1, 2)),
+      writer.add(makePoint(3, 4)),
+      writer.add(makePoint(5, 6)),
+    ]);
+    expect(await readBlock(kvStore, "0_0")).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+  });
+
+  it("reports blocks modified concurrently by another client", async () => {
+    const { kvStore, writer, invalidated } = makeBlockWriter();
+    const id = await writer.add(makePoint(1, 2));
+    // Another client adds an annotation to the same block.
+    await kvStore.write(
+      "0_0",
+      blockEncoding.encode([
+        { ...makePoint(1, 2), id },
+        { ...makePoint(3, 4), id: "8" },
+      ]),
+    );
+    invalidated.length = 0;
+    await expect(writer.update(id, makePoint(5, 6))).rejects.toThrow(
+      /modified concurrently/,
+    );
+    expect(invalidated).toEqual(["0,0"]);
+    expect(await readBlock(kvStore, "0_0")).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+
+    // The block is retrieved again, so retrying the edit preserves the other modification.
+    expect(writer.getCachedBlock("0,0")).toBeUndefined();
+    await writer.update(id, makePoint(5, 6));
+    expect(await readBlock(kvStore, "0_0")).toEqual([
+      [5, 6],
+      [3, 4],
+    ]);
+  });
+
+  it("reports blocks deleted concurrently by another client", async () => {
+    const { kvStore, writer } = makeBlockWriter();
+    const id = await writer.add(makePoint(1, 2));
+    await kvStore.delete("0_0");
+    await expect(writer.delete(id)).rejects.toThrow(/modified concurrently/);
+  });
+
+  it("does not modify blocks retrieved without a generation", async () => {
+    const kvStore = new MemoryKvStore();
+    await kvStore.write(
+      "0_0",
+      blockEncoding.encode([{ ...makePoint(1, 2), id: "7" }]),
+    );
+    const read = kvStore.read.bind(kvStore);
+    vi.spyOn(kvStore, "read").mockImplementation(async (key, options) => {
+      const response = await read(key, options);
+      return response && { ...response, generation: undefined };
+    });
+    const { writer } = makeBlockWriter(kvStore);
+    await expect(writer.add(makePoint(3, 4))).rejects.toThrow(/generation/);
+    expect(await readBlock(kvStore, "0_0")).toEqual([[1, 2]]);
+  });
+});
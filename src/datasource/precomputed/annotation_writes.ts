@@ -0,0 +1,299 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Writes of edited annotations to writable precomputed annotation collections.
+ *
+ * Writes go through a key-value store, and the encoding of annotations is supplied by the caller,
+ * such that the write logic is independent of the chunk sources that use it.
+ */
+
+import type { Annotation, AnnotationId } from "#src/annotation/index.js";
+import { annotationTypeHandlers } from "#src/annotation/index.js";
+import type { ReadableKvStore, WritableKvStore } from "#src/kvstore/index.js";
+import { NO_VALUE_GENERATION } from "#src/kvstore/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+/**
+ * Writes annotations of a collection in the by-id format, in which each annotation is stored
+ * under the key given by its id.
+ */
+export class AnnotationByIdWriter {
+  constructor(
+    public kvStore: WritableKvStore,
+    public encode: (annotation: Annotation) => Uint8Array,
+  ) {}
+
+  /**
+   * Writes a new annotation under a randomly chosen id, which is returned.
+   */
+  async add(annotation: Annotation): Promise<AnnotationId> {
+    const id = Uint64.random().toString();
+    // Fail rather than overwrite an existing annotation in the unlikely event of an id collision.
+    const response = await this.kvStore.write(
+      id,
+      this.encode({ ...annotation, id }),
+      { ifGenerationMatch: NO_VALUE_GENERATION },
+    );
+    if (response === undefined) {
+      throw new Error(`Annotation already exists: ${id}`);
+    }
+    return id;
+  }
+
+  async update(id: AnnotationId, newAnnotation: Annotation) {
+    await this.kvStore.write(id, this.encode({ ...newAnnotation, id }), {});
+  }
+
+  async delete(id: AnnotationId) {
+    await this.kvStore.delete(id, {});
+  }
+}
+
+export interface AnnotationBlockGrid {
+  lowerBounds: ArrayLike<number>;
+  blockSize: ArrayLike<number>;
+  gridShape: ArrayLike<number>;
+}
+
+/**
+ * Returns the key of the block containing `annotation`, which is the block containing its first
+ * point.  Keys are the same as the keys of the corresponding geometry chunks.
+ */
+export function getAnnotationBlockKey(
+  grid: AnnotationBlockGrid,
+  annotation: Annotation,
+) {
+  const { lowerBounds, blockSize, gridShape } = grid;
+  let point: Float32Array | undefined;
+  annotationTypeHandlers[annotation.type].visitGeometry(
+    annotation,
+    (vec, isVector) => {
+      if (point === undefined && !isVector) point = vec;
+    },
+  );
+  return Array.from(lowerBounds, (lower, i) =>
+    Math.min(
+      gridShape[i] - 1,
+      Math.max(0, Math.floor((point![i] - lower) / blockSize[i])),
+    ),
+  ).join();
+}
+
+/**
+ * Returns the key-value store key of the block with the specified geometry chunk key.
+ */
+export function getAnnotationBlockStoreKey(key: string) {
+  return key.split(",").join("_");
+}
+
+export interface AnnotationBlockEncoding {
+  encode(annotations: Annotation[]): Uint8Array;
+  decode(data: Uint8Array): Annotation[];
+}
+
+interface AnnotationBlock {
+  annotations: Map<AnnotationId, Annotation>;
+  // Generation of the stored block, `NO_VALUE_GENERATION` if it does not exist, or `undefined` if
+  // the store did not report one.
+  generation: string | undefined;
+}
+
+/**
+ * Applies edits to the blocks of a blocked annotation collection, as described in
+ * `annotation_blocks.md`.  Each block is written on the condition that it has not changed since
+ * it was last read or written, such that edits made concurrently by other clients are reported as
+ * conflicts rather than overwritten.
+ */
+export class AnnotationBlockWriter {
+  // Key of the block containing each annotation in a retrieved block.
+  private annotationBlocks = new Map<AnnotationId, string>();
+
+  // Contents of each block that has been read for an edit or written.  These are used in place of
+  // the stored blocks, so that they need not be retrieved again.
+  private blocks = new Map<string, AnnotationBlock>();
+
+  // Edits are applied one at a time, since each one reads and then writes entire blocks.
+  private lastEdit: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param invalidateBlock Called with the key of each block whose previously retrieved contents
+   *     are stale, because it was written or found to have been modified by another client.
+   */
+  constructor(
+    public kvStore: ReadableKvStore & WritableKvStore,
+    public grid: AnnotationBlockGrid,
+    public encoding: AnnotationBlockEncoding,
+    public invalidateBlock: (key: string) => void,
+  ) {}
+
+  /**
+   * Returns the current contents of a block that has been read for an edit or written, or
+   * `undefined` if the stored block must be retrieved.
+   */
+  getCachedBlock(key: string): Iterable<Annotation> | undefined {
+    return this.blocks.get(key)?.annotations.values();
+  }
+
+  /**
+   * Records the ids of the annotations in a block retrieved for display, such that they can be
+   * looked up and edited.
+   */
+  recordBlockIds(key: string, ids: Iterable<AnnotationId>) {
+    for (const id of ids) {
+      this.annotationBlocks.set(id, key);
+    }
+  }
+
+  private async getBlock(
+    key: string,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<AnnotationBlock> {
+    let block = this.blocks.get(key);
+    if (block !== undefined) return block;
+    const response = await this.kvStore.read(getAnnotationBlockStoreKey(key), {
+      cancellationToken,
+    });
+    block = {
+      annotations: new Map(),
+      generation:
+        response === undefined ? NO_VALUE_GENERATION : response.generation,
+    };
+    if (response !== undefined) {
+      for (const annotation of this.encoding.decode(response.data)) {
+        block.annotations.set(annotation.id, annotation);
+      }
+      this.recordBlockIds(key, block.annotations.keys());
+    }
+    this.blocks.set(key, block);
+    return block;
+  }
+
+  /**
+   * Returns the annotation with the specified id, or `null` if it is not in a block that has been
+   * retrieved.
+   */
+  async getAnnotation(
+    id: AnnotationId,
+    cancellationToken: CancellationToken,
+  ): Promise<Annotation | null> {
+    const key = this.annotationBlocks.get(id);
+    if (key === undefined) return null;
+    const block = await this.getBlock(key, cancellationToken);
+    return block.annotations.get(id) ?? null;
+  }
+
+  private edit<T>(callback: () => Promise<T>): Promise<T> {
+    const result = this.lastEdit.then(callback);
+    this.lastEdit = result.catch(() => {});
+    return result;
+  }
+
+  private conflict(key: string): never {
+    // Discard the stale contents, such that the block is retrieved again.
+    this.blocks.delete(key);
+    this.invalidateBlock(key);
+    throw new Error(
+      `Annotation block ${getAnnotationBlockStoreKey(key)} was modified concurrently`,
+    );
+  }
+
+  /**
+   * Writes the new contents of modified blocks, in order.  Empty blocks are deleted.
+   */
+  private async writeBlocks(
+    blocks: Map<string, Map<AnnotationId, Annotation>>,
+  ) {
+    for (const [key, annotations] of blocks) {
+      const storeKey = getAnnotationBlockStoreKey(key);
+      const { generation } = await this.getBlock(key);
+      if (generation === undefined) {
+        // Writing without a condition could silently discard concurrent edits.
+        throw new Error(
+          `Annotation block ${storeKey} was retrieved without a generation (ETag), ` +
+            "so it cannot be modified safely",
+        );
+      }
+      let newGeneration: string | undefined;
+      if (annotations.size === 0) {
+        if (
+          !(await this.kvStore.delete(storeKey, {
+            ifGenerationMatch: generation,
+          }))
+        ) {
+          this.conflict(key);
+        }
+        newGeneration = NO_VALUE_GENERATION;
+      } else {
+        const response = await this.kvStore.write(
+          storeKey,
+          this.encoding.encode(Array.from(annotations.values())),
+          { ifGenerationMatch: generation },
+        );
+        if (response === undefined) this.conflict(key);
+        newGeneration = response.generation;
+      }
+      if (newGeneration === undefined) {
+        // The block must be retrieved again to determine its generation.
+        this.blocks.delete(key);
+      } else {
+        this.blocks.set(key, { annotations, generation: newGeneration });
+      }
+      this.recordBlockIds(key, annotations.keys());
+      this.invalidateBlock(key);
+    }
+  }
+
+  add(annotation: Annotation): Promise<AnnotationId> {
+    return this.edit(async () => {
+      const key = getAnnotationBlockKey(this.grid, annotation);
+      const block = new Map((await this.getBlock(key)).annotations);
+      let id: AnnotationId;
+      do {
+        id = Uint64.random().toString();
+      } while (block.has(id) || this.annotationBlocks.has(id));
+      block.set(id, { ...annotation, id });
+      await this.writeBlocks(new Map([[key, block]]));
+      return id;
+    });
+  }
+
+  update(id: AnnotationId, newAnnotation: Annotation): Promise<void> {
+    return this.edit(async () => {
+      const oldKey = this.annotationBlocks.get(id);
+      if (oldKey === undefined) {
+        throw new Error(`Annotation not found: ${id}`);
+      }
+      const newKey = getAnnotationBlockKey(this.grid, newAnnotation);
+      // The new block is written first, so that the annotation is not lost if writing the old
+      // block fails.
+      const blocks = new Map<string, Map<AnnotationId, Annotation>>();
+      const newBlock = new Map((await this.getBlock(newKey)).annotations);
+      newBlock.set(id, { ...newAnnotation, id });
+      blocks.set(newKey, newBlock);
+      if (oldKey !== newKey) {
+        const oldBlock = new Map((await this.getBlock(oldKey)).annotations);
+        oldBlock.delete(id);
+        blocks.set(oldKey, oldBlock);
+      }
+      await this.writeBlocks(blocks);
+    });
+  }
+
+  delete(id: AnnotationId): Promise<void> {
+    return this.edit(async () => {
+      const key = this.annotationBlocks.get(id);
+      if (key === undefined) {
+        throw new Error(`Annotation not found: ${id}`);
+      }
+      const block = new Map((await this.getBlock(key)).annotations);
+      block.delete(id);
+      await this.writeBlocks(new Map([[key, block]]));
+      this.annotationBlocks.delete(id);
+    });
+  }
+}
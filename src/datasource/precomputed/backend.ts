@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type {
@@ -24,11 +27,22 @@ import {
   AnnotationSource,
   AnnotationGeometryChunkSourceBackend,
 } from "#src/annotation/backend.js";
-import type { Annotation } from "#src/annotation/index.js";
+import type {
+  Annotation,
+  AnnotationId,
+  AnnotationPropertySpec,
+} from "#src/annotation/index.js";
 import {
   AnnotationPropertySerializer,
+  AnnotationSerializer,
   annotationTypeHandlers,
   annotationTypes,
+  AnnotationType,
+  decodeAnnotationGeometry,
+  encodeAnnotationGeometry,
+  getEncodedAnnotationGeometryBytes,
+  isVariableLengthAnnotationType,
+  makeAnnotationPropertySerializers,
 } from "#src/annotation/index.js";
 import { decodeGzip } from "#src/async_computation/decode_gzip_request.js";
 import { requestAsyncComputation } from "#src/async_computation/request.js";
@@ -36,8 +50,15 @@ import type { Chunk, ChunkManager } from "#src/chunk_manager/backend.js";
 import { WithParameters } from "#src/chunk_manager/backend.js";
 import { GenericSharedDataSource } from "#src/chunk_manager/generic_file_source.js";
 import { WithSharedCredentialsProviderCounterpart } from "#src/credentials_provider/shared_counterpart.js";
+import {
+  AnnotationBlockWriter,
+  AnnotationByIdWriter,
+  getAnnotationBlockStoreKey,
+} from "#src/datasource/precomputed/annotation_writes.js";
 import type { ShardingParameters } from "#src/datasource/precomputed/base.js";
 import {
+  AnnotationBlockChunkSourceParameters,
+  AnnotationBlockSourceParameters,
   AnnotationSourceParameters,
   AnnotationSpatialIndexSourceParameters,
   DataEncoding,
@@ -49,6 +70,7 @@ import {
   VolumeChunkEncoding,
   VolumeChunkSourceParameters,
 } from "#src/datasource/precomputed/base.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
 import type {
   FragmentChunk,
   ManifestChunk,
@@ -921,16 +943,157 @@ export class PrecomputedSkeletonSource extends WithParameters(
   }
 }
 
-function parseAnnotations(
-  buffer: ArrayBuffer,
-  parameters: AnnotationSourceParameters,
-  propertySerializer: AnnotationPropertySerializer,
+/**
+ * Annotation source backend that uses the annotation encodings described in `annotations.md`.
+ */
+interface EncodedAnnotationSource {
+  parameters: {
+    rank: number;
+    type: AnnotationType;
+    properties: AnnotationPropertySpec[];
+  };
+  annotationPropertySerializers: AnnotationPropertySerializer[];
+  annotationPropertySerializer: AnnotationPropertySerializer;
+  // Serializes the property values that follow variable-length geometry.
+  encodedPropertySerializer: AnnotationPropertySerializer;
+}
+
+/**
+ * Decodes a single annotation (geometry followed by property values and padding) in the encoding
+ * described in `annotations.md`.
+ */
+function decodeAnnotation(
+  dv: DataView,
+  offset: number,
+  source: EncodedAnnotationSource,
+  id: string,
+): { annotation: Annotation; offset: number } {
+  const { parameters } = source;
+  let annotation: Annotation;
+  let propertySerializer: AnnotationPropertySerializer;
+  let propertyOffset: number;
+  if (isVariableLengthAnnotationType(parameters.type)) {
+    ({ annotation, offset: propertyOffset } = decodeAnnotationGeometry(
+      dv,
+      offset,
+      /*isLittleEndian=*/ true,
+      parameters.rank,
+      parameters.type,
+      id,
+    ));
+    propertySerializer = source.encodedPropertySerializer;
+  } else {
+    annotation = annotationTypeHandlers[parameters.type].deserialize(
+      dv,
+      offset,
+      /*isLittleEndian=*/ true,
+      parameters.rank,
+      id,
+    );
+    propertySerializer = source.annotationPropertySerializer;
+    propertyOffset = offset;
+  }
+  if (dv.byteLength < propertyOffset + propertySerializer.serializedBytes) {
+    throw new Error(
+      `Expected at least ${
+        propertyOffset + propertySerializer.serializedBytes
+      } bytes, but received: ${dv.byteLength} bytes`,
+    );
+  }
+  propertySerializer.deserialize(
+    dv,
+    propertyOffset,
+    /*annotationIndex=*/ 0,
+    /*annotationCount=*/ 1,
+    /*isLittleEndian=*/ true,
+    (annotation.properties = new Array(parameters.properties.length)),
+  );
+  return {
+    annotation,
+    offset: propertyOffset + propertySerializer.serializedBytes,
+  };
+}
+
+function parseAnnotationIds(dv: DataView, offset: number, count: number) {
+  const id = new Uint64();
+  const ids = new Array<string>(count);
+  for (let i = 0; i < count; ++i) {
+    id.low = dv.getUint32(offset + i * 8, /*littleEndian=*/ true);
+    id.high = dv.getUint32(offset + i * 8 + 4, /*littleEndian=*/ true);
+    ids[i] = id.toString();
+  }
+  return ids;
+}
+
+/**
+ * Decodes the `count` annotations in the multiple annotation encoding described in
+ * `annotations.md`, following the initial count.
+ */
+function decodeAnnotations(
+  dv: DataView,
+  count: number,
+  source: EncodedAnnotationSource,
+): Annotation[] {
+  const annotations = new Array<Annotation>(count);
+  let offset = 8;
+  for (let i = 0; i < count; ++i) {
+    let annotation: Annotation;
+    ({ annotation, offset } = decodeAnnotation(dv, offset, source, ""));
+    annotations[i] = annotation;
+  }
+  const expectedBytes = offset + 8 * count;
+  if (dv.byteLength !== expectedBytes) {
+    throw new Error(
+      `Expected ${expectedBytes} bytes, but received: ${dv.byteLength} bytes`,
+    );
+  }
+  const ids = parseAnnotationIds(dv, offset, count);
+  for (let i = 0; i < count; ++i) {
+    annotations[i].id = ids[i];
+  }
+  return annotations;
+}
+
+function serializeAnnotations(
+  annotations: Iterable<Annotation>,
+  source: EncodedAnnotationSource,
 ): AnnotationGeometryData {
-  const dv = new DataView(buffer);
-  if (buffer.byteLength <= 8) throw new Error("Expected at least 8 bytes");
+  const serializer = new AnnotationSerializer(
+    source.annotationPropertySerializers,
+  );
+  for (const annotation of annotations) {
+    serializer.add(annotation);
+  }
+  return Object.assign(new AnnotationGeometryData(), serializer.serialize());
+}
+
+function parseVariableLengthAnnotations(
+  dv: DataView,
+  count: number,
+  source: EncodedAnnotationSource,
+): AnnotationGeometryData {
+  return serializeAnnotations(decodeAnnotations(dv, count, source), source);
+}
+
+function parseAnnotationCount(dv: DataView) {
+  if (dv.byteLength <= 8) throw new Error("Expected at least 8 bytes");
   const countLow = dv.getUint32(0, /*littleEndian=*/ true);
   const countHigh = dv.getUint32(4, /*littleEndian=*/ true);
   if (countHigh !== 0) throw new Error("Annotation count too high");
+  return countLow;
+}
+
+function parseAnnotations(
+  buffer: ArrayBuffer,
+  source: EncodedAnnotationSource,
+): AnnotationGeometryData {
+  const { parameters, annotationPropertySerializer: propertySerializer } =
+    source;
+  const dv = new DataView(buffer);
+  const countLow = parseAnnotationCount(dv);
+  if (isVariableLengthAnnotationType(parameters.type)) {
+    return parseVariableLengthAnnotations(dv, countLow, source);
+  }
   const numBytes = propertySerializer.serializedBytes;
   const expectedBytes = 8 + (numBytes + 8) * countLow;
   if (buffer.byteLength !== expectedBytes) {
@@ -939,13 +1102,7 @@ function parseAnnotations(
     );
   }
   const idOffset = 8 + numBytes * countLow;
-  const id = new Uint64();
-  const ids = new Array<string>(countLow);
-  for (let i = 0; i < countLow; ++i) {
-    id.low = dv.getUint32(idOffset + i * 8, /*littleEndian=*/ true);
-    id.high = dv.getUint32(idOffset + i * 8 + 4, /*littleEndian=*/ true);
-    ids[i] = id.toString();
-  }
+  const ids = parseAnnotationIds(dv, idOffset, countLow);
   const geometryData = new AnnotationGeometryData();
   const origData = new Uint8Array(buffer, 8, numBytes * countLow);
   let data: Uint8Array;
@@ -996,40 +1153,40 @@ function parseAnnotations(
   typeToIds[parameters.type] = ids;
   typeToIdMaps.fill(new Map());
   typeToIdMaps[parameters.type] = new Map(ids.map((id, i) => [id, i]));
+  const typeToPrimitiveCount = (geometryData.typeToPrimitiveCount =
+    new Array<number>(annotationTypes.length));
+  typeToPrimitiveCount.fill(0);
+  typeToPrimitiveCount[parameters.type] = countLow;
+  const typeToPrimitiveOffsets = (geometryData.typeToPrimitiveOffsets =
+    new Array<number[]>(annotationTypes.length));
+  typeToPrimitiveOffsets.fill([0]);
+  typeToPrimitiveOffsets[parameters.type] = Array.from(
+    { length: countLow + 1 },
+    (_, i) => i,
+  );
   return geometryData;
 }
 
 function parseSingleAnnotation(
   buffer: ArrayBuffer,
-  parameters: AnnotationSourceParameters,
-  propertySerializer: AnnotationPropertySerializer,
+  source: PrecomputedAnnotationSourceBackend,
   id: string,
 ): Annotation {
-  const handler = annotationTypeHandlers[parameters.type];
-  const baseNumBytes = propertySerializer.serializedBytes;
+  const { parameters } = source;
   const numRelationships = parameters.relationships.length;
+  const dv = new DataView(buffer);
+  const { annotation, offset: baseNumBytes } = decodeAnnotation(
+    dv,
+    0,
+    source,
+    id,
+  );
   const minNumBytes = baseNumBytes + 4 * numRelationships;
   if (buffer.byteLength < minNumBytes) {
     throw new Error(
       `Expected at least ${minNumBytes} bytes, but received: ${buffer.byteLength}`,
     );
   }
-  const dv = new DataView(buffer);
-  const annotation = handler.deserialize(
-    dv,
-    0,
-    /*isLittleEndian=*/ true,
-    parameters.rank,
-    id,
-  );
-  propertySerializer.deserialize(
-    dv,
-    /*offset=*/ 0,
-    /*annotationIndex=*/ 0,
-    /*annotationCount=*/ 1,
-    /*isLittleEndian=*/ true,
-    (annotation.properties = new Array(parameters.properties.length)),
-  );
   let offset = baseNumBytes;
   const relatedSegments: Uint64[][] = (annotation.relatedSegments = []);
   relatedSegments.length = numRelationships;
@@ -1058,6 +1215,140 @@ function parseSingleAnnotation(
   return annotation;
 }
 
+function getAnnotationPropertyEncoding(
+  annotation: Annotation,
+  source: EncodedAnnotationSource,
+) {
+  const { parameters } = source;
+  if (annotation.type !== parameters.type) {
+    throw new Error(
+      `Expected ${AnnotationType[parameters.type].toLowerCase()} annotation, ` +
+        `but received: ${AnnotationType[annotation.type].toLowerCase()}`,
+    );
+  }
+  if (isVariableLengthAnnotationType(parameters.type)) {
+    return {
+      propertySerializer: source.encodedPropertySerializer,
+      propertyOffset: getEncodedAnnotationGeometryBytes(
+        annotation,
+        parameters.rank,
+      ),
+    };
+  }
+  return {
+    propertySerializer: source.annotationPropertySerializer,
+    propertyOffset: 0,
+  };
+}
+
+/**
+ * Returns the number of bytes required by `encodeAnnotation`.
+ */
+function getEncodedAnnotationBytes(
+  annotation: Annotation,
+  source: EncodedAnnotationSource,
+) {
+  const { propertySerializer, propertyOffset } = getAnnotationPropertyEncoding(
+    annotation,
+    source,
+  );
+  return propertyOffset + propertySerializer.serializedBytes;
+}
+
+/**
+ * Encodes a single annotation (geometry followed by property values and padding).  This is the
+ * inverse of `decodeAnnotation`.
+ *
+ * @returns The offset immediately following the encoded annotation.
+ */
+function encodeAnnotation(
+  dv: DataView,
+  offset: number,
+  annotation: Annotation,
+  source: EncodedAnnotationSource,
+) {
+  const { propertySerializer, propertyOffset } = getAnnotationPropertyEncoding(
+    annotation,
+    source,
+  );
+  encodeAnnotationGeometry(
+    dv,
+    offset,
+    /*isLittleEndian=*/ true,
+    source.parameters.rank,
+    annotation,
+  );
+  propertySerializer.serialize(
+    dv,
+    offset + propertyOffset,
+    /*annotationIndex=*/ 0,
+    /*annotationCount=*/ 1,
+    /*isLittleEndian=*/ true,
+    annotation.properties,
+  );
+  return offset + propertyOffset + propertySerializer.serializedBytes;
+}
+
+/**
+ * Encodes `annotations` in the multiple annotation encoding described in `annotations.md`.  This
+ * is the inverse of `decodeAnnotations`.
+ */
+function encodeAnnotations(
+  annotations: Annotation[],
+  source: EncodedAnnotationSource,
+): ArrayBuffer {
+  const count = annotations.length;
+  let numBytes = 8 + 8 * count;
+  for (const annotation of annotations) {
+    numBytes += getEncodedAnnotationBytes(annotation, source);
+  }
+  const buffer = new ArrayBuffer(numBytes);
+  const dv = new DataView(buffer);
+  dv.setUint32(0, count, /*littleEndian=*/ true);
+  let offset = 8;
+  for (const annotation of annotations) {
+    offset = encodeAnnotation(dv, offset, annotation, source);
+  }
+  const id = new Uint64();
+  for (const annotation of annotations) {
+    id.parseString(annotation.id);
+    dv.setUint32(offset, id.low, /*littleEndian=*/ true);
+    dv.setUint32(offset + 4, id.high, /*littleEndian=*/ true);
+    offset += 8;
+  }
+  return buffer;
+}
+
+/**
+ * Encodes `annotation` in the single annotation encoding described in `annotations.md`.  This is
+ * the inverse of `parseSingleAnnotation`.
+ */
+function encodeSingleAnnotation(
+  annotation: Annotation,
+  source: PrecomputedAnnotationSourceBackend,
+): ArrayBuffer {
+  const relatedSegments = source.parameters.relationships.map(
+    (_, i) => annotation.relatedSegments?.[i] ?? [],
+  );
+  let numBytes = getEncodedAnnotationBytes(annotation, source);
+  for (const segments of relatedSegments) {
+    numBytes += 4 + 8 * segments.length;
+  }
+  const buffer = new ArrayBuffer(numBytes);
+  const dv = new DataView(buffer);
+  let offset = encodeAnnotation(dv, 0, annotation, source);
+  for (const segments of relatedSegments) {
+    dv.setUint32(offset, segments.length, /*littleEndian=*/ true);
+    offset += 4;
+    for (const segment of segments) {
+      dv.setUint32(offset, segment.low, /*littleEndian=*/ true);
+      dv.setUint32(offset + 4, segment.high, /*littleEndian=*/ true);
+      offset += 8;
+    }
+  }
+  return buffer;
+}
+
 @registerSharedObject() //
 export class PrecomputedAnnotationSpatialIndexSourceBackend extends WithParameters(
   WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
@@ -1111,11 +1402,7 @@ export class PrecomputedAnnotationSpatialIndexSourceBackend extends WithParamete
       if (result !== undefined) response = result.data;
     }
     if (response !== undefined) {
-      chunk.data = parseAnnotations(
-        response,
-        parent.parameters,
-        parent.annotationPropertySerializer,
-      );
+      chunk.data = parseAnnotations(response, parent);
     }
   }
 }
@@ -1135,11 +1422,16 @@ export class PrecomputedAnnotationSourceBackend extends WithParameters(
   private relationshipIndexSource = this.parameters.relationships.map((x) =>
     getMinishardIndexDataSource(this.chunkManager, this.credentialsProvider, x),
   );
-  annotationPropertySerializer = new AnnotationPropertySerializer(
+  annotationPropertySerializers = makeAnnotationPropertySerializers(
     this.parameters.rank,
-    annotationTypeHandlers[this.parameters.type].serializedBytes(
-      this.parameters.rank,
-    ),
+    this.parameters.properties,
+  );
+  annotationPropertySerializer =
+    this.annotationPropertySerializers[this.parameters.type];
+  // Serializes the property values that follow variable-length geometry.
+  encodedPropertySerializer = new AnnotationPropertySerializer(
+    this.parameters.rank,
+    0,
     this.parameters.properties,
   );
 
@@ -1158,11 +1450,7 @@ export class PrecomputedAnnotationSourceBackend extends WithParameters(
       cancellationToken,
     );
     if (response !== undefined) {
-      chunk.data = parseAnnotations(
-        response,
-        this.parameters,
-        this.annotationPropertySerializer,
-      );
+      chunk.data = parseAnnotations(response, this);
     }
   }
 
@@ -1183,13 +1471,180 @@ export class PrecomputedAnnotationSourceBackend extends WithParameters(
     if (response === undefined) {
       chunk.annotation = null;
     } else {
-      chunk.annotation = parseSingleAnnotation(
-        response,
-        this.parameters,
-        this.annotationPropertySerializer,
-        chunk.key!,
+      chunk.annotation = parseSingleAnnotation(response, this, chunk.key!);
+    }
+  }
+
+  private byIdWriter: AnnotationByIdWriter | undefined;
+
+  private getByIdWriter() {
+    const { parameters } = this;
+    if (!parameters.writable) {
+      throw new Error("Annotation collection is not writable");
+    }
+    let writer = this.byIdWriter;
+    if (writer === undefined) {
+      writer = this.byIdWriter = new AnnotationByIdWriter(
+        getSpecialProtocolKvStore(
+          this.credentialsProvider,
+          `${parameters.byId.url}/`,
+        ),
+        (annotation) =>
+          new Uint8Array(encodeSingleAnnotation(annotation, this)),
       );
     }
+    return writer;
+  }
+
+  async add(annotation: Annotation) {
+    const id = await this.getByIdWriter().add(annotation);
+    this.updateMetadataChunk(id, { ...annotation, id });
+    this.invalidateGeometryChunks();
+    return id;
+  }
+
+  async update(id: AnnotationId, newAnnotation: Annotation) {
+    await this.getByIdWriter().update(id, newAnnotation);
+    this.updateMetadataChunk(id, newAnnotation);
+    this.invalidateGeometryChunks();
+  }
+
+  async delete(id: AnnotationId) {
+    await this.getByIdWriter().delete(id);
+    this.updateMetadataChunk(id, null);
+    this.invalidateGeometryChunks();
+  }
+}
+
+@registerSharedObject() //
+export class PrecomputedAnnotationBlockChunkSourceBackend extends WithParameters(
+  WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
+    AnnotationGeometryChunkSourceBackend,
+  ),
+  AnnotationBlockChunkSourceParameters,
+) {
+  parent: PrecomputedAnnotationBlockSourceBackend;
+  download(
+    chunk: AnnotationGeometryChunk,
+    cancellationToken: CancellationToken,
+  ) {
+    return this.parent.downloadBlock(chunk, cancellationToken);
+  }
+}
+
+@registerSharedObject() //
+export class PrecomputedAnnotationBlockSourceBackend extends WithParameters(
+  WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
+    AnnotationSource,
+  ),
+  AnnotationBlockSourceParameters,
+) {
+  annotationPropertySerializers = makeAnnotationPropertySerializers(
+    this.parameters.rank,
+    this.parameters.properties,
+  );
+  annotationPropertySerializer =
+    this.annotationPropertySerializers[this.parameters.type];
+  encodedPropertySerializer = new AnnotationPropertySerializer(
+    this.parameters.rank,
+    0,
+    this.parameters.properties,
+  );
+
+  private writer = new AnnotationBlockWriter(
+    getSpecialProtocolKvStore(
+      this.credentialsProvider,
+      `${this.parameters.url}/`,
+    ),
+    this.parameters,
+    {
+      encode: (annotations) =>
+        new Uint8Array(encodeAnnotations(annotations, this)),
+      decode: (data) => {
+        const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        return decodeAnnotations(dv, parseAnnotationCount(dv), this);
+      },
+    },
+    (key) => {
+      const { queueManager } = this.chunkManager;
+      for (const source of this.spatiallyIndexedSources) {
+        const chunk = source.chunks.get(key);
+        if (chunk !== undefined) {
+          queueManager.invalidateChunk(chunk);
+        }
+      }
+    },
+  );
+
+  private async fetchBlock(
+    key: string,
+    cancellationToken: CancellationToken,
+  ): Promise<ArrayBuffer | undefined> {
+    try {
+      return await cancellableFetchSpecialOk(
+        this.credentialsProvider,
+        `${this.parameters.url}/${getAnnotationBlockStoreKey(key)}`,
+        {},
+        responseArrayBuffer,
+        cancellationToken,
+      );
+    } catch (e) {
+      if (isNotFoundError(e)) return undefined;
+      throw e;
+    }
+  }
+
+  async downloadBlock(
+    chunk: AnnotationGeometryChunk,
+    cancellationToken: CancellationToken,
+  ) {
+    const key = chunk.key!;
+    const block = this.writer.getCachedBlock(key);
+    if (block !== undefined) {
+      chunk.data = serializeAnnotations(block, this);
+      return;
+    }
+    const response = await this.fetchBlock(key, cancellationToken);
+    if (response === undefined) return;
+    const data = parseAnnotations(response, this);
+    this.writer.recordBlockIds(key, data.typeToIds[this.parameters.type]);
+    chunk.data = data;
+  }
+
+  async downloadMetadata(
+    chunk: AnnotationMetadataChunk,
+    cancellationToken: CancellationToken,
+  ) {
+    // Only annotations in blocks that have already been retrieved can be found.
+    chunk.annotation = await this.writer.getAnnotation(
+      chunk.key!,
+      cancellationToken,
+    );
+  }
+
+  async downloadSegmentFilteredGeometry(): Promise<void> {
+    throw new Error("Annotation blocks do not support relationships");
+  }
+
+  private getWriter() {
+    if (!this.parameters.writable) {
+      throw new Error("Annotation blocks are not writable");
+    }
+    return this.writer;
+  }
+
+  async add(annotation: Annotation) {
+    return this.getWriter().add(annotation);
+  }
+
+  async update(id: AnnotationId, newAnnotation: Annotation) {
+    await this.getWriter().update(id, newAnnotation);
+    this.updateMetadataChunk(id, newAnnotation);
+  }
+
+  async delete(id: AnnotationId) {
+    await this.getWriter().delete(id);
+    this.updateMetadataChunk(id, null);
   }
 }
 
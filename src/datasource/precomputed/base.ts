@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type {
@@ -106,9 +109,32 @@ export class AnnotationSourceParameters {
   properties: AnnotationPropertySpec[];
   byId: { url: string; sharding: ShardingParameters | undefined };
   type: AnnotationType;
+  // Indicates that edits are written back to the annotation id index, as described in
+  // `annotations.md`.
+  writable: boolean;
   static RPC_ID = "precomputed/AnnotationSource";
 }
 
+export class AnnotationBlockChunkSourceParameters {
+  // URL of the directory containing the blocks.
+  url: string;
+  static RPC_ID = "precomputed/AnnotationBlockChunkSource";
+}
+
+export class AnnotationBlockSourceParameters {
+  rank: number;
+  properties: AnnotationPropertySpec[];
+  type: AnnotationType;
+  // URL of the directory containing the blocks.
+  url: string;
+  lowerBounds: Float64Array;
+  blockSize: Float64Array;
+  gridShape: Float64Array;
+  // Indicates that edited blocks are written back, as described in `annotation_blocks.md`.
+  writable: boolean;
+  static RPC_ID = "precomputed/AnnotationBlockSource";
+}
+
 export class IndexedSegmentPropertySourceParameters {
   url: string;
   sharding: ShardingParameters | undefined;
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { AnnotationGeometryChunkSpecification } from "#src/annotation/base.js";
@@ -53,6 +56,8 @@ import type {
   SkeletonMetadata,
 } from "#src/datasource/precomputed/base.js";
 import {
+  AnnotationBlockChunkSourceParameters,
+  AnnotationBlockSourceParameters,
   AnnotationSourceParameters,
   AnnotationSpatialIndexSourceParameters,
   DataEncoding,
@@ -435,7 +440,7 @@ export class PrecomputedAnnotationSource extends MultiscaleAnnotationSourceBase
       properties: parameters.properties,
       parameters,
     } as any);
-    this.readonly = true;
+    this.readonly = !parameters.writable;
     this.metadata = options.metadata;
     this.credentialsProvider = options.credentialsProvider;
   }
@@ -461,6 +466,71 @@ export class PrecomputedAnnotationSource extends MultiscaleAnnotationSourceBase
   }
 }
 
+class PrecomputedAnnotationBlockChunkSource extends WithParameters(
+  WithCredentialsProvider<SpecialProtocolCredentials>()(
+    AnnotationGeometryChunkSource,
+  ),
+  AnnotationBlockChunkSourceParameters,
+) {}
+
+interface PrecomputedAnnotationBlockSourceOptions {
+  metadata: AnnotationBlockMetadata;
+  parameters: AnnotationBlockSourceParameters;
+  credentialsProvider: SpecialProtocolCredentialsProvider;
+}
+
+/**
+ * Annotation source in the blocked format described in `annotation_blocks.md`.  Blocks are
+ * retrieved on demand as geometry chunks, and each committed edit writes back only the blocks it
+ * modifies.
+ */
+export class PrecomputedAnnotationBlockSource extends WithParameters(
+  WithCredentialsProvider<SpecialProtocolCredentials>()(
+    MultiscaleAnnotationSource,
+  ),
+  AnnotationBlockSourceParameters,
+) {
+  key: any;
+  metadata: AnnotationBlockMetadata;
+  credentialsProvider: SpecialProtocolCredentialsProvider;
+  OPTIONS: PrecomputedAnnotationBlockSourceOptions;
+  constructor(
+    chunkManager: ChunkManager,
+    options: PrecomputedAnnotationBlockSourceOptions,
+  ) {
+    const { parameters } = options;
+    super(chunkManager, {
+      rank: parameters.rank,
+      relationships: [],
+      properties: parameters.properties,
+      parameters,
+    } as any);
+    this.readonly = !parameters.writable;
+    this.metadata = options.metadata;
+    this.credentialsProvider = options.credentialsProvider;
+  }
+
+  getSources(): SliceViewSingleResolutionSource<AnnotationGeometryChunkSource>[][] {
+    const { spec } = this.metadata;
+    return [
+      [
+        {
+          chunkSource: this.chunkManager.getChunkSource(
+            PrecomputedAnnotationBlockChunkSource,
+            {
+              credentialsProvider: this.credentialsProvider,
+              parent: this,
+              spec,
+              parameters: { url: this.parameters.url },
+            },
+          ),
+          chunkToMultiscaleTransform: spec.chunkToMultiscaleTransform,
+        },
+      ],
+    ];
+  }
+}
+
 function getLegacyMeshSource(
   chunkManager: ChunkManager,
   credentialsProvider: SpecialProtocolCredentialsProvider,
@@ -919,6 +989,65 @@ interface AnnotationSpatialIndexLevelMetadata {
   spec: AnnotationGeometryChunkSpecification;
 }
 
+/**
+ * Parses the annotation property specifications.  String properties are not supported, since their
+ * values do not have a fixed-size binary encoding.
+ */
+function parsePrecomputedAnnotationPropertySpecs(obj: unknown) {
+  const properties = parseAnnotationPropertySpecs(obj);
+  for (const property of properties) {
+    if (property.type === "string") {
+      throw new Error(
+        `String property ${JSON.stringify(property.identifier)} is not supported`,
+      );
+    }
+  }
+  return properties;
+}
+
+/**
+ * Parses the `"dimensions"`, `"lower_bound"` and `"upper_bound"` members common to the annotation
+ * metadata formats.
+ */
+function parseAnnotationCoordinateSpace(metadata: any) {
+  const baseCoordinateSpace = verifyObjectProperty(
+    metadata,
+    "dimensions",
+    coordinateSpaceFromJson,
+  );
+  const { rank } = baseCoordinateSpace;
+  const lowerBounds = verifyObjectProperty(
+    metadata,
+    "lower_bound",
+    (boundJson) =>
+      parseFixedLengthArray(
+        new Float64Array(rank),
+        boundJson,
+        verifyFiniteFloat,
+      ),
+  );
+  const upperBounds = verifyObjectProperty(
+    metadata,
+    "upper_bound",
+    (boundJson) =>
+      parseFixedLengthArray(
+        new Float64Array(rank),
+        boundJson,
+        verifyFiniteFloat,
+      ),
+  );
+  const coordinateSpace = makeCoordinateSpace({
+    rank,
+    names: baseCoordinateSpace.names,
+    units: baseCoordinateSpace.units,
+    scales: baseCoordinateSpace.scales,
+    boundingBoxes: [
+      makeIdentityTransformedBoundingBox({ lowerBounds, upperBounds }),
+    ],
+  });
+  return { coordinateSpace, rank, lowerBounds, upperBounds };
+}
+
 class AnnotationMetadata {
   coordinateSpace: CoordinateSpace;
   parameters: AnnotationSourceParameters;
@@ -928,41 +1057,9 @@ class AnnotationMetadata {
     metadata: any,
   ) {
     verifyObject(metadata);
-    const baseCoordinateSpace = verifyObjectProperty(
-      metadata,
-      "dimensions",
-      coordinateSpaceFromJson,
-    );
-    const { rank } = baseCoordinateSpace;
-    const lowerBounds = verifyObjectProperty(
-      metadata,
-      "lower_bound",
-      (boundJson) =>
-        parseFixedLengthArray(
-          new Float64Array(rank),
-          boundJson,
-          verifyFiniteFloat,
-        ),
-    );
-    const upperBounds = verifyObjectProperty(
-      metadata,
-      "upper_bound",
-      (boundJson) =>
-        parseFixedLengthArray(
-          new Float64Array(rank),
-          boundJson,
-          verifyFiniteFloat,
-        ),
-    );
-    this.coordinateSpace = makeCoordinateSpace({
-      rank,
-      names: baseCoordinateSpace.names,
-      units: baseCoordinateSpace.units,
-      scales: baseCoordinateSpace.scales,
-      boundingBoxes: [
-        makeIdentityTransformedBoundingBox({ lowerBounds, upperBounds }),
-      ],
-    });
+    const { coordinateSpace, rank, lowerBounds } =
+      parseAnnotationCoordinateSpace(metadata);
+    this.coordinateSpace = coordinateSpace;
     this.parameters = {
       type: verifyObjectProperty(metadata, "annotation_type", (typeObj) =>
         verifyEnumString(typeObj, AnnotationType),
@@ -981,12 +1078,23 @@ class AnnotationMetadata {
       properties: verifyObjectProperty(
         metadata,
         "properties",
-        parseAnnotationPropertySpecs,
+        parsePrecomputedAnnotationPropertySpecs,
       ),
       byId: verifyObjectProperty(metadata, "by_id", (obj) =>
         parseKeyAndShardingSpec(url, obj),
       ),
+      writable:
+        verifyObjectProperty(metadata, "writable", verifyOptionalBoolean) ??
+        false,
     };
+    if (
+      this.parameters.writable &&
+      this.parameters.byId.sharding !== undefined
+    ) {
+      throw new Error(
+        "Writable annotation collections must use an unsharded annotation id index",
+      );
+    }
     this.spatialIndices = verifyObjectProperty(
       metadata,
       "spatial",
@@ -1041,6 +1149,76 @@ class AnnotationMetadata {
   }
 }
 
+class AnnotationBlockMetadata {
+  coordinateSpace: CoordinateSpace;
+  parameters: AnnotationBlockSourceParameters;
+  spec: AnnotationGeometryChunkSpecification;
+  constructor(
+    public url: string,
+    metadata: any,
+  ) {
+    verifyObject(metadata);
+    const { coordinateSpace, rank, lowerBounds, upperBounds } =
+      parseAnnotationCoordinateSpace(metadata);
+    this.coordinateSpace = coordinateSpace;
+    const blockSize = verifyObjectProperty(metadata, "block_size", (j) =>
+      parseFixedLengthArray(
+        new Float64Array(rank),
+        j,
+        verifyFinitePositiveFloat,
+      ),
+    );
+    const gridShape = new Float64Array(rank);
+    const upperVoxelBound = new Float32Array(rank);
+    for (let i = 0; i < rank; ++i) {
+      gridShape[i] = Math.max(
+        1,
+        Math.ceil((upperBounds[i] - lowerBounds[i]) / blockSize[i]),
+      );
+      upperVoxelBound[i] = gridShape[i] * blockSize[i];
+    }
+    this.parameters = {
+      type: verifyObjectProperty(metadata, "annotation_type", (typeObj) =>
+        verifyEnumString(typeObj, AnnotationType),
+      ),
+      rank,
+      properties: verifyObjectProperty(
+        metadata,
+        "properties",
+        parsePrecomputedAnnotationPropertySpecs,
+      ),
+      url: resolvePath(
+        url,
+        verifyObjectProperty(metadata, "key", verifyString),
+      ),
+      lowerBounds,
+      blockSize,
+      gridShape,
+      writable:
+        verifyObjectProperty(metadata, "writable", verifyOptionalBoolean) ??
+        false,
+    };
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    for (let i = 0; i < rank; ++i) {
+      chunkToMultiscaleTransform[(rank + 1) * rank + i] = lowerBounds[i];
+    }
+    this.spec = {
+      // Blocks are not subsampled.
+      limit: 1,
+      chunkToMultiscaleTransform,
+      ...makeSliceViewChunkSpecification({
+        rank,
+        chunkDataSize: Float32Array.from(blockSize),
+        upperVoxelBound,
+      }),
+    };
+    this.spec.upperChunkBound = Float32Array.from(gridShape);
+  }
+}
+
 async function getAnnotationDataSource(
   options: GetDataSourceOptions,
   credentialsProvider: SpecialProtocolCredentialsProvider,
@@ -1070,6 +1248,34 @@ async function getAnnotationDataSource(
   return dataSource;
 }
 
+async function getAnnotationBlocksDataSource(
+  options: GetDataSourceOptions,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  url: string,
+  metadata: any,
+): Promise<DataSource> {
+  const info = new AnnotationBlockMetadata(url, metadata);
+  return {
+    modelTransform: makeIdentityTransform(info.coordinateSpace),
+    subsources: [
+      {
+        id: "default",
+        default: true,
+        subsource: {
+          annotation: options.chunkManager.getChunkSource(
+            PrecomputedAnnotationBlockSource,
+            {
+              credentialsProvider,
+              metadata: info,
+              parameters: info.parameters,
+            },
+          ),
+        },
+      },
+    ],
+  };
+}
+
 async function getMeshDataSource(
   options: GetDataSourceOptions,
   credentialsProvider: SpecialProtocolCredentialsProvider,
@@ -1418,6 +1624,13 @@ export class PrecomputedDataSource extends DataSourceProvider {
               url,
               metadata,
             );
+          case "neuroglancer_annotation_blocks_v1":
+            return await getAnnotationBlocksDataSource(
+              options,
+              credentialsProvider,
+              url,
+              metadata,
+            );
           case "neuroglancer_segment_properties":
             return await getSegmentPropertyMapDataSource(
               options,
@@ -0,0 +1,2 @@
+import "#src/async_computation/decode_gzip.js";
+import "#src/async_computation/decode_lzw.js";
@@ -0,0 +1,278 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Backend chunk source for TIFF images.
+ */
+
+import { decodeGzip } from "#src/async_computation/decode_gzip_request.js";
+import { decodeLzw } from "#src/async_computation/decode_lzw_request.js";
+import { requestAsyncComputation } from "#src/async_computation/request.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { WithSharedCredentialsProviderCounterpart } from "#src/credentials_provider/shared_counterpart.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/tiff/base.js";
+import {
+  copyInterleavedSamples,
+  undoFloatingPointPredictor,
+  undoHorizontalPredictor,
+} from "#src/datasource/tiff/decode.js";
+import type { TiffImage } from "#src/datasource/tiff/file.js";
+import {
+  checkImageLayout,
+  getTileGridShape,
+  TiffCompression,
+  TiffFile,
+  TiffPlanarConfiguration,
+  TiffPredictor,
+} from "#src/datasource/tiff/file.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import { decodeRawChunk } from "#src/sliceview/backend_chunk_decoders/raw.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { Endianness } from "#src/util/endian.js";
+import type { SpecialProtocolCredentials } from "#src/util/special_protocol_request.js";
+import { registerSharedObject } from "#src/worker_rpc.js";
+
+/**
+ * Maximum number of open files and parsed images retained by each chunk source.
+ */
+const MAX_CACHED_FILES = 64;
+
+function getCached<T>(
+  cache: Map<string, Promise<T>>,
+  key: string,
+  getter: () => Promise<T>,
+): Promise<T> {
+  let value = cache.get(key);
+  if (value !== undefined) {
+    // Move to the end of the iteration order to mark it as recently used.
+    cache.delete(key);
+  } else {
+    value = getter();
+    value.catch(() => cache.delete(key));
+    if (cache.size >= MAX_CACHED_FILES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  cache.set(key, value);
+  return value;
+}
+
+async function decompress(
+  compression: number,
+  data: Uint8Array,
+  outputSize: number,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  if (compression === TiffCompression.NONE) return data;
+  // Avoid transferring a buffer that is shared with other data.
+  data = data.slice();
+  switch (compression) {
+    case TiffCompression.LZW:
+      return requestAsyncComputation(
+        decodeLzw,
+        cancellationToken,
+        [data.buffer],
+        data,
+        outputSize,
+      );
+    case TiffCompression.DEFLATE:
+    case TiffCompression.ADOBE_DEFLATE:
+      return requestAsyncComputation(
+        decodeGzip,
+        cancellationToken,
+        [data.buffer],
+        data,
+      );
+    default:
+      throw new Error(`Unsupported TIFF compression: ${compression}.`);
+  }
+}
+
+/**
+ * Decodes a tile or strip of `width` by `rows` pixels, each with `numSamples` samples.  The result
+ * is in the byte order of the file.
+ */
+async function decodeTile(
+  image: TiffImage,
+  data: Uint8Array,
+  width: number,
+  rows: number,
+  numSamples: number,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  const bytesPerSample = image.bitsPerSample / 8;
+  const size = width * rows * numSamples * bytesPerSample;
+  data = await decompress(image.compression, data, size, cancellationToken);
+  if (data.length !== size) {
+    // Some writers omit the padding of the last strip or of edge tiles.
+    const padded = new Uint8Array(size);
+    padded.set(data.subarray(0, size));
+    data = padded;
+  } else if (
+    image.predictor !== TiffPredictor.NONE &&
+    image.compression === TiffCompression.NONE
+  ) {
+    // Avoid modifying file data that may be shared with other tiles.
+    data = data.slice();
+  }
+  switch (image.predictor) {
+    case TiffPredictor.NONE:
+      return data;
+    case TiffPredictor.HORIZONTAL:
+      undoHorizontalPredictor(
+        data,
+        width,
+        rows,
+        numSamples,
+        bytesPerSample,
+        image.littleEndian,
+      );
+      return data;
+    case TiffPredictor.FLOATING_POINT:
+      return undoFloatingPointPredictor(
+        data,
+        width,
+        rows,
+        numSamples,
+        bytesPerSample,
+        image.littleEndian,
+      );
+    default:
+      throw new Error(`Unsupported TIFF predictor: ${image.predictor}.`);
+  }
+}
+
+@registerSharedObject()
+export class TiffVolumeChunkSource extends WithParameters(
+  WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
+    VolumeChunkSource,
+  ),
+  VolumeChunkSourceParameters,
+) {
+  private kvStore = getSpecialProtocolKvStore(
+    this.credentialsProvider,
+    this.parameters.url,
+  );
+  private files = new Map<string, Promise<TiffFile>>();
+  private images = new Map<string, Promise<TiffImage>>();
+
+  // Files and images are shared by many chunks, so they are read without cancellation.
+  private getFile(key: string) {
+    return getCached(this.files, key, () =>
+      TiffFile.open(this.kvStore, key, uncancelableToken),
+    );
+  }
+
+  private getImage(file: TiffFile, key: string, ifdOffset?: number) {
+    return getCached(this.images, `${key}:${ifdOffset ?? ""}`, async () => {
+      const image = await file.readImage(ifdOffset ?? file.firstIfdOffset);
+      const error = checkImageLayout(image, this.parameters.layout);
+      if (error !== undefined) {
+        throw new Error(`Image in ${JSON.stringify(key)}: ${error}`);
+      }
+      return image;
+    });
+  }
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { slices, layout } = this.parameters;
+    // The position returned by `computeChunkBounds` is invalidated by subsequent calls.
+    const [chunkX, chunkY, chunkZ] = this.computeChunkBounds(chunk);
+    const [chunkWidth, chunkHeight] = chunk.chunkDataSize!;
+    const slice = slices[chunkZ];
+    const file = await this.getFile(slice.key);
+    const image = await this.getImage(file, slice.key, slice.ifdOffset);
+    const { samplesPerPixel, tileWidth, tileHeight } = layout;
+    const bytesPerSample = layout.bitsPerSample / 8;
+    const planar =
+      layout.planarConfiguration === TiffPlanarConfiguration.PLANAR;
+    const numSamples = planar ? 1 : samplesPerPixel;
+    const { tilesAcross, tilesDown } = getTileGridShape(layout);
+    const outputPixels = chunkWidth * chunkHeight;
+    const output = new Uint8Array(
+      outputPixels * samplesPerPixel * bytesPerSample,
+    );
+
+    // Determine the tiles or strips that intersect the chunk.
+    const tiles: { index: number; x: number; y: number; channel: number }[] =
+      [];
+    for (let channel = 0; channel < samplesPerPixel; channel += numSamples) {
+      for (
+        let tileY = Math.floor(chunkY / tileHeight);
+        tileY * tileHeight < chunkY + chunkHeight;
+        ++tileY
+      ) {
+        for (
+          let tileX = Math.floor(chunkX / tileWidth);
+          tileX * tileWidth < chunkX + chunkWidth;
+          ++tileX
+        ) {
+          const index =
+            channel * tilesAcross * tilesDown + tileY * tilesAcross + tileX;
+          // Tiles or strips with a byte count of 0 are not stored, and are filled with zeros.
+          if (image.byteCounts[index] === 0) continue;
+          tiles.push({
+            index,
+            x: tileX * tileWidth,
+            y: tileY * tileHeight,
+            channel,
+          });
+        }
+      }
+    }
+    const tileData = await file.readRanges(
+      tiles.map(({ index }) => ({
+        offset: image.offsets[index],
+        length: image.byteCounts[index],
+      })),
+      cancellationToken,
+    );
+    await Promise.all(
+      tiles.map(async (tile, i) => {
+        // The last strip contains only the remaining rows.
+        const tileRows = layout.tiled
+          ? tileHeight
+          : Math.min(tileHeight, layout.height - tile.y);
+        const data = await decodeTile(
+          image,
+          tileData[i],
+          tileWidth,
+          tileRows,
+          numSamples,
+          cancellationToken,
+        );
+        const beginX = Math.max(chunkX, tile.x);
+        const endX = Math.min(chunkX + chunkWidth, tile.x + tileWidth);
+        const beginY = Math.max(chunkY, tile.y);
+        const endY = Math.min(chunkY + chunkHeight, tile.y + tileRows);
+        const rowBytes = tileWidth * numSamples * bytesPerSample;
+        for (let y = beginY; y < endY; ++y) {
+          copyInterleavedSamples(
+            output,
+            outputPixels,
+            (y - chunkY) * chunkWidth + beginX - chunkX,
+            data.subarray(
+              (y - tile.y) * rowBytes +
+                (beginX - tile.x) * numSamples * bytesPerSample,
+            ),
+            endX - beginX,
+            numSamples,
+            tile.channel,
+            bytesPerSample,
+          );
+        }
+      }),
+    );
+    await decodeRawChunk(
+      chunk,
+      cancellationToken,
+      output.buffer,
+      image.littleEndian ? Endianness.LITTLE : Endianness.BIG,
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Parameters shared between the frontend and backend TIFF data sources.
+ */
+
+import type { TiffImageLayout } from "#src/datasource/tiff/file.js";
+
+/**
+ * Location of the image that forms a single z slice of the volume.
+ */
+export interface TiffSlice {
+  /**
+   * Path of the file relative to the data source URL.
+   */
+  key: string;
+  /**
+   * Offset of the image file directory within the file.  If not specified, the first image of the
+   * file is used.
+   */
+  ifdOffset?: number;
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  slices: TiffSlice[];
+  layout: TiffImageLayout;
+  static RPC_ID = "tiff/VolumeChunkSource";
+}
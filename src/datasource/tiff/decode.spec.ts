@@ -0,0 +1,147 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the conversion of TIFF tiles and strips.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  copyInterleavedSamples,
+  getVolumeDataType,
+  undoFloatingPointPredictor,
+  undoHorizontalPredictor,
+} from "#src/datasource/tiff/decode.js";
+import type { TiffImageLayout } from "#src/datasource/tiff/file.js";
+import {
+  TiffPlanarConfiguration,
+  TiffSampleFormat,
+} from "#src/datasource/tiff/file.js";
+import { DataType } from "#src/util/data_type.js";
+
+const layout: TiffImageLayout = {
+  width: 3,
+  height: 2,
+  samplesPerPixel: 1,
+  bitsPerSample: 8,
+  sampleFormat: TiffSampleFormat.UINT,
+  planarConfiguration: TiffPlanarConfiguration.CHUNKY,
+  tiled: false,
+  tileWidth: 3,
+  tileHeight: 2,
+};
+
+describe("undoHorizontalPredictor", () => {
+  it("handles 8-bit interleaved samples", () => {
+    // 2 rows of 3 pixels with 2 samples each.
+    const data = Uint8Array.of(1, 10, 1, 1, 255, 2, 5, 6, 1, 1, 1, 1);
+    undoHorizontalPredictor(data, 3, 2, 2, 1, true);
+    expect(Array.from(data)).toEqual([1, 10, 2, 11, 1, 13, 5, 6, 6, 7, 7, 8]);
+  });
+
+  for (const littleEndian of [false, true]) {
+    it(`handles 16-bit samples with littleEndian=${littleEndian}`, () => {
+      const values = [1000, 65535, 2];
+      const data = new Uint8Array(6);
+      const view = new DataView(data.buffer);
+      values.forEach((x, i) => view.setUint16(i * 2, x, littleEndian));
+      undoHorizontalPredictor(data, 3, 1, 1, 2, littleEndian);
+      expect([0, 1, 2].map((i) => view.getUint16(i * 2, littleEndian))).toEqual(
+        [1000, 999, 1001],
+      );
+    });
+  }
+});
+
+describe("undoFloatingPointPredictor", () => {
+  for (const littleEndian of [false, true]) {
+    it(`decodes float32 samples with littleEndian=${littleEndian}`, () => {
+      const values = [1.5, -2.25, 1e10, 0];
+      const width = values.length;
+      // Encode the values as the floating-point predictor does: split each row into byte planes,
+      // most significant byte first, and then difference the bytes.
+      const bigEndian = new DataView(new ArrayBuffer(width * 4));
+      values.forEach((x, i) => bigEndian.setFloat32(i * 4, x));
+      const encoded = new Uint8Array(width * 4);
+      for (let i = 0; i < width; ++i) {
+        for (let byte = 0; byte < 4; ++byte) {
+          encoded[byte * width + i] = bigEndian.getUint8(i * 4 + byte);
+        }
+      }
+      for (let i = encoded.length - 1; i > 0; --i) {
+        encoded[i] -= encoded[i - 1];
+      }
+      const decoded = undoFloatingPointPredictor(
+        encoded,
+        width,
+        1,
+        1,
+        4,
+        littleEndian,
+      );
+      const view = new DataView(decoded.buffer);
+      expect(
+        values.map((_, i) => view.getFloat32(i * 4, littleEndian)),
+      ).toEqual(values);
+    });
+  }
+});
+
+describe("copyInterleavedSamples", () => {
+  it("separates channels", () => {
+    // 2 pixels with 3 samples each, copied to pixels 1 and 2 of a 4-pixel chunk.
+    const output = new Uint8Array(12);
+    copyInterleavedSamples(
+      output,
+      4,
+      1,
+      Uint8Array.of(1, 2, 3, 4, 5, 6),
+      2,
+      3,
+      0,
+      1,
+    );
+    expect(Array.from(output)).toEqual([0, 1, 4, 0, 0, 2, 5, 0, 0, 3, 6, 0]);
+  });
+
+  it("copies a single channel of multi-byte samples", () => {
+    const output = new Uint8Array(8);
+    copyInterleavedSamples(output, 2, 0, Uint8Array.of(1, 2, 3, 4), 2, 1, 1, 2);
+    expect(Array.from(output)).toEqual([0, 0, 0, 0, 1, 2, 3, 4]);
+  });
+});
+
+describe("getVolumeDataType", () => {
+  it("maps sample formats", () => {
+    expect(getVolumeDataType(layout)).toBe(DataType.UINT8);
+    expect(
+      getVolumeDataType({
+        ...layout,
+        sampleFormat: TiffSampleFormat.INT,
+        bitsPerSample: 16,
+      }),
+    ).toBe(DataType.INT16);
+    expect(
+      getVolumeDataType({
+        ...layout,
+        sampleFormat: TiffSampleFormat.INT,
+        bitsPerSample: 64,
+      }),
+    ).toBe(DataType.UINT64);
+    expect(
+      getVolumeDataType({
+        ...layout,
+        sampleFormat: TiffSampleFormat.FLOAT,
+        bitsPerSample: 32,
+      }),
+    ).toBe(DataType.FLOAT32);
+  });
+
+  it("rejects unsupported sample formats", () => {
+    expect(() => getVolumeDataType({ ...layout, bitsPerSample: 1 })).toThrow(
+      "Unsupported TIFF sample format: UINT with 1 bits per sample.",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Conversion of decompressed TIFF tiles and strips to volume chunk data.
+ */
+
+import type { TiffImageLayout } from "#src/datasource/tiff/file.js";
+import { TiffSampleFormat } from "#src/datasource/tiff/file.js";
+import { DataType } from "#src/util/data_type.js";
+
+/**
+ * Reverses horizontal differencing (predictor 2), in which each sample, other than those of the
+ * first pixel of each row, is stored as the difference from the same sample of the previous pixel.
+ */
+export function undoHorizontalPredictor(
+  data: Uint8Array,
+  width: number,
+  rows: number,
+  numSamples: number,
+  bytesPerSample: number,
+  littleEndian: boolean,
+) {
+  const rowLength = width * numSamples;
+  if (bytesPerSample === 1) {
+    for (let row = 0; row < rows; ++row) {
+      const rowOffset = row * rowLength;
+      for (let i = numSamples; i < rowLength; ++i) {
+        data[rowOffset + i] += data[rowOffset + i - numSamples];
+      }
+    }
+    return;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let row = 0; row < rows; ++row) {
+    const rowOffset = row * rowLength * bytesPerSample;
+    for (let i = numSamples; i < rowLength; ++i) {
+      const offset = rowOffset + i * bytesPerSample;
+      const previousOffset = offset - numSamples * bytesPerSample;
+      switch (bytesPerSample) {
+        case 2:
+          view.setUint16(
+            offset,
+            view.getUint16(offset, littleEndian) +
+              view.getUint16(previousOffset, littleEndian),
+            littleEndian,
+          );
+          break;
+        case 4:
+          view.setUint32(
+            offset,
+            view.getUint32(offset, littleEndian) +
+              view.getUint32(previousOffset, littleEndian),
+            littleEndian,
+          );
+          break;
+        case 8:
+          view.setBigUint64(
+            offset,
+            view.getBigUint64(offset, littleEndian) +
+              view.getBigUint64(previousOffset, littleEndian),
+            littleEndian,
+          );
+          break;
+        default:
+          throw new Error(
+            `Unsupported sample size for TIFF predictor: ${bytesPerSample} bytes.`,
+          );
+      }
+    }
+  }
+}
+
+/**
+ * Reverses the floating-point predictor (predictor 3), in which the bytes of each row are
+ * rearranged so that the most significant bytes of all samples come first, and then horizontally
+ * differenced byte by byte.  The result is in the byte order of the file.
+ */
+export function undoFloatingPointPredictor(
+  data: Uint8Array,
+  width: number,
+  rows: number,
+  numSamples: number,
+  bytesPerSample: number,
+  littleEndian: boolean,
+): Uint8Array {
+  const rowLength = width * numSamples;
+  const rowBytes = rowLength * bytesPerSample;
+  const output = new Uint8Array(data.length);
+  for (let row = 0; row < rows; ++row) {
+    const rowOffset = row * rowBytes;
+    for (let i = numSamples; i < rowBytes; ++i) {
+      data[rowOffset + i] += data[rowOffset + i - numSamples];
+    }
+    for (let i = 0; i < rowLength; ++i) {
+      for (let byte = 0; byte < bytesPerSample; ++byte) {
+        const significance = littleEndian ? bytesPerSample - 1 - byte : byte;
+        output[rowOffset + i * bytesPerSample + byte] =
+          data[rowOffset + significance * rowLength + i];
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Copies `numPixels` pixels of decoded data with `numSamples` interleaved samples per pixel into
+ * `output`, which stores each of the channels of `outputPixels` pixels contiguously.
+ *
+ * @param outputPixelOffset Index of the pixel of each channel of `output` to which the first pixel
+ *     is copied.
+ * @param firstChannel Channel of `output` to which the first sample is copied.
+ */
+export function copyInterleavedSamples(
+  output: Uint8Array,
+  outputPixels: number,
+  outputPixelOffset: number,
+  input: Uint8Array,
+  numPixels: number,
+  numSamples: number,
+  firstChannel: number,
+  bytesPerSample: number,
+) {
+  if (numSamples === 1) {
+    output.set(
+      input.subarray(0, numPixels * bytesPerSample),
+      (firstChannel * outputPixels + outputPixelOffset) * bytesPerSample,
+    );
+    return;
+  }
+  for (let sample = 0; sample < numSamples; ++sample) {
+    const channelOffset =
+      ((firstChannel + sample) * outputPixels + outputPixelOffset) *
+      bytesPerSample;
+    for (let pixel = 0; pixel < numPixels; ++pixel) {
+      const inputOffset = (pixel * numSamples + sample) * bytesPerSample;
+      const outputOffset = channelOffset + pixel * bytesPerSample;
+      for (let byte = 0; byte < bytesPerSample; ++byte) {
+        output[outputOffset + byte] = input[inputOffset + byte];
+      }
+    }
+  }
+}
+
+/**
+ * Returns the volume data type corresponding to the sample format of a TIFF image.  Signed 64-bit
+ * integers are treated as `UINT64`.
+ */
+export function getVolumeDataType(layout: TiffImageLayout): DataType {
+  const { bitsPerSample, sampleFormat } = layout;
+  if (
+    sampleFormat === TiffSampleFormat.UINT ||
+    sampleFormat === TiffSampleFormat.INT
+  ) {
+    const signed = sampleFormat === TiffSampleFormat.INT;
+    switch (bitsPerSample) {
+      case 8:
+        return signed ? DataType.INT8 : DataType.UINT8;
+      case 16:
+        return signed ? DataType.INT16 : DataType.UINT16;
+      case 32:
+        return signed ? DataType.INT32 : DataType.UINT32;
+      case 64:
+        return DataType.UINT64;
+    }
+  } else if (sampleFormat === TiffSampleFormat.FLOAT && bitsPerSample === 32) {
+    return DataType.FLOAT32;
+  }
+  throw new Error(
+    `Unsupported TIFF sample format: ${TiffSampleFormat[sampleFormat] ?? sampleFormat} ` +
+      `with ${bitsPerSample} bits per sample.`,
+  );
+}
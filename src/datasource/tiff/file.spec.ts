@@ -0,0 +1,506 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the TIFF file reader.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { TiffImageLayout } from "#src/datasource/tiff/file.js";
+import {
+  checkImageLayout,
+  TiffCompression,
+  TiffFieldType,
+  TiffFile,
+  TiffPlanarConfiguration,
+  TiffSampleFormat,
+  TiffTag,
+} from "#src/datasource/tiff/file.js";
+import type {
+  ReadableKvStore,
+  ReadOptions,
+  ReadResponse,
+} from "#src/kvstore/index.js";
+
+/**
+ * Serves byte range requests from an in-memory file.  As with an HTTP server, a byte range that
+ * extends past the end of the file is truncated.
+ */
+class InMemoryKvStore implements ReadableKvStore {
+  numReads = 0;
+  constructor(public data: Uint8Array) {}
+  async read(
+    key: string,
+    options: ReadOptions,
+  ): Promise<ReadResponse | undefined> {
+    key;
+    ++this.numReads;
+    const { data } = this;
+    const { offset, length } = options.byteRange as {
+      offset: number;
+      length: number;
+    };
+    const end = Math.min(data.length, offset + length);
+    return {
+      data: data.slice(offset, end),
+      dataRange: { offset, length: end - offset },
+      totalSize: data.length,
+    };
+  }
+}
+
+interface TestField {
+  tag: number;
+  type: TiffFieldType;
+  /**
+   * Values of the field.  Rational values are specified as numerator and denominator pairs.
+   */
+  values: number[] | string;
+}
+
+interface TestImage {
+  fields: TestField[];
+  tiled: boolean;
+  /**
+   * Encoded data of each tile or strip, or `undefined` for tiles that are not stored.
+   */
+  tiles: (Uint8Array | undefined)[];
+}
+
+/**
+ * Writes a TIFF or BigTIFF file containing the specified images.  The offsets and byte counts of
+ * the tiles or strips are added to the fields of each image.
+ */
+function makeTiff(
+  images: TestImage[],
+  options: { bigTiff?: boolean; littleEndian?: boolean } = {},
+): Uint8Array {
+  const { bigTiff = false, littleEndian = true } = options;
+  const buffer = new ArrayBuffer(1 << 20);
+  const view = new DataView(buffer);
+  let position = 0;
+  const align = () => {
+    position += position % 2;
+  };
+  const writeOffset = (offset: number, at: number) => {
+    if (bigTiff) {
+      view.setBigUint64(at, BigInt(offset), littleEndian);
+    } else {
+      view.setUint32(at, offset, littleEndian);
+    }
+  };
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  let nextIfdPointer: number;
+  if (bigTiff) {
+    view.setUint16(2, 43, littleEndian);
+    view.setUint16(4, 8, littleEndian);
+    nextIfdPointer = 8;
+    position = 16;
+  } else {
+    view.setUint16(2, 42, littleEndian);
+    nextIfdPointer = 4;
+    position = 8;
+  }
+  const writeValue = (type: TiffFieldType, value: number, at: number) => {
+    switch (type) {
+      case TiffFieldType.BYTE:
+      case TiffFieldType.ASCII:
+        view.setUint8(at, value);
+        break;
+      case TiffFieldType.SHORT:
+        view.setUint16(at, value, littleEndian);
+        break;
+      case TiffFieldType.LONG:
+      case TiffFieldType.RATIONAL:
+        view.setUint32(at, value, littleEndian);
+        break;
+      case TiffFieldType.LONG8:
+        view.setBigUint64(at, BigInt(value), littleEndian);
+        break;
+      default:
+        throw new Error(`Unsupported test field type: ${type}`);
+    }
+  };
+  for (const image of images) {
+    const offsets: number[] = [];
+    const byteCounts: number[] = [];
+    for (const tile of image.tiles) {
+      align();
+      if (tile === undefined) {
+        offsets.push(0);
+        byteCounts.push(0);
+        continue;
+      }
+      new Uint8Array(buffer, position, tile.length).set(tile);
+      offsets.push(position);
+      byteCounts.push(tile.length);
+      position += tile.length;
+    }
+    const offsetType = bigTiff ? TiffFieldType.LONG8 : TiffFieldType.LONG;
+    const fields: TestField[] = [
+      ...image.fields,
+      {
+        tag: image.tiled ? TiffTag.TILE_OFFSETS : TiffTag.STRIP_OFFSETS,
+        type: offsetType,
+        values: offsets,
+      },
+      {
+        tag: image.tiled ? TiffTag.TILE_BYTE_COUNTS : TiffTag.STRIP_BYTE_COUNTS,
+        type: offsetType,
+        values: byteCounts,
+      },
+    ].sort((a, b) => a.tag - b.tag);
+    const valueSize = bigTiff ? 8 : 4;
+    const encodedFields = fields.map(({ tag, type, values }) => {
+      const numbers =
+        typeof values === "string"
+          ? Array.from(new TextEncoder().encode(`${values}\0`))
+          : values;
+      const elementSize =
+        type === TiffFieldType.RATIONAL
+          ? 4
+          : type === TiffFieldType.LONG8
+            ? 8
+            : type === TiffFieldType.SHORT
+              ? 2
+              : type === TiffFieldType.LONG
+                ? 4
+                : 1;
+      const count =
+        type === TiffFieldType.RATIONAL ? numbers.length / 2 : numbers.length;
+      return { tag, type, numbers, elementSize, count };
+    });
+    // Write values that do not fit within the directory entries.
+    const valueOffsets = encodedFields.map((field) => {
+      const size = field.numbers.length * field.elementSize;
+      if (size <= valueSize) return undefined;
+      align();
+      const offset = position;
+      field.numbers.forEach((value, i) =>
+        writeValue(field.type, value, offset + i * field.elementSize),
+      );
+      position += size;
+      return offset;
+    });
+    align();
+    const ifdOffset = position;
+    writeOffset(ifdOffset, nextIfdPointer);
+    if (bigTiff) {
+      view.setBigUint64(position, BigInt(fields.length), littleEndian);
+      position += 8;
+    } else {
+      view.setUint16(position, fields.length, littleEndian);
+      position += 2;
+    }
+    encodedFields.forEach((field, i) => {
+      view.setUint16(position, field.tag, littleEndian);
+      view.setUint16(position + 2, field.type, littleEndian);
+      if (bigTiff) {
+        view.setBigUint64(position + 4, BigInt(field.count), littleEndian);
+        position += 12;
+      } else {
+        view.setUint32(position + 4, field.count, littleEndian);
+        position += 8;
+      }
+      const valueOffset = valueOffsets[i];
+      if (valueOffset === undefined) {
+        field.numbers.forEach((value, j) =>
+          writeValue(field.type, value, position + j * field.elementSize),
+        );
+      } else {
+        writeOffset(valueOffset, position);
+      }
+      position += valueSize;
+    });
+    nextIfdPointer = position;
+    writeOffset(0, position);
+    position += valueSize;
+  }
+  return new Uint8Array(buffer, 0, position);
+}
+
+function makeImageFields(options: {
+  width: number;
+  height: number;
+  tileWidth?: number;
+  tileHeight?: number;
+  rowsPerStrip?: number;
+  bitsPerSample?: number;
+  samplesPerPixel?: number;
+  compression?: TiffCompression;
+  extra?: TestField[];
+}): TestField[] {
+  const { samplesPerPixel = 1 } = options;
+  const fields: TestField[] = [
+    {
+      tag: TiffTag.IMAGE_WIDTH,
+      type: TiffFieldType.LONG,
+      values: [options.width],
+    },
+    {
+      tag: TiffTag.IMAGE_LENGTH,
+      type: TiffFieldType.SHORT,
+      values: [options.height],
+    },
+    {
+      tag: TiffTag.BITS_PER_SAMPLE,
+      type: TiffFieldType.SHORT,
+      values: new Array(samplesPerPixel).fill(options.bitsPerSample ?? 8),
+    },
+    {
+      tag: TiffTag.SAMPLES_PER_PIXEL,
+      type: TiffFieldType.SHORT,
+      values: [samplesPerPixel],
+    },
+    {
+      tag: TiffTag.COMPRESSION,
+      type: TiffFieldType.SHORT,
+      values: [options.compression ?? TiffCompression.NONE],
+    },
+    ...(options.extra ?? []),
+  ];
+  if (options.tileWidth !== undefined) {
+    fields.push(
+      {
+        tag: TiffTag.TILE_WIDTH,
+        type: TiffFieldType.SHORT,
+        values: [options.tileWidth],
+      },
+      {
+        tag: TiffTag.TILE_LENGTH,
+        type: TiffFieldType.SHORT,
+        values: [options.tileHeight!],
+      },
+    );
+  }
+  if (options.rowsPerStrip !== undefined) {
+    fields.push({
+      tag: TiffTag.ROWS_PER_STRIP,
+      type: TiffFieldType.LONG,
+      values: [options.rowsPerStrip],
+    });
+  }
+  return fields;
+}
+
+function makeStripedImage(description?: string): TestImage {
+  return {
+    fields: makeImageFields({
+      width: 4,
+      height: 5,
+      rowsPerStrip: 2,
+      bitsPerSample: 16,
+      extra: [
+        ...(description === undefined
+          ? []
+          : [
+              {
+                tag: TiffTag.IMAGE_DESCRIPTION,
+                type: TiffFieldType.ASCII,
+                values: description,
+              },
+            ]),
+        {
+          tag: TiffTag.X_RESOLUTION,
+          type: TiffFieldType.RATIONAL,
+          values: [10000, 3],
+        },
+      ],
+    }),
+    tiled: false,
+    tiles: [
+      new Uint8Array(16).fill(1),
+      new Uint8Array(16).fill(2),
+      new Uint8Array(8).fill(3),
+    ],
+  };
+}
+
+describe("TiffFile", () => {
+  for (const bigTiff of [false, true]) {
+    for (const littleEndian of [false, true]) {
+      it(`reads stripped images with bigTiff=${bigTiff}, littleEndian=${littleEndian}`, async () => {
+        const data = makeTiff([makeStripedImage("first"), makeStripedImage()], {
+          bigTiff,
+          littleEndian,
+        });
+        const file = await TiffFile.open(new InMemoryKvStore(data), "");
+        expect(file.bigTiff).toBe(bigTiff);
+        expect(file.littleEndian).toBe(littleEndian);
+        const ifds = await file.readIfds();
+        expect(ifds.length).toBe(2);
+        const image = await file.readImage(ifds[0].offset);
+        expect(image).toMatchObject({
+          width: 4,
+          height: 5,
+          samplesPerPixel: 1,
+          bitsPerSample: 16,
+          sampleFormat: TiffSampleFormat.UINT,
+          planarConfiguration: TiffPlanarConfiguration.CHUNKY,
+          tiled: false,
+          tileWidth: 4,
+          tileHeight: 2,
+          littleEndian,
+          compression: TiffCompression.NONE,
+          byteCounts: [16, 16, 8],
+          description: "first",
+          yResolution: undefined,
+        });
+        expect(image.xResolution).toBeCloseTo(10000 / 3);
+        const secondImage = await file.readImage(ifds[1].offset);
+        expect(secondImage.description).toBeUndefined();
+        const strips = await file.readRanges(
+          image.offsets.map((offset, i) => ({
+            offset,
+            length: image.byteCounts[i],
+          })),
+        );
+        expect(strips.map((strip) => Array.from(strip))).toEqual([
+          new Array(16).fill(1),
+          new Array(16).fill(2),
+          new Array(8).fill(3),
+        ]);
+      });
+    }
+  }
+
+  it("reads tiled images", async () => {
+    const data = makeTiff([
+      {
+        fields: makeImageFields({
+          width: 10,
+          height: 5,
+          tileWidth: 16,
+          tileHeight: 16,
+          samplesPerPixel: 3,
+          extra: [
+            {
+              tag: TiffTag.PLANAR_CONFIGURATION,
+              type: TiffFieldType.SHORT,
+              values: [TiffPlanarConfiguration.PLANAR],
+            },
+          ],
+        }),
+        tiled: true,
+        // The tile of the second sample is not stored.
+        tiles: [new Uint8Array(32), undefined, new Uint8Array(32)],
+      },
+    ]);
+    const file = await TiffFile.open(new InMemoryKvStore(data), "");
+    const image = await file.readImage(file.firstIfdOffset);
+    expect(image).toMatchObject({
+      width: 10,
+      height: 5,
+      samplesPerPixel: 3,
+      planarConfiguration: TiffPlanarConfiguration.PLANAR,
+      tiled: true,
+      tileWidth: 16,
+      tileHeight: 16,
+      byteCounts: [32, 0, 32],
+    });
+  });
+
+  it("treats an image without RowsPerStrip as a single strip", async () => {
+    const data = makeTiff([
+      {
+        fields: makeImageFields({ width: 3, height: 7 }),
+        tiled: false,
+        tiles: [new Uint8Array(21)],
+      },
+    ]);
+    const file = await TiffFile.open(new InMemoryKvStore(data), "");
+    const image = await file.readImage(file.firstIfdOffset);
+    expect(image.tileHeight).toBe(7);
+  });
+
+  it("rejects images with the wrong number of strips", async () => {
+    const image = makeStripedImage();
+    image.tiles.pop();
+    const file = await TiffFile.open(
+      new InMemoryKvStore(makeTiff([image])),
+      "",
+    );
+    await expect(file.readImage(file.firstIfdOffset)).rejects.toThrow(
+      "Expected 3 TIFF strips, but received: 2.",
+    );
+  });
+
+  it("rejects fields with different values for each sample", async () => {
+    const image = makeStripedImage();
+    image.fields = makeImageFields({
+      width: 1,
+      height: 1,
+      samplesPerPixel: 2,
+    });
+    image.fields.find(
+      (field) => field.tag === TiffTag.BITS_PER_SAMPLE,
+    )!.values = [8, 16];
+    image.tiles = [new Uint8Array(3)];
+    const file = await TiffFile.open(
+      new InMemoryKvStore(makeTiff([image])),
+      "",
+    );
+    await expect(file.readImage(file.firstIfdOffset)).rejects.toThrow(
+      "TIFF field BITS_PER_SAMPLE must have the same value for all samples.",
+    );
+  });
+
+  it("detects cycles of image file directories", async () => {
+    const data = makeTiff([makeStripedImage()]);
+    const file = await TiffFile.open(new InMemoryKvStore(data), "");
+    const { offset, fields } = await file.readIfd(file.firstIfdOffset);
+    // Point the last directory back to itself.
+    new DataView(data.buffer, data.byteOffset).setUint32(
+      offset + 2 + fields.size * 12,
+      offset,
+      true,
+    );
+    const reopened = await TiffFile.open(new InMemoryKvStore(data), "");
+    await expect(reopened.readIfds()).rejects.toThrow(
+      "Cycle in TIFF image file directories.",
+    );
+  });
+
+  it("rejects files that are not TIFF files", async () => {
+    await expect(
+      TiffFile.open(new InMemoryKvStore(new Uint8Array(16)), ""),
+    ).rejects.toThrow("Not a TIFF file.");
+  });
+
+  it("caches metadata pages", async () => {
+    const kvStore = new InMemoryKvStore(
+      makeTiff([makeStripedImage(), makeStripedImage()]),
+    );
+    const file = await TiffFile.open(kvStore, "");
+    for (const ifd of await file.readIfds()) {
+      await file.readImage(ifd.offset);
+    }
+    expect(kvStore.numReads).toBe(1);
+  });
+});
+
+describe("checkImageLayout", () => {
+  const layout: TiffImageLayout = {
+    width: 10,
+    height: 20,
+    samplesPerPixel: 1,
+    bitsPerSample: 8,
+    sampleFormat: TiffSampleFormat.UINT,
+    planarConfiguration: TiffPlanarConfiguration.CHUNKY,
+    tiled: true,
+    tileWidth: 16,
+    tileHeight: 16,
+  };
+
+  it("accepts matching layouts", () => {
+    expect(checkImageLayout({ ...layout }, layout)).toBeUndefined();
+  });
+
+  it("reports the first mismatch", () => {
+    expect(checkImageLayout({ ...layout, height: 21 }, layout)).toBe(
+      "Expected TIFF image with height of 20, but received: 21.",
+    );
+  });
+});
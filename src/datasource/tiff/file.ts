@@ -0,0 +1,701 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Reader for the TIFF and BigTIFF file formats that retrieves only the byte ranges it needs.
+ *
+ * Only the fields needed to locate and decode the image data, and to determine the voxel size, are
+ * parsed.  See https://www.itu.int/itudoc/itu-t/com16/tiff-fx/docs/tiff6.pdf for the TIFF
+ * specification and https://www.awaresystems.be/imaging/tiff/bigtiff.html for BigTIFF.
+ */
+
+import type { ByteRange, ReadableKvStore } from "#src/kvstore/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+
+export enum TiffTag {
+  NEW_SUBFILE_TYPE = 254,
+  IMAGE_WIDTH = 256,
+  IMAGE_LENGTH = 257,
+  BITS_PER_SAMPLE = 258,
+  COMPRESSION = 259,
+  IMAGE_DESCRIPTION = 270,
+  STRIP_OFFSETS = 273,
+  SAMPLES_PER_PIXEL = 277,
+  ROWS_PER_STRIP = 278,
+  STRIP_BYTE_COUNTS = 279,
+  X_RESOLUTION = 282,
+  Y_RESOLUTION = 283,
+  PLANAR_CONFIGURATION = 284,
+  RESOLUTION_UNIT = 296,
+  PREDICTOR = 317,
+  TILE_WIDTH = 322,
+  TILE_LENGTH = 323,
+  TILE_OFFSETS = 324,
+  TILE_BYTE_COUNTS = 325,
+  SAMPLE_FORMAT = 339,
+}
+
+export enum TiffFieldType {
+  BYTE = 1,
+  ASCII = 2,
+  SHORT = 3,
+  LONG = 4,
+  RATIONAL = 5,
+  SBYTE = 6,
+  UNDEFINED = 7,
+  SSHORT = 8,
+  SLONG = 9,
+  SRATIONAL = 10,
+  FLOAT = 11,
+  DOUBLE = 12,
+  IFD = 13,
+  LONG8 = 16,
+  SLONG8 = 17,
+  IFD8 = 18,
+}
+
+const fieldTypeSizes: { [type: number]: number } = {
+  [TiffFieldType.BYTE]: 1,
+  [TiffFieldType.ASCII]: 1,
+  [TiffFieldType.SHORT]: 2,
+  [TiffFieldType.LONG]: 4,
+  [TiffFieldType.RATIONAL]: 8,
+  [TiffFieldType.SBYTE]: 1,
+  [TiffFieldType.UNDEFINED]: 1,
+  [TiffFieldType.SSHORT]: 2,
+  [TiffFieldType.SLONG]: 4,
+  [TiffFieldType.SRATIONAL]: 8,
+  [TiffFieldType.FLOAT]: 4,
+  [TiffFieldType.DOUBLE]: 8,
+  [TiffFieldType.IFD]: 4,
+  [TiffFieldType.LONG8]: 8,
+  [TiffFieldType.SLONG8]: 8,
+  [TiffFieldType.IFD8]: 8,
+};
+
+export enum TiffCompression {
+  NONE = 1,
+  LZW = 5,
+  DEFLATE = 8,
+  ADOBE_DEFLATE = 32946,
+}
+
+export enum TiffPredictor {
+  NONE = 1,
+  HORIZONTAL = 2,
+  FLOATING_POINT = 3,
+}
+
+export enum TiffSampleFormat {
+  UINT = 1,
+  INT = 2,
+  FLOAT = 3,
+}
+
+export enum TiffPlanarConfiguration {
+  CHUNKY = 1,
+  PLANAR = 2,
+}
+
+export enum TiffResolutionUnit {
+  NONE = 1,
+  INCH = 2,
+  CENTIMETER = 3,
+}
+
+/**
+ * Bit of the `NewSubfileType` field that marks a reduced-resolution version of another image.
+ */
+export const REDUCED_RESOLUTION_SUBFILE = 1;
+
+/**
+ * Layout of the image data, which must be the same for all images that form a volume.
+ */
+export interface TiffImageLayout {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  bitsPerSample: number;
+  sampleFormat: TiffSampleFormat;
+  planarConfiguration: TiffPlanarConfiguration;
+  tiled: boolean;
+  /**
+   * Size of each tile.  For images stored in strips, the width of the image and the number of rows
+   * per strip.
+   */
+  tileWidth: number;
+  tileHeight: number;
+}
+
+export interface TiffImage extends TiffImageLayout {
+  littleEndian: boolean;
+  compression: number;
+  predictor: number;
+  /**
+   * Offset and byte count of each tile or strip, in row-major order.  For the planar
+   * configuration, all tiles or strips of the first sample come first.
+   */
+  offsets: number[];
+  byteCounts: number[];
+  description: string | undefined;
+  xResolution: number | undefined;
+  yResolution: number | undefined;
+  resolutionUnit: TiffResolutionUnit;
+}
+
+export interface TiffField {
+  type: TiffFieldType;
+  count: number;
+  /**
+   * Offset within the file of the values, which may be within the directory entry itself.
+   */
+  offset: number;
+}
+
+/**
+ * Image file directory.
+ */
+export interface TiffIfd {
+  offset: number;
+  fields: Map<TiffTag, TiffField>;
+  /**
+   * Offset of the next image file directory, or 0 if this is the last one.
+   */
+  nextOffset: number;
+}
+
+const PAGE_SIZE = 16384;
+const MAX_CACHED_PAGES = 256;
+
+/**
+ * Maximum number of image file directories read from a single file.
+ */
+const MAX_IFDS = 1000000;
+
+/**
+ * Returns the number of tiles or strips across and down each sample plane of an image.
+ */
+export function getTileGridShape(layout: TiffImageLayout) {
+  return {
+    tilesAcross: Math.ceil(layout.width / layout.tileWidth),
+    tilesDown: Math.ceil(layout.height / layout.tileHeight),
+  };
+}
+
+/**
+ * Returns an error message if `image` does not have the layout `expected`.
+ */
+export function checkImageLayout(
+  image: TiffImageLayout,
+  expected: TiffImageLayout,
+): string | undefined {
+  for (const key of Object.keys(expected) as (keyof TiffImageLayout)[]) {
+    if (image[key] !== expected[key]) {
+      return (
+        `Expected TIFF image with ${key} of ${JSON.stringify(expected[key])}, ` +
+        `but received: ${JSON.stringify(image[key])}.`
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a TIFF or BigTIFF file through a `ReadableKvStore`.  Image file directories and field
+ * values are read in fixed-size pages, which are cached.
+ */
+export class TiffFile {
+  littleEndian = true;
+  bigTiff = false;
+  firstIfdOffset = 0;
+
+  private pages = new Map<number, Promise<Uint8Array>>();
+
+  /**
+   * Set if the server ignored a byte range request and returned the entire file.
+   */
+  private fileData: Uint8Array | undefined;
+
+  private constructor(
+    public kvStore: ReadableKvStore,
+    public key: string,
+  ) {}
+
+  static async open(
+    kvStore: ReadableKvStore,
+    key: string,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ) {
+    const file = new TiffFile(kvStore, key);
+    await file.readHeader(cancellationToken);
+    return file;
+  }
+
+  /**
+   * Reads the specified byte range without caching it.  Returns `undefined` if the file does not
+   * exist.
+   */
+  async readUncached(
+    offset: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array | undefined> {
+    const { fileData } = this;
+    if (fileData !== undefined) {
+      return fileData.subarray(
+        offset,
+        Math.min(fileData.length, offset + length),
+      );
+    }
+    const response = await this.kvStore.read(this.key, {
+      byteRange: { offset, length },
+      cancellationToken,
+    });
+    if (response === undefined) return undefined;
+    const { data, dataRange } = response;
+    if (
+      dataRange.offset === 0 &&
+      response.totalSize === data.length &&
+      data.length > length
+    ) {
+      this.fileData = data;
+    }
+    const begin = offset - dataRange.offset;
+    return data.subarray(begin, Math.min(data.length, begin + length));
+  }
+
+  private getPage(pageIndex: number, cancellationToken: CancellationToken) {
+    const { pages } = this;
+    let page = pages.get(pageIndex);
+    if (page !== undefined) {
+      // Move to the end of the iteration order to mark it as recently used.
+      pages.delete(pageIndex);
+      pages.set(pageIndex, page);
+      return page;
+    }
+    page = this.readUncached(
+      pageIndex * PAGE_SIZE,
+      PAGE_SIZE,
+      cancellationToken,
+    ).then((data) => {
+      if (data === undefined) {
+        throw new Error("TIFF file not found.");
+      }
+      return data;
+    });
+    page.catch(() => pages.delete(pageIndex));
+    pages.set(pageIndex, page);
+    if (pages.size > MAX_CACHED_PAGES) {
+      pages.delete(pages.keys().next().value!);
+    }
+    return page;
+  }
+
+  /**
+   * Reads metadata at the specified offset.
+   */
+  async read(
+    offset: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ): Promise<DataView> {
+    const firstPage = Math.floor(offset / PAGE_SIZE);
+    const lastPage = Math.floor((offset + Math.max(1, length) - 1) / PAGE_SIZE);
+    const pageData = await Promise.all(
+      Array.from({ length: lastPage - firstPage + 1 }, (_, i) =>
+        this.getPage(firstPage + i, cancellationToken),
+      ),
+    );
+    let result: Uint8Array;
+    const begin = offset - firstPage * PAGE_SIZE;
+    if (pageData.length === 1) {
+      result = pageData[0].subarray(begin, begin + length);
+    } else {
+      result = new Uint8Array(length);
+      let outputOffset = 0;
+      pageData.forEach((page, i) => {
+        const part = page.subarray(
+          i === 0 ? begin : 0,
+          begin + length - i * PAGE_SIZE,
+        );
+        result.set(part, outputOffset);
+        outputOffset += part.length;
+      });
+      result = result.subarray(0, outputOffset);
+    }
+    if (result.length !== length) {
+      throw new Error("Unexpected end of TIFF file.");
+    }
+    return new DataView(result.buffer, result.byteOffset, result.byteLength);
+  }
+
+  private readOffset(view: DataView, offset: number) {
+    return this.bigTiff
+      ? Number(view.getBigUint64(offset, this.littleEndian))
+      : view.getUint32(offset, this.littleEndian);
+  }
+
+  private async readHeader(cancellationToken: CancellationToken) {
+    const header = await this.read(0, 8, cancellationToken);
+    const byteOrder = header.getUint16(0);
+    if (byteOrder === 0x4949) {
+      this.littleEndian = true;
+    } else if (byteOrder === 0x4d4d) {
+      this.littleEndian = false;
+    } else {
+      throw new Error("Not a TIFF file.");
+    }
+    const version = header.getUint16(2, this.littleEndian);
+    if (version === 42) {
+      this.firstIfdOffset = header.getUint32(4, this.littleEndian);
+    } else if (version === 43) {
+      this.bigTiff = true;
+      const bigHeader = await this.read(0, 16, cancellationToken);
+      const offsetSize = bigHeader.getUint16(4, this.littleEndian);
+      if (offsetSize !== 8) {
+        throw new Error(`Unsupported BigTIFF offset size: ${offsetSize}.`);
+      }
+      this.firstIfdOffset = this.readOffset(bigHeader, 8);
+    } else {
+      throw new Error(`Unsupported TIFF version: ${version}.`);
+    }
+    if (this.firstIfdOffset === 0) {
+      throw new Error("TIFF file contains no images.");
+    }
+  }
+
+  async readIfd(
+    offset: number,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<TiffIfd> {
+    const { bigTiff, littleEndian } = this;
+    const countSize = bigTiff ? 8 : 2;
+    const entrySize = bigTiff ? 20 : 12;
+    const valueSize = bigTiff ? 8 : 4;
+    const countView = await this.read(offset, countSize, cancellationToken);
+    const numEntries = bigTiff
+      ? Number(countView.getBigUint64(0, littleEndian))
+      : countView.getUint16(0, littleEndian);
+    const view = await this.read(
+      offset + countSize,
+      numEntries * entrySize + valueSize,
+      cancellationToken,
+    );
+    const fields = new Map<TiffTag, TiffField>();
+    for (let i = 0; i < numEntries; ++i) {
+      const entryOffset = i * entrySize;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      const typeSize = fieldTypeSizes[type];
+      // Fields of unknown types are ignored, as required by the specification.
+      if (typeSize === undefined) continue;
+      const count = bigTiff
+        ? Number(view.getBigUint64(entryOffset + 4, littleEndian))
+        : view.getUint32(entryOffset + 4, littleEndian);
+      const valueOffset = entryOffset + (bigTiff ? 12 : 8);
+      fields.set(tag, {
+        type,
+        count,
+        offset:
+          typeSize * count <= valueSize
+            ? offset + countSize + valueOffset
+            : this.readOffset(view, valueOffset),
+      });
+    }
+    return {
+      offset,
+      fields,
+      nextOffset: this.readOffset(view, numEntries * entrySize),
+    };
+  }
+
+  /**
+   * Reads all image file directories, in order.
+   */
+  async readIfds(
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<TiffIfd[]> {
+    const ifds: TiffIfd[] = [];
+    const seen = new Set<number>();
+    for (let offset = this.firstIfdOffset; offset !== 0; ) {
+      if (seen.has(offset)) {
+        throw new Error("Cycle in TIFF image file directories.");
+      }
+      if (ifds.length === MAX_IFDS) {
+        throw new Error(
+          `TIFF file contains more than ${MAX_IFDS} image file directories.`,
+        );
+      }
+      seen.add(offset);
+      const ifd = await this.readIfd(offset, cancellationToken);
+      ifds.push(ifd);
+      offset = ifd.nextOffset;
+    }
+    return ifds;
+  }
+
+  async readFieldNumbers(
+    field: TiffField,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<number[]> {
+    const { type, count } = field;
+    const { littleEndian } = this;
+    const typeSize = fieldTypeSizes[type];
+    const view = await this.read(
+      field.offset,
+      typeSize * count,
+      cancellationToken,
+    );
+    const values = new Array<number>(count);
+    for (let i = 0; i < count; ++i) {
+      const offset = i * typeSize;
+      let value: number;
+      switch (type) {
+        case TiffFieldType.BYTE:
+        case TiffFieldType.UNDEFINED:
+          value = view.getUint8(offset);
+          break;
+        case TiffFieldType.SBYTE:
+          value = view.getInt8(offset);
+          break;
+        case TiffFieldType.SHORT:
+          value = view.getUint16(offset, littleEndian);
+          break;
+        case TiffFieldType.SSHORT:
+          value = view.getInt16(offset, littleEndian);
+          break;
+        case TiffFieldType.LONG:
+        case TiffFieldType.IFD:
+          value = view.getUint32(offset, littleEndian);
+          break;
+        case TiffFieldType.SLONG:
+          value = view.getInt32(offset, littleEndian);
+          break;
+        case TiffFieldType.RATIONAL:
+          value =
+            view.getUint32(offset, littleEndian) /
+            view.getUint32(offset + 4, littleEndian);
+          break;
+        case TiffFieldType.SRATIONAL:
+          value =
+            view.getInt32(offset, littleEndian) /
+            view.getInt32(offset + 4, littleEndian);
+          break;
+        case TiffFieldType.FLOAT:
+          value = view.getFloat32(offset, littleEndian);
+          break;
+        case TiffFieldType.DOUBLE:
+          value = view.getFloat64(offset, littleEndian);
+          break;
+        case TiffFieldType.LONG8:
+        case TiffFieldType.IFD8:
+          value = Number(view.getBigUint64(offset, littleEndian));
+          break;
+        case TiffFieldType.SLONG8:
+          value = Number(view.getBigInt64(offset, littleEndian));
+          break;
+        default:
+          throw new Error(`TIFF field of type ${type} is not numeric.`);
+      }
+      values[i] = value;
+    }
+    return values;
+  }
+
+  async readFieldString(
+    field: TiffField,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<string> {
+    const view = await this.read(field.offset, field.count, cancellationToken);
+    const text = new TextDecoder().decode(
+      new Uint8Array(view.buffer, view.byteOffset, view.byteLength),
+    );
+    // Strings are terminated by NUL.
+    const end = text.indexOf("\0");
+    return end === -1 ? text : text.substring(0, end);
+  }
+
+  /**
+   * Returns the values of a field, or `defaultValue` if the field is not present.
+   */
+  async getFieldNumbers(
+    ifd: TiffIfd,
+    tag: TiffTag,
+    defaultValue: number[] | undefined,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<number[]> {
+    const field = ifd.fields.get(tag);
+    if (field === undefined) {
+      if (defaultValue === undefined) {
+        throw new Error(`Required TIFF field ${TiffTag[tag]} is missing.`);
+      }
+      return defaultValue;
+    }
+    return this.readFieldNumbers(field, cancellationToken);
+  }
+
+  /**
+   * Returns the first value of a field, which must have the same value for all samples.
+   */
+  private async getFieldNumber(
+    ifd: TiffIfd,
+    tag: TiffTag,
+    defaultValue: number | undefined,
+    cancellationToken: CancellationToken,
+  ): Promise<number> {
+    const values = await this.getFieldNumbers(
+      ifd,
+      tag,
+      defaultValue === undefined ? undefined : [defaultValue],
+      cancellationToken,
+    );
+    if (values.some((x) => x !== values[0])) {
+      throw new Error(
+        `TIFF field ${TiffTag[tag]} must have the same value for all samples.`,
+      );
+    }
+    return values[0];
+  }
+
+  async readImage(
+    ifdOffset: number,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<TiffImage> {
+    const ifd = await this.readIfd(ifdOffset, cancellationToken);
+    const getNumber = (tag: TiffTag, defaultValue?: number) =>
+      this.getFieldNumber(ifd, tag, defaultValue, cancellationToken);
+    const width = await getNumber(TiffTag.IMAGE_WIDTH);
+    const height = await getNumber(TiffTag.IMAGE_LENGTH);
+    const tiled = ifd.fields.has(TiffTag.TILE_WIDTH);
+    let tileWidth: number;
+    let tileHeight: number;
+    let offsetsTag: TiffTag;
+    let byteCountsTag: TiffTag;
+    if (tiled) {
+      tileWidth = await getNumber(TiffTag.TILE_WIDTH);
+      tileHeight = await getNumber(TiffTag.TILE_LENGTH);
+      offsetsTag = TiffTag.TILE_OFFSETS;
+      byteCountsTag = TiffTag.TILE_BYTE_COUNTS;
+    } else {
+      tileWidth = width;
+      tileHeight = Math.min(
+        height,
+        await getNumber(TiffTag.ROWS_PER_STRIP, 2 ** 32 - 1),
+      );
+      offsetsTag = TiffTag.STRIP_OFFSETS;
+      byteCountsTag = TiffTag.STRIP_BYTE_COUNTS;
+    }
+    const descriptionField = ifd.fields.get(TiffTag.IMAGE_DESCRIPTION);
+    const getOptionalNumber = async (tag: TiffTag) => {
+      const field = ifd.fields.get(tag);
+      if (field === undefined) return undefined;
+      return (await this.readFieldNumbers(field, cancellationToken))[0];
+    };
+    const image: TiffImage = {
+      width,
+      height,
+      samplesPerPixel: await getNumber(TiffTag.SAMPLES_PER_PIXEL, 1),
+      bitsPerSample: await getNumber(TiffTag.BITS_PER_SAMPLE, 1),
+      sampleFormat: await getNumber(
+        TiffTag.SAMPLE_FORMAT,
+        TiffSampleFormat.UINT,
+      ),
+      planarConfiguration: await getNumber(
+        TiffTag.PLANAR_CONFIGURATION,
+        TiffPlanarConfiguration.CHUNKY,
+      ),
+      tiled,
+      tileWidth,
+      tileHeight,
+      littleEndian: this.littleEndian,
+      compression: await getNumber(TiffTag.COMPRESSION, TiffCompression.NONE),
+      predictor: await getNumber(TiffTag.PREDICTOR, TiffPredictor.NONE),
+      offsets: await this.getFieldNumbers(
+        ifd,
+        offsetsTag,
+        undefined,
+        cancellationToken,
+      ),
+      byteCounts: await this.getFieldNumbers(
+        ifd,
+        byteCountsTag,
+        undefined,
+        cancellationToken,
+      ),
+      description:
+        descriptionField === undefined
+          ? undefined
+          : await this.readFieldString(descriptionField, cancellationToken),
+      xResolution: await getOptionalNumber(TiffTag.X_RESOLUTION),
+      yResolution: await getOptionalNumber(TiffTag.Y_RESOLUTION),
+      resolutionUnit: await getNumber(
+        TiffTag.RESOLUTION_UNIT,
+        TiffResolutionUnit.INCH,
+      ),
+    };
+    const { tilesAcross, tilesDown } = getTileGridShape(image);
+    const expectedCount =
+      tilesAcross *
+      tilesDown *
+      (image.planarConfiguration === TiffPlanarConfiguration.PLANAR
+        ? image.samplesPerPixel
+        : 1);
+    if (
+      image.offsets.length !== expectedCount ||
+      image.byteCounts.length !== expectedCount
+    ) {
+      throw new Error(
+        `Expected ${expectedCount} TIFF ${tiled ? "tiles" : "strips"}, ` +
+          `but received: ${image.offsets.length}.`,
+      );
+    }
+    return image;
+  }
+
+  /**
+   * Reads the specified byte ranges of image data, combining adjacent ranges into a single read.
+   */
+  async readRanges(
+    ranges: readonly ByteRange[],
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<Uint8Array[]> {
+    const results = new Array<Uint8Array>(ranges.length);
+    const reads: Promise<void>[] = [];
+    for (let begin = 0; begin < ranges.length; ) {
+      const { offset } = ranges[begin];
+      let end = begin + 1;
+      let length = ranges[begin].length;
+      while (end < ranges.length && ranges[end].offset === offset + length) {
+        length += ranges[end].length;
+        ++end;
+      }
+      const first = begin;
+      reads.push(
+        (async () => {
+          const data = await this.readUncached(
+            offset,
+            length,
+            cancellationToken,
+          );
+          if (data === undefined) {
+            throw new Error("TIFF file not found.");
+          }
+          if (data.length !== length) {
+            throw new Error("Unexpected end of TIFF file.");
+          }
+          for (let i = first; i < end; ++i) {
+            const range = ranges[i];
+            const rangeOffset = range.offset - offset;
+            results[i] = data.subarray(rangeOffset, rangeOffset + range.length);
+          }
+        })(),
+      );
+      begin = end;
+    }
+    await Promise.all(reads);
+    return results;
+  }
+}
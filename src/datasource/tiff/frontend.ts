@@ -0,0 +1,318 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Data source for volumes stored as TIFF stacks, either as the pages of a single file or as a
+ * directory of files with one z slice each.
+ */
+
+import { makeDataBoundsBoundingBoxAnnotationSet } from "#src/annotation/index.js";
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type { CoordinateSpace } from "#src/coordinate_transform.js";
+import {
+  makeCoordinateSpace,
+  makeIdentityTransform,
+  makeIdentityTransformedBoundingBox,
+} from "#src/coordinate_transform.js";
+import { WithCredentialsProvider } from "#src/credentials_provider/chunk_source_frontend.js";
+import type { CredentialsManager } from "#src/credentials_provider/index.js";
+import type {
+  CompleteUrlOptions,
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { TiffSlice } from "#src/datasource/tiff/base.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/tiff/base.js";
+import { getVolumeDataType } from "#src/datasource/tiff/decode.js";
+import type { TiffImage, TiffImageLayout } from "#src/datasource/tiff/file.js";
+import {
+  REDUCED_RESOLUTION_SUBFILE,
+  TiffFile,
+  TiffTag,
+} from "#src/datasource/tiff/file.js";
+import { getDimensionScales } from "#src/datasource/tiff/metadata.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type {
+  DataType,
+  VolumeSourceOptions,
+} from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import { completeHttpPath } from "#src/util/http_path_completion.js";
+import type {
+  SpecialProtocolCredentials,
+  SpecialProtocolCredentialsProvider,
+} from "#src/util/special_protocol_request.js";
+import { parseSpecialUrl } from "#src/util/special_protocol_request.js";
+
+class TiffVolumeChunkSource extends WithParameters(
+  WithCredentialsProvider<SpecialProtocolCredentials>()(VolumeChunkSource),
+  VolumeChunkSourceParameters,
+) {}
+
+/**
+ * Target size in bytes of the chunks into which images stored in strips are divided.
+ */
+const STRIP_CHUNK_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Matches the name of a TIFF file, identified by its extension.
+ */
+const tiffFilePattern = /\.(?:tif|tiff|btf|tf8)$/i;
+
+/**
+ * Returns the size of the chunks of a volume with the specified layout, in x, y, and z.  Each
+ * chunk is a single tile, or a group of consecutive strips, of a single z slice.
+ */
+export function getChunkShape(layout: TiffImageLayout): number[] {
+  if (layout.tiled) return [layout.tileWidth, layout.tileHeight, 1];
+  const stripBytes =
+    layout.width *
+    layout.tileHeight *
+    layout.samplesPerPixel *
+    (layout.bitsPerSample / 8);
+  const stripsPerChunk = Math.max(
+    1,
+    Math.floor(STRIP_CHUNK_BYTES / stripBytes),
+  );
+  return [
+    layout.width,
+    Math.min(layout.height, stripsPerChunk * layout.tileHeight),
+    1,
+  ];
+}
+
+export class MultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get rank() {
+    return this.modelSpace.rank;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public credentialsProvider: SpecialProtocolCredentialsProvider,
+    public url: string,
+    public slices: TiffSlice[],
+    public layout: TiffImageLayout,
+    public dataType: DataType,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, layout } = this;
+    const chunkShape = getChunkShape(layout);
+    if (rank === 4) chunkShape.push(layout.samplesPerPixel);
+    const transform = new Float32Array((rank + 1) ** 2);
+    for (let i = 0; i <= rank; ++i) {
+      transform[i * (rank + 2)] = 1;
+    }
+    return [
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform: transform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(this.modelSpace.bounds.upperBounds),
+        volumeType: this.volumeType,
+        chunkDataSizes: [Uint32Array.from(chunkShape)],
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(TiffVolumeChunkSource, {
+            credentialsProvider: this.credentialsProvider,
+            spec,
+            parameters: {
+              url: this.url,
+              slices: this.slices,
+              layout: this.layout,
+            },
+          }),
+          chunkToMultiscaleTransform: transform,
+        }),
+      ),
+    ];
+  }
+}
+
+function getImageLayout(image: TiffImage): TiffImageLayout {
+  const {
+    width,
+    height,
+    samplesPerPixel,
+    bitsPerSample,
+    sampleFormat,
+    planarConfiguration,
+    tiled,
+    tileWidth,
+    tileHeight,
+  } = image;
+  return {
+    width,
+    height,
+    samplesPerPixel,
+    bitsPerSample,
+    sampleFormat,
+    planarConfiguration,
+    tiled,
+    tileWidth,
+    tileHeight,
+  };
+}
+
+/**
+ * Returns the slices of a single file, one for each full-resolution image.
+ */
+async function getFileSlices(file: TiffFile): Promise<TiffSlice[]> {
+  const slices: TiffSlice[] = [];
+  for (const ifd of await file.readIfds()) {
+    const [subfileType] = await file.getFieldNumbers(
+      ifd,
+      TiffTag.NEW_SUBFILE_TYPE,
+      [0],
+    );
+    if (subfileType & REDUCED_RESOLUTION_SUBFILE) continue;
+    slices.push({ key: "", ifdOffset: ifd.offset });
+  }
+  return slices;
+}
+
+/**
+ * Returns the slices of a directory, one for each TIFF file, in natural sort order of the file
+ * names.
+ */
+async function getDirectorySlices(
+  credentialsManager: CredentialsManager,
+  directoryUrl: string,
+): Promise<TiffSlice[]> {
+  // The result is shared by all users of the data source, so the listing is not cancelable.
+  const { completions } = await completeHttpPath(
+    credentialsManager,
+    directoryUrl,
+    uncancelableToken,
+  );
+  const keys = completions
+    .map((completion) => completion.value)
+    .filter((name) => !name.includes("/") && tiffFilePattern.test(name));
+  if (keys.length === 0) {
+    throw new Error("Directory contains no TIFF files.");
+  }
+  keys.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return keys.map((key) => ({ key }));
+}
+
+export class TiffDataSource extends DataSourceProvider {
+  get description() {
+    return "TIFF data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const { providerUrl } = options;
+    const isDirectory = providerUrl.endsWith("/");
+    if (!isDirectory && !tiffFilePattern.test(providerUrl)) {
+      throw new Error(
+        "TIFF URL must have an extension of .tif, .tiff, .btf, or .tf8, " +
+          "or end with / to specify a directory of TIFF files",
+      );
+    }
+    return options.chunkManager.memoize.getUncounted(
+      { type: "tiff:DataSource", providerUrl },
+      async () => {
+        const { url, credentialsProvider } = parseSpecialUrl(
+          providerUrl,
+          options.credentialsManager,
+        );
+        const kvStore = getSpecialProtocolKvStore(credentialsProvider, url);
+        let slices: TiffSlice[];
+        let file: TiffFile;
+        if (isDirectory) {
+          slices = await getDirectorySlices(
+            options.credentialsManager,
+            providerUrl,
+          );
+          file = await TiffFile.open(kvStore, slices[0].key);
+        } else {
+          file = await TiffFile.open(kvStore, "");
+          slices = await getFileSlices(file);
+        }
+        const image = await file.readImage(
+          slices[0].ifdOffset ?? file.firstIfdOffset,
+        );
+        const layout = getImageLayout(image);
+        const { samplesPerPixel } = layout;
+        const rank = samplesPerPixel === 1 ? 3 : 4;
+        const { units, scales } = getDimensionScales(image);
+        const names = ["x", "y", "z"];
+        const scaleValues = Array.from(scales);
+        const upperBounds = [layout.width, layout.height, slices.length];
+        if (rank === 4) {
+          names.push("c^");
+          units.push("");
+          scaleValues.push(1);
+          upperBounds.push(samplesPerPixel);
+        }
+        const modelSpace = makeCoordinateSpace({
+          names,
+          units,
+          scales: Float64Array.from(scaleValues),
+          boundingBoxes: [
+            makeIdentityTransformedBoundingBox({
+              lowerBounds: new Float64Array(rank),
+              upperBounds: Float64Array.from(upperBounds),
+            }),
+          ],
+        });
+        const volume = new MultiscaleVolumeChunkSource(
+          options.chunkManager,
+          credentialsProvider,
+          url,
+          slices,
+          layout,
+          getVolumeDataType(layout),
+          modelSpace,
+        );
+        return {
+          modelTransform: makeIdentityTransform(modelSpace),
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              subsource: { volume },
+            },
+            {
+              id: "bounds",
+              default: true,
+              subsource: {
+                staticAnnotations: makeDataBoundsBoundingBoxAnnotationSet(
+                  modelSpace.bounds,
+                ),
+              },
+            },
+          ],
+        };
+      },
+    );
+  }
+
+  completeUrl(options: CompleteUrlOptions) {
+    return completeHttpPath(
+      options.credentialsManager,
+      options.providerUrl,
+      options.cancellationToken,
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the determination of the voxel size of TIFF stacks.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { TiffImage } from "#src/datasource/tiff/file.js";
+import { TiffResolutionUnit } from "#src/datasource/tiff/file.js";
+import {
+  getDimensionScales,
+  parseImageJDescription,
+} from "#src/datasource/tiff/metadata.js";
+
+function getScales(options: Partial<TiffImage>) {
+  const { units, scales } = getDimensionScales({
+    description: undefined,
+    xResolution: undefined,
+    yResolution: undefined,
+    resolutionUnit: TiffResolutionUnit.INCH,
+    ...options,
+  } as TiffImage);
+  return { units, scales: Array.from(scales) };
+}
+
+describe("parseImageJDescription", () => {
+  it("parses key=value lines", () => {
+    expect(
+      parseImageJDescription("ImageJ=1.54f\nimages=10\nunit=micron\n"),
+    ).toEqual(
+      new Map([
+        ["ImageJ", "1.54f"],
+        ["images", "10"],
+        ["unit", "micron"],
+      ]),
+    );
+  });
+
+  it("ignores other descriptions", () => {
+    expect(parseImageJDescription('{"shape": [10, 20]}')).toBeUndefined();
+    expect(parseImageJDescription(undefined)).toBeUndefined();
+  });
+});
+
+describe("getDimensionScales", () => {
+  it("uses the ImageJ unit and spacing", () => {
+    const { units, scales } = getScales({
+      description: "ImageJ=1.54f\nunit=micron\nspacing=2.5\n",
+      xResolution: 2,
+      yResolution: 4,
+    });
+    expect(units).toEqual(["m", "m", "m"]);
+    expect(scales[0]).toBeCloseTo(0.5e-6);
+    expect(scales[1]).toBeCloseTo(0.25e-6);
+    expect(scales[2]).toBeCloseTo(2.5e-6);
+  });
+
+  it("treats uncalibrated ImageJ images as unitless", () => {
+    expect(
+      getScales({
+        description: "ImageJ=1.54f\nunit=pixel\n",
+        xResolution: 72,
+        yResolution: 72,
+      }),
+    ).toEqual({ units: ["", "", ""], scales: [1, 1, 1] });
+  });
+
+  it("uses the resolution unit", () => {
+    const { units, scales } = getScales({
+      xResolution: 10000,
+      resolutionUnit: TiffResolutionUnit.CENTIMETER,
+    });
+    expect(units).toEqual(["m", "m", "m"]);
+    expect(scales[0]).toBeCloseTo(1e-6);
+    expect(scales[1]).toBeCloseTo(1e-6);
+    expect(scales[2]).toBeCloseTo(1e-6);
+  });
+
+  it("treats images without a resolution as unitless", () => {
+    expect(getScales({})).toEqual({ units: ["", "", ""], scales: [1, 1, 1] });
+  });
+});
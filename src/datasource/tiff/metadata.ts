@@ -0,0 +1,104 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Determination of the voxel size of TIFF stacks.
+ *
+ * TIFF only defines the pixel density within each image, as the `XResolution`, `YResolution`, and
+ * `ResolutionUnit` fields.  Fiji and ImageJ additionally record the unit and the z spacing in the
+ * image description, as lines of the form `key=value` following an `ImageJ=VERSION` line.
+ */
+
+import type { TiffImage } from "#src/datasource/tiff/file.js";
+import { TiffResolutionUnit } from "#src/datasource/tiff/file.js";
+
+export interface TiffDimensionScales {
+  units: string[];
+  /**
+   * Voxel size in x, y, and z.
+   */
+  scales: Float64Array;
+}
+
+/**
+ * Scale in meters of the length units written by ImageJ.
+ */
+const imageJUnits = new Map<string, number>([
+  ["nm", 1e-9],
+  ["nanometer", 1e-9],
+  ["micron", 1e-6],
+  ["microns", 1e-6],
+  ["um", 1e-6],
+  ["µm", 1e-6],
+  ["\\u00B5m", 1e-6],
+  ["mm", 1e-3],
+  ["cm", 1e-2],
+  ["m", 1],
+  ["inch", 0.0254],
+]);
+
+/**
+ * Parses the `key=value` lines of an ImageJ image description.  Returns `undefined` if the
+ * description was not written by ImageJ.
+ */
+export function parseImageJDescription(
+  description: string | undefined,
+): Map<string, string> | undefined {
+  if (description === undefined || !description.startsWith("ImageJ=")) {
+    return undefined;
+  }
+  const values = new Map<string, string>();
+  for (const line of description.split("\n")) {
+    const separator = line.indexOf("=");
+    if (separator === -1) continue;
+    values.set(
+      line.substring(0, separator).trim(),
+      line.substring(separator + 1).trim(),
+    );
+  }
+  return values;
+}
+
+function getPixelSize(resolution: number | undefined, unitScale: number) {
+  if (
+    resolution === undefined ||
+    !Number.isFinite(resolution) ||
+    resolution <= 0
+  ) {
+    return undefined;
+  }
+  return unitScale / resolution;
+}
+
+/**
+ * Returns the voxel size of a stack whose first image is `image`.  The z spacing is only known for
+ * stacks written by ImageJ; otherwise, it is assumed to equal the x pixel size.  Dimensions are
+ * unitless with a scale of 1 if the pixel size is not known.
+ */
+export function getDimensionScales(image: TiffImage): TiffDimensionScales {
+  const imageJ = parseImageJDescription(image.description);
+  let unitScale: number | undefined;
+  if (imageJ !== undefined) {
+    // ImageJ records uncalibrated images with a unit of "pixel".
+    unitScale = imageJUnits.get(imageJ.get("unit") ?? "");
+  } else if (image.resolutionUnit === TiffResolutionUnit.INCH) {
+    unitScale = 0.0254;
+  } else if (image.resolutionUnit === TiffResolutionUnit.CENTIMETER) {
+    unitScale = 0.01;
+  }
+  if (unitScale !== undefined) {
+    const x = getPixelSize(image.xResolution, unitScale);
+    const y = getPixelSize(image.yResolution, unitScale) ?? x;
+    if (x !== undefined && y !== undefined) {
+      let z = x;
+      const spacing = Number(imageJ?.get("spacing"));
+      if (Number.isFinite(spacing) && spacing > 0) {
+        z = spacing * unitScale;
+      }
+      return { units: ["m", "m", "m"], scales: Float64Array.of(x, y, z) };
+    }
+  }
+  return { units: ["", "", ""], scales: Float64Array.of(1, 1, 1) };
+}
@@ -0,0 +1,13 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Registers the TIFF data source.
+ */
+
+import { registerProvider } from "#src/datasource/default_provider.js";
+import { TiffDataSource } from "#src/datasource/tiff/frontend.js";
+
+registerProvider("tiff", () => new TiffDataSource());
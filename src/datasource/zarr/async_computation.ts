@@ -1,3 +1,6 @@
 import "#src/async_computation/decode_gzip.js";
 import "#src/async_computation/decode_blosc.js";
 import "#src/async_computation/decode_zstd.js";
+import "#src/async_computation/encode_gzip.js";
+import "#src/async_computation/encode_blosc.js";
+import "#src/async_computation/encode_zstd.js";
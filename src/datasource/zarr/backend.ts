@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/datasource/zarr/codec/blosc/decode.js";
@@ -22,22 +25,43 @@ import "#src/datasource/zarr/codec/crc32c/decode.js";
 import { WithParameters } from "#src/chunk_manager/backend.js";
 import { WithSharedCredentialsProviderCounterpart } from "#src/credentials_provider/shared_counterpart.js";
 import { VolumeChunkSourceParameters } from "#src/datasource/zarr/base.js";
+import type { ShardingKey } from "#src/datasource/zarr/codec/decode.js";
 import {
   applySharding,
   decodeArray,
 } from "#src/datasource/zarr/codec/decode.js";
+import { encodeArray } from "#src/datasource/zarr/codec/encode.js";
 import "#src/datasource/zarr/codec/gzip/decode.js";
 import "#src/datasource/zarr/codec/sharding_indexed/decode.js";
 import "#src/datasource/zarr/codec/transpose/decode.js";
+import "#src/datasource/zarr/codec/blosc/encode.js";
+import "#src/datasource/zarr/codec/bytes/encode.js";
+import "#src/datasource/zarr/codec/crc32c/encode.js";
+import "#src/datasource/zarr/codec/gzip/encode.js";
+import "#src/datasource/zarr/codec/transpose/encode.js";
+import "#src/datasource/zarr/codec/zstd/encode.js";
 import { ChunkKeyEncoding } from "#src/datasource/zarr/metadata/index.js";
+import type { WriteResponse } from "#src/kvstore/index.js";
+import { NO_VALUE_GENERATION } from "#src/kvstore/index.js";
 import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
 import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
 import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
 import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { VolumeChunkLabels } from "#src/sliceview/volume/base.js";
+import type { TypedArray } from "#src/util/array.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_BYTES,
+  DataType,
+  makeDataTypeArrayView,
+} from "#src/util/data_type.js";
 import type { SpecialProtocolCredentials } from "#src/util/special_protocol_request.js";
+import type { Uint64 } from "#src/util/uint64.js";
 import { registerSharedObject } from "#src/worker_rpc.js";
 
+// Maximum number of attempts to write a chunk or shard that is modified concurrently.
+const MAX_WRITE_ATTEMPTS = 5;
+
 @registerSharedObject()
 export class ZarrVolumeChunkSource extends WithParameters(
   WithSharedCredentialsProviderCounterpart<SpecialProtocolCredentials>()(
@@ -54,11 +78,9 @@ export class ZarrVolumeChunkSource extends WithParameters(
     ),
   );
 
-  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
-    chunk.chunkDataSize = this.spec.chunkDataSize;
-    const { parameters } = this;
-    const { chunkGridPosition } = chunk;
-    const { metadata } = parameters;
+  // Returns the key of the chunk with the specified grid position in `chunkKvStore.kvStore`.
+  private getChunkKey(chunkGridPosition: Float32Array) {
+    const { metadata } = this.parameters;
     let baseKey = "";
     const rank = this.spec.rank;
     const { physicalToLogicalDimension } = metadata.codecs.layoutInfo[0];
@@ -91,9 +113,14 @@ export class ZarrVolumeChunkSource extends WithParameters(
       baseKey += `${sep}${keyCoords[i]}`;
       sep = metadata.dimensionSeparator;
     }
+    return this.chunkKvStore.getChunkKey(chunkGridPosition, baseKey);
+  }
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    chunk.chunkDataSize = this.spec.chunkDataSize;
     const { chunkKvStore } = this;
     const response = await chunkKvStore.kvStore.read(
-      chunkKvStore.getChunkKey(chunkGridPosition, baseKey),
+      this.getChunkKey(chunk.chunkGridPosition),
       { cancellationToken },
     );
     if (response !== undefined) {
@@ -105,4 +132,173 @@ export class ZarrVolumeChunkSource extends WithParameters(
       await postProcessRawData(chunk, cancellationToken, decoded);
     }
   }
+
+  // Reads, modifies and writes back the chunks, retrying if they are modified concurrently.  The
+  // chunks of each shard of a sharded array are modified together, such that each shard is written
+  // once.  Missing chunks are initialized to the fill value.  Chunks read without a generation are
+  // not written, since the write could not be made conditional on the chunk being unchanged.
+  async writeChunkLabels(
+    chunks: VolumeChunkLabels[],
+    cancellationToken: CancellationToken,
+  ) {
+    try {
+      if (this.chunkKvStore.shardingKvStore === undefined) {
+        for (const chunk of chunks) {
+          await this.writeUnshardedChunkLabels(chunk, cancellationToken);
+        }
+      } else {
+        await this.writeShardedChunkLabels(chunks, cancellationToken);
+      }
+    } finally {
+      // Some of the chunks may have been written even if writing fails.
+      for (const { chunkGridPosition } of chunks) {
+        const chunk = this.chunks.get(chunkGridPosition.join());
+        if (chunk !== undefined) {
+          this.chunkManager.queueManager.invalidateChunk(chunk);
+        }
+      }
+    }
+  }
+
+  private async writeUnshardedChunkLabels(
+    chunk: VolumeChunkLabels,
+    cancellationToken: CancellationToken,
+  ) {
+    const { kvStore } = this.chunkKvStore;
+    const key = this.getChunkKey(chunk.chunkGridPosition);
+    await this.retryWrite(`Chunk ${JSON.stringify(key)}`, async () => {
+      const response = await kvStore.read(key, { cancellationToken });
+      const generation =
+        response === undefined ? NO_VALUE_GENERATION : response.generation;
+      if (generation === undefined) {
+        throw new Error(
+          `Chunk ${JSON.stringify(key)} was retrieved without a generation (ETag), ` +
+            "so it cannot be modified safely",
+        );
+      }
+      return kvStore.write(
+        key,
+        await this.encodeChunkLabels(response?.data, chunk, cancellationToken),
+        { cancellationToken, ifGenerationMatch: generation },
+      );
+    });
+  }
+
+  private async writeShardedChunkLabels(
+    chunks: VolumeChunkLabels[],
+    cancellationToken: CancellationToken,
+  ) {
+    const shardingKvStore = this.chunkKvStore.shardingKvStore!;
+    const shards = new Map<
+      string,
+      { base: unknown; subChunks: number[][]; chunks: VolumeChunkLabels[] }
+    >();
+    for (const chunk of chunks) {
+      const key = this.getChunkKey(
+        chunk.chunkGridPosition,
+      ) as ShardingKey<unknown>;
+      const shardKey = JSON.stringify(key.base);
+      let shard = shards.get(shardKey);
+      if (shard === undefined) {
+        shard = { base: key.base, subChunks: [], chunks: [] };
+        shards.set(shardKey, shard);
+      }
+      shard.subChunks.push(key.subChunk);
+      shard.chunks.push(chunk);
+    }
+    for (const [shardKey, shard] of shards) {
+      await this.retryWrite(`Shard ${shardKey}`, () =>
+        shardingKvStore.modifySubChunks(
+          shard.base,
+          shard.subChunks,
+          (values) =>
+            Promise.all(
+              values.map((value, i) =>
+                this.encodeChunkLabels(
+                  value,
+                  shard.chunks[i],
+                  cancellationToken,
+                ),
+              ),
+            ),
+          cancellationToken,
+        ),
+      );
+    }
+  }
+
+  // Returns the encoded chunk with the labels of `chunk` applied to the encoded chunk `encoded`, or
+  // to a chunk of the fill value if `encoded` is `undefined`.
+  private async encodeChunkLabels(
+    encoded: Uint8Array | undefined,
+    chunk: VolumeChunkLabels,
+    cancellationToken: CancellationToken,
+  ) {
+    const { decodeCodecs } = this.chunkKvStore;
+    const { dataType, chunkShape } = decodeCodecs.arrayInfo[0];
+    let data: ArrayBufferView;
+    if (encoded === undefined) {
+      const numElements = chunkShape.reduce((a, b) => a * b, 1);
+      data = makeDataTypeArrayView(
+        dataType,
+        new ArrayBuffer(numElements * DATA_TYPE_BYTES[dataType]),
+      );
+      fillArray(data, dataType, this.parameters.metadata.fillValue);
+    } else {
+      data = await decodeArray(decodeCodecs, encoded, cancellationToken);
+    }
+    setLabels(data, dataType, chunk.indices, chunk.labels);
+    return encodeArray(decodeCodecs, data, cancellationToken);
+  }
+
+  // Calls `write` until it succeeds, i.e. until the object it writes is not modified concurrently.
+  // `description` identifies the object in errors.
+  private async retryWrite(
+    description: string,
+    write: () => Promise<WriteResponse | undefined>,
+  ) {
+    for (let attempt = 1; ; ++attempt) {
+      if ((await write()) !== undefined) return;
+      if (attempt === MAX_WRITE_ATTEMPTS) {
+        throw new Error(
+          `${description} was modified concurrently ${attempt} times`,
+        );
+      }
+    }
+  }
+}
+
+function fillArray(
+  data: ArrayBufferView,
+  dataType: DataType,
+  fillValue: number | Uint64,
+) {
+  if (dataType === DataType.UINT64) {
+    const array = data as Uint32Array;
+    const { low, high } = fillValue as Uint64;
+    for (let i = 0; i < array.length; i += 2) {
+      array[i] = low;
+      array[i + 1] = high;
+    }
+  } else {
+    (data as TypedArray).fill(fillValue as number);
+  }
+}
+
+function setLabels(
+  data: ArrayBufferView,
+  dataType: DataType,
+  indices: Uint32Array,
+  labels: Uint32Array,
+) {
+  const array = data as TypedArray;
+  for (let i = 0; i < indices.length; ++i) {
+    const index = indices[i];
+    if (dataType === DataType.UINT64) {
+      array[2 * index] = labels[2 * i];
+      array[2 * index + 1] = labels[2 * i + 1];
+    } else {
+      array[index] = labels[2 * i];
+    }
+  }
 }
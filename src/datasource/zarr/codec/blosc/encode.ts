@@ -0,0 +1,37 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Encoder for the zarr `blosc` codec.
+ */
+
+import { encodeBlosc } from "#src/async_computation/encode_blosc_request.js";
+import { requestAsyncComputation } from "#src/async_computation/request.js";
+import type { Configuration } from "#src/datasource/zarr/codec/blosc/resolve.js";
+import { registerCodecEncoder } from "#src/datasource/zarr/codec/encode.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+registerCodecEncoder({
+  name: "blosc",
+  kind: CodecKind.bytesToBytes,
+  encode(
+    configuration: Configuration,
+    decoded: Uint8Array,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array> {
+    const { cname, clevel, shuffle, blocksize } = configuration;
+    return requestAsyncComputation(
+      encodeBlosc,
+      cancellationToken,
+      [decoded.buffer],
+      decoded,
+      cname,
+      clevel,
+      shuffle,
+      blocksize,
+    );
+  },
+});
@@ -12,19 +12,73 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
 import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
-import { verifyObject } from "#src/util/json.js";
+import {
+  verifyInt,
+  verifyObject,
+  verifyOptionalObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
 
-export type Configuration = object;
+export enum BloscShuffle {
+  NOSHUFFLE = 0,
+  SHUFFLE = 1,
+  BITSHUFFLE = 2,
+}
+
+// Only used for encoding; decoding relies on the blosc header.
+export interface Configuration {
+  cname: string;
+  clevel: number;
+  shuffle: BloscShuffle;
+  blocksize: number;
+}
 
 registerCodec({
   name: "blosc",
   kind: CodecKind.bytesToBytes,
   resolve(configuration: unknown): { configuration: Configuration } {
     verifyObject(configuration);
-    return { configuration: {} };
+    const cname = verifyOptionalObjectProperty(
+      configuration,
+      "cname",
+      verifyString,
+      "lz4",
+    );
+    const clevel = verifyOptionalObjectProperty(
+      configuration,
+      "clevel",
+      verifyInt,
+      5,
+    );
+    const shuffle = verifyOptionalObjectProperty(
+      configuration,
+      "shuffle",
+      (value) => {
+        switch (value) {
+          case "noshuffle":
+            return BloscShuffle.NOSHUFFLE;
+          case "shuffle":
+            return BloscShuffle.SHUFFLE;
+          case "bitshuffle":
+            return BloscShuffle.BITSHUFFLE;
+        }
+        throw new Error(`Invalid shuffle value: ${JSON.stringify(value)}`);
+      },
+      BloscShuffle.NOSHUFFLE,
+    );
+    const blocksize = verifyOptionalObjectProperty(
+      configuration,
+      "blocksize",
+      verifyInt,
+      0,
+    );
+    return { configuration: { cname, clevel, shuffle, blocksize } };
   },
 });
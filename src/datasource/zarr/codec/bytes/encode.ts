@@ -0,0 +1,51 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Encoder for the zarr `bytes` codec.
+ */
+
+import type { Configuration } from "#src/datasource/zarr/codec/bytes/resolve.js";
+import { registerCodecEncoder } from "#src/datasource/zarr/codec/encode.js";
+import type { CodecArrayInfo } from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DATA_TYPE_BYTES, makeDataTypeArrayView } from "#src/util/data_type.js";
+import { convertEndian, ENDIANNESS } from "#src/util/endian.js";
+
+registerCodecEncoder({
+  name: "bytes",
+  kind: CodecKind.arrayToBytes,
+  async encode(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    decoded: ArrayBufferView,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array> {
+    cancellationToken;
+    const { dataType, chunkShape } = decodedArrayInfo;
+    const numElements = chunkShape.reduce((a, b) => a * b, 1);
+    const bytesPerElement = DATA_TYPE_BYTES[dataType];
+    const expectedBytes = numElements * bytesPerElement;
+    if (decoded.byteLength !== expectedBytes) {
+      throw new Error(
+        `Array to encode is ${decoded.byteLength} bytes, ` +
+          `but ${numElements} * ${bytesPerElement} = ${expectedBytes} bytes are expected.`,
+      );
+    }
+    const encoded = new Uint8Array(
+      decoded.buffer,
+      decoded.byteOffset,
+      decoded.byteLength,
+    ).slice();
+    convertEndian(
+      makeDataTypeArrayView(dataType, encoded.buffer),
+      ENDIANNESS,
+      bytesPerElement,
+      configuration.endian,
+    );
+    return encoded;
+  },
+});
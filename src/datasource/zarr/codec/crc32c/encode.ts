@@ -0,0 +1,64 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Encoder for the zarr `crc32c` codec, which appends a little-endian CRC-32C checksum.
+ */
+
+import type { Configuration } from "#src/datasource/zarr/codec/crc32c/resolve.js";
+import { registerCodecEncoder } from "#src/datasource/zarr/codec/encode.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+const checksumSize = 4;
+
+// Reversed Castagnoli polynomial.
+const CRC32C_POLYNOMIAL = 0x82f63b78;
+
+let crc32cTable: Uint32Array | undefined;
+
+function getCrc32cTable() {
+  if (crc32cTable === undefined) {
+    crc32cTable = new Uint32Array(256);
+    for (let i = 0; i < 256; ++i) {
+      let crc = i;
+      for (let bit = 0; bit < 8; ++bit) {
+        crc = crc & 1 ? (crc >>> 1) ^ CRC32C_POLYNOMIAL : crc >>> 1;
+      }
+      crc32cTable[i] = crc;
+    }
+  }
+  return crc32cTable;
+}
+
+export function computeCrc32c(data: Uint8Array): number {
+  const table = getCrc32cTable();
+  let crc = 0xffffffff;
+  for (let i = 0, length = data.length; i < length; ++i) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+registerCodecEncoder({
+  name: "crc32c",
+  kind: CodecKind.bytesToBytes,
+  async encode(
+    configuration: Configuration,
+    decoded: Uint8Array,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array> {
+    configuration;
+    cancellationToken;
+    const encoded = new Uint8Array(decoded.length + checksumSize);
+    encoded.set(decoded);
+    new DataView(encoded.buffer).setUint32(
+      decoded.length,
+      computeCrc32c(decoded),
+      /*littleEndian=*/ true,
+    );
+    return encoded;
+  },
+});
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { ChunkManager } from "#src/chunk_manager/backend.js";
@@ -20,7 +23,11 @@ import type {
   CodecChainSpec,
 } from "#src/datasource/zarr/codec/index.js";
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
-import type { ReadableKvStore } from "#src/kvstore/index.js";
+import type {
+  ReadableKvStore,
+  WritableKvStore,
+  WriteResponse,
+} from "#src/kvstore/index.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
 import type { RefCounted } from "#src/util/disposable.js";
 
@@ -54,13 +61,36 @@ export type ShardingKey<BaseKey> = {
   subChunk: number[];
 };
 
+export interface ShardingKvStore<BaseKey>
+  extends ReadableKvStore<ShardingKey<BaseKey>>,
+    WritableKvStore<ShardingKey<BaseKey>> {
+  /**
+   * Modifies multiple sub-chunks of the shard `base` by rewriting the shard once.  `modify` is
+   * called with the current values of the distinct sub-chunks `subChunks`, in which `undefined`
+   * indicates a missing sub-chunk, and the generation of the shard.  It returns the new values, in
+   * which `undefined` deletes a sub-chunk, or `undefined` to abort the modification.  The shard is
+   * written on the condition that it has not been modified since it was read.
+   *
+   * @returns `undefined` if the modification was aborted or the shard was modified concurrently.
+   */
+  modifySubChunks(
+    base: BaseKey,
+    subChunks: number[][],
+    modify: (
+      values: (Uint8Array | undefined)[],
+      generation: string,
+    ) => Promise<(Uint8Array | undefined)[] | undefined>,
+    cancellationToken?: CancellationToken,
+  ): Promise<WriteResponse | undefined>;
+}
+
 export interface ShardingCodec<Configuration = unknown> extends Codec {
   kind: CodecKind.arrayToBytes;
   getShardedKvStore<BaseKey>(
     configuration: Configuration,
     chunkManager: ChunkManager,
-    base: ReadableKvStore<BaseKey>,
-  ): ReadableKvStore<ShardingKey<BaseKey>> & RefCounted;
+    base: ReadableKvStore<BaseKey> & WritableKvStore<BaseKey>,
+  ): ShardingKvStore<BaseKey> & RefCounted;
 }
 
 export interface BytesToBytesCodec<Configuration = unknown> extends Codec {
@@ -148,16 +178,21 @@ export async function decodeArray(
 export function applySharding(
   chunkManager: ChunkManager,
   codecs: CodecChainSpec,
-  baseKvStore: ReadableKvStore<string>,
+  baseKvStore: ReadableKvStore<string> & WritableKvStore<string>,
 ): {
-  kvStore: ReadableKvStore<unknown>;
+  kvStore: ReadableKvStore<unknown> & WritableKvStore<unknown>;
+  // Same as `kvStore` if the array is sharded, in which case chunk keys are the `ShardingKey`s of
+  // the innermost shards.
+  shardingKvStore: ShardingKvStore<unknown> | undefined;
   getChunkKey: (
     chunkGridPosition: ArrayLike<number>,
     baseKey: string,
   ) => unknown;
   decodeCodecs: CodecChainSpec;
 } {
-  let kvStore: ReadableKvStore<unknown> = baseKvStore;
+  let kvStore: ReadableKvStore<unknown> & WritableKvStore<unknown> =
+    baseKvStore;
+  let shardingKvStore: ShardingKvStore<unknown> | undefined;
   let curCodecs = codecs;
   while (true) {
     const { shardingInfo } = curCodecs;
@@ -167,7 +202,7 @@ export function applySharding(
     if (impl === undefined) {
       throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
     }
-    kvStore = impl.getShardedKvStore(
+    kvStore = shardingKvStore = impl.getShardedKvStore(
       codec.configuration,
       chunkManager,
       kvStore,
@@ -210,5 +245,5 @@ export function applySharding(
     return key;
   }
 
-  return { kvStore, getChunkKey, decodeCodecs };
+  return { kvStore, shardingKvStore, getChunkKey, decodeCodecs };
 }
@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the zarr codec encoders.
+ */
+
+import "#src/datasource/zarr/codec/bytes/decode.js";
+import "#src/datasource/zarr/codec/bytes/encode.js";
+import "#src/datasource/zarr/codec/bytes/resolve.js";
+import "#src/datasource/zarr/codec/crc32c/decode.js";
+import "#src/datasource/zarr/codec/crc32c/resolve.js";
+import "#src/datasource/zarr/codec/transpose/decode.js";
+import "#src/datasource/zarr/codec/transpose/encode.js";
+import "#src/datasource/zarr/codec/transpose/resolve.js";
+import { describe, it, expect } from "vitest";
+import { computeCrc32c } from "#src/datasource/zarr/codec/crc32c/encode.js";
+import { decodeArray } from "#src/datasource/zarr/codec/decode.js";
+import { encodeArray } from "#src/datasource/zarr/codec/encode.js";
+import { parseCodecChainSpec } from "#src/datasource/zarr/codec/resolve.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+
+describe("computeCrc32c", () => {
+  it("matches the standard check value", () => {
+    expect(computeCrc32c(new TextEncoder().encode("123456789"))).toBe(
+      0xe3069283,
+    );
+  });
+});
+
+describe("encodeArray", () => {
+  it("encodes big endian values with a checksum", async () => {
+    const codecs = parseCodecChainSpec(
+      [
+        { name: "transpose", configuration: { order: [1, 0] } },
+        { name: "bytes", configuration: { endian: "big" } },
+        { name: "crc32c" },
+      ],
+      { dataType: DataType.UINT16, chunkShape: [2, 3] },
+    );
+    const decoded = Uint16Array.of(1, 2, 3, 0x102, 0x304, 0x506);
+    const encoded = await encodeArray(codecs, decoded, uncancelableToken);
+    const data = Uint8Array.of(0, 1, 0, 2, 0, 3, 1, 2, 3, 4, 5, 6);
+    expect(Array.from(encoded.subarray(0, 12))).toEqual(Array.from(data));
+    expect(
+      new DataView(encoded.buffer).getUint32(12, /*littleEndian=*/ true),
+    ).toBe(computeCrc32c(data));
+    // The input is not modified.
+    expect(Array.from(decoded)).toEqual([1, 2, 3, 0x102, 0x304, 0x506]);
+    expect(
+      Array.from(
+        (await decodeArray(codecs, encoded, uncancelableToken)) as Uint16Array,
+      ),
+    ).toEqual(Array.from(decoded));
+  });
+
+  it("rejects arrays of the wrong size", async () => {
+    const codecs = parseCodecChainSpec(
+      [{ name: "bytes", configuration: { endian: "little" } }],
+      { dataType: DataType.UINT32, chunkShape: [4] },
+    );
+    await expect(
+      encodeArray(codecs, new Uint32Array(3), uncancelableToken),
+    ).rejects.toThrow(/12 bytes/);
+  });
+});
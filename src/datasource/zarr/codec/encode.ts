@@ -0,0 +1,122 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Registry of zarr codec encoders, the inverse of the decoders in `decode.ts`.
+ *
+ * Sharding is not handled by `encodeArray`; sub-chunks are written through the key-value store
+ * returned by `applySharding`, which rewrites the shard index.
+ */
+
+import type {
+  CodecArrayInfo,
+  CodecChainSpec,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+export interface CodecEncoder {
+  name: string;
+  kind: CodecKind;
+}
+
+export interface ArrayToArrayCodecEncoder<Configuration = unknown>
+  extends CodecEncoder {
+  kind: CodecKind.arrayToArray;
+  encode(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    decoded: ArrayBufferView,
+    cancellationToken: CancellationToken,
+  ): Promise<ArrayBufferView>;
+}
+
+export interface ArrayToBytesCodecEncoder<Configuration = unknown>
+  extends CodecEncoder {
+  kind: CodecKind.arrayToBytes;
+  encode(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    decoded: ArrayBufferView,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array>;
+}
+
+export interface BytesToBytesCodecEncoder<Configuration = unknown>
+  extends CodecEncoder {
+  kind: CodecKind.bytesToBytes;
+  encode(
+    configuration: Configuration,
+    decoded: Uint8Array,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array>;
+}
+
+const encoderRegistry = {
+  [CodecKind.arrayToArray]: new Map<string, ArrayToArrayCodecEncoder>(),
+  [CodecKind.arrayToBytes]: new Map<string, ArrayToBytesCodecEncoder>(),
+  [CodecKind.bytesToBytes]: new Map<string, BytesToBytesCodecEncoder>(),
+};
+
+export function registerCodecEncoder<Configuration>(
+  encoder:
+    | ArrayToArrayCodecEncoder<Configuration>
+    | ArrayToBytesCodecEncoder<Configuration>
+    | BytesToBytesCodecEncoder<Configuration>,
+) {
+  encoderRegistry[encoder.kind].set(encoder.name, encoder as any);
+}
+
+/**
+ * Encodes an array in the layout returned by `decodeArray`.  The `decoded` array is not modified.
+ */
+export async function encodeArray(
+  codecs: CodecChainSpec,
+  decoded: ArrayBufferView,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  const arrayToArray = codecs[CodecKind.arrayToArray];
+  for (let i = 0; i < arrayToArray.length; ++i) {
+    const codec = arrayToArray[i];
+    const impl = encoderRegistry[CodecKind.arrayToArray].get(codec.name);
+    if (impl === undefined) {
+      throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
+    }
+    decoded = await impl.encode(
+      codec.configuration,
+      codecs.arrayInfo[i],
+      decoded,
+      cancellationToken,
+    );
+  }
+
+  let encoded: Uint8Array;
+  {
+    const codec = codecs[CodecKind.arrayToBytes];
+    const impl = encoderRegistry[CodecKind.arrayToBytes].get(codec.name);
+    if (impl === undefined) {
+      throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
+    }
+    encoded = await impl.encode(
+      codec.configuration,
+      codecs.arrayInfo[codecs.arrayInfo.length - 1],
+      decoded,
+      cancellationToken,
+    );
+  }
+
+  for (const codec of codecs[CodecKind.bytesToBytes]) {
+    const impl = encoderRegistry[CodecKind.bytesToBytes].get(codec.name);
+    if (impl === undefined) {
+      throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
+    }
+    encoded = await impl.encode(
+      codec.configuration,
+      encoded,
+      cancellationToken,
+    );
+  }
+  return encoded;
+}
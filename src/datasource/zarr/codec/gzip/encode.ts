@@ -0,0 +1,34 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Encoder for the zarr `gzip` codec.
+ */
+
+import { encodeGzip } from "#src/async_computation/encode_gzip_request.js";
+import { requestAsyncComputation } from "#src/async_computation/request.js";
+import { registerCodecEncoder } from "#src/datasource/zarr/codec/encode.js";
+import type { Configuration } from "#src/datasource/zarr/codec/gzip/resolve.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+registerCodecEncoder({
+  name: "gzip",
+  kind: CodecKind.bytesToBytes,
+  encode(
+    configuration: Configuration,
+    decoded: Uint8Array,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array> {
+    return requestAsyncComputation(
+      encodeGzip,
+      cancellationToken,
+      [decoded.buffer],
+      decoded,
+      configuration.level,
+      configuration.zlib,
+    );
+  },
+});
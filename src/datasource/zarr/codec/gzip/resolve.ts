@@ -12,18 +12,26 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
 import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
 import {
+  verifyBoolean,
   verifyInt,
   verifyObject,
   verifyObjectProperty,
+  verifyOptionalObjectProperty,
 } from "#src/util/json.js";
 
 export interface Configuration {
   level: number;
+  // Indicates that chunks are encoded in zlib rather than gzip format, for the zarr v2 `zlib`
+  // compressor.  Only affects encoding, since decoding detects the format.
+  zlib: boolean;
 }
 
 registerCodec({
@@ -32,6 +40,12 @@ registerCodec({
   resolve(configuration: unknown): { configuration: Configuration } {
     verifyObject(configuration);
     const level = verifyObjectProperty(configuration, "level", verifyInt);
-    return { configuration: { level } };
+    const zlib = verifyOptionalObjectProperty(
+      configuration,
+      "zlib",
+      verifyBoolean,
+      false,
+    );
+    return { configuration: { level, zlib } };
   },
 });
@@ -0,0 +1,165 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for writes of sub-chunks of shards of the zarr `sharding_indexed` codec.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { applySharding } from "#src/datasource/zarr/codec/decode.js";
+import type { Configuration } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import {
+  decodeShard,
+  getShardIndexStrides,
+  getSubChunkIndexOffset,
+} from "#src/datasource/zarr/codec/sharding_indexed/shard.js";
+import {
+  fakeChunkManager,
+  makeShardingCodecs,
+} from "#src/datasource/zarr/codec/sharding_indexed/testing.js";
+import { MemoryKvStore } from "#src/kvstore/memory.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+
+function makeStore() {
+  const codecs = makeShardingCodecs();
+  const configuration = codecs[1].configuration as Configuration;
+  const base = new MemoryKvStore();
+  const { shardingKvStore } = applySharding(fakeChunkManager, codecs, base);
+  return { configuration, base, kvStore: shardingKvStore! };
+}
+
+async function readShard(
+  configuration: Configuration,
+  base: MemoryKvStore,
+  key: string,
+) {
+  const response = await base.read(key);
+  if (response === undefined) return undefined;
+  const indexStrides = getShardIndexStrides(configuration);
+  const subChunks = await decodeShard(
+    configuration,
+    response.data,
+    uncancelableToken,
+  );
+  const result: [number[], number[]][] = [];
+  for (const subChunk of [
+    [0, 0],
+    [0, 1],
+    [1, 2],
+  ]) {
+    const value = subChunks.get(getSubChunkIndexOffset(indexStrides, subChunk));
+    if (value !== undefined) result.push([subChunk, Array.from(value)]);
+  }
+  return result;
+}
+
+describe("ShardedKvStore.modifySubChunks", () => {
+  it("writes multiple sub-chunks by rewriting the shard once", async () => {
+    const { configuration, base, kvStore } = makeStore();
+    const write = vi.spyOn(base, "write");
+    const result = await kvStore.modifySubChunks(
+      "c/0/0",
+      [
+        [0, 0],
+        [1, 2],
+      ],
+      async (values) => {
+        expect(values).toEqual([undefined, undefined]);
+        return [Uint8Array.of(1, 2, 3, 4), Uint8Array.of(5, 6, 7, 8)];
+      },
+    );
+    expect(result).toBeDefined();
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(await readShard(configuration, base, "c/0/0")).toEqual([
+      [
+        [0, 0],
+        [1, 2, 3, 4],
+      ],
+      [
+        [1, 2],
+        [5, 6, 7, 8],
+      ],
+    ]);
+
+    // Other sub-chunks of the shard are preserved.
+    await kvStore.modifySubChunks(
+      "c/0/0",
+      [
+        [0, 1],
+        [1, 2],
+      ],
+      async (values) => {
+        expect(Array.from(values[1]!)).toEqual([5, 6, 7, 8]);
+        return [Uint8Array.of(9, 9, 9, 9), undefined];
+      },
+    );
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(await readShard(configuration, base, "c/0/0")).toEqual([
+      [
+        [0, 0],
+        [1, 2, 3, 4],
+      ],
+      [
+        [0, 1],
+        [9, 9, 9, 9],
+      ],
+    ]);
+  });
+
+  it("deletes shards without sub-chunks", async () => {
+    const { base, kvStore } = makeStore();
+    await kvStore.modifySubChunks("c/0/0", [[0, 0]], async () => [
+      Uint8Array.of(1, 2, 3, 4),
+    ]);
+    await kvStore.modifySubChunks("c/0/0", [[0, 0]], async () => [undefined]);
+    expect(await base.read("c/0/0")).toBeUndefined();
+  });
+
+  it("does not write shards modified concurrently", async () => {
+    const { configuration, base, kvStore } = makeStore();
+    await kvStore.modifySubChunks("c/0/0", [[0, 0]], async () => [
+      Uint8Array.of(1, 2, 3, 4),
+    ]);
+    const result = await kvStore.modifySubChunks(
+      "c/0/0",
+      [[1, 2]],
+      async () => {
+        // Another client modifies the shard after it is read.
+        await kvStore.write(
+          { base: "c/0/0", subChunk: [0, 1] },
+          Uint8Array.of(5, 6, 7, 8),
+          {},
+        );
+        return [Uint8Array.of(9, 9, 9, 9)];
+      },
+    );
+    expect(result).toBeUndefined();
+    expect(await readShard(configuration, base, "c/0/0")).toEqual([
+      [
+        [0, 0],
+        [1, 2, 3, 4],
+      ],
+      [
+        [0, 1],
+        [5, 6, 7, 8],
+      ],
+    ]);
+  });
+
+  it("does not modify shards retrieved without a generation", async () => {
+    const { base, kvStore } = makeStore();
+    await base.write("c/0/0", new Uint8Array(0));
+    const read = base.read.bind(base);
+    vi.spyOn(base, "read").mockImplementation(async (key, options) => {
+      const response = await read(key, options);
+      return response && { ...response, generation: undefined };
+    });
+    await expect(
+      kvStore.modifySubChunks("c/0/0", [[0, 0]], async () => [
+        Uint8Array.of(1, 2, 3, 4),
+      ]),
+    ).rejects.toThrow(/generation/);
+  });
+});
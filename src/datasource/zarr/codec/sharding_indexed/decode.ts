@@ -12,24 +12,42 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { ChunkManager } from "#src/chunk_manager/backend.js";
 import { SimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
-import {
-  decodeArray,
-  registerCodec,
+import type {
+  ShardingKey,
+  ShardingKvStore,
 } from "#src/datasource/zarr/codec/decode.js";
+import { registerCodec } from "#src/datasource/zarr/codec/decode.js";
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
 import type { Configuration } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
 import { ShardIndexLocation } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import {
+  decodeShard,
+  decodeShardIndex,
+  encodeShard,
+  getShardIndexStrides,
+  getSubChunkIndexOffset,
+  MISSING_VALUE,
+} from "#src/datasource/zarr/codec/sharding_indexed/shard.js";
 import type {
   ByteRangeRequest,
   ReadableKvStore,
   ReadOptions,
   ReadResponse,
+  WritableKvStore,
+  WriteOptions,
+  WriteResponse,
+} from "#src/kvstore/index.js";
+import {
+  composeByteRangeRequest,
+  NO_VALUE_GENERATION,
 } from "#src/kvstore/index.js";
-import { composeByteRangeRequest } from "#src/kvstore/index.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
 import { uncancelableToken } from "#src/util/cancellation.js";
 import type { Owned } from "#src/util/disposable.js";
@@ -37,18 +55,16 @@ import { RefCounted } from "#src/util/disposable.js";
 
 type ShardIndex = BigUint64Array | undefined;
 
-const MISSING_VALUE = BigInt("18446744073709551615");
-
 class ShardedKvStore<BaseKey>
   extends RefCounted
-  implements ReadableKvStore<{ base: BaseKey; subChunk: number[] }>
+  implements ShardingKvStore<BaseKey>
 {
   private indexCache: Owned<SimpleAsyncCache<BaseKey, ShardIndex>>;
   private indexStrides: number[];
   constructor(
     private configuration: Configuration,
     chunkManager: ChunkManager,
-    private base: ReadableKvStore<BaseKey>,
+    private base: ReadableKvStore<BaseKey> & WritableKvStore<BaseKey>,
   ) {
     super();
     this.indexCache = this.registerDisposer(
@@ -73,42 +89,20 @@ class ShardedKvStore<BaseKey>
           if (response === undefined) {
             return { size: 0, data: undefined };
           }
-          const index = await decodeArray(
-            configuration.indexCodecs,
+          const index = await decodeShardIndex(
+            configuration,
             response.data,
             cancellationToken,
           );
-          return {
-            size: index.byteLength,
-            data: new BigUint64Array(
-              index.buffer,
-              index.byteOffset,
-              index.byteLength / 8,
-            ),
-          };
+          return { size: index.byteLength, data: index };
         },
       }),
     );
-    const { subChunkGridShape } = this.configuration;
-    const rank = subChunkGridShape.length;
-    const physicalToLogicalIndexDimension =
-      this.configuration.indexCodecs.layoutInfo[0].physicalToLogicalDimension;
-    const indexStrides = (this.indexStrides = new Array(rank + 1));
-    let stride = 1;
-    for (
-      let physicalIndexDim = rank;
-      physicalIndexDim >= 0;
-      --physicalIndexDim
-    ) {
-      const logicalIndexDim = physicalToLogicalIndexDimension[physicalIndexDim];
-      indexStrides[logicalIndexDim] = stride;
-      stride *=
-        logicalIndexDim === rank ? 2 : subChunkGridShape[logicalIndexDim];
-    }
+    this.indexStrides = getShardIndexStrides(configuration);
   }
 
   async read(
-    key: { base: BaseKey; subChunk: number[] },
+    key: ShardingKey<BaseKey>,
     options: ReadOptions,
   ): Promise<ReadResponse | undefined> {
     const shardIndex = await this.indexCache.get(
@@ -120,13 +114,8 @@ class ShardedKvStore<BaseKey>
       return undefined;
     }
     const rank = this.configuration.subChunkShape.length;
-    const { subChunk } = key;
     const { indexStrides } = this;
-    let indexOffset = 0;
-    for (let logicalIndexDim = 0; logicalIndexDim < rank; ++logicalIndexDim) {
-      const pos = subChunk[logicalIndexDim];
-      indexOffset += pos * indexStrides[logicalIndexDim];
-    }
+    const indexOffset = getSubChunkIndexOffset(indexStrides, key.subChunk);
     const dataOffset = shardIndex[indexOffset];
     const dataLength = shardIndex[indexOffset + indexStrides[rank]];
     if (dataOffset === MISSING_VALUE && dataLength === MISSING_VALUE) {
@@ -168,8 +157,113 @@ class ShardedKvStore<BaseKey>
       data: response.data,
       dataRange: innerByteRange,
       totalSize: fullByteRange.length,
+      generation: response.generation,
     };
   }
+
+  write(
+    key: ShardingKey<BaseKey>,
+    value: Uint8Array,
+    options: WriteOptions,
+  ): Promise<WriteResponse | undefined> {
+    return this.modifySubChunk(key, value, options);
+  }
+
+  async delete(key: ShardingKey<BaseKey>, options: WriteOptions) {
+    return (await this.modifySubChunk(key, undefined, options)) !== undefined;
+  }
+
+  // The generation of a sub-chunk is the generation of its shard, except that
+  // `NO_VALUE_GENERATION` matches any shard in which the sub-chunk is not present.
+  private modifySubChunk(
+    key: ShardingKey<BaseKey>,
+    value: Uint8Array | undefined,
+    options: WriteOptions,
+  ): Promise<WriteResponse | undefined> {
+    const { cancellationToken, ifGenerationMatch } = options;
+    return this.modifySubChunks(
+      key.base,
+      [key.subChunk],
+      async ([oldValue], generation) => {
+        if (
+          ifGenerationMatch !== undefined &&
+          (ifGenerationMatch === NO_VALUE_GENERATION
+            ? oldValue !== undefined
+            : ifGenerationMatch !== generation)
+        ) {
+          return undefined;
+        }
+        return [value];
+      },
+      cancellationToken,
+    );
+  }
+
+  // Rewrites the entire shard, including its index.  The shard is written conditionally on the
+  // generation that was read, such that concurrent modifications of other sub-chunks are not lost.
+  async modifySubChunks(
+    base: BaseKey,
+    subChunks: number[][],
+    modify: (
+      values: (Uint8Array | undefined)[],
+      generation: string,
+    ) => Promise<(Uint8Array | undefined)[] | undefined>,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<WriteResponse | undefined> {
+    const { configuration, indexStrides } = this;
+    const response = await this.base.read(base, { cancellationToken });
+    const shardGeneration =
+      response === undefined ? NO_VALUE_GENERATION : response.generation;
+    if (shardGeneration === undefined) {
+      // Writing the shard without a condition could discard concurrent modifications.
+      throw new Error(
+        `Shard ${JSON.stringify(base)} was retrieved without a generation (ETag), ` +
+          "so it cannot be modified safely",
+      );
+    }
+    const shard =
+      response === undefined
+        ? new Map<number, Uint8Array>()
+        : await decodeShard(configuration, response.data, cancellationToken);
+    const indexOffsets = subChunks.map((subChunk) =>
+      getSubChunkIndexOffset(indexStrides, subChunk),
+    );
+    const values = indexOffsets.map((indexOffset) => shard.get(indexOffset));
+    const newValues = await modify(values, shardGeneration);
+    if (newValues === undefined) return undefined;
+    if (newValues.every((value, i) => value === values[i])) {
+      return { generation: shardGeneration };
+    }
+    indexOffsets.forEach((indexOffset, i) => {
+      const value = newValues[i];
+      if (value === undefined) {
+        shard.delete(indexOffset);
+      } else {
+        shard.set(indexOffset, value);
+      }
+    });
+    const writeOptions = {
+      cancellationToken,
+      ifGenerationMatch: shardGeneration,
+    };
+    let result: WriteResponse | undefined;
+    try {
+      if (shard.size === 0) {
+        result = (await this.base.delete(base, writeOptions))
+          ? { generation: NO_VALUE_GENERATION }
+          : undefined;
+      } else {
+        result = await this.base.write(
+          base,
+          await encodeShard(configuration, shard, cancellationToken),
+          writeOptions,
+        );
+      }
+    } finally {
+      this.indexCache.invalidate(base);
+    }
+    return result;
+  }
 }
 
 registerCodec({
@@ -178,8 +272,8 @@ registerCodec({
   getShardedKvStore<BaseKey>(
     configuration: Configuration,
     chunkManager: ChunkManager,
-    base: ReadableKvStore<BaseKey>,
-  ): ReadableKvStore<{ base: BaseKey; subChunk: number[] }> & RefCounted {
+    base: ReadableKvStore<BaseKey> & WritableKvStore<BaseKey>,
+  ): ShardingKvStore<BaseKey> & RefCounted {
     return new ShardedKvStore(configuration, chunkManager, base);
   },
 });
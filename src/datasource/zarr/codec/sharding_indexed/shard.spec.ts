@@ -0,0 +1,79 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the layout of shards of the zarr `sharding_indexed` codec.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Configuration } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import {
+  decodeShard,
+  encodeShard,
+  getShardIndexStrides,
+  getSubChunkIndexOffset,
+} from "#src/datasource/zarr/codec/sharding_indexed/shard.js";
+import { makeShardingCodecs } from "#src/datasource/zarr/codec/sharding_indexed/testing.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+
+function getConfiguration(indexLocation: string) {
+  return makeShardingCodecs(indexLocation)[1].configuration as Configuration;
+}
+
+describe("encodeShard", () => {
+  for (const indexLocation of ["start", "end"]) {
+    it(`round trips with the index at the ${indexLocation}`, async () => {
+      const configuration = getConfiguration(indexLocation);
+      const indexStrides = getShardIndexStrides(configuration);
+      expect(indexStrides).toEqual([6, 2, 1]);
+      const a = getSubChunkIndexOffset(indexStrides, [1, 2]);
+      const b = getSubChunkIndexOffset(indexStrides, [0, 1]);
+      const subChunks = new Map([
+        [a, Uint8Array.of(1, 2, 3, 4)],
+        [b, Uint8Array.of(5, 6, 7, 8)],
+      ]);
+      const shard = await encodeShard(
+        configuration,
+        subChunks,
+        uncancelableToken,
+      );
+      // 6 sub-chunks with an offset and length of 8 bytes each, and a 4-byte checksum.
+      const indexSize = 6 * 2 * 8 + 4;
+      expect(shard.length).toBe(8 + indexSize);
+      const dataOffset = indexLocation === "start" ? indexSize : 0;
+      // Sub-chunks are stored in the order of the index.
+      expect(Array.from(shard.subarray(dataOffset, dataOffset + 8))).toEqual([
+        5, 6, 7, 8, 1, 2, 3, 4,
+      ]);
+      const decoded = await decodeShard(
+        configuration,
+        shard,
+        uncancelableToken,
+      );
+      expect(
+        new Map(
+          Array.from(decoded, ([key, value]) => [key, Array.from(value)]),
+        ),
+      ).toEqual(
+        new Map([
+          [a, [1, 2, 3, 4]],
+          [b, [5, 6, 7, 8]],
+        ]),
+      );
+    });
+  }
+
+  it("encodes an empty shard", async () => {
+    const configuration = getConfiguration("end");
+    const shard = await encodeShard(
+      configuration,
+      new Map(),
+      uncancelableToken,
+    );
+    expect(
+      (await decodeShard(configuration, shard, uncancelableToken)).size,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Layout of shards of the zarr `sharding_indexed` codec.
+ *
+ * A shard consists of the encoded sub-chunks and an index, stored at the start or end of the shard,
+ * that specifies the byte offset and length of each sub-chunk.  Sub-chunks are identified by the
+ * position of their offset within the decoded index.
+ */
+
+import { decodeArray } from "#src/datasource/zarr/codec/decode.js";
+import { encodeArray } from "#src/datasource/zarr/codec/encode.js";
+import type { Configuration } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import { ShardIndexLocation } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+/**
+ * Index value of both the offset and length of a missing sub-chunk.
+ */
+export const MISSING_VALUE = BigInt("18446744073709551615");
+
+/**
+ * Returns the strides, indexed by logical dimension, of the decoded shard index.  The last
+ * dimension, of size 2, holds the offset and length of each sub-chunk.
+ */
+export function getShardIndexStrides(configuration: Configuration): number[] {
+  const { subChunkGridShape } = configuration;
+  const rank = subChunkGridShape.length;
+  const physicalToLogicalIndexDimension =
+    configuration.indexCodecs.layoutInfo[0].physicalToLogicalDimension;
+  const indexStrides = new Array<number>(rank + 1);
+  let stride = 1;
+  for (let physicalIndexDim = rank; physicalIndexDim >= 0; --physicalIndexDim) {
+    const logicalIndexDim = physicalToLogicalIndexDimension[physicalIndexDim];
+    indexStrides[logicalIndexDim] = stride;
+    stride *= logicalIndexDim === rank ? 2 : subChunkGridShape[logicalIndexDim];
+  }
+  return indexStrides;
+}
+
+/**
+ * Returns the position within the decoded shard index of the offset of the specified sub-chunk.
+ */
+export function getSubChunkIndexOffset(
+  indexStrides: number[],
+  subChunk: number[],
+) {
+  let indexOffset = 0;
+  for (
+    let logicalIndexDim = 0;
+    logicalIndexDim < subChunk.length;
+    ++logicalIndexDim
+  ) {
+    indexOffset += subChunk[logicalIndexDim] * indexStrides[logicalIndexDim];
+  }
+  return indexOffset;
+}
+
+function getEncodedIndexSize(configuration: Configuration) {
+  const { indexCodecs } = configuration;
+  return indexCodecs.encodedSize[indexCodecs.encodedSize.length - 1]!;
+}
+
+export async function decodeShardIndex(
+  configuration: Configuration,
+  encodedIndex: Uint8Array,
+  cancellationToken: CancellationToken,
+): Promise<BigUint64Array> {
+  const index = await decodeArray(
+    configuration.indexCodecs,
+    encodedIndex,
+    cancellationToken,
+  );
+  return new BigUint64Array(
+    index.buffer,
+    index.byteOffset,
+    index.byteLength / 8,
+  );
+}
+
+/**
+ * Sub-chunks of a shard, keyed by `getSubChunkIndexOffset`.
+ */
+export type ShardSubChunks = Map<number, Uint8Array>;
+
+/**
+ * Splits an entire shard into its sub-chunks.
+ */
+export async function decodeShard(
+  configuration: Configuration,
+  shard: Uint8Array,
+  cancellationToken: CancellationToken,
+): Promise<ShardSubChunks> {
+  const encodedIndexSize = getEncodedIndexSize(configuration);
+  if (shard.length < encodedIndexSize) {
+    throw new Error(
+      `Shard is ${shard.length} bytes, but the index is ${encodedIndexSize} bytes`,
+    );
+  }
+  // Copy the index, since the decoded index must be 8-byte aligned.
+  const encodedIndex =
+    configuration.indexLocation === ShardIndexLocation.START
+      ? shard.slice(0, encodedIndexSize)
+      : shard.slice(shard.length - encodedIndexSize);
+  const index = await decodeShardIndex(
+    configuration,
+    encodedIndex,
+    cancellationToken,
+  );
+  const lengthStride =
+    getShardIndexStrides(configuration)[configuration.subChunkShape.length];
+  const subChunks: ShardSubChunks = new Map();
+  for (let indexOffset = 0; indexOffset < index.length; ++indexOffset) {
+    if (Math.floor(indexOffset / lengthStride) % 2 !== 0) continue;
+    const dataOffset = index[indexOffset];
+    const dataLength = index[indexOffset + lengthStride];
+    if (dataOffset === MISSING_VALUE && dataLength === MISSING_VALUE) continue;
+    const start = Number(dataOffset);
+    const end = start + Number(dataLength);
+    if (end > shard.length) {
+      throw new Error(
+        `Sub-chunk byte range [${start}, ${end}) exceeds shard size of ${shard.length} bytes`,
+      );
+    }
+    subChunks.set(indexOffset, shard.subarray(start, end));
+  }
+  return subChunks;
+}
+
+/**
+ * Assembles a shard from its sub-chunks, which are stored in the order of the index.
+ */
+export async function encodeShard(
+  configuration: Configuration,
+  subChunks: ShardSubChunks,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  const { indexCodecs } = configuration;
+  const encodedIndexSize = getEncodedIndexSize(configuration);
+  const lengthStride =
+    getShardIndexStrides(configuration)[configuration.subChunkShape.length];
+  const index = new BigUint64Array(
+    indexCodecs.arrayInfo[0].chunkShape.reduce((a, b) => a * b, 1),
+  ).fill(MISSING_VALUE);
+  const indexOffsets = Array.from(subChunks.keys()).sort((a, b) => a - b);
+  let dataSize = 0;
+  for (const indexOffset of indexOffsets) {
+    dataSize += subChunks.get(indexOffset)!.length;
+  }
+  const shard = new Uint8Array(dataSize + encodedIndexSize);
+  let dataOffset =
+    configuration.indexLocation === ShardIndexLocation.START
+      ? encodedIndexSize
+      : 0;
+  for (const indexOffset of indexOffsets) {
+    const data = subChunks.get(indexOffset)!;
+    shard.set(data, dataOffset);
+    index[indexOffset] = BigInt(dataOffset);
+    index[indexOffset + lengthStride] = BigInt(data.length);
+    dataOffset += data.length;
+  }
+  const encodedIndex = await encodeArray(indexCodecs, index, cancellationToken);
+  if (encodedIndex.length !== encodedIndexSize) {
+    throw new Error(
+      `Encoded shard index is ${encodedIndex.length} bytes, but ${encodedIndexSize} bytes are expected`,
+    );
+  }
+  shard.set(
+    encodedIndex,
+    configuration.indexLocation === ShardIndexLocation.START ? 0 : dataSize,
+  );
+  return shard;
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Codec chains used by tests of the zarr `sharding_indexed` codec.
+ */
+
+import "#src/datasource/zarr/codec/bytes/decode.js";
+import "#src/datasource/zarr/codec/bytes/encode.js";
+import "#src/datasource/zarr/codec/bytes/resolve.js";
+import "#src/datasource/zarr/codec/crc32c/decode.js";
+import "#src/datasource/zarr/codec/crc32c/encode.js";
+import "#src/datasource/zarr/codec/crc32c/resolve.js";
+import "#src/datasource/zarr/codec/sharding_indexed/decode.js";
+import "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { parseCodecChainSpec } from "#src/datasource/zarr/codec/resolve.js";
+import { DataType } from "#src/util/data_type.js";
+
+/**
+ * Returns a codec chain for `uint8` shards of shape `[4, 6]` with sub-chunks of shape `[2, 2]`
+ * and a checksummed index.
+ */
+export function makeShardingCodecs(indexLocation = "end") {
+  return parseCodecChainSpec(
+    [
+      {
+        name: "sharding_indexed",
+        configuration: {
+          chunk_shape: [2, 2],
+          codecs: [{ name: "bytes", configuration: { endian: "little" } }],
+          index_codecs: [
+            { name: "bytes", configuration: { endian: "little" } },
+            { name: "crc32c" },
+          ],
+          index_location: indexLocation,
+        },
+      },
+    ],
+    { dataType: DataType.UINT8, chunkShape: [4, 6] },
+  );
+}
+
+/**
+ * Chunk manager for sharded stores whose shard index cache is not used, as is the case for writes.
+ */
+export const fakeChunkManager = {
+  addRef() {
+    return this;
+  },
+  dispose() {},
+  queueManager: { sources: new Set() },
+} as unknown as ChunkManager;
@@ -0,0 +1,32 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Encoder for the zarr `transpose` codec.
+ */
+
+import { registerCodecEncoder } from "#src/datasource/zarr/codec/encode.js";
+import type { CodecArrayInfo } from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { Configuration } from "#src/datasource/zarr/codec/transpose/resolve.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+registerCodecEncoder({
+  name: "transpose",
+  kind: CodecKind.arrayToArray,
+  async encode(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    decoded: ArrayBufferView,
+    cancellationToken: CancellationToken,
+  ): Promise<ArrayBufferView> {
+    // As for decoding, the transpose only affects the physical layout, which is already accounted
+    // for by the layout of the decoded array.
+    decodedArrayInfo;
+    cancellationToken;
+    configuration;
+    return decoded;
+  },
+});
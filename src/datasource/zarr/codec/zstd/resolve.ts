@@ -12,19 +12,35 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
 import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
-import { verifyObject } from "#src/util/json.js";
+import {
+  verifyInt,
+  verifyObject,
+  verifyOptionalObjectProperty,
+} from "#src/util/json.js";
 
-export type Configuration = object;
+// Only used for encoding.
+export interface Configuration {
+  level: number;
+}
 
 registerCodec({
   name: "zstd",
   kind: CodecKind.bytesToBytes,
   resolve(configuration: unknown): { configuration: Configuration } {
     verifyObject(configuration);
-    return { configuration: {} };
+    const level = verifyOptionalObjectProperty(
+      configuration,
+      "level",
+      verifyInt,
+      0,
+    );
+    return { configuration: { level } };
   },
 });
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/datasource/zarr/codec/blosc/resolve.js";
@@ -30,6 +33,7 @@ import { WithCredentialsProvider } from "#src/credentials_provider/chunk_source_
 import type {
   CompleteUrlOptions,
   DataSource,
+  DataSubsourceEntry,
   GetDataSourceOptions,
 } from "#src/datasource/index.js";
 import { DataSourceProvider } from "#src/datasource/index.js";
@@ -51,8 +55,17 @@ import {
   parseV2Metadata,
   parseV3Metadata,
 } from "#src/datasource/zarr/metadata/parse.js";
-import type { OmeMultiscaleMetadata } from "#src/datasource/zarr/ome.js";
-import { parseOmeMetadata } from "#src/datasource/zarr/ome.js";
+import type {
+  OmeChannelMetadata,
+  OmeMultiscaleMetadata,
+} from "#src/datasource/zarr/ome.js";
+import {
+  getOmeChannelFragmentMain,
+  parseOmeImageLabel,
+  parseOmeLabels,
+  parseOmeMetadata,
+} from "#src/datasource/zarr/ome.js";
+import { SegmentPropertyMap } from "#src/segmentation_display_state/property_map.js";
 import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
 import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
 import {
@@ -64,6 +77,7 @@ import {
   MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
   VolumeChunkSource,
 } from "#src/sliceview/volume/frontend.js";
+import { StatusMessage } from "#src/status.js";
 import { transposeNestedArrays } from "#src/util/array.js";
 import {
   applyCompletionOffset,
@@ -112,9 +126,17 @@ export class MultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSou
     chunkManager: Borrowed<ChunkManager>,
     public credentialsProvider: SpecialProtocolCredentialsProvider,
     public multiscale: ZarrMultiscaleInfo,
+    volumeType = VolumeType.IMAGE,
   ) {
     super(chunkManager);
-    this.volumeType = VolumeType.IMAGE;
+    this.volumeType = volumeType;
+    const { channels } = multiscale;
+    if (channels !== undefined && volumeType === VolumeType.IMAGE) {
+      this.defaultFragmentMain = getOmeChannelFragmentMain(
+        channels,
+        multiscale.dataType,
+      );
+    }
   }
 
   getSources(volumeSourceOptions: VolumeSourceOptions) {
@@ -226,6 +248,7 @@ interface ZarrMultiscaleInfo {
   coordinateSpace: CoordinateSpace;
   dataType: DataType;
   scales: ZarrScaleInfo[];
+  channels?: OmeChannelMetadata[] | undefined;
 }
 
 function getNormalizedDimensionNames(
@@ -363,7 +386,15 @@ async function resolveOmeMultiscale(
     upperBounds,
   });
 
-  const { coordinateSpace } = multiscale;
+  const { coordinateSpace, channelDimension } = multiscale;
+  let { channels } = multiscale;
+  if (
+    channels !== undefined &&
+    baseZarrMetadata.shape[channelDimension!] !== channels.length
+  ) {
+    // Channel metadata does not match the array, ignore it.
+    channels = undefined;
+  }
   const resolvedCoordinateSpace = makeCoordinateSpace({
     names: coordinateSpace.names,
     units: coordinateSpace.units,
@@ -382,9 +413,136 @@ async function resolveOmeMultiscale(
         metadata: zarrMetadata,
       };
     }),
+    channels,
   };
 }
 
+async function getOmeMultiscaleInfo(
+  chunkManager: ChunkManager,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  url: string,
+  metadata: Metadata,
+  explicitDimensionSeparator: DimensionSeparator | undefined,
+): Promise<ZarrMultiscaleInfo> {
+  if (metadata.nodeType !== "group") {
+    return getMultiscaleInfoForSingleArray(url, metadata);
+  }
+  // May be an OME-zarr multiscale dataset.
+  const multiscale = parseOmeMetadata(url, metadata.userAttributes);
+  if (multiscale === undefined) {
+    throw new Error("Neithre array nor OME multiscale metadata found");
+  }
+  return await resolveOmeMultiscale(
+    chunkManager,
+    credentialsProvider,
+    multiscale,
+    {
+      zarrVersion: metadata.zarrVersion,
+      explicitDimensionSeparator,
+    },
+  );
+}
+
+function getOmeImageLabelPropertyMap(metadata: Metadata) {
+  if (metadata.nodeType !== "group") return undefined;
+  const inlineProperties = parseOmeImageLabel(metadata.userAttributes);
+  if (inlineProperties === undefined) return undefined;
+  return new SegmentPropertyMap({ inlineProperties });
+}
+
+// Returns the subsources for the label images in the OME-NGFF `labels` group of the image at `url`.
+// Label images that fail to load are skipped and reported, such that they do not prevent the image
+// itself from loading.
+async function getOmeLabelSubsources(
+  chunkManager: ChunkManager,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  url: string,
+  zarrVersion: 2 | 3,
+  explicitDimensionSeparator: DimensionSeparator | undefined,
+): Promise<DataSubsourceEntry[]> {
+  const labelsMetadata = await getMetadata(
+    chunkManager,
+    credentialsProvider,
+    `${url}/labels`,
+    { zarrVersion, expectedNodeType: "group", explicitDimensionSeparator },
+  );
+  if (labelsMetadata === undefined || labelsMetadata.nodeType !== "group") {
+    return [];
+  }
+  const names = parseOmeLabels(labelsMetadata.userAttributes) ?? [];
+  const subsources = await Promise.all(
+    names.map(async (name): Promise<DataSubsourceEntry[]> => {
+      const labelUrl = `${url}/labels/${name}`;
+      try {
+        return await getOmeLabelImageSubsources(
+          chunkManager,
+          credentialsProvider,
+          labelUrl,
+          `labels/${name}`,
+          zarrVersion,
+          explicitDimensionSeparator,
+        );
+      } catch (e) {
+        StatusMessage.showTemporaryMessage(
+          `Skipping OME label image ${JSON.stringify(name)}: ${
+            (e as Error).message
+          }`,
+          5000,
+        );
+        return [];
+      }
+    }),
+  );
+  return subsources.flat();
+}
+
+async function getOmeLabelImageSubsources(
+  chunkManager: ChunkManager,
+  credentialsProvider: SpecialProtocolCredentialsProvider,
+  labelUrl: string,
+  id: string,
+  zarrVersion: 2 | 3,
+  explicitDimensionSeparator: DimensionSeparator | undefined,
+): Promise<DataSubsourceEntry[]> {
+  const metadata = await getMetadata(
+    chunkManager,
+    credentialsProvider,
+    labelUrl,
+    { zarrVersion, expectedNodeType: "group", explicitDimensionSeparator },
+  );
+  if (metadata === undefined) {
+    throw new Error(`OME label image metadata not found at ${labelUrl}`);
+  }
+  const volume = new MultiscaleVolumeChunkSource(
+    chunkManager,
+    credentialsProvider,
+    await getOmeMultiscaleInfo(
+      chunkManager,
+      credentialsProvider,
+      labelUrl,
+      metadata,
+      explicitDimensionSeparator,
+    ),
+    VolumeType.SEGMENTATION,
+  );
+  const labelSubsources: DataSubsourceEntry[] = [
+    {
+      id,
+      default: false,
+      subsource: { volume },
+    },
+  ];
+  const segmentPropertyMap = getOmeImageLabelPropertyMap(metadata);
+  if (segmentPropertyMap !== undefined) {
+    labelSubsources.push({
+      id: `${id}/properties`,
+      default: false,
+      subsource: { segmentPropertyMap },
+    });
+  }
+  return labelSubsources;
+}
+
 async function getMetadata(
   chunkManager: ChunkManager,
   credentialsProvider: SpecialProtocolCredentialsProvider,
@@ -498,50 +656,59 @@ export class ZarrDataSource extends DataSourceProvider {
         if (metadata === undefined) {
           throw new Error("No zarr metadata found");
         }
-        let multiscaleInfo: ZarrMultiscaleInfo;
-        if (metadata.nodeType === "group") {
-          // May be an OME-zarr multiscale dataset.
-          const multiscale = parseOmeMetadata(url, metadata.userAttributes);
-          if (multiscale === undefined) {
-            throw new Error("Neithre array nor OME multiscale metadata found");
-          }
-          multiscaleInfo = await resolveOmeMultiscale(
-            options.chunkManager,
-            credentialsProvider,
-            multiscale,
-            {
-              zarrVersion: metadata.zarrVersion,
-              explicitDimensionSeparator: dimensionSeparator,
-            },
-          );
-        } else {
-          multiscaleInfo = getMultiscaleInfoForSingleArray(url, metadata);
-        }
+        const multiscaleInfo = await getOmeMultiscaleInfo(
+          options.chunkManager,
+          credentialsProvider,
+          url,
+          metadata,
+          dimensionSeparator,
+        );
+        // An OME label image is itself a segmentation.
+        const segmentPropertyMap = getOmeImageLabelPropertyMap(metadata);
         const volume = new MultiscaleVolumeChunkSource(
           options.chunkManager,
           credentialsProvider,
           multiscaleInfo,
+          segmentPropertyMap === undefined
+            ? VolumeType.IMAGE
+            : VolumeType.SEGMENTATION,
         );
+        const subsources: DataSubsourceEntry[] = [
+          {
+            id: "default",
+            default: true,
+            subsource: { volume },
+          },
+          {
+            id: "bounds",
+            default: true,
+            subsource: {
+              staticAnnotations: makeDataBoundsBoundingBoxAnnotationSet(
+                volume.modelSpace.bounds,
+              ),
+            },
+          },
+        ];
+        if (segmentPropertyMap !== undefined) {
+          subsources.push({
+            id: "properties",
+            default: true,
+            subsource: { segmentPropertyMap },
+          });
+        } else if (metadata.nodeType === "group") {
+          subsources.push(
+            ...(await getOmeLabelSubsources(
+              options.chunkManager,
+              credentialsProvider,
+              url,
+              metadata.zarrVersion,
+              dimensionSeparator,
+            )),
+          );
+        }
         return {
           modelTransform: makeIdentityTransform(volume.modelSpace),
-          subsources: [
-            {
-              id: "default",
-              default: true,
-              url: undefined,
-              subsource: { volume },
-            },
-            {
-              id: "bounds",
-              default: true,
-              url: undefined,
-              subsource: {
-                staticAnnotations: makeDataBoundsBoundingBoxAnnotationSet(
-                  volume.modelSpace.bounds,
-                ),
-              },
-            },
-          ],
+          subsources,
         };
       },
     );
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { parseCodecChainSpec } from "#src/datasource/zarr/codec/resolve.js";
@@ -400,6 +403,7 @@ export function parseV2Metadata(
             name: "gzip",
             configuration: {
               level: verifyObjectProperty(compressor, "level", verifyInt),
+              zlib: id === "zlib",
             },
           });
           break;
@@ -0,0 +1,171 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the OME-NGFF metadata parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getOmeChannelFragmentMain,
+  parseOmeImageLabel,
+  parseOmeLabels,
+  parseOmeMetadata,
+} from "#src/datasource/zarr/ome.js";
+import { DataType } from "#src/util/data_type.js";
+
+function makeMultiscales() {
+  return [
+    {
+      version: "0.4",
+      axes: [
+        { name: "c", type: "channel" },
+        { name: "y", type: "space", unit: "micrometer" },
+        { name: "x", type: "space", unit: "micrometer" },
+      ],
+      datasets: [
+        {
+          path: "0",
+          coordinateTransformations: [{ type: "scale", scale: [1, 0.5, 0.5] }],
+        },
+      ],
+    },
+  ];
+}
+
+describe("parseOmeMetadata", () => {
+  it("treats the channel axis as a local dimension without omero metadata", () => {
+    const metadata = parseOmeMetadata("url", {
+      multiscales: makeMultiscales(),
+    })!;
+    expect(metadata.coordinateSpace.names).toEqual(["c'", "y", "x"]);
+    expect(metadata.channels).toBeUndefined();
+    expect(metadata.channelDimension).toBeUndefined();
+  });
+
+  it("parses omero channel metadata", () => {
+    const metadata = parseOmeMetadata("url", {
+      multiscales: makeMultiscales(),
+      omero: {
+        channels: [
+          {
+            label: "DAPI",
+            color: "0000FF",
+            active: true,
+            window: { start: 10, end: 1500, min: 0, max: 65535 },
+          },
+          { label: "GFP", color: "00ff00", active: false },
+        ],
+      },
+    })!;
+    expect(metadata.coordinateSpace.names).toEqual(["c^", "y", "x"]);
+    expect(metadata.channelDimension).toBe(0);
+    expect(metadata.channels).toEqual([
+      {
+        label: "DAPI",
+        color: "#0000ff",
+        active: true,
+        window: [10, 1500],
+        range: [0, 65535],
+      },
+      {
+        label: "GFP",
+        color: "#00ff00",
+        active: false,
+        window: undefined,
+        range: undefined,
+      },
+    ]);
+  });
+});
+
+describe("parseOmeLabels", () => {
+  it("returns the label image names", () => {
+    expect(parseOmeLabels({ labels: ["cells", "nuclei"] })).toEqual([
+      "cells",
+      "nuclei",
+    ]);
+    expect(parseOmeLabels({})).toBeUndefined();
+  });
+});
+
+describe("parseOmeImageLabel", () => {
+  it("returns undefined without image-label metadata", () => {
+    expect(parseOmeImageLabel({})).toBeUndefined();
+  });
+
+  it("converts colors and properties", () => {
+    const map = parseOmeImageLabel({
+      "image-label": {
+        version: "0.4",
+        colors: [
+          { "label-value": 5, rgba: [255, 0, 128, 255] },
+          { "label-value": 2, rgba: [0, 16, 0, 255] },
+        ],
+        properties: [
+          { "label-value": 2, area: 100, class: "nucleus" },
+          { "label-value": 7, area: 50.5, class: "cell" },
+        ],
+      },
+    })!;
+    expect(Array.from(map.ids)).toEqual([2, 0, 5, 0, 7, 0]);
+    const [color, area, cls] = map.properties;
+    expect(color).toEqual({
+      id: "color",
+      type: "string",
+      values: ["#001000", "#ff0080", ""],
+    });
+    expect(area.id).toBe("area");
+    expect(area.type).toBe("number");
+    if (area.type !== "number") return;
+    expect(area.dataType).toBe(DataType.FLOAT32);
+    expect(Array.from(area.values)).toEqual([100, NaN, 50.5]);
+    expect(area.bounds).toEqual([50.5, 100]);
+    expect(cls).toEqual({
+      id: "class",
+      type: "string",
+      values: ["nucleus", "", "cell"],
+    });
+  });
+});
+
+describe("getOmeChannelFragmentMain", () => {
+  it("generates a control for each channel", () => {
+    expect(
+      getOmeChannelFragmentMain(
+        [
+          {
+            label: "DAPI",
+            color: "#0000ff",
+            active: true,
+            window: [10.4, 1500],
+            range: [0, 65535],
+          },
+          {
+            label: "2 photon",
+            color: "#00ff00",
+            active: false,
+            window: undefined,
+            range: undefined,
+          },
+        ],
+        DataType.UINT16,
+      ),
+    )
+      .toBe(`#uicontrol invlerp dapi(range=[10, 1500], window=[0, 65535], channel=[0])
+#uicontrol vec3 dapi_color color(default="#0000ff")
+#uicontrol bool dapi_visible checkbox(default=true)
+#uicontrol invlerp channel1(channel=[1])
+#uicontrol vec3 channel1_color color(default="#00ff00")
+#uicontrol bool channel1_visible checkbox(default=false)
+void main() {
+  vec3 rgb = vec3(0.0);
+  if (dapi_visible) rgb += dapi_color * dapi();
+  if (channel1_visible) rgb += channel1_color * channel1();
+  emitRGB(rgb);
+}
+`);
+  });
+});
@@ -12,19 +12,31 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { CoordinateSpace } from "#src/coordinate_transform.js";
 import { makeCoordinateSpace } from "#src/coordinate_transform.js";
+import type {
+  InlineSegmentProperty,
+  InlineSegmentPropertyMap,
+} from "#src/segmentation_display_state/property_map.js";
+import { normalizeInlineSegmentPropertyMap } from "#src/segmentation_display_state/property_map.js";
+import { DataType } from "#src/util/data_type.js";
 import {
   parseArray,
   parseFixedLengthArray,
+  verifyBoolean,
   verifyFiniteFloat,
   verifyFinitePositiveFloat,
+  verifyNonnegativeInt,
   verifyObject,
   verifyObjectProperty,
   verifyOptionalObjectProperty,
   verifyString,
+  verifyStringArray,
 } from "#src/util/json.js";
 import * as matrix from "#src/util/matrix.js";
 import { allSiPrefixes } from "#src/util/si_units.js";
@@ -34,9 +46,26 @@ export interface OmeMultiscaleScale {
   transform: Float64Array;
 }
 
+/**
+ * Rendering settings of a channel, from the `omero` metadata.
+ */
+export interface OmeChannelMetadata {
+  label: string;
+  // Color as a `#rrggbb` string.
+  color: string;
+  active: boolean;
+  // Range of values mapped to the full intensity range.
+  window: [number, number] | undefined;
+  // Range of values present in the data.
+  range: [number, number] | undefined;
+}
+
 export interface OmeMultiscaleMetadata {
   scales: OmeMultiscaleScale[];
   coordinateSpace: CoordinateSpace;
+  // Index of the channel dimension, if `channels` is specified.
+  channelDimension: number | undefined;
+  channels: OmeChannelMetadata[] | undefined;
 }
 
 const SUPPORTED_OME_MULTISCALE_VERSIONS = new Set(["0.4", "0.5-dev"]);
@@ -91,13 +120,15 @@ function parseOmeAxis(axis: unknown): Axis {
   return { name, unit: parsedUnit.unit, scale: parsedUnit.scale, type };
 }
 
-function parseOmeAxes(axes: unknown): CoordinateSpace {
+// Channel dimensions are local dimensions, unless `omero` channel metadata is specified, in which
+// case they are channel dimensions so that all channels can be displayed together.
+function parseOmeAxes(axes: unknown, hasChannels: boolean): CoordinateSpace {
   const parsedAxes = parseArray(axes, parseOmeAxis);
   return makeCoordinateSpace({
     names: parsedAxes.map((axis) => {
       const { name, type } = axis;
       if (type === "channel") {
-        return `${name}'`;
+        return hasChannels ? `${name}^` : `${name}'`;
       }
       return name;
     }),
@@ -192,14 +223,94 @@ function parseMultiscaleScale(
   return { url: scaleUrl, transform };
 }
 
+const OME_CHANNEL_COLOR_PATTERN = /^#?([0-9a-fA-F]{6})$/;
+
+function parseOmeChannelWindow(obj: unknown) {
+  verifyObject(obj);
+  const getRange = (lowerKey: string, upperKey: string) => {
+    const lower = verifyOptionalObjectProperty(
+      obj,
+      lowerKey,
+      verifyFiniteFloat,
+    );
+    const upper = verifyOptionalObjectProperty(
+      obj,
+      upperKey,
+      verifyFiniteFloat,
+    );
+    if (lower === undefined || upper === undefined) return undefined;
+    return [lower, upper] as [number, number];
+  };
+  return { window: getRange("start", "end"), range: getRange("min", "max") };
+}
+
+function parseOmeChannel(obj: unknown, index: number): OmeChannelMetadata {
+  verifyObject(obj);
+  const label = verifyOptionalObjectProperty(
+    obj,
+    "label",
+    verifyString,
+    `channel ${index}`,
+  );
+  const color = verifyOptionalObjectProperty(
+    obj,
+    "color",
+    (x) => {
+      const m = verifyString(x).match(OME_CHANNEL_COLOR_PATTERN);
+      if (m === null) {
+        throw new Error(`Invalid color: ${JSON.stringify(x)}`);
+      }
+      return `#${m[1].toLowerCase()}`;
+    },
+    "#ffffff",
+  );
+  const active = verifyOptionalObjectProperty(
+    obj,
+    "active",
+    verifyBoolean,
+    true,
+  );
+  const { window, range } = verifyOptionalObjectProperty(
+    obj,
+    "window",
+    parseOmeChannelWindow,
+    { window: undefined, range: undefined },
+  );
+  return { label, color, active, window, range };
+}
+
+/**
+ * Parses the `channels` of the `omero` metadata, or returns `undefined` if they are not specified.
+ */
+export function parseOmeroChannels(
+  omero: unknown,
+): OmeChannelMetadata[] | undefined {
+  if (typeof omero !== "object" || omero === null) return undefined;
+  const channels = verifyOptionalObjectProperty(omero, "channels", (x) =>
+    parseArray(x, parseOmeChannel),
+  );
+  if (channels === undefined || channels.length === 0) return undefined;
+  return channels;
+}
+
 function parseOmeMultiscale(
   url: string,
   multiscale: unknown,
+  omero: unknown,
 ): OmeMultiscaleMetadata {
-  const coordinateSpace = verifyObjectProperty(
-    multiscale,
-    "axes",
-    parseOmeAxes,
+  let channels = parseOmeroChannels(omero);
+  const channelDimension = verifyObjectProperty(multiscale, "axes", (axes) => {
+    if (!Array.isArray(axes)) return -1;
+    return axes.findIndex(
+      (axis) =>
+        typeof axis === "object" && axis !== null && axis.type === "channel",
+    );
+  });
+  if (channelDimension === -1) {
+    channels = undefined;
+  }
+  const coordinateSpace = verifyObjectProperty(multiscale, "axes", (axes) =>
+    parseOmeAxes(axes, channels !== undefined),
   );
   const rank = coordinateSpace.rank;
   const transform = verifyObjectProperty(
@@ -259,7 +370,12 @@ function parseOmeMultiscale(
       }
     }
   }
-  return { coordinateSpace, scales };
+  return {
+    coordinateSpace,
+    scales,
+    channelDimension: channels === undefined ? undefined : channelDimension,
+    channels,
+  };
 }
 
 export function parseOmeMetadata(
@@ -288,10 +404,174 @@ export function parseOmeMetadata(
       );
       continue;
     }
-    return parseOmeMultiscale(url, multiscale);
+    return parseOmeMultiscale(url, multiscale, attrs.omero);
   }
   if (errors.length !== 0) {
     throw new Error(errors[0]);
   }
   return undefined;
 }
+
+/**
+ * Returns the names of the label images listed in the attributes of an OME-NGFF `labels` group, or
+ * `undefined` if the attributes do not list any.
+ */
+export function parseOmeLabels(attrs: any): string[] | undefined {
+  const labels = attrs.labels;
+  if (labels === undefined) return undefined;
+  return verifyStringArray(labels);
+}
+
+function colorComponentToHex(x: number) {
+  return Math.min(255, Math.max(0, Math.round(x)))
+    .toString(16)
+    .padStart(2, "0");
+}
+
+/**
+ * Converts the `colors` and `properties` of OME-NGFF `image-label` metadata to an inline segment
+ * property map.
+ *
+ * Colors are represented by a `"color"` string property with values of the form `#rrggbb`.  Each of
+ * the other properties is a number property if all of its values are numbers, and otherwise a
+ * string property.  Returns `undefined` if there is no `image-label` metadata.
+ */
+export function parseOmeImageLabel(
+  attrs: any,
+): InlineSegmentPropertyMap | undefined {
+  const imageLabel = attrs["image-label"];
+  if (imageLabel === undefined) return undefined;
+  verifyObject(imageLabel);
+  const ids: number[] = [];
+  const idIndices = new Map<number, number>();
+  const getIdIndex = (obj: unknown) => {
+    const id = verifyObjectProperty(obj, "label-value", verifyNonnegativeInt);
+    let index = idIndices.get(id);
+    if (index === undefined) {
+      index = ids.length;
+      ids.push(id);
+      idIndices.set(id, index);
+    }
+    return index;
+  };
+  const colors = verifyOptionalObjectProperty(imageLabel, "colors", (x) =>
+    parseArray(x, (obj) => {
+      verifyObject(obj);
+      const index = getIdIndex(obj);
+      const rgba = verifyObjectProperty(obj, "rgba", (y) =>
+        parseFixedLengthArray(new Array<number>(4), y, verifyFiniteFloat),
+      );
+      return {
+        index,
+        color: `#${rgba.slice(0, 3).map(colorComponentToHex).join("")}`,
+      };
+    }),
+  );
+  const propertyValues = new Map<string, Map<number, unknown>>();
+  verifyOptionalObjectProperty(imageLabel, "properties", (x) =>
+    parseArray(x, (obj) => {
+      verifyObject(obj);
+      const index = getIdIndex(obj);
+      for (const [key, value] of Object.entries(obj)) {
+        if (key === "label-value") continue;
+        let values = propertyValues.get(key);
+        if (values === undefined) {
+          values = new Map();
+          propertyValues.set(key, values);
+        }
+        values.set(index, value);
+      }
+    }),
+  );
+  const numIds = ids.length;
+  const properties: InlineSegmentProperty[] = [];
+  if (colors !== undefined && colors.length !== 0) {
+    const values = new Array<string>(numIds).fill("");
+    for (const { index, color } of colors) {
+      values[index] = color;
+    }
+    properties.push({ id: "color", type: "string", values });
+  }
+  for (const [id, valueMap] of propertyValues) {
+    if (Array.from(valueMap.values()).every((x) => typeof x === "number")) {
+      const values = new Float32Array(numIds).fill(Number.NaN);
+      let min = Infinity;
+      let max = -Infinity;
+      for (const [index, value] of valueMap) {
+        const v = (values[index] = value as number);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      properties.push({
+        id,
+        type: "number",
+        dataType: DataType.FLOAT32,
+        description: undefined,
+        values,
+        bounds: [min, max],
+      });
+    } else {
+      const values = new Array<string>(numIds).fill("");
+      for (const [index, value] of valueMap) {
+        values[index] =
+          typeof value === "string" ? value : JSON.stringify(value);
+      }
+      properties.push({ id, type: "string", values });
+    }
+  }
+  const idArray = new Uint32Array(numIds * 2);
+  for (let i = 0; i < numIds; ++i) {
+    idArray[2 * i] = ids[i];
+  }
+  return normalizeInlineSegmentPropertyMap({ ids: idArray, properties });
+}
+
+// Shader control names must start with a lowercase letter.
+const CONTROL_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Names used by the generated shader, which must not be used as control names.
+const RESERVED_CHANNEL_CONTROL_NAMES = new Set(["main", "rgb"]);
+
+/**
+ * Returns a shader with an `invlerp`, color and visibility control for each channel, initialized
+ * from the `omero` channel metadata.  The enabled channels are summed, with each channel weighted
+ * by its color.
+ */
+export function getOmeChannelFragmentMain(
+  channels: OmeChannelMetadata[],
+  dataType: DataType,
+): string {
+  const roundValue =
+    dataType === DataType.FLOAT32 ? (x: number) => x : Math.round;
+  const formatRange = (range: [number, number]) =>
+    `[${range.map(roundValue).join(", ")}]`;
+  const usedNames = new Set<string>();
+  let code = "";
+  let body = "";
+  channels.forEach((channel, i) => {
+    let name = channel.label.toLowerCase().replace(/[^a-z0-9_]+/g, "_");
+    if (
+      !CONTROL_NAME_PATTERN.test(name) ||
+      name.startsWith("gl_") ||
+      name.includes("__") ||
+      RESERVED_CHANNEL_CONTROL_NAMES.has(name) ||
+      usedNames.has(name)
+    ) {
+      name = `channel${i}`;
+    }
+    usedNames.add(name);
+    const invlerpParameters = [];
+    if (channel.window !== undefined) {
+      invlerpParameters.push(`range=${formatRange(channel.window)}`);
+    }
+    if (channel.range !== undefined) {
+      invlerpParameters.push(`window=${formatRange(channel.range)}`);
+    }
+    invlerpParameters.push(`channel=[${i}]`);
+    code += `#uicontrol invlerp ${name}(${invlerpParameters.join(", ")})\n`;
+    code += `#uicontrol vec3 ${name}_color color(default="${channel.color}")\n`;
+    code += `#uicontrol bool ${name}_visible checkbox(default=${channel.active})\n`;
+    body += `  if (${name}_visible) rgb += ${name}_color * ${name}();\n`;
+  });
+  return `${code}void main() {\n  vec3 rgb = vec3(0.0);\n${body}  emitRGB(rgb);\n}\n`;
+}
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { CancellationToken } from "#src/util/cancellation.js";
@@ -58,6 +61,11 @@ export interface ReadResponse {
   data: Uint8Array;
   dataRange: ByteRange;
   totalSize: number | undefined;
+  /**
+   * Opaque identifier of the version of the value that was read, if known, such as an HTTP ETag.
+   * May be specified as the `ifGenerationMatch` option of a subsequent write or delete.
+   */
+  generation?: string;
 }
 
 export interface ReadOptions {
@@ -88,3 +96,42 @@ export interface ListableKvStore {
 }
 
 export interface KvStore extends ReadableKvStore, ListableKvStore {}
+
+/**
+ * Generation that matches only if there is no existing value.
+ */
+export const NO_VALUE_GENERATION = "";
+
+export interface WriteOptions {
+  /**
+   * If specified, the operation only succeeds if the generation of the existing value matches.
+   * `NO_VALUE_GENERATION` requires that there is no existing value.
+   */
+  ifGenerationMatch?: string;
+  cancellationToken?: CancellationToken;
+}
+
+export interface WriteResponse {
+  /**
+   * Generation of the new value, if known.
+   */
+  generation: string | undefined;
+}
+
+export interface WritableKvStore<Key = string> {
+  /**
+   * Writes a value, replacing any existing value.  Returns `undefined` if the `ifGenerationMatch`
+   * condition was not satisfied.
+   */
+  write(
+    key: Key,
+    value: Uint8Array,
+    options: WriteOptions,
+  ): Promise<WriteResponse | undefined>;
+
+  /**
+   * Deletes a value.  Deleting a value that does not exist is not an error.  Returns `false` if
+   * the `ifGenerationMatch` condition was not satisfied.
+   */
+  delete(key: Key, options: WriteOptions): Promise<boolean>;
+}
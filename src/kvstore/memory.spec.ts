@@ -0,0 +1,75 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the in-memory key-value store.
+ */
+
+import { describe, it, expect } from "vitest";
+import { NO_VALUE_GENERATION } from "#src/kvstore/index.js";
+import { MemoryKvStore } from "#src/kvstore/memory.js";
+
+describe("MemoryKvStore", () => {
+  it("reads byte ranges", async () => {
+    const kvStore = new MemoryKvStore();
+    await kvStore.write("a", Uint8Array.of(1, 2, 3, 4, 5));
+    expect(
+      await kvStore.read("a", { byteRange: { offset: 1, length: 2 } }),
+    ).toEqual({
+      data: Uint8Array.of(2, 3),
+      dataRange: { offset: 1, length: 2 },
+      totalSize: 5,
+      generation: "1",
+    });
+    expect(
+      Array.from(
+        (await kvStore.read("a", { byteRange: { suffixLength: 2 } }))!.data,
+      ),
+    ).toEqual([4, 5]);
+    expect(await kvStore.read("b")).toBeUndefined();
+  });
+
+  it("copies written values", async () => {
+    const kvStore = new MemoryKvStore();
+    const value = Uint8Array.of(1);
+    await kvStore.write("a", value);
+    value[0] = 2;
+    expect(Array.from((await kvStore.read("a"))!.data)).toEqual([1]);
+  });
+
+  it("supports conditional writes and deletes", async () => {
+    const kvStore = new MemoryKvStore();
+    const { generation } = (await kvStore.write("a", Uint8Array.of(1), {
+      ifGenerationMatch: NO_VALUE_GENERATION,
+    }))!;
+    expect(
+      await kvStore.write("a", Uint8Array.of(2), {
+        ifGenerationMatch: NO_VALUE_GENERATION,
+      }),
+    ).toBeUndefined();
+    const response = await kvStore.write("a", Uint8Array.of(3), {
+      ifGenerationMatch: generation,
+    });
+    expect(response).toBeDefined();
+    expect(await kvStore.delete("a", { ifGenerationMatch: generation })).toBe(
+      false,
+    );
+    expect(
+      await kvStore.delete("a", { ifGenerationMatch: response!.generation }),
+    ).toBe(true);
+    expect(await kvStore.read("a")).toBeUndefined();
+  });
+
+  it("lists keys and directories", async () => {
+    const kvStore = new MemoryKvStore();
+    for (const key of ["x/b", "x/a", "x/y/c", "x/y/d", "z"]) {
+      await kvStore.write(key, new Uint8Array(0));
+    }
+    expect(await kvStore.list({ prefix: "x/" })).toEqual({
+      entries: [{ key: "x/a" }, { key: "x/b" }],
+      directories: ["x/y"],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Key-value store held in memory.
+ *
+ * Stands in for a file server when data is created locally rather than loaded from a URL, and in
+ * tests.  Each write of a key is assigned a new generation, so that conditional writes behave as
+ * they do with a remote store.
+ *
+ * To write to files in a local directory instead, serve the directory with
+ * `python -m neuroglancer.tool.writable_file_server` and access it through the HTTP store.
+ */
+
+import type {
+  KvStore,
+  ListOptions,
+  ListResponse,
+  ReadOptions,
+  ReadResponse,
+  WritableKvStore,
+  WriteOptions,
+  WriteResponse,
+} from "#src/kvstore/index.js";
+import {
+  composeByteRangeRequest,
+  NO_VALUE_GENERATION,
+} from "#src/kvstore/index.js";
+
+interface MemoryKvStoreEntry {
+  value: Uint8Array;
+  generation: string;
+}
+
+export class MemoryKvStore implements KvStore, WritableKvStore {
+  private entries = new Map<string, MemoryKvStoreEntry>();
+  private nextGeneration = 1;
+
+  private matchesGeneration(key: string, ifGenerationMatch?: string) {
+    if (ifGenerationMatch === undefined) return true;
+    const entry = this.entries.get(key);
+    return (entry?.generation ?? NO_VALUE_GENERATION) === ifGenerationMatch;
+  }
+
+  async read(
+    key: string,
+    options: ReadOptions = {},
+  ): Promise<ReadResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry === undefined) return undefined;
+    const { value } = entry;
+    const { outer: dataRange } = composeByteRangeRequest(
+      { offset: 0, length: value.length },
+      options.byteRange,
+    );
+    return {
+      data: value.slice(dataRange.offset, dataRange.offset + dataRange.length),
+      dataRange,
+      totalSize: value.length,
+      generation: entry.generation,
+    };
+  }
+
+  async list(options: ListOptions): Promise<ListResponse> {
+    const { prefix } = options;
+    const entries: { key: string }[] = [];
+    const directories = new Set<string>();
+    for (const key of this.entries.keys()) {
+      if (!key.startsWith(prefix)) continue;
+      // Keys are grouped into directories by `/`, as for a file server.
+      const separator = key.indexOf("/", prefix.length);
+      if (separator === -1) {
+        entries.push({ key });
+      } else {
+        directories.add(key.substring(0, separator));
+      }
+    }
+    entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return { entries, directories: Array.from(directories).sort() };
+  }
+
+  async write(
+    key: string,
+    value: Uint8Array,
+    options: WriteOptions = {},
+  ): Promise<WriteResponse | undefined> {
+    if (!this.matchesGeneration(key, options.ifGenerationMatch)) {
+      return undefined;
+    }
+    const generation = `${this.nextGeneration++}`;
+    // Copy the value so that later modifications by the caller do not affect the stored value.
+    this.entries.set(key, { value: value.slice(), generation });
+    return { generation };
+  }
+
+  async delete(key: string, options: WriteOptions = {}): Promise<boolean> {
+    if (!this.matchesGeneration(key, options.ifGenerationMatch)) {
+      return false;
+    }
+    this.entries.delete(key);
+    return true;
+  }
+}
@@ -0,0 +1,78 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for writes to special protocol key-value stores.
+ */
+
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { NO_VALUE_GENERATION } from "#src/kvstore/index.js";
+import { getSpecialProtocolKvStore } from "#src/kvstore/special/index.js";
+import { serveFiles } from "#src/kvstore/testing.js";
+
+describe("SpecialProtocolKvStore", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("writes and deletes files over HTTP", async () => {
+    const { files } = serveFiles();
+    const kvStore = getSpecialProtocolKvStore(
+      undefined,
+      "https://example.com/data/",
+    );
+    const response = await kvStore.write("a", Uint8Array.of(1, 2, 3), {});
+    expect(response).toEqual({ generation: '"1"' });
+    expect(files.has("https://example.com/data/a")).toBe(true);
+    const readResponse = await kvStore.read("a", {});
+    expect(Array.from(readResponse!.data)).toEqual([1, 2, 3]);
+    expect(readResponse!.generation).toBe('"1"');
+    expect(await kvStore.delete("a", {})).toBe(true);
+    expect(await kvStore.read("a", {})).toBeUndefined();
+    // Deleting a file that does not exist is not an error.
+    expect(await kvStore.delete("a", {})).toBe(true);
+  });
+
+  it("supports conditional writes", async () => {
+    serveFiles();
+    const kvStore = getSpecialProtocolKvStore(
+      undefined,
+      "https://example.com/",
+    );
+    const { generation } = (await kvStore.write("a", Uint8Array.of(1), {
+      ifGenerationMatch: NO_VALUE_GENERATION,
+    }))!;
+    expect(
+      await kvStore.write("a", Uint8Array.of(2), {
+        ifGenerationMatch: NO_VALUE_GENERATION,
+      }),
+    ).toBeUndefined();
+    expect(
+      await kvStore.write("a", Uint8Array.of(3), {
+        ifGenerationMatch: generation,
+      }),
+    ).toEqual({ generation: '"2"' });
+    expect(await kvStore.delete("a", { ifGenerationMatch: generation })).toBe(
+      false,
+    );
+    expect(await kvStore.delete("a", { ifGenerationMatch: '"2"' })).toBe(true);
+    expect(await kvStore.delete("a", { ifGenerationMatch: '"2"' })).toBe(false);
+  });
+
+  it("writes to Google Cloud Storage using the XML API", async () => {
+    const { requests } = serveFiles();
+    const kvStore = getSpecialProtocolKvStore(undefined, "gs://bucket/path/");
+    await kvStore.write("a", Uint8Array.of(1), {
+      ifGenerationMatch: NO_VALUE_GENERATION,
+    });
+    expect(requests.length).toBe(1);
+    const [request] = requests;
+    expect(request.method).toBe("PUT");
+    expect(request.url).toMatch(
+      /^https:\/\/storage\.googleapis\.com\/bucket\/path\/a\?/,
+    );
+    expect(request.headers.get("x-goog-if-generation-match")).toBe("0");
+  });
+});
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type {
@@ -20,8 +23,14 @@ import type {
   ReadableKvStore,
   ReadOptions,
   ReadResponse,
+  WritableKvStore,
+  WriteOptions,
+  WriteResponse,
+} from "#src/kvstore/index.js";
+import {
+  composeByteRangeRequest,
+  NO_VALUE_GENERATION,
 } from "#src/kvstore/index.js";
-import { composeByteRangeRequest } from "#src/kvstore/index.js";
 import { uncancelableToken } from "#src/util/cancellation.js";
 import { HttpError, isNotFoundError } from "#src/util/http_request.js";
 import type { SpecialProtocolCredentialsProvider } from "#src/util/special_protocol_request.js";
@@ -46,7 +55,51 @@ function getRangeHeader(
 const byteRangeCacheMode =
   navigator.userAgent.indexOf("Chrome") !== -1 ? "no-store" : "default";
 
-class SpecialProtocolKvStore implements ReadableKvStore {
+function isGcsUrl(url: string) {
+  return url.startsWith("gs://") || url.startsWith("gs+xml://");
+}
+
+/**
+ * Returns the URL to which writes of `url` are sent.  The Google Cloud Storage JSON API uses a
+ * separate endpoint for uploads, so writes to `gs://` URLs use the XML API instead.
+ */
+function getWriteUrl(url: string) {
+  return url.startsWith("gs://") ? `gs+xml://${url.substring(5)}` : url;
+}
+
+/**
+ * Returns the request headers that make a write or delete conditional on the generation of the
+ * existing value.  Google Cloud Storage identifies versions by generation numbers, while other
+ * servers are expected to support conditional requests based on ETags.
+ */
+function getConditionHeaders(
+  url: string,
+  ifGenerationMatch: string | undefined,
+): Record<string, string> {
+  if (ifGenerationMatch === undefined) return {};
+  if (isGcsUrl(url)) {
+    return {
+      "x-goog-if-generation-match":
+        ifGenerationMatch === NO_VALUE_GENERATION ? "0" : ifGenerationMatch,
+    };
+  }
+  if (ifGenerationMatch === NO_VALUE_GENERATION) {
+    return { "if-none-match": "*" };
+  }
+  return { "if-match": ifGenerationMatch };
+}
+
+function getResponseGeneration(
+  url: string,
+  response: Response,
+): string | undefined {
+  return (
+    response.headers.get(isGcsUrl(url) ? "x-goog-generation" : "etag") ??
+    undefined
+  );
+}
+
+class SpecialProtocolKvStore implements ReadableKvStore, WritableKvStore {
   constructor(
     public credentialsProvider: SpecialProtocolCredentialsProvider,
     public baseUrl: string,
@@ -123,7 +176,12 @@ class SpecialProtocolKvStore implements ReadableKvStore {
           byteRange = { offset: 0, length: data.byteLength };
           totalSize = data.byteLength;
         }
-        return { data: new Uint8Array(data), dataRange: byteRange, totalSize };
+        return {
+          data: new Uint8Array(data),
+          dataRange: byteRange,
+          totalSize,
+          generation: getResponseGeneration(url, response),
+        };
       } catch (e) {
         if (
           attempt === 0 &&
@@ -166,10 +224,69 @@ class SpecialProtocolKvStore implements ReadableKvStore {
       }
     }
   }
+
+  async write(
+    key: string,
+    value: Uint8Array,
+    options: WriteOptions,
+  ): Promise<WriteResponse | undefined> {
+    const { cancellationToken = uncancelableToken, ifGenerationMatch } =
+      options;
+    const url = this.baseUrl + key;
+    try {
+      return await cancellableFetchSpecialOk(
+        this.credentialsProvider,
+        getWriteUrl(url),
+        {
+          method: "PUT",
+          headers: getConditionHeaders(url, ifGenerationMatch),
+          body: value,
+        },
+        async (response) => ({
+          generation: getResponseGeneration(url, response),
+        }),
+        cancellationToken,
+      );
+    } catch (e) {
+      // 412: Precondition Failed.
+      if (e instanceof HttpError && e.status === 412) return undefined;
+      throw e;
+    }
+  }
+
+  async delete(key: string, options: WriteOptions): Promise<boolean> {
+    const { cancellationToken = uncancelableToken, ifGenerationMatch } =
+      options;
+    const url = this.baseUrl + key;
+    try {
+      await cancellableFetchSpecialOk(
+        this.credentialsProvider,
+        getWriteUrl(url),
+        {
+          method: "DELETE",
+          headers: getConditionHeaders(url, ifGenerationMatch),
+        },
+        async () => {},
+        cancellationToken,
+      );
+      return true;
+    } catch (e) {
+      if (e instanceof HttpError) {
+        if (e.status === 412) return false;
+        if (e.status === 404) {
+          return (
+            ifGenerationMatch === undefined ||
+            ifGenerationMatch === NO_VALUE_GENERATION
+          );
+        }
+      }
+      throw e;
+    }
+  }
 }
 export function getSpecialProtocolKvStore(
   credentialsProvider: SpecialProtocolCredentialsProvider,
   baseUrl: string,
-): ReadableKvStore {
+): ReadableKvStore & WritableKvStore {
   return new SpecialProtocolKvStore(credentialsProvider, baseUrl);
 }
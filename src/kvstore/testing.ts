@@ -0,0 +1,80 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Stand-ins for HTTP servers used by tests of key-value stores.
+ */
+
+import { vi } from "vitest";
+
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+}
+
+/**
+ * Replaces `fetch` with `handler`, and returns the requests it receives.
+ */
+export function stubFetch(
+  handler: (
+    request: RecordedRequest,
+    init: RequestInit,
+  ) => Response | Promise<Response>,
+) {
+  const requests: RecordedRequest[] = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit = {}) => {
+    const request = {
+      url,
+      method: init.method ?? "GET",
+      headers: new Headers(init.headers),
+    };
+    requests.push(request);
+    return handler(request, init);
+  });
+  return requests;
+}
+
+/**
+ * Responds to every request with `status`.
+ */
+export function serveStatus(status: number) {
+  return stubFetch(() => new Response(null, { status }));
+}
+
+/**
+ * Minimal in-memory HTTP server that supports conditional requests based on ETags.
+ */
+export function serveFiles() {
+  const files = new Map<string, { data: Uint8Array; etag: string }>();
+  let nextEtag = 0;
+  const requests = stubFetch(({ url, method, headers }, init) => {
+    const file = files.get(url);
+    const ifMatch = headers.get("if-match");
+    const ifNoneMatch = headers.get("if-none-match");
+    if (
+      (ifMatch !== null && ifMatch !== file?.etag) ||
+      (ifNoneMatch === "*" && file !== undefined)
+    ) {
+      return new Response(null, { status: 412 });
+    }
+    switch (method) {
+      case "GET":
+        if (file === undefined) return new Response(null, { status: 404 });
+        return new Response(file.data, { headers: { etag: file.etag } });
+      case "PUT": {
+        const etag = `"${++nextEtag}"`;
+        files.set(url, { data: init.body as Uint8Array, etag });
+        return new Response(null, { status: 201, headers: { etag } });
+      }
+      case "DELETE":
+        if (file === undefined) return new Response(null, { status: 404 });
+        files.delete(url);
+        return new Response(null, { status: 204 });
+    }
+    return new Response(null, { status: 405 });
+  });
+  return { files, requests };
+}
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/layer/image/style.css";
@@ -43,13 +46,13 @@ import {
 import { DataType, VolumeType } from "#src/sliceview/volume/base.js";
 import { MultiscaleVolumeChunkSource } from "#src/sliceview/volume/frontend.js";
 import {
+  DEFAULT_FRAGMENT_MAIN,
   defineImageLayerShader,
   getTrackableFragmentMain,
   ImageRenderLayer,
 } from "#src/sliceview/volume/image_renderlayer.js";
 import { trackableAlphaValue } from "#src/trackable_alpha.js";
 import { trackableBlendModeValue } from "#src/trackable_blend.js";
-import { TrackableBoolean } from "#src/trackable_boolean.js";
 import { trackableFiniteFloat } from "#src/trackable_finite_float.js";
 import type { WatchableValueInterface } from "#src/trackable_value.js";
 import {
@@ -63,6 +66,10 @@ import { setClipboard } from "#src/util/clipboard.js";
 import type { Borrowed } from "#src/util/disposable.js";
 import { makeValueOrError } from "#src/util/error.js";
 import { verifyOptionalObjectProperty } from "#src/util/json.js";
+import {
+  trackableVolumeRenderingModeValue,
+  VolumeRenderingModes,
+} from "#src/volume_rendering/trackable_volume_rendering_mode.js";
 import {
   getVolumeRenderingDepthSamplesBoundsLogScale,
   VOLUME_RENDERING_DEPTH_SAMPLES_DEFAULT_VALUE,
@@ -84,7 +91,6 @@ import {
   addLayerControlToOptionsTab,
   registerLayerControl,
 } from "#src/widget/layer_control.js";
-import { checkboxLayerControl } from "#src/widget/layer_control_checkbox.js";
 import { enumLayerControl } from "#src/widget/layer_control_enum.js";
 import { rangeLayerControl } from "#src/widget/layer_control_range.js";
 import { makeMaximizeButton } from "#src/widget/maximize_button.js";
@@ -149,7 +155,13 @@ export class ImageUserLayer extends Base {
       this.channelCoordinateSpace,
     ),
   );
-  volumeRendering = new TrackableBoolean(false, false);
+  volumeRenderingMode = trackableVolumeRenderingModeValue();
+  volumeRenderingEnabled = this.registerDisposer(
+    makeCachedDerivedWatchableValue(
+      (mode) => mode !== VolumeRenderingModes.OFF,
+      [this.volumeRenderingMode],
+    ),
+  );
 
   shaderControlState = this.registerDisposer(
     new ShaderControlState(
@@ -208,7 +220,7 @@ export class ImageUserLayer extends Base {
     this.sliceViewRenderScaleTarget.changed.add(
       this.specificationChanged.dispatch,
     );
-    this.volumeRendering.changed.add(this.specificationChanged.dispatch);
+    this.volumeRenderingMode.changed.add(this.specificationChanged.dispatch);
     this.volumeRenderingDepthSamplesTarget.changed.add(
       this.specificationChanged.dispatch,
     );
@@ -222,6 +234,7 @@ export class ImageUserLayer extends Base {
 
   activateDataSubsources(subsources: Iterable<LoadedDataSubsource>) {
     let dataType: DataType | undefined;
+    let defaultFragmentMain: string | undefined;
     for (const loadedSubsource of subsources) {
       if (this.addStaticAnnotations(loadedSubsource)) continue;
       const { subsourceEntry } = loadedSubsource;
@@ -238,6 +251,7 @@ export class ImageUserLayer extends Base {
         continue;
       }
       dataType = volume.dataType;
+      defaultFragmentMain ??= volume.defaultFragmentMain;
       loadedSubsource.activate((context) => {
         loadedSubsource.addRenderLayer(
           new ImageRenderLayer(volume, {
@@ -257,6 +271,7 @@ export class ImageUserLayer extends Base {
         const volumeRenderLayer = context.registerDisposer(
           new VolumeRenderingRenderLayer({
             gain: this.volumeRenderingGain,
+            mode: this.volumeRenderingMode,
             multiscaleSource: volume,
             shaderControlState: this.shaderControlState,
             shaderError: this.shaderError,
@@ -274,17 +289,32 @@ export class ImageUserLayer extends Base {
           loadedSubsource.messages.addChild(volumeRenderLayer.messages),
         );
         context.registerDisposer(
-          registerNested((context, volumeRendering) => {
-            if (!volumeRendering) return;
+          registerNested((context, volumeRenderingMode) => {
+            if (volumeRenderingMode === VolumeRenderingModes.OFF) return;
             context.registerDisposer(
               this.addRenderLayer(volumeRenderLayer.addRef()),
             );
-          }, this.volumeRendering),
+          }, this.volumeRenderingMode),
         );
         this.shaderError.changed.dispatch();
       });
     }
     this.dataType.value = dataType;
+    this.updateDefaultFragmentMain(
+      defaultFragmentMain ?? DEFAULT_FRAGMENT_MAIN,
+    );
+  }
+
+  // Replaces the default shader with the one specified by the data source.  The current shader is
+  // also replaced, unless it has been modified.
+  private updateDefaultFragmentMain(defaultFragmentMain: string) {
+    const { fragmentMain } = this;
+    if (fragmentMain.defaultValue === defaultFragmentMain) return;
+    const isDefault = fragmentMain.value === fragmentMain.defaultValue;
+    fragmentMain.defaultValue = defaultFragmentMain;
+    if (isDefault) {
+      fragmentMain.value = defaultFragmentMain;
+    }
   }
 
   restoreState(specification: any) {
@@ -303,7 +333,9 @@ export class ImageUserLayer extends Base {
     this.channelCoordinateSpace.restoreState(
       specification[CHANNEL_DIMENSIONS_JSON_KEY],
     );
-    this.volumeRendering.restoreState(specification[VOLUME_RENDERING_JSON_KEY]);
+    this.volumeRenderingMode.restoreState(
+      specification[VOLUME_RENDERING_JSON_KEY],
+    );
     this.volumeRenderingGain.restoreState(
       specification[VOLUME_RENDERING_GAIN_JSON_KEY],
     );
@@ -320,7 +352,7 @@ export class ImageUserLayer extends Base {
     x[CROSS_SECTION_RENDER_SCALE_JSON_KEY] =
       this.sliceViewRenderScaleTarget.toJSON();
     x[CHANNEL_DIMENSIONS_JSON_KEY] = this.channelCoordinateSpace.toJSON();
-    x[VOLUME_RENDERING_JSON_KEY] = this.volumeRendering.toJSON();
+    x[VOLUME_RENDERING_JSON_KEY] = this.volumeRenderingMode.toJSON();
     x[VOLUME_RENDERING_GAIN_JSON_KEY] = this.volumeRenderingGain.toJSON();
     x[VOLUME_RENDERING_DEPTH_SAMPLES_JSON_KEY] =
       this.volumeRenderingDepthSamplesTarget.toJSON();
@@ -458,12 +490,12 @@ const LAYER_CONTROLS: LayerControlDefinition<ImageUserLayer>[] = [
   {
     label: "Volume rendering (experimental)",
     toolJson: VOLUME_RENDERING_JSON_KEY,
-    ...checkboxLayerControl((layer) => layer.volumeRendering),
+    ...enumLayerControl((layer) => layer.volumeRenderingMode),
   },
   {
     label: "Gain (3D)",
     toolJson: VOLUME_RENDERING_GAIN_JSON_KEY,
-    isValid: (layer) => layer.volumeRendering,
+    isValid: (layer) => layer.volumeRenderingEnabled,
     ...rangeLayerControl((layer) => ({
       value: layer.volumeRenderingGain,
       options: { min: -10.0, max: 10.0, step: 0.1 },
@@ -472,7 +504,7 @@ const LAYER_CONTROLS: LayerControlDefinition<ImageUserLayer>[] = [
   {
     label: "Resolution (3D)",
     toolJson: VOLUME_RENDERING_DEPTH_SAMPLES_JSON_KEY,
-    isValid: (layer) => layer.volumeRendering,
+    isValid: (layer) => layer.volumeRenderingEnabled,
     ...renderScaleLayerControl(
       (layer) => ({
         histogram: layer.volumeRenderingChunkResolutionHistogram,
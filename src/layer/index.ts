@@ -12,10 +12,14 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { debounce, throttle } from "lodash-es";
 import type { AnnotationLayerState } from "#src/annotation/annotation_layer_state.js";
+import { AnnotationEditHistory } from "#src/annotation/edit_history.js";
 import type { AnnotationType } from "#src/annotation/index.js";
 import type { ChunkManager } from "#src/chunk_manager/frontend.js";
 import type {
@@ -84,6 +88,7 @@ import { LocalToolBinder, SelectedLegacyTool } from "#src/ui/tool.js";
 import { gatherUpdate } from "#src/util/array.js";
 import type { Borrowed, Owned } from "#src/util/disposable.js";
 import { invokeDisposers, RefCounted } from "#src/util/disposable.js";
+import type { vec3 } from "#src/util/geom.js";
 import {
   emptyToUndefined,
   parseArray,
@@ -136,6 +141,7 @@ export interface UserLayerSelectionState {
   annotationBuffer: Uint8Array | undefined;
   annotationIndex: number | undefined;
   annotationCount: number | undefined;
+  annotationPrimitiveCount: number | undefined;
   annotationSourceIndex: number | undefined;
   annotationSubsource: string | undefined;
   annotationSubsubsourceId: string | undefined;
@@ -202,6 +208,7 @@ export class UserLayer extends RefCounted {
     state.annotationBuffer = undefined;
     state.annotationIndex = undefined;
     state.annotationCount = undefined;
+    state.annotationPrimitiveCount = undefined;
     state.annotationSourceIndex = undefined;
     state.annotationSubsource = undefined;
     state.annotationPartIndex = undefined;
@@ -331,6 +338,7 @@ export class UserLayer extends RefCounted {
     dest.annotationBuffer = source.annotationBuffer;
     dest.annotationIndex = source.annotationIndex;
     dest.annotationCount = source.annotationCount;
+    dest.annotationPrimitiveCount = source.annotationPrimitiveCount;
     dest.annotationSourceIndex = source.annotationSourceIndex;
     dest.annotationSubsource = source.annotationSubsource;
     dest.annotationPartIndex = source.annotationPartIndex;
@@ -1082,6 +1090,7 @@ export interface PickState {
   pickedAnnotationBufferBaseOffset: number | undefined;
   pickedAnnotationIndex: number | undefined;
   pickedAnnotationCount: number | undefined;
+  pickedAnnotationPrimitiveCount: number | undefined;
   pickedAnnotationType: AnnotationType | undefined;
 }
 
@@ -1092,18 +1101,26 @@ export class MouseSelectionState implements PickState {
   unsnappedPosition: Float32Array = kEmptyFloat32Vec;
   active = false;
   displayDimensions: DisplayDimensions | undefined = undefined;
+  /**
+   * Unit normal vector of the cross section under the mouse, in the global coordinate space of the
+   * display dimensions, or `undefined` if the mouse is over a 3-d view.
+   */
+  planeNormal: vec3 | undefined = undefined;
   pickedRenderLayer: RenderLayer | null = null;
   pickedValue = new Uint64(0, 0);
   pickedOffset = 0;
   pickedAnnotationLayer: AnnotationLayerState | undefined = undefined;
   pickedAnnotationId: string | undefined = undefined;
   pickedAnnotationBuffer: ArrayBuffer | undefined = undefined;
-  // Base offset into `pickedAnnotationBuffer` of the `pickedAnnotationCount` serialized annotations
+  // Base offset into `pickedAnnotationBuffer` of the `pickedAnnotationCount` serialized primitives
   // of `pickedAnnotationType`.
   pickedAnnotationBufferBaseOffset: number | undefined = undefined;
-  // Index (out of a total of `pickedAnnotationCount`) of the picked annotation.
+  // Index (out of a total of `pickedAnnotationCount`) of the first primitive of the picked
+  // annotation.
   pickedAnnotationIndex: number | undefined = undefined;
   pickedAnnotationCount: number | undefined = undefined;
+  // Number of primitives of the picked annotation.
+  pickedAnnotationPrimitiveCount: number | undefined = undefined;
   pickedAnnotationType: AnnotationType | undefined = undefined;
   pageX: number;
   pageY: number;
@@ -2111,6 +2128,11 @@ export class TopLevelLayerListSpecification extends LayerListSpecification {
 
   layerSelectedValues = this.selectionState.layerSelectedValues;
 
+  /**
+   * Undo/redo history shared by all annotation layers.
+   */
+  annotationEditHistory = this.registerDisposer(new AnnotationEditHistory());
+
   constructor(
     public display: DisplayContext,
     public dataSourceProviderRegistry: DataSourceProviderRegistry,
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/layer/segmentation/style.css";
@@ -45,7 +48,10 @@ import {
   RenderScaleHistogram,
   trackableRenderScaleTarget,
 } from "#src/render_scale_statistics.js";
-import { SegmentColorHash } from "#src/segment_color.js";
+import {
+  assignSegmentStatedColorsWithOverrides,
+  SegmentColorHash,
+} from "#src/segment_color.js";
 import type {
   SegmentationColorGroupState,
   SegmentationDisplayState,
@@ -65,6 +71,12 @@ import type {
   SegmentPropertyMap,
 } from "#src/segmentation_display_state/property_map.js";
 import { getPreprocessedSegmentPropertyMap } from "#src/segmentation_display_state/property_map.js";
+import type { SegmentReviewState } from "#src/segmentation_display_state/review_state.js";
+import {
+  getSegmentReviewStateColors,
+  getSegmentReviewStorageKey,
+  SegmentReviewStates,
+} from "#src/segmentation_display_state/review_state.js";
 import { LocalSegmentationGraphSource } from "#src/segmentation_graph/local.js";
 import { VisibleSegmentEquivalencePolicy } from "#src/segmentation_graph/segment_id.js";
 import type {
@@ -82,6 +94,7 @@ import {
 } from "#src/skeleton/frontend.js";
 import { DataType, VolumeType } from "#src/sliceview/volume/base.js";
 import { MultiscaleVolumeChunkSource } from "#src/sliceview/volume/frontend.js";
+import { SegmentationLabelEdits } from "#src/sliceview/volume/label_edits.js";
 import { SegmentationRenderLayer } from "#src/sliceview/volume/segmentation_renderlayer.js";
 import { StatusMessage } from "#src/status.js";
 import { trackableAlphaValue } from "#src/trackable_alpha.js";
@@ -95,11 +108,13 @@ import {
   IndirectWatchableValue,
   makeCachedDerivedWatchableValue,
   makeCachedLazyDerivedWatchableValue,
+  makeDerivedWatchableValue,
   registerNestedSync,
   TrackableValue,
   WatchableValue,
 } from "#src/trackable_value.js";
 import { UserLayerWithAnnotationsMixin } from "#src/ui/annotations.js";
+import { registerSegmentLabelEditTools } from "#src/ui/segment_label_edit_tools.js";
 import { SegmentDisplayTab } from "#src/ui/segment_list.js";
 import { registerSegmentSelectTools } from "#src/ui/segment_select_tools.js";
 import { registerSegmentSplitMergeTools } from "#src/ui/segment_split_merge_tools.js";
@@ -428,12 +443,24 @@ class SegmentationUserLayerDisplayState implements SegmentationDisplayState {
         (group) => group.segmentColorHash,
       ),
     );
-    this.segmentStatedColors = this.layer.registerDisposer(
+    const statedColors = this.layer.registerDisposer(
       new IndirectTrackableValue(
         this.segmentationColorGroupState,
         (group) => group.segmentStatedColors,
       ),
     );
+    this.segmentStatedColors = this.layer.registerDisposer(
+      makeDerivedWatchableValue(
+        (colors, effectiveColors, colorByReviewState, propertyColors) =>
+          colorByReviewState || propertyColors.size !== 0
+            ? effectiveColors
+            : colors,
+        statedColors,
+        this.effectiveStatedColors,
+        this.colorByReviewState,
+        this.segmentPropertyColors,
+      ),
+    );
     this.tempSegmentStatedColors2d = this.layer.registerDisposer(
       new IndirectTrackableValue(
         this.segmentationColorGroupState,
@@ -492,6 +519,15 @@ class SegmentationUserLayerDisplayState implements SegmentationDisplayState {
   transparentPickEnabled = this.layer.pick;
   baseSegmentColoring = new TrackableBoolean(false, false);
   baseSegmentHighlighting = new TrackableBoolean(false, false);
+  colorByReviewState = new TrackableBoolean(false, false);
+  // Colors specified by the `"color"` string property of the segment property maps, such as the
+  // colors of OME-Zarr label images, used for segments without a stated color.  Maintained by
+  // `SegmentationUserLayer`, and not saved in the layer state.
+  segmentPropertyColors = this.layer.registerDisposer(new Uint64Map());
+  // Stated colors combined with `segmentPropertyColors` and, if `colorByReviewState` is enabled,
+  // overridden by the colors of reviewed segments.  Used in place of the stated colors if either
+  // applies.  Maintained by `SegmentationUserLayer`.
+  effectiveStatedColors = this.layer.registerDisposer(new Uint64Map());
   useTempSegmentStatedColors2d = this.layer.registerDisposer(
     SharedWatchableValue.make(this.layer.manager.rpc, false),
   );
@@ -599,6 +635,23 @@ export class SegmentationUserLayer extends Base {
     x === undefined ? undefined : Uint64.parseString(x),
   );
 
+  /**
+   * Voxel edits of the labels, which are not saved in the layer state.
+   */
+  labelEdits = this.registerDisposer(new SegmentationLabelEdits());
+
+  /**
+   * Review verdicts of segments, which are saved in local storage rather than the layer state.
+   */
+  segmentReviewStates = this.registerDisposer(new SegmentReviewStates());
+
+  /**
+   * If not `undefined`, only segments with the specified review state are listed.
+   */
+  segmentReviewStateFilter = new WatchableValue<SegmentReviewState | undefined>(
+    undefined,
+  );
+
   constructor(managedLayer: Borrowed<ManagedUserLayer>) {
     super(managedLayer);
     this.registerDisposer(
@@ -639,6 +692,9 @@ export class SegmentationUserLayer extends Base {
     this.displayState.baseSegmentColoring.changed.add(
       this.specificationChanged.dispatch,
     );
+    this.displayState.colorByReviewState.changed.add(
+      this.specificationChanged.dispatch,
+    );
     this.displayState.ignoreNullVisibleSet.changed.add(
       this.specificationChanged.dispatch,
     );
@@ -661,6 +717,32 @@ export class SegmentationUserLayer extends Base {
     this.displayState.linkedSegmentationGroup.changed.add(() =>
       this.updateDataSubsourceActivations(),
     );
+    this.labelEdits.changed.add(
+      this.manager.chunkManager.chunkQueueManager.visibleChunksChanged.dispatch,
+    );
+    const updateEffectiveStatedColors = () =>
+      this.updateEffectiveStatedColors();
+    this.registerDisposer(
+      registerNestedSync((context, group) => {
+        context.registerDisposer(
+          group.segmentStatedColors.changed.add(updateEffectiveStatedColors),
+        );
+        updateEffectiveStatedColors();
+      }, this.displayState.segmentationColorGroupState),
+    );
+    this.segmentReviewStates.changed.add(updateEffectiveStatedColors);
+    this.displayState.colorByReviewState.changed.add(
+      updateEffectiveStatedColors,
+    );
+    this.dataSourcesChanged.add(() => {
+      this.segmentReviewStates.setStorageKey(
+        getSegmentReviewStorageKey(
+          this.dataSources
+            .map((dataSource) => dataSource.spec.url)
+            .filter((url) => url !== localEquivalencesUrl),
+        ),
+      );
+    });
     this.tabs.add("rendering", {
       label: "Render",
       order: -100,
@@ -690,6 +772,20 @@ export class SegmentationUserLayer extends Base {
     return { volumeType: VolumeType.SEGMENTATION };
   }
 
+  private updateEffectiveStatedColors() {
+    const { displayState } = this;
+    const { colorByReviewState, segmentPropertyColors } = displayState;
+    if (!colorByReviewState.value && segmentPropertyColors.size === 0) return;
+    assignSegmentStatedColorsWithOverrides(
+      displayState.effectiveStatedColors,
+      displayState.segmentationColorGroupState.value.segmentStatedColors,
+      colorByReviewState.value
+        ? getSegmentReviewStateColors(this.segmentReviewStates)
+        : [],
+      segmentPropertyColors,
+    );
+  }
+
   readonly has2dLayer = this.registerDisposer(
     makeCachedLazyDerivedWatchableValue(
       (layers) => layers.some((x) => x instanceof SegmentationRenderLayer),
@@ -856,9 +952,45 @@ export class SegmentationUserLayer extends Base {
         this.manager.chunkManager,
         updatedSegmentPropertyMaps,
       );
+    this.updateSegmentPropertyColors(updatedSegmentPropertyMaps);
     this.displayState.originalSegmentationGroupState.graph.value = updatedGraph;
   }
 
+  // Sets the colors specified by the `"color"` string property of segment property maps, such as the
+  // colors of OME-Zarr label images.  These are looked up when rendering rather than copied into
+  // the stated colors, such that they are not saved in the layer state.
+  private updateSegmentPropertyColors(maps: SegmentPropertyMap[]) {
+    const { segmentPropertyColors } = this.displayState;
+    const colors: [Uint64, Uint64][] = [];
+    for (const { inlineProperties } of maps) {
+      if (inlineProperties === undefined) continue;
+      const property = inlineProperties.properties.find(
+        (p) => p.id === "color" && p.type === "string",
+      );
+      if (property === undefined) continue;
+      const { ids } = inlineProperties;
+      const values = property.values as string[];
+      for (let i = 0, numIds = values.length; i < numIds; ++i) {
+        let color: vec3;
+        try {
+          color = parseRGBColorSpecification(values[i]);
+        } catch {
+          continue;
+        }
+        colors.push([
+          new Uint64(ids[2 * i], ids[2 * i + 1]),
+          new Uint64(packColor(color)),
+        ]);
+      }
+    }
+    if (colors.length === 0 && segmentPropertyColors.size === 0) return;
+    segmentPropertyColors.clear();
+    for (const [id, color] of colors) {
+      segmentPropertyColors.set(id, color);
+    }
+    this.updateEffectiveStatedColors();
+  }
+
   getLegacyDataSourceSpecifications(
     sourceSpec: any,
     layerSpec: any,
@@ -950,6 +1082,9 @@ export class SegmentationUserLayer extends Base {
     this.displayState.baseSegmentColoring.restoreState(
       specification[json_keys.BASE_SEGMENT_COLORING_JSON_KEY],
     );
+    this.displayState.colorByReviewState.restoreState(
+      specification[json_keys.COLOR_BY_REVIEW_STATE_JSON_KEY],
+    );
     this.displayState.silhouetteRendering.restoreState(
       specification[json_keys.MESH_SILHOUETTE_RENDERING_JSON_KEY],
     );
@@ -1013,6 +1148,8 @@ export class SegmentationUserLayer extends Base {
       this.displayState.hoverHighlight.toJSON();
     x[json_keys.BASE_SEGMENT_COLORING_JSON_KEY] =
       this.displayState.baseSegmentColoring.toJSON();
+    x[json_keys.COLOR_BY_REVIEW_STATE_JSON_KEY] =
+      this.displayState.colorByReviewState.toJSON();
     x[json_keys.IGNORE_NULL_VISIBLE_SET_JSON_KEY] =
       this.displayState.ignoreNullVisibleSet.toJSON();
     x[json_keys.MESH_SILHOUETTE_RENDERING_JSON_KEY] =
@@ -1288,3 +1425,4 @@ registerLayerShaderControlsTool(
 
 registerSegmentSplitMergeTools(SegmentationUserLayer);
 registerSegmentSelectTools(SegmentationUserLayer);
+registerSegmentLabelEditTools(SegmentationUserLayer);
@@ -5,6 +5,7 @@ export const SATURATION_JSON_KEY = "saturation";
 export const HOVER_HIGHLIGHT_JSON_KEY = "hoverHighlight";
 export const HIDE_SEGMENT_ZERO_JSON_KEY = "hideSegmentZero";
 export const BASE_SEGMENT_COLORING_JSON_KEY = "baseSegmentColoring";
+export const COLOR_BY_REVIEW_STATE_JSON_KEY = "colorByReviewState";
 export const IGNORE_NULL_VISIBLE_SET_JSON_KEY = "ignoreNullVisibleSet";
 export const MESH_JSON_KEY = "mesh";
 export const SKELETONS_JSON_KEY = "skeletons";
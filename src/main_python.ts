@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 /**
@@ -23,6 +26,7 @@ import { debounce } from "lodash-es";
 import { CachingCredentialsManager } from "#src/credentials_provider/index.js";
 import { getDefaultDataSourceProvider } from "#src/datasource/default_provider.js";
 import { PythonDataSource } from "#src/datasource/python/frontend.js";
+import { AnnotationEventHandler } from "#src/python_integration/annotation_events.js";
 import {
   Client,
   ClientStateReceiver,
@@ -147,6 +151,9 @@ configState.add("screenshot", screenshotHandler.requestState);
 const volumeHandler = new VolumeRequestHandler(viewer);
 configState.add("volumeRequests", volumeHandler.requestState);
 
+const annotationEventHandler = new AnnotationEventHandler(viewer);
+configState.add("annotationEventLayers", annotationEventHandler.layers);
+
 let sharedState: Trackable | undefined = viewer.state;
 
 if (window.location.hash) {
@@ -218,6 +225,10 @@ screenshotHandler.sendStatisticsRequested.add((state) =>
   client.sendActionNotification("screenshotStatistics", state),
 );
 
+annotationEventHandler.sendEventsRequested.add((events) =>
+  client.sendAnnotationEvents(events),
+);
+
 volumeHandler.sendVolumeInfoResponseRequested.add((requestId, info) =>
   client.sendVolumeInfoNotification(requestId, info),
 );
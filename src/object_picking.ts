@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { MouseSelectionState } from "#src/layer/index.js";
@@ -110,6 +113,7 @@ export class PickIDManager {
     mouseState.pickedAnnotationBufferBaseOffset = undefined;
     mouseState.pickedAnnotationIndex = undefined;
     mouseState.pickedAnnotationCount = undefined;
+    mouseState.pickedAnnotationPrimitiveCount = undefined;
     mouseState.pickedAnnotationType = undefined;
     const data = this.pickData[lower];
     if (pickedRenderLayer !== null) {
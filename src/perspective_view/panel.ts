@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/noselect.css";
@@ -67,6 +70,7 @@ import type {
 import { WatchableMap } from "#src/util/watchable_map.js";
 import { withSharedVisibility } from "#src/visibility_priority/frontend.js";
 import {
+  DepthRenderbuffer,
   DepthStencilRenderbuffer,
   FramebufferConfiguration,
   makeTextureBuffers,
@@ -137,6 +141,25 @@ void emit(vec4 color, highp uint pickId) {
 `,
 ];
 
+/**
+ * Used for maximum/minimum intensity projections.  Each fragment specifies the depth of its sample
+ * separately from its `priority`, which is written as the fragment depth so that the depth test
+ * selects the sample with the lowest priority along each ray.
+ */
+export const glsl_perspectivePanelEmitProjection = `
+void emitProjection(vec4 color, float depth, float priority, highp uint pickId) {
+  out_color = color;
+  float zValue = 1.0 - depth;
+  out_z = vec4(zValue, zValue, zValue, 1.0);
+  float pickIdFloat = float(pickId);
+  out_pickId = vec4(pickIdFloat, pickIdFloat, pickIdFloat, 1.0);
+  gl_FragDepth = priority;
+}
+void emit(vec4 color, highp uint pickId) {
+  emitProjection(color, gl_FragCoord.z, gl_FragCoord.z, pickId);
+}
+`;
+
 export function perspectivePanelEmit(builder: ShaderBuilder) {
   builder.addOutputBuffer("vec4", "out_color", OffscreenTextures.COLOR);
   builder.addOutputBuffer("highp vec4", "out_z", OffscreenTextures.Z);
@@ -144,6 +167,13 @@ export function perspectivePanelEmit(builder: ShaderBuilder) {
   builder.addFragmentCode(glsl_perspectivePanelEmit);
 }
 
+export function perspectivePanelEmitProjection(builder: ShaderBuilder) {
+  builder.addOutputBuffer("vec4", "out_color", OffscreenTextures.COLOR);
+  builder.addOutputBuffer("highp vec4", "out_z", OffscreenTextures.Z);
+  builder.addOutputBuffer("highp vec4", "out_pickId", OffscreenTextures.PICK);
+  builder.addFragmentCode(glsl_perspectivePanelEmitProjection);
+}
+
 export function perspectivePanelEmitOIT(builder: ShaderBuilder) {
   builder.addOutputBuffer("vec4", "v4f_fragData0", 0);
   builder.addOutputBuffer("vec4", "v4f_fragData1", 1);
@@ -166,6 +196,22 @@ v4f_fragColor = vec4(accum.rgb / accum.a, revealage);
 `);
 }
 
+// Copies the depth and pick ID of a projection, and writes the depth to the depth buffer so that
+// closer transparent layers take precedence when picking.
+function defineProjectionPickCopyShader(builder: ShaderBuilder) {
+  builder.addOutputBuffer("highp vec4", "out_z", OffscreenTextures.Z);
+  builder.addOutputBuffer("highp vec4", "out_pickId", OffscreenTextures.PICK);
+  builder.setFragmentMain(`
+vec4 z = getValue0();
+if (z.r == 0.0) {
+  discard;
+}
+out_z = z;
+out_pickId = getValue1();
+gl_FragDepth = 1.0 - z.r;
+`);
+}
+
 const PerspectiveViewStateBase = withSharedVisibility(SharedObject);
 class PerspectiveViewState extends PerspectiveViewStateBase {
   sharedProjectionParameters: SharedProjectionParameters;
@@ -249,12 +295,19 @@ export class PerspectivePanel extends RenderedDataPanel {
     | FramebufferConfiguration<TextureBuffer>
     | undefined;
 
+  protected projectionConfiguration_:
+    | FramebufferConfiguration<TextureBuffer>
+    | undefined;
+
   protected offscreenCopyHelper = this.registerDisposer(
     OffscreenCopyHelper.get(this.gl),
   );
   protected transparencyCopyHelper = this.registerDisposer(
     OffscreenCopyHelper.get(this.gl, defineTransparencyCopyShader, 2),
   );
+  protected projectionPickCopyHelper = this.registerDisposer(
+    OffscreenCopyHelper.get(this.gl, defineProjectionPickCopyShader, 2),
+  );
 
   private sharedObject: PerspectiveViewState;
 
@@ -605,6 +658,7 @@ export class PerspectivePanel extends RenderedDataPanel {
       const pickValue = data[4 * pickDiameter * pickDiameter + 4 * offset];
       pickingData.pickIDs.setMouseState(mouseState, pickValue);
       mouseState.displayDimensions = displayDimensions;
+      mouseState.planeNormal = undefined;
       mouseState.setActive(true);
       return;
     }
@@ -646,6 +700,107 @@ export class PerspectivePanel extends RenderedDataPanel {
     return transparentConfiguration;
   }
 
+  private get projectionConfiguration() {
+    let projectionConfiguration = this.projectionConfiguration_;
+    if (projectionConfiguration === undefined) {
+      projectionConfiguration = this.projectionConfiguration_ =
+        this.registerDisposer(
+          new FramebufferConfiguration(this.gl, {
+            colorBuffers: [
+              new TextureBuffer(
+                this.gl,
+                WebGL2RenderingContext.RGBA8,
+                WebGL2RenderingContext.RGBA,
+                WebGL2RenderingContext.UNSIGNED_BYTE,
+              ),
+              new TextureBuffer(
+                this.gl,
+                WebGL2RenderingContext.R32F,
+                WebGL2RenderingContext.RED,
+                WebGL2RenderingContext.FLOAT,
+              ),
+              new TextureBuffer(
+                this.gl,
+                WebGL2RenderingContext.R32F,
+                WebGL2RenderingContext.RED,
+                WebGL2RenderingContext.FLOAT,
+              ),
+            ],
+            depthBuffer: new DepthRenderbuffer(this.gl),
+          }),
+        );
+    }
+    return projectionConfiguration;
+  }
+
+  /**
+   * Draws each maximum/minimum intensity projection layer into a separate framebuffer, where the
+   * depth buffer holds the priority of the projected sample, and then blends the result into the
+   * primary framebuffer.
+   */
+  private drawProjectionLayers(
+    renderContext: PerspectiveViewRenderContext,
+    width: number,
+    height: number,
+  ) {
+    const { gl, projectionConfiguration } = this;
+    const bindFramebuffer = renderContext.bindFramebuffer;
+    const bindProjectionFramebuffer = () => {
+      projectionConfiguration.bind(width, height);
+    };
+    for (const [renderLayer, attachment] of this.visibleLayerTracker
+      .visibleLayers) {
+      if (!renderLayer.isProjection) continue;
+      bindProjectionFramebuffer();
+      gl.disable(WebGL2RenderingContext.STENCIL_TEST);
+      gl.disable(WebGL2RenderingContext.BLEND);
+      gl.enable(WebGL2RenderingContext.DEPTH_TEST);
+      gl.depthMask(true);
+      gl.clearDepth(1.0);
+      gl.clear(WebGL2RenderingContext.DEPTH_BUFFER_BIT);
+      for (let i = 0; i < 3; ++i) {
+        gl.clearBufferfv(WebGL2RenderingContext.COLOR, i, kZeroVec4);
+      }
+      renderContext.bindFramebuffer = bindProjectionFramebuffer;
+      renderContext.emitter = perspectivePanelEmitProjection;
+      renderContext.emitColor = true;
+      renderContext.emitPickID = true;
+      renderContext.depthBufferTexture =
+        this.offscreenFramebuffer.colorBuffers[OffscreenTextures.Z].texture;
+      renderLayer.draw(renderContext, attachment);
+
+      // Blend the projected colors into the primary framebuffer.
+      bindFramebuffer();
+      gl.disable(WebGL2RenderingContext.DEPTH_TEST);
+      gl.enable(WebGL2RenderingContext.BLEND);
+      gl.blendFunc(
+        WebGL2RenderingContext.SRC_ALPHA,
+        WebGL2RenderingContext.ONE_MINUS_SRC_ALPHA,
+      );
+      gl.drawBuffers([gl.COLOR_ATTACHMENT0]);
+      this.offscreenCopyHelper.draw(
+        projectionConfiguration.colorBuffers[OffscreenTextures.COLOR].texture,
+      );
+      gl.disable(WebGL2RenderingContext.BLEND);
+
+      // Copy the depth and pick ID, except where an opaque layer was drawn.
+      gl.enable(WebGL2RenderingContext.DEPTH_TEST);
+      gl.enable(WebGL2RenderingContext.STENCIL_TEST);
+      gl.stencilFunc(
+        /*func=*/ WebGL2RenderingContext.EQUAL,
+        /*ref=*/ 0,
+        /*mask=*/ 1,
+      );
+      gl.drawBuffers([gl.NONE, gl.COLOR_ATTACHMENT1, gl.COLOR_ATTACHMENT2]);
+      this.projectionPickCopyHelper.draw(
+        projectionConfiguration.colorBuffers[OffscreenTextures.Z].texture,
+        projectionConfiguration.colorBuffers[OffscreenTextures.PICK].texture,
+      );
+      bindFramebuffer();
+    }
+    renderContext.bindFramebuffer = bindFramebuffer;
+  }
+
   drawWithPicking(pickingData: FramePickingData): boolean {
     if (!this.navigationState.valid) {
       return false;
@@ -852,8 +1007,11 @@ export class PerspectivePanel extends RenderedDataPanel {
         WebGL2RenderingContext.ONE_MINUS_SRC_ALPHA,
       );
       renderContext.emitPickID = false;
+      let hasProjection = false;
       for (const [renderLayer, attachment] of visibleLayers) {
-        if (renderLayer.isTransparent) {
+        if (renderLayer.isProjection) {
+          hasProjection = true;
+        } else if (renderLayer.isTransparent) {
           renderContext.depthBufferTexture =
             this.offscreenFramebuffer.colorBuffers[OffscreenTextures.Z].texture;
           renderLayer.draw(renderContext, attachment);
@@ -879,6 +1037,10 @@ export class PerspectivePanel extends RenderedDataPanel {
       renderContext.bindFramebuffer = bindFramebuffer;
       bindFramebuffer();
 
+      if (hasProjection) {
+        this.drawProjectionLayers(renderContext, width, height);
+      }
+
       // Do picking only rendering pass for transparent layers.
       gl.enable(WebGL2RenderingContext.STENCIL_TEST);
       gl.drawBuffers([gl.NONE, gl.COLOR_ATTACHMENT1, gl.COLOR_ATTACHMENT2]);
@@ -903,7 +1065,11 @@ export class PerspectivePanel extends RenderedDataPanel {
       );
       gl.stencilMask(2);
       for (const [renderLayer, attachment] of visibleLayers) {
-        if (!renderLayer.isTransparent || !renderLayer.transparentPickEnabled) {
+        if (
+          !renderLayer.isTransparent ||
+          !renderLayer.transparentPickEnabled ||
+          renderLayer.isProjection
+        ) {
           continue;
         }
         renderLayer.draw(renderContext, attachment);
@@ -921,7 +1087,11 @@ export class PerspectivePanel extends RenderedDataPanel {
       );
       gl.stencilMask(0);
       for (const [renderLayer, attachment] of visibleLayers) {
-        if (!renderLayer.isTransparent || renderLayer.transparentPickEnabled) {
+        if (
+          !renderLayer.isTransparent ||
+          renderLayer.transparentPickEnabled ||
+          renderLayer.isProjection
+        ) {
           continue;
         }
         renderLayer.draw(renderContext, attachment);
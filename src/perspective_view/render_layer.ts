@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { VisibleLayerInfo } from "#src/layer/index.js";
@@ -82,6 +85,14 @@ export class PerspectiveViewRenderLayer<
   get transparentPickEnabled() {
     return true;
   }
+
+  /**
+   * Indicates that the layer renders a maximum or minimum intensity projection, which the
+   * perspective panel draws in a separate pass after the other transparent layers.
+   */
+  get isProjection() {
+    return false;
+  }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -0,0 +1,161 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Streams annotation edits made in the viewer to the Python server.
+ *
+ * Only layers subscribed by the Python server are watched.  Events are sent in batches, with
+ * consecutive updates of the same annotation (e.g. while it is being dragged) coalesced.
+ */
+
+import { debounce, throttle } from "lodash-es";
+import type { AnnotationLayerState } from "#src/annotation/annotation_layer_state.js";
+import type { Annotation, AnnotationId } from "#src/annotation/index.js";
+import { annotationToJson } from "#src/annotation/index.js";
+import type { UserLayer } from "#src/layer/index.js";
+import { TrackableValue } from "#src/trackable_value.js";
+import type { UserLayerWithAnnotations } from "#src/ui/annotations.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { verifyStringArray } from "#src/util/json.js";
+import { Signal } from "#src/util/signal.js";
+import type { Viewer } from "#src/viewer.js";
+
+const SEND_INTERVAL_MILLISECONDS = 100;
+
+export type AnnotationEventType = "add" | "update" | "delete" | "commit";
+
+export interface AnnotationEvent {
+  type: AnnotationEventType;
+  // Name of the layer.
+  layer: string;
+  // Index of the data source within the layer.
+  sourceIndex: number;
+  subsourceId: string;
+  id: AnnotationId;
+  // JSON representation of the annotation, only specified for "add" and "update" events.
+  annotation?: any;
+}
+
+export class AnnotationEventHandler extends RefCounted {
+  /**
+   * Names of the layers for which annotation events are sent.
+   */
+  layers = new TrackableValue(
+    new Set<string>(),
+    (x) => new Set(verifyStringArray(x)),
+  );
+
+  sendEventsRequested = new Signal<(events: AnnotationEvent[]) => void>();
+
+  private pendingEvents: AnnotationEvent[] = [];
+  private sourceDisposers: (() => void)[] = [];
+  private debouncedUpdateSources = this.registerCancellable(
+    debounce(() => this.updateSources(), 0),
+  );
+  private throttledSendEvents = this.registerCancellable(
+    throttle(() => this.sendEvents(), SEND_INTERVAL_MILLISECONDS, {
+      leading: false,
+    }),
+  );
+
+  constructor(public viewer: Viewer) {
+    super();
+    this.registerDisposer(this.layers.changed.add(this.debouncedUpdateSources));
+    this.registerDisposer(
+      viewer.layerManager.layersChanged.add(this.debouncedUpdateSources),
+    );
+  }
+
+  disposed() {
+    this.unregisterSources();
+    super.disposed();
+  }
+
+  private unregisterSources() {
+    for (const disposer of this.sourceDisposers) disposer();
+    this.sourceDisposers.length = 0;
+  }
+
+  private updateSources() {
+    this.unregisterSources();
+    const { layerManager } = this.viewer;
+    for (const name of this.layers.value) {
+      const userLayer = layerManager.getLayerByName(name)?.layer;
+      if (userLayer == null || !("annotationStates" in userLayer)) continue;
+      const { annotationStates } = userLayer as UserLayerWithAnnotations;
+      this.sourceDisposers.push(
+        annotationStates.changed.add(this.debouncedUpdateSources),
+      );
+      for (const state of annotationStates.states) {
+        this.registerSource(name, userLayer, state);
+      }
+    }
+  }
+
+  private registerSource(
+    layer: string,
+    userLayer: UserLayer,
+    state: AnnotationLayerState,
+  ) {
+    const { source, subsourceId } = state;
+    const sourceIndex = userLayer.dataSources.indexOf(state.dataSource);
+    const addEvent = (
+      type: AnnotationEventType,
+      id: AnnotationId,
+      annotation?: Annotation,
+    ) => {
+      const { pendingEvents } = this;
+      const event: AnnotationEvent = {
+        type,
+        layer,
+        sourceIndex,
+        subsourceId,
+        id,
+        annotation:
+          annotation === undefined
+            ? undefined
+            : annotationToJson(annotation, source),
+      };
+      const last = pendingEvents[pendingEvents.length - 1];
+      if (
+        type === "update" &&
+        last?.type === "update" &&
+        last.layer === layer &&
+        last.sourceIndex === sourceIndex &&
+        last.subsourceId === subsourceId &&
+        last.id === id
+      ) {
+        pendingEvents[pendingEvents.length - 1] = event;
+      } else {
+        pendingEvents.push(event);
+      }
+      this.throttledSendEvents();
+    };
+    const { sourceDisposers } = this;
+    sourceDisposers.push(
+      source.childAdded.add((annotation) =>
+        addEvent("add", annotation.id, annotation),
+      ),
+    );
+    sourceDisposers.push(
+      source.childUpdated.add((annotation) =>
+        addEvent("update", annotation.id, annotation),
+      ),
+    );
+    sourceDisposers.push(
+      source.childDeleted.add((id) => addEvent("delete", id)),
+    );
+    sourceDisposers.push(
+      source.childCommitted.add((id) => addEvent("commit", id)),
+    );
+  }
+
+  private sendEvents() {
+    const { pendingEvents } = this;
+    if (pendingEvents.length === 0) return;
+    this.pendingEvents = [];
+    this.sendEventsRequested.dispatch(pendingEvents);
+  }
+}
@@ -12,9 +12,13 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { debounce, throttle } from "lodash-es";
+import type { AnnotationEvent } from "#src/python_integration/annotation_events.js";
 import { StatusMessage } from "#src/status.js";
 import { RefCounted } from "#src/util/disposable.js";
 import { HttpError } from "#src/util/http_request.js";
@@ -38,6 +42,7 @@ function getServerUrls() {
     events: `${prefix}/events/${token}`,
     state: `${prefix}/state/${token}`,
     credentials: `${prefix}/credentials/${token}`,
+    annotationEvents: `${prefix}/annotation_events/${token}`,
   };
 }
 
@@ -234,6 +239,71 @@ export class Client {
     });
   }
 
+  private annotationEventQueue: AnnotationEvent[][] = [];
+  private annotationEventSequence = 0;
+  private sendingAnnotationEvents = false;
+
+  /**
+   * Queues a batch of annotation events to be sent to the server.
+   *
+   * Batches are sent one at a time, in order, each with a sequence number that allows the server
+   * to ignore batches it has already received.  Failed requests are retried with exponential
+   * backoff until they succeed.
+   */
+  sendAnnotationEvents(events: AnnotationEvent[]) {
+    this.annotationEventQueue.push(events);
+    if (!this.sendingAnnotationEvents) {
+      this.sendQueuedAnnotationEvents();
+    }
+  }
+
+  private async sendQueuedAnnotationEvents() {
+    this.sendingAnnotationEvents = true;
+    const queue = this.annotationEventQueue;
+    let numFailures = 0;
+    let status: StatusMessage | undefined;
+    try {
+      while (queue.length > 0) {
+        try {
+          const response = await fetch(this.urls.annotationEvents, {
+            method: "POST",
+            body: JSON.stringify({
+              c: this.clientId,
+              s: this.annotationEventSequence,
+              e: queue[0],
+            }),
+          });
+          if (!response.ok) {
+            throw HttpError.fromResponse(response);
+          }
+        } catch (e) {
+          console.log("Failed to send annotation events", e);
+          const retryDelay = Math.min(
+            30000,
+            100 * 2 ** Math.min(20, numFailures),
+          );
+          ++numFailures;
+          status ??= new StatusMessage(true);
+          status.setText(
+            "Failed to send annotation events to Python server.  " +
+              `Retrying in ${Math.ceil(retryDelay / 1000)} seconds.`,
+          );
+          status.setVisible(true);
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          continue;
+        }
+        queue.shift();
+        ++this.annotationEventSequence;
+        numFailures = 0;
+        status?.dispose();
+        status = undefined;
+      }
+    } finally {
+      status?.dispose();
+      this.sendingAnnotationEvents = false;
+    }
+  }
+
   sendVolumeInfoNotification(requestId: string, info: any) {
     fetch(`${this.urls.volumeInfo}/${requestId}/info`, {
       method: "POST",
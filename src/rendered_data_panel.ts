@@ -12,12 +12,30 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/rendered_data_panel.css";
 import "#src/noselect.css";
 
-import type { Annotation } from "#src/annotation/index.js";
+import type { AnnotationLayerState } from "#src/annotation/annotation_layer_state.js";
+import type {
+  Annotation,
+  AnnotationId,
+  LineString,
+} from "#src/annotation/index.js";
+import {
+  AnnotationType,
+  deleteLineStringVertex,
+  getLoadedAnnotationReference,
+  getLineStringVertices,
+  insertLineStringVertex,
+  joinLineStrings,
+  splitLineString,
+} from "#src/annotation/index.js";
+import { getLineStringPickedPart } from "#src/annotation/linestring_picking.js";
 import { getAnnotationTypeRenderHandler } from "#src/annotation/type_handler.js";
 import type { DisplayContext } from "#src/display_context.js";
 import { RenderedPanel } from "#src/display_context.js";
@@ -25,8 +43,10 @@ import type { NavigationState } from "#src/navigation_state.js";
 import { PickIDManager } from "#src/object_picking.js";
 import {
   displayToLayerCoordinates,
+  getChunkPositionFromCombinedGlobalLocalPositions,
   layerToDisplayCoordinates,
 } from "#src/render_coordinate_transform.js";
+import { StatusMessage } from "#src/status.js";
 import { AutomaticallyFocusedElement } from "#src/util/automatic_focus.js";
 import type { Borrowed } from "#src/util/disposable.js";
 import type {
@@ -34,7 +54,14 @@ import type {
   EventActionMap,
 } from "#src/util/event_action_map.js";
 import { registerActionListener } from "#src/util/event_action_map.js";
-import { AXES_NAMES, kAxes, mat4, vec2, vec3 } from "#src/util/geom.js";
+import {
+  AXES_NAMES,
+  kAxes,
+  mat4,
+  projectPointToLineSegment,
+  vec2,
+  vec3,
+} from "#src/util/geom.js";
 import { KeyboardEventBinder } from "#src/util/keyboard_bindings.js";
 import * as matrix from "#src/util/matrix.js";
 import { MouseEventBinder } from "#src/util/mouse_bindings.js";
@@ -730,6 +757,143 @@ export abstract class RenderedDataPanel extends RenderedPanel {
       }
     });
 
+    registerActionListener(element, "insert-annotation-vertex", () => {
+      const picked = this.getPickedLineString();
+      if (picked === undefined) return;
+      const { annotationLayer, reference, annotation, part } = picked;
+      try {
+        if (part.isVertex) return;
+        const position =
+          this.getMousePositionInAnnotationCoordinates(annotationLayer);
+        if (position === undefined) return;
+        const vertices = getLineStringVertices(annotation.points);
+        const { vertexIndex } = part;
+        if (vertexIndex + 1 < vertices.length) {
+          projectPointToLineSegment(
+            position,
+            vertices[vertexIndex],
+            vertices[vertexIndex + 1],
+            position,
+          );
+        }
+        annotationLayer.source.update(
+          reference,
+          insertLineStringVertex(annotation, vertexIndex + 1, position),
+        );
+        annotationLayer.source.commit(reference);
+      } finally {
+        reference.dispose();
+      }
+    });
+
+    registerActionListener(element, "delete-annotation-vertex", () => {
+      const picked = this.getPickedLineString();
+      if (picked === undefined) return;
+      const { annotationLayer, reference, annotation, part } = picked;
+      try {
+        if (!part.isVertex) return;
+        const newAnnotation = deleteLineStringVertex(
+          annotation,
+          part.vertexIndex,
+        );
+        if (newAnnotation === undefined) {
+          StatusMessage.showTemporaryMessage(
+            "Cannot delete the only vertex of a line string.",
+          );
+          return;
+        }
+        annotationLayer.source.update(reference, newAnnotation);
+        annotationLayer.source.commit(reference);
+      } finally {
+        reference.dispose();
+      }
+    });
+
+    registerActionListener(element, "split-annotation", () => {
+      const picked = this.getPickedLineString();
+      if (picked === undefined) return;
+      const { annotationLayer, reference, annotation, part } = picked;
+      try {
+        if (!part.isVertex) return;
+        const parts = splitLineString(annotation, part.vertexIndex);
+        if (parts === undefined) {
+          StatusMessage.showTemporaryMessage(
+            "A line string can only be split at an interior vertex.",
+          );
+          return;
+        }
+        const { source } = annotationLayer;
+        source.update(reference, parts[0]);
+        source.commit(reference);
+        source.add(parts[1], /*commit=*/ true).dispose();
+      } finally {
+        reference.dispose();
+      }
+    });
+
+    registerActionListener(element, "join-annotations", async () => {
+      const picked = this.getPickedLineString();
+      if (picked === undefined) return;
+      const { annotationLayer, reference, annotation, part } = picked;
+      try {
+        if (!part.isVertex) return;
+        const vertices = getLineStringVertices(annotation.points);
+        const { vertexIndex } = part;
+        if (vertexIndex !== 0 && vertexIndex !== vertices.length - 1) {
+          StatusMessage.showTemporaryMessage(
+            "Line strings can only be joined at an endpoint.",
+          );
+          return;
+        }
+        const { source } = annotationLayer;
+        let otherId: AnnotationId | undefined;
+        for (const other of source) {
+          if (
+            other.type === AnnotationType.LINE_STRING &&
+            other.id !== annotation.id &&
+            joinLineStrings(annotation, other) !== undefined
+          ) {
+            otherId = other.id;
+            break;
+          }
+        }
+        if (otherId === undefined) {
+          StatusMessage.showTemporaryMessage(
+            "No other loaded line string shares this endpoint.",
+          );
+          return;
+        }
+        const otherReference = await getLoadedAnnotationReference(
+          source,
+          otherId,
+        );
+        if (otherReference === undefined) return;
+        try {
+          // Either line string may have been modified while the other was retrieved.
+          const current = reference.value;
+          const other = otherReference.value;
+          const joined =
+            current?.type === AnnotationType.LINE_STRING &&
+            other?.type === AnnotationType.LINE_STRING
+              ? joinLineStrings(current as LineString, other as LineString)
+              : undefined;
+          if (joined === undefined) {
+            StatusMessage.showTemporaryMessage(
+              "The line strings no longer share an endpoint.",
+            );
+            return;
+          }
+          source.update(reference, joined);
+          source.commit(reference);
+          source.delete(otherReference);
+        } finally {
+          otherReference.dispose();
+        }
+      } finally {
+        reference.dispose();
+      }
+    });
+
     registerActionListener(
       element,
       "zoom-via-touchpinch",
@@ -744,6 +908,60 @@ export abstract class RenderedDataPanel extends RenderedPanel {
     );
   }
 
+  private getMousePositionInAnnotationCoordinates(
+    annotationLayer: AnnotationLayerState,
+  ) {
+    const chunkTransform = annotationLayer.chunkTransform.value;
+    if (chunkTransform.error !== undefined) return undefined;
+    const position = new Float32Array(
+      chunkTransform.modelTransform.unpaddedRank,
+    );
+    if (
+      !getChunkPositionFromCombinedGlobalLocalPositions(
+        position,
+        this.viewer.mouseState.unsnappedPosition,
+        annotationLayer.localPosition.value,
+        chunkTransform.layerRank,
+        chunkTransform.combinedGlobalLocalToChunkTransform,
+      )
+    ) {
+      return undefined;
+    }
+    return position;
+  }
+
+  /**
+   * Returns the line string under the mouse, if it may be edited.  The caller is responsible for
+   * disposing of the returned reference.
+   */
+  private getPickedLineString() {
+    const { mouseState } = this.viewer;
+    const id = mouseState.pickedAnnotationId;
+    const annotationLayer = mouseState.pickedAnnotationLayer;
+    if (
+      annotationLayer === undefined ||
+      annotationLayer.source.readonly ||
+      id === undefined
+    ) {
+      return undefined;
+    }
+    const reference = annotationLayer.source.getReference(id);
+    const annotation = reference.value;
+    if (!annotation || annotation.type !== AnnotationType.LINE_STRING) {
+      reference.dispose();
+      return undefined;
+    }
+    return {
+      annotationLayer,
+      reference,
+      annotation: annotation as LineString,
+      part: getLineStringPickedPart(
+        annotation as LineString,
+        mouseState.pickedOffset,
+      ),
+    };
+  }
+
   abstract translateDataPointByViewportPixels(
     out: vec3,
     orig: vec3,
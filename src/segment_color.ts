@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { hashCombine } from "#src/gpu_hash/hash_function.js";
@@ -21,11 +24,14 @@ import {
   glsl_hashCombine,
   HashMapShaderManager,
 } from "#src/gpu_hash/shader.js";
+import type { Uint64Map } from "#src/uint64_map.js";
+import { packColor } from "#src/util/color.js";
 import { hsvToRgb } from "#src/util/colorspace.js";
+import type { vec3 } from "#src/util/geom.js";
 import { getRandomUint32 } from "#src/util/random.js";
 import { NullarySignal } from "#src/util/signal.js";
 import type { Trackable } from "#src/util/trackable.js";
-import type { Uint64 } from "#src/util/uint64.js";
+import { Uint64 } from "#src/util/uint64.js";
 import type { GL } from "#src/webgl/context.js";
 import type { ShaderBuilder, ShaderProgram } from "#src/webgl/shader.js";
 import { glsl_hsvToRgb, glsl_uint64 } from "#src/webgl/shader_lib.js";
@@ -178,3 +184,30 @@ bool ${this.getFunctionName}(uint64_t x, out vec4 value) {
     this.hashMapShaderManager.disable(gl, shader);
   }
 }
+
+/**
+ * Assigns to `output` the colors of `statedColors`, with the colors of the segments in `overrides`
+ * replaced.  This allows a color mode, such as coloring by review state, to take precedence over
+ * the stated colors without modifying them.  Segments without a stated color are assigned their
+ * color in `defaultColors`, if any.
+ */
+export function assignSegmentStatedColorsWithOverrides(
+  output: Uint64Map,
+  statedColors: Uint64Map,
+  overrides: Iterable<[Uint64, vec3]>,
+  defaultColors?: Uint64Map,
+) {
+  if (defaultColors === undefined) {
+    output.assignFrom(statedColors);
+  } else {
+    output.assignFrom(defaultColors);
+    for (const [key, value] of statedColors.unsafeEntries()) {
+      output.set(key, value);
+    }
+  }
+  const color = new Uint64();
+  for (const [id, rgb] of overrides) {
+    color.low = packColor(rgb);
+    output.set(id, color);
+  }
+}
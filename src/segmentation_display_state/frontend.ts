@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { LayerChunkProgressInfo } from "#src/chunk_manager/base.js";
@@ -878,6 +881,9 @@ export function registerCallbackWhenSegmentationDisplayStateChanged(
     }, displayState.segmentationColorGroupState),
   );
   context.registerDisposer(displayState.saturation.changed.add(callback));
+  context.registerDisposer(
+    displayState.segmentStatedColors.changed.add(callback),
+  );
   context.registerDisposer(
     displayState.segmentSelectionState.changed.add(callback),
   );
@@ -953,10 +959,10 @@ export function getBaseObjectColor(
     return color;
   }
   const colorGroupState = displayState.segmentationColorGroupState.value;
-  const { segmentStatedColors } = colorGroupState;
+  const segmentStatedColors = displayState.segmentStatedColors.value;
   if (
     segmentStatedColors.size !== 0 &&
-    colorGroupState.segmentStatedColors.get(objectId, tempStatedColor)
+    segmentStatedColors.get(objectId, tempStatedColor)
   ) {
     // If displayState maps the ID to a color, use it
     color[0] = (tempStatedColor.low & 0x0000ff) / 255.0;
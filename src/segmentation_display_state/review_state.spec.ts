@@ -0,0 +1,228 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for segment review states.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import type { QueryResult } from "#src/segmentation_display_state/property_map.js";
+import {
+  filterQueryResultByReviewState,
+  parseSegmentReviewStatesCsv,
+  SegmentReviewState,
+  SegmentReviewStates,
+} from "#src/segmentation_display_state/review_state.js";
+import { StatusMessage } from "#src/status.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+const u64 = (x: number) => new Uint64(x);
+
+describe("SegmentReviewStates", () => {
+  it("tracks, counts and exports review states", () => {
+    const states = new SegmentReviewStates();
+    const changed = vi.fn();
+    states.changed.add(changed);
+    states.set(u64(10), SegmentReviewState.MERGE_ERROR);
+    states.set(u64(2), SegmentReviewState.CORRECT);
+    states.set(u64(2), SegmentReviewState.CORRECT);
+    states.set(u64(5), SegmentReviewState.CORRECT);
+    states.set(u64(5), SegmentReviewState.UNREVIEWED);
+    expect(changed).toHaveBeenCalledTimes(4);
+    expect(states.size).toBe(2);
+    expect(states.get(u64(5))).toBe(SegmentReviewState.UNREVIEWED);
+    expect(states.countStates()).toEqual([0, 1, 1, 0, 0]);
+    expect(states.toJSON()).toEqual({ "2": "correct", "10": "merge_error" });
+    expect(states.toCsv()).toBe(
+      "segment_id,review_state\r\n2,correct\r\n10,merge_error\r\n",
+    );
+
+    const restored = new SegmentReviewStates();
+    restored.restoreState(states.toJSON());
+    expect(restored.toJSON()).toEqual(states.toJSON());
+  });
+
+  it("rejects invalid JSON without modifying the states", () => {
+    const states = new SegmentReviewStates();
+    states.set(u64(1), SegmentReviewState.SPLIT_ERROR);
+    expect(() => states.restoreState({ "2": "wrong" })).toThrow(
+      /"2": Invalid segment review state "wrong"/,
+    );
+    expect(states.get(u64(1))).toBe(SegmentReviewState.SPLIT_ERROR);
+  });
+});
+
+describe("SegmentReviewStates storage", () => {
+  function stubLocalStorage(items: Map<string, string>) {
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+      removeItem: (key: string) => {
+        items.delete(key);
+      },
+    });
+    return vi
+      .spyOn(StatusMessage, "showTemporaryMessage")
+      .mockReturnValue(undefined as any);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("saves and restores states under the storage key", () => {
+    const items = new Map<string, string>();
+    stubLocalStorage(items);
+    const states = new SegmentReviewStates();
+    states.setStorageKey("a");
+    states.set(u64(3), SegmentReviewState.CORRECT);
+    states.set(u64(4), SegmentReviewState.CORRECT);
+    // Saving is delayed.
+    expect(items.has("a")).toBe(false);
+    vi.runAllTimers();
+    expect(JSON.parse(items.get("a")!)).toEqual({
+      "3": "correct",
+      "4": "correct",
+    });
+
+    states.set(u64(4), SegmentReviewState.UNREVIEWED);
+    // Pending modifications are saved when the storage key changes.
+    states.setStorageKey("b");
+    expect(JSON.parse(items.get("a")!)).toEqual({ "3": "correct" });
+    expect(states.size).toBe(0);
+    states.setStorageKey("a");
+    expect(states.get(u64(3))).toBe(SegmentReviewState.CORRECT);
+    states.clear();
+    vi.runAllTimers();
+    expect(items.has("a")).toBe(false);
+    states.dispose();
+  });
+
+  it("shares states between instances with the same storage key", () => {
+    const items = new Map<string, string>();
+    stubLocalStorage(items);
+    const a = new SegmentReviewStates();
+    const b = new SegmentReviewStates();
+    a.setStorageKey("a");
+    b.setStorageKey("a");
+    let bChanged = 0;
+    b.changed.add(() => ++bChanged);
+    a.set(u64(1), SegmentReviewState.CORRECT);
+    expect(bChanged).toBe(1);
+    expect(b.get(u64(1))).toBe(SegmentReviewState.CORRECT);
+    b.set(u64(2), SegmentReviewState.MERGE_ERROR);
+    expect(a.get(u64(2))).toBe(SegmentReviewState.MERGE_ERROR);
+    vi.runAllTimers();
+    expect(JSON.parse(items.get("a")!)).toEqual({
+      "1": "correct",
+      "2": "merge_error",
+    });
+
+    // Pending modifications are saved when an instance is disposed.
+    a.set(u64(1), SegmentReviewState.UNREVIEWED);
+    a.dispose();
+    expect(JSON.parse(items.get("a")!)).toEqual({ "2": "merge_error" });
+    expect(b.size).toBe(1);
+    b.dispose();
+  });
+
+  it("reports and ignores invalid saved states", () => {
+    const items = new Map([["a", '{"1": "wrong"}']]);
+    const showMessage = stubLocalStorage(items);
+    const states = new SegmentReviewStates();
+    states.setStorageKey("a");
+    expect(states.size).toBe(0);
+    expect(showMessage).toHaveBeenCalledTimes(1);
+    expect(showMessage.mock.calls[0][0]).toMatch(/Ignoring invalid/);
+    states.dispose();
+  });
+
+  it("reports a failure to save once until a save succeeds", () => {
+    const items = new Map<string, string>();
+    const showMessage = stubLocalStorage(items);
+    const states = new SegmentReviewStates();
+    states.setStorageKey("a");
+    const setItem = vi.spyOn(localStorage, "setItem").mockImplementation(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    states.set(u64(1), SegmentReviewState.CORRECT);
+    vi.runAllTimers();
+    states.set(u64(2), SegmentReviewState.CORRECT);
+    vi.runAllTimers();
+    expect(showMessage).toHaveBeenCalledTimes(1);
+    expect(showMessage.mock.calls[0][0]).toMatch(/could not be saved/);
+
+    setItem.mockRestore();
+    states.set(u64(3), SegmentReviewState.CORRECT);
+    vi.runAllTimers();
+    expect(JSON.parse(items.get("a")!)).toEqual({
+      "1": "correct",
+      "2": "correct",
+      "3": "correct",
+    });
+    vi.spyOn(localStorage, "setItem").mockImplementation(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    states.set(u64(4), SegmentReviewState.CORRECT);
+    vi.runAllTimers();
+    expect(showMessage).toHaveBeenCalledTimes(2);
+    states.dispose();
+  });
+});
+
+describe("parseSegmentReviewStatesCsv", () => {
+  it("reads the review state columns in any order", () => {
+    expect(
+      parseSegmentReviewStatesCsv(
+        "score,Review_State,segment_id\n0.5,false_positive,7\n\n1,correct,8\n",
+      ).map(([id, state]) => [id.toString(), state]),
+    ).toEqual([
+      ["7", SegmentReviewState.FALSE_POSITIVE],
+      ["8", SegmentReviewState.CORRECT],
+    ]);
+  });
+
+  it("reports the row of invalid values", () => {
+    expect(() =>
+      parseSegmentReviewStatesCsv(
+        "segment_id,review_state\n1,correct\nx,correct",
+      ),
+    ).toThrow(/row 3: Invalid segment id/);
+    expect(() => parseSegmentReviewStatesCsv("segment_id\n1")).toThrow(
+      /Missing "review_state" column/,
+    );
+  });
+});
+
+describe("filterQueryResultByReviewState", () => {
+  it("filters explicit ids", () => {
+    const states = new SegmentReviewStates();
+    states.set(u64(2), SegmentReviewState.CORRECT);
+    const queryResult = {
+      explicitIds: [u64(1), u64(2), u64(3)],
+      count: 3,
+      total: 3,
+    } as QueryResult;
+    expect(
+      filterQueryResultByReviewState(undefined, queryResult, states, undefined),
+    ).toBe(queryResult);
+    expect(
+      filterQueryResultByReviewState(
+        undefined,
+        queryResult,
+        states,
+        SegmentReviewState.UNREVIEWED,
+      ),
+    ).toMatchObject({ explicitIds: [u64(1), u64(3)], count: 2 });
+  });
+});
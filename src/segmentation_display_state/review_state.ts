@@ -0,0 +1,446 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Per-segment review verdicts of segmentation layers.
+ *
+ * Review states are not saved in the layer state, since they may cover thousands of segments.
+ * Instead, they are saved in local storage keyed by the data source URLs of the layer, and can be
+ * exported and imported as CSV or JSON files keyed by segment id.  Layers with the same storage key,
+ * in this and other tabs, share the same review states.
+ */
+
+import { debounce } from "lodash-es";
+import { formatCsv, parseCsv } from "#src/annotation/csv.js";
+import type {
+  IndicesArray,
+  PreprocessedSegmentPropertyMap,
+  QueryResult,
+} from "#src/segmentation_display_state/property_map.js";
+import { StatusMessage } from "#src/status.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { vec3 } from "#src/util/geom.js";
+import { verifyObjectAsMap, verifyString } from "#src/util/json.js";
+import { NullarySignal } from "#src/util/signal.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+export enum SegmentReviewState {
+  UNREVIEWED = 0,
+  CORRECT = 1,
+  MERGE_ERROR = 2,
+  SPLIT_ERROR = 3,
+  FALSE_POSITIVE = 4,
+}
+
+export const segmentReviewStateValues = [
+  SegmentReviewState.UNREVIEWED,
+  SegmentReviewState.CORRECT,
+  SegmentReviewState.MERGE_ERROR,
+  SegmentReviewState.SPLIT_ERROR,
+  SegmentReviewState.FALSE_POSITIVE,
+];
+
+/**
+ * Identifiers used in exported files, indexed by `SegmentReviewState`.
+ */
+export const segmentReviewStateLabels = [
+  "unreviewed",
+  "correct",
+  "merge_error",
+  "split_error",
+  "false_positive",
+];
+
+/**
+ * Names shown in the user interface, indexed by `SegmentReviewState`.
+ */
+export const segmentReviewStateDisplayNames = [
+  "Unreviewed",
+  "Correct",
+  "Merge error",
+  "Split error",
+  "False positive",
+];
+
+/**
+ * Colors of reviewed segments when coloring by review state, indexed by `SegmentReviewState`.
+ * Unreviewed segments keep their usual color.
+ */
+export const segmentReviewStateColors: (vec3 | undefined)[] = [
+  undefined,
+  vec3.fromValues(0.17, 0.63, 0.17),
+  vec3.fromValues(0.84, 0.15, 0.16),
+  vec3.fromValues(1.0, 0.5, 0.05),
+  vec3.fromValues(0.58, 0.4, 0.74),
+];
+
+export const SEGMENT_REVIEW_CSV_HEADER = ["segment_id", "review_state"];
+
+export function parseSegmentReviewState(label: string): SegmentReviewState {
+  const state = segmentReviewStateLabels.indexOf(label.trim().toLowerCase());
+  if (state === -1) {
+    throw new Error(
+      `Invalid segment review state ${JSON.stringify(label)}, expected one of ` +
+        segmentReviewStateLabels.map((x) => JSON.stringify(x)).join(", "),
+    );
+  }
+  return state;
+}
+
+function parseSegmentId(s: string) {
+  const id = new Uint64();
+  if (!id.tryParseString(s.trim())) {
+    throw new Error(`Invalid segment id: ${JSON.stringify(s)}`);
+  }
+  return id;
+}
+
+/**
+ * Parses review states in the format returned by `SegmentReviewStates.toJSON`.
+ */
+export function parseSegmentReviewStatesJson(
+  obj: unknown,
+): [Uint64, SegmentReviewState][] {
+  return Array.from(
+    verifyObjectAsMap(obj, (x) => parseSegmentReviewState(verifyString(x))),
+    ([key, state]) => [parseSegmentId(key), state],
+  );
+}
+
+/**
+ * Parses review states from a CSV file with `segment_id` and `review_state` columns.  Other
+ * columns are ignored.
+ */
+export function parseSegmentReviewStatesCsv(
+  text: string,
+): [Uint64, SegmentReviewState][] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error("File is empty");
+  }
+  const header = rows[0].map((name) => name.trim().toLowerCase());
+  const [idColumn, stateColumn] = SEGMENT_REVIEW_CSV_HEADER.map((name) => {
+    const column = header.indexOf(name);
+    if (column === -1) {
+      throw new Error(`Missing ${JSON.stringify(name)} column`);
+    }
+    return column;
+  });
+  const entries: [Uint64, SegmentReviewState][] = [];
+  rows.slice(1).forEach((row, i) => {
+    if (row.every((value) => value.trim() === "")) return;
+    try {
+      entries.push([
+        parseSegmentId(row[idColumn] ?? ""),
+        parseSegmentReviewState(row[stateColumn] ?? ""),
+      ]);
+    } catch (e) {
+      throw new Error(`Error in row ${i + 2}: ${(e as Error).message}`);
+    }
+  });
+  return entries;
+}
+
+// Delay before saving modified review states, such that a sequence of modifications is saved once.
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Review states of all `SegmentReviewStates` instances with the same storage key.
+ */
+interface SharedSegmentReviewStates {
+  states: Map<string, SegmentReviewState>;
+  instances: Set<SegmentReviewStates>;
+}
+
+const sharedReviewStates = new Map<string, SharedSegmentReviewStates>();
+
+let storageListenerRegistered = false;
+
+function loadSegmentReviewStates(text: string | null) {
+  const states = new Map<string, SegmentReviewState>();
+  if (text === null) return states;
+  try {
+    for (const [id, state] of parseSegmentReviewStatesJson(JSON.parse(text))) {
+      states.set(id.toString(), state);
+    }
+  } catch (e) {
+    StatusMessage.showTemporaryMessage(
+      `Ignoring invalid segment review states in local storage: ${
+        (e as Error).message
+      }`,
+    );
+  }
+  return states;
+}
+
+/**
+ * Reloads the review states modified by another tab.
+ */
+function handleStorageEvent(event: StorageEvent) {
+  if (event.storageArea !== localStorage || event.key === null) return;
+  const shared = sharedReviewStates.get(event.key);
+  if (shared === undefined) return;
+  const { states } = shared;
+  states.clear();
+  for (const [key, state] of loadSegmentReviewStates(event.newValue)) {
+    states.set(key, state);
+  }
+  for (const instance of shared.instances) {
+    instance.changed.dispatch();
+  }
+}
+
+/**
+ * Review states of segments, keyed by segment id.  Segments without an entry are unreviewed.
+ */
+export class SegmentReviewStates extends RefCounted {
+  changed = new NullarySignal();
+  private states = new Map<string, SegmentReviewState>();
+  private storageKey: string | undefined;
+  // Set when saving fails, such that the failure is only reported once until a save succeeds.
+  private saveFailed = false;
+  private scheduleSave = this.registerCancellable(
+    debounce(() => this.save(), SAVE_DELAY_MS),
+  );
+
+  get size() {
+    return this.states.size;
+  }
+
+  get(id: Uint64): SegmentReviewState {
+    return this.states.get(id.toString()) ?? SegmentReviewState.UNREVIEWED;
+  }
+
+  set(id: Uint64, state: SegmentReviewState) {
+    if (this.set_(id, state)) {
+      this.handleModified();
+    }
+  }
+
+  /**
+   * Sets the state of each of `entries`, and dispatches `changed` at most once.
+   */
+  setAll(entries: Iterable<[Uint64, SegmentReviewState]>) {
+    let changed = false;
+    for (const [id, state] of entries) {
+      changed = this.set_(id, state) || changed;
+    }
+    if (changed) {
+      this.handleModified();
+    }
+  }
+
+  private set_(id: Uint64, state: SegmentReviewState) {
+    const key = id.toString();
+    const { states } = this;
+    if ((states.get(key) ?? SegmentReviewState.UNREVIEWED) === state) {
+      return false;
+    }
+    if (state === SegmentReviewState.UNREVIEWED) {
+      states.delete(key);
+    } else {
+      states.set(key, state);
+    }
+    return true;
+  }
+
+  clear() {
+    if (this.states.size === 0) return;
+    this.states.clear();
+    this.handleModified();
+  }
+
+  /**
+   * Notifies the instances sharing the review states of a modification, and schedules it to be
+   * saved.
+   */
+  private handleModified() {
+    const { storageKey } = this;
+    if (storageKey !== undefined) {
+      for (const instance of sharedReviewStates.get(storageKey)!.instances) {
+        if (instance !== this) instance.changed.dispatch();
+      }
+      this.scheduleSave();
+    }
+    this.changed.dispatch();
+  }
+
+  /**
+   * Iterates over the reviewed segments, in no particular order.
+   */
+  *entries(): IterableIterator<[Uint64, SegmentReviewState]> {
+    for (const [key, state] of this.states) {
+      yield [Uint64.parseString(key), state];
+    }
+  }
+
+  /**
+   * Returns the number of reviewed segments in each state, indexed by `SegmentReviewState`.
+   */
+  countStates() {
+    const counts = segmentReviewStateValues.map(() => 0);
+    for (const state of this.states.values()) {
+      ++counts[state];
+    }
+    return counts;
+  }
+
+  private getSortedEntries() {
+    return Array.from(this.entries()).sort((a, b) =>
+      Uint64.compare(a[0], b[0]),
+    );
+  }
+
+  restoreState(obj: unknown) {
+    const entries = obj === undefined ? [] : parseSegmentReviewStatesJson(obj);
+    this.states.clear();
+    for (const [id, state] of entries) {
+      this.set_(id, state);
+    }
+    this.handleModified();
+  }
+
+  toJSON() {
+    const result: { [id: string]: string } = {};
+    for (const [id, state] of this.getSortedEntries()) {
+      result[id.toString()] = segmentReviewStateLabels[state];
+    }
+    return result;
+  }
+
+  toCsv() {
+    return formatCsv([
+      SEGMENT_REVIEW_CSV_HEADER,
+      ...this.getSortedEntries().map(([id, state]) => [
+        id.toString(),
+        segmentReviewStateLabels[state],
+      ]),
+    ]);
+  }
+
+  /**
+   * Sets the local storage key under which the review states are saved.  If the key changes, the
+   * review states are replaced by those of other instances with the new key, if any, or otherwise
+   * by those saved under the new key.
+   */
+  setStorageKey(key: string | undefined) {
+    if (key === this.storageKey) return;
+    this.detach();
+    this.storageKey = key;
+    if (key === undefined) {
+      this.states = new Map();
+    } else {
+      let shared = sharedReviewStates.get(key);
+      if (shared === undefined) {
+        shared = {
+          states: loadSegmentReviewStates(localStorage.getItem(key)),
+          instances: new Set(),
+        };
+        sharedReviewStates.set(key, shared);
+        if (!storageListenerRegistered && typeof window !== "undefined") {
+          storageListenerRegistered = true;
+          window.addEventListener("storage", handleStorageEvent);
+        }
+      }
+      shared.instances.add(this);
+      this.states = shared.states;
+    }
+    this.changed.dispatch();
+  }
+
+  /**
+   * Saves any pending modification, and stops sharing the review states of the current storage
+   * key.
+   */
+  private detach() {
+    const { storageKey } = this;
+    if (storageKey === undefined) return;
+    this.scheduleSave.flush();
+    const shared = sharedReviewStates.get(storageKey)!;
+    shared.instances.delete(this);
+    if (shared.instances.size === 0) {
+      sharedReviewStates.delete(storageKey);
+    }
+  }
+
+  disposed() {
+    this.detach();
+    super.disposed();
+  }
+
+  private save() {
+    const { storageKey } = this;
+    if (storageKey === undefined) return;
+    try {
+      if (this.states.size === 0) {
+        localStorage.removeItem(storageKey);
+      } else {
+        localStorage.setItem(storageKey, JSON.stringify(this.toJSON()));
+      }
+      this.saveFailed = false;
+    } catch (e) {
+      // Typically a `QuotaExceededError`, if local storage is full.
+      if (this.saveFailed) return;
+      this.saveFailed = true;
+      StatusMessage.showTemporaryMessage(
+        `Segment review states could not be saved in local storage: ${
+          (e as Error).message
+        }; export them to keep them.`,
+        10000,
+      );
+    }
+  }
+}
+
+/**
+ * Yields the color of each reviewed segment, for use as an override of the stated colors.
+ */
+export function* getSegmentReviewStateColors(
+  reviewStates: SegmentReviewStates,
+): IterableIterator<[Uint64, vec3]> {
+  for (const [id, state] of reviewStates.entries()) {
+    const color = segmentReviewStateColors[state];
+    if (color !== undefined) {
+      yield [id, color];
+    }
+  }
+}
+
+/**
+ * Returns the local storage key for the review states of a layer with the specified data sources.
+ */
+export function getSegmentReviewStorageKey(urls: readonly string[]) {
+  if (urls.length === 0) return undefined;
+  return `neuroglancer-segment-review:${JSON.stringify(urls)}`;
+}
+
+/**
+ * Restricts `queryResult` to the segments with the specified review state.  Returns `queryResult`
+ * unchanged if `state` is `undefined`.
+ */
+export function filterQueryResultByReviewState(
+  db: PreprocessedSegmentPropertyMap | undefined,
+  queryResult: QueryResult,
+  reviewStates: SegmentReviewStates,
+  state: SegmentReviewState | undefined,
+): QueryResult {
+  if (state === undefined) return queryResult;
+  const { explicitIds, indices } = queryResult;
+  if (explicitIds !== undefined) {
+    const filtered = explicitIds.filter((id) => reviewStates.get(id) === state);
+    return { ...queryResult, explicitIds: filtered, count: filtered.length };
+  }
+  if (indices !== undefined) {
+    const { ids } = db!.segmentPropertyMap.inlineProperties!;
+    const id = new Uint64();
+    const filtered = indices.filter((propIndex) => {
+      id.low = ids[propIndex * 2];
+      id.high = ids[propIndex * 2 + 1];
+      return reviewStates.get(id) === state;
+    }) as IndicesArray;
+    return { ...queryResult, indices: filtered, count: filtered.length };
+  }
+  return queryResult;
+}
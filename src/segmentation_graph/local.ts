@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { debounce } from "lodash-es";
@@ -129,6 +132,21 @@ export class LocalSegmentationGraphSource extends SegmentationGraphSource {
     });
   }
 
+  /**
+   * Replaces all equivalences with those specified by `obj`, in the same format as accepted by
+   * `restoreState`, and updates the connected layers.
+   */
+  assignState(obj: unknown) {
+    this.restoreState(obj);
+    for (const connection of this.connections) {
+      connection.segmentsState.segmentEquivalences.assignFrom(
+        this.equivalences,
+      );
+    }
+    this.normalizeAll();
+    this.changed.dispatch();
+  }
+
   toJSON() {
     const { spanningTreeEdges } = this;
     if (spanningTreeEdges.size === 0) return undefined;
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/render_layer_backend.js";
@@ -42,6 +45,7 @@ import {
   SLICEVIEW_ADD_VISIBLE_LAYER_RPC_ID,
   SLICEVIEW_REMOVE_VISIBLE_LAYER_RPC_ID,
   SLICEVIEW_RENDERLAYER_RPC_ID,
+  SLICEVIEW_PIN_CHUNKS_RPC_ID,
   SLICEVIEW_REQUEST_CHUNK_RPC_ID,
   SLICEVIEW_RPC_ID,
   SliceViewBase,
@@ -52,6 +56,7 @@ import type { CancellationToken } from "#src/util/cancellation.js";
 import { CANCELED } from "#src/util/cancellation.js";
 import { erf } from "#src/util/erf.js";
 import { vec3, vec3Key } from "#src/util/geom.js";
+import { persistentCache, pinResponses } from "#src/util/persistent_cache.js";
 import { VelocityEstimator } from "#src/util/velocity_estimation.js";
 import {
   getBasePriority,
@@ -67,6 +72,9 @@ import {
 } from "#src/worker_rpc.js";
 
 export const BASE_PRIORITY = -1e12;
+
+// Maximum number of concurrent downloads used to pin chunks.
+const PIN_CHUNKS_CONCURRENCY = 8;
 export const SCALE_PRIORITY_MULTIPLIER = 1e9;
 
 // Temporary values used by SliceView.updateVisibleChunk
@@ -582,3 +590,58 @@ registerPromiseRPC(
     }
   },
 );
+
+registerPromiseRPC(
+  SLICEVIEW_PIN_CHUNKS_RPC_ID,
+  async function (
+    x: {
+      this: RPC;
+      source: number;
+      lowerChunkBound: Float32Array;
+      upperChunkBound: Float32Array;
+    },
+    cancellationToken: CancellationToken,
+  ): RPCPromise<number> {
+    // Downloads each chunk within `[lowerChunkBound, upperChunkBound)` such that the responses are
+    // stored in the persistent cache as pinned.  The downloaded chunks are not added to the chunk
+    // cache of the source, since they may exceed the memory limits.
+    const source = this.get(x.source) as SliceViewChunkSourceBackend;
+    if (!persistentCache.enabled) {
+      throw new Error("The persistent cache is disabled.");
+    }
+    const { lowerChunkBound, upperChunkBound } = x;
+    const rank = lowerChunkBound.length;
+    let numChunks = 1;
+    for (let i = 0; i < rank; ++i) {
+      numChunks *= Math.max(0, upperChunkBound[i] - lowerChunkBound[i]);
+    }
+    if (numChunks === 0) return { value: 0 };
+    pinResponses(cancellationToken);
+    const nextPosition = Float32Array.from(lowerChunkBound);
+    let remaining = numChunks;
+    const downloadNext = async () => {
+      while (remaining !== 0) {
+        --remaining;
+        const chunkGridPosition = Float32Array.from(nextPosition);
+        for (let i = 0; i < rank; ++i) {
+          if (++nextPosition[i] < upperChunkBound[i]) break;
+          nextPosition[i] = lowerChunkBound[i];
+        }
+        const chunk = new source.chunkConstructor();
+        chunk.source = source;
+        chunk.initializeVolumeChunk(
+          chunkGridPosition.join(),
+          chunkGridPosition,
+        );
+        await source.download(chunk, cancellationToken);
+        chunk.freeSystemMemory();
+      }
+    };
+    const downloads: Promise<void>[] = [];
+    for (let i = Math.min(numChunks, PIN_CHUNKS_CONCURRENCY); i > 0; --i) {
+      downloads.push(downloadNext());
+    }
+    await Promise.all(downloads);
+    return { value: numChunks };
+  },
+);
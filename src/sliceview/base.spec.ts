@@ -12,12 +12,16 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { describe, it, expect } from "vitest";
 import {
   estimateSliceAreaPerChunk,
   getNearIsotropicBlockSize,
+  getRegionChunkGridBounds,
 } from "#src/sliceview/base.js";
 import { ChunkLayout } from "#src/sliceview/chunk_layout.js";
 import { mat4, vec3 } from "#src/util/geom.js";
@@ -200,3 +204,82 @@ describe("estimateSliceAreaPerChunk", () => {
     }
   });
 });
+
+// Maps global dimensions `[x, y, z]` to chunk dimensions `[z, y, x]`, with the chunk coordinate
+// space scaled by 1/2 and offset by 10 in `z`.
+const chunkTransform = {
+  layerRank: 3,
+  // prettier-ignore
+  combinedGlobalLocalToChunkTransform: Float32Array.of(
+    0, 0, 0.5,
+    0, 0.5, 0,
+    0.5, 0, 0,
+    -10, 0, 0,
+  ),
+};
+
+const spec = {
+  rank: 3,
+  chunkDataSize: Uint32Array.of(8, 8, 8),
+  lowerChunkBound: Float32Array.of(0, 0, 0),
+  upperChunkBound: Float32Array.of(4, 4, 4),
+};
+
+describe("getRegionChunkGridBounds", () => {
+  it("region within bounds", () => {
+    expect(
+      getRegionChunkGridBounds(
+        spec,
+        chunkTransform,
+        Float32Array.of(0, 16, 20),
+        Float32Array.of(32, 20, 60),
+        new Float32Array(0),
+      ),
+    ).toEqual({
+      lowerChunkBound: Float32Array.of(0, 1, 0),
+      upperChunkBound: Float32Array.of(3, 2, 2),
+    });
+  });
+
+  it("corners in any order", () => {
+    expect(
+      getRegionChunkGridBounds(
+        spec,
+        chunkTransform,
+        Float32Array.of(32, 20, 60),
+        Float32Array.of(0, 16, 20),
+        new Float32Array(0),
+      ),
+    ).toEqual({
+      lowerChunkBound: Float32Array.of(0, 1, 0),
+      upperChunkBound: Float32Array.of(3, 2, 2),
+    });
+  });
+
+  it("clamped to bounds", () => {
+    expect(
+      getRegionChunkGridBounds(
+        spec,
+        chunkTransform,
+        Float32Array.of(-100, 0, 0),
+        Float32Array.of(1000, 0, 1000),
+        new Float32Array(0),
+      ),
+    ).toEqual({
+      lowerChunkBound: Float32Array.of(0, 0, 0),
+      upperChunkBound: Float32Array.of(4, 1, 4),
+    });
+  });
+
+  it("region outside bounds", () => {
+    expect(
+      getRegionChunkGridBounds(
+        spec,
+        chunkTransform,
+        Float32Array.of(0, 0, 0),
+        Float32Array.of(10, 10, 10),
+        new Float32Array(0),
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -12,10 +12,14 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { DisplayDimensionRenderInfo } from "#src/navigation_state.js";
 import { ProjectionParameters } from "#src/projection_parameters.js";
+import type { ChunkTransformParameters } from "#src/render_coordinate_transform.js";
 import { getChunkPositionFromCombinedGlobalLocalPositions } from "#src/render_coordinate_transform.js";
 import { ChunkLayout } from "#src/sliceview/chunk_layout.js";
 import type {
@@ -772,6 +776,7 @@ export const SLICEVIEW_ADD_VISIBLE_LAYER_RPC_ID = "SliceView.addVisibleLayer";
 export const SLICEVIEW_REMOVE_VISIBLE_LAYER_RPC_ID =
   "SliceView.removeVisibleLayer";
 export const SLICEVIEW_REQUEST_CHUNK_RPC_ID = "ChunkManager.requestChunk";
+export const SLICEVIEW_PIN_CHUNKS_RPC_ID = "ChunkManager.pinChunks";
 
 const tempVisibleVolumetricChunkLower = new Float32Array(3);
 const tempVisibleVolumetricChunkUpper = new Float32Array(3);
@@ -1019,3 +1024,70 @@ export function getNormalizedChunkLayout(
   mat4.invert(invTransform, transform);
   return tempChunkLayout;
 }
+
+/**
+ * Returns the range `[lowerChunkBound, upperChunkBound)` of grid positions of the chunks that
+ * intersect the region `[globalLower, globalUpper]` of the global coordinate space, or `undefined`
+ * if no chunks intersect the region.
+ */
+export function getRegionChunkGridBounds(
+  spec: Pick<
+    SliceViewChunkSpecification,
+    "rank" | "chunkDataSize" | "lowerChunkBound" | "upperChunkBound"
+  >,
+  chunkTransform: Pick<
+    ChunkTransformParameters,
+    "combinedGlobalLocalToChunkTransform" | "layerRank"
+  >,
+  globalLower: Float32Array,
+  globalUpper: Float32Array,
+  localPosition: Float32Array,
+):
+  | { lowerChunkBound: Float32Array; upperChunkBound: Float32Array }
+  | undefined {
+  const { combinedGlobalLocalToChunkTransform, layerRank } = chunkTransform;
+  const { rank, chunkDataSize } = spec;
+  const globalRank = globalLower.length;
+  const localRank = localPosition.length;
+  const lowerChunkBound = new Float32Array(rank);
+  const upperChunkBound = new Float32Array(rank);
+  for (let chunkDim = 0; chunkDim < layerRank; ++chunkDim) {
+    // Bounds of the affine function mapping the region to this chunk dimension.
+    let min = 0;
+    let max = 0;
+    for (let globalDim = 0; globalDim < globalRank; ++globalDim) {
+      const coeff =
+        combinedGlobalLocalToChunkTransform[chunkDim + globalDim * layerRank];
+      const a = coeff * globalLower[globalDim];
+      const b = coeff * globalUpper[globalDim];
+      min += Math.min(a, b);
+      max += Math.max(a, b);
+    }
+    let offset =
+      combinedGlobalLocalToChunkTransform[
+        chunkDim + (globalRank + localRank) * layerRank
+      ];
+    for (let localDim = 0; localDim < localRank; ++localDim) {
+      offset +=
+        combinedGlobalLocalToChunkTransform[
+          chunkDim + (globalRank + localDim) * layerRank
+        ] * localPosition[localDim];
+    }
+    min += offset;
+    max += offset;
+    if (chunkDim >= rank) {
+      // Extra layer dimensions are clipped to `[0, 1)`.
+      if (max < 0 || min >= 1) return undefined;
+      continue;
+    }
+    const size = chunkDataSize[chunkDim];
+    const lower = Math.floor(min / size);
+    const upper = Math.max(lower + 1, Math.ceil(max / size));
+    lowerChunkBound[chunkDim] = Math.max(lower, spec.lowerChunkBound[chunkDim]);
+    upperChunkBound[chunkDim] = Math.min(upper, spec.upperChunkBound[chunkDim]);
+    if (lowerChunkBound[chunkDim] >= upperChunkBound[chunkDim]) {
+      return undefined;
+    }
+  }
+  return { lowerChunkBound, upperChunkBound };
+}
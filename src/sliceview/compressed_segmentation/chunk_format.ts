@@ -12,10 +12,21 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
-import { readSingleChannelValue as readSingleChannelValueUint32 } from "#src/sliceview/compressed_segmentation/decode_uint32.js";
-import { readSingleChannelValue as readSingleChannelValueUint64 } from "#src/sliceview/compressed_segmentation/decode_uint64.js";
+import {
+  decodeChannels as decodeChannelsUint32,
+  readSingleChannelValue as readSingleChannelValueUint32,
+} from "#src/sliceview/compressed_segmentation/decode_uint32.js";
+import {
+  decodeChannels as decodeChannelsUint64,
+  readSingleChannelValue as readSingleChannelValueUint64,
+} from "#src/sliceview/compressed_segmentation/decode_uint64.js";
+import { encodeChannels as encodeChannelsUint32 } from "#src/sliceview/compressed_segmentation/encode_uint32.js";
+import { encodeChannels as encodeChannelsUint64 } from "#src/sliceview/compressed_segmentation/encode_uint64.js";
 import {
   SingleTextureChunkFormat,
   SingleTextureVolumeChunk,
@@ -26,9 +37,13 @@ import type {
   ChunkFormatHandler,
   VolumeChunkSource,
 } from "#src/sliceview/volume/frontend.js";
-import { registerChunkFormatHandler } from "#src/sliceview/volume/frontend.js";
+import {
+  registerChunkFormatHandler,
+  replaceDecodedChunkValues,
+} from "#src/sliceview/volume/frontend.js";
 import { RefCounted } from "#src/util/disposable.js";
 import { vec3, vec3Key } from "#src/util/geom.js";
+import { Uint32ArrayBuilder } from "#src/util/uint32array_builder.js";
 import { Uint64 } from "#src/util/uint64.js";
 import type { GL } from "#src/webgl/context.js";
 import type {
@@ -339,6 +354,49 @@ export class CompressedSegmentationVolumeChunk extends SingleTextureVolumeChunk<
       dataPosition,
     );
   }
+
+  replaceValues(values: Map<number, Uint64>) {
+    const { chunkDataSize, chunkFormat, data } = this;
+    const { subchunkSize } = chunkFormat;
+    const isUint64 = chunkFormat.dataType === DataType.UINT64;
+    const elementsPerValue = isUint64 ? 2 : 1;
+    const shape = [
+      chunkDataSize[0],
+      chunkDataSize[1],
+      chunkDataSize[2],
+      chunkDataSize[3] || 1,
+    ];
+    const numValues = shape[0] * shape[1] * shape[2] * shape[3];
+    const decoded = new Uint32Array(numValues * elementsPerValue);
+    if (data === null) {
+      const { fillValue } = this.source.spec;
+      if (isUint64) {
+        for (let i = 0; i < numValues; ++i) {
+          decoded[2 * i] = (fillValue as Uint64).low;
+          decoded[2 * i + 1] = (fillValue as Uint64).high;
+        }
+      } else {
+        decoded.fill(fillValue as number);
+      }
+    } else if (isUint64) {
+      decodeChannelsUint64(decoded, data, 0, shape, subchunkSize);
+    } else {
+      decodeChannelsUint32(decoded, data, 0, shape, subchunkSize);
+    }
+    const previous = replaceDecodedChunkValues(
+      decoded,
+      elementsPerValue,
+      values,
+    );
+    const output = new Uint32ArrayBuilder(data?.length);
+    if (isUint64) {
+      encodeChannelsUint64(output, subchunkSize, decoded, shape);
+    } else {
+      encodeChannelsUint32(output, subchunkSize, decoded, shape);
+    }
+    this.setData(output.view);
+    return previous;
+  }
 }
 
 class FillValueChunk extends RefCounted {
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { debounce } from "lodash-es";
@@ -53,6 +56,7 @@ import {
   forEachPlaneIntersectingVolumetricChunk,
   getNormalizedChunkLayout,
   SLICEVIEW_ADD_VISIBLE_LAYER_RPC_ID,
+  SLICEVIEW_PIN_CHUNKS_RPC_ID,
   SLICEVIEW_REMOVE_VISIBLE_LAYER_RPC_ID,
   SLICEVIEW_REQUEST_CHUNK_RPC_ID,
   SLICEVIEW_RPC_ID,
@@ -637,6 +641,20 @@ export abstract class SliceViewChunkSource<
     super.initializeCounterpart(rpc, options);
   }
 
+  // Downloads all chunks with grid positions in `[lowerChunkBound, upperChunkBound)` and stores
+  // them as pinned in the persistent cache, for offline use.  Returns the number of chunks.
+  pinChunks(
+    lowerChunkBound: Float32Array,
+    upperChunkBound: Float32Array,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<number> {
+    return this.rpc!.promiseInvoke<number>(
+      SLICEVIEW_PIN_CHUNKS_RPC_ID,
+      { source: this.rpcId, lowerChunkBound, upperChunkBound },
+      cancellationToken,
+    );
+  }
+
   // Requests a chunk by its grid position, and returns the result of `transform(chunk)`, where
   // `transform` is guaranteed to be called while the chunk is present in system memory.
   //
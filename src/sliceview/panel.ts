@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { AxesLineHelper, computeAxisLineMatrix } from "#src/axes_lines.js";
@@ -496,6 +499,11 @@ export class SliceViewPanel extends RenderedDataPanel {
     }
     mouseState.coordinateSpace = this.navigationState.coordinateSpace.value;
     mouseState.displayDimensions = displayDimensions;
+    mouseState.planeNormal = vec3.normalize(
+      vec3.create(),
+      this.sliceView.projectionParameters.value
+        .viewportNormalInGlobalCoordinates,
+    );
 
     setPosition(0, 0, unsnappedPosition);
 
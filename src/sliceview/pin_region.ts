@@ -0,0 +1,69 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Pinning of the chunks within a region in the persistent cache, for offline review.
+ */
+
+import type { LayerManager } from "#src/layer/index.js";
+import { getRegionChunkGridBounds } from "#src/sliceview/base.js";
+import type { SliceViewChunkSource } from "#src/sliceview/frontend.js";
+import { SliceViewRenderLayer } from "#src/sliceview/renderlayer.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+
+/**
+ * Downloads the chunks of all visible volume sources that intersect the region of the global
+ * coordinate space with corners `pointA` and `pointB`, and pins them in the persistent cache.
+ *
+ * Only the sources currently displayed in a cross-section view are pinned, which means the region
+ * is pinned at the resolutions currently being viewed.
+ *
+ * @returns The number of chunks pinned.
+ */
+export async function pinRegion(
+  layerManager: LayerManager,
+  pointA: Float32Array,
+  pointB: Float32Array,
+  cancellationToken: CancellationToken = uncancelableToken,
+): Promise<number> {
+  const globalLower = pointA.map((x, i) => Math.min(x, pointB[i]));
+  const globalUpper = pointA.map((x, i) => Math.max(x, pointB[i]));
+  const pinnedSources = new Set<SliceViewChunkSource>();
+  const promises: Promise<number>[] = [];
+  for (const managedLayer of layerManager.managedLayers) {
+    if (!managedLayer.visible) continue;
+    const userLayer = managedLayer.layer;
+    if (userLayer === null) continue;
+    for (const renderLayer of userLayer.renderLayers) {
+      if (!(renderLayer instanceof SliceViewRenderLayer)) continue;
+      const localPosition = renderLayer.localPosition.value;
+      for (const { source, chunkTransform } of renderLayer.visibleSourcesList) {
+        if (pinnedSources.has(source)) continue;
+        const bounds = getRegionChunkGridBounds(
+          source.spec,
+          chunkTransform,
+          globalLower,
+          globalUpper,
+          localPosition,
+        );
+        if (bounds === undefined) continue;
+        pinnedSources.add(source);
+        promises.push(
+          source.pinChunks(
+            bounds.lowerChunkBound,
+            bounds.upperChunkBound,
+            cancellationToken,
+          ),
+        );
+      }
+    }
+  }
+  let numChunks = 0;
+  for (const count of await Promise.all(promises)) {
+    numChunks += count;
+  }
+  return numChunks;
+}
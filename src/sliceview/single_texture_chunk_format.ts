@@ -12,8 +12,12 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
+import { ChunkState } from "#src/chunk_manager/base.js";
 import type {
   VolumeChunkSource,
   ChunkFormat,
@@ -154,4 +158,26 @@ export abstract class SingleTextureVolumeChunk<
     this.textureLayout!.dispose();
     this.textureLayout = null;
   }
+
+  /**
+   * Replaces `data`, and copies the new data to the GPU if the chunk is in GPU memory.
+   */
+  protected setData(data: Data) {
+    const { gl } = this;
+    const inGPUMemory = this.state === ChunkState.GPU_MEMORY;
+    if (inGPUMemory) {
+      if (this.data === null) {
+        // The texture is shared with other chunks that contain only the fill value.
+        this.texture = null;
+        this.textureLayout = null;
+        this.state = ChunkState.SYSTEM_MEMORY;
+      } else {
+        this.freeGPUMemory(gl);
+      }
+    }
+    this.data = data;
+    if (inGPUMemory) {
+      this.copyToGPU(gl);
+    }
+  }
 }
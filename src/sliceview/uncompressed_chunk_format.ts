@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import {
@@ -24,7 +27,10 @@ import type {
   ChunkFormatHandler,
   VolumeChunkSource,
 } from "#src/sliceview/volume/frontend.js";
-import { registerChunkFormatHandler } from "#src/sliceview/volume/frontend.js";
+import {
+  registerChunkFormatHandler,
+  replaceDecodedChunkValues,
+} from "#src/sliceview/volume/frontend.js";
 import type { TypedArray, TypedArrayConstructor } from "#src/util/array.js";
 import {
   DATA_TYPE_ARRAY_CONSTRUCTOR,
@@ -327,6 +333,26 @@ export class UncompressedVolumeChunk extends SingleTextureVolumeChunk<
       }
     }
   }
+
+  replaceValues(values: Map<number, Uint64>) {
+    const { dataType } = this.chunkFormat;
+    const elementsPerValue =
+      DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT[dataType];
+    let data = this.data as TypedArray | null;
+    if (data === null) {
+      const numValues = this.chunkDataSize.reduce((a, b) => a * b, 1);
+      const fillValue = getFillValueArray(dataType, this.source.spec.fillValue);
+      data = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](
+        numValues * elementsPerValue,
+      );
+      for (let i = 0; i < numValues; ++i) {
+        data.set(fillValue, i * elementsPerValue);
+      }
+    }
+    const previous = replaceDecodedChunkValues(data, elementsPerValue, values);
+    this.setData(data as Uint8Array);
+    return previous;
+  }
 }
 
 class FillValueChunk extends RefCounted {
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { Chunk } from "#src/chunk_manager/backend.js";
@@ -24,12 +27,16 @@ import type {
   SliceViewChunkSpecification,
 } from "#src/sliceview/base.js";
 import type {
+  VolumeChunkLabels,
   VolumeChunkSource as VolumeChunkSourceInterface,
   VolumeChunkSpecification,
 } from "#src/sliceview/volume/base.js";
+import { VOLUME_WRITE_CHUNK_LABELS_RPC_ID } from "#src/sliceview/volume/base.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
 import type { vec3 } from "#src/util/geom.js";
 import * as vector from "#src/util/vector.js";
-import type { RPC } from "#src/worker_rpc.js";
+import type { RPC, RPCPromise } from "#src/worker_rpc.js";
+import { registerPromiseRPC } from "#src/worker_rpc.js";
 
 export class VolumeChunk extends SliceViewChunk {
   source: VolumeChunkSource | null = null;
@@ -155,5 +162,35 @@ export class VolumeChunkSource
   computeChunkBounds(chunk: VolumeChunk) {
     return computeChunkBounds(this, chunk);
   }
+
+  /**
+   * Sets the labels of voxels of the specified chunks in the data source.  The chunks are written
+   * together, such that sources that store multiple chunks in a single object can write each
+   * object once.  Must be overridden by sources that support writing.
+   */
+  async writeChunkLabels(
+    chunks: VolumeChunkLabels[],
+    cancellationToken: CancellationToken,
+  ): Promise<void> {
+    chunks;
+    cancellationToken;
+    throw new Error("Writing is not supported by this data source.");
+  }
 }
 VolumeChunkSource.prototype.chunkConstructor = VolumeChunk;
+
+registerPromiseRPC(
+  VOLUME_WRITE_CHUNK_LABELS_RPC_ID,
+  async function (
+    x: {
+      this: RPC;
+      source: number;
+      chunks: VolumeChunkLabels[];
+    },
+    cancellationToken: CancellationToken,
+  ): RPCPromise<void> {
+    const source = this.get(x.source) as VolumeChunkSource;
+    await source.writeChunkLabels(x.chunks, cancellationToken);
+    return { value: undefined };
+  },
+);
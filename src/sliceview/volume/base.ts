@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type {
@@ -311,3 +314,16 @@ export interface VolumeChunkSource extends SliceViewChunkSource {
 }
 
 export const VOLUME_RPC_ID = "volume";
+export const VOLUME_WRITE_CHUNK_LABELS_RPC_ID =
+  "VolumeChunkSource.writeChunkLabels";
+
+/**
+ * Labels of voxels of a chunk to write to a data source.  `indices` specifies the index of each
+ * voxel in Fortran order over `spec.chunkDataSize`, and `labels` specifies the low and high 32 bits
+ * of the label of each voxel.
+ */
+export interface VolumeChunkLabels {
+  chunkGridPosition: Float32Array;
+  indices: Uint32Array;
+  labels: Uint32Array;
+}
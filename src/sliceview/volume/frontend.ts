@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { ChunkManager } from "#src/chunk_manager/frontend.js";
@@ -27,11 +30,21 @@ import {
 } from "#src/sliceview/frontend.js";
 import type {
   VolumeChunkSource as VolumeChunkSourceInterface,
+  VolumeChunkLabels,
   VolumeChunkSpecification,
   VolumeSourceOptions,
   VolumeType,
 } from "#src/sliceview/volume/base.js";
+import { VOLUME_WRITE_CHUNK_LABELS_RPC_ID } from "#src/sliceview/volume/base.js";
+import type {
+  ChunkLabelDelta,
+  VolumeChunkLabelEdits,
+} from "#src/sliceview/volume/label_edits.js";
+import type { TypedArray } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
 import type { Disposable } from "#src/util/disposable.js";
+import { Uint64 } from "#src/util/uint64.js";
 import type { GL } from "#src/webgl/context.js";
 import type { ShaderBuilder, ShaderProgram } from "#src/webgl/shader.js";
 import { getShaderType, glsl_mixLinear } from "#src/webgl/shader_lib.js";
@@ -176,6 +189,13 @@ export class VolumeChunkSource
   implements VolumeChunkSourceInterface
 {
   chunkFormatHandler: ChunkFormatHandler;
+
+  /**
+   * Label edits composited over the data of this source.  Edits are applied to each chunk as it is
+   * received from the backend.
+   */
+  labelEdits: VolumeChunkLabelEdits | undefined = undefined;
+
   private tempChunkGridPosition: Float32Array;
   private tempPositionWithinChunk: Uint32Array;
 
@@ -259,7 +279,41 @@ export class VolumeChunkSource
   }
 
   getChunk(x: any): VolumeChunk {
-    return <VolumeChunk>this.chunkFormatHandler.getChunk(this, x);
+    const chunk = <VolumeChunk>this.chunkFormatHandler.getChunk(this, x);
+    this.labelEdits?.applyToChunk(chunk);
+    return chunk;
+  }
+
+  /**
+   * Writes the labels of voxels of the chunks with the specified keys to the data source.  Fails if
+   * the data source does not support writing.
+   */
+  writeChunkLabels(
+    deltas: Map<string, ChunkLabelDelta>,
+    cancellationToken: CancellationToken = uncancelableToken,
+  ): Promise<void> {
+    const chunks: VolumeChunkLabels[] = [];
+    for (const [chunkKey, delta] of deltas) {
+      const indices = new Uint32Array(delta.size);
+      const labels = new Uint32Array(delta.size * 2);
+      let i = 0;
+      for (const [index, label] of delta) {
+        indices[i] = index;
+        labels[2 * i] = label.low;
+        labels[2 * i + 1] = label.high;
+        ++i;
+      }
+      chunks.push({
+        chunkGridPosition: Float32Array.from(chunkKey.split(","), Number),
+        indices,
+        labels,
+      });
+    }
+    return this.rpc!.promiseInvoke<void>(
+      VOLUME_WRITE_CHUNK_LABELS_RPC_ID,
+      { source: this.rpcId, chunks },
+      cancellationToken,
+    );
   }
 }
 
@@ -277,6 +331,40 @@ export abstract class VolumeChunk extends SliceViewChunk {
     this.chunkDataSize = x.chunkDataSize || source.spec.chunkDataSize;
   }
   abstract getValueAt(dataPosition: Uint32Array): any;
+
+  /**
+   * Replaces the values at the specified indices, in Fortran order over `chunkDataSize`, and
+   * returns the previous values.  If the chunk is in GPU memory, it is copied to the GPU again.
+   *
+   * Only supported by the chunk formats used for segmentations.
+   */
+  replaceValues(_values: Map<number, Uint64>): Map<number, Uint64> {
+    throw new Error("Editing chunks of this format is not supported");
+  }
+}
+
+/**
+ * Replaces values in a decoded chunk array, in which each value occupies `elementsPerValue`
+ * consecutive elements (2 for `uint64`), and returns the previous values.
+ */
+export function replaceDecodedChunkValues(
+  data: TypedArray,
+  elementsPerValue: number,
+  values: Map<number, Uint64>,
+) {
+  const previous = new Map<number, Uint64>();
+  for (const [index, value] of values) {
+    if (elementsPerValue === 2) {
+      const offset = index * 2;
+      previous.set(index, new Uint64(data[offset], data[offset + 1]));
+      data[offset] = value.low;
+      data[offset + 1] = value.high;
+    } else {
+      previous.set(index, new Uint64(data[index] >>> 0));
+      data[index] = value.low;
+    }
+  }
+  return previous;
 }
 
 export abstract class MultiscaleVolumeChunkSource extends MultiscaleSliceViewChunkSource<
@@ -285,4 +373,10 @@ export abstract class MultiscaleVolumeChunkSource extends MultiscaleSliceViewChu
 > {
   abstract dataType: DataType;
   abstract volumeType: VolumeType;
+
+  /**
+   * Shader used by default when this source is displayed in an image layer, if the data source
+   * specifies display settings.
+   */
+  defaultFragmentMain: string | undefined = undefined;
 }
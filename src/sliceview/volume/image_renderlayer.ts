@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { SliceView } from "#src/sliceview/frontend.js";
@@ -40,7 +43,7 @@ import {
   setControlsInShader,
 } from "#src/webgl/shader_ui_controls.js";
 
-const DEFAULT_FRAGMENT_MAIN = `#uicontrol invlerp normalized
+export const DEFAULT_FRAGMENT_MAIN = `#uicontrol invlerp normalized
 void main() {
   emitGrayscale(normalized());
 }
@@ -76,6 +79,7 @@ void emitGrayscale(float value) {
 void emitTransparent() {
   emit(vec4(0.0, 0.0, 0.0, 0.0));
 }
+void emitIntensity(float value) {}
 `);
   builder.addFragmentCode(glsl_COLORMAPS);
   addControlsToBuilder(shaderBuilderState, builder);
@@ -0,0 +1,196 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for voxel edits of segmentation volumes.
+ */
+
+import { describe, it, expect } from "vitest";
+import { DataType } from "#src/sliceview/volume/base.js";
+import type {
+  VolumeChunk,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import {
+  floodFillLabelVoxels,
+  getLabelBrushVoxels,
+  SegmentationLabelEdits,
+} from "#src/sliceview/volume/label_edits.js";
+import * as matrix from "#src/util/matrix.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+function makeScaleTransform(scales: number[]) {
+  const rank = scales.length;
+  const transform = matrix.createIdentity(Float32Array, rank + 1);
+  scales.forEach((scale, i) => {
+    transform[(rank + 1) * i + i] = scale;
+  });
+  return transform;
+}
+
+function makeFakeChunk(
+  chunkGridPosition: number[],
+  chunkDataSize: number[],
+  initialValue: number,
+) {
+  const data = new Array<number>(chunkDataSize.reduce((a, b) => a * b, 1)).fill(
+    initialValue,
+  );
+  const chunk = {
+    chunkGridPosition: Float32Array.from(chunkGridPosition),
+    chunkDataSize: Uint32Array.from(chunkDataSize),
+    data,
+    replaceValues(values: Map<number, Uint64>) {
+      const previous = new Map<number, Uint64>();
+      for (const [index, value] of values) {
+        previous.set(index, new Uint64(data[index]));
+        data[index] = value.low;
+      }
+      return previous;
+    },
+  };
+  return chunk;
+}
+
+function makeFakeSource(chunkDataSize: number[]) {
+  return {
+    spec: {
+      rank: chunkDataSize.length,
+      dataType: DataType.UINT32,
+      chunkDataSize: Uint32Array.from(chunkDataSize),
+      lowerVoxelBound: Float32Array.of(0, 0, 0),
+      upperVoxelBound: Float32Array.of(6, 4, 1),
+    },
+    chunks: new Map<string, VolumeChunk>(),
+    labelEdits: undefined,
+    addRef() {
+      return this;
+    },
+    dispose() {},
+  } as unknown as VolumeChunkSource;
+}
+
+describe("getLabelBrushVoxels", () => {
+  it("paints a disk within the plane of the cross section", () => {
+    const identity = makeScaleTransform([1, 1, 1]);
+    const voxels = getLabelBrushVoxels(
+      {
+        center: Float32Array.of(5.5, 5.5, 2.3),
+        radius: 1,
+        dimensions: [0, 1, 2],
+        normal: Float32Array.of(0, 0, 1),
+      },
+      identity,
+      identity,
+      3,
+      [0, 0, 0],
+      [10, 10, 10],
+    );
+    expect(voxels.map((v) => Array.from(v))).toEqual([
+      [5, 4, 2],
+      [4, 5, 2],
+      [5, 5, 2],
+      [6, 5, 2],
+      [5, 6, 2],
+    ]);
+  });
+
+  it("includes the voxel containing the center at coarse resolutions", () => {
+    const voxels = getLabelBrushVoxels(
+      {
+        center: Float32Array.of(9, 9, 0.5),
+        radius: 1,
+        dimensions: [0, 1, 2],
+        normal: Float32Array.of(0, 0, 1),
+      },
+      makeScaleTransform([8, 8, 1]),
+      makeScaleTransform([1 / 8, 1 / 8, 1]),
+      3,
+      [0, 0, 0],
+      [4, 4, 4],
+    );
+    expect(voxels.map((v) => Array.from(v))).toEqual([[1, 1, 0]]);
+  });
+});
+
+describe("floodFillLabelVoxels", () => {
+  // 4x4 image in which label 1 forms an L shape.
+  const image = [
+    [1, 1, 0, 0],
+    [0, 1, 0, 1],
+    [0, 1, 1, 1],
+    [0, 0, 0, 0],
+  ];
+  const getLabel = (voxel: Float32Array) => {
+    const [x, y] = voxel;
+    if (x < 0 || y < 0 || x >= 4 || y >= 4) return undefined;
+    return new Uint64(image[y][x]);
+  };
+
+  it("fills the connected region with the same label", () => {
+    const voxels = floodFillLabelVoxels(
+      Float32Array.of(0, 0),
+      getLabel,
+      () => true,
+    );
+    expect(voxels!.map((v) => v.join()).sort()).toEqual(
+      ["0,0", "1,0", "1,1", "1,2", "2,2", "3,2", "3,1"].sort(),
+    );
+  });
+
+  it("respects the region and voxel limit", () => {
+    expect(
+      floodFillLabelVoxels(Float32Array.of(0, 0), getLabel, (v) => v[1] < 2)!
+        .length,
+    ).toBe(3);
+    expect(
+      floodFillLabelVoxels(Float32Array.of(0, 0), getLabel, () => true, 3),
+    ).toBeUndefined();
+  });
+});
+
+describe("SegmentationLabelEdits", () => {
+  it("applies, undoes and clears edits of loaded and newly loaded chunks", () => {
+    const source = makeFakeSource([4, 4, 1]);
+    const loaded = makeFakeChunk([0, 0, 0], [4, 4, 1], 7);
+    source.chunks.set("0,0,0", loaded as unknown as VolumeChunk);
+    const edits = new SegmentationLabelEdits();
+
+    const first = edits.beginOperation();
+    edits.setVoxels(
+      first,
+      source,
+      [
+        [1, 1, 0],
+        [5, 2, 0],
+      ],
+      new Uint64(3),
+    );
+    expect(loaded.data[5]).toBe(3);
+    expect(edits.numVoxels).toBe(2);
+
+    // Edits of chunks that are not loaded are applied when the chunk is received.
+    const clipped = makeFakeChunk([1, 0, 0], [2, 4, 1], 7);
+    source.labelEdits!.applyToChunk(clipped as unknown as VolumeChunk);
+    expect(clipped.data[1 + 2 * 2]).toBe(3);
+
+    const second = edits.beginOperation();
+    edits.setVoxels(second, source, [[1, 1, 0]], new Uint64(4));
+    expect(loaded.data[5]).toBe(4);
+    edits.undo();
+    expect(loaded.data[5]).toBe(3);
+    expect(edits.toJSON().sources[0].chunks).toEqual({
+      "0,0,0": { indices: [5], labels: ["3"] },
+      "1,0,0": { indices: [9], labels: ["3"] },
+    });
+
+    edits.clear();
+    expect(loaded.data[5]).toBe(7);
+    expect(edits.numVoxels).toBe(0);
+    expect(edits.canUndo).toBe(false);
+    edits.dispose();
+    expect(source.labelEdits).toBeUndefined();
+  });
+});
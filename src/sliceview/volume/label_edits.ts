@@ -0,0 +1,666 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Voxel edits of segmentation volumes.
+ *
+ * Edits are stored as sparse per-chunk deltas of the labels of each edited `VolumeChunkSource`, and
+ * are composited over the data of the source by applying them to the frontend copy of each chunk
+ * before it is copied to the GPU.  The data of the source is only modified when the edits are saved,
+ * for sources that support writing.
+ */
+
+import type { VolumeChunkSpecification } from "#src/sliceview/volume/base.js";
+import { DataType } from "#src/sliceview/volume/base.js";
+import type {
+  VolumeChunk,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import { WatchableValue } from "#src/trackable_value.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import { RefCounted } from "#src/util/disposable.js";
+import * as matrix from "#src/util/matrix.js";
+import { NullarySignal } from "#src/util/signal.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+export const MAX_LABEL_BRUSH_RADIUS = 64;
+
+/**
+ * Maximum number of voxels changed by a single flood fill.
+ */
+export const MAX_FLOOD_FILL_VOXELS = 1 << 20;
+
+/**
+ * Maximum number of edit operations that can be undone.
+ */
+export const MAX_LABEL_EDIT_UNDO_OPERATIONS = 32;
+
+/**
+ * Maps the index of each voxel within a chunk, in Fortran order over the `chunkDataSize` of the
+ * source specification, to its label, or to `undefined` to indicate that the edit is removed.
+ */
+export type ChunkLabelDelta<T = Uint64> = Map<number, T>;
+
+/**
+ * Returns the index of a voxel within a chunk of size `chunkDataSize` given its index within a chunk
+ * of size `specChunkDataSize`, or `-1` if it lies outside the chunk.  The two sizes differ only for
+ * chunks clipped by the upper bound of the volume.
+ */
+function remapChunkIndex(
+  index: number,
+  specChunkDataSize: Uint32Array,
+  chunkDataSize: Uint32Array,
+) {
+  let remainder = index;
+  let result = 0;
+  let stride = 1;
+  for (let i = 0, rank = specChunkDataSize.length; i < rank; ++i) {
+    const size = specChunkDataSize[i];
+    const x = remainder % size;
+    remainder = (remainder - x) / size;
+    if (x >= chunkDataSize[i]) return -1;
+    result += x * stride;
+    stride *= chunkDataSize[i];
+  }
+  return result;
+}
+
+/**
+ * Edits of the labels of a single `VolumeChunkSource`.  The edits are removed when the last
+ * reference is released.
+ */
+export class VolumeChunkLabelEdits extends RefCounted {
+  /**
+   * Label deltas of each edited chunk, keyed by the chunk key (the comma-separated chunk grid
+   * position).
+   */
+  deltas = new Map<string, ChunkLabelDelta>();
+
+  /**
+   * Original labels of the voxels edited in each loaded chunk, used to remove edits.
+   */
+  private originals = new WeakMap<VolumeChunk, Map<number, Uint64>>();
+
+  constructor(public source: VolumeChunkSource) {
+    super();
+    source.addRef();
+    source.labelEdits = this;
+    this.registerDisposer(() => {
+      this.clear();
+      if (source.labelEdits === this) {
+        source.labelEdits = undefined;
+      }
+      source.dispose();
+    });
+  }
+
+  get spec(): VolumeChunkSpecification {
+    return this.source.spec;
+  }
+
+  get numVoxels() {
+    let count = 0;
+    for (const delta of this.deltas.values()) count += delta.size;
+    return count;
+  }
+
+  applyToChunk(chunk: VolumeChunk) {
+    const delta = this.deltas.get(chunk.chunkGridPosition.join());
+    if (delta === undefined) return;
+    this.writeToChunk(chunk, delta);
+  }
+
+  /**
+   * Sets the edits of the specified voxels of a chunk, and returns their previous edits.
+   */
+  update(
+    chunkKey: string,
+    values: ChunkLabelDelta<Uint64 | undefined>,
+  ): ChunkLabelDelta<Uint64 | undefined> {
+    const { deltas } = this;
+    let delta = deltas.get(chunkKey);
+    const previous: ChunkLabelDelta<Uint64 | undefined> = new Map();
+    for (const [index, value] of values) {
+      previous.set(index, delta?.get(index));
+      if (value === undefined) {
+        delta?.delete(index);
+      } else {
+        if (delta === undefined) {
+          delta = new Map();
+          deltas.set(chunkKey, delta);
+        }
+        delta.set(index, value);
+      }
+    }
+    if (delta !== undefined && delta.size === 0) {
+      deltas.delete(chunkKey);
+    }
+    const chunk = this.source.chunks.get(chunkKey);
+    if (chunk !== undefined) {
+      this.writeToChunk(chunk, values);
+    }
+    return previous;
+  }
+
+  /**
+   * Removes all edits.
+   */
+  clear() {
+    for (const [chunkKey, delta] of Array.from(this.deltas)) {
+      this.update(
+        chunkKey,
+        new Map(Array.from(delta.keys(), (index) => [index, undefined])),
+      );
+    }
+  }
+
+  /**
+   * Writes the edits of all chunks to the source together, such that chunks stored in the same
+   * object (e.g. a shard) are written at once, and removes the written edits since they are then
+   * reflected by the data of the source.  Edits made while writing are retained.  If writing fails,
+   * all edits are retained, and saving again rewrites any chunks that were written.
+   *
+   * @returns The number of chunks written.
+   */
+  async save(cancellationToken: CancellationToken = uncancelableToken) {
+    const written = new Map(
+      Array.from(this.deltas, ([chunkKey, delta]) => [
+        chunkKey,
+        new Map(delta),
+      ]),
+    );
+    if (written.size === 0) return 0;
+    await this.source.writeChunkLabels(written, cancellationToken);
+    for (const [chunkKey, delta] of written) {
+      this.removeWritten(chunkKey, delta);
+    }
+    return written.size;
+  }
+
+  private removeWritten(chunkKey: string, written: ChunkLabelDelta) {
+    const delta = this.deltas.get(chunkKey);
+    if (delta === undefined) return;
+    const chunk = this.source.chunks.get(chunkKey);
+    // The written labels become the original labels of the loaded chunk.
+    const originals = chunk && this.originals.get(chunk);
+    for (const [index, label] of written) {
+      const value = delta.get(index);
+      if (value === undefined || !Uint64.equal(value, label)) continue;
+      delta.delete(index);
+      if (originals !== undefined) {
+        originals.delete(
+          remapChunkIndex(index, this.spec.chunkDataSize, chunk!.chunkDataSize),
+        );
+      }
+    }
+    if (delta.size === 0) {
+      this.deltas.delete(chunkKey);
+    }
+  }
+
+  private writeToChunk(
+    chunk: VolumeChunk,
+    values: ChunkLabelDelta<Uint64 | undefined>,
+  ) {
+    let originals = this.originals.get(chunk);
+    if (originals === undefined) {
+      originals = new Map();
+      this.originals.set(chunk, originals);
+    }
+    const specChunkDataSize = this.spec.chunkDataSize;
+    const { chunkDataSize } = chunk;
+    const chunkValues = new Map<number, Uint64>();
+    const editedIndices: number[] = [];
+    for (const [index, value] of values) {
+      const chunkIndex = remapChunkIndex(
+        index,
+        specChunkDataSize,
+        chunkDataSize,
+      );
+      if (chunkIndex === -1) continue;
+      if (value === undefined) {
+        const original = originals.get(chunkIndex);
+        if (original === undefined) continue;
+        originals.delete(chunkIndex);
+        chunkValues.set(chunkIndex, original);
+      } else {
+        chunkValues.set(chunkIndex, value);
+        editedIndices.push(chunkIndex);
+      }
+    }
+    if (chunkValues.size === 0) return;
+    const previous = chunk.replaceValues(chunkValues);
+    for (const chunkIndex of editedIndices) {
+      if (!originals.has(chunkIndex)) {
+        originals.set(chunkIndex, previous.get(chunkIndex)!);
+      }
+    }
+  }
+
+  toJSON() {
+    const { spec } = this;
+    const chunks: Record<string, { indices: number[]; labels: string[] }> = {};
+    for (const [chunkKey, delta] of this.deltas) {
+      chunks[chunkKey] = {
+        indices: Array.from(delta.keys()),
+        labels: Array.from(delta.values(), (label) => label.toString()),
+      };
+    }
+    return {
+      dataType: DataType[spec.dataType].toLowerCase(),
+      chunkDataSize: Array.from(spec.chunkDataSize),
+      lowerVoxelBound: Array.from(spec.lowerVoxelBound),
+      upperVoxelBound: Array.from(spec.upperVoxelBound),
+      chunks,
+    };
+  }
+}
+
+/**
+ * Previous edits of the voxels changed by an operation, for undo.
+ */
+export type LabelEditOperation = Map<
+  VolumeChunkLabelEdits,
+  Map<string, ChunkLabelDelta<Uint64 | undefined>>
+>;
+
+/**
+ * Label edits of a segmentation layer, which may span multiple sources (e.g. the resolutions of a
+ * multiscale volume).
+ */
+export class SegmentationLabelEdits extends RefCounted {
+  changed = new NullarySignal();
+
+  /**
+   * Label painted by the brush and flood fill tools.
+   */
+  label = new WatchableValue<Uint64>(new Uint64(1));
+
+  /**
+   * Radius of the brush, in voxels of the global coordinate space.
+   */
+  brushRadius = new WatchableValue<number>(3);
+
+  private sources = new Map<VolumeChunkSource, VolumeChunkLabelEdits>();
+  private undoStack: LabelEditOperation[] = [];
+
+  constructor() {
+    super();
+    this.registerDisposer(() => {
+      for (const edits of this.sources.values()) {
+        edits.dispose();
+      }
+      this.sources.clear();
+    });
+  }
+
+  get numVoxels() {
+    let count = 0;
+    for (const edits of this.sources.values()) count += edits.numVoxels;
+    return count;
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  private getSourceEdits(source: VolumeChunkSource) {
+    let edits = this.sources.get(source);
+    if (edits === undefined) {
+      // Sources are shared by all layers that display the same data, which therefore share edits.
+      edits = source.labelEdits?.addRef() ?? new VolumeChunkLabelEdits(source);
+      this.sources.set(source, edits);
+    }
+    return edits;
+  }
+
+  /**
+   * Starts a new operation, which is undone as a unit.
+   */
+  beginOperation(): LabelEditOperation {
+    const operation: LabelEditOperation = new Map();
+    const { undoStack } = this;
+    undoStack.push(operation);
+    if (undoStack.length > MAX_LABEL_EDIT_UNDO_OPERATIONS) {
+      undoStack.shift();
+    }
+    return operation;
+  }
+
+  /**
+   * Sets the label of the specified voxels of `source`, in voxel coordinates of the source.
+   */
+  setVoxels(
+    operation: LabelEditOperation,
+    source: VolumeChunkSource,
+    voxels: Iterable<ArrayLike<number>>,
+    label: Uint64,
+  ) {
+    const edits = this.getSourceEdits(source);
+    const { chunkDataSize, rank } = source.spec;
+    const chunkValues = new Map<string, ChunkLabelDelta>();
+    const chunkGridPosition = new Array<number>(rank);
+    for (const voxel of voxels) {
+      let index = 0;
+      let stride = 1;
+      for (let i = 0; i < rank; ++i) {
+        const size = chunkDataSize[i];
+        const x = voxel[i];
+        const chunk = Math.floor(x / size);
+        chunkGridPosition[i] = chunk;
+        index += (x - chunk * size) * stride;
+        stride *= size;
+      }
+      const chunkKey = chunkGridPosition.join();
+      let values = chunkValues.get(chunkKey);
+      if (values === undefined) {
+        values = new Map();
+        chunkValues.set(chunkKey, values);
+      }
+      values.set(index, label);
+    }
+    if (chunkValues.size === 0) return;
+    let operationChunks = operation.get(edits);
+    if (operationChunks === undefined) {
+      operationChunks = new Map();
+      operation.set(edits, operationChunks);
+    }
+    for (const [chunkKey, values] of chunkValues) {
+      const previous = edits.update(chunkKey, values);
+      const operationPrevious = operationChunks.get(chunkKey);
+      if (operationPrevious === undefined) {
+        operationChunks.set(chunkKey, previous);
+        continue;
+      }
+      for (const [index, value] of previous) {
+        if (!operationPrevious.has(index)) {
+          operationPrevious.set(index, value);
+        }
+      }
+    }
+    this.changed.dispatch();
+  }
+
+  /**
+   * Reverts the most recent operation.
+   */
+  undo() {
+    const operation = this.undoStack.pop();
+    if (operation === undefined) return;
+    for (const [edits, chunks] of operation) {
+      for (const [chunkKey, previous] of chunks) {
+        edits.update(chunkKey, previous);
+      }
+    }
+    this.changed.dispatch();
+  }
+
+  /**
+   * Removes all edits.
+   */
+  clear() {
+    for (const edits of this.sources.values()) {
+      edits.clear();
+    }
+    this.undoStack.length = 0;
+    this.changed.dispatch();
+  }
+
+  /**
+   * Writes all edits to the sources, which must support writing, and removes them.  Since written
+   * edits can no longer be reverted, the undo history is cleared, even if writing fails.
+   *
+   * @returns The number of chunks written.
+   */
+  async save(cancellationToken: CancellationToken = uncancelableToken) {
+    let numChunks = 0;
+    try {
+      for (const edits of this.sources.values()) {
+        numChunks += await edits.save(cancellationToken);
+      }
+    } finally {
+      this.undoStack.length = 0;
+      this.changed.dispatch();
+    }
+    return numChunks;
+  }
+
+  /**
+   * Returns the edits of each edited source, in the order in which the sources were first edited.
+   * Since strokes are applied to the visible sources from finest to coarsest resolution, the first
+   * entry is normally the finest edited resolution.
+   */
+  toJSON() {
+    const sources = [];
+    for (const edits of this.sources.values()) {
+      if (edits.deltas.size === 0) continue;
+      sources.push(edits.toJSON());
+    }
+    return { sources };
+  }
+}
+
+/**
+ * Brush region, in render layer coordinates.
+ */
+export interface LabelBrush {
+  center: Float32Array;
+  /**
+   * Radius of the brush, or `Infinity` for an unbounded region.
+   */
+  radius: number;
+  /**
+   * Render layer dimensions spanned by the brush, normally the display dimensions.
+   */
+  dimensions: readonly number[];
+  /**
+   * Unit normal vector of the plane to which the brush is restricted, or `undefined` to not restrict
+   * the brush to a plane.  Components not in `dimensions` must be zero.
+   */
+  normal: Float32Array | undefined;
+}
+
+/**
+ * Returns half of the extent along `normal` of a voxel of a source with the specified
+ * `chunkToLayerTransform`.
+ */
+function getVoxelHalfThickness(
+  normal: Float32Array,
+  chunkToLayerTransform: Float32Array,
+  layerRank: number,
+  chunkRank: number,
+) {
+  const stride = layerRank + 1;
+  let sum = 0;
+  for (let chunkDim = 0; chunkDim < chunkRank; ++chunkDim) {
+    let dot = 0;
+    for (let layerDim = 0; layerDim < layerRank; ++layerDim) {
+      dot +=
+        normal[layerDim] * chunkToLayerTransform[stride * chunkDim + layerDim];
+    }
+    sum += Math.abs(dot);
+  }
+  return sum / 2;
+}
+
+/**
+ * Returns a function that tests whether the center of a voxel of a source with the specified
+ * `chunkToLayerTransform` lies within the brush region.
+ */
+export function makeLabelBrushTest(
+  brush: LabelBrush,
+  chunkToLayerTransform: Float32Array,
+  layerRank: number,
+  chunkRank: number,
+) {
+  const { center, radius, dimensions, normal } = brush;
+  const halfThickness =
+    normal === undefined
+      ? 0
+      : getVoxelHalfThickness(
+          normal,
+          chunkToLayerTransform,
+          layerRank,
+          chunkRank,
+        );
+  const voxelCenter = new Float32Array(layerRank);
+  const layerPosition = new Float32Array(layerRank);
+  const radiusSquared = radius * radius;
+  return (voxel: ArrayLike<number>) => {
+    for (let i = 0; i < chunkRank; ++i) voxelCenter[i] = voxel[i] + 0.5;
+    matrix.transformPoint(
+      layerPosition,
+      chunkToLayerTransform,
+      layerRank + 1,
+      voxelCenter,
+      layerRank,
+    );
+    let distanceSquared = 0;
+    let normalDistance = 0;
+    for (const dim of dimensions) {
+      const d = layerPosition[dim] - center[dim];
+      distanceSquared += d * d;
+      if (normal !== undefined) normalDistance += d * normal[dim];
+    }
+    // Distance within the plane of the brush.
+    return (
+      distanceSquared - normalDistance * normalDistance <= radiusSquared &&
+      Math.abs(normalDistance) <= halfThickness
+    );
+  };
+}
+
+/**
+ * Returns the voxels of a source, in voxel coordinates of the source, whose centers lie within the
+ * brush.  The voxel containing the center of the brush is always included, so that small brushes
+ * also paint coarse resolutions.
+ */
+export function getLabelBrushVoxels(
+  brush: LabelBrush,
+  chunkToLayerTransform: Float32Array,
+  layerToChunkTransform: Float32Array,
+  layerRank: number,
+  lowerVoxelBound: ArrayLike<number>,
+  upperVoxelBound: ArrayLike<number>,
+): Float32Array[] {
+  const chunkRank = lowerVoxelBound.length;
+  const { center, radius, dimensions, normal } = brush;
+  const halfThickness =
+    normal === undefined
+      ? 0
+      : getVoxelHalfThickness(
+          normal,
+          chunkToLayerTransform,
+          layerRank,
+          chunkRank,
+        );
+  // Half extents along each dimension of the bounding box of the brush, which is a disk if
+  // restricted to a plane and a ball otherwise.
+  const halfExtents = dimensions.map((dim) => {
+    const n = normal === undefined ? 0 : normal[dim];
+    return (
+      radius * Math.sqrt(Math.max(0, 1 - n * n)) + halfThickness * Math.abs(n)
+    );
+  });
+  const lower = new Float32Array(chunkRank).fill(Number.POSITIVE_INFINITY);
+  const upper = new Float32Array(chunkRank).fill(Number.NEGATIVE_INFINITY);
+  const corner = new Float32Array(layerRank);
+  const chunkPosition = new Float32Array(layerRank);
+  for (let i = 0, numCorners = 1 << dimensions.length; i < numCorners; ++i) {
+    corner.set(center);
+    dimensions.forEach((dim, j) => {
+      corner[dim] += (i >> j) & 1 ? halfExtents[j] : -halfExtents[j];
+    });
+    matrix.transformPoint(
+      chunkPosition,
+      layerToChunkTransform,
+      layerRank + 1,
+      corner,
+      layerRank,
+    );
+    for (let dim = 0; dim < chunkRank; ++dim) {
+      const x = Math.floor(chunkPosition[dim]);
+      lower[dim] = Math.max(lowerVoxelBound[dim], Math.min(lower[dim], x));
+      upper[dim] = Math.min(upperVoxelBound[dim] - 1, Math.max(upper[dim], x));
+    }
+  }
+  matrix.transformPoint(
+    chunkPosition,
+    layerToChunkTransform,
+    layerRank + 1,
+    center,
+    layerRank,
+  );
+  const centerVoxel = Float32Array.from(
+    chunkPosition.subarray(0, chunkRank),
+    Math.floor,
+  );
+  const test = makeLabelBrushTest(
+    brush,
+    chunkToLayerTransform,
+    layerRank,
+    chunkRank,
+  );
+  const voxels: Float32Array[] = [];
+  if (lower.some((x, dim) => x > upper[dim])) return voxels;
+  const voxel = new Float32Array(lower);
+  while (true) {
+    if (test(voxel) || voxel.every((x, dim) => x === centerVoxel[dim])) {
+      voxels.push(voxel.slice());
+    }
+    let dim = 0;
+    for (; dim < chunkRank; ++dim) {
+      if (++voxel[dim] <= upper[dim]) break;
+      voxel[dim] = lower[dim];
+    }
+    if (dim === chunkRank) break;
+  }
+  return voxels;
+}
+
+/**
+ * Returns the voxels connected to `start` through faces that have the same label as `start` and
+ * satisfy `inRegion`, or `undefined` if there are more than `maxVoxels` such voxels.
+ *
+ * `getLabel` returns `undefined` for voxels without data, which are not filled.
+ */
+export function floodFillLabelVoxels(
+  start: Float32Array,
+  getLabel: (voxel: Float32Array) => Uint64 | undefined,
+  inRegion: (voxel: Float32Array) => boolean,
+  maxVoxels = MAX_FLOOD_FILL_VOXELS,
+): Float32Array[] | undefined {
+  const label = getLabel(start);
+  if (label === undefined) return [];
+  const rank = start.length;
+  const visited = new Set<string>([start.join()]);
+  const queue = [start.slice()];
+  const voxels: Float32Array[] = [];
+  while (queue.length > 0) {
+    const voxel = queue.pop()!;
+    voxels.push(voxel);
+    if (voxels.length > maxVoxels) return undefined;
+    for (let dim = 0; dim < rank; ++dim) {
+      for (const offset of [-1, 1]) {
+        const neighbor = voxel.slice();
+        neighbor[dim] += offset;
+        const key = neighbor.join();
+        if (visited.has(key)) continue;
+        visited.add(key);
+        if (!inRegion(neighbor)) continue;
+        const neighborLabel = getLabel(neighbor);
+        if (
+          neighborLabel === undefined ||
+          !Uint64.equal(neighborLabel, label)
+        ) {
+          continue;
+        }
+        queue.push(neighbor);
+      }
+    }
+  }
+  return voxels;
+}
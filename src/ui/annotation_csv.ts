@@ -0,0 +1,312 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file User interface for importing and exporting annotations as CSV files.
+ */
+
+import type { AnnotationLayerState } from "#src/annotation/annotation_layer_state.js";
+import type { AnnotationCsvColumnMapping } from "#src/annotation/csv.js";
+import {
+  csvAnnotationTypes,
+  exportAnnotationsToCsv,
+  formatCsv,
+  getDefaultCsvColumnMapping,
+  importAnnotationsFromCsv,
+  parseCsv,
+} from "#src/annotation/csv.js";
+import { MultiscaleAnnotationSource } from "#src/annotation/frontend_source.js";
+import { Overlay } from "#src/overlay.js";
+import type { ChunkTransformParameters } from "#src/render_coordinate_transform.js";
+import { StatusMessage } from "#src/status.js";
+import { arraysEqual } from "#src/util/array.js";
+import { downloadText } from "#src/util/dom.js";
+import * as matrix from "#src/util/matrix.js";
+
+function getLayerPosition(
+  chunkTransform: ChunkTransformParameters,
+  chunkPosition: Float32Array,
+) {
+  const { layerRank } = chunkTransform;
+  // Annotation coordinates are padded with zeros to the layer rank.
+  const paddedChunkPosition = new Float32Array(layerRank);
+  paddedChunkPosition.set(chunkPosition);
+  const layerPosition = new Float32Array(layerRank);
+  matrix.transformPoint(
+    layerPosition,
+    chunkTransform.chunkToLayerTransform,
+    layerRank + 1,
+    paddedChunkPosition,
+    layerRank,
+  );
+  return layerPosition;
+}
+
+function getChunkPosition(
+  chunkTransform: ChunkTransformParameters,
+  layerPosition: Float32Array,
+) {
+  const { layerRank } = chunkTransform;
+  const paddedChunkPosition = new Float32Array(layerRank);
+  matrix.transformPoint(
+    paddedChunkPosition,
+    chunkTransform.layerToChunkTransform,
+    layerRank + 1,
+    layerPosition,
+    layerRank,
+  );
+  return paddedChunkPosition.slice(
+    0,
+    chunkTransform.modelTransform.unpaddedRank,
+  );
+}
+
+/**
+ * Downloads the annotations of all annotation sources as a single CSV file, in layer coordinates.
+ * Annotations of types that cannot be represented in CSV are skipped.  Only the annotations that
+ * are currently loaded from multiscale sources are exported.
+ */
+export function exportAnnotationsAsCsv(
+  states: readonly AnnotationLayerState[],
+  fileName: string,
+) {
+  let rows: string[][] | undefined;
+  let exported = 0;
+  let skipped = 0;
+  let partial = false;
+  for (const state of states) {
+    const chunkTransform = state.chunkTransform.value;
+    if (chunkTransform.error !== undefined) continue;
+    if (state.source instanceof MultiscaleAnnotationSource) partial = true;
+    const annotations = Array.from(state.source).filter((annotation) => {
+      if (csvAnnotationTypes.includes(annotation.type)) return true;
+      ++skipped;
+      return false;
+    });
+    const sourceRows = exportAnnotationsToCsv(
+      annotations,
+      chunkTransform.modelTransform.layerDimensionNames,
+      state.source.properties,
+      (chunkPosition) => getLayerPosition(chunkTransform, chunkPosition),
+    );
+    if (rows === undefined) {
+      rows = sourceRows;
+    } else if (arraysEqual(rows[0], sourceRows[0])) {
+      rows.push(...sourceRows.slice(1));
+    } else {
+      StatusMessage.showTemporaryMessage(
+        "Annotation sources with different dimensions or properties cannot be exported " +
+          "to a single CSV file.",
+      );
+      return;
+    }
+    exported += annotations.length;
+  }
+  if (rows === undefined) {
+    StatusMessage.showTemporaryMessage("No annotations to export.");
+    return;
+  }
+  downloadText(formatCsv(rows), fileName, "text/csv");
+  const messages: string[] = [];
+  if (partial) {
+    messages.push(
+      `Exported the ${exported} annotation(s) currently loaded; annotations of ` +
+        "chunked sources outside the loaded region are not included.",
+    );
+  }
+  if (skipped !== 0) {
+    messages.push(
+      `Skipped ${skipped} ellipsoid annotation(s), which cannot be exported to CSV.`,
+    );
+  }
+  if (messages.length !== 0) {
+    StatusMessage.showTemporaryMessage(messages.join("  "));
+  }
+}
+
+/**
+ * Dialog for mapping the columns of a CSV file to annotation fields before importing the rows
+ * into `state`.
+ */
+export class AnnotationCsvImportDialog extends Overlay {
+  mapping: AnnotationCsvColumnMapping;
+
+  constructor(
+    public state: AnnotationLayerState,
+    public chunkTransform: ChunkTransformParameters,
+    public header: string[],
+    public rows: string[][],
+  ) {
+    super();
+    const { content } = this;
+    content.classList.add("neuroglancer-annotation-csv-import");
+    const { layerDimensionNames } = chunkTransform.modelTransform;
+    const { properties } = state.source;
+    const mapping = (this.mapping = getDefaultCsvColumnMapping(
+      header,
+      layerDimensionNames,
+      properties,
+    ));
+
+    const title = document.createElement("div");
+    title.classList.add("neuroglancer-annotation-csv-import-title");
+    title.textContent = `Import ${rows.length} row(s) from CSV`;
+    content.appendChild(title);
+
+    const table = document.createElement("div");
+    table.classList.add("neuroglancer-annotation-csv-import-mapping");
+    const addField = (
+      label: string,
+      tooltip: string,
+      column: number | undefined,
+      setColumn: (column: number | undefined) => void,
+    ) => {
+      const labelElement = document.createElement("label");
+      labelElement.textContent = label;
+      labelElement.title = tooltip;
+      const select = document.createElement("select");
+      const noneOption = document.createElement("option");
+      noneOption.value = "";
+      noneOption.textContent = "(none)";
+      select.appendChild(noneOption);
+      header.forEach((name, i) => {
+        const option = document.createElement("option");
+        option.value = `${i}`;
+        option.textContent = name || `Column ${i + 1}`;
+        select.appendChild(option);
+      });
+      select.value = column === undefined ? "" : `${column}`;
+      select.addEventListener("change", () => {
+        setColumn(select.value === "" ? undefined : parseInt(select.value));
+      });
+      labelElement.appendChild(select);
+      table.appendChild(labelElement);
+    };
+    addField(
+      "id",
+      "Rows with the same id form a single annotation",
+      mapping.id,
+      (column) => {
+        mapping.id = column;
+      },
+    );
+    addField(
+      "type",
+      "Annotation type: point, line, axis_aligned_bounding_box, line_string, or polygon",
+      mapping.type,
+      (column) => {
+        mapping.type = column;
+      },
+    );
+    layerDimensionNames.forEach((name, dim) => {
+      addField(
+        name,
+        `Coordinate in dimension ${name}`,
+        mapping.coordinates[dim],
+        (column) => {
+          mapping.coordinates[dim] = column;
+        },
+      );
+    });
+    addField(
+      "description",
+      "Annotation description",
+      mapping.description,
+      (column) => {
+        mapping.description = column;
+      },
+    );
+    properties.forEach((property, i) => {
+      addField(
+        property.identifier,
+        property.description ?? `Property ${property.identifier}`,
+        mapping.properties[i],
+        (column) => {
+          mapping.properties[i] = column;
+        },
+      );
+    });
+    content.appendChild(table);
+
+    const importButton = document.createElement("button");
+    importButton.textContent = "Import";
+    importButton.addEventListener("click", () => {
+      if (this.importAnnotations()) this.dispose();
+    });
+    content.appendChild(importButton);
+
+    const cancelButton = document.createElement("button");
+    cancelButton.textContent = "Cancel";
+    cancelButton.addEventListener("click", () => this.dispose());
+    content.appendChild(cancelButton);
+  }
+
+  private importAnnotations() {
+    const { state, chunkTransform } = this;
+    const { source } = state;
+    let annotations;
+    try {
+      annotations = importAnnotationsFromCsv(
+        this.rows,
+        this.mapping,
+        source.properties,
+        (layerPosition) => getChunkPosition(chunkTransform, layerPosition),
+      );
+    } catch (e) {
+      StatusMessage.showTemporaryMessage(
+        `Error importing CSV: ${(e as Error).message}`,
+      );
+      return false;
+    }
+    for (const annotation of annotations) {
+      source.add(annotation).dispose();
+    }
+    StatusMessage.showTemporaryMessage(
+      `Imported ${annotations.length} annotation(s).`,
+    );
+    return true;
+  }
+}
+
+/**
+ * Prompts for a CSV file and opens an `AnnotationCsvImportDialog` for it.  The first row of the
+ * file must be a header row.
+ */
+export function importAnnotationsFromCsvFile(state: AnnotationLayerState) {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".csv,text/csv";
+  input.addEventListener("change", async () => {
+    const file = input.files?.[0];
+    if (file === undefined) return;
+    const chunkTransform = state.chunkTransform.value;
+    if (chunkTransform.error !== undefined) {
+      StatusMessage.showTemporaryMessage(
+        `Error importing CSV: ${chunkTransform.error}`,
+      );
+      return;
+    }
+    let rows: string[][];
+    try {
+      rows = parseCsv(await file.text());
+    } catch (e) {
+      StatusMessage.showTemporaryMessage(
+        `Error importing CSV: ${(e as Error).message}`,
+      );
+      return;
+    }
+    if (rows.length === 0) {
+      StatusMessage.showTemporaryMessage("Error importing CSV: file is empty.");
+      return;
+    }
+    new AnnotationCsvImportDialog(
+      state,
+      chunkTransform,
+      rows[0],
+      rows.slice(1),
+    );
+  });
+  input.click();
+}
@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Query box for filtering the annotation list and rendering by property values.
+ */
+
+import type { AnnotationQueryParseResult } from "#src/annotation/query.js";
+import type {
+  TrackableValue,
+  WatchableValueInterface,
+} from "#src/trackable_value.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { removeChildren } from "#src/util/dom.js";
+
+const QUERY_SYNTAX_DESCRIPTION =
+  "Space-separated constraints, all of which must match:\n" +
+  "  prop<0.6, prop>=2, prop=label, prop!=label: compare a property value\n" +
+  "  prop/regexp: match a string property\n" +
+  "  #tag, -#tag: require or exclude a tag\n" +
+  "  /regexp: match the description";
+
+export class AnnotationListFilterWidget extends RefCounted {
+  element = document.createElement("div");
+  private queryElement = document.createElement("input");
+  private errorsElement = document.createElement("ul");
+
+  constructor(
+    public query: TrackableValue<string>,
+    public queryResult: WatchableValueInterface<AnnotationQueryParseResult>,
+  ) {
+    super();
+    const { element, queryElement, errorsElement } = this;
+    element.className = "neuroglancer-annotation-list-filter";
+    queryElement.className = "neuroglancer-annotation-list-filter-query";
+    queryElement.autocomplete = "off";
+    queryElement.spellcheck = false;
+    queryElement.placeholder = "Filter: confidence<0.6 #glia /regexp";
+    queryElement.title = QUERY_SYNTAX_DESCRIPTION;
+    errorsElement.className = "neuroglancer-annotation-list-filter-errors";
+    element.appendChild(queryElement);
+    element.appendChild(errorsElement);
+    this.registerEventListener(queryElement, "input", () => {
+      this.query.value = queryElement.value;
+    });
+    this.registerDisposer(query.changed.add(() => this.updateQuery()));
+    this.registerDisposer(queryResult.changed.add(() => this.updateErrors()));
+    this.updateQuery();
+    this.updateErrors();
+  }
+
+  private updateQuery() {
+    const { value } = this.query;
+    if (this.queryElement.value !== value) {
+      this.queryElement.value = value;
+    }
+  }
+
+  private updateErrors() {
+    const { errorsElement } = this;
+    removeChildren(errorsElement);
+    const { errors } = this.queryResult.value;
+    if (errors === undefined) return;
+    for (const error of errors) {
+      const errorElement = document.createElement("li");
+      errorElement.textContent = error.message;
+      errorsElement.appendChild(errorElement);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Controls for ordering and filtering the annotation list by a numeric property or
+ * measurement.
+ */
+
+import { annotationMeasurementNames } from "#src/annotation/measurement.js";
+import type { TrackableAnnotationListOrder } from "#src/annotation/ordering.js";
+import { isAnnotationListOrdered } from "#src/annotation/ordering.js";
+import type { WatchableValueInterface } from "#src/trackable_value.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { removeChildren } from "#src/util/dom.js";
+import { makeIcon } from "#src/widget/icon.js";
+
+function parseBound(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const x = Number(value);
+  return Number.isFinite(x) ? x : undefined;
+}
+
+const PROPERTY_OPTION_PREFIX = "property:";
+const MEASUREMENT_OPTION_PREFIX = "measurement:";
+
+export class AnnotationListOrderWidget extends RefCounted {
+  element = document.createElement("div");
+  private propertySelect = document.createElement("select");
+  private directionButton: HTMLElement;
+  private minInput = document.createElement("input");
+  private maxInput = document.createElement("input");
+  private rankControls = document.createElement("div");
+
+  constructor(
+    public order: TrackableAnnotationListOrder,
+    public propertyIdentifiers: WatchableValueInterface<readonly string[]>,
+    public navigateByRank: (offset: number) => void,
+  ) {
+    super();
+    const { element, propertySelect, minInput, maxInput, rankControls } = this;
+    element.className = "neuroglancer-annotation-list-order";
+
+    const label = document.createElement("label");
+    label.textContent = "Sort by ";
+    propertySelect.title =
+      "Numeric property or measurement by which to order the list";
+    label.appendChild(propertySelect);
+    element.appendChild(label);
+    this.registerEventListener(propertySelect, "change", () => {
+      const { value } = propertySelect;
+      const property = value.startsWith(PROPERTY_OPTION_PREFIX)
+        ? value.substring(PROPERTY_OPTION_PREFIX.length)
+        : undefined;
+      const measurement = annotationMeasurementNames.find(
+        (name) => value === MEASUREMENT_OPTION_PREFIX + name,
+      );
+      this.order.value = { ...this.order.value, property, measurement };
+    });
+
+    this.directionButton = makeIcon({
+      onClick: () => {
+        const { value } = this.order;
+        this.order.value = { ...value, descending: !value.descending };
+      },
+    });
+    element.appendChild(this.directionButton);
+
+    for (const [input, bound] of [
+      [minInput, "min"],
+      [maxInput, "max"],
+    ] as const) {
+      input.type = "number";
+      input.placeholder = bound;
+      input.title = `Omit annotations with a ${
+        bound === "min" ? "smaller" : "larger"
+      } value (measurements in base units, e.g. m²)`;
+      input.className = "neuroglancer-annotation-list-order-bound";
+      this.registerEventListener(input, "change", () => {
+        this.order.value = {
+          ...this.order.value,
+          [bound]: parseBound(input.value),
+        };
+      });
+      element.appendChild(input);
+    }
+
+    rankControls.className = "neuroglancer-annotation-list-order-rank";
+    rankControls.appendChild(
+      makeIcon({
+        text: "◀",
+        title: "Previous annotation by rank",
+        onClick: () => this.navigateByRank(-1),
+      }),
+    );
+    rankControls.appendChild(
+      makeIcon({
+        text: "▶",
+        title: "Next annotation by rank",
+        onClick: () => this.navigateByRank(1),
+      }),
+    );
+    element.appendChild(rankControls);
+
+    this.registerDisposer(order.changed.add(() => this.updateView()));
+    this.registerDisposer(
+      propertyIdentifiers.changed.add(() => this.updateView()),
+    );
+    this.updateView();
+  }
+
+  private updateView() {
+    const order = this.order.value;
+    const { property, measurement, descending, min, max } = order;
+    const identifiers = this.propertyIdentifiers.value;
+    const { propertySelect, directionButton } = this;
+    removeChildren(propertySelect);
+    const addOption = (value: string, text: string) => {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      propertySelect.appendChild(option);
+    };
+    addOption("", "(insertion order)");
+    for (const identifier of identifiers) {
+      addOption(PROPERTY_OPTION_PREFIX + identifier, identifier);
+    }
+    if (property !== undefined && !identifiers.includes(property)) {
+      // The property may belong to a source that has not yet loaded.
+      addOption(PROPERTY_OPTION_PREFIX + property, property);
+    }
+    for (const name of annotationMeasurementNames) {
+      addOption(MEASUREMENT_OPTION_PREFIX + name, `(${name})`);
+    }
+    propertySelect.value =
+      property !== undefined
+        ? PROPERTY_OPTION_PREFIX + property
+        : measurement !== undefined
+          ? MEASUREMENT_OPTION_PREFIX + measurement
+          : "";
+    directionButton.textContent = descending ? "↓" : "↑";
+    directionButton.title = descending
+      ? "Descending order (click to sort ascending)"
+      : "Ascending order (click to sort descending)";
+    const enabled = isAnnotationListOrdered(order);
+    for (const control of [directionButton, this.rankControls]) {
+      control.style.display = enabled ? "" : "none";
+    }
+    this.updateBound(this.minInput, min, enabled);
+    this.updateBound(this.maxInput, max, enabled);
+  }
+
+  private updateBound(
+    input: HTMLInputElement,
+    value: number | undefined,
+    enabled: boolean,
+  ) {
+    input.style.display = enabled ? "" : "none";
+    if (parseBound(input.value) !== value) {
+      input.value = value === undefined ? "" : value.toString();
+    }
+  }
+}
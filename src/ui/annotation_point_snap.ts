@@ -0,0 +1,183 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Controls for snapping placed point annotations to image intensities.
+ */
+
+import type {
+  PointSnapMode,
+  TrackablePointSnapSettings,
+} from "#src/annotation/point_snap.js";
+import {
+  findSnapPosition,
+  MAX_POINT_SNAP_RADIUS,
+  pointSnapModes,
+} from "#src/annotation/point_snap.js";
+import type { LayerManager } from "#src/layer/index.js";
+import { ImageRenderLayer } from "#src/sliceview/volume/image_renderlayer.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { removeChildren } from "#src/util/dom.js";
+
+const pointSnapModeLabels: Record<PointSnapMode, string> = {
+  none: "off",
+  maximum: "local maximum",
+  centroid: "intensity centroid",
+};
+
+function getImageRenderLayers(layerManager: LayerManager, name: string) {
+  const userLayer = layerManager.getLayerByName(name)?.layer;
+  if (userLayer == null) return [];
+  return userLayer.renderLayers.filter(
+    (renderLayer): renderLayer is ImageRenderLayer =>
+      renderLayer instanceof ImageRenderLayer,
+  );
+}
+
+function getImageLayerNames(layerManager: LayerManager) {
+  return layerManager.managedLayers
+    .filter(
+      (managedLayer) =>
+        getImageRenderLayers(layerManager, managedLayer.name).length > 0,
+    )
+    .map((managedLayer) => managedLayer.name);
+}
+
+/**
+ * Returns the global position at which a point placed at `globalPosition` should be created
+ * according to `settings`, or `undefined` if snapping is disabled or the image layer has no data
+ * loaded in the neighbourhood.
+ *
+ * Intensities are obtained from the same chunks as the mouse position readout, so only data that
+ * is currently loaded for display is searched.  For multi-channel images, the first channel is
+ * used.
+ */
+export function getSnappedPointPosition(
+  layerManager: LayerManager,
+  settings: TrackablePointSnapSettings,
+  globalPosition: Float32Array,
+): Float32Array | undefined {
+  const { mode, layer, radius } = settings.value;
+  if (mode === "none" || layer === undefined) return undefined;
+  const renderLayers = getImageRenderLayers(layerManager, layer);
+  const dimensions = new Set<number>();
+  for (const renderLayer of renderLayers) {
+    const transform = renderLayer.transform.value;
+    if (transform.error !== undefined) continue;
+    transform.globalToRenderLayerDimensions.forEach((layerDim, globalDim) => {
+      if (layerDim !== -1) dimensions.add(globalDim);
+    });
+  }
+  if (dimensions.size === 0) return undefined;
+  return findSnapPosition(
+    globalPosition,
+    Array.from(dimensions),
+    radius,
+    mode,
+    (position) => {
+      for (const renderLayer of renderLayers) {
+        let value = renderLayer.getValueAt(position);
+        if (Array.isArray(value)) value = value[0];
+        if (typeof value === "number") return value;
+      }
+      return undefined;
+    },
+  );
+}
+
+export class AnnotationPointSnapWidget extends RefCounted {
+  element = document.createElement("div");
+  private modeSelect = document.createElement("select");
+  private layerSelect = document.createElement("select");
+  private radiusInput = document.createElement("input");
+
+  constructor(
+    public settings: TrackablePointSnapSettings,
+    public layerManager: LayerManager,
+  ) {
+    super();
+    const { element, modeSelect, layerSelect, radiusInput } = this;
+    element.className = "neuroglancer-annotation-point-snap";
+
+    const label = document.createElement("label");
+    label.textContent = "Snap points to ";
+    modeSelect.title =
+      "Place new points at the brightest voxel or intensity-weighted centroid near the mouse";
+    for (const mode of pointSnapModes) {
+      const option = document.createElement("option");
+      option.value = mode;
+      option.textContent = pointSnapModeLabels[mode];
+      modeSelect.appendChild(option);
+    }
+    label.appendChild(modeSelect);
+    element.appendChild(label);
+    this.registerEventListener(modeSelect, "change", () => {
+      this.settings.value = {
+        ...this.settings.value,
+        mode: modeSelect.value as PointSnapMode,
+      };
+    });
+
+    layerSelect.title = "Image layer whose intensities are searched";
+    element.appendChild(layerSelect);
+    this.registerEventListener(layerSelect, "change", () => {
+      this.settings.value = {
+        ...this.settings.value,
+        layer: layerSelect.value || undefined,
+      };
+    });
+
+    radiusInput.type = "number";
+    radiusInput.min = "1";
+    radiusInput.max = MAX_POINT_SNAP_RADIUS.toString();
+    radiusInput.step = "1";
+    radiusInput.title = "Search radius in voxels";
+    radiusInput.className = "neuroglancer-annotation-point-snap-radius";
+    element.appendChild(radiusInput);
+    this.registerEventListener(radiusInput, "change", () => {
+      const radius = Number(radiusInput.value);
+      if (
+        Number.isInteger(radius) &&
+        radius >= 1 &&
+        radius <= MAX_POINT_SNAP_RADIUS
+      ) {
+        this.settings.value = { ...this.settings.value, radius };
+      } else {
+        this.updateView();
+      }
+    });
+
+    this.registerDisposer(settings.changed.add(() => this.updateView()));
+    this.registerDisposer(
+      layerManager.layersChanged.add(() => this.updateView()),
+    );
+    this.updateView();
+  }
+
+  private updateView() {
+    const { mode, layer, radius } = this.settings.value;
+    const { modeSelect, layerSelect, radiusInput } = this;
+    modeSelect.value = mode;
+    removeChildren(layerSelect);
+    const names = getImageLayerNames(this.layerManager);
+    if (layer !== undefined && !names.includes(layer)) {
+      // The layer may not yet be loaded.
+      names.push(layer);
+    }
+    const addOption = (value: string, text: string) => {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      layerSelect.appendChild(option);
+    };
+    addOption("", "(image layer)");
+    for (const name of names) addOption(name, name);
+    layerSelect.value = layer ?? "";
+    radiusInput.value = radius.toString();
+    const enabled = mode !== "none";
+    layerSelect.style.display = enabled ? "" : "none";
+    radiusInput.style.display = enabled ? "" : "none";
+  }
+}
@@ -0,0 +1,288 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Review queue for stepping through unreviewed annotations and recording verdicts.
+ */
+
+import type { AnnotationLayerState } from "#src/annotation/annotation_layer_state.js";
+import { MultiscaleAnnotationSource } from "#src/annotation/frontend_source.js";
+import type { Annotation, AnnotationId } from "#src/annotation/index.js";
+import { getLoadedAnnotationReference } from "#src/annotation/index.js";
+import {
+  AnnotationReviewStatus,
+  countReviewStatuses,
+  findNextUnreviewed,
+  getReviewStatusPropertyIndex,
+  reviewStatusLabels,
+  setReviewStatus,
+} from "#src/annotation/review.js";
+import { StatusMessage } from "#src/status.js";
+import type { WatchableValueInterface } from "#src/trackable_value.js";
+import { getDefaultAnnotationReviewBindings } from "#src/ui/default_input_event_bindings.js";
+import { animationFrameDebounce } from "#src/util/animation_frame_debounce.js";
+import { RefCounted } from "#src/util/disposable.js";
+import {
+  KeyboardEventBinder,
+  registerActionListener,
+} from "#src/util/keyboard_bindings.js";
+import type { NullarySignal } from "#src/util/signal.js";
+import { makeIcon } from "#src/widget/icon.js";
+
+export interface AnnotationListEntry {
+  state: AnnotationLayerState;
+  annotation: Annotation;
+}
+
+/**
+ * Determines which annotations of the annotation list are listed, and in what order.
+ */
+export interface AnnotationListOrdering {
+  filterAndOrderEntries<T extends AnnotationListEntry>(
+    entries: readonly T[],
+  ): readonly T[];
+  changed: NullarySignal;
+}
+
+interface ReviewQueueEntry extends AnnotationListEntry {
+  propertyIndex: number;
+}
+
+function getStatuses(queue: readonly ReviewQueueEntry[]) {
+  return queue.map((entry) => entry.annotation.properties[entry.propertyIndex]);
+}
+
+/**
+ * Panel of the annotation layer view that steps through the annotations of the layer that have a
+ * `review_status` property, in list order.  Annotations omitted from the list by `ordering` are
+ * also omitted from the queue.  Only annotations held in memory are included, which for sources
+ * with spatially indexed chunks are those of the loaded chunks.
+ */
+export class AnnotationReviewPanel extends RefCounted {
+  element = document.createElement("div");
+  private progressText = document.createElement("div");
+  private progressBar = document.createElement("div");
+  private currentText = document.createElement("div");
+  private current:
+    | { state: AnnotationLayerState; id: AnnotationId }
+    | undefined;
+  private sourceDisposers: (() => void)[] = [];
+
+  private scheduleUpdate = this.registerCancellable(
+    animationFrameDebounce(() => this.update()),
+  );
+
+  constructor(
+    public annotationStates: WatchableValueInterface<
+      readonly AnnotationLayerState[]
+    >,
+    public navigate: (
+      state: AnnotationLayerState,
+      annotation: Annotation,
+    ) => void,
+    public ordering?: AnnotationListOrdering,
+  ) {
+    super();
+    const { element } = this;
+    element.className = "neuroglancer-annotation-review";
+    element.style.display = "none";
+    element.tabIndex = 0;
+    const bindings = getDefaultAnnotationReviewBindings();
+    this.registerDisposer(new KeyboardEventBinder(element, bindings));
+    element.title = bindings.describe();
+
+    const progress = document.createElement("div");
+    progress.className = "neuroglancer-annotation-review-progress";
+    this.progressBar.className = "neuroglancer-annotation-review-progress-bar";
+    progress.appendChild(this.progressBar);
+    this.progressText.className =
+      "neuroglancer-annotation-review-progress-text";
+    element.appendChild(this.progressText);
+    element.appendChild(progress);
+
+    const controls = document.createElement("div");
+    controls.className = "neuroglancer-annotation-review-controls";
+    const addButton = (
+      text: string,
+      title: string,
+      action: string,
+      onClick: () => void,
+    ) => {
+      controls.appendChild(makeIcon({ text, title, onClick }));
+      this.registerDisposer(registerActionListener(element, action, onClick));
+    };
+    addButton("◀", "Previous unreviewed annotation", "review-previous", () =>
+      this.advance(/*reverse=*/ true),
+    );
+    addButton("✔", "Accept", "review-accept", () =>
+      this.setVerdict(AnnotationReviewStatus.ACCEPTED),
+    );
+    addButton("✘", "Reject", "review-reject", () =>
+      this.setVerdict(AnnotationReviewStatus.REJECTED),
+    );
+    addButton("⚑", "Needs fix", "review-needs-fix", () =>
+      this.setVerdict(AnnotationReviewStatus.NEEDS_FIX),
+    );
+    addButton("⟲", "Mark as unreviewed", "review-reset", () =>
+      this.setVerdict(AnnotationReviewStatus.UNREVIEWED, /*advance=*/ false),
+    );
+    addButton("▶", "Next unreviewed annotation", "review-next", () =>
+      this.advance(),
+    );
+    element.appendChild(controls);
+    this.currentText.className = "neuroglancer-annotation-review-current";
+    element.appendChild(this.currentText);
+
+    this.registerDisposer(
+      annotationStates.changed.add(() => this.updateSources()),
+    );
+    this.registerDisposer(() => this.unregisterSources());
+    if (ordering !== undefined) {
+      this.registerDisposer(ordering.changed.add(this.scheduleUpdate));
+    }
+    this.updateSources();
+  }
+
+  private unregisterSources() {
+    for (const disposer of this.sourceDisposers) disposer();
+    this.sourceDisposers.length = 0;
+  }
+
+  private updateSources() {
+    this.unregisterSources();
+    for (const { source } of this.annotationStates.value) {
+      this.sourceDisposers.push(source.changed.add(this.scheduleUpdate));
+      if (source instanceof MultiscaleAnnotationSource) {
+        this.sourceDisposers.push(
+          source.loadedChunksChanged.add(this.scheduleUpdate),
+        );
+      }
+    }
+    this.scheduleUpdate();
+  }
+
+  private getQueue(): readonly ReviewQueueEntry[] {
+    const queue: ReviewQueueEntry[] = [];
+    for (const state of this.annotationStates.value) {
+      const { source } = state;
+      if (state.chunkTransform.value.error !== undefined) continue;
+      const propertyIndex = getReviewStatusPropertyIndex(source.properties);
+      if (propertyIndex === -1) continue;
+      for (const annotation of source) {
+        queue.push({ state, annotation, propertyIndex });
+      }
+    }
+    return this.ordering?.filterAndOrderEntries(queue) ?? queue;
+  }
+
+  private getCurrentIndex(queue: readonly ReviewQueueEntry[]) {
+    const { current } = this;
+    if (current === undefined) return -1;
+    return queue.findIndex(
+      (entry) =>
+        entry.state === current.state && entry.annotation.id === current.id,
+    );
+  }
+
+  private update() {
+    const queue = this.getQueue();
+    const reviewStates = this.annotationStates.value.filter(
+      (state) => getReviewStatusPropertyIndex(state.source.properties) !== -1,
+    );
+    this.element.style.display = reviewStates.length > 0 ? "" : "none";
+    const onlyLoaded = reviewStates.some(
+      (state) => state.source instanceof MultiscaleAnnotationSource,
+    );
+    const counts = countReviewStatuses(getStatuses(queue));
+    const total = queue.length;
+    const reviewed = total - counts[AnnotationReviewStatus.UNREVIEWED];
+    this.progressText.textContent =
+      `${reviewed}/${total} reviewed: ` +
+      `${counts[AnnotationReviewStatus.ACCEPTED]} accepted, ` +
+      `${counts[AnnotationReviewStatus.REJECTED]} rejected, ` +
+      `${counts[AnnotationReviewStatus.NEEDS_FIX]} need fix` +
+      (onlyLoaded ? " (loaded annotations only)" : "");
+    this.progressBar.style.width = `${
+      total === 0 ? 0 : (100 * reviewed) / total
+    }%`;
+    const index = this.getCurrentIndex(queue);
+    if (index === -1) {
+      this.currentText.textContent =
+        total === 0 ? "" : "Press ▶ to start reviewing";
+    } else {
+      const { annotation, propertyIndex } = queue[index];
+      this.currentText.textContent =
+        `Annotation ${index + 1} of ${total}: ` +
+        `${reviewStatusLabels[annotation.properties[propertyIndex]] ?? ""}`;
+    }
+  }
+
+  private moveTo(entry: ReviewQueueEntry) {
+    this.current = { state: entry.state, id: entry.annotation.id };
+    this.navigate(entry.state, entry.annotation);
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Moves to the next unreviewed annotation after the current one.
+   */
+  advance(reverse = false) {
+    const queue = this.getQueue();
+    const index = findNextUnreviewed(
+      getStatuses(queue),
+      this.getCurrentIndex(queue),
+      reverse,
+    );
+    if (index === -1) {
+      StatusMessage.showTemporaryMessage("No unreviewed annotations remain.");
+      this.current = undefined;
+      this.scheduleUpdate();
+      return;
+    }
+    this.moveTo(queue[index]);
+  }
+
+  /**
+   * Records a verdict for the current annotation and, by default, advances to the next unreviewed
+   * annotation.  The annotation is modified once it has been retrieved from the source.
+   */
+  async setVerdict(status: AnnotationReviewStatus, advance = true) {
+    const queue = this.getQueue();
+    const index = this.getCurrentIndex(queue);
+    if (index === -1) {
+      this.advance();
+      return;
+    }
+    const { state, annotation, propertyIndex } = queue[index];
+    const { source } = state;
+    if (source.readonly) {
+      StatusMessage.showTemporaryMessage(
+        "Cannot review annotations of a read-only source.",
+      );
+      return;
+    }
+    const reference = await getLoadedAnnotationReference(source, annotation.id);
+    if (this.wasDisposed) {
+      reference?.dispose();
+      return;
+    }
+    if (reference === undefined) {
+      StatusMessage.showTemporaryMessage(
+        `Annotation ${annotation.id} no longer exists.`,
+      );
+      return;
+    }
+    try {
+      source.update(
+        reference,
+        setReviewStatus(reference.value!, propertyIndex, status),
+      );
+      source.commit(reference);
+    } finally {
+      reference.dispose();
+    }
+    if (advance) this.advance();
+  }
+}
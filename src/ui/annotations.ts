@@ -26,6 +26,7 @@ import {
   AnnotationDisplayState,
   AnnotationLayerState,
 } from "#src/annotation/annotation_layer_state.js";
+import type { AnnotationEditHistory } from "#src/annotation/edit_history.js";
 import { MultiscaleAnnotationSource } from "#src/annotation/frontend_source.js";
 import type {
   Annotation,
@@ -35,15 +36,37 @@ import type {
   Ellipsoid,
   Line,
   LineString,
+  Polygon,
 } from "#src/annotation/index.js";
 import {
-  AnnotationPropertySerializer,
   AnnotationSource,
   annotationToJson,
   AnnotationType,
   annotationTypeHandlers,
+  formatAnnotationPropertyValue,
   formatNumericProperty,
+  getLineStringVertices,
+  makeLineStringPoints,
+  measureAnnotation,
 } from "#src/annotation/index.js";
+import {
+  interpolateLineStringVertices,
+  interpolatePolygonVertices,
+} from "#src/annotation/interpolation.js";
+import {
+  formatAnnotationMeasurement,
+  getAnnotationMeasurementSpace,
+} from "#src/annotation/measurement.js";
+import type { AnnotationListOrder } from "#src/annotation/ordering.js";
+import {
+  getNumericPropertyIdentifiers,
+  isAnnotationListOrdered,
+  isNumericAnnotationProperty,
+  orderAnnotationEntries,
+  TrackableAnnotationListOrder,
+} from "#src/annotation/ordering.js";
+import { TrackablePointSnapSettings } from "#src/annotation/point_snap.js";
+import { getAnnotationQueryFilter } from "#src/annotation/query.js";
 import {
   AnnotationLayer,
   PerspectiveViewAnnotationLayer,
@@ -67,19 +90,34 @@ import {
   registerCallbackWhenSegmentationDisplayStateChanged,
   SegmentWidgetFactory,
 } from "#src/segmentation_display_state/frontend.js";
+import { pinRegion } from "#src/sliceview/pin_region.js";
+import { StatusMessage } from "#src/status.js";
 import { ElementVisibilityFromTrackableBoolean } from "#src/trackable_boolean.js";
 import type { WatchableValueInterface } from "#src/trackable_value.js";
 import {
   AggregateWatchableValue,
+  makeCachedDerivedWatchableValue,
   makeCachedLazyDerivedWatchableValue,
   registerNested,
   WatchableValue,
 } from "#src/trackable_value.js";
+import {
+  exportAnnotationsAsCsv,
+  importAnnotationsFromCsvFile,
+} from "#src/ui/annotation_csv.js";
+import { AnnotationListFilterWidget } from "#src/ui/annotation_list_filter.js";
+import { AnnotationListOrderWidget } from "#src/ui/annotation_list_order.js";
+import {
+  AnnotationPointSnapWidget,
+  getSnappedPointPosition,
+} from "#src/ui/annotation_point_snap.js";
+import type { AnnotationListEntry } from "#src/ui/annotation_review.js";
+import { AnnotationReviewPanel } from "#src/ui/annotation_review.js";
 import { getDefaultAnnotationListBindings } from "#src/ui/default_input_event_bindings.js";
 import { LegacyTool, registerLegacyTool } from "#src/ui/tool.js";
 import { animationFrameDebounce } from "#src/util/animation_frame_debounce.js";
 import type { ArraySpliceOp } from "#src/util/array.js";
-import { arraysEqual } from "#src/util/array.js";
+import { arraysEqual, gatherUpdate } from "#src/util/array.js";
 import { setClipboard } from "#src/util/clipboard.js";
 import {
   serializeColor,
@@ -188,6 +226,19 @@ function getCenterPosition(center: Float32Array, annotation: Annotation) {
     case AnnotationType.ELLIPSOID:
       center.set(annotation.center);
       break;
+    case AnnotationType.LINE_STRING:
+    case AnnotationType.POLYGON: {
+      const vertices =
+        annotation.type === AnnotationType.LINE_STRING
+          ? getLineStringVertices(annotation.points)
+          : annotation.points;
+      center.fill(0);
+      for (const vertex of vertices) {
+        vector.add(center, center, vertex);
+      }
+      vector.scale(center, center, 1 / vertices.length);
+      break;
+    }
   }
 }
 
@@ -227,6 +278,95 @@ function visitTransformedAnnotationGeometry(
   );
 }
 
+/**
+ * Adds line strings or polygons interpolated between `start` and `end`, which must be of the same
+ * type, on each slice of the layer coordinate space between them.  The new annotations copy the
+ * properties and related segments of `start`, and are recorded in `history` as a single edit.
+ */
+function interpolateAnnotations(
+  annotationLayer: AnnotationLayerState,
+  history: AnnotationEditHistory,
+  start: LineString | Polygon,
+  end: LineString | Polygon,
+) {
+  const chunkTransform = annotationLayer.chunkTransform.value;
+  if (chunkTransform.error !== undefined) {
+    StatusMessage.showTemporaryMessage(chunkTransform.error);
+    return;
+  }
+  const { layerRank, chunkToLayerTransform, layerToChunkTransform } =
+    chunkTransform;
+  const { source } = annotationLayer;
+  const { rank } = source;
+  const isPolygon = start.type === AnnotationType.POLYGON;
+  const noun = isPolygon ? "polygon" : "line string";
+  const toLayerVertices = (annotation: LineString | Polygon) =>
+    (annotation.type === AnnotationType.POLYGON
+      ? annotation.points
+      : getLineStringVertices(annotation.points)
+    ).map((chunkPosition) => {
+      const paddedChunkPosition = new Float32Array(layerRank);
+      paddedChunkPosition.set(chunkPosition);
+      const layerPosition = new Float32Array(layerRank);
+      matrix.transformPoint(
+        layerPosition,
+        chunkToLayerTransform,
+        layerRank + 1,
+        paddedChunkPosition,
+        layerRank,
+      );
+      return layerPosition;
+    });
+  const slices = (
+    isPolygon ? interpolatePolygonVertices : interpolateLineStringVertices
+  )(toLayerVertices(start), toLayerVertices(end));
+  if (slices === undefined) {
+    StatusMessage.showTemporaryMessage(
+      `The ${noun}s must lie in distinct parallel slices to be interpolated.`,
+    );
+    return;
+  }
+  if (slices.length === 0) {
+    StatusMessage.showTemporaryMessage(
+      `The ${noun}s lie in adjacent slices; nothing to interpolate.`,
+    );
+    return;
+  }
+  history.transaction(() => {
+    for (const layerVertices of slices) {
+      const vertices = layerVertices.map((layerPosition) => {
+        const chunkPosition = new Float32Array(layerRank);
+        matrix.transformPoint(
+          chunkPosition,
+          layerToChunkTransform,
+          layerRank + 1,
+          layerPosition,
+          layerRank,
+        );
+        return chunkPosition.slice(0, rank);
+      });
+      const common = {
+        id: "",
+        properties: Array.from(start.properties),
+        relatedSegments: start.relatedSegments?.map((x) => Array.from(x)),
+      };
+      const annotation: LineString | Polygon = isPolygon
+        ? { ...common, type: AnnotationType.POLYGON, points: vertices }
+        : {
+            ...common,
+            type: AnnotationType.LINE_STRING,
+            points: makeLineStringPoints(vertices),
+          };
+      source.add(annotation, /*commit=*/ true).dispose();
+    }
+  });
+  StatusMessage.showTemporaryMessage(
+    `Added ${slices.length} interpolated ${noun}${
+      slices.length === 1 ? "" : "s"
+    }.`,
+  );
+}
+
 interface AnnotationLayerViewAttachedState {
   refCounted: RefCounted;
   annotations: Annotation[];
@@ -252,10 +392,15 @@ export class AnnotationLayerView extends Tab {
     changed: new Signal<(splices: ArraySpliceOp[]) => void>(),
   };
   private virtualList = new VirtualList({ source: this.virtualListSource });
-  private listElements: {
-    state: AnnotationLayerState;
-    annotation: Annotation;
-  }[] = [];
+  private listElements: AnnotationListEntry[] = [];
+  /**
+   * Maps each listed annotation to its index in `listElements` when the list is filtered by a query
+   * or ordered by a property or measurement, or `undefined` when all annotations are listed in
+   * insertion order.
+   */
+  private orderedListIndices:
+    | Map<AnnotationLayerState, Map<AnnotationId, number>>
+    | undefined;
   private updated = false;
   private mutableControls = document.createElement("div");
   private headerRow = document.createElement("div");
@@ -323,11 +468,17 @@ export class AnnotationLayerView extends Tab {
     this.forceUpdateView();
   }
 
+  /**
+   * Signals a change that may affect which annotations are listed, or their order.
+   */
+  private listOrderingChanged = new NullarySignal();
+
   private forceUpdateView = () => {
     this.updated = false;
     this.updateView();
   };
 
+  private measurementColumn = 0;
   private globalDimensionIndices: number[] = [];
   private localDimensionIndices: number[] = [];
   private curCoordinateSpaceGeneration = -1;
@@ -459,9 +610,103 @@ export class AnnotationLayerView extends Tab {
     });
     mutableControls.appendChild(lineStringButton);
 
+    const polygonButton = makeIcon({
+      text: annotationTypeHandlers[AnnotationType.POLYGON].icon,
+      title: "Annotate polygon",
+      onClick: () => {
+        this.layer.tool.value = new PlacePolygonTool(this.layer, {});
+      },
+    });
+    mutableControls.appendChild(polygonButton);
+
+    const importCsvButton = makeIcon({
+      text: "⭱",
+      title: "Import annotations from CSV",
+      onClick: () => {
+        const state = this.annotationStates.states.find(
+          (state) => !state.source.readonly,
+        );
+        if (state !== undefined) importAnnotationsFromCsvFile(state);
+      },
+    });
+    mutableControls.appendChild(importCsvButton);
+
     toolbox.appendChild(mutableControls);
+
+    const exportCsvButton = makeIcon({
+      text: "⭳",
+      title: "Export annotations to CSV",
+      onClick: () => {
+        exportAnnotationsAsCsv(
+          this.annotationStates.states,
+          `${this.layer.managedLayer.name}.csv`,
+        );
+      },
+    });
+    toolbox.appendChild(exportCsvButton);
     this.element.appendChild(toolbox);
 
+    const pointSnapWidget = this.registerDisposer(
+      new AnnotationPointSnapWidget(
+        this.layer.pointSnap,
+        this.layer.manager.root.layerManager,
+      ),
+    );
+    this.element.appendChild(pointSnapWidget.element);
+
+    const reviewPanel = this.registerDisposer(
+      new AnnotationReviewPanel(
+        this.annotationStates,
+        (state, annotation) => {
+          this.layer.selectAnnotation(state, annotation.id, true);
+          this.moveToAnnotation(state, annotation);
+        },
+        {
+          filterAndOrderEntries: (entries) =>
+            this.filterAndOrderEntries(entries),
+          changed: this.listOrderingChanged,
+        },
+      ),
+    );
+    this.element.appendChild(reviewPanel.element);
+
+    const listFilterWidget = this.registerDisposer(
+      new AnnotationListFilterWidget(
+        this.displayState.filterQuery,
+        this.displayState.filterQueryResult,
+      ),
+    );
+    this.element.appendChild(listFilterWidget.element);
+
+    const listOrderWidget = this.registerDisposer(
+      new AnnotationListOrderWidget(
+        this.layer.annotationListOrder,
+        this.registerDisposer(
+          makeCachedDerivedWatchableValue(
+            (states: readonly AnnotationLayerState[]) =>
+              getNumericPropertyIdentifiers(
+                states.map((state) => state.source.properties),
+              ),
+            [this.annotationStates],
+            arraysEqual,
+          ),
+        ),
+        (offset) => this.moveByRank(offset),
+      ),
+    );
+    this.element.appendChild(listOrderWidget.element);
+    for (const watchable of [
+      this.layer.annotationListOrder,
+      this.displayState.filterQueryResult,
+      this.layer.localCoordinateSpace,
+      this.layer.manager.root.coordinateSpace,
+    ]) {
+      this.registerDisposer(
+        watchable.changed.add(this.listOrderingChanged.dispatch),
+      );
+    }
+    this.registerDisposer(this.listOrderingChanged.add(this.forceUpdateView));
+
     this.element.appendChild(this.headerRow);
     const { virtualList } = this;
     virtualList.element.classList.add("neuroglancer-annotation-list");
@@ -505,15 +750,54 @@ export class AnnotationLayerView extends Tab {
     id: AnnotationId,
     scrollIntoView = false,
   ): HTMLElement | undefined {
+    const listIndex = this.getListIndex(state, id);
+    if (listIndex === undefined) return undefined;
+    if (scrollIntoView) {
+      this.virtualList.scrollItemIntoView(listIndex);
+    }
+    return this.virtualList.getItemElement(listIndex);
+  }
+
+  private getListIndex(
+    state: AnnotationLayerState,
+    id: AnnotationId,
+  ): number | undefined {
+    const { orderedListIndices } = this;
+    if (orderedListIndices !== undefined) {
+      return orderedListIndices.get(state)?.get(id);
+    }
     const attached = this.attachedAnnotationStates.get(state);
     if (attached === undefined) return undefined;
     const index = attached.idToIndex.get(id);
     if (index === undefined) return undefined;
-    const listIndex = attached.listOffset + index;
-    if (scrollIntoView) {
-      this.virtualList.scrollItemIntoView(index);
+    return attached.listOffset + index;
+  }
+
+  /**
+   * Selects and moves to the annotation `offset` positions away from the selected annotation in
+   * list order.
+   */
+  private moveByRank(offset: number) {
+    this.updateView();
+    const { listElements } = this;
+    const { length } = listElements;
+    if (length === 0) return;
+    const selected = this.selectedAnnotationState.value;
+    let listIndex =
+      selected === undefined
+        ? undefined
+        : this.getListIndex(
+            selected.annotationLayerState,
+            selected.annotationId,
+          );
+    if (listIndex === undefined) {
+      listIndex = offset > 0 ? 0 : length - 1;
+    } else {
+      listIndex = Math.max(0, Math.min(length - 1, listIndex + offset));
     }
-    return this.virtualList.getItemElement(listIndex);
+    const { state, annotation } = listElements[listIndex];
+    this.layer.selectAnnotation(state, annotation.id, true);
+    this.moveToAnnotation(state, annotation);
   }
 
   private clearSelectionClass() {
@@ -698,6 +982,18 @@ export class AnnotationLayerView extends Tab {
       for (const localDim of this.localDimensionIndices) {
         addDimension(localCoordinateSpace, localDim);
       }
+      const measurementHeader = document.createElement("div");
+      measurementHeader.classList.add(
+        "neuroglancer-annotations-view-measurement",
+      );
+      measurementHeader.textContent = "measure";
+      measurementHeader.title =
+        "Length, area or volume (choose a measurement under Sort by to order the list)";
+      measurementHeader.style.gridColumn = "measurement";
+      this.measurementColumn = i;
+      this.setColumnWidth(i, measurementHeader.textContent.length);
+      gridTemplate += ` [measurement] var(--neuroglancer-column-${i}-width)`;
+      headerRow.appendChild(measurementHeader);
       headerRow.appendChild(deletePlaceholder);
       gridTemplate += " [delete] 2ch";
       this.gridTemplate = gridTemplate;
@@ -728,6 +1024,7 @@ export class AnnotationLayerView extends Tab {
     }
     const oldLength = this.virtualListSource.length;
     this.updateListLength();
+    this.orderListElements();
     this.virtualListSource.changed!.dispatch([
       {
         retainCount: 0,
@@ -739,6 +1036,111 @@ export class AnnotationLayerView extends Tab {
     this.resetOnUpdate();
   }
 
+  /**
+   * Returns the space in which the annotations of `state` are measured, or `undefined` if its
+   * transform is invalid.
+   */
+  private getMeasurementSpace(state: AnnotationLayerState) {
+    const chunkTransform = state.chunkTransform.value;
+    if (chunkTransform.error !== undefined) return undefined;
+    return getAnnotationMeasurementSpace(
+      chunkTransform,
+      this.layer.manager.root.coordinateSpace.value,
+      this.layer.localCoordinateSpace.value,
+    );
+  }
+
+  /**
+   * Returns the value by which the annotations of `state` are ordered, or `undefined` for
+   * annotations that are omitted because they lack the property or measurement.
+   */
+  private getOrderValueGetter(
+    state: AnnotationLayerState,
+    order: AnnotationListOrder,
+  ): (annotation: Annotation) => number | undefined {
+    const { property, measurement } = order;
+    if (property !== undefined) {
+      const propertyIndex = state.source.properties.findIndex(
+        (p) => p.identifier === property && isNumericAnnotationProperty(p),
+      );
+      return (annotation) =>
+        propertyIndex === -1 ? undefined : annotation.properties[propertyIndex];
+    }
+    const measurementSpace = this.getMeasurementSpace(state);
+    return (annotation) => {
+      if (measurementSpace === undefined) return undefined;
+      return measureAnnotation(annotation, measurementSpace.transform).find(
+        (m) => m.name === measurement,
+      )?.value;
+    };
+  }
+
+  /**
+   * Returns the entries that are listed, in list order, given the filter query and list order.
+   * Returns `entries` itself if neither applies.
+   */
+  filterAndOrderEntries<T extends AnnotationListEntry>(
+    entries: readonly T[],
+  ): readonly T[] {
+    const queryResult = this.displayState.filterQueryResult.value;
+    const filters = new Map<
+      AnnotationLayerState,
+      ((annotation: Annotation) => boolean) | undefined
+    >();
+    for (const { state } of entries) {
+      if (filters.has(state)) continue;
+      filters.set(
+        state,
+        getAnnotationQueryFilter(queryResult, state.source.properties),
+      );
+    }
+    if (Array.from(filters.values()).some((filter) => filter !== undefined)) {
+      entries = entries.filter(({ state, annotation }) => {
+        const filter = filters.get(state);
+        return filter === undefined || filter(annotation);
+      });
+    }
+    const order = this.layer.annotationListOrder.value;
+    if (!isAnnotationListOrdered(order)) return entries;
+    const getters = new Map<
+      AnnotationLayerState,
+      (annotation: Annotation) => number | undefined
+    >();
+    return orderAnnotationEntries(
+      entries,
+      ({ state, annotation }) => {
+        let getter = getters.get(state);
+        if (getter === undefined) {
+          getter = this.getOrderValueGetter(state, order);
+          getters.set(state, getter);
+        }
+        return getter(annotation);
+      },
+      order,
+    );
+  }
+
+  private orderListElements() {
+    const { listElements } = this;
+    const ordered = this.filterAndOrderEntries(listElements);
+    if (ordered === listElements) {
+      this.orderedListIndices = undefined;
+      return;
+    }
+    listElements.splice(0, listElements.length, ...ordered);
+    const orderedListIndices = (this.orderedListIndices = new Map());
+    for (let i = 0, length = listElements.length; i < length; ++i) {
+      const { state, annotation } = listElements[i];
+      let indices = orderedListIndices.get(state);
+      if (indices === undefined) {
+        indices = new Map();
+        orderedListIndices.set(state, indices);
+      }
+      indices.set(annotation.id, i);
+    }
+    this.virtualListSource.length = listElements.length;
+  }
+
   private updateListLength() {
     let length = 0;
     for (const info of this.attachedAnnotationStates.values()) {
@@ -756,8 +1158,9 @@ export class AnnotationLayerView extends Tab {
       this.updated = false;
       return;
     }
-    if (!this.updated) {
-      this.updateView();
+    if (!this.updated || this.orderedListIndices !== undefined) {
+      // A filtered or ordered list is rebuilt, since the change may affect the membership or order.
+      this.forceUpdateView();
       return;
     }
     const info = this.attachedAnnotationStates.get(state);
@@ -783,8 +1186,8 @@ export class AnnotationLayerView extends Tab {
       this.updated = false;
       return;
     }
-    if (!this.updated) {
-      this.updateView();
+    if (!this.updated || this.orderedListIndices !== undefined) {
+      this.forceUpdateView();
       return;
     }
     const info = this.attachedAnnotationStates.get(state);
@@ -810,8 +1213,8 @@ export class AnnotationLayerView extends Tab {
       this.updated = false;
       return;
     }
-    if (!this.updated) {
-      this.updateView();
+    if (!this.updated || this.orderedListIndices !== undefined) {
+      this.forceUpdateView();
       return;
     }
     const info = this.attachedAnnotationStates.get(state);
@@ -844,6 +1247,26 @@ export class AnnotationLayerView extends Tab {
     this.updateSelectionView();
   }
 
+  private moveToAnnotation(
+    state: AnnotationLayerState,
+    annotation: Annotation,
+  ) {
+    const chunkTransform = state.chunkTransform.value;
+    if (chunkTransform.error !== undefined) return;
+    const { layerRank } = chunkTransform;
+    const chunkPosition = new Float32Array(layerRank);
+    const layerPosition = new Float32Array(layerRank);
+    getCenterPosition(chunkPosition, annotation);
+    matrix.transformPoint(
+      layerPosition,
+      chunkTransform.chunkToLayerTransform,
+      layerRank + 1,
+      chunkPosition,
+      layerRank,
+    );
+    setLayerPosition(this.layer, chunkTransform, layerPosition);
+  }
+
   private makeAnnotationListElement(
     annotation: Annotation,
     state: AnnotationLayerState,
@@ -922,6 +1345,30 @@ export class AnnotationLayerView extends Tab {
         maybeAddDeleteButton();
       },
     );
+    const measurementSpace = this.getMeasurementSpace(state);
+    if (measurementSpace !== undefined) {
+      const measurements = measureAnnotation(
+        annotation,
+        measurementSpace.transform,
+      );
+      if (measurements.length > 0) {
+        const formatted = measurements.map((m) =>
+          formatAnnotationMeasurement(m, measurementSpace.unit),
+        );
+        const measurementElement = document.createElement("div");
+        measurementElement.classList.add(
+          "neuroglancer-annotation-measurement",
+        );
+        measurementElement.style.gridColumn = "measurement";
+        measurementElement.style.gridRow = "1";
+        measurementElement.textContent = formatted[0];
+        measurementElement.title = measurements
+          .map((m, i) => `${m.name}: ${formatted[i]}`)
+          .join("\n");
+        this.setColumnWidth(this.measurementColumn, formatted[0].length);
+        element.appendChild(measurementElement);
+      }
+    }
     if (annotation.description) {
       ++numRows;
       const description = document.createElement("div");
@@ -954,18 +1401,7 @@ export class AnnotationLayerView extends Tab {
     element.addEventListener("action:move-to-annotation", (event) => {
       event.stopPropagation();
       event.preventDefault();
-      const { layerRank } = chunkTransform;
-      const chunkPosition = new Float32Array(layerRank);
-      const layerPosition = new Float32Array(layerRank);
-      getCenterPosition(chunkPosition, annotation);
-      matrix.transformPoint(
-        layerPosition,
-        chunkTransform.chunkToLayerTransform,
-        layerRank + 1,
-        chunkPosition,
-        layerRank,
-      );
-      setLayerPosition(this.layer, chunkTransform, layerPosition);
+      this.moveToAnnotation(state, annotation);
     });
 
     const selectionState = this.selectedAnnotationState.value;
@@ -1041,6 +1477,7 @@ const ANNOTATE_LINE_TOOL_ID = "annotateLine";
 const ANNOTATE_BOUNDING_BOX_TOOL_ID = "annotateBoundingBox";
 const ANNOTATE_ELLIPSOID_TOOL_ID = "annotateSphere";
 const ANNOTATE_LINE_STRING_TOOL_ID = 'annotateLineString';
+const ANNOTATE_POLYGON_TOOL_ID = "annotatePolygon";
 
 export class PlacePointTool extends PlaceAnnotationTool {
   trigger(mouseState: MouseSelectionState) {
@@ -1050,8 +1487,13 @@ export class PlacePointTool extends PlaceAnnotationTool {
       return;
     }
     if (mouseState.updateUnconditionally()) {
-      const point = getMousePositionInAnnotationCoordinates(
-        mouseState,
+      const snappedPosition = getSnappedPointPosition(
+        this.layer.manager.root.layerManager,
+        this.layer.pointSnap,
+        mouseState.unsnappedPosition,
+      );
+      const point = getGlobalPositionInAnnotationCoordinates(
+        snappedPosition ?? mouseState.unsnappedPosition,
         annotationLayer,
       );
       if (point === undefined) return;
@@ -1084,6 +1526,16 @@ export class PlacePointTool extends PlaceAnnotationTool {
 function getMousePositionInAnnotationCoordinates(
   mouseState: MouseSelectionState,
   annotationLayer: AnnotationLayerState,
+): Float32Array | undefined {
+  return getGlobalPositionInAnnotationCoordinates(
+    mouseState.unsnappedPosition,
+    annotationLayer,
+  );
+}
+
+function getGlobalPositionInAnnotationCoordinates(
+  globalPosition: Float32Array,
+  annotationLayer: AnnotationLayerState,
 ): Float32Array | undefined {
   const chunkTransform = annotationLayer.chunkTransform.value;
   if (chunkTransform.error !== undefined) return undefined;
@@ -1093,7 +1545,7 @@ function getMousePositionInAnnotationCoordinates(
   if (
     !getChunkPositionFromCombinedGlobalLocalPositions(
       chunkPosition,
-      mouseState.unsnappedPosition,
+      globalPosition,
       annotationLayer.localPosition.value,
       chunkTransform.layerRank,
       chunkTransform.combinedGlobalLocalToChunkTransform,
@@ -1442,6 +1894,110 @@ export class PlaceLineStringTool extends PlaceMultiPointAnnotationTool {
 }
 PlaceLineStringTool.prototype.annotationType = AnnotationType.LINE_STRING;
 
+function pointsEqual(a: Float32Array, b: Float32Array) {
+  return a.length === b.length && a.every((x, i) => x === b[i]);
+}
+
+/**
+ * Places a polygon one vertex per click.  The last vertex follows the mouse until the next click;
+ * the polygon is closed by `complete` (bound to Enter and double-click).
+ */
+export class PlacePolygonTool extends TwoStepAnnotationTool {
+  get description() {
+    return "annotate polygon";
+  }
+
+  getInitialAnnotation(
+    mouseState: MouseSelectionState,
+    annotationLayer: AnnotationLayerState,
+  ): Annotation {
+    const point = getMousePositionInAnnotationCoordinates(
+      mouseState,
+      annotationLayer,
+    );
+    return <Polygon>{
+      id: "",
+      type: AnnotationType.POLYGON,
+      description: "",
+      relatedSegments: getSelectedAssociatedSegments(annotationLayer),
+      points: [point, point],
+      properties: annotationLayer.source.properties.map((x) => x.default),
+    };
+  }
+
+  getUpdatedAnnotation(
+    oldAnnotation: Polygon,
+    mouseState: MouseSelectionState,
+    annotationLayer: AnnotationLayerState,
+  ): Annotation {
+    const point = getMousePositionInAnnotationCoordinates(
+      mouseState,
+      annotationLayer,
+    );
+    if (point === undefined) return oldAnnotation;
+    const points = oldAnnotation.points.slice();
+    points[points.length - 1] = point;
+    return { ...oldAnnotation, points };
+  }
+
+  trigger(mouseState: MouseSelectionState) {
+    const state = this.inProgressAnnotation.value;
+    if (state === undefined) {
+      super.trigger(mouseState);
+      return;
+    }
+    if (!mouseState.updateUnconditionally()) return;
+    // Fix the vertex that follows the mouse, and start a new one.
+    const { reference, annotationLayer } = state;
+    const annotation = this.getUpdatedAnnotation(
+      reference.value as Polygon,
+      mouseState,
+      annotationLayer,
+    ) as Polygon;
+    const { points } = annotation;
+    annotationLayer.source.update(reference, {
+      ...annotation,
+      points: [...points, points[points.length - 1]],
+    });
+  }
+
+  complete() {
+    const state = this.inProgressAnnotation.value;
+    if (state === undefined) return;
+    const { reference, annotationLayer } = state;
+    const annotation = reference.value as Polygon;
+    // Drop the vertex that follows the mouse, as well as repeated vertices due to double clicks.
+    const points: Float32Array[] = [];
+    for (const point of annotation.points.slice(0, -1)) {
+      if (points.length > 0 && pointsEqual(points[points.length - 1], point)) {
+        continue;
+      }
+      points.push(point);
+    }
+    while (
+      points.length > 1 &&
+      pointsEqual(points[0], points[points.length - 1])
+    ) {
+      points.pop();
+    }
+    if (points.length < 3) {
+      StatusMessage.showTemporaryMessage(
+        "A polygon requires at least 3 distinct vertices.",
+      );
+      this.deactivate();
+      return;
+    }
+    annotationLayer.source.update(reference, { ...annotation, points });
+    annotationLayer.source.commit(reference);
+    state.disposer();
+    this.inProgressAnnotation.value = undefined;
+  }
+
+  toJSON() {
+    return ANNOTATE_POLYGON_TOOL_ID;
+  }
+}
+
 registerLegacyTool(
   ANNOTATE_POINT_TOOL_ID,
   (layer, options) =>
@@ -1465,6 +2021,11 @@ registerLegacyTool(
 registerLegacyTool(
   ANNOTATE_LINE_STRING_TOOL_ID,
   (layer, options) => new PlaceLineStringTool(<UserLayerWithAnnotations>layer, options));
+registerLegacyTool(
+  ANNOTATE_POLYGON_TOOL_ID,
+  (layer, options) =>
+    new PlacePolygonTool(<UserLayerWithAnnotations>layer, options),
+);
 
 const newRelatedSegmentKeyMap = EventActionMap.fromObject({
   enter: { action: "commit" },
@@ -1667,6 +2228,9 @@ function makeRelatedSegmentList(
 }
 
 const ANNOTATION_COLOR_JSON_KEY = "annotationColor";
+const ANNOTATION_LIST_ORDER_JSON_KEY = "annotationListOrder";
+const ANNOTATION_FILTER_JSON_KEY = "annotationFilter";
+const POINT_SNAP_JSON_KEY = "pointSnap";
 export function UserLayerWithAnnotationsMixin<
   TBase extends { new (...args: any[]): UserLayer },
 >(Base: TBase) {
@@ -1677,12 +2241,26 @@ export function UserLayerWithAnnotationsMixin<
     annotationCrossSectionRenderScaleTarget = trackableRenderScaleTarget(8);
     annotationProjectionRenderScaleHistogram = new RenderScaleHistogram();
     annotationProjectionRenderScaleTarget = trackableRenderScaleTarget(8);
+    annotationListOrder = new TrackableAnnotationListOrder();
+    pointSnap = new TrackablePointSnapSettings();
+    /**
+     * Line string or polygon marked as the start of an interpolation, see
+     * `interpolateAnnotations`.
+     */
+    interpolationStart:
+      | { annotationLayer: AnnotationLayerState; id: AnnotationId }
+      | undefined = undefined;
 
     constructor(...args: any[]) {
       super(...args);
       this.annotationDisplayState.color.changed.add(
         this.specificationChanged.dispatch,
       );
+      this.annotationListOrder.changed.add(this.specificationChanged.dispatch);
+      this.pointSnap.changed.add(this.specificationChanged.dispatch);
+      this.annotationDisplayState.filterQuery.changed.add(
+        this.specificationChanged.dispatch,
+      );
       this.annotationDisplayState.shader.changed.add(
         this.specificationChanged.dispatch,
       );
@@ -1749,6 +2327,13 @@ export function UserLayerWithAnnotationsMixin<
       this.annotationDisplayState.color.restoreState(
         specification[ANNOTATION_COLOR_JSON_KEY],
       );
+      this.annotationListOrder.restoreState(
+        specification[ANNOTATION_LIST_ORDER_JSON_KEY],
+      );
+      this.annotationDisplayState.filterQuery.restoreState(
+        specification[ANNOTATION_FILTER_JSON_KEY] ?? "",
+      );
+      this.pointSnap.restoreState(specification[POINT_SNAP_JSON_KEY]);
     }
 
     captureSelectionState(
@@ -1772,6 +2357,8 @@ export function UserLayerWithAnnotationsMixin<
       );
       state.annotationIndex = mouseState.pickedAnnotationIndex!;
       state.annotationCount = mouseState.pickedAnnotationCount!;
+      state.annotationPrimitiveCount =
+        mouseState.pickedAnnotationPrimitiveCount!;
       state.annotationPartIndex = mouseState.pickedOffset;
       state.annotationSourceIndex = annotationLayer.sourceIndex;
       state.annotationSubsource = annotationLayer.subsourceId;
@@ -1812,27 +2399,27 @@ export function UserLayerWithAnnotationsMixin<
                 ) {
                   const handler = annotationTypeHandlers[state.annotationType];
                   const rank = annotationLayer.source.rank;
-                  const numGeometryBytes = handler.serializedBytes(rank);
                   const baseOffset = state.annotationBuffer.byteOffset;
                   const dataView = new DataView(state.annotationBuffer.buffer);
                   const isLittleEndian = Endianness.LITTLE === ENDIANNESS;
                   const { properties } = annotationLayer.source;
+                  // The serializer of the source holds the table of string property values.
                   const annotationPropertySerializer =
-                    new AnnotationPropertySerializer(
-                      rank,
-                      numGeometryBytes,
-                      properties,
-                    );
+                    annotationLayer.source.annotationPropertySerializers[
+                      state.annotationType
+                    ];
                   const annotationIndex = state.annotationIndex!;
                   const annotationCount = state.annotationCount!;
+                  const geometryStride =
+                    annotationPropertySerializer.propertyGroupBytes[0];
                   annotation = handler.deserialize(
                     dataView,
-                    baseOffset +
-                      annotationPropertySerializer.propertyGroupBytes[0] *
-                        annotationIndex,
+                    baseOffset + geometryStride * annotationIndex,
                     isLittleEndian,
                     rank,
                     state.annotationId!,
+                    state.annotationPrimitiveCount,
+                    geometryStride,
                   );
                   annotationPropertySerializer.deserialize(
                     dataView,
@@ -1938,6 +2525,132 @@ export function UserLayerWithAnnotationsMixin<
                   positionGrid.appendChild(button);
                 }
 
+                if (
+                  (annotation.type === AnnotationType.LINE_STRING ||
+                    annotation.type === AnnotationType.POLYGON) &&
+                  !annotationLayer.source.readonly
+                ) {
+                  const { type } = annotation;
+                  const noun =
+                    type === AnnotationType.POLYGON ? "polygon" : "line string";
+                  const interpolationControls = document.createElement("div");
+                  interpolationControls.classList.add(
+                    "neuroglancer-selected-annotation-details-interpolation",
+                  );
+                  interpolationControls.appendChild(
+                    makeIcon({
+                      text: "⤒",
+                      title:
+                        "Mark as the start of an interpolation between slices",
+                      onClick: () => {
+                        this.interpolationStart = {
+                          annotationLayer,
+                          id: reference.id,
+                        };
+                        StatusMessage.showTemporaryMessage(
+                          `Select another ${noun} and interpolate to it.`,
+                        );
+                      },
+                    }),
+                  );
+                  interpolationControls.appendChild(
+                    makeIcon({
+                      text: "⤓",
+                      title: `Interpolate ${noun}s on the slices between the marked ${noun} and this one`,
+                      onClick: () => {
+                        const start = this.interpolationStart;
+                        const end = reference.value;
+                        if (
+                          start === undefined ||
+                          start.annotationLayer !== annotationLayer ||
+                          start.id === reference.id
+                        ) {
+                          StatusMessage.showTemporaryMessage(
+                            `First mark another ${noun} of the same source as the start.`,
+                          );
+                          return;
+                        }
+                        const startReference =
+                          annotationLayer.source.getReference(start.id);
+                        try {
+                          const startAnnotation = startReference.value;
+                          if (
+                            startAnnotation?.type !== type ||
+                            end?.type !== type
+                          ) {
+                            StatusMessage.showTemporaryMessage(
+                              `The marked ${noun} no longer exists.`,
+                            );
+                            return;
+                          }
+                          interpolateAnnotations(
+                            annotationLayer,
+                            this.manager.root.annotationEditHistory,
+                            startAnnotation as LineString | Polygon,
+                            end as LineString | Polygon,
+                          );
+                        } finally {
+                          startReference.dispose();
+                        }
+                      },
+                    }),
+                  );
+                  parent.appendChild(interpolationControls);
+                }
+
+                if (
+                  annotation.type ===
+                    AnnotationType.AXIS_ALIGNED_BOUNDING_BOX &&
+                  chunkTransform.error === undefined
+                ) {
+                  const pinControls = document.createElement("div");
+                  pinControls.classList.add(
+                    "neuroglancer-selected-annotation-details-pin",
+                  );
+                  pinControls.appendChild(
+                    makeIcon({
+                      text: "📌",
+                      title: "Pin this region for offline review",
+                      onClick: () => {
+                        const { globalPosition, layerManager } =
+                          this.manager.root;
+                        const corners: Float32Array[] = [];
+                        visitTransformedAnnotationGeometry(
+                          annotation!,
+                          chunkTransform,
+                          (layerPosition) => {
+                            corners.push(
+                              gatherUpdate(
+                                Float32Array.from(globalPosition.value),
+                                layerPosition,
+                                chunkTransform.modelTransform
+                                  .globalToRenderLayerDimensions,
+                              ),
+                            );
+                          },
+                        );
+                        const status = new StatusMessage(/*delay=*/ true);
+                        status.setText("Pinning region for offline review...");
+                        pinRegion(layerManager, corners[0], corners[1]).then(
+                          (numChunks) => {
+                            status.dispose();
+                            StatusMessage.showTemporaryMessage(
+                              `Pinned ${numChunks} chunks for offline review.`,
+                            );
+                          },
+                          (error) => {
+                            status.dispose();
+                            StatusMessage.showTemporaryMessage(
+                              `Failed to pin region: ${error.message}`,
+                            );
+                          },
+                        );
+                      },
+                    }),
+                  );
+                  parent.appendChild(pinControls);
+                }
+
                 const { relationships, properties } = annotationLayer.source;
                 const sourceReadonly = annotationLayer.source.readonly;
 
@@ -1958,6 +2671,40 @@ export function UserLayerWithAnnotationsMixin<
                 label.appendChild(valueElement);
                 parent.appendChild(label);
 
+                if (chunkTransform.error === undefined) {
+                  const { unit, transform } = getAnnotationMeasurementSpace(
+                    chunkTransform,
+                    this.manager.root.coordinateSpace.value,
+                    this.localCoordinateSpace.value,
+                  );
+                  for (const measurement of measureAnnotation(
+                    annotation,
+                    transform,
+                  )) {
+                    const label = document.createElement("label");
+                    label.classList.add(
+                      "neuroglancer-annotation-property",
+                      "neuroglancer-annotation-measurement",
+                    );
+                    const nameElement = document.createElement("span");
+                    nameElement.classList.add(
+                      "neuroglancer-annotation-property-label",
+                    );
+                    nameElement.textContent = measurement.name;
+                    label.appendChild(nameElement);
+                    const valueElement = document.createElement("span");
+                    valueElement.classList.add(
+                      "neuroglancer-annotation-property-value",
+                    );
+                    valueElement.textContent = formatAnnotationMeasurement(
+                      measurement,
+                      unit,
+                    );
+                    label.appendChild(valueElement);
+                    parent.appendChild(label);
+                  }
+                }
+
                 for (let i = 0, count = properties.length; i < count; ++i) {
                   const property = properties[i];
                   const label = document.createElement("label");
@@ -1977,6 +2724,18 @@ export function UserLayerWithAnnotationsMixin<
                   valueElement.classList.add(
                     "neuroglancer-annotation-property-value",
                   );
+                  const propertyIndex = i;
+                  const setValue = (newValue: number | string) => {
+                    const annotation = reference.value;
+                    if (annotation == null) return;
+                    const properties = annotation.properties.slice();
+                    properties[propertyIndex] = newValue;
+                    annotationLayer.source.update(reference, {
+                      ...annotation,
+                      properties,
+                    });
+                    annotationLayer.source.commit(reference);
+                  };
                   switch (property.type) {
                     case "rgb": {
                       const colorVec = unpackRGB(value);
@@ -2001,6 +2760,60 @@ export function UserLayerWithAnnotationsMixin<
                         : "black";
                       break;
                     }
+                    case "string": {
+                      if (sourceReadonly) {
+                        valueElement.textContent = value;
+                        break;
+                      }
+                      const input = document.createElement("input");
+                      input.type = "text";
+                      input.value = value;
+                      input.addEventListener("change", () =>
+                        setValue(input.value),
+                      );
+                      valueElement.appendChild(input);
+                      break;
+                    }
+                    case "tags": {
+                      if (sourceReadonly) {
+                        valueElement.textContent =
+                          formatAnnotationPropertyValue(property, value);
+                        break;
+                      }
+                      valueElement.classList.add(
+                        "neuroglancer-annotation-property-tags",
+                      );
+                      property.tags.forEach((tag, tagIndex) => {
+                        const tagElement = document.createElement("label");
+                        tagElement.classList.add(
+                          "neuroglancer-annotation-property-tag",
+                        );
+                        const tagDescription =
+                          property.tagDescriptions[tagIndex];
+                        if (tagDescription !== undefined) {
+                          tagElement.title = tagDescription;
+                        }
+                        const checkbox = document.createElement("input");
+                        checkbox.type = "checkbox";
+                        const bit = 1 << tagIndex;
+                        checkbox.checked = (value & bit) !== 0;
+                        checkbox.addEventListener("change", () => {
+                          const current: number =
+                            reference.value?.properties[propertyIndex] ?? value;
+                          setValue(
+                            (checkbox.checked
+                              ? current | bit
+                              : current & ~bit) >>> 0,
+                          );
+                        });
+                        tagElement.appendChild(checkbox);
+                        tagElement.appendChild(
+                          document.createTextNode(`#${tag}`),
+                        );
+                        valueElement.appendChild(tagElement);
+                      });
+                      break;
+                    }
                     default:
                       valueElement.textContent = formatNumericProperty(
                         property,
@@ -2152,6 +2965,9 @@ export function UserLayerWithAnnotationsMixin<
     ) {
       const refCounted = loadedSubsource.activated!;
       refCounted.registerDisposer(this.annotationStates.add(state));
+      refCounted.registerDisposer(
+        this.manager.root.annotationEditHistory.track(state.source),
+      );
       const annotationLayer = new AnnotationLayer(
         this.manager.chunkManager,
         state.addRef(),
@@ -2234,6 +3050,10 @@ export function UserLayerWithAnnotationsMixin<
     toJSON() {
       const x = super.toJSON();
       x[ANNOTATION_COLOR_JSON_KEY] = this.annotationDisplayState.color.toJSON();
+      x[ANNOTATION_LIST_ORDER_JSON_KEY] = this.annotationListOrder.toJSON();
+      x[ANNOTATION_FILTER_JSON_KEY] =
+        this.annotationDisplayState.filterQuery.value || undefined;
+      x[POINT_SNAP_JSON_KEY] = this.pointSnap.toJSON();
       return x;
     }
   }
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { EventActionMap } from "#src/util/event_action_map.js";
@@ -44,6 +47,9 @@ export function getDefaultGlobalBindings() {
 
     map.set("keyn", "add-layer");
     map.set("keyh", "help");
+    map.set("enter", "complete-annotation");
+    map.set("control+keyz", "undo-annotation-edit");
+    map.set("control+shift+keyz", "redo-annotation-edit");
 
     map.set("space", "toggle-layout");
     map.set("shift+space", "toggle-layout-alternative");
@@ -77,6 +83,23 @@ export function getDefaultAnnotationListBindings() {
   return defaultAnnotationListBindings;
 }
 
+let defaultAnnotationReviewBindings: EventActionMap | undefined;
+export function getDefaultAnnotationReviewBindings() {
+  if (defaultAnnotationReviewBindings === undefined) {
+    defaultAnnotationReviewBindings = EventActionMap.fromObject({
+      keya: "review-accept",
+      keyr: "review-reject",
+      keyf: "review-needs-fix",
+      keyu: "review-reset",
+      keyn: "review-next",
+      arrowright: "review-next",
+      keyp: "review-previous",
+      arrowleft: "review-previous",
+    });
+  }
+  return defaultAnnotationReviewBindings;
+}
+
 let defaultRenderedDataPanelBindings: EventActionMap | undefined;
 export function getDefaultRenderedDataPanelBindings() {
   if (defaultRenderedDataPanelBindings === undefined) {
@@ -113,9 +136,14 @@ export function getDefaultRenderedDataPanelBindings() {
         "at:dblclick0": "select",
         "at:shift+dblclick0": "star",
         "at:control+mousedown0": "annotate",
+        "at:control+dblclick0": "complete-annotation",
         "at:mousedown2": "move-to-mouse-position",
         "at:alt+mousedown0": "move-annotation",
         "at:control+alt+mousedown2": "delete-annotation",
+        "at:control+alt+mousedown0": "insert-annotation-vertex",
+        "at:shift+alt+mousedown2": "delete-annotation-vertex",
+        "at:shift+alt+mousedown0": "split-annotation",
+        "at:control+shift+alt+mousedown0": "join-annotations",
         "at:touchpinch": "zoom-via-touchpinch",
         "at:touchrotate": "rotate-in-plane-via-touchrotate",
         "at:touchtranslate2": "translate-in-plane-via-touchtranslate",
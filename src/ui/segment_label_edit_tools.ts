@@ -0,0 +1,613 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tools for painting, erasing and flood filling the labels of segmentation volumes.
+ */
+
+import type { MouseSelectionState } from "#src/layer/index.js";
+import type { SegmentationUserLayer } from "#src/layer/segmentation/index.js";
+import type { ChunkTransformParameters } from "#src/render_coordinate_transform.js";
+import type { VolumeChunkSource } from "#src/sliceview/volume/frontend.js";
+import type {
+  LabelBrush,
+  LabelEditOperation,
+} from "#src/sliceview/volume/label_edits.js";
+import {
+  floodFillLabelVoxels,
+  getLabelBrushVoxels,
+  makeLabelBrushTest,
+  MAX_FLOOD_FILL_VOXELS,
+  MAX_LABEL_BRUSH_RADIUS,
+} from "#src/sliceview/volume/label_edits.js";
+import { SegmentationRenderLayer } from "#src/sliceview/volume/segmentation_renderlayer.js";
+import { StatusMessage } from "#src/status.js";
+import type { ToolActivation } from "#src/ui/tool.js";
+import {
+  LayerTool,
+  makeToolActivationStatusMessageWithHeader,
+  makeToolButton,
+  registerTool,
+} from "#src/ui/tool.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { downloadText } from "#src/util/dom.js";
+import type { ActionEvent } from "#src/util/event_action_map.js";
+import { EventActionMap } from "#src/util/event_action_map.js";
+import * as matrix from "#src/util/matrix.js";
+import { startRelativeMouseDrag } from "#src/util/mouse_drag.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+export const PAINT_LABELS_TOOL_ID = "paintLabels";
+export const ERASE_LABELS_TOOL_ID = "eraseLabels";
+export const FILL_LABELS_TOOL_ID = "fillLabels";
+
+const PAINT_LABELS_INPUT_EVENT_MAP = EventActionMap.fromObject({
+  "at:shift?+mousedown0": { action: "paint-labels" },
+  "at:shift?+mousedown2": { action: "pick-label" },
+});
+
+const ERASE_LABELS_INPUT_EVENT_MAP = EventActionMap.fromObject({
+  "at:shift?+mousedown0": { action: "paint-labels" },
+});
+
+const FILL_LABELS_INPUT_EVENT_MAP = EventActionMap.fromObject({
+  "at:shift?+mousedown0": { action: "fill-labels" },
+  "at:shift?+mousedown2": { action: "pick-label" },
+});
+
+interface LabelEditTarget {
+  source: VolumeChunkSource;
+  chunkTransform: ChunkTransformParameters;
+  brush: LabelBrush;
+}
+
+/**
+ * Returns the visible sources of the segmentation render layers of `layer`, ordered from finest to
+ * coarsest resolution within each render layer, along with the brush centered at `globalPosition`.
+ */
+function getLabelEditTargets(
+  layer: SegmentationUserLayer,
+  mouseState: MouseSelectionState,
+  globalPosition: Float32Array,
+  radius: number,
+): LabelEditTarget[] {
+  const { displayDimensions, planeNormal } = mouseState;
+  if (displayDimensions === undefined) return [];
+  const { displayRank, displayDimensionIndices } = displayDimensions;
+  const targets: LabelEditTarget[] = [];
+  for (const renderLayer of layer.renderLayers) {
+    if (!(renderLayer instanceof SegmentationRenderLayer)) continue;
+    const localPosition = renderLayer.localPosition.value;
+    for (const { source, chunkTransform } of renderLayer.visibleSourcesList) {
+      const { layerRank, modelTransform } = chunkTransform;
+      const center = new Float32Array(layerRank);
+      modelTransform.globalToRenderLayerDimensions.forEach(
+        (layerDim, globalDim) => {
+          if (layerDim !== -1) center[layerDim] = globalPosition[globalDim];
+        },
+      );
+      modelTransform.localToRenderLayerDimensions.forEach(
+        (layerDim, localDim) => {
+          if (layerDim !== -1) center[layerDim] = localPosition[localDim];
+        },
+      );
+      const dimensions: number[] = [];
+      let normal: Float32Array | undefined =
+        planeNormal === undefined ? undefined : new Float32Array(layerRank);
+      for (let i = 0; i < displayRank; ++i) {
+        const layerDim =
+          modelTransform.globalToRenderLayerDimensions[
+            displayDimensionIndices[i]
+          ];
+        if (layerDim === -1) continue;
+        dimensions.push(layerDim);
+        if (normal !== undefined) normal[layerDim] = planeNormal![i];
+      }
+      if (dimensions.length === 0) continue;
+      if (normal !== undefined) {
+        const norm = Math.hypot(...normal);
+        if (norm === 0) {
+          normal = undefined;
+        } else {
+          for (let i = 0; i < layerRank; ++i) normal[i] /= norm;
+        }
+      }
+      targets.push({
+        source,
+        chunkTransform,
+        brush: { center, radius, dimensions, normal },
+      });
+    }
+  }
+  return targets;
+}
+
+function setTargetVoxels(
+  layer: SegmentationUserLayer,
+  operation: LabelEditOperation,
+  voxelsBySource: Map<VolumeChunkSource, Map<string, Float32Array>>,
+  label: Uint64,
+) {
+  for (const [source, voxels] of voxelsBySource) {
+    layer.labelEdits.setVoxels(operation, source, voxels.values(), label);
+  }
+}
+
+function addVoxels(
+  voxelsBySource: Map<VolumeChunkSource, Map<string, Float32Array>>,
+  source: VolumeChunkSource,
+  voxels: Iterable<Float32Array>,
+) {
+  let sourceVoxels = voxelsBySource.get(source);
+  if (sourceVoxels === undefined) {
+    sourceVoxels = new Map();
+    voxelsBySource.set(source, sourceVoxels);
+  }
+  for (const voxel of voxels) {
+    sourceVoxels.set(voxel.join(), voxel);
+  }
+}
+
+/**
+ * Paints `label` with the brush along the segment from `startPosition` to `endPosition`, in global
+ * coordinates, with a spacing between brush positions of half the brush radius.
+ */
+function paintStroke(
+  layer: SegmentationUserLayer,
+  operation: LabelEditOperation,
+  mouseState: MouseSelectionState,
+  startPosition: Float32Array,
+  endPosition: Float32Array,
+  label: Uint64,
+) {
+  const radius = layer.labelEdits.brushRadius.value;
+  const rank = endPosition.length;
+  let length = 0;
+  for (let i = 0; i < rank; ++i) {
+    length = Math.hypot(length, endPosition[i] - startPosition[i]);
+  }
+  const numSteps = Math.ceil(length / Math.max(0.5, radius / 2));
+  const position = new Float32Array(rank);
+  const voxelsBySource = new Map<
+    VolumeChunkSource,
+    Map<string, Float32Array>
+  >();
+  for (let step = 0; step <= numSteps; ++step) {
+    const t = numSteps === 0 ? 1 : step / numSteps;
+    for (let i = 0; i < rank; ++i) {
+      position[i] = startPosition[i] + t * (endPosition[i] - startPosition[i]);
+    }
+    for (const { source, chunkTransform, brush } of getLabelEditTargets(
+      layer,
+      mouseState,
+      position,
+      radius,
+    )) {
+      const { spec } = source;
+      addVoxels(
+        voxelsBySource,
+        source,
+        getLabelBrushVoxels(
+          brush,
+          chunkTransform.chunkToLayerTransform,
+          chunkTransform.layerToChunkTransform,
+          chunkTransform.layerRank,
+          spec.lowerVoxelBound,
+          spec.upperVoxelBound,
+        ),
+      );
+    }
+  }
+  setTargetVoxels(layer, operation, voxelsBySource, label);
+}
+
+function getVoxelLabel(
+  source: VolumeChunkSource,
+  chunkTransform: ChunkTransformParameters,
+  voxel: Float32Array,
+): Uint64 | undefined {
+  let value = source.getValueAt(voxel, chunkTransform);
+  if (Array.isArray(value)) value = value[0];
+  if (value instanceof Uint64) return value;
+  if (typeof value === "number") return new Uint64(value >>> 0);
+  return undefined;
+}
+
+/**
+ * Flood fills the segment at `globalPosition` with `label`, within the cross section under the
+ * mouse.  The fill is computed at the finest visible resolution with data at the position, and the
+ * filled voxels are mapped to the other visible resolutions.
+ */
+function fillLabels(
+  layer: SegmentationUserLayer,
+  operation: LabelEditOperation,
+  mouseState: MouseSelectionState,
+  globalPosition: Float32Array,
+  label: Uint64,
+) {
+  const targets = getLabelEditTargets(
+    layer,
+    mouseState,
+    globalPosition,
+    Number.POSITIVE_INFINITY,
+  );
+  for (const target of targets) {
+    const { source, chunkTransform, brush } = target;
+    const { layerRank, chunkToLayerTransform, layerToChunkTransform } =
+      chunkTransform;
+    const chunkRank = source.spec.rank;
+    const chunkPosition = matrix.transformPoint(
+      new Float32Array(layerRank),
+      layerToChunkTransform,
+      layerRank + 1,
+      brush.center,
+      layerRank,
+    );
+    const start = Float32Array.from(
+      chunkPosition.subarray(0, chunkRank),
+      Math.floor,
+    );
+    if (getVoxelLabel(source, chunkTransform, start) === undefined) continue;
+    const voxels = floodFillLabelVoxels(
+      start,
+      (voxel) => getVoxelLabel(source, chunkTransform, voxel),
+      makeLabelBrushTest(brush, chunkToLayerTransform, layerRank, chunkRank),
+    );
+    if (voxels === undefined) {
+      StatusMessage.showTemporaryMessage(
+        `Fill region exceeds ${MAX_FLOOD_FILL_VOXELS} voxels`,
+      );
+      return;
+    }
+    const voxelsBySource = new Map<
+      VolumeChunkSource,
+      Map<string, Float32Array>
+    >();
+    addVoxels(voxelsBySource, source, voxels);
+    const voxelCenter = new Float32Array(layerRank);
+    const layerPosition = new Float32Array(layerRank);
+    const otherChunkPosition = new Float32Array(layerRank);
+    for (const other of targets) {
+      if (other === target) continue;
+      const { spec } = other.source;
+      const otherVoxels: Float32Array[] = [];
+      for (const voxel of voxels) {
+        for (let i = 0; i < chunkRank; ++i) voxelCenter[i] = voxel[i] + 0.5;
+        matrix.transformPoint(
+          layerPosition,
+          chunkToLayerTransform,
+          layerRank + 1,
+          voxelCenter,
+          layerRank,
+        );
+        matrix.transformPoint(
+          otherChunkPosition,
+          other.chunkTransform.layerToChunkTransform,
+          layerRank + 1,
+          layerPosition,
+          layerRank,
+        );
+        const otherVoxel = Float32Array.from(
+          otherChunkPosition.subarray(0, spec.rank),
+          Math.floor,
+        );
+        if (
+          otherVoxel.every(
+            (x, i) =>
+              x >= spec.lowerVoxelBound[i] && x < spec.upperVoxelBound[i],
+          )
+        ) {
+          otherVoxels.push(otherVoxel);
+        }
+      }
+      addVoxels(voxelsBySource, other.source, otherVoxels);
+    }
+    setTargetVoxels(layer, operation, voxelsBySource, label);
+    return;
+  }
+}
+
+function pickLabel(layer: SegmentationUserLayer) {
+  const { segmentSelectionState } = layer.displayState;
+  if (!segmentSelectionState.hasSelectedSegment) return;
+  layer.labelEdits.label.value =
+    segmentSelectionState.baseSelectedSegment.clone();
+}
+
+function describeBrush(layer: SegmentationUserLayer) {
+  const { label, brushRadius } = layer.labelEdits;
+  return `label ${label.value}, radius ${brushRadius.value}`;
+}
+
+export class PaintLabelsTool extends LayerTool<SegmentationUserLayer> {
+  constructor(
+    layer: SegmentationUserLayer,
+    public erase = false,
+  ) {
+    super(layer);
+  }
+
+  toJSON() {
+    return this.erase ? ERASE_LABELS_TOOL_ID : PAINT_LABELS_TOOL_ID;
+  }
+
+  activate(activation: ToolActivation<this>) {
+    const { layer, erase } = this;
+    const { labelEdits } = layer;
+    const { mouseState } = layer.manager.layerSelectedValues;
+    const { body, header } =
+      makeToolActivationStatusMessageWithHeader(activation);
+    header.textContent = erase ? "Erase labels" : "Paint labels";
+    const updateStatus = () => {
+      body.textContent = erase
+        ? `Drag to set labels to 0 (radius ${labelEdits.brushRadius.value}).`
+        : `Drag to paint (${describeBrush(layer)}); right click to pick the label under the mouse.`;
+    };
+    updateStatus();
+    activation.registerDisposer(labelEdits.label.changed.add(updateStatus));
+    activation.registerDisposer(
+      labelEdits.brushRadius.changed.add(updateStatus),
+    );
+    activation.bindInputEventMap(
+      erase ? ERASE_LABELS_INPUT_EVENT_MAP : PAINT_LABELS_INPUT_EVENT_MAP,
+    );
+    activation.bindAction("pick-label", (event: ActionEvent<MouseEvent>) => {
+      event.stopPropagation();
+      pickLabel(layer);
+    });
+    activation.bindAction("paint-labels", (event: ActionEvent<MouseEvent>) => {
+      event.stopPropagation();
+      if (!mouseState.updateUnconditionally()) return;
+      const label = erase ? new Uint64(0) : labelEdits.label.value.clone();
+      const operation = labelEdits.beginOperation();
+      let lastPosition = mouseState.position.slice();
+      paintStroke(
+        layer,
+        operation,
+        mouseState,
+        lastPosition,
+        lastPosition,
+        label,
+      );
+      startRelativeMouseDrag(event.detail, () => {
+        if (!mouseState.updateUnconditionally()) return;
+        const position = mouseState.position.slice();
+        paintStroke(
+          layer,
+          operation,
+          mouseState,
+          lastPosition,
+          position,
+          label,
+        );
+        lastPosition = position;
+      });
+    });
+  }
+
+  get description() {
+    return this.erase ? "erase labels" : "paint labels";
+  }
+}
+
+export class FillLabelsTool extends LayerTool<SegmentationUserLayer> {
+  toJSON() {
+    return FILL_LABELS_TOOL_ID;
+  }
+
+  activate(activation: ToolActivation<this>) {
+    const { layer } = this;
+    const { labelEdits } = layer;
+    const { mouseState } = layer.manager.layerSelectedValues;
+    const { body, header } =
+      makeToolActivationStatusMessageWithHeader(activation);
+    header.textContent = "Fill labels";
+    const updateStatus = () => {
+      body.textContent = `Click to fill the segment under the mouse within the cross section with label ${labelEdits.label.value}; right click to pick the label under the mouse.`;
+    };
+    updateStatus();
+    activation.registerDisposer(labelEdits.label.changed.add(updateStatus));
+    activation.bindInputEventMap(FILL_LABELS_INPUT_EVENT_MAP);
+    activation.bindAction("pick-label", (event: ActionEvent<MouseEvent>) => {
+      event.stopPropagation();
+      pickLabel(layer);
+    });
+    activation.bindAction("fill-labels", (event: ActionEvent<MouseEvent>) => {
+      event.stopPropagation();
+      if (!mouseState.updateUnconditionally()) return;
+      fillLabels(
+        layer,
+        labelEdits.beginOperation(),
+        mouseState,
+        mouseState.position,
+        labelEdits.label.value.clone(),
+      );
+    });
+  }
+
+  get description() {
+    return "fill labels";
+  }
+}
+
+/**
+ * Tool buttons and settings for editing the labels of a segmentation layer.
+ */
+export class SegmentLabelEditWidget extends RefCounted {
+  element = document.createElement("div");
+  private labelInput = document.createElement("input");
+  private radiusInput = document.createElement("input");
+  private summary = document.createElement("span");
+  private undoButton = document.createElement("button");
+  private clearButton = document.createElement("button");
+  private exportButton = document.createElement("button");
+  private saveButton = document.createElement("button");
+  private saving = false;
+
+  constructor(public layer: SegmentationUserLayer) {
+    super();
+    const { element, labelInput, radiusInput, summary } = this;
+    const { labelEdits } = layer;
+    element.className = "neuroglancer-segment-label-edits";
+
+    const toolbox = document.createElement("div");
+    toolbox.className = "neuroglancer-segmentation-toolbox";
+    for (const [toolJson, label, title] of [
+      [PAINT_LABELS_TOOL_ID, "Paint", "Paint voxel labels"],
+      [ERASE_LABELS_TOOL_ID, "Erase", "Set voxel labels to 0"],
+      [FILL_LABELS_TOOL_ID, "Fill", "Flood fill voxel labels"],
+    ]) {
+      toolbox.appendChild(
+        makeToolButton(this, layer.toolBinder, { toolJson, label, title }),
+      );
+    }
+    element.appendChild(toolbox);
+
+    const settings = document.createElement("div");
+    settings.className = "neuroglancer-segment-label-edits-settings";
+    const labelLabel = document.createElement("label");
+    labelLabel.textContent = "Label ";
+    labelInput.title = "Label painted by the paint and fill tools";
+    labelInput.className = "neuroglancer-segment-label-edits-label";
+    labelLabel.appendChild(labelInput);
+    settings.appendChild(labelLabel);
+    this.registerEventListener(labelInput, "change", () => {
+      const label = new Uint64();
+      if (label.tryParseString(labelInput.value.trim())) {
+        labelEdits.label.value = label;
+      } else {
+        this.updateView();
+      }
+    });
+
+    const radiusLabel = document.createElement("label");
+    radiusLabel.textContent = "Radius ";
+    radiusInput.type = "number";
+    radiusInput.min = "0";
+    radiusInput.max = MAX_LABEL_BRUSH_RADIUS.toString();
+    radiusInput.step = "0.5";
+    radiusInput.title = "Brush radius in voxels";
+    radiusInput.className = "neuroglancer-segment-label-edits-radius";
+    radiusLabel.appendChild(radiusInput);
+    settings.appendChild(radiusLabel);
+    this.registerEventListener(radiusInput, "change", () => {
+      const radius = Number(radiusInput.value);
+      if (
+        Number.isFinite(radius) &&
+        radius >= 0 &&
+        radius <= MAX_LABEL_BRUSH_RADIUS
+      ) {
+        labelEdits.brushRadius.value = radius;
+      } else {
+        this.updateView();
+      }
+    });
+    element.appendChild(settings);
+
+    const actions = document.createElement("div");
+    actions.className = "neuroglancer-segment-label-edits-actions";
+    actions.appendChild(summary);
+    const addButton = (
+      button: HTMLButtonElement,
+      text: string,
+      title: string,
+      action: () => void,
+    ) => {
+      button.textContent = text;
+      button.title = title;
+      this.registerEventListener(button, "click", action);
+      actions.appendChild(button);
+    };
+    addButton(this.undoButton, "Undo", "Undo the last edit", () =>
+      labelEdits.undo(),
+    );
+    addButton(this.clearButton, "Clear", "Remove all edits", () =>
+      labelEdits.clear(),
+    );
+    addButton(
+      this.exportButton,
+      "Export",
+      "Download the edits as sparse per-chunk deltas in JSON format",
+      () =>
+        downloadText(
+          JSON.stringify(labelEdits.toJSON()),
+          `${layer.managedLayer.name}_label_edits.json`,
+          "application/json",
+        ),
+    );
+    addButton(
+      this.saveButton,
+      "Save",
+      "Write the edits to the data source, which must support writing",
+      () => this.save(),
+    );
+    element.appendChild(actions);
+
+    const updateView = () => this.updateView();
+    this.registerDisposer(labelEdits.changed.add(updateView));
+    this.registerDisposer(labelEdits.label.changed.add(updateView));
+    this.registerDisposer(labelEdits.brushRadius.changed.add(updateView));
+    this.updateView();
+  }
+
+  private save() {
+    const { labelEdits } = this.layer;
+    this.saving = true;
+    this.updateView();
+    const status = new StatusMessage(/*delay=*/ true);
+    status.setText("Saving label edits...");
+    labelEdits
+      .save()
+      .then(
+        (numChunks) => {
+          status.dispose();
+          StatusMessage.showTemporaryMessage(
+            `Saved label edits of ${numChunks} chunk${numChunks === 1 ? "" : "s"}.`,
+          );
+        },
+        (error) => {
+          status.dispose();
+          StatusMessage.showTemporaryMessage(
+            `Failed to save label edits: ${error.message}`,
+          );
+        },
+      )
+      .finally(() => {
+        if (this.wasDisposed) return;
+        this.saving = false;
+        this.updateView();
+      });
+  }
+
+  private updateView() {
+    const { labelEdits } = this.layer;
+    this.labelInput.value = labelEdits.label.value.toString();
+    this.radiusInput.value = labelEdits.brushRadius.value.toString();
+    const numVoxels = labelEdits.numVoxels;
+    this.summary.textContent = `${numVoxels} voxel${
+      numVoxels === 1 ? "" : "s"
+    } edited`;
+    this.undoButton.disabled = !labelEdits.canUndo;
+    this.clearButton.disabled = numVoxels === 0;
+    this.exportButton.disabled = numVoxels === 0;
+    this.saveButton.disabled = numVoxels === 0 || this.saving;
+  }
+}
+
+export function registerSegmentLabelEditTools(
+  contextType: typeof SegmentationUserLayer,
+) {
+  registerTool(contextType, PAINT_LABELS_TOOL_ID, (layer) => {
+    return new PaintLabelsTool(layer);
+  });
+
+  registerTool(contextType, ERASE_LABELS_TOOL_ID, (layer) => {
+    return new PaintLabelsTool(layer, /*erase=*/ true);
+  });
+
+  registerTool(contextType, FILL_LABELS_TOOL_ID, (layer) => {
+    return new FillLabelsTool(layer);
+  });
+}
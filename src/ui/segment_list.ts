@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/ui/segment_list.css";
@@ -47,9 +50,20 @@ import {
   unparseSegmentQuery,
   updatePropertyHistograms,
 } from "#src/segmentation_display_state/property_map.js";
+import type {
+  SegmentReviewState,
+  SegmentReviewStates,
+} from "#src/segmentation_display_state/review_state.js";
+import { filterQueryResultByReviewState } from "#src/segmentation_display_state/review_state.js";
 import type { WatchableValueInterface } from "#src/trackable_value.js";
 import { observeWatchable, WatchableValue } from "#src/trackable_value.js";
 import { getDefaultSelectBindings } from "#src/ui/default_input_event_bindings.js";
+import { SegmentLabelEditWidget } from "#src/ui/segment_label_edit_tools.js";
+import {
+  makeSegmentReviewStateSelect,
+  SegmentReviewWidget,
+  updateSegmentReviewStateSelect,
+} from "#src/ui/segment_review.js";
 import { SELECT_SEGMENTS_TOOLS_ID } from "#src/ui/segment_select_tools.js";
 import {
   ANNOTATE_MERGE_SEGMENTS_TOOL_ID,
@@ -96,6 +110,16 @@ import { VirtualList } from "#src/widget/virtual_list.js";
 
 const tempUint64 = new Uint64();
 
+/**
+ * Review states shown in the review column of the segment list, and used to filter the list.
+ */
+interface SegmentListReviewState {
+  segmentReviewStates: SegmentReviewStates;
+  segmentReviewStateFilter: WatchableValueInterface<
+    SegmentReviewState | undefined
+  >;
+}
+
 abstract class SegmentListSource
   extends RefCounted
   implements VirtualListSource
@@ -114,14 +138,44 @@ abstract class SegmentListSource
   constructor(
     public segmentationDisplayState: SegmentationDisplayState,
     public parentElement: HTMLElement,
+    public review: SegmentListReviewState,
   ) {
     super();
+    this.registerDisposer(
+      review.segmentReviewStates.changed.add(this.debouncedUpdate),
+    );
+    this.registerDisposer(
+      review.segmentReviewStateFilter.changed.add(this.debouncedUpdate),
+    );
   }
 
   abstract update(): void;
 
   private updateRendering(element: HTMLElement) {
     this.segmentWidgetFactory.update(element);
+    this.updateReviewState(element);
+  }
+
+  private updateReviewState(element: HTMLElement) {
+    const idString = element.dataset.id;
+    if (idString === undefined) return;
+    const id = tempUint64;
+    id.parseString(idString);
+    updateSegmentReviewStateSelect(
+      element.lastElementChild as HTMLSelectElement,
+      this.review.segmentReviewStates,
+      id,
+    );
+  }
+
+  // Returns the list entry for `id`, with a review state column appended.
+  protected makeEntry(id: Uint64) {
+    const element = this.segmentWidgetFactory.get(id);
+    element.appendChild(
+      makeSegmentReviewStateSelect(this.review.segmentReviewStates),
+    );
+    this.updateReviewState(element);
+    return element;
   }
 
   segmentWidgetFactory: SegmentWidgetWithExtraColumnsFactory;
@@ -141,8 +195,9 @@ class StarredSegmentsListSource extends SegmentListSource {
   constructor(
     public segmentationDisplayState: SegmentationDisplayState,
     public parentElement: HTMLElement,
+    review: SegmentListReviewState,
   ) {
-    super(segmentationDisplayState, parentElement);
+    super(segmentationDisplayState, parentElement, review);
     this.update();
     this.registerDisposer(
       segmentationDisplayState.segmentationGroupState.value.selectedSegments.changed.add(
@@ -155,7 +210,14 @@ class StarredSegmentsListSource extends SegmentListSource {
     const splices: ArraySpliceOp[] = [];
     const { selectedSegments } =
       this.segmentationDisplayState.segmentationGroupState.value;
-    const newSelectedSegments = [...selectedSegments];
+    const { segmentReviewStates, segmentReviewStateFilter } = this.review;
+    const reviewStateFilter = segmentReviewStateFilter.value;
+    let newSelectedSegments = [...selectedSegments];
+    if (reviewStateFilter !== undefined) {
+      newSelectedSegments = newSelectedSegments.filter(
+        (id) => segmentReviewStates.get(id) === reviewStateFilter,
+      );
+    }
     const { explicitSegments } = this;
     if (explicitSegments === undefined) {
       splices.push({
@@ -180,12 +242,16 @@ class StarredSegmentsListSource extends SegmentListSource {
   render = (index: number) => {
     const { explicitSegments } = this;
     const id = explicitSegments![index];
-    return this.segmentWidgetFactory.get(id);
+    return this.makeEntry(id);
   };
 }
 
 class SegmentQueryListSource extends SegmentListSource {
   prevQuery: string | undefined;
+  // Result of `prevQuery` before filtering by review state.
+  unfilteredQueryResult: QueryResult | undefined;
+  reviewStateFilter: SegmentReviewState | undefined;
+  reviewStatesGeneration = -1;
   queryResult = new WatchableValue<QueryResult | undefined>(undefined);
   prevQueryResult = new WatchableValue<QueryResult | undefined>(undefined);
   statusText = new WatchableValue<string>("");
@@ -205,13 +271,38 @@ class SegmentQueryListSource extends SegmentListSource {
     const { segmentPropertyMap } = this;
     this.prevQueryResult.value = this.queryResult.value;
     const prevQueryResult = this.prevQueryResult.value;
-    let queryResult: QueryResult;
+    let unfilteredQueryResult: QueryResult;
     if (this.prevQuery === query) {
-      queryResult = prevQueryResult!;
+      unfilteredQueryResult = this.unfilteredQueryResult!;
     } else {
       const queryParseResult = parseSegmentQuery(segmentPropertyMap, query);
-      queryResult = executeSegmentQuery(segmentPropertyMap, queryParseResult);
+      unfilteredQueryResult = executeSegmentQuery(
+        segmentPropertyMap,
+        queryParseResult,
+      );
     }
+    const { segmentReviewStates, segmentReviewStateFilter } = this.review;
+    const reviewStateFilter = segmentReviewStateFilter.value;
+    const reviewStatesGeneration =
+      reviewStateFilter === undefined ? -1 : segmentReviewStates.changed.count;
+    let queryResult: QueryResult;
+    if (
+      unfilteredQueryResult === this.unfilteredQueryResult &&
+      reviewStateFilter === this.reviewStateFilter &&
+      reviewStatesGeneration === this.reviewStatesGeneration
+    ) {
+      queryResult = prevQueryResult!;
+    } else {
+      queryResult = filterQueryResultByReviewState(
+        segmentPropertyMap,
+        unfilteredQueryResult,
+        segmentReviewStates,
+        reviewStateFilter,
+      );
+    }
+    this.unfilteredQueryResult = unfilteredQueryResult;
+    this.reviewStateFilter = reviewStateFilter;
+    this.reviewStatesGeneration = reviewStatesGeneration;
 
     const splices: ArraySpliceOp[] = [];
     let changed = false;
@@ -318,8 +409,9 @@ class SegmentQueryListSource extends SegmentListSource {
     public segmentPropertyMap: PreprocessedSegmentPropertyMap | undefined,
     public segmentationDisplayState: SegmentationDisplayState,
     public parentElement: HTMLElement,
+    review: SegmentListReviewState,
   ) {
-    super(segmentationDisplayState, parentElement);
+    super(segmentationDisplayState, parentElement, review);
     this.update();
     this.registerDisposer(
       segmentationDisplayState.segmentationGroupState.value.selectedSegments.changed.add(
@@ -349,7 +441,7 @@ class SegmentQueryListSource extends SegmentListSource {
       id.low = ids[propIndex * 2];
       id.high = ids[propIndex * 2 + 1];
     }
-    return this.segmentWidgetFactory.get(id);
+    return this.makeEntry(id);
   };
 }
 
@@ -1443,6 +1535,11 @@ class SegmentListGroupQuery extends SegmentListGroupBase {
           });
           updateColumnSortIcon(queryResult, sortIcon, id);
         }
+        const reviewLabel = document.createElement("span");
+        reviewLabel.textContent = "review";
+        reviewLabel.classList.add("neuroglancer-segment-list-header-label");
+        reviewLabel.classList.add("neuroglancer-segment-list-header-review");
+        header.container.appendChild(reviewLabel);
         list.header.appendChild(header.container);
       }
       updateQueryErrors(queryResult);
@@ -1524,6 +1621,24 @@ export class SegmentDisplayTab extends Tab {
     );
     element.appendChild(toolbox);
 
+    element.appendChild(
+      this.registerDisposer(
+        new DependentViewWidget(
+          layer.has2dLayer,
+          (has2dLayer, parent, context) => {
+            if (!has2dLayer) return;
+            parent.appendChild(
+              context.registerDisposer(new SegmentLabelEditWidget(layer))
+                .element,
+            );
+          },
+        ),
+      ).element,
+    );
+    element.appendChild(
+      this.registerDisposer(new SegmentReviewWidget(layer)).element,
+    );
+
     const queryElement = document.createElement("input");
     queryElement.classList.add("neuroglancer-segment-list-query");
     queryElement.addEventListener("focus", () => {
@@ -1572,10 +1687,11 @@ export class SegmentDisplayTab extends Tab {
                 segmentPropertyMap,
                 layer.displayState,
                 parent,
+                layer,
               ),
             );
             const selectedSegmentsListSource = context.registerDisposer(
-              new StarredSegmentsListSource(layer.displayState, parent),
+              new StarredSegmentsListSource(layer.displayState, parent, layer),
             );
             const list = context.registerDisposer(
               new VirtualList({ source: listSource, horizontalScroll: true }),
@@ -1648,6 +1764,9 @@ export class SegmentDisplayTab extends Tab {
                 updateListItems,
               ),
             );
+            context.registerDisposer(
+              layer.segmentReviewStates.changed.add(updateListItems),
+            );
             list.element.classList.add("neuroglancer-segment-list");
             list.element.classList.add("neuroglancer-preview-list");
             selectedSegmentsList.element.classList.add(
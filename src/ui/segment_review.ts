@@ -0,0 +1,259 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file User interface for reviewing the segments of a segmentation layer.
+ */
+
+import type { SegmentationUserLayer } from "#src/layer/segmentation/index.js";
+import type { SegmentReviewStates } from "#src/segmentation_display_state/review_state.js";
+import {
+  parseSegmentReviewStatesCsv,
+  parseSegmentReviewStatesJson,
+  SegmentReviewState,
+  segmentReviewStateDisplayNames,
+  segmentReviewStateValues,
+} from "#src/segmentation_display_state/review_state.js";
+import { StatusMessage } from "#src/status.js";
+import { TrackableBooleanCheckbox } from "#src/trackable_boolean.js";
+import { animationFrameDebounce } from "#src/util/animation_frame_debounce.js";
+import { RefCounted } from "#src/util/disposable.js";
+import { downloadText } from "#src/util/dom.js";
+import { Uint64 } from "#src/util/uint64.js";
+
+const ALL_SEGMENTS_OPTION = "";
+
+/**
+ * Returns a drop-down for choosing the review state of the segment list entry that contains it.
+ */
+export function makeSegmentReviewStateSelect(
+  reviewStates: SegmentReviewStates,
+) {
+  const select = document.createElement("select");
+  select.className = "neuroglancer-segment-list-entry-review-state";
+  select.title = "Review state";
+  for (const state of segmentReviewStateValues) {
+    const option = document.createElement("option");
+    option.value = `${state}`;
+    option.textContent = segmentReviewStateDisplayNames[state];
+    select.appendChild(option);
+  }
+  select.addEventListener("change", () => {
+    const entryElement = select.closest(
+      ".neuroglancer-segment-list-entry",
+    ) as HTMLElement;
+    const id = Uint64.parseString(entryElement.dataset.id!);
+    reviewStates.set(id, parseInt(select.value));
+  });
+  return select;
+}
+
+/**
+ * Updates a drop-down returned by `makeSegmentReviewStateSelect` to reflect the review state of
+ * the segment list entry that contains it.
+ */
+export function updateSegmentReviewStateSelect(
+  select: HTMLSelectElement,
+  reviewStates: SegmentReviewStates,
+  id: Uint64,
+) {
+  const state = reviewStates.get(id);
+  select.value = `${state}`;
+  select.dataset.state = `${state}`;
+}
+
+async function readSegmentReviewStatesFile(file: File) {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith(".json")) {
+    return parseSegmentReviewStatesJson(JSON.parse(text));
+  }
+  return parseSegmentReviewStatesCsv(text);
+}
+
+/**
+ * Review progress and controls for filtering, coloring, exporting and importing the review states
+ * of the segments of a segmentation layer.
+ */
+export class SegmentReviewWidget extends RefCounted {
+  element = document.createElement("div");
+  private filterSelect = document.createElement("select");
+  private progressText = document.createElement("div");
+  private progressBar = document.createElement("div");
+  private exportButtons: HTMLButtonElement[] = [];
+  private clearButton = document.createElement("button");
+
+  private scheduleUpdate = this.registerCancellable(
+    animationFrameDebounce(() => this.updateView()),
+  );
+
+  constructor(public layer: SegmentationUserLayer) {
+    super();
+    const { element, filterSelect } = this;
+    const { segmentReviewStates, segmentReviewStateFilter } = layer;
+    element.className = "neuroglancer-segment-review";
+
+    const settings = document.createElement("div");
+    settings.className = "neuroglancer-segment-review-settings";
+    const filterLabel = document.createElement("label");
+    filterLabel.textContent = "Review ";
+    filterSelect.title = "List only segments with the specified review state";
+    const allOption = document.createElement("option");
+    allOption.value = ALL_SEGMENTS_OPTION;
+    allOption.textContent = "All segments";
+    filterSelect.appendChild(allOption);
+    for (const state of segmentReviewStateValues) {
+      const option = document.createElement("option");
+      option.value = `${state}`;
+      option.textContent = segmentReviewStateDisplayNames[state];
+      filterSelect.appendChild(option);
+    }
+    filterLabel.appendChild(filterSelect);
+    settings.appendChild(filterLabel);
+    this.registerEventListener(filterSelect, "change", () => {
+      const { value } = filterSelect;
+      segmentReviewStateFilter.value =
+        value === ALL_SEGMENTS_OPTION ? undefined : parseInt(value);
+    });
+
+    const colorLabel = document.createElement("label");
+    colorLabel.textContent = "Color by review state";
+    colorLabel.title =
+      "Color reviewed segments by review state, overriding other segment colors";
+    colorLabel.prepend(
+      this.registerDisposer(
+        new TrackableBooleanCheckbox(layer.displayState.colorByReviewState),
+      ).element,
+    );
+    settings.appendChild(colorLabel);
+    element.appendChild(settings);
+
+    const progress = document.createElement("div");
+    progress.className = "neuroglancer-segment-review-progress";
+    this.progressBar.className = "neuroglancer-segment-review-progress-bar";
+    progress.appendChild(this.progressBar);
+    this.progressText.className = "neuroglancer-segment-review-progress-text";
+    element.appendChild(this.progressText);
+    element.appendChild(progress);
+
+    const actions = document.createElement("div");
+    actions.className = "neuroglancer-segment-review-actions";
+    const addButton = (
+      button: HTMLButtonElement,
+      text: string,
+      title: string,
+      action: () => void,
+    ) => {
+      button.textContent = text;
+      button.title = title;
+      this.registerEventListener(button, "click", action);
+      actions.appendChild(button);
+    };
+    const fileName = `${layer.managedLayer.name}_segment_review`;
+    const exportCsvButton = document.createElement("button");
+    addButton(
+      exportCsvButton,
+      "Export CSV",
+      "Download the review states as a CSV file with segment_id and review_state columns",
+      () =>
+        downloadText(
+          segmentReviewStates.toCsv(),
+          `${fileName}.csv`,
+          "text/csv",
+        ),
+    );
+    const exportJsonButton = document.createElement("button");
+    addButton(
+      exportJsonButton,
+      "Export JSON",
+      "Download the review states as a JSON object keyed by segment id",
+      () =>
+        downloadText(
+          JSON.stringify(segmentReviewStates.toJSON()),
+          `${fileName}.json`,
+          "application/json",
+        ),
+    );
+    this.exportButtons.push(exportCsvButton, exportJsonButton);
+    addButton(
+      document.createElement("button"),
+      "Import",
+      "Set review states from a CSV or JSON file in the exported format",
+      () => this.importFile(),
+    );
+    addButton(
+      this.clearButton,
+      "Clear",
+      "Mark all segments as unreviewed",
+      () => segmentReviewStates.clear(),
+    );
+    element.appendChild(actions);
+
+    this.registerDisposer(segmentReviewStates.changed.add(this.scheduleUpdate));
+    this.registerDisposer(
+      segmentReviewStateFilter.changed.add(this.scheduleUpdate),
+    );
+    this.registerDisposer(
+      layer.displayState.segmentPropertyMap.changed.add(this.scheduleUpdate),
+    );
+    this.updateView();
+  }
+
+  private importFile() {
+    const { segmentReviewStates } = this.layer;
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".csv,.json,text/csv,application/json";
+    input.addEventListener("change", async () => {
+      const file = input.files?.[0];
+      if (file === undefined) return;
+      let entries: [Uint64, SegmentReviewState][];
+      try {
+        entries = await readSegmentReviewStatesFile(file);
+      } catch (e) {
+        StatusMessage.showTemporaryMessage(
+          `Error importing review states: ${(e as Error).message}`,
+        );
+        return;
+      }
+      segmentReviewStates.setAll(entries);
+      StatusMessage.showTemporaryMessage(
+        `Imported ${entries.length} review state(s).`,
+      );
+    });
+    input.click();
+  }
+
+  private updateView() {
+    const { segmentReviewStates, segmentReviewStateFilter, displayState } =
+      this.layer;
+    const filter = segmentReviewStateFilter.value;
+    this.filterSelect.value =
+      filter === undefined ? ALL_SEGMENTS_OPTION : `${filter}`;
+    const counts = segmentReviewStates.countStates();
+    const reviewed = segmentReviewStates.size;
+    const ids =
+      displayState.segmentPropertyMap.value?.segmentPropertyMap.inlineProperties
+        ?.ids;
+    const total = ids === undefined ? undefined : ids.length / 2;
+    let text = total === undefined ? `${reviewed}` : `${reviewed}/${total}`;
+    text += " reviewed";
+    const stateCounts = segmentReviewStateValues
+      .filter((state) => state !== SegmentReviewState.UNREVIEWED)
+      .map(
+        (state) =>
+          `${counts[state]} ${segmentReviewStateDisplayNames[state].toLowerCase()}`,
+      );
+    this.progressText.textContent = `${text}: ${stateCounts.join(", ")}`;
+    this.progressBar.style.width = `${
+      total === undefined || total === 0
+        ? 0
+        : Math.min(100, (100 * reviewed) / total)
+    }%`;
+    for (const button of this.exportButtons) {
+      button.disabled = reviewed === 0;
+    }
+    this.clearButton.disabled = reviewed === 0;
+  }
+}
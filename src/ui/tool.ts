@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 /**
@@ -130,6 +133,10 @@ export abstract class LegacyTool<
   abstract trigger(mouseState: MouseSelectionState): void;
   abstract toJSON(): any;
   deactivate(): void {}
+  /**
+   * Finishes the in-progress annotation, for tools that place a variable number of vertices.
+   */
+  complete(): void {}
   abstract description: string;
   unbind() {
     const { layer } = this;
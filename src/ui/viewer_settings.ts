@@ -12,10 +12,14 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/ui/viewer_settings.css";
 
+import { StatusMessage } from "#src/status.js";
 import { TrackableBooleanCheckbox } from "#src/trackable_boolean.js";
 import type {
   TrackableValue,
@@ -30,6 +34,7 @@ import {
 } from "#src/ui/side_panel_location.js";
 import type { vec3 } from "#src/util/geom.js";
 import { emptyToUndefined } from "#src/util/json.js";
+import { persistentCache } from "#src/util/persistent_cache.js";
 import type { Viewer } from "#src/viewer.js";
 import { ColorWidget } from "#src/widget/color.js";
 import { NumberInputWidget } from "#src/widget/number_input_widget.js";
@@ -102,6 +107,48 @@ export class ViewerSettingsPanel extends SidePanel {
       "Concurrent chunk requests",
       viewer.chunkQueueManager.capacities.download.itemLimit,
     );
+    addLimitWidget(
+      "Persistent cache limit",
+      viewer.chunkQueueManager.persistentCacheSizeLimit,
+    );
+
+    {
+      const cacheActions = document.createElement("div");
+      cacheActions.classList.add("neuroglancer-settings-cache-actions");
+      const addCacheAction = (
+        text: string,
+        title: string,
+        action: () => Promise<void>,
+        message: string,
+      ) => {
+        const button = document.createElement("button");
+        button.textContent = text;
+        button.title = title;
+        this.registerEventListener(button, "click", () => {
+          action().then(
+            () => StatusMessage.showTemporaryMessage(message),
+            (error) =>
+              StatusMessage.showTemporaryMessage(
+                `Failed to update the persistent cache: ${error.message}`,
+              ),
+          );
+        });
+        cacheActions.appendChild(button);
+      };
+      addCacheAction(
+        "Clear cache",
+        "Remove all responses from the persistent cache, including those of pinned regions",
+        () => persistentCache.clear(),
+        "Cleared the persistent cache.",
+      );
+      addCacheAction(
+        "Unpin regions",
+        "Allow the responses of pinned regions to be evicted from the persistent cache",
+        () => persistentCache.unpinAll(),
+        "Unpinned all regions.",
+      );
+      scroll.appendChild(cacheActions);
+    }
 
     const addCheckbox = (
       label: string,
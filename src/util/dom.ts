@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 export function removeChildren(element: HTMLElement) {
@@ -82,3 +85,14 @@ export function measureElementClone(element: HTMLElement) {
   document.body.appendChild(clone);
   return clone.getBoundingClientRect();
 }
+
+/**
+ * Prompts the user to save `text` as a file.
+ */
+export function downloadText(text: string, fileName: string, type: string) {
+  const downloadLink = document.createElement("a");
+  const blobUrl = URL.createObjectURL(new Blob([text], { type }));
+  downloadLink.href = blobUrl;
+  downloadLink.download = fileName;
+  downloadLink.click();
+}
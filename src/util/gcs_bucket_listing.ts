@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { fetchWithOAuth2Credentials } from "#src/credentials_provider/oauth2.js";
@@ -28,6 +31,10 @@ import {
 } from "#src/util/json.js";
 import type { SpecialProtocolCredentialsProvider } from "#src/util/special_protocol_request.js";
 
+/**
+ * Lists the objects and prefixes of a bucket that start with `prefix`.  The listing is requested
+ * one page at a time until the server reports no more results.
+ */
 export async function getGcsBucketListing(
   credentialsProvider: SpecialProtocolCredentialsProvider,
   bucket: string,
@@ -35,37 +42,50 @@ export async function getGcsBucketListing(
   delimiter: string,
   cancellationToken: CancellationToken,
 ): Promise<string[]> {
-  // Include origin as `neuroglancerOrigin` query string parameter.  See comment in
-  // `special_protocol_request.ts` for details.
-  const response = await fetchWithOAuth2Credentials(
-    credentialsProvider,
-    `https://www.googleapis.com/storage/v1/b/${bucket}/o?` +
-      `delimiter=${encodeURIComponent(delimiter)}&prefix=${encodeURIComponent(
-        prefix,
-      )}&` +
-      `neuroglancerOrigin=${encodeURIComponent(location.origin)}`,
-    {},
-    responseJson,
-    cancellationToken,
-  );
-  verifyObject(response);
-  const prefixes = verifyOptionalObjectProperty(
-    response,
-    "prefixes",
-    verifyStringArray,
-    [],
-  );
-  const items = verifyOptionalObjectProperty(
-    response,
-    "items",
-    (items) =>
-      parseArray(items, (item) => {
-        verifyObject(item);
-        return verifyObjectProperty(item, "name", verifyString);
-      }),
-    [],
-  ).filter((name) => !name.endsWith("_$folder$"));
-  return [...prefixes, ...items];
+  const results: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    // Include origin as `neuroglancerOrigin` query string parameter.  See comment in
+    // `special_protocol_request.ts` for details.
+    const response = await fetchWithOAuth2Credentials(
+      credentialsProvider,
+      `https://www.googleapis.com/storage/v1/b/${bucket}/o?` +
+        `delimiter=${encodeURIComponent(delimiter)}&prefix=${encodeURIComponent(
+          prefix,
+        )}&` +
+        (pageToken === undefined
+          ? ""
+          : `pageToken=${encodeURIComponent(pageToken)}&`) +
+        `neuroglancerOrigin=${encodeURIComponent(location.origin)}`,
+      {},
+      responseJson,
+      cancellationToken,
+    );
+    verifyObject(response);
+    const prefixes = verifyOptionalObjectProperty(
+      response,
+      "prefixes",
+      verifyStringArray,
+      [],
+    );
+    const items = verifyOptionalObjectProperty(
+      response,
+      "items",
+      (items) =>
+        parseArray(items, (item) => {
+          verifyObject(item);
+          return verifyObjectProperty(item, "name", verifyString);
+        }),
+      [],
+    ).filter((name) => !name.endsWith("_$folder$"));
+    results.push(...prefixes, ...items);
+    pageToken = verifyOptionalObjectProperty(
+      response,
+      "nextPageToken",
+      verifyString,
+    );
+  } while (pageToken !== undefined);
+  return results;
 }
 
 export async function getGcsPathCompletions(
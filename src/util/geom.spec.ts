@@ -12,10 +12,18 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { describe, it, expect } from "vitest";
-import { getFrustrumPlanes, isAABBVisible, mat4 } from "#src/util/geom.js";
+import {
+  getFrustrumPlanes,
+  isAABBVisible,
+  mat4,
+  triangulatePolygon,
+} from "#src/util/geom.js";
 
 describe("getFrustrumPlanes", () => {
   it("works for simple example", () => {
@@ -52,3 +60,69 @@ describe("isAABBVisible", () => {
     expect(isAABBVisible(-1, -1, -114, 1, 1, -118, planes)).toBe(false);
   });
 });
+
+describe("triangulatePolygon", () => {
+  function triangleArea(a: number[], b: number[], c: number[]) {
+    return Math.abs(
+      ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) / 2,
+    );
+  }
+
+  function getTriangulatedArea(vertices: number[][]) {
+    const triangles = triangulatePolygon(vertices);
+    expect(triangles.length).toBe(3 * (vertices.length - 2));
+    let area = 0;
+    for (let i = 0; i < triangles.length; i += 3) {
+      area += triangleArea(
+        vertices[triangles[i]],
+        vertices[triangles[i + 1]],
+        vertices[triangles[i + 2]],
+      );
+    }
+    return area;
+  }
+
+  it("works for a square", () => {
+    expect(
+      getTriangulatedArea([
+        [0, 0, 5],
+        [2, 0, 5],
+        [2, 2, 5],
+        [0, 2, 5],
+      ]),
+    ).toBeCloseTo(4);
+  });
+
+  it("works for concave polygons in either orientation", () => {
+    const lShape = [
+      [0, 0, 0],
+      [3, 0, 0],
+      [3, 1, 0],
+      [1, 1, 0],
+      [1, 3, 0],
+      [0, 3, 0],
+    ];
+    expect(getTriangulatedArea(lShape)).toBeCloseTo(5);
+    expect(getTriangulatedArea(lShape.slice().reverse())).toBeCloseTo(5);
+  });
+
+  it("handles polygons in other planes", () => {
+    // Unit square in the x-z plane.
+    const triangles = triangulatePolygon([
+      [0, 7, 0],
+      [1, 7, 0],
+      [1, 7, 1],
+      [0, 7, 1],
+    ]);
+    expect(triangles.length).toBe(6);
+  });
+
+  it("returns no triangles for fewer than 3 vertices", () => {
+    expect(
+      triangulatePolygon([
+        [0, 0, 0],
+        [1, 0, 0],
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { mat3 } from "gl-matrix";
@@ -470,3 +473,88 @@ export function getViewFrustrumWorldBounds(
     }
   }
 }
+
+function getPolygonProjectionAxes(vertices: ArrayLike<number>[]) {
+  // Newell's method for the normal of a (possibly non-convex, approximately planar) polygon.
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+  for (let i = 0, n = vertices.length; i < n; ++i) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % n];
+    const ax = a[0] ?? 0;
+    const ay = a[1] ?? 0;
+    const az = a[2] ?? 0;
+    const bx = b[0] ?? 0;
+    const by = b[1] ?? 0;
+    const bz = b[2] ?? 0;
+    nx += (ay - by) * (az + bz);
+    ny += (az - bz) * (ax + bx);
+    nz += (ax - bx) * (ay + by);
+  }
+  // Project onto the coordinate plane most closely aligned with the polygon, oriented such that
+  // the polygon is counter-clockwise.
+  const absX = Math.abs(nx);
+  const absY = Math.abs(ny);
+  const absZ = Math.abs(nz);
+  if (absZ >= absX && absZ >= absY) {
+    return nz >= 0 ? [0, 1] : [1, 0];
+  }
+  if (absX >= absY) {
+    return nx >= 0 ? [1, 2] : [2, 1];
+  }
+  return ny >= 0 ? [2, 0] : [0, 2];
+}
+
+/**
+ * Triangulates a simple polygon by ear clipping.
+ *
+ * The polygon need not be convex but should be approximately planar; it is projected onto the
+ * coordinate plane (among the first 3 dimensions) most closely aligned with it.  Self-intersecting
+ * or degenerate polygons still produce `vertices.length - 2` triangles, but they may not cover the
+ * polygon exactly.
+ *
+ * @returns Flat array of vertex indices, 3 per triangle.
+ */
+export function triangulatePolygon(vertices: ArrayLike<number>[]): number[] {
+  const n = vertices.length;
+  const triangles: number[] = [];
+  if (n < 3) return triangles;
+  const [u, v] = getPolygonProjectionAxes(vertices);
+  const xs = vertices.map((p) => p[u] ?? 0);
+  const ys = vertices.map((p) => p[v] ?? 0);
+  const cross = (a: number, b: number, c: number) =>
+    (xs[b] - xs[a]) * (ys[c] - ys[a]) - (ys[b] - ys[a]) * (xs[c] - xs[a]);
+  const remaining = Array.from(vertices, (_, i) => i);
+  while (remaining.length > 3) {
+    const count = remaining.length;
+    let earIndex = -1;
+    for (let i = 0; i < count && earIndex === -1; ++i) {
+      const a = remaining[(i + count - 1) % count];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % count];
+      // Reflex vertex.
+      if (cross(a, b, c) < 0) continue;
+      earIndex = i;
+      for (const p of remaining) {
+        if (p === a || p === b || p === c) continue;
+        if (cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0) {
+          earIndex = -1;
+          break;
+        }
+      }
+    }
+    if (earIndex === -1) break;
+    triangles.push(
+      remaining[(earIndex + count - 1) % count],
+      remaining[earIndex],
+      remaining[(earIndex + 1) % count],
+    );
+    remaining.splice(earIndex, 1);
+  }
+  // Fall back to a fan for whatever could not be clipped.
+  for (let i = 1; i + 1 < remaining.length; ++i) {
+    triangles.push(remaining[0], remaining[i], remaining[i + 1]);
+  }
+  return triangles;
+}
@@ -12,10 +12,19 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import type { CancellationToken } from "#src/util/cancellation.js";
 import { CANCELED, uncancelableToken } from "#src/util/cancellation.js";
+import {
+  getPersistentCacheKey,
+  isPinned,
+  noteResponseKey,
+  persistentCache,
+} from "#src/util/persistent_cache.js";
 import { Uint64 } from "#src/util/uint64.js";
 
 export class HttpError extends Error {
@@ -140,12 +149,91 @@ export function responseJson(response: Response): Promise<any> {
 
 export type ResponseTransform<T> = (response: Response) => Promise<T>;
 
+/**
+ * Issues a `GET` request in the same way as `fetchOk`, but using `persistentCache`.
+ *
+ * A cached response is revalidated using its `ETag`, and is also returned if the request fails due
+ * to a network error, which allows previously viewed data to be viewed offline.  Responses without
+ * an `ETag` are not cached.
+ *
+ * The response is stored as pinned, such that it is not subject to eviction, if
+ * `cancellationToken` is pinned.  Only pinned responses, which must be available offline, are
+ * returned after they are stored; other responses are stored without delaying the returned
+ * `Response`, and failures to store them are ignored.
+ */
+async function fetchOkWithPersistentCache(
+  input: string,
+  init: RequestInit,
+  cancellationToken: CancellationToken,
+): Promise<Response> {
+  const key = getPersistentCacheKey(input, init.headers);
+  const pinned = isPinned(cancellationToken);
+  noteResponseKey(cancellationToken, key);
+  let cached: Awaited<ReturnType<typeof persistentCache.get>>;
+  try {
+    cached = await persistentCache.get(key);
+  } catch {
+    // The cache is unavailable, e.g. due to private browsing mode.
+    cached = undefined;
+  }
+  let response: Response;
+  try {
+    let requestInit = init;
+    if (cached !== undefined) {
+      const headers = new Headers(init.headers);
+      headers.set("if-none-match", cached.entry.etag);
+      requestInit = { ...init, headers };
+    }
+    response = await fetchOk(input, requestInit);
+  } catch (error) {
+    if (
+      cached === undefined ||
+      !(error instanceof HttpError) ||
+      (error.status !== 304 && error.status !== 0)
+    ) {
+      throw error;
+    }
+    const { entry, data } = cached;
+    if (pinned && !entry.pinned) {
+      await persistentCache.put({ ...entry, pinned }, data);
+    }
+    return new Response(data, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+  }
+  const etag = response.headers.get("etag");
+  if (etag === null) return response;
+  const data = await response.arrayBuffer();
+  const { status, statusText, headers } = response;
+  const stored = persistentCache.put(
+    {
+      key,
+      etag,
+      status,
+      statusText,
+      headers: Array.from(headers),
+      pinned,
+    },
+    data,
+  );
+  if (pinned) {
+    await stored;
+  } else {
+    stored.catch(() => {});
+  }
+  return new Response(data, { status, statusText, headers });
+}
+
 /**
  * Issues a `fetch` request in the same way as `fetchOk`, and returns the result of the promise
  * returned by `transformResponse`.
  *
  * Additionally, the request may be cancelled through `cancellationToken`.
  *
+ * If `persistentCache` is enabled, `GET` requests are served through it.
+ *
  * The `transformResponse` function should not do anything with the `Response` object after its
  * result becomes ready; otherwise, cancellation may not work as expected.
  */
@@ -155,8 +243,18 @@ export async function cancellableFetchOk<T>(
   transformResponse: ResponseTransform<T>,
   cancellationToken: CancellationToken = uncancelableToken,
 ): Promise<T> {
+  const doFetch = (init: RequestInit) => {
+    if (
+      persistentCache.enabled &&
+      typeof input === "string" &&
+      (init.method ?? "GET") === "GET"
+    ) {
+      return fetchOkWithPersistentCache(input, init, cancellationToken);
+    }
+    return fetchOk(input, init);
+  };
   if (cancellationToken === uncancelableToken) {
-    const response = await fetchOk(input, init);
+    const response = await doFetch(init);
     return await transformResponse(response);
   }
   const abortController = new AbortController();
@@ -164,7 +262,7 @@ export async function cancellableFetchOk<T>(
     abortController.abort(),
   );
   try {
-    const response = await fetchOk(input, {
+    const response = await doFetch({
       ...init,
       signal: abortController.signal,
     });
@@ -0,0 +1,128 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the TIFF LZW decoder.
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeLzw } from "#src/util/lzw.js";
+
+/**
+ * Encodes data as TIFF LZW, as written by libtiff.
+ */
+function encodeLzw(
+  input: Uint8Array,
+  options: { endOfInformation?: boolean; clearEvery?: number } = {},
+): Uint8Array {
+  const { endOfInformation = true, clearEvery } = options;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeWidth = 9;
+  const writeCode = (code: number) => {
+    bitBuffer = (bitBuffer << codeWidth) | code;
+    bitCount += codeWidth;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      output.push((bitBuffer >>> bitCount) & 0xff);
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+  let table = new Map<string, number>();
+  let nextCode = 258;
+  const clear = () => {
+    writeCode(256);
+    table = new Map();
+    nextCode = 258;
+    codeWidth = 9;
+  };
+  clear();
+  let prefix = "";
+  let prefixCode = -1;
+  for (let i = 0; i < input.length; ++i) {
+    if (clearEvery !== undefined && i > 0 && i % clearEvery === 0) {
+      writeCode(prefixCode);
+      clear();
+      prefix = "";
+      prefixCode = -1;
+    }
+    const byte = input[i];
+    const extended = `${prefix},${byte}`;
+    if (prefixCode === -1) {
+      prefix = extended;
+      prefixCode = byte;
+      continue;
+    }
+    const code = table.get(extended);
+    if (code !== undefined) {
+      prefix = extended;
+      prefixCode = code;
+      continue;
+    }
+    writeCode(prefixCode);
+    table.set(extended, nextCode++);
+    if (nextCode === 4094) {
+      clear();
+    } else if (nextCode > (1 << codeWidth) - 1) {
+      ++codeWidth;
+    }
+    prefix = `,${byte}`;
+    prefixCode = byte;
+  }
+  if (prefixCode !== -1) writeCode(prefixCode);
+  if (endOfInformation) writeCode(257);
+  if (bitCount > 0) output.push((bitBuffer << (8 - bitCount)) & 0xff);
+  return Uint8Array.from(output);
+}
+
+function makeTestData(length: number) {
+  const data = new Uint8Array(length);
+  let state = 1;
+  for (let i = 0; i < length; ++i) {
+    // Mix repetitive runs with pseudo-random bytes to exercise both long and short table entries.
+    state = (state * 1103515245 + 12345) >>> 0;
+    data[i] = i % 1000 < 500 ? (i >> 4) & 0xff : state >>> 24;
+  }
+  return data;
+}
+
+describe("decodeLzw", () => {
+  it("decodes the example from the TIFF specification", () => {
+    // Encodes the bytes 7, 7, 7, 8, 8, 7, 7, 6, 6 as the codes
+    // 256, 7, 258, 8, 8, 258, 6, 6, 257.
+    const input = encodeLzw(Uint8Array.of(7, 7, 7, 8, 8, 7, 7, 6, 6));
+    expect(Array.from(decodeLzw(input))).toEqual([7, 7, 7, 8, 8, 7, 7, 6, 6]);
+  });
+
+  it("decodes data that fills the code table", () => {
+    const data = makeTestData(100000);
+    expect(decodeLzw(encodeLzw(data), data.length)).toEqual(data);
+  });
+
+  it("decodes data with explicit clear codes", () => {
+    const data = makeTestData(10000);
+    expect(decodeLzw(encodeLzw(data, { clearEvery: 777 }))).toEqual(data);
+  });
+
+  it("decodes data without an end of information code", () => {
+    const data = makeTestData(3000);
+    expect(decodeLzw(encodeLzw(data, { endOfInformation: false }))).toEqual(
+      data,
+    );
+  });
+
+  it("grows the output beyond the expected size", () => {
+    const data = new Uint8Array(5000).fill(3);
+    expect(decodeLzw(encodeLzw(data), 10)).toEqual(data);
+  });
+
+  it("rejects invalid codes", () => {
+    // Clear code followed by code 300, which is not yet defined.
+    expect(() => decodeLzw(Uint8Array.of(0x80, 0x4b, 0x00))).toThrow(
+      /Invalid LZW code: 300/,
+    );
+  });
+});
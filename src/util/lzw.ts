@@ -0,0 +1,110 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Decoder for the LZW compression variant used by TIFF.
+ *
+ * Codes are packed most significant bit first, start at 9 bits, and grow one code earlier than in
+ * GIF ("early change").  See section 13 of the TIFF 6.0 specification.
+ */
+
+const CLEAR_CODE = 256;
+const END_OF_INFORMATION_CODE = 257;
+const FIRST_CODE = 258;
+const MIN_CODE_WIDTH = 9;
+const MAX_CODE_WIDTH = 12;
+const MAX_CODES = 1 << MAX_CODE_WIDTH;
+
+/**
+ * Decodes TIFF LZW-compressed data.
+ *
+ * @param outputSize Expected size of the decoded data, used to allocate the output.  The output
+ *     is grown as needed if the data decodes to more bytes.
+ */
+export function decodeLzw(input: Uint8Array, outputSize = 0): Uint8Array {
+  // Each table entry is the entry `prefix` followed by the byte `suffix`.
+  const prefixes = new Uint16Array(MAX_CODES);
+  const suffixes = new Uint8Array(MAX_CODES);
+  const lengths = new Uint16Array(MAX_CODES);
+  const firstBytes = new Uint8Array(MAX_CODES);
+  for (let i = 0; i < CLEAR_CODE; ++i) {
+    suffixes[i] = i;
+    firstBytes[i] = i;
+    lengths[i] = 1;
+  }
+  let output = new Uint8Array(Math.max(outputSize, input.length * 2, 256));
+  let outputLength = 0;
+  const reserve = (length: number) => {
+    const required = outputLength + length;
+    if (required <= output.length) return;
+    const newOutput = new Uint8Array(Math.max(required, output.length * 2));
+    newOutput.set(output.subarray(0, outputLength));
+    output = newOutput;
+  };
+  const writeEntry = (code: number) => {
+    const length = lengths[code];
+    reserve(length);
+    for (let i = outputLength + length - 1; i >= outputLength; --i) {
+      output[i] = suffixes[code];
+      code = prefixes[code];
+    }
+    outputLength += length;
+  };
+
+  let codeWidth = MIN_CODE_WIDTH;
+  let nextCode = FIRST_CODE;
+  let previousCode = -1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let inputOffset = 0;
+  const inputLength = input.length;
+  while (true) {
+    while (bitCount < codeWidth && inputOffset < inputLength) {
+      bitBuffer = ((bitBuffer << 8) | input[inputOffset++]) >>> 0;
+      bitCount += 8;
+    }
+    // Data may end without an end of information code.
+    if (bitCount < codeWidth) break;
+    bitCount -= codeWidth;
+    const code = (bitBuffer >>> bitCount) & ((1 << codeWidth) - 1);
+    bitBuffer &= (1 << bitCount) - 1;
+    if (code === END_OF_INFORMATION_CODE) break;
+    if (code === CLEAR_CODE) {
+      codeWidth = MIN_CODE_WIDTH;
+      nextCode = FIRST_CODE;
+      previousCode = -1;
+      continue;
+    }
+    if (previousCode === -1) {
+      if (code >= CLEAR_CODE) {
+        throw new Error(`Invalid LZW code: ${code}.`);
+      }
+      writeEntry(code);
+      previousCode = code;
+      continue;
+    }
+    let firstByte: number;
+    if (code < nextCode) {
+      firstByte = firstBytes[code];
+    } else if (code === nextCode) {
+      firstByte = firstBytes[previousCode];
+    } else {
+      throw new Error(`Invalid LZW code: ${code}.`);
+    }
+    if (nextCode < MAX_CODES) {
+      prefixes[nextCode] = previousCode;
+      suffixes[nextCode] = firstByte;
+      lengths[nextCode] = lengths[previousCode] + 1;
+      firstBytes[nextCode] = firstBytes[previousCode];
+      ++nextCode;
+    }
+    writeEntry(code);
+    previousCode = code;
+    if (nextCode >= (1 << codeWidth) - 1 && codeWidth < MAX_CODE_WIDTH) {
+      ++codeWidth;
+    }
+  }
+  return output.subarray(0, outputLength);
+}
@@ -0,0 +1,60 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ */
+
+import { describe, expect, test } from "vitest";
+import { CancellationTokenSource } from "#src/util/cancellation.js";
+import {
+  getPersistentCacheKey,
+  noteResponseKey,
+  PersistentCache,
+  recordResponseKeys,
+} from "#src/util/persistent_cache.js";
+
+describe("getPersistentCacheKey", () => {
+  test("url", () => {
+    expect(getPersistentCacheKey("https://example.com/a/b")).toEqual(
+      "https://example.com/a/b",
+    );
+  });
+
+  test("range", () => {
+    expect(
+      getPersistentCacheKey("https://example.com/a", { Range: "bytes=0-9" }),
+    ).toEqual("https://example.com/a bytes=0-9");
+    expect(
+      getPersistentCacheKey("https://example.com/a", { other: "x" }),
+    ).toEqual("https://example.com/a");
+  });
+
+  test("cache-busting parameter", () => {
+    expect(
+      getPersistentCacheKey("https://example.com/a?neuroglancer=0123abcd"),
+    ).toEqual("https://example.com/a");
+    expect(
+      getPersistentCacheKey("https://example.com/a?x=1&neuroglancer=0123abcd"),
+    ).toEqual("https://example.com/a?x=1");
+    expect(
+      getPersistentCacheKey("https://example.com/a?neuroglancer=0123abcd&x=1"),
+    ).toEqual("https://example.com/a?x=1");
+  });
+});
+
+test("disabled by default", () => {
+  const cache = new PersistentCache();
+  expect(cache.enabled).toBe(false);
+});
+
+test("records response keys by cancellation token", () => {
+  const recorded = new CancellationTokenSource();
+  const other = new CancellationTokenSource();
+  const keys = new Set<string>();
+  recordResponseKeys(recorded, keys);
+  noteResponseKey(recorded, "a");
+  noteResponseKey(other, "b");
+  noteResponseKey(recorded, "c");
+  expect(Array.from(keys)).toEqual(["a", "c"]);
+});
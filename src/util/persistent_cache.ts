@@ -0,0 +1,365 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Persistent cache of HTTP responses stored in IndexedDB.
+ *
+ * Entries are keyed on the request URL and byte range, and store the `ETag` of the response so
+ * that they can be revalidated by a conditional request.  The total size of the stored responses is
+ * bounded by `sizeLimit`; when it is exceeded, the least recently used entries that are not pinned
+ * are evicted until the total size is reduced to `EVICTION_TARGET_FRACTION` of the limit.
+ */
+
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+const DATABASE_NAME = "neuroglancer-persistent-cache";
+const DATABASE_VERSION = 1;
+
+// Object store containing `PersistentCacheEntry` metadata, indexed by `lastAccess`.
+const ENTRIES_STORE = "entries";
+
+// Object store containing the response body of each entry.  Stored separately so that updating the
+// access time of an entry does not require rewriting its data.
+const DATA_STORE = "data";
+
+const LAST_ACCESS_INDEX = "lastAccess";
+
+// Fraction of `sizeLimit` to which eviction reduces the total size, such that storing subsequent
+// responses does not immediately require another eviction.
+const EVICTION_TARGET_FRACTION = 0.8;
+
+// Query parameter added to requests to defeat browser caching (see `special_protocol_request.ts`).
+const CACHE_BUSTING_PARAMETER_PATTERN = /([?&])neuroglancer=[0-9a-f]*(&?)/;
+
+export interface PersistentCacheEntry {
+  key: string;
+  etag: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  size: number;
+  lastAccess: number;
+  pinned: boolean;
+}
+
+/**
+ * Returns the cache key for a request, consisting of the URL, without any cache-busting query
+ * parameter, and the requested byte range.
+ */
+export function getPersistentCacheKey(url: string, headers?: HeadersInit) {
+  url = url.replace(
+    CACHE_BUSTING_PARAMETER_PATTERN,
+    (_match, separator: string, next: string) => (next === "" ? "" : separator),
+  );
+  const range =
+    headers === undefined ? null : new Headers(headers).get("range");
+  return range === null ? url : `${url} ${range}`;
+}
+
+const pinnedCancellationTokens = new WeakSet<CancellationToken>();
+
+/**
+ * Marks responses fetched using `cancellationToken` as pinned, meaning they are not subject to
+ * eviction.
+ */
+export function pinResponses(cancellationToken: CancellationToken) {
+  pinnedCancellationTokens.add(cancellationToken);
+}
+
+export function isPinned(cancellationToken: CancellationToken) {
+  return pinnedCancellationTokens.has(cancellationToken);
+}
+
+const responseKeyRecorders = new WeakMap<CancellationToken, Set<string>>();
+
+/**
+ * Adds to `keys` the key of each response subsequently fetched using `cancellationToken`.
+ *
+ * This allows caches of values derived from responses, such as shard indices, to pin the responses
+ * on which a value depends when it is used by a pinned request, even if it was retrieved by an
+ * earlier request that was not pinned.
+ */
+export function recordResponseKeys(
+  cancellationToken: CancellationToken,
+  keys: Set<string>,
+) {
+  responseKeyRecorders.set(cancellationToken, keys);
+}
+
+/**
+ * Notes that the response with the specified key was fetched using `cancellationToken`.
+ */
+export function noteResponseKey(
+  cancellationToken: CancellationToken,
+  key: string,
+) {
+  responseKeyRecorders.get(cancellationToken)?.add(key);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Calls `callback` with each position of a cursor, until it returns `false` or the cursor is
+ * exhausted.
+ */
+function iterateCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  callback: (cursor: IDBCursorWithValue) => boolean,
+) {
+  return new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor === null || !callback(cursor)) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: "key" });
+    entries.createIndex(LAST_ACCESS_INDEX, "lastAccess");
+    db.createObjectStore(DATA_STORE);
+  };
+  return requestToPromise(request);
+}
+
+export class PersistentCache {
+  /**
+   * Maximum total size in bytes of the stored responses.  A value of 0 disables the cache.
+   */
+  sizeLimit = 0;
+
+  private db: Promise<IDBDatabase> | undefined;
+
+  // Estimate of the total size of the stored responses, or `undefined` if not yet known.  Other
+  // tabs and threads may modify the database concurrently, so this is recomputed when evicting.
+  private totalSize: number | undefined;
+
+  // Eviction in progress, if any.
+  private evicting: Promise<void> | undefined;
+
+  get enabled() {
+    return this.sizeLimit > 0 && typeof indexedDB !== "undefined";
+  }
+
+  private getDatabase() {
+    let { db } = this;
+    if (db === undefined) {
+      db = this.db = openDatabase();
+      db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return db;
+  }
+
+  /**
+   * Returns the entry with the specified key and its data.  The entry is marked as recently used in
+   * a separate transaction, which is not awaited.
+   */
+  async get(
+    key: string,
+  ): Promise<{ entry: PersistentCacheEntry; data: ArrayBuffer } | undefined> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, DATA_STORE], "readonly");
+    const [entry, data] = await Promise.all([
+      requestToPromise<PersistentCacheEntry | undefined>(
+        transaction.objectStore(ENTRIES_STORE).get(key),
+      ),
+      requestToPromise<ArrayBuffer | undefined>(
+        transaction.objectStore(DATA_STORE).get(key),
+      ),
+    ]);
+    if (entry === undefined || data === undefined) return undefined;
+    this.touch(key).catch(() => {
+      // The access time only affects the order of eviction.
+    });
+    return { entry, data };
+  }
+
+  /**
+   * Marks the entry with the specified key, if any, as recently used.
+   */
+  private async touch(key: string) {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, "readwrite");
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const request = entries.get(key);
+    request.onsuccess = () => {
+      const entry = request.result as PersistentCacheEntry | undefined;
+      if (entry === undefined) return;
+      entry.lastAccess = Date.now();
+      entries.put(entry);
+    };
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Stores a response.  An existing entry with the same key remains pinned.
+   *
+   * The returned promise is resolved once the response is stored; any resulting eviction proceeds
+   * in the background.
+   */
+  async put(
+    entry: Omit<PersistentCacheEntry, "size" | "lastAccess">,
+    data: ArrayBuffer,
+  ) {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(
+      [ENTRIES_STORE, DATA_STORE],
+      "readwrite",
+    );
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const existing = await requestToPromise<PersistentCacheEntry | undefined>(
+      entries.get(entry.key),
+    );
+    const size = data.byteLength;
+    entries.put({
+      ...entry,
+      pinned: entry.pinned || (existing?.pinned ?? false),
+      size,
+      lastAccess: Date.now(),
+    });
+    transaction.objectStore(DATA_STORE).put(data, entry.key);
+    await transactionToPromise(transaction);
+    if (this.totalSize !== undefined) {
+      this.totalSize += size - (existing?.size ?? 0);
+    }
+    if (this.totalSize === undefined || this.totalSize > this.sizeLimit) {
+      this.evictInBackground();
+    }
+  }
+
+  private evictInBackground() {
+    if (this.evicting !== undefined) return;
+    this.evicting = this.evict()
+      .catch(() => {
+        // Retried the next time a response is stored.
+        this.totalSize = undefined;
+      })
+      .finally(() => {
+        this.evicting = undefined;
+      });
+  }
+
+  /**
+   * If the total size exceeds `sizeLimit`, removes the least recently used entries that are not
+   * pinned until the total size is within `EVICTION_TARGET_FRACTION` of `sizeLimit`.
+   *
+   * Entries are visited using cursors, such that the metadata of all entries is never held in
+   * memory at once.
+   */
+  async evict() {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(
+      [ENTRIES_STORE, DATA_STORE],
+      "readwrite",
+    );
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const data = transaction.objectStore(DATA_STORE);
+    let totalSize = 0;
+    await iterateCursor(entries.openCursor(), (cursor) => {
+      totalSize += (cursor.value as PersistentCacheEntry).size;
+      return true;
+    });
+    if (totalSize > this.sizeLimit) {
+      const targetSize = this.sizeLimit * EVICTION_TARGET_FRACTION;
+      await iterateCursor(
+        entries.index(LAST_ACCESS_INDEX).openCursor(),
+        (cursor) => {
+          const entry = cursor.value as PersistentCacheEntry;
+          if (!entry.pinned) {
+            cursor.delete();
+            data.delete(entry.key);
+            totalSize -= entry.size;
+          }
+          return totalSize > targetSize;
+        },
+      );
+    }
+    await transactionToPromise(transaction);
+    this.totalSize = totalSize;
+  }
+
+  /**
+   * Marks all entries as not pinned, such that they are subject to eviction the next time a
+   * response is stored.
+   */
+  async unpinAll() {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, "readwrite");
+    await iterateCursor(
+      transaction.objectStore(ENTRIES_STORE).openCursor(),
+      (cursor) => {
+        const entry = cursor.value as PersistentCacheEntry;
+        if (entry.pinned) {
+          cursor.update({ ...entry, pinned: false });
+        }
+        return true;
+      },
+    );
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Marks the entries with the specified keys as pinned.  Keys without an entry are ignored.
+   */
+  async pin(keys: Iterable<string>) {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, "readwrite");
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    for (const key of keys) {
+      const request = entries.get(key);
+      request.onsuccess = () => {
+        const entry = request.result as PersistentCacheEntry | undefined;
+        if (entry === undefined || entry.pinned) return;
+        entry.pinned = true;
+        entries.put(entry);
+      };
+    }
+    await transactionToPromise(transaction);
+  }
+
+  /**
+   * Removes all entries, including pinned entries.
+   */
+  async clear() {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(
+      [ENTRIES_STORE, DATA_STORE],
+      "readwrite",
+    );
+    transaction.objectStore(ENTRIES_STORE).clear();
+    transaction.objectStore(DATA_STORE).clear();
+    await transactionToPromise(transaction);
+    this.totalSize = 0;
+  }
+}
+
+/**
+ * Cache used by `cancellableFetchOk` in the current thread.  The database is shared by all threads,
+ * so `clear` and `unpinAll` affect the caches of all threads.
+ */
+export const persistentCache = new PersistentCache();
@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 /**
@@ -24,6 +27,26 @@ import type { CancellationToken } from "#src/util/cancellation.js";
 import type { BasicCompletionResult } from "#src/util/completion.js";
 import type { SpecialProtocolCredentialsProvider } from "#src/util/special_protocol_request.js";
 
+function getTextContents(doc: Document, xpath: string): string[] {
+  const nodes = doc.evaluate(
+    xpath,
+    doc,
+    null,
+    XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null,
+  );
+  const results: string[] = [];
+  for (let i = 0, n = nodes.snapshotLength; i < n; ++i) {
+    results.push(nodes.snapshotItem(i)!.textContent || "");
+  }
+  return results;
+}
+
+/**
+ * Lists the keys and common prefixes of a bucket that start with `prefix`.  Listings are truncated
+ * by the server (to 1000 entries by default), so the listing is requested one page at a time until
+ * the server reports that it is complete.
+ */
 export async function getS3BucketListing(
   credentialsProvider: SpecialProtocolCredentialsProvider,
   bucketUrl: string,
@@ -31,35 +54,38 @@ export async function getS3BucketListing(
   delimiter: string,
   cancellationToken: CancellationToken,
 ): Promise<string[]> {
-  const response = await fetchWithOAuth2Credentials(
-    credentialsProvider,
-    `${bucketUrl}?prefix=${encodeURIComponent(prefix)}` +
-      `&delimiter=${encodeURIComponent(delimiter)}`,
-    /*init=*/ {},
-    (x) => x.text(),
-    cancellationToken,
-  );
-  const doc = new DOMParser().parseFromString(response, "application/xml");
-  const commonPrefixNodes = doc.evaluate(
-    '//*[name()="CommonPrefixes"]/*[name()="Prefix"]',
-    doc,
-    null,
-    XPathResult.UNORDERED_NODE_SNAPSHOT_TYPE,
-    null,
-  );
   const results: string[] = [];
-  for (let i = 0, n = commonPrefixNodes.snapshotLength; i < n; ++i) {
-    results.push(commonPrefixNodes.snapshotItem(i)!.textContent || "");
-  }
-  const contents = doc.evaluate(
-    '//*[name()="Contents"]/*[name()="Key"]',
-    doc,
-    null,
-    XPathResult.UNORDERED_NODE_SNAPSHOT_TYPE,
-    null,
-  );
-  for (let i = 0, n = contents.snapshotLength; i < n; ++i) {
-    results.push(contents.snapshotItem(i)!.textContent || "");
+  let marker: string | undefined;
+  while (true) {
+    const response = await fetchWithOAuth2Credentials(
+      credentialsProvider,
+      `${bucketUrl}?prefix=${encodeURIComponent(prefix)}` +
+        `&delimiter=${encodeURIComponent(delimiter)}` +
+        (marker === undefined ? "" : `&marker=${encodeURIComponent(marker)}`),
+      /*init=*/ {},
+      (x) => x.text(),
+      cancellationToken,
+    );
+    const doc = new DOMParser().parseFromString(response, "application/xml");
+    const commonPrefixes = getTextContents(
+      doc,
+      '//*[name()="CommonPrefixes"]/*[name()="Prefix"]',
+    );
+    const keys = getTextContents(doc, '//*[name()="Contents"]/*[name()="Key"]');
+    results.push(...commonPrefixes, ...keys);
+    const [isTruncated] = getTextContents(doc, '//*[name()="IsTruncated"]');
+    if (isTruncated !== "true") break;
+    // `NextMarker` is only returned when a delimiter is specified; otherwise the listing continues
+    // after the last key.
+    const [nextMarker] = getTextContents(doc, '//*[name()="NextMarker"]');
+    const lastEntry = [...commonPrefixes, ...keys].sort().pop();
+    const newMarker = nextMarker || lastEntry;
+    if (newMarker === undefined || newMarker === marker) {
+      throw new Error(
+        `Listing of ${bucketUrl} with prefix ${JSON.stringify(prefix)} is truncated`,
+      );
+    }
+    marker = newMarker;
   }
   return results;
 }
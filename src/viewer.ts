@@ -12,6 +12,9 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import "#src/viewer.css";
@@ -312,6 +315,10 @@ class TrackableViewerState extends CompoundTrackable {
       "concurrentDownloads",
       viewer.dataContext.chunkQueueManager.capacities.download.itemLimit,
     );
+    this.add(
+      "persistentCacheLimit",
+      viewer.dataContext.chunkQueueManager.persistentCacheSizeLimit,
+    );
     this.add("selectedLayer", viewer.selectedLayer);
     this.add("crossSectionBackgroundColor", viewer.crossSectionBackgroundColor);
     this.add(
@@ -1083,6 +1090,18 @@ export class Viewer extends RefCounted implements ViewerState {
       userLayer.tool.value.trigger(this.mouseState);
     });
 
+    this.bindAction("undo-annotation-edit", () => {
+      this.layerSpecification.annotationEditHistory.undo();
+    });
+
+    this.bindAction("redo-annotation-edit", () => {
+      this.layerSpecification.annotationEditHistory.redo();
+    });
+
+    this.bindAction("complete-annotation", () => {
+      this.selectedLayer.layer?.layer?.tool.value?.complete();
+    });
+
     this.bindAction("toggle-axis-lines", () => this.showAxisLines.toggle());
     this.bindAction("toggle-scale-bar", () => this.showScaleBar.toggle());
     this.bindAction("toggle-default-annotations", () =>
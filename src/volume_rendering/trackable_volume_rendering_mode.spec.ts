@@ -0,0 +1,40 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Tests for the volume rendering mode.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isProjectionMode,
+  trackableVolumeRenderingModeValue,
+  VolumeRenderingModes,
+} from "#src/volume_rendering/trackable_volume_rendering_mode.js";
+
+describe("TrackableVolumeRenderingModeValue", () => {
+  it("restores boolean and string representations", () => {
+    const mode = trackableVolumeRenderingModeValue();
+    expect(mode.toJSON()).toBeUndefined();
+    mode.restoreState(true);
+    expect(mode.value).toBe(VolumeRenderingModes.ON);
+    expect(mode.toJSON()).toBe(true);
+    mode.restoreState("max");
+    expect(mode.value).toBe(VolumeRenderingModes.MAX);
+    expect(mode.toJSON()).toBe("max");
+    mode.restoreState(false);
+    expect(mode.value).toBe(VolumeRenderingModes.OFF);
+    mode.restoreState("min");
+    mode.restoreState(undefined);
+    expect(mode.value).toBe(VolumeRenderingModes.OFF);
+    expect(() => mode.restoreState("brightest")).toThrow();
+  });
+
+  it("identifies projection modes", () => {
+    expect(isProjectionMode(VolumeRenderingModes.ON)).toBe(false);
+    expect(isProjectionMode(VolumeRenderingModes.MAX)).toBe(true);
+    expect(isProjectionMode(VolumeRenderingModes.MIN)).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+/*
+ * Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+ * Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+ * SPDX-License-Identifier: BSD-2-Clause
+ * The software/firmware is provided to you on an As-Is basis
+ *
+ * @file Volume rendering mode of image layers.
+ */
+
+import { TrackableEnum } from "#src/util/trackable_enum.js";
+
+export enum VolumeRenderingModes {
+  OFF = 0,
+  ON = 1,
+  MAX = 2,
+  MIN = 3,
+}
+
+/**
+ * Returns `true` for the maximum and minimum intensity projection modes, in which each ray shows
+ * the single sample with the most extreme intensity rather than compositing all samples.
+ */
+export function isProjectionMode(mode: VolumeRenderingModes) {
+  return mode === VolumeRenderingModes.MAX || mode === VolumeRenderingModes.MIN;
+}
+
+/**
+ * Volume rendering mode, which is also restored from the boolean representation used before
+ * projection modes were supported.  For compatibility, the `ON` mode is saved as `true`.
+ */
+export class TrackableVolumeRenderingModeValue extends TrackableEnum<VolumeRenderingModes> {
+  constructor(initialValue = VolumeRenderingModes.OFF) {
+    super(VolumeRenderingModes, initialValue);
+  }
+
+  restoreState(obj: any) {
+    if (obj === undefined) {
+      this.reset();
+    } else if (typeof obj === "boolean") {
+      this.value = obj ? VolumeRenderingModes.ON : VolumeRenderingModes.OFF;
+    } else {
+      super.restoreState(obj);
+    }
+  }
+
+  toJSON(): any {
+    if (this.value === VolumeRenderingModes.ON) return true;
+    return super.toJSON();
+  }
+}
+
+export function trackableVolumeRenderingModeValue(
+  initialValue = VolumeRenderingModes.OFF,
+) {
+  return new TrackableVolumeRenderingModeValue(initialValue);
+}
@@ -12,12 +12,15 @@
  * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
  * See the License for the specific language governing permissions and
  * limitations under the License.
+ * 
+ * @modifcations
+ * MIT modified this file. For more information see the NOTICES.txt file
  */
 
 import { ChunkState } from "#src/chunk_manager/base.js";
 import { ChunkRenderLayerFrontend } from "#src/chunk_manager/frontend.js";
 import type { CoordinateSpace } from "#src/coordinate_transform.js";
-import type { VisibleLayerInfo } from "#src/layer/index.js";
+import type { PickState, VisibleLayerInfo } from "#src/layer/index.js";
 import type { PerspectivePanel } from "#src/perspective_view/panel.js";
 import type {
   PerspectiveViewReadyRenderContext,
@@ -63,6 +66,10 @@ import {
   VOLUME_RENDERING_RENDER_LAYER_RPC_ID,
   VOLUME_RENDERING_RENDER_LAYER_UPDATE_SOURCES_RPC_ID,
 } from "#src/volume_rendering/base.js";
+import {
+  isProjectionMode,
+  VolumeRenderingModes,
+} from "#src/volume_rendering/trackable_volume_rendering_mode.js";
 import {
   drawBoxes,
   glsl_getBoxFaceVertexPosition,
@@ -103,6 +110,33 @@ void emitRGBA(vec4 rgba) {
 }
 `;
 
+/**
+ * In the projection modes, `emitRGBA` keeps the sample with the most extreme intensity along the
+ * ray.  The intensity of a sample is its alpha value unless specified by calling `emitIntensity`.
+ */
+function getEmitRGBAProjection(mode: VolumeRenderingModes) {
+  const comparison = mode === VolumeRenderingModes.MAX ? ">" : "<";
+  return `
+float sampleIntensity;
+bool hasSampleIntensity;
+vec4 projectionColor;
+float projectionIntensity;
+float projectionDepth;
+void emitIntensity(float value) {
+  sampleIntensity = value;
+  hasSampleIntensity = true;
+}
+void emitRGBA(vec4 rgba) {
+  float intensity = clamp(hasSampleIntensity ? sampleIntensity : rgba.a, 0.0, 1.0);
+  if (intensity ${comparison} projectionIntensity) {
+    projectionIntensity = intensity;
+    projectionColor = vec4(rgba.rgb, clamp(rgba.a * uGain, 0.0, 1.0));
+    projectionDepth = depthAtRayPosition;
+  }
+}
+`;
+}
+
 type TransformedVolumeSource = FrontendTransformedSource<
   SliceViewRenderLayer,
   VolumeChunkSource
@@ -114,6 +148,7 @@ interface VolumeRenderingAttachmentState {
 
 export interface VolumeRenderingRenderLayerOptions {
   gain: WatchableValueInterface<number>;
+  mode: WatchableValueInterface<VolumeRenderingModes>;
   multiscaleSource: MultiscaleVolumeChunkSource;
   transform: WatchableValueInterface<RenderLayerTransformOrError>;
   shaderError: WatchableShaderError;
@@ -150,6 +185,7 @@ function clampAndRoundResolutionTargetValue(value: number) {
 
 export class VolumeRenderingRenderLayer extends PerspectiveViewRenderLayer {
   gain: WatchableValueInterface<number>;
+  mode: WatchableValueInterface<VolumeRenderingModes>;
   multiscaleSource: MultiscaleVolumeChunkSource;
   transform: WatchableValueInterface<RenderLayerTransformOrError>;
   channelCoordinateSpace: WatchableValueInterface<CoordinateSpace>;
@@ -161,7 +197,12 @@ export class VolumeRenderingRenderLayer extends PerspectiveViewRenderLayer {
   private vertexIdHelper: VertexIdHelper;
 
   private shaderGetter: ParameterizedContextDependentShaderGetter<
-    { emitter: ShaderModule; chunkFormat: ChunkFormat; wireFrame: boolean },
+    {
+      emitter: ShaderModule;
+      chunkFormat: ChunkFormat;
+      wireFrame: boolean;
+      mode: VolumeRenderingModes;
+    },
     ShaderControlsBuilderState,
     number
   >;
@@ -178,9 +219,14 @@ export class VolumeRenderingRenderLayer extends PerspectiveViewRenderLayer {
     return true;
   }
 
+  get isProjection() {
+    return isProjectionMode(this.mode.value);
+  }
+
   constructor(options: VolumeRenderingRenderLayerOptions) {
     super();
     this.gain = options.gain;
+    this.mode = options.mode;
     this.multiscaleSource = options.multiscaleSource;
     this.transform = options.transform;
     this.channelCoordinateSpace = options.channelCoordinateSpace;
@@ -203,13 +249,13 @@ export class VolumeRenderingRenderLayer extends PerspectiveViewRenderLayer {
       {
         memoizeKey: "VolumeRenderingRenderLayer",
         parameters: options.shaderControlState.builderState,
-        getContextKey: ({ emitter, chunkFormat, wireFrame }) =>
-          `${getObjectId(emitter)}:${chunkFormat.shaderKey}:${wireFrame}`,
+        getContextKey: ({ emitter, chunkFormat, wireFrame, mode }) =>
+          `${getObjectId(emitter)}:${chunkFormat.shaderKey}:${wireFrame}:${mode}`,
         shaderError: options.shaderError,
         extraParameters: numChannelDimensions,
         defineShader: (
           builder,
-          { emitter, chunkFormat, wireFrame },
+          { emitter, chunkFormat, wireFrame, mode },
           shaderBuilderState,
           numChannelDimensions,
         ) => {
@@ -244,6 +290,7 @@ export class VolumeRenderingRenderLayer extends PerspectiveViewRenderLayer {
 
           builder.addUniform("highp float", "uBrightnessFactor");
           builder.addUniform("highp float", "uGain");
+          builder.addUniform("highp uint", "uPickId");
           builder.addVarying("highp vec4", "vNormalizedPosition");
           builder.addTextureSampler(
             "sampler2D",
@@ -271,8 +318,12 @@ void userMain();
             numChannelDimensions,
             "curChunkPosition",
           );
+          const projection = isProjectionMode(mode);
           builder.addFragmentCode([
-            glsl_emitRGBAVolumeRendering,
+            projection
+              ? getEmitRGBAProjection(mode)
+              : glsl_emitRGBAVolumeRendering +
+                "void emitIntensity(float value) {}\n",
             `
 void emitRGB(vec3 rgb) {
   emitRGBA(vec4(rgb, 1.0));
@@ -293,6 +344,27 @@ vec2 computeUVFromClipSpace(vec4 clipSpacePosition) {
 }
 `,
           ]);
+          // In the projection modes, the initial intensity is never replaced by a sample, and the
+          // depth test selects the sample with the lowest priority across chunks.
+          const initialIntensity =
+            mode === VolumeRenderingModes.MAX ? "0.0" : "1.0";
+          const priority =
+            mode === VolumeRenderingModes.MAX
+              ? "1.0 - projectionIntensity"
+              : "projectionIntensity";
+          const initializeOutput = projection
+            ? `projectionColor = vec4(0.0);
+  projectionIntensity = ${initialIntensity};
+  projectionDepth = 0.0;`
+            : `outputColor = vec4(0, 0, 0, 0);
+  revealage = 1.0;`;
+          const beginSample = projection ? "hasSampleIntensity = false;" : "";
+          const emitOutput = projection
+            ? `if (projectionIntensity == ${initialIntensity}) {
+    discard;
+  }
+  emitProjection(projectionColor, projectionDepth, ${priority}, uPickId);`
+            : "emitAccumAndRevealage(outputColor, 1.0 - revealage, 0u);";
           if (wireFrame) {
             builder.setFragmentMainFunction(`
 void main() {
@@ -337,8 +409,7 @@ void main() {
   float stepSize = (uFarLimitFraction - uNearLimitFraction) / float(uMaxSteps - 1);
   int startStep = int(floor((intersectStart - uNearLimitFraction) / stepSize));
   int endStep = min(uMaxSteps, int(floor((intersectEnd - uNearLimitFraction) / stepSize)) + 1);
-  outputColor = vec4(0, 0, 0, 0);
-  revealage = 1.0;
+  ${initializeOutput}
   for (int step = startStep; step < endStep; ++step) {
     vec3 position = mix(nearPoint, farPoint, uNearLimitFraction + float(step) * stepSize);
     vec4 clipSpacePosition = uModelViewProjectionMatrix * vec4(position, 1.0);
@@ -350,9 +421,10 @@ void main() {
       break;
     }
     curChunkPosition = position - uTranslation;
+    ${beginSample}
     userMain();
   }
-  emitAccumAndRevealage(outputColor, 1.0 - revealage, 0u);
+  ${emitOutput}
 }
 `);
           }
@@ -372,6 +444,7 @@ void main() {
       this.depthSamplesTarget.changed.add(this.redrawNeeded.dispatch),
     );
     this.registerDisposer(this.gain.changed.add(this.redrawNeeded.dispatch));
+    this.registerDisposer(this.mode.changed.add(this.redrawNeeded.dispatch));
     this.registerDisposer(
       this.shaderControlState.changed.add(this.redrawNeeded.dispatch),
     );
@@ -408,6 +481,12 @@ void main() {
     return this.multiscaleSource.dataType;
   }
 
+  transformPickedValue(_pickState: PickState) {
+    // The pick identifies only the position of the projected sample.  The value at that position
+    // is obtained from the cross-section render layers.
+    return undefined;
+  }
+
   attach(
     attachment: VisibleLayerInfo<
       PerspectivePanel,
@@ -541,6 +620,12 @@ void main() {
     const chunkRank = this.multiscaleSource.rank;
     const chunkPosition = vec3.create();
 
+    // In the projection modes, the position of the projected sample may be picked.
+    const pickId =
+      this.isProjection && renderContext.emitPickID
+        ? renderContext.pickIDs.register(this)
+        : 0;
+
     gl.enable(WebGL2RenderingContext.CULL_FACE);
     gl.cullFace(WebGL2RenderingContext.FRONT);
 
@@ -580,10 +665,12 @@ void main() {
             emitter: renderContext.emitter,
             chunkFormat: chunkFormat!,
             wireFrame: renderContext.wireFrame,
+            mode: this.mode.value,
           });
           shader = shaderResult.shader;
           if (shader !== null) {
             shader.bind();
+            gl.uniform1ui(shader.uniform("uPickId"), pickId);
             if (chunkFormat !== null) {
               setControlsInShader(
                 gl,
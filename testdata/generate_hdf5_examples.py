@@ -0,0 +1,57 @@
+#!/usr/bin/env python3
+
+# Copyright (C) 2024, MASSACHUSETTS INSTITUTE OF TECHNOLOGY
+# Subject to FAR 52.227-11 – Patent Rights – Ownership by the Contractor (May 2014)
+# SPDX-License-Identifier: BSD-2-Clause
+# The software/firmware is provided to you on an As-Is basis
+
+# This file generates hdf5_test.*.h5 files for use by
+# src/datasource/hdf5/file.spec.ts.
+#
+# hdf5_test.v0.h5 uses the default (earliest) file format, with a version 0 superblock, symbol
+# table groups and version 1 B-tree chunk indexes.  hdf5_test.v3.h5 uses the latest file format,
+# with a version 3 superblock, compact link storage and fixed array chunk indexes.
+#
+# This should be run from within the testdata/ directory.
+
+import h5py
+import numpy as np
+
+
+def write_file(name, libver):
+    with h5py.File(name, "w", libver=libver) as f:
+        volumes = f.create_group("volumes")
+        raw = volumes.create_dataset(
+            "raw",
+            data=np.arange(5 * 6 * 7, dtype="<u2").reshape(5, 6, 7),
+            chunks=(2, 3, 4),
+            compression="gzip",
+        )
+        raw.attrs["resolution"] = np.array([40, 4, 4], dtype=np.float64)
+        volumes.create_dataset(
+            "contiguous",
+            data=np.arange(-30, 30, dtype="<i2").reshape(3, 4, 5),
+        )
+        volumes.create_dataset(
+            "uncompressed",
+            data=(np.arange(5 * 6 * 7) % 251).astype(np.uint8).reshape(5, 6, 7),
+            chunks=(2, 3, 4),
+        )
+        detections = f.create_dataset(
+            "detections",
+            data=np.array(
+                [(1, 2, 3, 0.5, 1), (4, 5, 6, 0.25, 2), (7.5, 8, 9, 1, 0)],
+                dtype=[
+                    ("z", "<f4"),
+                    ("y", "<f4"),
+                    ("x", "<f4"),
+                    ("score", "<f4"),
+                    ("label", "u1"),
+                ],
+            ),
+        )
+        detections.attrs["resolution"] = np.array([40, 4, 4], dtype=np.float64)
+
+
+write_file("hdf5_test.v0.h5", "earliest")
+write_file("hdf5_test.v3.h5", "latest")
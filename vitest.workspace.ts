@@ -4,7 +4,10 @@ export default defineWorkspace([
   {
     test: {
       environment: "node",
-      setupFiles: ["./build_tools/vitest/setup-crypto.ts"],
+      setupFiles: [
+        "./build_tools/vitest/setup-crypto.ts",
+        "./build_tools/vitest/setup-navigator.ts",
+      ],
       include: ["src/**/*.spec.ts"],
       benchmark: {
         include: ["src/**/*.benchmark.ts"],